@@ -0,0 +1,51 @@
+-- Admin Roles Migration Script
+-- Gives every existing ADMIN an explicit role. Admins without one only get the read-only
+-- AUDITOR permissions, so run this once after prisma db push.
+--
+-- Super admins are named on purpose, never inferred. Pass their phone numbers to psql:
+--   psql "$DATABASE_URL" -v super_admin_phones="'+963999999999'" -f prisma/manual_admin_roles_migration.sql
+-- (several: -v super_admin_phones="'+9639...','+9639...'"). Without the variable psql stops at PHASE 2.
+
+\set ON_ERROR_STOP on
+
+-- ============================================
+-- PHASE 1: Admins without a role (review before assigning)
+-- ============================================
+
+SELECT id, phone, "fullName", "createdAt"
+FROM "User"
+WHERE "userType" = 'ADMIN'
+AND "adminRole" IS NULL
+AND phone <> 'CENTRAL_BANK'
+ORDER BY "createdAt";
+
+-- ============================================
+-- PHASE 2: Explicit super admins
+-- ============================================
+
+UPDATE "User"
+SET "adminRole" = 'SUPER_ADMIN'
+WHERE "userType" = 'ADMIN'
+AND "adminRole" IS NULL
+AND phone IN (:super_admin_phones);
+
+-- ============================================
+-- PHASE 3: Everyone else - least privileged
+-- ============================================
+
+-- Reassign finance / compliance / support staff from /admin/roles afterwards
+UPDATE "User"
+SET "adminRole" = 'AUDITOR'
+WHERE "userType" = 'ADMIN'
+AND "adminRole" IS NULL;
+
+-- ============================================
+-- PHASE 4: Verify migration
+-- ============================================
+
+-- Must return at least one active SUPER_ADMIN and no NULL roles
+SELECT "adminRole", COUNT(*) AS admins, COUNT(*) FILTER (WHERE "isActive") AS active
+FROM "User"
+WHERE "userType" = 'ADMIN'
+GROUP BY "adminRole"
+ORDER BY "adminRole";
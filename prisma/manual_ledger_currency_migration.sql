@@ -0,0 +1,95 @@
+-- Ledger Currency Migration Script
+-- Stores the currency on LedgerEntry / LedgerEntryLine and backfills historical rows
+-- Run this AFTER prisma db push (safe to re-run: only rows with a NULL currency are touched)
+
+-- ============================================
+-- PHASE 1: Add currency columns
+-- ============================================
+
+ALTER TABLE "LedgerEntry" ADD COLUMN IF NOT EXISTS "currency" TEXT;
+ALTER TABLE "LedgerEntryLine" ADD COLUMN IF NOT EXISTS "currency" TEXT;
+
+DROP INDEX IF EXISTS "LedgerEntryLine_accountId_idx";
+CREATE INDEX IF NOT EXISTS "LedgerEntryLine_accountId_currency_idx" ON "LedgerEntryLine"("accountId", "currency");
+
+-- ============================================
+-- PHASE 2: Lines of entries linked to a transaction
+-- ============================================
+
+-- Transaction.ledgerEntryId points at the entry - take the transaction's currency
+-- (skipped when the linked transactions disagree on currency)
+UPDATE "LedgerEntryLine" l
+SET currency = linked.currency
+FROM (
+    SELECT t."ledgerEntryId" AS "entryId", MIN(t.currency) AS currency
+    FROM "Transaction" t
+    WHERE t."ledgerEntryId" IS NOT NULL
+    GROUP BY t."ledgerEntryId"
+    HAVING COUNT(DISTINCT t.currency) = 1
+) linked
+WHERE l."entryId" = linked."entryId"
+AND l.currency IS NULL;
+
+-- ============================================
+-- PHASE 3: Lines of entries without a link
+-- ============================================
+
+-- Exchanges used to post the from-currency leg as a separate, unlinked entry
+-- and kept its id in the transaction metadata
+UPDATE "LedgerEntryLine" l
+SET currency = t.metadata::jsonb ->> 'fromCurrency'
+FROM "Transaction" t
+WHERE t.type = 'EXCHANGE'
+AND t.metadata IS NOT NULL
+AND t.metadata::jsonb ->> 'fromLedgerEntryId' = l."entryId"
+AND l.currency IS NULL;
+
+-- Held release/refund and profit distribution/withdrawal entries end with the transaction reference
+UPDATE "LedgerEntryLine" l
+SET currency = t.currency
+FROM "LedgerEntry" e, "Transaction" t
+WHERE e.id = l."entryId"
+AND e.description LIKE '%: ' || t."referenceNumber"
+AND l.currency IS NULL;
+
+-- ============================================
+-- PHASE 4: Entry currency from its lines
+-- ============================================
+
+UPDATE "LedgerEntry" e
+SET currency = CASE WHEN lines.currencies = 1 THEN lines.currency ELSE 'MULTI' END
+FROM (
+    SELECT "entryId", COUNT(DISTINCT currency) AS currencies, MIN(currency) AS currency
+    FROM "LedgerEntryLine"
+    GROUP BY "entryId"
+    HAVING COUNT(*) = COUNT(currency)
+) lines
+WHERE e.id = lines."entryId"
+AND e.currency IS NULL;
+
+-- ============================================
+-- PHASE 5: Verify migration
+-- ============================================
+
+-- Entries whose currency could not be derived - fix these by hand
+SELECT e.id, e."entryNumber", e.description, e."createdAt"
+FROM "LedgerEntry" e
+WHERE e.currency IS NULL
+ORDER BY e."createdAt";
+
+-- Every entry must balance per currency
+SELECT l."entryId", l.currency, SUM(l.debit) AS debit, SUM(l.credit) AS credit
+FROM "LedgerEntryLine" l
+WHERE l.currency IS NOT NULL
+GROUP BY l."entryId", l.currency
+HAVING ABS(SUM(l.debit) - SUM(l.credit)) > 0.01;
+
+-- Ledger account balances re-aggregated per currency (compare with balance / balanceSYP)
+SELECT
+    a.code,
+    l.currency,
+    SUM(CASE WHEN a.type IN ('ASSET', 'EXPENSE') THEN l.debit - l.credit ELSE l.credit - l.debit END) AS balance
+FROM "LedgerEntryLine" l
+JOIN "LedgerAccount" a ON a.id = l."accountId"
+GROUP BY a.code, l.currency
+ORDER BY a.code, l.currency;
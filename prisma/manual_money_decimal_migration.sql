@@ -0,0 +1,181 @@
+-- Money Decimal Migration Script
+-- Moves every balance and amount column from DOUBLE PRECISION (Float) to NUMERIC(20, 2) (Decimal)
+-- Run this BEFORE prisma db push, so the push finds the columns already converted
+-- (safe to re-run: converting a NUMERIC(20, 2) column again changes nothing)
+--
+-- Left as Float on purpose: limits and fee settings (SystemSettings, KYC tiers, approvals),
+-- exchange rates, risk scores and the totals inside balance snapshots - none of them move money.
+
+-- ============================================
+-- PHASE 0: Ledger entries whose hash will no longer verify
+-- ============================================
+
+-- The hash chain hashes the stored amounts. A Float that was not exactly 2 decimals
+-- (e.g. 10.000000000000002) is rounded below, so these entries will report HASH_MISMATCH
+-- in npm run ledger:verify. Export this list before migrating and keep it with the audit trail.
+SELECT e.id, e."entryNumber", e.sequence, e."totalDebit", e."totalCredit"
+FROM "LedgerEntry" e
+WHERE e.sequence IS NOT NULL
+AND (
+    ROUND(e."totalDebit"::numeric, 2)::float8 <> e."totalDebit"
+    OR ROUND(e."totalCredit"::numeric, 2)::float8 <> e."totalCredit"
+    OR EXISTS (
+        SELECT 1 FROM "LedgerEntryLine" l
+        WHERE l."entryId" = e.id
+        AND (ROUND(l.debit::numeric, 2)::float8 <> l.debit OR ROUND(l.credit::numeric, 2)::float8 <> l.credit)
+    )
+)
+ORDER BY e.sequence;
+
+-- ============================================
+-- PHASE 1: Ledger
+-- ============================================
+
+ALTER TABLE "LedgerEntry"
+    ALTER COLUMN "totalDebit" TYPE NUMERIC(20, 2) USING ROUND("totalDebit"::numeric, 2),
+    ALTER COLUMN "totalCredit" TYPE NUMERIC(20, 2) USING ROUND("totalCredit"::numeric, 2);
+
+ALTER TABLE "LedgerEntryLine"
+    ALTER COLUMN "debit" TYPE NUMERIC(20, 2) USING ROUND("debit"::numeric, 2),
+    ALTER COLUMN "credit" TYPE NUMERIC(20, 2) USING ROUND("credit"::numeric, 2);
+
+ALTER TABLE "LedgerAccount"
+    ALTER COLUMN "balance" TYPE NUMERIC(20, 2) USING ROUND("balance"::numeric, 2),
+    ALTER COLUMN "balanceSYP" TYPE NUMERIC(20, 2) USING ROUND("balanceSYP"::numeric, 2);
+
+-- ============================================
+-- PHASE 2: Wallets, agents and merchants
+-- ============================================
+
+ALTER TABLE "Wallet"
+    ALTER COLUMN "balance" TYPE NUMERIC(20, 2) USING ROUND("balance"::numeric, 2),
+    ALTER COLUMN "frozenBalance" TYPE NUMERIC(20, 2) USING ROUND("frozenBalance"::numeric, 2);
+
+ALTER TABLE "AgentProfile"
+    ALTER COLUMN "creditLimit" TYPE NUMERIC(20, 2) USING ROUND("creditLimit"::numeric, 2),
+    ALTER COLUMN "currentCredit" TYPE NUMERIC(20, 2) USING ROUND("currentCredit"::numeric, 2),
+    ALTER COLUMN "cashCollected" TYPE NUMERIC(20, 2) USING ROUND("cashCollected"::numeric, 2),
+    ALTER COLUMN "totalDeposits" TYPE NUMERIC(20, 2) USING ROUND("totalDeposits"::numeric, 2),
+    ALTER COLUMN "totalWithdrawals" TYPE NUMERIC(20, 2) USING ROUND("totalWithdrawals"::numeric, 2),
+    ALTER COLUMN "creditLimitSYP" TYPE NUMERIC(20, 2) USING ROUND("creditLimitSYP"::numeric, 2),
+    ALTER COLUMN "currentCreditSYP" TYPE NUMERIC(20, 2) USING ROUND("currentCreditSYP"::numeric, 2),
+    ALTER COLUMN "cashCollectedSYP" TYPE NUMERIC(20, 2) USING ROUND("cashCollectedSYP"::numeric, 2),
+    ALTER COLUMN "totalDepositsSYP" TYPE NUMERIC(20, 2) USING ROUND("totalDepositsSYP"::numeric, 2),
+    ALTER COLUMN "totalWithdrawalsSYP" TYPE NUMERIC(20, 2) USING ROUND("totalWithdrawalsSYP"::numeric, 2),
+    ALTER COLUMN "pendingDebt" TYPE NUMERIC(20, 2) USING ROUND("pendingDebt"::numeric, 2),
+    ALTER COLUMN "pendingDebtSYP" TYPE NUMERIC(20, 2) USING ROUND("pendingDebtSYP"::numeric, 2);
+
+ALTER TABLE "MerchantProfile"
+    ALTER COLUMN "totalSales" TYPE NUMERIC(20, 2) USING ROUND("totalSales"::numeric, 2),
+    ALTER COLUMN "totalSalesSYP" TYPE NUMERIC(20, 2) USING ROUND("totalSalesSYP"::numeric, 2);
+
+-- ============================================
+-- PHASE 3: Transactions and internal accounts
+-- ============================================
+
+ALTER TABLE "Transaction"
+    ALTER COLUMN "amount" TYPE NUMERIC(20, 2) USING ROUND("amount"::numeric, 2),
+    ALTER COLUMN "fee" TYPE NUMERIC(20, 2) USING ROUND("fee"::numeric, 2),
+    ALTER COLUMN "platformFee" TYPE NUMERIC(20, 2) USING ROUND("platformFee"::numeric, 2),
+    ALTER COLUMN "agentFee" TYPE NUMERIC(20, 2) USING ROUND("agentFee"::numeric, 2),
+    ALTER COLUMN "netAmount" TYPE NUMERIC(20, 2) USING ROUND("netAmount"::numeric, 2),
+    ALTER COLUMN "refundedAmount" TYPE NUMERIC(20, 2) USING ROUND("refundedAmount"::numeric, 2);
+
+ALTER TABLE "internal_accounts"
+    ALTER COLUMN "balance" TYPE NUMERIC(20, 2) USING ROUND("balance"::numeric, 2),
+    ALTER COLUMN "balanceSYP" TYPE NUMERIC(20, 2) USING ROUND("balanceSYP"::numeric, 2),
+    ALTER COLUMN "frozenBalance" TYPE NUMERIC(20, 2) USING ROUND("frozenBalance"::numeric, 2),
+    ALTER COLUMN "frozenBalanceSYP" TYPE NUMERIC(20, 2) USING ROUND("frozenBalanceSYP"::numeric, 2);
+
+ALTER TABLE "held_transactions"
+    ALTER COLUMN "holdAmount" TYPE NUMERIC(20, 2) USING ROUND("holdAmount"::numeric, 2),
+    ALTER COLUMN "payeeAmount" TYPE NUMERIC(20, 2) USING ROUND("payeeAmount"::numeric, 2),
+    ALTER COLUMN "feeAmount" TYPE NUMERIC(20, 2) USING ROUND("feeAmount"::numeric, 2);
+
+ALTER TABLE "settlements"
+    ALTER COLUMN "requestedAmount" TYPE NUMERIC(20, 2) USING ROUND("requestedAmount"::numeric, 2),
+    ALTER COLUMN "creditUsed" TYPE NUMERIC(20, 2) USING ROUND("creditUsed"::numeric, 2),
+    ALTER COLUMN "cashCollected" TYPE NUMERIC(20, 2) USING ROUND("cashCollected"::numeric, 2),
+    ALTER COLUMN "platformShare" TYPE NUMERIC(20, 2) USING ROUND("platformShare"::numeric, 2),
+    ALTER COLUMN "agentShare" TYPE NUMERIC(20, 2) USING ROUND("agentShare"::numeric, 2),
+    ALTER COLUMN "amountDue" TYPE NUMERIC(20, 2) USING ROUND("amountDue"::numeric, 2),
+    ALTER COLUMN "creditGiven" TYPE NUMERIC(20, 2) USING ROUND("creditGiven"::numeric, 2),
+    ALTER COLUMN "cashToReceive" TYPE NUMERIC(20, 2) USING ROUND("cashToReceive"::numeric, 2),
+    ALTER COLUMN "creditDeducted" TYPE NUMERIC(20, 2) USING ROUND("creditDeducted"::numeric, 2);
+
+ALTER TABLE "merchant_refunds"
+    ALTER COLUMN "amount" TYPE NUMERIC(20, 2) USING ROUND("amount"::numeric, 2);
+
+ALTER TABLE "service_purchases"
+    ALTER COLUMN "amount" TYPE NUMERIC(20, 2) USING ROUND("amount"::numeric, 2),
+    ALTER COLUMN "fee" TYPE NUMERIC(20, 2) USING ROUND("fee"::numeric, 2),
+    ALTER COLUMN "platformFee" TYPE NUMERIC(20, 2) USING ROUND("platformFee"::numeric, 2),
+    ALTER COLUMN "agentFee" TYPE NUMERIC(20, 2) USING ROUND("agentFee"::numeric, 2),
+    ALTER COLUMN "netAmount" TYPE NUMERIC(20, 2) USING ROUND("netAmount"::numeric, 2),
+    ALTER COLUMN "totalAmount" TYPE NUMERIC(20, 2) USING ROUND("totalAmount"::numeric, 2);
+
+ALTER TABLE "payout_batches"
+    ALTER COLUMN "totalAmount" TYPE NUMERIC(20, 2) USING ROUND("totalAmount"::numeric, 2),
+    ALTER COLUMN "totalFee" TYPE NUMERIC(20, 2) USING ROUND("totalFee"::numeric, 2);
+
+ALTER TABLE "payout_batch_items"
+    ALTER COLUMN "amount" TYPE NUMERIC(20, 2) USING ROUND("amount"::numeric, 2),
+    ALTER COLUMN "fee" TYPE NUMERIC(20, 2) USING ROUND("fee"::numeric, 2);
+
+ALTER TABLE "ProfitWithdrawal"
+    ALTER COLUMN "amount" TYPE NUMERIC(20, 2) USING ROUND("amount"::numeric, 2);
+
+-- ============================================
+-- PHASE 4: Quotes, requests and pending transfers
+-- ============================================
+
+ALTER TABLE "exchange_quotes"
+    ALTER COLUMN "fromAmount" TYPE NUMERIC(20, 2) USING ROUND("fromAmount"::numeric, 2),
+    ALTER COLUMN "toAmount" TYPE NUMERIC(20, 2) USING ROUND("toAmount"::numeric, 2),
+    ALTER COLUMN "midAmount" TYPE NUMERIC(20, 2) USING ROUND("midAmount"::numeric, 2),
+    ALTER COLUMN "spread" TYPE NUMERIC(20, 2) USING ROUND("spread"::numeric, 2);
+
+ALTER TABLE "merchant_dynamic_qrs"
+    ALTER COLUMN "amount" TYPE NUMERIC(20, 2) USING ROUND("amount"::numeric, 2);
+
+ALTER TABLE "TransferOTP"
+    ALTER COLUMN "amount" TYPE NUMERIC(20, 2) USING ROUND("amount"::numeric, 2);
+
+ALTER TABLE "payment_requests"
+    ALTER COLUMN "amount" TYPE NUMERIC(20, 2) USING ROUND("amount"::numeric, 2);
+
+ALTER TABLE "scheduled_transfers"
+    ALTER COLUMN "amount" TYPE NUMERIC(20, 2) USING ROUND("amount"::numeric, 2);
+
+ALTER TABLE "withdrawal_requests"
+    ALTER COLUMN "amount" TYPE NUMERIC(20, 2) USING ROUND("amount"::numeric, 2);
+
+ALTER TABLE "cash_out_tokens"
+    ALTER COLUMN "amount" TYPE NUMERIC(20, 2) USING ROUND("amount"::numeric, 2);
+
+-- ============================================
+-- PHASE 5: Verify migration
+-- ============================================
+
+-- Every entry must balance per currency - exactly, there is no tolerance any more
+SELECT l."entryId", l.currency, SUM(l.debit) AS debit, SUM(l.credit) AS credit
+FROM "LedgerEntryLine" l
+GROUP BY l."entryId", l.currency
+HAVING SUM(l.debit) <> SUM(l.credit);
+
+-- Ledger account balances re-aggregated per currency (compare with balance / balanceSYP)
+SELECT
+    a.code,
+    l.currency,
+    SUM(CASE WHEN a.type IN ('ASSET', 'EXPENSE') THEN l.debit - l.credit ELSE l.credit - l.debit END) AS balance,
+    MAX(CASE WHEN l.currency = 'SYP' THEN a."balanceSYP" ELSE a.balance END) AS stored
+FROM "LedgerEntryLine" l
+JOIN "LedgerAccount" a ON a.id = l."accountId"
+GROUP BY a.code, l.currency
+ORDER BY a.code, l.currency;
+
+-- Wallet totals per currency (compare with USR-LEDGER / MRC-LEDGER above)
+SELECT w.currency, w."walletType", SUM(w.balance) AS total
+FROM "Wallet" w
+GROUP BY w.currency, w."walletType"
+ORDER BY w.currency, w."walletType";
@@ -0,0 +1,85 @@
+-- Reconciliation Attribution Migration Script
+-- Links historical ledger lines to the wallet / agent whose balance moved with them, so the
+-- reconciliation drill-down can compare each wallet with its own lines
+-- Run this AFTER prisma db push (safe to re-run: only lines without an attribution are touched)
+--
+-- Best effort: only lines of entries linked to a transaction (Transaction.ledgerEntryId) with a
+-- currency can be attributed. Anything left unattributed shows up as a wallet / agent discrepancy
+-- in the first reconciliation that breaks on its account.
+
+-- ============================================
+-- PHASE 1: Attribution columns
+-- ============================================
+
+ALTER TABLE "LedgerEntryLine" ADD COLUMN IF NOT EXISTS "walletId" TEXT;
+ALTER TABLE "LedgerEntryLine" ADD COLUMN IF NOT EXISTS "agentProfileId" TEXT;
+
+CREATE INDEX IF NOT EXISTS "LedgerEntryLine_walletId_idx" ON "LedgerEntryLine"("walletId");
+CREATE INDEX IF NOT EXISTS "LedgerEntryLine_agentProfileId_idx" ON "LedgerEntryLine"("agentProfileId");
+
+-- ============================================
+-- PHASE 2: Wallet lines (USR-LEDGER -> PERSONAL, MRC-LEDGER -> BUSINESS)
+-- ============================================
+
+-- A debit on a wallet ledger left the sender's wallet
+UPDATE "LedgerEntryLine" l
+SET "walletId" = w.id
+FROM "LedgerAccount" a, "Transaction" t, "Wallet" w
+WHERE a.id = l."accountId"
+AND a.code IN ('USR-LEDGER', 'MRC-LEDGER')
+AND t."ledgerEntryId" = l."entryId"
+AND w."userId" = t."senderId"
+AND w.currency = l.currency
+AND w."walletType" = CASE WHEN a.code = 'USR-LEDGER' THEN 'PERSONAL' ELSE 'BUSINESS' END
+AND l.debit > 0
+AND l."walletId" IS NULL;
+
+-- A credit on a wallet ledger reached the receiver's wallet
+UPDATE "LedgerEntryLine" l
+SET "walletId" = w.id
+FROM "LedgerAccount" a, "Transaction" t, "Wallet" w
+WHERE a.id = l."accountId"
+AND a.code IN ('USR-LEDGER', 'MRC-LEDGER')
+AND t."ledgerEntryId" = l."entryId"
+AND w."userId" = t."receiverId"
+AND w.currency = l.currency
+AND w."walletType" = CASE WHEN a.code = 'USR-LEDGER' THEN 'PERSONAL' ELSE 'BUSINESS' END
+AND l.credit > 0
+AND l."walletId" IS NULL;
+
+-- ============================================
+-- PHASE 3: Agent lines (AGT-LEDGER)
+-- ============================================
+
+-- Transaction.agentId is the agent's user id
+UPDATE "LedgerEntryLine" l
+SET "agentProfileId" = p.id
+FROM "LedgerAccount" a, "Transaction" t, "AgentProfile" p
+WHERE a.id = l."accountId"
+AND a.code = 'AGT-LEDGER'
+AND t."ledgerEntryId" = l."entryId"
+AND p."userId" = t."agentId"
+AND l."agentProfileId" IS NULL;
+
+-- ============================================
+-- PHASE 4: Verify migration
+-- ============================================
+
+-- Unattributed lines per account and currency (these will not reconcile per wallet / agent)
+SELECT a.code, l.currency, COUNT(*) AS lines, SUM(l.credit - l.debit) AS amount
+FROM "LedgerEntryLine" l
+JOIN "LedgerAccount" a ON a.id = l."accountId"
+WHERE (a.code IN ('USR-LEDGER', 'MRC-LEDGER') AND l."walletId" IS NULL)
+OR (a.code = 'AGT-LEDGER' AND l."agentProfileId" IS NULL)
+GROUP BY a.code, l.currency
+ORDER BY a.code, l.currency;
+
+-- Wallets whose balance differs from their attributed lines (the Central Bank wallet posts to SYS-RESERVE)
+SELECT w.id, w."userId", w."walletType", w.currency, w.balance, COALESCE(SUM(l.credit - l.debit), 0) AS ledger
+FROM "Wallet" w
+JOIN "User" u ON u.id = w."userId"
+LEFT JOIN "LedgerEntryLine" l ON l."walletId" = w.id AND l.currency = w.currency
+WHERE u.phone <> 'CENTRAL_BANK'
+GROUP BY w.id
+HAVING w.balance <> COALESCE(SUM(l.credit - l.debit), 0)
+ORDER BY ABS(w.balance - COALESCE(SUM(l.credit - l.debit), 0)) DESC;
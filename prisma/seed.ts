@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import { hashPassword, generateAgentCode, generateMerchantCode, generateQRCode } from '../src/lib/auth/security';
+import { initializeAllAccounts } from '../src/lib/financial/core-ledger';
 
 const prisma = new PrismaClient();
 
@@ -18,6 +19,7 @@ async function main() {
             fullName: 'System Admin',
             fullNameAr: 'مدير النظام',
             userType: 'ADMIN',
+            adminRole: 'SUPER_ADMIN',
             status: 'ACTIVE',
             kycStatus: 'APPROVED',
             wallets: {
@@ -128,33 +130,8 @@ async function main() {
     });
     console.log('✅ Regular user created:', user.phone);
 
-    // Create Ledger System Accounts
-    const systemAccounts = [
-        { code: 'A-1001', name: 'Platform Cash', nameAr: 'النقد في الصندوق', type: 'ASSET' },
-        { code: 'A-1002', name: 'Platform Bank', nameAr: 'الحساب البنكي', type: 'ASSET' },
-        { code: 'A-1100', name: 'Agent Receivables', nameAr: 'ذمم الوكلاء', type: 'ASSET' },
-        { code: 'L-2001', name: 'User Wallets', nameAr: 'محافظ المستخدمين', type: 'LIABILITY' },
-        { code: 'L-2002', name: 'Agent Wallets', nameAr: 'محافظ الوكلاء', type: 'LIABILITY' },
-        { code: 'L-2003', name: 'Merchant Wallets', nameAr: 'محافظ التجار', type: 'LIABILITY' },
-        { code: 'R-4001', name: 'Deposit Fees', nameAr: 'رسوم الإيداع', type: 'REVENUE' },
-        { code: 'R-4002', name: 'Withdrawal Fees', nameAr: 'رسوم السحب', type: 'REVENUE' },
-        { code: 'R-4003', name: 'Transfer Fees', nameAr: 'رسوم التحويل', type: 'REVENUE' },
-        { code: 'E-5001', name: 'Agent Commissions', nameAr: 'عمولات الوكلاء', type: 'EXPENSE' },
-    ];
-
-    for (const account of systemAccounts) {
-        await prisma.ledgerAccount.upsert({
-            where: { code: account.code },
-            update: {},
-            create: {
-                code: account.code,
-                name: account.name,
-                nameAr: account.nameAr,
-                type: account.type as any,
-                isSystem: true,
-            },
-        });
-    }
+    // Create Ledger System Accounts (the accounts the posting engine posts to)
+    await initializeAllAccounts();
     console.log('✅ Ledger accounts created');
 
     console.log('\n🎉 Database seeded successfully!\n');
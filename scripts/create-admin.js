@@ -13,6 +13,7 @@ async function createTestAccounts() {
             fullName: 'System Admin',
             fullNameAr: 'مدير النظام',
             userType: 'ADMIN',
+            adminRole: 'SUPER_ADMIN',
         },
         {
             phone: '+963988888888',
@@ -59,6 +60,7 @@ async function createTestAccounts() {
                     fullName: userData.fullName,
                     fullNameAr: userData.fullNameAr,
                     userType: userData.userType,
+                    adminRole: userData.adminRole || null,
                     status: 'ACTIVE',
                     kycStatus: 'APPROVED',
                     isActive: true,
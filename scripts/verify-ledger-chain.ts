@@ -0,0 +1,42 @@
+/**
+ * Verify the ledger hash chain
+ * Usage: npm run ledger:verify
+ * Exits with code 1 when a broken or forked link is found
+ */
+
+import { verifyLedgerChain } from '../src/lib/financial/ledger-integrity';
+import { prisma } from '../src/lib/db/prisma';
+
+async function main() {
+    console.log('🔍 فحص سلسلة قيود دفتر الأستاذ...\n');
+
+    const result = await verifyLedgerChain();
+
+    console.log(`   القيود المتحقق منها: ${result.checkedEntries}`);
+    console.log(`   قيود قديمة غير قابلة للتحقق: ${result.legacyEntries}`);
+    console.log(`   آخر تسلسل: ${result.headSequence ?? '-'}`);
+    console.log(`   آخر hash: ${result.headHash ?? '-'}\n`);
+
+    if (result.valid) {
+        console.log('✅ السلسلة سليمة');
+        return true;
+    }
+
+    const brokenLink = result.firstBreak!;
+    console.log(`❌ أول رابط مكسور: ${brokenLink.reason}`);
+    console.log(`   القيد: ${brokenLink.entryNumber} (${brokenLink.entryId})`);
+    console.log(`   التسلسل: ${brokenLink.sequence ?? '-'}`);
+    if (brokenLink.expected !== undefined) console.log(`   المتوقع: ${brokenLink.expected}`);
+    if (brokenLink.actual !== undefined) console.log(`   الفعلي: ${brokenLink.actual}`);
+    return false;
+}
+
+main()
+    .then((valid) => {
+        process.exitCode = valid ? 0 : 1;
+    })
+    .catch((error) => {
+        console.error('❌ Ledger verification error:', error);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
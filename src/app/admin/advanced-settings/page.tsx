@@ -60,6 +60,28 @@ interface AdvancedSettings {
     snapshotRetentionDays: number;
 }
 
+interface KycTierLimits {
+    tier: number;
+    name: { en: string; ar: string };
+    dailyLimitUSD: number;
+    weeklyLimitUSD: number;
+    monthlyLimitUSD: number;
+    dailyLimitSYP: number;
+    weeklyLimitSYP: number;
+    monthlyLimitSYP: number;
+}
+
+type KycTierLimitKey = Exclude<keyof KycTierLimits, 'tier' | 'name'>;
+
+const KYC_TIER_LIMIT_FIELDS: { key: KycTierLimitKey; label: string }[] = [
+    { key: 'dailyLimitUSD', label: 'tierDaily' },
+    { key: 'weeklyLimitUSD', label: 'tierWeekly' },
+    { key: 'monthlyLimitUSD', label: 'tierMonthly' },
+    { key: 'dailyLimitSYP', label: 'tierDaily' },
+    { key: 'weeklyLimitSYP', label: 'tierWeekly' },
+    { key: 'monthlyLimitSYP', label: 'tierMonthly' },
+];
+
 export default function AdvancedSettingsPage() {
     const t = useTranslations();
     const router = useRouter();
@@ -69,6 +91,8 @@ export default function AdvancedSettingsPage() {
     const [saving, setSaving] = useState(false);
     const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
     const [mounted, setMounted] = useState(false);
+    const [kycTiers, setKycTiers] = useState<KycTierLimits[]>([]);
+    const [savingTiers, setSavingTiers] = useState(false);
 
     useEffect(() => {
         setMounted(true);
@@ -77,9 +101,14 @@ export default function AdvancedSettingsPage() {
 
     const fetchSettings = async () => {
         try {
-            const res = await fetch('/api/admin/advanced-settings');
+            const [res, tiersRes] = await Promise.all([
+                fetch('/api/admin/advanced-settings'),
+                fetch('/api/admin/kyc/tiers'),
+            ]);
             const data = await res.json();
             setSettings(data.settings);
+            const tiersData = await tiersRes.json();
+            setKycTiers(tiersData.tiers || []);
         } catch (error) {
             console.error('Error fetching settings:', error);
         }
@@ -109,6 +138,35 @@ export default function AdvancedSettingsPage() {
         setSaving(false);
     };
 
+    const handleSaveTiers = async () => {
+        setSavingTiers(true);
+        setMessage(null);
+
+        try {
+            const res = await fetch('/api/admin/kyc/tiers', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    tiers: kycTiers.map(({ name, ...limits }) => limits),
+                }),
+            });
+
+            if (res.ok) {
+                setMessage({ type: 'success', text: t('admin.advancedSettings.success') });
+            } else {
+                const data = await res.json();
+                setMessage({ type: 'error', text: data.error || t('admin.advancedSettings.error') });
+            }
+        } catch (error) {
+            setMessage({ type: 'error', text: 'حدث خطأ' });
+        }
+        setSavingTiers(false);
+    };
+
+    const updateTierLimit = (tier: number, key: KycTierLimitKey, value: number) => {
+        setKycTiers(kycTiers.map(l => (l.tier === tier ? { ...l, [key]: value } : l)));
+    };
+
     const updateSetting = (key: keyof AdvancedSettings, value: number | boolean) => {
         if (!settings) return;
         setSettings({ ...settings, [key]: value });
@@ -269,6 +327,52 @@ export default function AdvancedSettingsPage() {
                     </div>
                 </div>
 
+                {/* KYC Tier Limits */}
+                {kycTiers.length > 0 && (
+                    <div className="card p-6">
+                        <div className="flex items-center justify-between gap-3 mb-2">
+                            <div className="flex items-center gap-3">
+                                <div className="w-10 h-10 rounded-xl bg-emerald-500/10 flex items-center justify-center">
+                                    <ShieldCheckIcon className="w-5 h-5 text-emerald-500" />
+                                </div>
+                                <h2 className="text-xl font-semibold text-white">{t('admin.advancedSettings.sections.kycTiers')}</h2>
+                            </div>
+                            <button onClick={handleSaveTiers} disabled={savingTiers} className="btn-secondary">
+                                {savingTiers ? t('admin.advancedSettings.saving') : t('admin.advancedSettings.saveKycTiers')}
+                            </button>
+                        </div>
+                        <p className="text-dark-400 text-sm mb-6">{t('admin.advancedSettings.kycTiersHint')}</p>
+
+                        <div className="space-y-6">
+                            {kycTiers.map(tierLimits => (
+                                <div key={tierLimits.tier}>
+                                    <p className="text-white font-semibold mb-3">
+                                        {t('admin.advancedSettings.tier', { tier: tierLimits.tier })} - {currentLocale === 'ar' ? tierLimits.name.ar : tierLimits.name.en}
+                                    </p>
+                                    <div className="grid md:grid-cols-3 gap-4">
+                                        {KYC_TIER_LIMIT_FIELDS.map(field => (
+                                            <div key={field.key}>
+                                                <label className="block text-dark-400 text-sm mb-2">
+                                                    {t(`admin.advancedSettings.labels.${field.label}`)}
+                                                    <span className={`ms-1 ${field.key.endsWith('SYP') ? 'text-primary-500' : 'text-green-500'}`}>
+                                                        {field.key.endsWith('SYP') ? 'SYP' : 'USD'}
+                                                    </span>
+                                                </label>
+                                                <input
+                                                    type="number"
+                                                    value={tierLimits[field.key]}
+                                                    onChange={(e) => updateTierLimit(tierLimits.tier, field.key, Number(e.target.value))}
+                                                    className="input w-full"
+                                                />
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
                 {/* Merchant Limits */}
                 <div className="card p-6">
                     <div className="flex items-center gap-3 mb-6">
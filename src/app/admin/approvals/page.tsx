@@ -0,0 +1,359 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import {
+    ArrowRightIcon,
+    ArrowPathIcon,
+    CheckBadgeIcon,
+    CheckIcon,
+    XMarkIcon,
+} from '@heroicons/react/24/outline';
+
+interface ApprovalRequest {
+    id: string;
+    actionType: string;
+    actionName: { en: string; ar: string } | null;
+    payload: Record<string, unknown>;
+    amount: number | null;
+    currency: string | null;
+    status: string;
+    requestedByName: string | null;
+    reviewedByName: string | null;
+    rejectionReason: string | null;
+    failureReason: string | null;
+    canApprove: boolean;
+    createdAt: string;
+    reviewedAt: string | null;
+}
+
+interface Policy {
+    actionType: string;
+    name: { en: string; ar: string };
+    enabled: boolean;
+    thresholdUSD: number;
+    thresholdSYP: number;
+    amountBased: boolean;
+    configurable: boolean;
+}
+
+const STATUS_TABS = [
+    { value: 'PENDING', label: 'بانتظار الموافقة' },
+    { value: 'EXECUTED', label: 'منفذة' },
+    { value: 'REJECTED', label: 'مرفوضة' },
+    { value: 'FAILED', label: 'فشل التنفيذ' },
+    { value: 'ALL', label: 'الكل' },
+];
+
+const STATUS_BADGES: Record<string, { label: string; className: string }> = {
+    PENDING: { label: 'بانتظار الموافقة', className: 'badge-warning' },
+    APPROVED: { label: 'قيد التنفيذ', className: 'badge-info' },
+    EXECUTED: { label: 'منفذة', className: 'badge-success' },
+    REJECTED: { label: 'مرفوضة', className: 'badge-error' },
+    FAILED: { label: 'فشل التنفيذ', className: 'badge-error' },
+};
+
+export default function ApprovalsPage() {
+    const [requests, setRequests] = useState<ApprovalRequest[]>([]);
+    const [policies, setPolicies] = useState<Policy[]>([]);
+    const [canManagePolicies, setCanManagePolicies] = useState(false);
+    const [status, setStatus] = useState('PENDING');
+    const [loading, setLoading] = useState(true);
+    const [processingId, setProcessingId] = useState<string | null>(null);
+    const [savingPolicies, setSavingPolicies] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    const fetchRequests = useCallback(async () => {
+        setLoading(true);
+        try {
+            const res = await fetch(`/api/admin/approvals?status=${status}`);
+            const data = await res.json();
+            if (!res.ok) {
+                setMessage({ type: 'error', text: data.error || 'حدث خطأ' });
+            } else {
+                setRequests(data.approvalRequests || []);
+                setPolicies(data.policies || []);
+                setCanManagePolicies(data.canManagePolicies);
+            }
+        } catch (error) {
+            console.error('Error:', error);
+        }
+        setLoading(false);
+    }, [status]);
+
+    useEffect(() => {
+        fetchRequests();
+    }, [fetchRequests]);
+
+    const review = async (request: ApprovalRequest, decision: 'approve' | 'reject') => {
+        let reason: string | null = null;
+        if (decision === 'reject') {
+            reason = prompt('سبب الرفض (اختياري)');
+            if (reason === null) return;
+        } else if (!confirm('سيتم تنفيذ العملية فوراً. متابعة؟')) {
+            return;
+        }
+
+        setProcessingId(request.id);
+        setMessage(null);
+        try {
+            const res = await fetch(`/api/admin/approvals/${request.id}/${decision}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(decision === 'reject' ? { reason: reason || undefined } : {}),
+            });
+
+            const data = await res.json();
+            if (data.success) {
+                setMessage({ type: 'success', text: data.message });
+            } else {
+                setMessage({ type: 'error', text: data.error || 'حدث خطأ' });
+            }
+            fetchRequests();
+        } catch (error) {
+            setMessage({ type: 'error', text: 'حدث خطأ' });
+        }
+        setProcessingId(null);
+    };
+
+    const updatePolicy = (actionType: string, changes: Partial<Policy>) => {
+        setPolicies(policies.map(p => (p.actionType === actionType ? { ...p, ...changes } : p)));
+    };
+
+    const savePolicies = async () => {
+        setSavingPolicies(true);
+        setMessage(null);
+        try {
+            const res = await fetch('/api/admin/approvals/policies', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    policies: policies
+                        .filter(p => p.configurable)
+                        .map(({ actionType, enabled, thresholdUSD, thresholdSYP }) => ({
+                            actionType,
+                            enabled,
+                            thresholdUSD,
+                            thresholdSYP,
+                        })),
+                }),
+            });
+
+            const data = await res.json();
+            if (data.success) {
+                setMessage({ type: 'success', text: data.message });
+                fetchRequests();
+            } else {
+                setMessage({ type: 'error', text: data.error || 'حدث خطأ' });
+            }
+        } catch (error) {
+            setMessage({ type: 'error', text: 'حدث خطأ' });
+        }
+        setSavingPolicies(false);
+    };
+
+    const formatValue = (value: unknown) =>
+        typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+
+    const formatDate = (dateStr: string) => {
+        return new Date(dateStr).toLocaleDateString('ar-SY', {
+            year: 'numeric',
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+        });
+    };
+
+    return (
+        <div className="min-h-screen bg-dark-950 pt-16 lg:pt-0">
+            {/* Header */}
+            <header className="bg-dark-900/50 backdrop-blur-xl border-b border-dark-800 sticky top-16 lg:top-0 z-40">
+                <div className="max-w-7xl mx-auto px-4 py-4">
+                    <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                            <Link href="/admin" className="btn-ghost btn-icon">
+                                <ArrowRightIcon className="w-5 h-5 sm:w-6 sm:h-6" />
+                            </Link>
+                            <div className="w-12 h-12 rounded-2xl bg-gradient-to-br from-emerald-500 to-teal-600 flex items-center justify-center">
+                                <CheckBadgeIcon className="w-6 h-6 text-white" />
+                            </div>
+                            <div>
+                                <h1 className="text-xl font-bold text-white">الموافقات</h1>
+                                <p className="text-dark-400 text-sm">العمليات الحساسة تحتاج موافقة مشرف ثانٍ قبل التنفيذ</p>
+                            </div>
+                        </div>
+                        <button onClick={fetchRequests} className="btn-ghost btn-icon">
+                            <ArrowPathIcon className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
+                        </button>
+                    </div>
+                </div>
+            </header>
+
+            {/* Content */}
+            <main className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+                {message && (
+                    <div className={`alert ${message.type === 'success' ? 'alert-success' : 'alert-error'}`}>
+                        {message.text}
+                    </div>
+                )}
+
+                {/* Status tabs */}
+                <div className="flex flex-wrap gap-2">
+                    {STATUS_TABS.map(tab => (
+                        <button
+                            key={tab.value}
+                            onClick={() => setStatus(tab.value)}
+                            className={status === tab.value ? 'btn-primary btn-sm' : 'btn-secondary btn-sm'}
+                        >
+                            {tab.label}
+                        </button>
+                    ))}
+                </div>
+
+                {/* Requests */}
+                <div className="space-y-3">
+                    {requests.length === 0 ? (
+                        <div className="card p-8 text-center text-dark-400">
+                            {loading ? <div className="spinner w-8 h-8 mx-auto"></div> : 'لا توجد طلبات'}
+                        </div>
+                    ) : (
+                        requests.map(request => {
+                            const badge = STATUS_BADGES[request.status] || { label: request.status, className: 'badge-info' };
+                            return (
+                                <div key={request.id} className="card p-5 space-y-3">
+                                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                                        <div>
+                                            <p className="text-white font-semibold">
+                                                {request.actionName?.ar || request.actionType}
+                                                {request.amount !== null && (
+                                                    <span className="text-primary-400 ms-2" dir="ltr">
+                                                        {request.amount.toLocaleString('en-US')} {request.currency}
+                                                    </span>
+                                                )}
+                                            </p>
+                                            <p className="text-dark-400 text-xs">
+                                                طلبها {request.requestedByName || '-'} · {formatDate(request.createdAt)}
+                                            </p>
+                                            {request.reviewedByName && request.reviewedAt && (
+                                                <p className="text-dark-400 text-xs">
+                                                    راجعها {request.reviewedByName} · {formatDate(request.reviewedAt)}
+                                                </p>
+                                            )}
+                                        </div>
+                                        <span className={`${badge.className} text-xs self-start sm:self-center`}>{badge.label}</span>
+                                    </div>
+
+                                    <div className="bg-dark-800/50 rounded-xl p-3 text-xs space-y-1" dir="ltr">
+                                        {Object.entries(request.payload).map(([key, value]) => (
+                                            <div key={key} className="flex gap-2">
+                                                <span className="text-dark-400">{key}:</span>
+                                                <span className="text-dark-200 break-all">{formatValue(value)}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+
+                                    {request.rejectionReason && (
+                                        <p className="text-red-400 text-sm">سبب الرفض: {request.rejectionReason}</p>
+                                    )}
+                                    {request.failureReason && (
+                                        <p className="text-red-400 text-sm">سبب الفشل: {request.failureReason}</p>
+                                    )}
+
+                                    {request.status === 'PENDING' && (
+                                        <div className="flex gap-2">
+                                            {request.canApprove ? (
+                                                <button
+                                                    onClick={() => review(request, 'approve')}
+                                                    disabled={processingId === request.id}
+                                                    className="btn-primary btn-sm flex items-center gap-1"
+                                                >
+                                                    <CheckIcon className="w-4 h-4" />
+                                                    موافقة وتنفيذ
+                                                </button>
+                                            ) : (
+                                                <span className="text-dark-500 text-xs self-center">
+                                                    طلبك - بانتظار موافقة مشرف آخر
+                                                </span>
+                                            )}
+                                            <button
+                                                onClick={() => review(request, 'reject')}
+                                                disabled={processingId === request.id}
+                                                className="btn-secondary btn-sm flex items-center gap-1"
+                                            >
+                                                <XMarkIcon className="w-4 h-4" />
+                                                {request.canApprove ? 'رفض' : 'سحب الطلب'}
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })
+                    )}
+                </div>
+
+                {/* Policies */}
+                <div className="card p-6 space-y-4">
+                    <div>
+                        <h2 className="text-lg font-semibold text-white">سياسة الموافقات</h2>
+                        <p className="text-dark-400 text-sm">
+                            العمليات التي تتجاوز الحد تحتاج موافقة مشرف آخر (0 = كل المبالغ). تعديل السياسة نفسه يحتاج موافقة
+                        </p>
+                    </div>
+                    <div className="space-y-3">
+                        {policies.filter(p => p.configurable).map(policy => (
+                            <div key={policy.actionType} className="flex flex-col lg:flex-row lg:items-center gap-3 p-3 rounded-xl bg-dark-800/50">
+                                <label className="flex items-center gap-2 lg:w-64">
+                                    <input
+                                        type="checkbox"
+                                        checked={policy.enabled}
+                                        disabled={!canManagePolicies}
+                                        onChange={(e) => updatePolicy(policy.actionType, { enabled: e.target.checked })}
+                                    />
+                                    <span className="text-white">{policy.name.ar}</span>
+                                </label>
+                                {policy.amountBased ? (
+                                    <div className="grid grid-cols-2 gap-3 flex-1">
+                                        <div>
+                                            <label className="label">الحد (USD)</label>
+                                            <input
+                                                type="number"
+                                                className="input py-2"
+                                                dir="ltr"
+                                                min="0"
+                                                value={policy.thresholdUSD}
+                                                disabled={!canManagePolicies || !policy.enabled}
+                                                onChange={(e) => updatePolicy(policy.actionType, { thresholdUSD: parseFloat(e.target.value) || 0 })}
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="label">الحد (SYP)</label>
+                                            <input
+                                                type="number"
+                                                className="input py-2"
+                                                dir="ltr"
+                                                min="0"
+                                                value={policy.thresholdSYP}
+                                                disabled={!canManagePolicies || !policy.enabled}
+                                                onChange={(e) => updatePolicy(policy.actionType, { thresholdSYP: parseFloat(e.target.value) || 0 })}
+                                            />
+                                        </div>
+                                    </div>
+                                ) : (
+                                    <p className="text-dark-400 text-sm flex-1">
+                                        {policy.enabled ? 'كل تعديل يحتاج موافقة' : 'تنفيذ مباشر'}
+                                    </p>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                    {canManagePolicies && (
+                        <button onClick={savePolicies} disabled={savingPolicies} className="btn-primary">
+                            {savingPolicies ? <div className="spinner w-5 h-5"></div> : 'إرسال للموافقة'}
+                        </button>
+                    )}
+                </div>
+            </main>
+        </div>
+    );
+}
@@ -0,0 +1,223 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import {
+    ArrowRightIcon,
+    ArrowPathIcon,
+    ArrowsRightLeftIcon,
+} from '@heroicons/react/24/outline';
+
+interface ExchangeRate {
+    id: string;
+    buyRate: number;
+    sellRate: number;
+    note: string | null;
+    createdAt: string;
+    createdByName: string | null;
+}
+
+export default function ExchangeRatesPage() {
+    const [current, setCurrent] = useState<ExchangeRate | null>(null);
+    const [history, setHistory] = useState<ExchangeRate[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    const [form, setForm] = useState({ buyRate: '', sellRate: '', note: '' });
+
+    const fetchRates = async () => {
+        setLoading(true);
+        try {
+            const res = await fetch('/api/admin/exchange-rates');
+            const data = await res.json();
+            setCurrent(data.current);
+            setHistory(data.history || []);
+        } catch (error) {
+            console.error('Error:', error);
+        }
+        setLoading(false);
+    };
+
+    useEffect(() => {
+        fetchRates();
+    }, []);
+
+    const handleSave = async () => {
+        setSaving(true);
+        setMessage(null);
+        try {
+            const buyRate = parseFloat(form.buyRate);
+            const sellRate = parseFloat(form.sellRate);
+            if (isNaN(buyRate) || isNaN(sellRate) || buyRate <= 0 || sellRate <= 0) {
+                setMessage({ type: 'error', text: 'الأسعار غير صالحة' });
+                setSaving(false);
+                return;
+            }
+
+            const res = await fetch('/api/admin/exchange-rates', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ buyRate, sellRate, note: form.note || undefined }),
+            });
+
+            const data = await res.json();
+            if (data.success) {
+                setMessage({ type: 'success', text: data.message });
+                setForm({ buyRate: '', sellRate: '', note: '' });
+                fetchRates();
+            } else {
+                setMessage({ type: 'error', text: data.error || 'حدث خطأ' });
+            }
+        } catch (error) {
+            setMessage({ type: 'error', text: 'حدث خطأ' });
+        }
+        setSaving(false);
+    };
+
+    const formatRate = (rate: number) => `${rate.toLocaleString('en-US')} ل.س`;
+
+    const formatDate = (dateStr: string) => {
+        return new Date(dateStr).toLocaleDateString('ar-SY', {
+            year: 'numeric',
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+        });
+    };
+
+    return (
+        <div className="min-h-screen bg-dark-950 pt-16 lg:pt-0">
+            {/* Header */}
+            <header className="bg-dark-900/50 backdrop-blur-xl border-b border-dark-800 sticky top-16 lg:top-0 z-40">
+                <div className="max-w-7xl mx-auto px-4 py-4">
+                    <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                            <Link href="/admin" className="btn-ghost btn-icon">
+                                <ArrowRightIcon className="w-5 h-5 sm:w-6 sm:h-6" />
+                            </Link>
+                            <div className="w-12 h-12 rounded-2xl bg-gradient-to-br from-pink-500 to-rose-600 flex items-center justify-center">
+                                <ArrowsRightLeftIcon className="w-6 h-6 text-white" />
+                            </div>
+                            <div>
+                                <h1 className="text-xl font-bold text-white">أسعار الصرف</h1>
+                                <p className="text-dark-400 text-sm">سعر شراء وبيع الدولار مقابل الليرة السورية</p>
+                            </div>
+                        </div>
+                        <button onClick={fetchRates} className="btn-ghost btn-icon">
+                            <ArrowPathIcon className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
+                        </button>
+                    </div>
+                </div>
+            </header>
+
+            {/* Content */}
+            <main className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+                {message && (
+                    <div className={`alert ${message.type === 'success' ? 'alert-success' : 'alert-error'}`}>
+                        {message.text}
+                    </div>
+                )}
+
+                {/* Live rate */}
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div className="card p-6">
+                        <p className="text-dark-400 text-sm mb-1">سعر الشراء (USD → SYP)</p>
+                        <p className="text-2xl font-bold text-white" dir="ltr">
+                            {current ? formatRate(current.buyRate) : '-'}
+                        </p>
+                    </div>
+                    <div className="card p-6">
+                        <p className="text-dark-400 text-sm mb-1">سعر البيع (SYP → USD)</p>
+                        <p className="text-2xl font-bold text-white" dir="ltr">
+                            {current ? formatRate(current.sellRate) : '-'}
+                        </p>
+                    </div>
+                </div>
+
+                {/* New rate */}
+                <div className="card p-6 space-y-4">
+                    <h2 className="text-lg font-semibold text-white">تحديث السعر</h2>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                        <div>
+                            <label className="label">سعر الشراء</label>
+                            <input
+                                type="number"
+                                className="input"
+                                dir="ltr"
+                                min="0"
+                                value={form.buyRate}
+                                onChange={(e) => setForm({ ...form, buyRate: e.target.value })}
+                            />
+                        </div>
+                        <div>
+                            <label className="label">سعر البيع</label>
+                            <input
+                                type="number"
+                                className="input"
+                                dir="ltr"
+                                min="0"
+                                value={form.sellRate}
+                                onChange={(e) => setForm({ ...form, sellRate: e.target.value })}
+                            />
+                        </div>
+                        <div>
+                            <label className="label">ملاحظة (اختياري)</label>
+                            <input
+                                type="text"
+                                className="input"
+                                maxLength={200}
+                                value={form.note}
+                                onChange={(e) => setForm({ ...form, note: e.target.value })}
+                            />
+                        </div>
+                    </div>
+                    <p className="text-dark-500 text-xs">
+                        عروض الأسعار التي حصل عليها المستخدمون مسبقاً تبقى بسعرها حتى تنتهي صلاحيتها
+                    </p>
+                    <button
+                        onClick={handleSave}
+                        disabled={saving || !form.buyRate || !form.sellRate}
+                        className="btn-primary"
+                    >
+                        {saving ? <div className="spinner w-5 h-5"></div> : 'نشر السعر'}
+                    </button>
+                </div>
+
+                {/* History */}
+                <div className="card p-6">
+                    <h2 className="text-lg font-semibold text-white mb-4">سجل الأسعار</h2>
+                    {history.length === 0 ? (
+                        <p className="text-dark-400 text-center py-4">لا توجد أسعار بعد</p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-dark-400 border-b border-dark-800">
+                                        <th className="text-start py-2">التاريخ</th>
+                                        <th className="text-start py-2">الشراء</th>
+                                        <th className="text-start py-2">البيع</th>
+                                        <th className="text-start py-2">بواسطة</th>
+                                        <th className="text-start py-2">ملاحظة</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {history.map(rate => (
+                                        <tr key={rate.id} className="border-b border-dark-800/50">
+                                            <td className="py-2 text-dark-300">{formatDate(rate.createdAt)}</td>
+                                            <td className="py-2 text-white" dir="ltr">{formatRate(rate.buyRate)}</td>
+                                            <td className="py-2 text-white" dir="ltr">{formatRate(rate.sellRate)}</td>
+                                            <td className="py-2 text-dark-300">{rate.createdByName || '-'}</td>
+                                            <td className="py-2 text-dark-400">{rate.note || '-'}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            </main>
+        </div>
+    );
+}
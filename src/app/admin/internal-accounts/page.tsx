@@ -15,6 +15,7 @@ import {
     ClockIcon,
     ArrowLeftIcon,
     LanguageIcon,
+    ArrowsRightLeftIcon,
 } from '@heroicons/react/24/outline';
 import { useTranslations, useLocale } from 'next-intl';
 import { useRouter } from 'next/navigation';
@@ -109,6 +110,8 @@ export default function InternalAccountsPage() {
                 return <CurrencyDollarIcon className="w-6 h-6" />;
             case 'SUSPENSE':
                 return <ArchiveBoxIcon className="w-6 h-6" />;
+            case 'FX_POSITION':
+                return <ArrowsRightLeftIcon className="w-6 h-6" />;
             default:
                 return <BanknotesIcon className="w-6 h-6" />;
         }
@@ -130,6 +133,8 @@ export default function InternalAccountsPage() {
                 return 'text-cyan-500 bg-cyan-500/10';
             case 'SUSPENSE':
                 return 'text-red-500 bg-red-500/10';
+            case 'FX_POSITION':
+                return 'text-pink-500 bg-pink-500/10';
             default:
                 return 'text-gray-500 bg-gray-500/10';
         }
@@ -11,6 +11,7 @@ import {
     ClockIcon,
     ChartBarIcon,
     LanguageIcon,
+    ScaleIcon,
 } from '@heroicons/react/24/outline';
 import { useTranslations, useLocale } from 'next-intl';
 
@@ -44,6 +45,38 @@ interface Stats {
     activeUsersCount: number;
 }
 
+interface ReconciliationCheck {
+    accountCode: string;
+    currency: string;
+    ledgerBalance: number;
+    operationalBalance: number;
+    difference: number;
+    balanced: boolean;
+}
+
+interface ReconciliationDiscrepancy {
+    id: string;
+    accountCode: string;
+    currency: string;
+    entityType: 'WALLET' | 'AGENT';
+    entityId: string;
+    userId: string | null;
+    operationalBalance: number;
+    ledgerBalance: number;
+    difference: number;
+}
+
+interface ReconciliationRun {
+    id: string;
+    trigger: 'SCHEDULED' | 'MANUAL';
+    status: 'BALANCED' | 'BROKEN';
+    checks: ReconciliationCheck[];
+    breakCount: number;
+    startedAt: string;
+    durationMs: number | null;
+    discrepancies: ReconciliationDiscrepancy[];
+}
+
 export default function AdminMonitorPage() {
     const t = useTranslations();
     const router = useRouter();
@@ -53,6 +86,9 @@ export default function AdminMonitorPage() {
     const [transactions, setTransactions] = useState<Transaction[]>([]);
     const [activeUsers, setActiveUsers] = useState<ActiveUser[]>([]);
     const [stats, setStats] = useState<Stats>({ totalToday: 0, totalAmountUSD: 0, totalAmountSYP: 0, pendingCount: 0, alertCount: 0, activeUsersCount: 0 });
+    const [reconciliation, setReconciliation] = useState<ReconciliationRun[]>([]);
+    const [expandedRun, setExpandedRun] = useState<string | null>(null);
+    const [reconciling, setReconciling] = useState(false);
     const [autoRefresh, setAutoRefresh] = useState(true);
 
     const fetchData = useCallback(async () => {
@@ -73,6 +109,7 @@ export default function AdminMonitorPage() {
                     alertCount: 0,
                     activeUsersCount: data.stats?.activeUsersCount || data.activeUsers?.length || 0,
                 });
+                setReconciliation(data.reconciliation || []);
             } else if (res.status === 401 || res.status === 403) {
                 router.push('/login');
             }
@@ -86,6 +123,23 @@ export default function AdminMonitorPage() {
         setMounted(true);
     }, []);
 
+    const runReconciliation = async () => {
+        setReconciling(true);
+        try {
+            const res = await fetch('/api/admin/ledger/reconcile', { method: 'POST' });
+            if (res.ok) {
+                const data = await res.json();
+                setExpandedRun(data.status === 'BROKEN' ? data.runId : null);
+                await fetchData();
+            } else if (res.status === 401 || res.status === 403) {
+                router.push('/login');
+            }
+        } catch (error) {
+            console.error('Error:', error);
+        }
+        setReconciling(false);
+    };
+
     useEffect(() => {
         if (mounted) {
             fetchData();
@@ -108,6 +162,15 @@ export default function AdminMonitorPage() {
         return date.toLocaleTimeString('ar-EG', { hour: '2-digit', minute: '2-digit' });
     };
 
+    const formatDateTime = (dateStr: string) => {
+        const date = new Date(dateStr);
+        return date.toLocaleString('ar-EG', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+    };
+
+    const formatDifference = (amount: number, currency: string) => {
+        return `${amount > 0 ? '+' : ''}${formatAmount(amount, currency)} ${currency === 'SYP' ? 'ل.س' : '$'}`;
+    };
+
     const getStatusBadge = (status: string) => {
         switch (status) {
             case 'COMPLETED': return <span className="badge bg-green-500/20 text-green-400">{t('admin.settlements.status.completed')}</span>;
@@ -304,6 +367,112 @@ export default function AdminMonitorPage() {
                             </div>
                         )}
                     </div>
+                    {/* Wallet-to-Ledger Reconciliation */}
+                    <div className="card p-6 mt-6">
+                        <div className="flex items-center justify-between mb-4">
+                            <h2 className="text-white font-semibold flex items-center gap-2">
+                                <ScaleIcon className="w-5 h-5 text-primary-500" />
+                                {t('admin.monitor.reconciliation.title')}
+                            </h2>
+                            <button
+                                onClick={runReconciliation}
+                                disabled={reconciling}
+                                className="btn-ghost text-sm text-primary-400"
+                            >
+                                {reconciling ? t('admin.monitor.reconciliation.running') : t('admin.monitor.reconciliation.runNow')}
+                            </button>
+                        </div>
+
+                        {reconciliation.length === 0 ? (
+                            <div className="text-center py-8 text-dark-400">
+                                <p>{t('admin.monitor.reconciliation.noRuns')}</p>
+                            </div>
+                        ) : (
+                            <div className="space-y-3 max-h-[500px] overflow-y-auto">
+                                {reconciliation.map((run) => (
+                                    <div key={run.id} className="bg-dark-800/50 rounded-xl">
+                                        <button
+                                            onClick={() => setExpandedRun(expandedRun === run.id ? null : run.id)}
+                                            className="w-full flex items-center justify-between p-4 text-start"
+                                        >
+                                            <div className="flex items-center gap-3">
+                                                <span className="text-2xl">{run.status === 'BALANCED' ? '✅' : '🚨'}</span>
+                                                <div>
+                                                    <p className="text-white text-sm font-medium">
+                                                        {run.status === 'BALANCED'
+                                                            ? t('admin.monitor.reconciliation.balanced')
+                                                            : t('admin.monitor.reconciliation.broken', { count: run.breakCount })}
+                                                    </p>
+                                                    <p className="text-dark-400 text-xs">
+                                                        {run.trigger === 'MANUAL'
+                                                            ? t('admin.monitor.reconciliation.manual')
+                                                            : t('admin.monitor.reconciliation.scheduled')}
+                                                        {run.durationMs !== null && ` · ${run.durationMs}ms`}
+                                                    </p>
+                                                </div>
+                                            </div>
+                                            <span className="text-dark-500 text-xs">{formatDateTime(run.startedAt)}</span>
+                                        </button>
+
+                                        {expandedRun === run.id && (
+                                            <div className="px-4 pb-4 space-y-3">
+                                                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                                                    {run.checks.map((check) => (
+                                                        <div
+                                                            key={`${check.accountCode}-${check.currency}`}
+                                                            className={`p-3 rounded-lg text-xs ${check.balanced ? 'bg-green-500/10' : 'bg-red-500/10'}`}
+                                                        >
+                                                            <p className={`font-medium mb-1 ${check.balanced ? 'text-green-400' : 'text-red-400'}`}>
+                                                                {check.accountCode} · {check.currency}
+                                                            </p>
+                                                            <p className="text-dark-400">
+                                                                {t('admin.monitor.reconciliation.ledger')}: {formatAmount(check.ledgerBalance, check.currency)}
+                                                            </p>
+                                                            <p className="text-dark-400">
+                                                                {t('admin.monitor.reconciliation.operational')}: {formatAmount(check.operationalBalance, check.currency)}
+                                                            </p>
+                                                            {!check.balanced && (
+                                                                <p className="text-red-400 font-bold">
+                                                                    {t('admin.monitor.reconciliation.difference')}: {formatDifference(check.difference, check.currency)}
+                                                                </p>
+                                                            )}
+                                                        </div>
+                                                    ))}
+                                                </div>
+
+                                                {run.discrepancies.length > 0 && (
+                                                    <div>
+                                                        <p className="text-dark-400 text-xs mb-2">{t('admin.monitor.reconciliation.discrepancies')}</p>
+                                                        <div className="space-y-1">
+                                                            {run.discrepancies.map((discrepancy) => (
+                                                                <div key={discrepancy.id} className="flex items-center justify-between p-2 bg-dark-900/50 rounded-lg text-xs">
+                                                                    <div>
+                                                                        {discrepancy.userId ? (
+                                                                            <Link href={`/admin/users/${discrepancy.userId}`} className="text-primary-400 hover:underline">
+                                                                                {discrepancy.entityType === 'AGENT'
+                                                                                    ? t('admin.monitor.reconciliation.agent')
+                                                                                    : t('admin.monitor.reconciliation.wallet')}
+                                                                            </Link>
+                                                                        ) : (
+                                                                            <span className="text-white">{discrepancy.entityType}</span>
+                                                                        )}
+                                                                        <span className="text-dark-500"> · {discrepancy.accountCode} · {discrepancy.entityId.slice(0, 8)}</span>
+                                                                    </div>
+                                                                    <span className="text-red-400 font-bold">
+                                                                        {formatDifference(discrepancy.difference, discrepancy.currency)}
+                                                                    </span>
+                                                                </div>
+                                                            ))}
+                                                        </div>
+                                                    </div>
+                                                )}
+                                            </div>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
                 </div>
             </main>
         </div>
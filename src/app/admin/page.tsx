@@ -26,7 +26,11 @@ import {
     TrashIcon,
     TicketIcon,
     ClockIcon,
+    ArrowsRightLeftIcon,
+    KeyIcon,
+    CheckBadgeIcon,
 } from '@heroicons/react/24/outline';
+import { getPagePermission, type Permission } from '@/lib/auth/permissions';
 
 interface AdminStats {
     totalUsers: number;
@@ -63,6 +67,7 @@ export default function AdminDashboard() {
     const [stats, setStats] = useState<AdminStats | null>(null);
     const [pendingKYC, setPendingKYC] = useState<PendingKYC[]>([]);
     const [pendingSettlements, setPendingSettlements] = useState<PendingSettlement[]>([]);
+    const [permissions, setPermissions] = useState<Permission[]>([]);
     const [activeSection, setActiveSection] = useState('overview');
     const [showGrantCreditModal, setShowGrantCreditModal] = useState(false);
     const [mounted, setMounted] = useState(false);
@@ -87,6 +92,7 @@ export default function AdminDashboard() {
             setStats(data.stats);
             setPendingKYC(data.pendingKYC || []);
             setPendingSettlements(data.pendingSettlements || []);
+            setPermissions(data.admin?.permissions || []);
         } catch (error) {
             console.error('Error:', error);
         } finally {
@@ -141,7 +147,9 @@ export default function AdminDashboard() {
     const sidebarItems = [
         { id: 'overview', icon: HomeIcon, label: t('admin.dashboard.overview'), link: '/admin' },
         { id: 'central-bank', icon: BuildingLibraryIcon, label: t('admin.centralBank.title'), link: '/admin/central-bank' },
+        { id: 'approvals', icon: CheckBadgeIcon, label: 'الموافقات', link: '/admin/approvals' },
         { id: 'platform-profits', icon: BanknotesIcon, label: 'أرباح المنصة', link: '/admin/platform-profits' },
+        { id: 'exchange-rates', icon: ArrowsRightLeftIcon, label: 'أسعار الصرف', link: '/admin/exchange-rates' },
         { id: 'internal-accounts', icon: BanknotesIcon, label: t('admin.internalAccounts.title'), link: '/admin/internal-accounts' },
         { id: 'risk-management', icon: ShieldExclamationIcon, label: t('admin.riskManagement.title'), link: '/admin/risk-management' },
         { id: 'users', icon: UsersIcon, label: t('admin.users.title'), link: '/admin/users' },
@@ -161,7 +169,8 @@ export default function AdminDashboard() {
         { id: 'advanced-settings', icon: ExclamationTriangleIcon, label: t('admin.settings.advancedSettings'), link: '/admin/advanced-settings' },
         { id: 'bin', icon: TrashIcon, label: t('admin.bin.title'), link: '/admin/bin' },
         { id: 'settings', icon: Cog6ToothIcon, label: t('admin.settings.title'), link: '/admin/settings' },
-    ];
+        { id: 'roles', icon: KeyIcon, label: 'الأدوار والصلاحيات', link: '/admin/roles' },
+    ].filter(item => permissions.includes(getPagePermission(item.link)));
 
     const sidebarTranslateClass = sidebarOpen
         ? 'translate-x-0'
@@ -449,6 +458,10 @@ function GrantCreditModal({ onClose, onSuccess }: { onClose: () => void; onSucce
                 throw new Error(data.error || 'Operation failed');
             }
 
+            if (data.pendingApproval) {
+                alert(data.message);
+            }
+
             onSuccess();
             onClose();
         } catch (err) {
@@ -45,6 +45,7 @@ const TRANSACTION_TYPE_NAMES: Record<string, string> = {
     QR_PAYMENT: 'دفع QR',
     BILL_PAYMENT: 'دفع فاتورة',
     SERVICE_PAYMENT: 'خدمة',
+    EXCHANGE: 'صرف عملات',
 };
 
 const PERIOD_OPTIONS = [
@@ -123,9 +124,12 @@ export default function PlatformProfitsPage() {
 
             const data = await res.json();
             if (data.success) {
-                const successMsg = data.recipientName
+                let successMsg = data.recipientName
                     ? `تم التحويل بنجاح إلى ${data.recipientName}! الرقم المرجعي: ${data.referenceNumber}`
                     : `تم السحب بنجاح! الرقم المرجعي: ${data.referenceNumber}`;
+                if (data.pendingApproval) {
+                    successMsg = data.message;
+                }
                 setMessage({ type: 'success', text: successMsg });
                 setShowWithdrawModal(false);
                 setWithdrawForm({ amount: '', currency: 'USD', method: 'USER_WALLET', notes: '', bankName: '', accountNumber: '', iban: '', phone: '', walletType: 'PERSONAL' });
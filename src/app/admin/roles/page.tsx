@@ -0,0 +1,171 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import {
+    ArrowRightIcon,
+    ArrowPathIcon,
+    KeyIcon,
+} from '@heroicons/react/24/outline';
+
+interface AdminUser {
+    id: string;
+    fullName: string;
+    fullNameAr: string | null;
+    phone: string;
+    adminRole: string;
+    isLegacyRole: boolean;
+    isActive: boolean;
+    lastLoginAt: string | null;
+}
+
+interface RoleInfo {
+    role: string;
+    name: { en: string; ar: string };
+    permissions: string[];
+}
+
+export default function AdminRolesPage() {
+    const [admins, setAdmins] = useState<AdminUser[]>([]);
+    const [roles, setRoles] = useState<RoleInfo[]>([]);
+    const [currentAdminId, setCurrentAdminId] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [savingId, setSavingId] = useState<string | null>(null);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    const fetchRoles = async () => {
+        setLoading(true);
+        try {
+            const res = await fetch('/api/admin/roles');
+            const data = await res.json();
+            if (!res.ok) {
+                setMessage({ type: 'error', text: data.error || 'حدث خطأ' });
+            } else {
+                setAdmins(data.admins || []);
+                setRoles(data.roles || []);
+                setCurrentAdminId(data.currentAdminId);
+            }
+        } catch (error) {
+            console.error('Error:', error);
+        }
+        setLoading(false);
+    };
+
+    useEffect(() => {
+        fetchRoles();
+    }, []);
+
+    const changeRole = async (admin: AdminUser, role: string) => {
+        if (role === admin.adminRole && !admin.isLegacyRole) return;
+
+        const warning = admin.id === currentAdminId
+            ? 'ستغير دورك أنت وسيتم تسجيل خروجك. متابعة؟'
+            : 'سيتم تسجيل خروج المشرف ليبدأ بالدور الجديد. متابعة؟';
+        if (!confirm(warning)) return;
+
+        setSavingId(admin.id);
+        setMessage(null);
+        try {
+            const res = await fetch(`/api/admin/roles/${admin.id}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ role }),
+            });
+
+            const data = await res.json();
+            if (data.success) {
+                setMessage({ type: 'success', text: data.message });
+                fetchRoles();
+            } else {
+                setMessage({ type: 'error', text: data.error || 'حدث خطأ' });
+            }
+        } catch (error) {
+            setMessage({ type: 'error', text: 'حدث خطأ' });
+        }
+        setSavingId(null);
+    };
+
+    const getRoleName = (role: string) => roles.find(r => r.role === role)?.name.ar || role;
+
+    return (
+        <div className="min-h-screen bg-dark-950 pt-16 lg:pt-0">
+            {/* Header */}
+            <header className="bg-dark-900/50 backdrop-blur-xl border-b border-dark-800 sticky top-16 lg:top-0 z-40">
+                <div className="max-w-7xl mx-auto px-4 py-4">
+                    <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                            <Link href="/admin" className="btn-ghost btn-icon">
+                                <ArrowRightIcon className="w-5 h-5 sm:w-6 sm:h-6" />
+                            </Link>
+                            <div className="w-12 h-12 rounded-2xl bg-gradient-to-br from-amber-500 to-orange-600 flex items-center justify-center">
+                                <KeyIcon className="w-6 h-6 text-white" />
+                            </div>
+                            <div>
+                                <h1 className="text-xl font-bold text-white">الأدوار والصلاحيات</h1>
+                                <p className="text-dark-400 text-sm">تحديد ما يستطيع كل مشرف الوصول إليه</p>
+                            </div>
+                        </div>
+                        <button onClick={fetchRoles} className="btn-ghost btn-icon">
+                            <ArrowPathIcon className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
+                        </button>
+                    </div>
+                </div>
+            </header>
+
+            {/* Content */}
+            <main className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+                {message && (
+                    <div className={`alert ${message.type === 'success' ? 'alert-success' : 'alert-error'}`}>
+                        {message.text}
+                    </div>
+                )}
+
+                {/* Admins */}
+                <div className="card p-6">
+                    <h2 className="text-lg font-semibold text-white mb-4">المشرفون</h2>
+                    <div className="space-y-3">
+                        {admins.map(admin => (
+                            <div key={admin.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 rounded-xl bg-dark-800/50">
+                                <div className="min-w-0">
+                                    <p className="text-white font-medium truncate">
+                                        {admin.fullNameAr || admin.fullName}
+                                        {admin.id === currentAdminId && <span className="text-dark-400 text-xs ms-2">(أنت)</span>}
+                                    </p>
+                                    <p className="text-dark-400 text-xs" dir="ltr">{admin.phone}</p>
+                                    {admin.isLegacyRole && (
+                                        <p className="text-orange-400 text-xs mt-1">لم يُحدد دور بعد - صلاحيات قراءة فقط مؤقتاً</p>
+                                    )}
+                                </div>
+                                <select
+                                    value={admin.adminRole}
+                                    disabled={savingId === admin.id}
+                                    onChange={(e) => changeRole(admin, e.target.value)}
+                                    className="input py-2 text-sm sm:w-56"
+                                >
+                                    {roles.map(r => (
+                                        <option key={r.role} value={r.role}>{r.name.ar}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Role catalog */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {roles.map(r => (
+                        <div key={r.role} className="card p-5">
+                            <h3 className="text-white font-semibold mb-1">{getRoleName(r.role)}</h3>
+                            <p className="text-dark-500 text-xs mb-3">{r.name.en}</p>
+                            <div className="flex flex-wrap gap-1">
+                                {r.permissions.map(permission => (
+                                    <span key={permission} className="badge-info text-xs" dir="ltr">{permission}</span>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </main>
+        </div>
+    );
+}
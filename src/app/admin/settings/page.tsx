@@ -126,7 +126,10 @@ export default function AdminSettingsPage() {
                 throw new Error(data.error || 'Failed to save');
             }
 
-            setMessage({ type: 'success', text: `${t('admin.settings.saved')} ✓` });
+            setMessage({
+                type: 'success',
+                text: data.pendingApproval ? t('admin.settings.pendingApproval') : `${t('admin.settings.saved')} ✓`,
+            });
             setTimeout(() => setMessage(null), 3000);
         } catch (error: any) {
             setMessage({ type: 'error', text: error.message || t('admin.settings.saveFailed') });
@@ -9,6 +9,7 @@ import {
     XCircleIcon,
     ClockIcon,
     DocumentTextIcon,
+    ArrowUturnLeftIcon,
 } from '@heroicons/react/24/outline';
 
 interface TransactionDetail {
@@ -42,6 +43,21 @@ interface TransactionDetail {
     } | null;
 }
 
+interface ReversalRequest {
+    id: string;
+    reason: string;
+    reasonAr: string | null;
+    status: string;
+    requestedBy: string;
+    reviewedBy: string | null;
+    reviewedAt: string | null;
+    rejectionReason: string | null;
+    reversalTransactionId: string | null;
+    createdAt: string;
+}
+
+const REVERSIBLE_TYPES = ['TRANSFER', 'QR_PAYMENT', 'DEPOSIT', 'WITHDRAW'];
+
 export default function AdminTransactionDetailPage() {
     const router = useRouter();
     const params = useParams();
@@ -49,6 +65,11 @@ export default function AdminTransactionDetailPage() {
 
     const [transaction, setTransaction] = useState<TransactionDetail | null>(null);
     const [isLoading, setIsLoading] = useState(true);
+    const [reversalRequests, setReversalRequests] = useState<ReversalRequest[]>([]);
+    const [currentAdminId, setCurrentAdminId] = useState<string | null>(null);
+    const [reversalReason, setReversalReason] = useState('');
+    const [rejectReason, setRejectReason] = useState('');
+    const [processing, setProcessing] = useState(false);
 
     useEffect(() => {
         fetchTransaction();
@@ -66,6 +87,8 @@ export default function AdminTransactionDetailPage() {
             }
             const data = await response.json();
             setTransaction(data.transaction);
+            setReversalRequests(data.reversalRequests || []);
+            setCurrentAdminId(data.currentAdminId || null);
         } catch (error) {
             console.error('Error:', error);
         } finally {
@@ -73,6 +96,52 @@ export default function AdminTransactionDetailPage() {
         }
     };
 
+    const proposeReversal = async () => {
+        if (!reversalReason.trim()) return;
+        setProcessing(true);
+        try {
+            const response = await fetch(`/api/admin/transactions/${transactionId}/reversal`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ reason: reversalReason.trim() }),
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                alert(data.error || 'فشل إرسال طلب الإلغاء');
+                return;
+            }
+            setReversalReason('');
+            await fetchTransaction();
+        } catch (error) {
+            console.error('Error:', error);
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    const reviewReversal = async (requestId: string, action: 'approve' | 'reject') => {
+        if (action === 'approve' && !confirm('سيتم إلغاء المعاملة وإرجاع الأرصدة والرسوم. هل أنت متأكد؟')) return;
+        setProcessing(true);
+        try {
+            const response = await fetch(`/api/admin/reversals/${requestId}/${action}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(action === 'reject' ? { reason: rejectReason.trim() } : {}),
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                alert(data.error || 'فشلت العملية');
+                return;
+            }
+            setRejectReason('');
+            await fetchTransaction();
+        } catch (error) {
+            console.error('Error:', error);
+        } finally {
+            setProcessing(false);
+        }
+    };
+
     const formatAmount = (amount: number, currency?: string) => {
         const decimals = currency === 'SYP' ? 0 : 2;
         return new Intl.NumberFormat('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals }).format(amount);
@@ -97,6 +166,8 @@ export default function AdminTransactionDetailPage() {
                 return <span className="badge-warning">معلق</span>;
             case 'FAILED':
                 return <span className="badge-error">فشل</span>;
+            case 'REVERSED':
+                return <span className="badge-error">ملغاة</span>;
             default:
                 return <span className="badge">{status}</span>;
         }
@@ -109,6 +180,7 @@ export default function AdminTransactionDetailPage() {
             case 'TRANSFER': return 'تحويل';
             case 'QR_PAYMENT': return 'دفع QR';
             case 'CREDIT_GRANT': return 'منح ائتمان';
+            case 'REFUND': return 'استرداد';
             default: return type;
         }
     };
@@ -283,6 +355,99 @@ export default function AdminTransactionDetailPage() {
                         )}
                     </div>
 
+                    {/* Reversal (maker-checker) */}
+                    {(reversalRequests.length > 0 ||
+                        (transaction.status === 'COMPLETED' && REVERSIBLE_TYPES.includes(transaction.type))) && (
+                        <div className="card p-6">
+                            <div className="flex items-center gap-2 mb-4">
+                                <ArrowUturnLeftIcon className="w-5 h-5 text-red-400" />
+                                <h3 className="text-lg font-semibold text-white">إلغاء المعاملة</h3>
+                            </div>
+
+                            {reversalRequests.map((req) => (
+                                <div key={req.id} className="p-4 rounded-xl bg-dark-800/50 mb-4 space-y-2">
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-dark-400 text-sm">{formatDate(req.createdAt)}</span>
+                                        {req.status === 'PENDING' ? (
+                                            <span className="badge-warning">بانتظار الموافقة</span>
+                                        ) : req.status === 'APPROVED' ? (
+                                            <span className="badge-success">تمت الموافقة</span>
+                                        ) : (
+                                            <span className="badge-error">مرفوض</span>
+                                        )}
+                                    </div>
+                                    <p className="text-white">{req.reasonAr || req.reason}</p>
+                                    {req.rejectionReason && (
+                                        <p className="text-red-400 text-sm">سبب الرفض: {req.rejectionReason}</p>
+                                    )}
+
+                                    {req.status === 'PENDING' && (
+                                        req.requestedBy === currentAdminId ? (
+                                            <div className="flex items-center justify-between gap-4 pt-2">
+                                                <p className="text-dark-400 text-sm">يجب أن يوافق مشرف آخر على هذا الطلب</p>
+                                                <button
+                                                    onClick={() => reviewReversal(req.id, 'reject')}
+                                                    disabled={processing}
+                                                    className="btn-ghost btn-sm"
+                                                >
+                                                    سحب الطلب
+                                                </button>
+                                            </div>
+                                        ) : (
+                                            <div className="space-y-3 pt-2">
+                                                <input
+                                                    className="input"
+                                                    placeholder="سبب الرفض (اختياري)"
+                                                    value={rejectReason}
+                                                    onChange={(e) => setRejectReason(e.target.value)}
+                                                />
+                                                <div className="flex gap-3">
+                                                    <button
+                                                        onClick={() => reviewReversal(req.id, 'reject')}
+                                                        disabled={processing}
+                                                        className="btn-ghost flex-1"
+                                                    >
+                                                        <XCircleIcon className="w-5 h-5" />
+                                                        رفض
+                                                    </button>
+                                                    <button
+                                                        onClick={() => reviewReversal(req.id, 'approve')}
+                                                        disabled={processing}
+                                                        className="btn-sm bg-red-500 text-white hover:bg-red-600 flex-1"
+                                                    >
+                                                        <CheckCircleIcon className="w-5 h-5" />
+                                                        موافقة وإلغاء
+                                                    </button>
+                                                </div>
+                                            </div>
+                                        )
+                                    )}
+                                </div>
+                            ))}
+
+                            {transaction.status === 'COMPLETED' &&
+                                REVERSIBLE_TYPES.includes(transaction.type) &&
+                                !reversalRequests.some((r) => r.status === 'PENDING') && (
+                                <div className="space-y-3">
+                                    <textarea
+                                        className="input min-h-[100px]"
+                                        placeholder="سبب الإلغاء (سيتم إرساله لمشرف آخر للموافقة)"
+                                        value={reversalReason}
+                                        onChange={(e) => setReversalReason(e.target.value)}
+                                    />
+                                    <button
+                                        onClick={proposeReversal}
+                                        disabled={processing || reversalReason.trim().length < 5}
+                                        className="btn-sm bg-red-500 text-white hover:bg-red-600 w-full"
+                                    >
+                                        <ClockIcon className="w-5 h-5" />
+                                        طلب إلغاء المعاملة
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     {/* Description */}
                     {(transaction.description || transaction.descriptionAr) && (
                         <div className="card p-6">
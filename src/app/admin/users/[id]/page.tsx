@@ -30,11 +30,20 @@ interface UserDetail {
     dateOfBirth: string | null;
     userType: string;
     kycStatus: string;
+    kycTier: number;
+    kycRequestedTier: number | null;
+    kycDocuments: {
+        id: string;
+        documentType: string;
+        status: string;
+        rejectionReason: string | null;
+    }[];
     isActive: boolean;
     hasMerchantAccount: boolean;
     idPhotoUrl: string | null;
     idPhotoBackUrl: string | null;
     selfiePhotoUrl: string | null;
+    proofOfAddressUrl: string | null;
     kycSubmittedAt: string | null;
     createdAt: string;
     wallet?: {
@@ -79,6 +88,7 @@ export default function AdminUserDetailPage() {
     const [isProcessing, setIsProcessing] = useState(false);
     const [showImageModal, setShowImageModal] = useState<string | null>(null);
     const [kycRejectionReason, setKycRejectionReason] = useState('');
+    const [rejectedDocumentIds, setRejectedDocumentIds] = useState<string[]>([]);
     const [newRole, setNewRole] = useState('');
     const [selectedTransaction, setSelectedTransaction] = useState<any | null>(null);
     const [lightboxOpen, setLightboxOpen] = useState(false);
@@ -123,11 +133,13 @@ export default function AdminUserDetailPage() {
                 body: JSON.stringify({
                     userId,
                     action,
-                    rejectionReason: action === 'reject' ? kycRejectionReason : undefined,
+                    reason: action === 'reject' ? kycRejectionReason : undefined,
+                    documentIds: action === 'reject' && rejectedDocumentIds.length > 0 ? rejectedDocumentIds : undefined,
                 }),
             });
             fetchUser();
             setKycRejectionReason('');
+            setRejectedDocumentIds([]);
         } catch (error) {
             console.error('Error:', error);
         } finally {
@@ -347,6 +359,10 @@ export default function AdminUserDetailPage() {
                             <div>
                                 <div className="flex items-center gap-3 flex-wrap">
                                     {getKYCBadge(user.kycStatus)}
+                                    <span className="badge-info">
+                                        {t('admin.userDetails.kyc.tier', { tier: user.kycTier })}
+                                        {user.kycStatus === 'PENDING' && user.kycRequestedTier !== null && ` → ${user.kycRequestedTier}`}
+                                    </span>
                                     <span className={`px-3 py-1 rounded-lg text-sm font-medium ${user.isActive ? 'bg-green-500/20 text-green-400 border border-green-500/30' : 'bg-red-500/20 text-red-400 border border-red-500/30'}`}>
                                         {user.isActive ? t('admin.userDetails.status.active') : t('admin.userDetails.status.inactive')}
                                     </span>
@@ -428,6 +444,26 @@ export default function AdminUserDetailPage() {
                                     />
                                 </div>
                             )}
+                            {user.proofOfAddressUrl && (
+                                <div
+                                    className="cursor-pointer"
+                                    onClick={() => {
+                                        let idx = 0;
+                                        if (user.idPhotoUrl) idx++;
+                                        if (user.idPhotoBackUrl) idx++;
+                                        if (user.selfiePhotoUrl) idx++;
+                                        setLightboxIndex(idx);
+                                        setLightboxOpen(true);
+                                    }}
+                                >
+                                    <p className="text-dark-400 text-sm mb-2">{t('admin.userDetails.kyc.proofOfAddress')}</p>
+                                    <SecureImage
+                                        src={user.proofOfAddressUrl}
+                                        alt="Proof of Address"
+                                        className="w-full h-40 object-cover rounded-lg hover:opacity-80 transition-opacity"
+                                    />
+                                </div>
+                            )}
                         </div>
 
                         {/* Lightbox for KYC photos */}
@@ -436,6 +472,7 @@ export default function AdminUserDetailPage() {
                                 ...(user.idPhotoUrl ? [{ src: user.idPhotoUrl, alt: 'صورة الهوية (أمامي)' }] : []),
                                 ...(user.idPhotoBackUrl ? [{ src: user.idPhotoBackUrl, alt: 'صورة الهوية (خلفي)' }] : []),
                                 ...(user.selfiePhotoUrl ? [{ src: user.selfiePhotoUrl, alt: 'صورة السيلفي' }] : []),
+                                ...(user.proofOfAddressUrl ? [{ src: user.proofOfAddressUrl, alt: 'إثبات العنوان' }] : []),
                             ]}
                             initialIndex={lightboxIndex}
                             isOpen={lightboxOpen}
@@ -445,6 +482,23 @@ export default function AdminUserDetailPage() {
                         {/* KYC Actions */}
                         {user.kycStatus === 'PENDING' && (
                             <div className="space-y-4">
+                                {user.kycDocuments.some(doc => doc.status === 'PENDING') && (
+                                    <div className="space-y-2">
+                                        <p className="text-dark-400 text-sm">{t('admin.userDetails.kyc.rejectDocumentsHint')}</p>
+                                        {user.kycDocuments.filter(doc => doc.status === 'PENDING').map(doc => (
+                                            <label key={doc.id} className="flex items-center gap-2 text-sm text-white cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={rejectedDocumentIds.includes(doc.id)}
+                                                    onChange={(e) => setRejectedDocumentIds(e.target.checked
+                                                        ? [...rejectedDocumentIds, doc.id]
+                                                        : rejectedDocumentIds.filter(id => id !== doc.id))}
+                                                />
+                                                {t(`admin.userDetails.kyc.documents.${doc.documentType}`)}
+                                            </label>
+                                        ))}
+                                    </div>
+                                )}
                                 <button
                                     onClick={() => handleKYCAction('approve')}
                                     disabled={isProcessing}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, lazy, Suspense } from 'react';
 import Link from 'next/link';
 import { useTranslations, useLocale } from 'next-intl';
 import { useRouter } from 'next/navigation';
@@ -15,9 +15,21 @@ import {
     ClockIcon,
     GlobeAltIcon,
     CurrencyDollarIcon,
+    QrCodeIcon,
 } from '@heroicons/react/24/outline';
 import { CurrencyToggle, formatCurrencyAmount, type Currency } from '@/components/CurrencySelector';
 
+// Dynamic import for QR Scanner (to avoid SSR issues)
+const QRScanner = lazy(() => import('@/components/QRScanner'));
+
+interface CashOutPreview {
+    qrData: string;
+    amount: number;
+    currency: Currency;
+    fee: number;
+    customer: { name: string; phone: string };
+}
+
 interface AgentData {
     balances: { USD: number; SYP: number };
     currentCredit: { USD: number; SYP: number };
@@ -41,13 +53,12 @@ export default function AgentDashboard() {
     const [formData, setFormData] = useState({ customerPhone: '', amount: '' });
     const [isProcessing, setIsProcessing] = useState(false);
     const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+    const [pendingWithdrawal, setPendingWithdrawal] = useState<{ id: string; customerName: string } | null>(null);
+    const [confirmCode, setConfirmCode] = useState('');
+    const [showScanner, setShowScanner] = useState(false);
+    const [cashOutPreview, setCashOutPreview] = useState<CashOutPreview | null>(null);
 
-    useEffect(() => {
-        fetchAgentData();
-    }, []);
-
-
-    const fetchAgentData = async () => {
+    const fetchAgentData = useCallback(async () => {
         try {
             const response = await fetch('/api/agents/dashboard');
             if (!response.ok) {
@@ -64,6 +75,141 @@ export default function AgentDashboard() {
         } finally {
             setIsLoading(false);
         }
+    }, [router]);
+
+    useEffect(() => {
+        fetchAgentData();
+    }, [fetchAgentData]);
+
+    const finishWithdrawal = useCallback((text: string, type: 'success' | 'error') => {
+        setPendingWithdrawal(null);
+        setConfirmCode('');
+        setMessage({ type, text });
+        if (type === 'success') {
+            setFormData({ customerPhone: '', amount: '' });
+            fetchAgentData();
+        }
+    }, [fetchAgentData]);
+
+    // Poll the pending withdrawal until the customer approves, declines or it expires
+    useEffect(() => {
+        if (!pendingWithdrawal) return;
+
+        const interval = setInterval(async () => {
+            try {
+                const response = await fetch(`/api/agents/withdraw?requestId=${pendingWithdrawal.id}`);
+                if (!response.ok) return;
+                const data = await response.json();
+
+                if (data.status === 'COMPLETED') {
+                    finishWithdrawal(`${t('agent.withdraw.handCash')} - ${t('transaction.referenceNumber')}: ${data.referenceNumber}`, 'success');
+                } else if (data.status === 'EXPIRED') {
+                    finishWithdrawal(t('agent.withdraw.expired'), 'error');
+                } else if (data.status === 'REJECTED' || data.status === 'CANCELLED') {
+                    finishWithdrawal(t('agent.withdraw.rejected'), 'error');
+                } else if (data.status === 'FAILED') {
+                    finishWithdrawal(data.failureReason || t('agent.withdraw.failed'), 'error');
+                }
+            } catch (error) {
+                console.error('Poll withdrawal error:', error);
+            }
+        }, 3000);
+
+        return () => clearInterval(interval);
+    }, [pendingWithdrawal, finishWithdrawal, t]);
+
+    const handleConfirmCode = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!pendingWithdrawal) return;
+        setIsProcessing(true);
+        setMessage(null);
+
+        try {
+            const response = await fetch('/api/agents/withdraw/confirm', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ withdrawalRequestId: pendingWithdrawal.id, code: confirmCode }),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Operation failed');
+            }
+
+            finishWithdrawal(`${t('agent.withdraw.handCash')} - ${t('transaction.referenceNumber')}: ${data.referenceNumber}`, 'success');
+        } catch (err) {
+            setMessage({
+                type: 'error',
+                text: err instanceof Error ? err.message : t('common.error'),
+            });
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const handleCashOutScan = async (qrData: string) => {
+        setShowScanner(false);
+        setIsProcessing(true);
+        setMessage(null);
+
+        try {
+            const response = await fetch('/api/agents/cash-out/preview', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ qrData }),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Operation failed');
+            }
+
+            setCashOutPreview({ ...data, qrData });
+        } catch (err) {
+            setMessage({
+                type: 'error',
+                text: err instanceof Error ? err.message : t('common.error'),
+            });
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const handleCashOutRedeem = async () => {
+        if (!cashOutPreview) return;
+        setIsProcessing(true);
+        setMessage(null);
+
+        try {
+            const response = await fetch('/api/agents/cash-out', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ qrData: cashOutPreview.qrData }),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Operation failed');
+            }
+
+            setCashOutPreview(null);
+            setMessage({
+                type: 'success',
+                text: `${t('agent.withdraw.handCash')} - ${t('transaction.referenceNumber')}: ${data.referenceNumber}`,
+            });
+            fetchAgentData();
+        } catch (err) {
+            setCashOutPreview(null);
+            setMessage({
+                type: 'error',
+                text: err instanceof Error ? err.message : t('common.error'),
+            });
+        } finally {
+            setIsProcessing(false);
+        }
     };
 
     const handleSubmit = async (e: React.FormEvent) => {
@@ -89,11 +235,16 @@ export default function AgentDashboard() {
                 throw new Error(data.error || 'Operation failed');
             }
 
+            if (activeTab === 'withdraw') {
+                // Nothing is debited until the customer confirms
+                setPendingWithdrawal({ id: data.withdrawalRequestId, customerName: data.customer?.name || '' });
+                setMessage({ type: 'success', text: t('agent.withdraw.requestSent') });
+                return;
+            }
+
             setMessage({
                 type: 'success',
-                text: activeTab === 'deposit'
-                    ? `${t('common.success')} - ${t('transaction.referenceNumber')}: ${data.referenceNumber}`
-                    : `${t('common.success')} - ${t('transaction.referenceNumber')}: ${data.referenceNumber}`,
+                text: `${t('common.success')} - ${t('transaction.referenceNumber')}: ${data.referenceNumber}`,
             });
             setFormData({ customerPhone: '', amount: '' });
             fetchAgentData(); // Refresh data
@@ -246,61 +397,155 @@ export default function AgentDashboard() {
                             </div>
                         )}
 
-                        {/* Form */}
-                        <form onSubmit={handleSubmit} className="space-y-5">
-                            <div>
-                                <label className="label">
-                                    {activeTab === 'deposit'
-                                        ? t('agent.deposit.customerPhone')
-                                        : t('agent.withdraw.customerPhone')}
-                                </label>
-                                <input
-                                    type="tel"
-                                    className="input"
-                                    placeholder="09XX XXX XXX"
-                                    dir="ltr"
-                                    value={formData.customerPhone}
-                                    onChange={(e) => setFormData({ ...formData, customerPhone: e.target.value })}
-                                    required
-                                />
-                            </div>
+                        {/* Customer cash-out QR */}
+                        {activeTab === 'withdraw' && !pendingWithdrawal && (
+                            cashOutPreview ? (
+                                <div className="mb-6 p-4 rounded-xl bg-dark-700/50 border border-dark-600 space-y-3">
+                                    <p className="text-white font-semibold">{t('agent.withdraw.cashOutTitle')}</p>
+                                    <p className="text-dark-300">{cashOutPreview.customer.name}</p>
+                                    <p className="text-3xl font-bold text-white text-center" dir="ltr">
+                                        {formatCurrencyAmount(cashOutPreview.amount, cashOutPreview.currency)}
+                                    </p>
+                                    <p className="text-dark-400 text-sm text-center">{t('agent.withdraw.cashOutHint')}</p>
+                                    <div className="flex gap-3">
+                                        <button
+                                            type="button"
+                                            className="flex-1 py-3 rounded-xl font-semibold transition-all bg-red-500 hover:bg-red-400 text-white"
+                                            disabled={isProcessing}
+                                            onClick={handleCashOutRedeem}
+                                        >
+                                            {isProcessing ? <div className="spinner w-5 h-5 mx-auto"></div> : t('agent.withdraw.confirm')}
+                                        </button>
+                                        <button
+                                            type="button"
+                                            className="btn-ghost flex-1"
+                                            disabled={isProcessing}
+                                            onClick={() => setCashOutPreview(null)}
+                                        >
+                                            {t('common.cancel')}
+                                        </button>
+                                    </div>
+                                </div>
+                            ) : (
+                                <button
+                                    type="button"
+                                    className="btn-ghost w-full mb-6 flex items-center justify-center gap-2"
+                                    disabled={isProcessing}
+                                    onClick={() => setShowScanner(true)}
+                                >
+                                    <QrCodeIcon className="w-5 h-5" />
+                                    {t('agent.withdraw.scanCashOut')}
+                                </button>
+                            )
+                        )}
 
-                            <div>
-                                <label className="label">
-                                    {activeTab === 'deposit'
-                                        ? t('agent.deposit.amount')
-                                        : t('agent.withdraw.amount')}
-                                </label>
-                                <input
-                                    type="number"
-                                    className="input text-3xl text-center font-bold"
-                                    placeholder="0"
-                                    dir="ltr"
-                                    min="1"
-                                    value={formData.amount}
-                                    onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
-                                    required
-                                />
-                                <p className="text-center text-dark-400 mt-2">$</p>
-                            </div>
+                        {/* Pending customer confirmation */}
+                        {activeTab === 'withdraw' && pendingWithdrawal ? (
+                            <form onSubmit={handleConfirmCode} className="space-y-5">
+                                <div className="p-4 rounded-xl bg-yellow-500/10 border border-yellow-500/20 text-center">
+                                    <ClockIcon className="w-8 h-8 text-yellow-400 mx-auto mb-2" />
+                                    <p className="text-white font-semibold">{t('agent.withdraw.pendingTitle')}</p>
+                                    {pendingWithdrawal.customerName && (
+                                        <p className="text-dark-300 mt-1">{pendingWithdrawal.customerName}</p>
+                                    )}
+                                    <p className="text-dark-400 text-sm mt-2">{t('agent.withdraw.pendingHint')}</p>
+                                </div>
 
-                            <button
-                                type="submit"
-                                className={`w-full py-4 rounded-xl font-semibold text-lg transition-all ${activeTab === 'deposit'
-                                    ? 'bg-green-500 hover:bg-green-400 text-dark-900'
-                                    : 'bg-red-500 hover:bg-red-400 text-white'
-                                    }`}
-                                disabled={isProcessing}
-                            >
-                                {isProcessing ? (
-                                    <div className="spinner w-6 h-6 mx-auto"></div>
-                                ) : activeTab === 'deposit' ? (
-                                    t('agent.deposit.confirm')
-                                ) : (
-                                    t('agent.withdraw.confirm')
-                                )}
-                            </button>
-                        </form>
+                                <div>
+                                    <label className="label">{t('agent.withdraw.codeLabel')}</label>
+                                    <input
+                                        type="text"
+                                        inputMode="numeric"
+                                        className="input text-3xl text-center font-bold tracking-widest"
+                                        placeholder="000000"
+                                        dir="ltr"
+                                        maxLength={6}
+                                        value={confirmCode}
+                                        onChange={(e) => setConfirmCode(e.target.value.replace(/\D/g, ''))}
+                                        required
+                                    />
+                                </div>
+
+                                <button
+                                    type="submit"
+                                    className="w-full py-4 rounded-xl font-semibold text-lg transition-all bg-red-500 hover:bg-red-400 text-white"
+                                    disabled={isProcessing || confirmCode.length !== 6}
+                                >
+                                    {isProcessing ? (
+                                        <div className="spinner w-6 h-6 mx-auto"></div>
+                                    ) : (
+                                            t('agent.withdraw.confirmCode')
+                                        )}
+                                    </button>
+
+                                    <button
+                                        type="button"
+                                        className="btn-ghost w-full"
+                                        onClick={() => {
+                                            setPendingWithdrawal(null);
+                                            setConfirmCode('');
+                                            setMessage(null);
+                                        }}
+                                    >
+                                        {t('agent.withdraw.cancel')}
+                                    </button>
+                                </form>
+                        ) : (
+                            <form onSubmit={handleSubmit} className="space-y-5">
+                                <div>
+                                    <label className="label">
+                                        {activeTab === 'deposit'
+                                            ? t('agent.deposit.customerPhone')
+                                            : t('agent.withdraw.customerPhone')}
+                                    </label>
+                                    <input
+                                        type="tel"
+                                        className="input"
+                                        placeholder="09XX XXX XXX"
+                                        dir="ltr"
+                                        value={formData.customerPhone}
+                                        onChange={(e) => setFormData({ ...formData, customerPhone: e.target.value })}
+                                        required
+                                    />
+                                </div>
+
+                                <div>
+                                    <label className="label">
+                                        {activeTab === 'deposit'
+                                            ? t('agent.deposit.amount')
+                                            : t('agent.withdraw.amount')}
+                                    </label>
+                                    <input
+                                        type="number"
+                                        className="input text-3xl text-center font-bold"
+                                        placeholder="0"
+                                        dir="ltr"
+                                        min="1"
+                                        value={formData.amount}
+                                        onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                                        required
+                                    />
+                                    <p className="text-center text-dark-400 mt-2">$</p>
+                                </div>
+
+                                <button
+                                    type="submit"
+                                    className={`w-full py-4 rounded-xl font-semibold text-lg transition-all ${activeTab === 'deposit'
+                                        ? 'bg-green-500 hover:bg-green-400 text-dark-900'
+                                        : 'bg-red-500 hover:bg-red-400 text-white'
+                                        }`}
+                                    disabled={isProcessing}
+                                >
+                                    {isProcessing ? (
+                                        <div className="spinner w-6 h-6 mx-auto"></div>
+                                    ) : activeTab === 'deposit' ? (
+                                        t('agent.deposit.confirm')
+                                    ) : (
+                                        t('agent.withdraw.confirm')
+                                    )}
+                                </button>
+                            </form>
+                        )}
                     </div>
 
                     {/* Quick Links */}
@@ -317,6 +562,20 @@ export default function AgentDashboard() {
 
                 </div >
             </main >
+
+            {/* QR Scanner Modal */}
+            {showScanner && (
+                <Suspense fallback={
+                    <div className="fixed inset-0 z-50 bg-black flex items-center justify-center">
+                        <div className="spinner w-12 h-12"></div>
+                    </div>
+                }>
+                    <QRScanner
+                        onScan={handleCashOutScan}
+                        onClose={() => setShowScanner(false)}
+                    />
+                </Suspense>
+            )}
         </div >
     );
 }
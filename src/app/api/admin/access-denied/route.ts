@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { getPagePermission } from '@/lib/auth/permissions';
+
+/**
+ * POST /api/admin/access-denied
+ * Called by middleware when it redirects an admin away from a page their role doesn't grant.
+ * The permission is re-checked here, so a denial is only recorded if it really happened.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json().catch(() => ({}));
+        const path = typeof body.path === 'string' && body.path.startsWith('/admin') ? body.path : null;
+
+        if (!path) {
+            return NextResponse.json(
+                { error: 'Invalid path' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const auth = await verifyAdminPermission(getPagePermission(path), request, path);
+
+        return NextResponse.json(
+            { allowed: auth.success },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Access denied log error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
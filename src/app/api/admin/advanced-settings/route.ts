@@ -6,34 +6,18 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
-import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
-import { cookies } from 'next/headers';
-
-// Verify admin access
-async function verifyAdmin(request: NextRequest) {
-    const cookieStore = await cookies();
-    const token = cookieStore.get('accessToken')?.value;
-
-    if (!token) {
-        return null;
-    }
-
-    const payload = verifyAccessToken(token);
-    if (!payload || payload.userType !== 'ADMIN') {
-        return null;
-    }
-
-    return payload;
-}
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
 
 // GET: Get advanced settings
 export async function GET(request: NextRequest) {
     try {
-        const admin = await verifyAdmin(request);
-        if (!admin) {
+        const auth = await verifyAdminPermission(PERMISSIONS.RISK_MANAGE, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
@@ -62,14 +46,16 @@ export async function GET(request: NextRequest) {
 // PUT: Update advanced settings
 export async function PUT(request: NextRequest) {
     try {
-        const admin = await verifyAdmin(request);
-        if (!admin) {
+        const auth = await verifyAdminPermission(PERMISSIONS.RISK_MANAGE, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
+        const payload = auth.payload;
+
         const body = await request.json();
 
         let settings = await prisma.advancedSettings.findFirst();
@@ -78,7 +64,7 @@ export async function PUT(request: NextRequest) {
             settings = await prisma.advancedSettings.create({
                 data: {
                     ...body,
-                    updatedBy: admin.userId,
+                    updatedBy: payload.userId,
                 },
             });
         } else {
@@ -86,7 +72,7 @@ export async function PUT(request: NextRequest) {
                 where: { id: settings.id },
                 data: {
                     ...body,
-                    updatedBy: admin.userId,
+                    updatedBy: payload.userId,
                 },
             });
         }
@@ -94,7 +80,7 @@ export async function PUT(request: NextRequest) {
         // Log the change
         await prisma.auditLog.create({
             data: {
-                userId: admin.userId,
+                userId: payload.userId,
                 action: 'UPDATE_ADVANCED_SETTINGS',
                 entity: 'AdvancedSettings',
                 entityId: settings.id,
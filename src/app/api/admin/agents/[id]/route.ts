@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
-import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
-import { cookies } from 'next/headers';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
 import { softDelete } from '@/lib/db/soft-delete';
 
 export async function GET(
@@ -9,21 +10,11 @@ export async function GET(
     { params }: { params: { id: string } }
 ) {
     try {
-        const cookieStore = await cookies();
-        const token = cookieStore.get('accessToken')?.value;
-
-        if (!token) {
-            return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
-            );
-        }
-
-        const payload = verifyAccessToken(token);
-        if (!payload || payload.userType !== 'ADMIN') {
+        const auth = await verifyAdminPermission(PERMISSIONS.AGENTS_VIEW, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Admin access required' },
-                { status: 403, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
@@ -144,23 +135,15 @@ export async function DELETE(
     { params }: { params: { id: string } }
 ) {
     try {
-        const cookieStore = await cookies();
-        const token = cookieStore.get('accessToken')?.value;
-
-        if (!token) {
+        const auth = await verifyAdminPermission(PERMISSIONS.AGENTS_MANAGE, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
-        const payload = verifyAccessToken(token);
-        if (!payload || payload.userType !== 'ADMIN') {
-            return NextResponse.json(
-                { error: 'Admin access required' },
-                { status: 403, headers: getSecurityHeaders() }
-            );
-        }
+        const payload = auth.payload;
 
         // Note: params.id is the user ID, not agent profile ID
         // Need to find the agent profile first
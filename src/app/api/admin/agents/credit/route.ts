@@ -1,37 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/db/prisma';
-import { verifyAccessToken, getSecurityHeaders, sanitizePhoneNumber, generateReferenceNumber } from '@/lib/auth/security';
-import { cookies } from 'next/headers';
-import { z } from 'zod';
-
-const grantCreditSchema = z.object({
-    agentPhone: z.string().min(9, 'Invalid phone number'),
-    amount: z.number().positive('Amount must be positive'),
-    currency: z.enum(['USD', 'SYP']).default('USD'),
-});
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { grantAgentCredit, agentCreditSchema } from '@/lib/financial/admin-actions';
+import { requiresApproval, proposeApproval, PENDING_APPROVAL_MESSAGE } from '@/lib/financial/approvals';
 
 export async function POST(request: NextRequest) {
     try {
-        const cookieStore = await cookies();
-        const token = cookieStore.get('accessToken')?.value;
-
-        if (!token) {
+        const auth = await verifyAdminPermission(PERMISSIONS.AGENTS_CREDIT, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
-        const payload = verifyAccessToken(token);
-        if (!payload || payload.userType !== 'ADMIN') {
-            return NextResponse.json(
-                { error: 'Unauthorized - Admin access required' },
-                { status: 403, headers: getSecurityHeaders() }
-            );
-        }
+        const payload = auth.payload;
 
         const body = await request.json();
-        const result = grantCreditSchema.safeParse(body);
+        const result = agentCreditSchema.safeParse(body);
 
         if (!result.success) {
             return NextResponse.json(
@@ -40,125 +27,34 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const { agentPhone, amount, currency } = result.data;
-        const sanitizedPhone = sanitizePhoneNumber(agentPhone);
-
-        // Find agent
-        const agent = await prisma.user.findFirst({
-            where: {
-                phone: { contains: sanitizedPhone.replace('+963', '') },
-                userType: 'AGENT',
-            },
-            include: {
-                wallets: true,
-                agentProfile: true,
-            },
-        });
+        const { amount, currency } = result.data;
+        const ipAddress = request.headers.get('x-forwarded-for') || undefined;
+
+        // Four-eyes: large grants wait for a second admin
+        if (await requiresApproval('AGENT_CREDIT', amount, currency)) {
+            const approval = await proposeApproval({
+                actionType: 'AGENT_CREDIT',
+                payload: result.data,
+                amount,
+                currency,
+                requestedBy: payload.userId,
+                ipAddress,
+            });
 
-        if (!agent || !agent.agentProfile) {
             return NextResponse.json(
-                { error: 'Agent not found' },
-                { status: 404, headers: getSecurityHeaders() }
+                { success: true, pendingApproval: true, approvalRequestId: approval.id, message: PENDING_APPROVAL_MESSAGE },
+                { status: 202, headers: getSecurityHeaders() }
             );
         }
 
-        // Grant credit in a transaction
-        await prisma.$transaction(async (tx) => {
-            // 1. Debit Central Bank (goes negative - source of all money)
-            const centralBank = await tx.user.findFirst({
-                where: { phone: 'CENTRAL_BANK' },
-                include: { wallets: true },
-            });
+        const outcome = await grantAgentCredit(result.data, { adminId: payload.userId, ipAddress });
 
-            // Find central bank wallet for the specified currency
-            const centralBankWallet = (centralBank?.wallets as any[])?.find(
-                (w: { currency: string }) => w.currency === currency
+        if (!outcome.success) {
+            return NextResponse.json(
+                { error: outcome.error },
+                { status: outcome.status || 400, headers: getSecurityHeaders() }
             );
-
-            if (centralBankWallet) {
-                await tx.wallet.update({
-                    where: { id: centralBankWallet.id },
-                    data: { balance: { decrement: amount } }, // Goes negative
-                });
-            }
-
-            // 2. Credit Agent (add to currentCredit based on currency)
-            if (currency === 'SYP') {
-                await tx.agentProfile.update({
-                    where: { id: agent.agentProfile!.id },
-                    data: {
-                        currentCreditSYP: { increment: amount },
-                    },
-                });
-            } else {
-                await tx.agentProfile.update({
-                    where: { id: agent.agentProfile!.id },
-                    data: {
-                        currentCredit: { increment: amount },
-                    },
-                });
-            }
-
-            // 3. Create transaction record
-            const transaction = await tx.transaction.create({
-                data: {
-                    referenceNumber: generateReferenceNumber('CRD'),
-                    type: 'CREDIT_GRANT',
-                    status: 'COMPLETED',
-                    receiverId: agent.id,
-                    amount,
-                    fee: 0,
-                    platformFee: 0,
-                    agentFee: 0,
-                    netAmount: amount,
-                    currency,
-                    description: `Credit grant from admin (${currency})`,
-                    descriptionAr: `منح رصيد من الإدارة (${currency})`,
-                    completedAt: new Date(),
-                },
-            });
-
-            // 4. Create Double-Entry Ledger Entry with tx context for proper rollback
-            const { createLedgerEntry, INTERNAL_ACCOUNTS } = await import('@/lib/financial/core-ledger');
-            await createLedgerEntry({
-                description: `Credit Grant: ${transaction.referenceNumber}`,
-                descriptionAr: `منح رصيد: ${transaction.referenceNumber}`,
-                transactionId: transaction.id,
-                createdBy: payload.userId,
-                currency, // Pass currency for correct balance field
-                tx, // Pass transaction context for atomic rollback
-                lines: [
-                    // Debit System Reserve (source of all money)
-                    { accountCode: INTERNAL_ACCOUNTS.SYSTEM_RESERVE, debit: amount, credit: 0 },
-                    // Credit Agent Ledger (Agent receives credit)
-                    { accountCode: INTERNAL_ACCOUNTS.AGENTS_LEDGER, debit: 0, credit: amount },
-                ],
-            });
-        });
-
-        // Audit log
-        await prisma.auditLog.create({
-            data: {
-                userId: payload.userId,
-                action: 'CREDIT_GRANTED',
-                entity: 'AgentProfile',
-                entityId: agent.agentProfile.id,
-                newValue: JSON.stringify({ amount, agentPhone: sanitizedPhone }),
-                ipAddress: request.headers.get('x-forwarded-for') || undefined,
-            },
-        });
-
-        // Notification
-        await prisma.notification.create({
-            data: {
-                userId: agent.id,
-                type: 'SYSTEM',
-                title: 'Credit Granted',
-                titleAr: 'تم منحك رصيد',
-                message: `You have been granted ${amount} ${currency === 'SYP' ? 'SYP' : 'USD'} credit`,
-                messageAr: `تم منحك رصيد بقيمة ${amount} ${currency === 'SYP' ? 'ل.س' : '$'}`,
-            },
-        });
+        }
 
         return NextResponse.json(
             { success: true },
@@ -1,25 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
-import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
-import { cookies } from 'next/headers';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
 
 export async function GET(request: NextRequest) {
     try {
-        const cookieStore = await cookies();
-        const token = cookieStore.get('accessToken')?.value;
-
-        if (!token) {
-            return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
-            );
-        }
-
-        const payload = verifyAccessToken(token);
-        if (!payload || payload.userType !== 'ADMIN') {
+        const auth = await verifyAdminPermission(PERMISSIONS.AGENTS_VIEW, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Admin access required' },
-                { status: 403, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { APPROVAL_ACTIONS, approveAndExecute, isApprovalActionType } from '@/lib/financial/approvals';
+
+/**
+ * Approve a pending action (checker step) and execute it
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await verifyAdminPermission(PERMISSIONS.DASHBOARD_VIEW, request);
+        if (!auth.success || !auth.payload) {
+            return NextResponse.json(
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
+            );
+        }
+
+        const payload = auth.payload;
+
+        const { id } = await params;
+
+        const approval = await prisma.approvalRequest.findUnique({
+            where: { id },
+        });
+
+        if (!approval || !isApprovalActionType(approval.actionType)) {
+            return NextResponse.json(
+                { error: 'الطلب غير موجود' },
+                { status: 404, headers: getSecurityHeaders() }
+            );
+        }
+
+        // The checker needs the same permission the action itself requires
+        const permission = await verifyAdminPermission(APPROVAL_ACTIONS[approval.actionType].permission, request);
+        if (!permission.success) {
+            return NextResponse.json(
+                { error: permission.error },
+                { status: permission.status, headers: getSecurityHeaders() }
+            );
+        }
+
+        if (approval.status !== 'PENDING') {
+            return NextResponse.json(
+                { error: 'تم معالجة هذا الطلب بالفعل' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        // Four-eyes: the proposer cannot approve their own request
+        if (approval.requestedBy === payload.userId) {
+            return NextResponse.json(
+                { error: 'لا يمكنك الموافقة على طلب قمت بإنشائه. يجب موافقة مشرف آخر' },
+                { status: 403, headers: getSecurityHeaders() }
+            );
+        }
+
+        const outcome = await approveAndExecute(
+            id,
+            payload.userId,
+            request.headers.get('x-forwarded-for') || undefined
+        );
+
+        if (!outcome.success) {
+            return NextResponse.json(
+                { error: outcome.error || 'فشل تنفيذ الطلب' },
+                { status: outcome.status || 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        return NextResponse.json(
+            {
+                success: true,
+                message: 'تمت الموافقة وتنفيذ الطلب',
+                result: outcome.data,
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Approve request error:', error);
+        return NextResponse.json(
+            { error: 'حدث خطأ في الخادم' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { APPROVAL_ACTIONS, isApprovalActionType } from '@/lib/financial/approvals';
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await verifyAdminPermission(PERMISSIONS.DASHBOARD_VIEW, request);
+        if (!auth.success || !auth.payload) {
+            return NextResponse.json(
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
+            );
+        }
+
+        const payload = auth.payload;
+
+        const { id } = await params;
+        const body = await request.json().catch(() => ({}));
+        const { reason } = body;
+
+        const approval = await prisma.approvalRequest.findUnique({
+            where: { id },
+        });
+
+        if (!approval || !isApprovalActionType(approval.actionType)) {
+            return NextResponse.json(
+                { error: 'الطلب غير موجود' },
+                { status: 404, headers: getSecurityHeaders() }
+            );
+        }
+
+        const permission = await verifyAdminPermission(APPROVAL_ACTIONS[approval.actionType].permission, request);
+        if (!permission.success) {
+            return NextResponse.json(
+                { error: permission.error },
+                { status: permission.status, headers: getSecurityHeaders() }
+            );
+        }
+
+        // The proposer may withdraw their own request; anyone else rejects it
+        const updated = await prisma.approvalRequest.updateMany({
+            where: { id, status: 'PENDING' },
+            data: {
+                status: 'REJECTED',
+                reviewedBy: payload.userId,
+                reviewedAt: new Date(),
+                rejectionReason: reason || null,
+            },
+        });
+
+        if (updated.count === 0) {
+            return NextResponse.json(
+                { error: 'تم معالجة هذا الطلب بالفعل' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        await prisma.auditLog.create({
+            data: {
+                userId: payload.userId,
+                action: 'APPROVAL_REJECTED',
+                entity: 'ApprovalRequest',
+                entityId: id,
+                newValue: JSON.stringify({
+                    actionType: approval.actionType,
+                    requestedBy: approval.requestedBy,
+                    reason,
+                }),
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            {
+                success: true,
+                message: 'تم رفض الطلب',
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Reject request error:', error);
+        return NextResponse.json(
+            { error: 'حدث خطأ في الخادم' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
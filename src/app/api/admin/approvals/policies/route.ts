@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { approvalPoliciesSchema, proposeApproval, PENDING_APPROVAL_MESSAGE } from '@/lib/financial/approvals';
+
+/**
+ * Propose new approval thresholds
+ * Always queued - otherwise one admin could lift the threshold and then act alone
+ */
+export async function PUT(request: NextRequest) {
+    try {
+        const auth = await verifyAdminPermission(PERMISSIONS.SETTINGS_MANAGE, request);
+        if (!auth.success || !auth.payload) {
+            return NextResponse.json(
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
+            );
+        }
+
+        const payload = auth.payload;
+
+        const body = await request.json();
+        const result = approvalPoliciesSchema.safeParse(body);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const approval = await proposeApproval({
+            actionType: 'APPROVAL_POLICY_UPDATE',
+            payload: result.data,
+            requestedBy: payload.userId,
+            ipAddress: request.headers.get('x-forwarded-for') || undefined,
+        });
+
+        return NextResponse.json(
+            { success: true, pendingApproval: true, approvalRequestId: approval.id, message: PENDING_APPROVAL_MESSAGE },
+            { status: 202, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Update approval policies error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS, hasPermission } from '@/lib/auth/permissions';
+import { APPROVAL_ACTIONS, APPROVAL_ACTION_TYPES, getApprovalPolicies } from '@/lib/financial/approvals';
+
+/**
+ * List approval requests the admin is allowed to review (default: pending ones)
+ * plus the current approval policies
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await verifyAdminPermission(PERMISSIONS.DASHBOARD_VIEW, request);
+        if (!auth.success || !auth.payload) {
+            return NextResponse.json(
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
+            );
+        }
+
+        const payload = auth.payload;
+        const status = request.nextUrl.searchParams.get('status') || 'PENDING';
+
+        const reviewableTypes = APPROVAL_ACTION_TYPES.filter(type =>
+            hasPermission(auth.role, APPROVAL_ACTIONS[type].permission)
+        );
+
+        const approvalRequests = await prisma.approvalRequest.findMany({
+            where: {
+                actionType: { in: [...reviewableTypes] },
+                ...(status === 'ALL' ? {} : { status }),
+            },
+            orderBy: { createdAt: 'desc' },
+            take: 100,
+        });
+
+        const adminIds = Array.from(new Set(
+            approvalRequests.flatMap(r => [r.requestedBy, r.reviewedBy]).filter((id): id is string => !!id)
+        ));
+        const admins = await prisma.user.findMany({
+            where: { id: { in: adminIds } },
+            select: { id: true, fullName: true, fullNameAr: true },
+        });
+        const adminNames = new Map(admins.map(a => [a.id, a.fullNameAr || a.fullName]));
+
+        return NextResponse.json(
+            {
+                approvalRequests: approvalRequests.map(r => ({
+                    ...r,
+                    payload: JSON.parse(r.payload),
+                    result: r.result ? JSON.parse(r.result) : null,
+                    actionName: APPROVAL_ACTIONS[r.actionType as keyof typeof APPROVAL_ACTIONS]?.name || null,
+                    requestedByName: adminNames.get(r.requestedBy) || null,
+                    reviewedByName: r.reviewedBy ? adminNames.get(r.reviewedBy) || null : null,
+                    canApprove: r.status === 'PENDING' && r.requestedBy !== payload.userId,
+                })),
+                policies: (await getApprovalPolicies()).map(p => ({
+                    ...p,
+                    name: APPROVAL_ACTIONS[p.actionType].name,
+                    amountBased: APPROVAL_ACTIONS[p.actionType].amountBased,
+                    configurable: APPROVAL_ACTIONS[p.actionType].configurable,
+                })),
+                canManagePolicies: hasPermission(auth.role, PERMISSIONS.SETTINGS_MANAGE),
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Get approval requests error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -1,25 +1,17 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
-import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
-import { cookies } from 'next/headers';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { toAmount } from '@/lib/financial/money';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
     try {
-        const cookieStore = await cookies();
-        const token = cookieStore.get('accessToken')?.value;
-
-        if (!token) {
-            return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
-            );
-        }
-
-        const payload = verifyAccessToken(token);
-        if (!payload || payload.userType !== 'ADMIN') {
+        const auth = await verifyAdminPermission(PERMISSIONS.LEDGER_VIEW, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Admin access required' },
-                { status: 403, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
@@ -101,7 +93,7 @@ export async function GET() {
         });
 
         const getAccountBalance = (code: string) =>
-            internalAccounts.find(a => a.code === code)?.balance || 0;
+            toAmount(internalAccounts.find(a => a.code === code)?.balance);
 
         // System Reserve is the central bank's actual reserve
         const systemReserveUSD = getAccountBalance('SYS-RESERVE');
@@ -138,9 +130,9 @@ export async function GET() {
                 totalAgentCash: agentCredits._sum.cashCollected || 0,
                 totalAgentCashSYP: agentCredits._sum.cashCollectedSYP || 0,
                 // System should balance to zero (USD)
-                systemBalance: systemReserveUSD + (userWalletsUSD._sum.balance || 0),
+                systemBalance: systemReserveUSD + toAmount(userWalletsUSD._sum.balance),
                 // System should balance to zero (SYP)
-                systemBalanceSYP: systemReserveSYP + (userWalletsSYP._sum.balance || 0),
+                systemBalanceSYP: systemReserveSYP + toAmount(userWalletsSYP._sum.balance),
             },
             internalAccounts: internalAccounts.map(a => ({
                 code: a.code,
@@ -0,0 +1,126 @@
+/**
+ * API: USD/SYP Exchange Rates
+ * GET - Rate history (latest first) - the first row is the live rate
+ * POST - Publish a new rate; quotes already issued keep the rate they locked
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { z } from 'zod';
+
+const rateSchema = z.object({
+    buyRate: z.number().positive('Buy rate must be positive'),
+    sellRate: z.number().positive('Sell rate must be positive'),
+    note: z.string().max(200).optional(),
+});
+
+// GET: Rate history
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await verifyAdminPermission(PERMISSIONS.EXCHANGE_RATES_MANAGE, request);
+        if (!auth.success || !auth.payload) {
+            return NextResponse.json(
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
+            );
+        }
+
+        const rates = await prisma.exchangeRate.findMany({
+            orderBy: { createdAt: 'desc' },
+            take: 100,
+        });
+
+        const adminIds = Array.from(new Set(rates.map(r => r.createdBy)));
+        const admins = await prisma.user.findMany({
+            where: { id: { in: adminIds } },
+            select: { id: true, fullName: true },
+        });
+        const adminNames = new Map(admins.map(a => [a.id, a.fullName]));
+
+        return NextResponse.json(
+            {
+                current: rates[0] || null,
+                history: rates.map(r => ({ ...r, createdByName: adminNames.get(r.createdBy) || null })),
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Get exchange rates error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
+
+// POST: Publish a new rate
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await verifyAdminPermission(PERMISSIONS.EXCHANGE_RATES_MANAGE, request);
+        if (!auth.success || !auth.payload) {
+            return NextResponse.json(
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
+            );
+        }
+
+        const payload = auth.payload;
+
+        const body = await request.json();
+        const result = rateSchema.safeParse(body);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { buyRate, sellRate, note } = result.data;
+
+        // Selling USD to users must never be cheaper than buying it from them
+        if (sellRate < buyRate) {
+            return NextResponse.json(
+                { error: 'سعر البيع يجب أن يكون أكبر من أو يساوي سعر الشراء' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const previous = await prisma.exchangeRate.findFirst({ orderBy: { createdAt: 'desc' } });
+
+        const rate = await prisma.exchangeRate.create({
+            data: {
+                buyRate,
+                sellRate,
+                note,
+                createdBy: payload.userId,
+            },
+        });
+
+        await prisma.auditLog.create({
+            data: {
+                userId: payload.userId,
+                action: 'EXCHANGE_RATE_UPDATED',
+                entity: 'ExchangeRate',
+                entityId: rate.id,
+                oldValue: previous ? JSON.stringify({ buyRate: previous.buyRate, sellRate: previous.sellRate }) : undefined,
+                newValue: JSON.stringify({ buyRate, sellRate, note }),
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            { success: true, message: 'تم تحديث سعر الصرف', rate },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Set exchange rate error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
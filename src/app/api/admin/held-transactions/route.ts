@@ -6,34 +6,19 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
-import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
-import { cookies } from 'next/headers';
-
-// Verify admin access
-async function verifyAdmin(request: NextRequest) {
-    const cookieStore = await cookies();
-    const token = cookieStore.get('accessToken')?.value;
-
-    if (!token) {
-        return null;
-    }
-
-    const payload = verifyAccessToken(token);
-    if (!payload || payload.userType !== 'ADMIN') {
-        return null;
-    }
-
-    return payload;
-}
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { releaseHeldFunds, cancelHeldFunds } from '@/lib/financial/held-funds';
 
 // GET: Get held transactions
 export async function GET(request: NextRequest) {
     try {
-        const admin = await verifyAdmin(request);
-        if (!admin) {
+        const auth = await verifyAdminPermission(PERMISSIONS.RISK_MANAGE, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
@@ -72,14 +57,16 @@ export async function GET(request: NextRequest) {
 // POST: Release or cancel held transaction
 export async function POST(request: NextRequest) {
     try {
-        const admin = await verifyAdmin(request);
-        if (!admin) {
+        const auth = await verifyAdminPermission(PERMISSIONS.RISK_MANAGE, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
+        const payload = auth.payload;
+
         const body = await request.json();
         const { heldId, action, notes } = body;
 
@@ -108,50 +95,39 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Release pays the parked funds out of SUSPENSE; cancel refunds the payer
         if (action === 'RELEASE') {
-            // Release the transaction
-            await prisma.$transaction([
-                prisma.heldTransaction.update({
-                    where: { id: heldId },
-                    data: {
-                        status: 'RELEASED',
-                        releasedBy: admin.userId,
-                        releasedAt: new Date(),
-                        releaseNotes: notes,
-                    },
-                }),
-                prisma.transaction.update({
-                    where: { id: held.transactionId },
-                    data: { status: 'COMPLETED', completedAt: new Date() },
-                }),
-            ]);
+            await releaseHeldFunds(heldId, payload.userId, notes);
         } else {
-            // Cancel the transaction
-            await prisma.$transaction([
-                prisma.heldTransaction.update({
-                    where: { id: heldId },
-                    data: {
-                        status: 'CANCELLED',
-                        releasedBy: admin.userId,
-                        releasedAt: new Date(),
-                        releaseNotes: notes,
-                    },
-                }),
-                prisma.transaction.update({
-                    where: { id: held.transactionId },
-                    data: { status: 'CANCELLED' },
-                }),
-            ]);
-
-            // TODO: Refund sender if money was already deducted
+            await cancelHeldFunds(heldId, payload.userId, notes);
         }
 
+        await prisma.auditLog.create({
+            data: {
+                userId: payload.userId,
+                action: action === 'RELEASE' ? 'HELD_TRANSACTION_RELEASED' : 'HELD_TRANSACTION_CANCELLED',
+                entity: 'HeldTransaction',
+                entityId: heldId,
+                newValue: JSON.stringify({ transactionId: held.transactionId, holdAmount: held.holdAmount, notes }),
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+                userAgent: request.headers.get('user-agent') || undefined,
+            },
+        });
+
         return NextResponse.json(
             { success: true, action },
             { status: 200, headers: getSecurityHeaders() }
         );
-    } catch (error) {
+    } catch (error: any) {
         console.error('Held transaction action error:', error);
+
+        if (error?.message === 'HELD_NOT_AVAILABLE') {
+            return NextResponse.json(
+                { error: 'Transaction not found or already processed' },
+                { status: 404, headers: getSecurityHeaders() }
+            );
+        }
+
         return NextResponse.json(
             { error: 'Internal server error' },
             { status: 500, headers: getSecurityHeaders() }
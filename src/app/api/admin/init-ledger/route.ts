@@ -1,23 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
 import { getSecurityHeaders } from '@/lib/auth/security';
-import { verifyAuth, hasRole } from '@/lib/auth/verify-session';
-import { initializeAllAccounts } from '@/lib/financial/core-ledger';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { initializeAllAccounts, INTERNAL_ACCOUNTS } from '@/lib/financial/core-ledger';
 
 /**
  * POST /api/admin/init-ledger
  * Initialize all required ledger accounts
- * Only accessible by ADMIN users
+ * Requires the ledger:manage permission
  */
 export async function POST(request: NextRequest) {
     try {
         // Verify admin authentication
-        const auth = await verifyAuth(request);
+        const auth = await verifyAdminPermission(PERMISSIONS.LEDGER_MANAGE, request);
 
-        if (!auth.success || !hasRole(auth.user, ['ADMIN'])) {
+        if (!auth.success) {
             return NextResponse.json(
-                { error: 'Unauthorized - Admin access required' },
-                { status: 403, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
@@ -52,12 +53,12 @@ export async function POST(request: NextRequest) {
  */
 export async function GET(request: NextRequest) {
     try {
-        const auth = await verifyAuth(request);
+        const auth = await verifyAdminPermission(PERMISSIONS.LEDGER_VIEW, request);
 
-        if (!auth.success || !hasRole(auth.user, ['ADMIN'])) {
+        if (!auth.success) {
             return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 403, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
@@ -72,7 +73,10 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({
             ledgerAccounts,
             internalAccounts,
-            isInitialized: ledgerAccounts.length >= 7 && internalAccounts.length >= 7,
+            // Every code must exist - newly added accounts (e.g. FX-POSITION) need another init run
+            isInitialized: Object.values(INTERNAL_ACCOUNTS).every(code =>
+                ledgerAccounts.some(a => a.code === code) && internalAccounts.some(a => a.code === code)
+            ),
         }, { headers: getSecurityHeaders() });
     } catch (error) {
         console.error('Check ledger error:', error);
@@ -6,34 +6,19 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
-import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
-import { cookies } from 'next/headers';
-
-// Verify admin access
-async function verifyAdmin(request: NextRequest) {
-    const cookieStore = await cookies();
-    const token = cookieStore.get('accessToken')?.value;
-
-    if (!token) {
-        return null;
-    }
-
-    const payload = verifyAccessToken(token);
-    if (!payload || payload.userType !== 'ADMIN') {
-        return null;
-    }
-
-    return payload;
-}
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { toAmount, sumAmounts } from '@/lib/financial/money';
 
 // GET: Get all internal accounts
 export async function GET(request: NextRequest) {
     try {
-        const admin = await verifyAdmin(request);
-        if (!admin) {
+        const auth = await verifyAdminPermission(PERMISSIONS.LEDGER_VIEW, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
@@ -45,17 +30,17 @@ export async function GET(request: NextRequest) {
         const usdAccounts = accounts.filter(a => !a.code.endsWith('-SYP'));
         const sypAccounts = accounts.filter(a => a.code.endsWith('-SYP'));
 
-        const systemReserve = usdAccounts.find(a => a.code === 'SYS-RESERVE')?.balance || 0;
-        const otherTotal = usdAccounts
+        const systemReserve = toAmount(usdAccounts.find(a => a.code === 'SYS-RESERVE')?.balance);
+        const otherTotal = sumAmounts(usdAccounts
             .filter(a => a.code !== 'SYS-RESERVE')
-            .reduce((sum, a) => sum + a.balance, 0);
+            .map(a => a.balance));
         const isBalanced = Math.abs(systemReserve + otherTotal) < 0.01;
 
         // Calculate totals - SYP
-        const systemReserveSYP = sypAccounts.find(a => a.code === 'SYS-RESERVE-SYP')?.balance || 0;
-        const otherTotalSYP = sypAccounts
+        const systemReserveSYP = toAmount(sypAccounts.find(a => a.code === 'SYS-RESERVE-SYP')?.balance);
+        const otherTotalSYP = sumAmounts(sypAccounts
             .filter(a => a.code !== 'SYS-RESERVE-SYP')
-            .reduce((sum, a) => sum + a.balance, 0);
+            .map(a => a.balance));
         const isBalancedSYP = Math.abs(systemReserveSYP + otherTotalSYP) < 1; // SYP doesn't have decimals
 
         return NextResponse.json(
@@ -86,14 +71,16 @@ export async function GET(request: NextRequest) {
 // POST: Verify and sync balances
 export async function POST(request: NextRequest) {
     try {
-        const admin = await verifyAdmin(request);
-        if (!admin) {
+        const auth = await verifyAdminPermission(PERMISSIONS.LEDGER_MANAGE, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
+        const payload = auth.payload;
+
         // Recalculate balances using optimized aggregation - USD
         const [userBalanceUSD, agentCreditUSD, merchantBalanceUSD, totalFeesUSD] = await Promise.all([
             prisma.wallet.aggregate({
@@ -217,7 +204,7 @@ export async function POST(request: NextRequest) {
         const allAccounts = await prisma.internalAccount.findMany({
             where: { code: { not: 'SYS-RESERVE' } },
         });
-        const totalOther = allAccounts.reduce((sum, a) => sum + a.balance, 0);
+        const totalOther = sumAmounts(allAccounts.map(a => a.balance));
 
         await prisma.internalAccount.upsert({
             where: { code: 'SYS-RESERVE' },
@@ -228,7 +215,7 @@ export async function POST(request: NextRequest) {
         // Log the sync
         await prisma.auditLog.create({
             data: {
-                userId: admin.userId,
+                userId: payload.userId,
                 action: 'SYNC_INTERNAL_ACCOUNTS',
                 entity: 'InternalAccount',
                 newValue: JSON.stringify({
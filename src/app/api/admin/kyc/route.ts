@@ -1,35 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
-import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
 import { sendKYCStatusEmail } from '@/lib/email/email';
-import { cookies } from 'next/headers';
+import { resolveKycTier, getQualifiedKycTier, KYC_TIER_NAMES, type KycTier } from '@/lib/kyc/tiers';
 import { z } from 'zod';
 
 const kycActionSchema = z.object({
     userId: z.string(),
     action: z.enum(['approve', 'reject']),
     reason: z.string().optional(),
+    // Reject only these documents - the other pending ones are approved
+    documentIds: z.array(z.string()).optional(),
 });
 
 export async function POST(request: NextRequest) {
     try {
-        const cookieStore = await cookies();
-        const token = cookieStore.get('accessToken')?.value;
-
-        if (!token) {
+        const auth = await verifyAdminPermission(PERMISSIONS.KYC_REVIEW, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
-        const payload = verifyAccessToken(token);
-        if (!payload || payload.userType !== 'ADMIN') {
-            return NextResponse.json(
-                { error: 'Admin access required' },
-                { status: 403, headers: getSecurityHeaders() }
-            );
-        }
+        const payload = auth.payload;
 
         const body = await request.json();
         const result = kycActionSchema.safeParse(body);
@@ -41,23 +37,69 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const { userId, action, reason } = result.data;
+        const { userId, action, reason, documentIds } = result.data;
 
-        const newStatus = action === 'approve' ? 'APPROVED' : 'REJECTED';
-
-        await prisma.user.update({
+        const user = await prisma.user.findUnique({
             where: { id: userId },
-            data: { kycStatus: newStatus },
+            select: {
+                kycTier: true,
+                kycStatus: true,
+                kycRequestedTier: true,
+                email: true,
+                fullName: true,
+                fullNameAr: true,
+            },
         });
 
-        // Update KYC documents if any
-        await prisma.kYCDocument.updateMany({
+        if (!user) {
+            return NextResponse.json(
+                { error: 'User not found' },
+                { status: 404, headers: getSecurityHeaders() }
+            );
+        }
+
+        const newStatus = action === 'approve' ? 'APPROVED' : 'REJECTED';
+        const rejectedIds = action === 'reject' ? documentIds : undefined;
+        const reviewData = { reviewedBy: payload.userId, reviewedAt: new Date() };
+
+        // Review the pending documents one by one - earlier reviews stay as they are
+        if (rejectedIds && rejectedIds.length > 0) {
+            await prisma.kYCDocument.updateMany({
+                where: { userId, status: 'PENDING', id: { in: rejectedIds } },
+                data: { ...reviewData, status: 'REJECTED', rejectionReason: reason },
+            });
+            await prisma.kYCDocument.updateMany({
+                where: { userId, status: 'PENDING' },
+                data: { ...reviewData, status: 'APPROVED', rejectionReason: null },
+            });
+        } else {
+            await prisma.kYCDocument.updateMany({
+                where: { userId, status: 'PENDING' },
+                data: {
+                    ...reviewData,
+                    status: newStatus,
+                    rejectionReason: action === 'reject' ? reason : null,
+                },
+            });
+        }
+
+        // The tier follows the approved documents - a partial rejection can still unlock a lower tier
+        const documents = await prisma.kYCDocument.findMany({
             where: { userId },
+            select: { documentType: true, status: true, createdAt: true },
+        });
+        const previousTier = resolveKycTier(user);
+        const kycTier = Math.max(previousTier, getQualifiedKycTier(documents)) as KycTier;
+
+        await prisma.user.update({
+            where: { id: userId },
             data: {
-                status: newStatus,
-                reviewedBy: payload.userId,
-                reviewedAt: new Date(),
-                rejectionReason: action === 'reject' ? reason : null,
+                kycStatus: newStatus,
+                kycTier,
+                kycRequestedTier: null,
+                kycReviewedAt: new Date(),
+                kycReviewedBy: payload.userId,
+                kycRejectionReason: action === 'reject' ? reason || null : null,
             },
         });
 
@@ -68,7 +110,15 @@ export async function POST(request: NextRequest) {
                 action: `KYC_${action.toUpperCase()}`,
                 entity: 'User',
                 entityId: userId,
-                newValue: JSON.stringify({ status: newStatus, reason }),
+                newValue: JSON.stringify({
+                    status: newStatus,
+                    reason,
+                    rejectedDocumentIds: rejectedIds,
+                    requestedTier: user.kycRequestedTier,
+                    previousTier,
+                    kycTier,
+                }),
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
             },
         });
 
@@ -80,21 +130,16 @@ export async function POST(request: NextRequest) {
                 title: action === 'approve' ? 'KYC Approved' : 'KYC Rejected',
                 titleAr: action === 'approve' ? 'تم قبول التحقق' : 'تم رفض التحقق',
                 message: action === 'approve'
-                    ? 'Your KYC verification has been approved'
+                    ? `Your KYC verification has been approved (${KYC_TIER_NAMES[kycTier].en})`
                     : `Your KYC verification was rejected: ${reason || 'No reason provided'}`,
                 messageAr: action === 'approve'
-                    ? 'تم قبول طلب التحقق من هويتك'
+                    ? `تم قبول طلب التحقق من هويتك (${KYC_TIER_NAMES[kycTier].ar})`
                     : `تم رفض طلب التحقق: ${reason || 'لم يتم تحديد السبب'}`,
             },
         });
 
         // Send email notification
-        const user = await prisma.user.findUnique({
-            where: { id: userId },
-            select: { email: true, fullName: true, fullNameAr: true },
-        });
-
-        if (user?.email) {
+        if (user.email) {
             await sendKYCStatusEmail({
                 to: user.email,
                 userName: user.fullNameAr || user.fullName,
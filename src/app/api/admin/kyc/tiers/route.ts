@@ -0,0 +1,118 @@
+/**
+ * KYC Tier Limits API
+ * GET - Current limits per tier
+ * PUT - Update limits per tier
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { KYC_TIER_NAMES, KYC_TIER_REQUIREMENTS, getKycTierLimits } from '@/lib/kyc/tiers';
+import { z } from 'zod';
+
+const limit = z.number().positive('Limits must be positive');
+
+const tierLimitsSchema = z.object({
+    tiers: z.array(z.object({
+        tier: z.union([z.literal(0), z.literal(1), z.literal(2)]),
+        dailyLimitUSD: limit,
+        weeklyLimitUSD: limit,
+        monthlyLimitUSD: limit,
+        dailyLimitSYP: limit,
+        weeklyLimitSYP: limit,
+        monthlyLimitSYP: limit,
+    })).min(1),
+});
+
+// GET: Get limits per KYC tier
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await verifyAdminPermission(PERMISSIONS.RISK_MANAGE, request);
+        if (!auth.success || !auth.payload) {
+            return NextResponse.json(
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
+            );
+        }
+
+        const tiers = await getKycTierLimits();
+
+        return NextResponse.json(
+            {
+                tiers: tiers.map(t => ({
+                    ...t,
+                    name: KYC_TIER_NAMES[t.tier],
+                    requirements: KYC_TIER_REQUIREMENTS[t.tier],
+                })),
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Get KYC tier limits error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
+
+// PUT: Update limits per KYC tier
+export async function PUT(request: NextRequest) {
+    try {
+        const auth = await verifyAdminPermission(PERMISSIONS.RISK_MANAGE, request);
+        if (!auth.success || !auth.payload) {
+            return NextResponse.json(
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
+            );
+        }
+
+        const payload = auth.payload;
+
+        const body = await request.json();
+        const result = tierLimitsSchema.safeParse(body);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const oldTiers = await getKycTierLimits();
+
+        await prisma.$transaction(
+            result.data.tiers.map(({ tier, ...limits }) =>
+                prisma.kycTierLimit.upsert({
+                    where: { tier },
+                    update: { ...limits, updatedBy: payload.userId },
+                    create: { tier, ...limits, updatedBy: payload.userId },
+                })
+            )
+        );
+
+        await prisma.auditLog.create({
+            data: {
+                userId: payload.userId,
+                action: 'UPDATE_KYC_TIER_LIMITS',
+                entity: 'KycTierLimit',
+                oldValue: JSON.stringify(oldTiers),
+                newValue: JSON.stringify(result.data.tiers),
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            { success: true, tiers: await getKycTierLimits() },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Update KYC tier limits error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
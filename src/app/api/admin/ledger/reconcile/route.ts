@@ -0,0 +1,51 @@
+/**
+ * API: Wallet-to-Ledger Reconciliation
+ * POST - Run a reconciliation now (the scheduler runs one every hour)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { runReconciliation } from '@/lib/financial/reconciliation';
+
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await verifyAdminPermission(PERMISSIONS.LEDGER_MANAGE, request);
+        if (!auth.success || !auth.payload) {
+            return NextResponse.json(
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
+            );
+        }
+
+        const result = await runReconciliation('MANUAL', auth.payload.userId);
+
+        await prisma.auditLog.create({
+            data: {
+                userId: auth.payload.userId,
+                action: result.status === 'BALANCED' ? 'LEDGER_RECONCILED' : 'LEDGER_RECONCILIATION_BROKEN',
+                entity: 'ReconciliationRun',
+                entityId: result.runId,
+                newValue: JSON.stringify({
+                    checks: result.checks.filter((check) => !check.balanced),
+                    discrepancies: result.discrepancies.length,
+                }),
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+                userAgent: request.headers.get('user-agent') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            { success: true, ...result },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Ledger reconciliation error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -0,0 +1,52 @@
+/**
+ * API: Ledger Hash Chain Verification
+ * GET - Walk the whole chain and report the first broken or forked link
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { verifyLedgerChain } from '@/lib/financial/ledger-integrity';
+
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await verifyAdminPermission(PERMISSIONS.LEDGER_VIEW, request);
+        if (!auth.success || !auth.payload) {
+            return NextResponse.json(
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
+            );
+        }
+
+        const result = await verifyLedgerChain();
+
+        await prisma.auditLog.create({
+            data: {
+                userId: auth.payload.userId,
+                action: result.valid ? 'LEDGER_CHAIN_VERIFIED' : 'LEDGER_CHAIN_BROKEN',
+                entity: 'LedgerEntry',
+                entityId: result.firstBreak?.entryId,
+                newValue: JSON.stringify({
+                    checkedEntries: result.checkedEntries,
+                    headSequence: result.headSequence,
+                    firstBreak: result.firstBreak,
+                }),
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+                userAgent: request.headers.get('user-agent') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            result,
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Verify ledger chain error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -1,25 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
-import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
-import { cookies } from 'next/headers';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { sumAmounts } from '@/lib/financial/money';
+import { getReconciliationHistory } from '@/lib/financial/reconciliation';
 
 export async function GET(request: NextRequest) {
     try {
-        const cookieStore = await cookies();
-        const token = cookieStore.get('accessToken')?.value;
-
-        if (!token) {
-            return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
-            );
-        }
-
-        const payload = verifyAccessToken(token);
-        if (!payload || payload.userType !== 'ADMIN') {
+        const auth = await verifyAdminPermission(PERMISSIONS.LEDGER_VIEW, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Admin access required' },
-                { status: 403, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
@@ -63,23 +56,26 @@ export async function GET(request: NextRequest) {
         const stats = {
             totalTransactions: transactions.length,
             // Volume by currency
-            totalVolumeUSD: usdTransactions.reduce((sum, tx) => sum + tx.amount, 0),
-            totalVolumeSYP: sypTransactions.reduce((sum, tx) => sum + tx.amount, 0),
+            totalVolumeUSD: sumAmounts(usdTransactions.map(tx => tx.amount)),
+            totalVolumeSYP: sumAmounts(sypTransactions.map(tx => tx.amount)),
             // Deposits by currency
-            totalDepositsUSD: usdTransactions.filter(tx => tx.type === 'DEPOSIT').reduce((sum, tx) => sum + tx.amount, 0),
-            totalDepositsSYP: sypTransactions.filter(tx => tx.type === 'DEPOSIT').reduce((sum, tx) => sum + tx.amount, 0),
+            totalDepositsUSD: sumAmounts(usdTransactions.filter(tx => tx.type === 'DEPOSIT').map(tx => tx.amount)),
+            totalDepositsSYP: sumAmounts(sypTransactions.filter(tx => tx.type === 'DEPOSIT').map(tx => tx.amount)),
             // Withdrawals by currency
-            totalWithdrawalsUSD: usdTransactions.filter(tx => tx.type === 'WITHDRAW').reduce((sum, tx) => sum + tx.amount, 0),
-            totalWithdrawalsSYP: sypTransactions.filter(tx => tx.type === 'WITHDRAW').reduce((sum, tx) => sum + tx.amount, 0),
+            totalWithdrawalsUSD: sumAmounts(usdTransactions.filter(tx => tx.type === 'WITHDRAW').map(tx => tx.amount)),
+            totalWithdrawalsSYP: sumAmounts(sypTransactions.filter(tx => tx.type === 'WITHDRAW').map(tx => tx.amount)),
             // Transfers by currency
-            totalTransfersUSD: usdTransactions.filter(tx => tx.type === 'TRANSFER').reduce((sum, tx) => sum + tx.amount, 0),
-            totalTransfersSYP: sypTransactions.filter(tx => tx.type === 'TRANSFER').reduce((sum, tx) => sum + tx.amount, 0),
+            totalTransfersUSD: sumAmounts(usdTransactions.filter(tx => tx.type === 'TRANSFER').map(tx => tx.amount)),
+            totalTransfersSYP: sumAmounts(sypTransactions.filter(tx => tx.type === 'TRANSFER').map(tx => tx.amount)),
             // Payments by currency
-            totalPaymentsUSD: usdTransactions.filter(tx => tx.type === 'QR_PAYMENT').reduce((sum, tx) => sum + tx.amount, 0),
-            totalPaymentsSYP: sypTransactions.filter(tx => tx.type === 'QR_PAYMENT').reduce((sum, tx) => sum + tx.amount, 0),
+            totalPaymentsUSD: sumAmounts(usdTransactions.filter(tx => tx.type === 'QR_PAYMENT').map(tx => tx.amount)),
+            totalPaymentsSYP: sumAmounts(sypTransactions.filter(tx => tx.type === 'QR_PAYMENT').map(tx => tx.amount)),
             activeUsersCount: activeUsers.length,
         };
 
+        // Wallet-to-ledger reconciliation history (latest first)
+        const reconciliation = await getReconciliationHistory();
+
         return NextResponse.json(
             {
                 transactions: transactions.map(tx => ({
@@ -103,6 +99,7 @@ export async function GET(request: NextRequest) {
                     lastActive: u.updatedAt,
                 })),
                 stats,
+                reconciliation,
             },
             { status: 200, headers: getSecurityHeaders() }
         );
@@ -1,30 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
-import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
-import { cookies } from 'next/headers';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
 
 export async function POST(
     request: NextRequest,
     { params }: { params: Promise<{ id: string }> }
 ) {
     try {
-        const cookieStore = await cookies();
-        const token = cookieStore.get('accessToken')?.value;
-
-        if (!token) {
+        const auth = await verifyAdminPermission(PERMISSIONS.SUPPORT_MANAGE, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
-        const payload = verifyAccessToken(token);
-        if (!payload || payload.userType !== 'ADMIN') {
-            return NextResponse.json(
-                { error: 'Admin access required' },
-                { status: 403, headers: getSecurityHeaders() }
-            );
-        }
+        const payload = auth.payload;
 
         const { id } = await params;
 
@@ -43,6 +36,14 @@ export async function POST(
             );
         }
 
+        // Self-service requests are completed by the user's SMS code
+        if (resetRequest.method !== 'ADMIN') {
+            return NextResponse.json(
+                { error: 'هذا الطلب يتم عبر رمز SMS ولا يحتاج موافقة' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
         if (resetRequest.status !== 'PENDING') {
             return NextResponse.json(
                 { error: 'تم معالجة هذا الطلب بالفعل' },
@@ -6,44 +6,20 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
-import { verifyAccessToken, getSecurityHeaders, generateReferenceNumber, sanitizePhoneNumber } from '@/lib/auth/security';
-import { cookies } from 'next/headers';
-import { z } from 'zod';
-
-const withdrawSchema = z.object({
-    amount: z.number().positive('Amount must be positive'),
-    currency: z.enum(['USD', 'SYP']),
-    method: z.enum(['BANK_TRANSFER', 'CASH', 'CRYPTO', 'USER_WALLET']),
-    notes: z.string().optional(),
-    // For bank transfer
-    bankDetails: z.object({
-        bankName: z.string().optional(),
-        accountNumber: z.string().optional(),
-        iban: z.string().optional(),
-    }).optional(),
-    // For user wallet transfer
-    phone: z.string().optional(),
-    walletType: z.enum(['PERSONAL', 'BUSINESS']).optional(),
-});
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { withdrawPlatformProfits, profitWithdrawalSchema } from '@/lib/financial/admin-actions';
+import { requiresApproval, proposeApproval, PENDING_APPROVAL_MESSAGE } from '@/lib/financial/approvals';
 
 // GET: Get profit statistics
 export async function GET(request: NextRequest) {
     try {
-        const cookieStore = await cookies();
-        const token = cookieStore.get('accessToken')?.value;
-
-        if (!token) {
-            return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
-            );
-        }
-
-        const payload = verifyAccessToken(token);
-        if (!payload || payload.userType !== 'ADMIN') {
+        const auth = await verifyAdminPermission(PERMISSIONS.PROFITS_VIEW, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Admin access required' },
-                { status: 403, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
@@ -170,26 +146,18 @@ export async function GET(request: NextRequest) {
 // POST: Withdraw profits
 export async function POST(request: NextRequest) {
     try {
-        const cookieStore = await cookies();
-        const token = cookieStore.get('accessToken')?.value;
-
-        if (!token) {
+        const auth = await verifyAdminPermission(PERMISSIONS.PROFITS_WITHDRAW, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
-        const payload = verifyAccessToken(token);
-        if (!payload || payload.userType !== 'ADMIN') {
-            return NextResponse.json(
-                { error: 'Admin access required' },
-                { status: 403, headers: getSecurityHeaders() }
-            );
-        }
+        const payload = auth.payload;
 
         const body = await request.json();
-        const result = withdrawSchema.safeParse(body);
+        const result = profitWithdrawalSchema.safeParse(body);
 
         if (!result.success) {
             return NextResponse.json(
@@ -198,196 +166,38 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const { amount, currency, method, notes, bankDetails, phone, walletType } = result.data;
-
-        // Get fees account
-        const accountCode = currency === 'SYP' ? 'FEES-COLLECTED-SYP' : 'FEES-COLLECTED';
-        const feesAccount = await prisma.internalAccount.findUnique({
-            where: { code: accountCode },
-        });
+        const { amount, currency } = result.data;
+        const ipAddress = request.headers.get('x-forwarded-for') || undefined;
+
+        // Four-eyes: large withdrawals wait for a second admin
+        if (await requiresApproval('PROFIT_WITHDRAWAL', amount, currency)) {
+            const approval = await proposeApproval({
+                actionType: 'PROFIT_WITHDRAWAL',
+                payload: result.data,
+                amount,
+                currency,
+                requestedBy: payload.userId,
+                ipAddress,
+            });
 
-        if (!feesAccount || feesAccount.balance < amount) {
             return NextResponse.json(
-                { error: 'رصيد الأرباح غير كافي' },
-                { status: 400, headers: getSecurityHeaders() }
+                { success: true, pendingApproval: true, approvalRequestId: approval.id, message: PENDING_APPROVAL_MESSAGE },
+                { status: 202, headers: getSecurityHeaders() }
             );
         }
 
-        const referenceNumber = generateReferenceNumber('PWD');
-        let recipientName = '';
-
-        // ═══════════════════════════════════════════════════════════════
-        // WITHDRAW TO USER WALLET
-        // ═══════════════════════════════════════════════════════════════
-        if (method === 'USER_WALLET') {
-            if (!phone) {
-                return NextResponse.json(
-                    { error: 'رقم الهاتف مطلوب للتحويل إلى المحفظة' },
-                    { status: 400, headers: getSecurityHeaders() }
-                );
-            }
-
-            const sanitizedPhone = sanitizePhoneNumber(phone);
-
-            // Find user by phone
-            const targetUser = await prisma.user.findUnique({
-                where: { phone: sanitizedPhone },
-                include: {
-                    wallets: true,
-                },
-            });
-
-            if (!targetUser) {
-                return NextResponse.json(
-                    { error: 'لم يتم العثور على مستخدم بهذا الرقم' },
-                    { status: 404, headers: getSecurityHeaders() }
-                );
-            }
+        const outcome = await withdrawPlatformProfits(result.data, { adminId: payload.userId, ipAddress });
 
-            // Find the correct wallet
-            const targetWalletType = walletType || 'PERSONAL';
-            const targetWallet = targetUser.wallets.find(
-                w => w.currency === currency && w.walletType === targetWalletType
+        if (!outcome.success) {
+            return NextResponse.json(
+                { error: outcome.error },
+                { status: outcome.status || 400, headers: getSecurityHeaders() }
             );
-
-            if (!targetWallet) {
-                return NextResponse.json(
-                    { error: `لا توجد محفظة ${currency} للمستخدم` },
-                    { status: 404, headers: getSecurityHeaders() }
-                );
-            }
-
-            recipientName = targetUser.fullNameAr || targetUser.fullName;
-
-            // Process in transaction
-            await prisma.$transaction(async (tx) => {
-                // 1. Deduct from fees account
-                await tx.internalAccount.update({
-                    where: { code: accountCode },
-                    data: { balance: { decrement: amount } },
-                });
-
-                // 2. Add to user wallet
-                await tx.wallet.update({
-                    where: { id: targetWallet.id },
-                    data: { balance: { increment: amount } },
-                });
-
-                // 3. Create transaction record
-                await tx.transaction.create({
-                    data: {
-                        referenceNumber,
-                        type: 'DEPOSIT',
-                        amount,
-                        netAmount: amount,
-                        currency,
-                        status: 'COMPLETED',
-                        receiverId: targetUser.id,
-                        description: `Platform profit distribution`,
-                        descriptionAr: `توزيع أرباح المنصة`,
-                        completedAt: new Date(),
-                    },
-                });
-
-                // 4. Create withdrawal record
-                await tx.profitWithdrawal.create({
-                    data: {
-                        referenceNumber,
-                        adminId: payload.userId,
-                        amount,
-                        currency,
-                        method: 'USER_WALLET',
-                        notes: notes || `تحويل إلى ${recipientName}`,
-                        accountNumber: sanitizedPhone,
-                        status: 'COMPLETED',
-                        completedAt: new Date(),
-                    },
-                });
-
-                // 5. Create ledger entry
-                const { createLedgerEntry, INTERNAL_ACCOUNTS } = await import('@/lib/financial/core-ledger');
-                await createLedgerEntry({
-                    description: `Profit Distribution to ${sanitizedPhone}: ${referenceNumber}`,
-                    descriptionAr: `توزيع أرباح إلى ${recipientName}: ${referenceNumber}`,
-                    createdBy: payload.userId,
-                    currency,
-                    tx,
-                    lines: [
-                        { accountCode: INTERNAL_ACCOUNTS.FEES, debit: amount, credit: 0 },
-                        { accountCode: INTERNAL_ACCOUNTS.USERS_LEDGER, debit: 0, credit: amount },
-                    ],
-                });
-            });
-
-            // Send notification to user
-            await prisma.notification.create({
-                data: {
-                    userId: targetUser.id,
-                    type: 'TRANSACTION',
-                    title: 'Profit Distribution Received',
-                    titleAr: 'استلام أرباح',
-                    message: `You received ${currency === 'SYP' ? `${amount.toLocaleString()} SYP` : `$${amount.toFixed(2)}`} from platform profits`,
-                    messageAr: `استلمت ${currency === 'SYP' ? `${amount.toLocaleString()} ل.س` : `$${amount.toFixed(2)}`} من أرباح المنصة`,
-                },
-            });
-
-        } else {
-            // ═══════════════════════════════════════════════════════════════
-            // EXTERNAL WITHDRAWAL (Bank, Cash, Crypto)
-            // ═══════════════════════════════════════════════════════════════
-            await prisma.$transaction(async (tx) => {
-                await tx.internalAccount.update({
-                    where: { code: accountCode },
-                    data: { balance: { decrement: amount } },
-                });
-
-                await tx.profitWithdrawal.create({
-                    data: {
-                        referenceNumber,
-                        adminId: payload.userId,
-                        amount,
-                        currency,
-                        method,
-                        notes,
-                        bankName: bankDetails?.bankName,
-                        accountNumber: bankDetails?.accountNumber,
-                        iban: bankDetails?.iban,
-                        status: 'COMPLETED',
-                        completedAt: new Date(),
-                    },
-                });
-
-                const { createLedgerEntry, INTERNAL_ACCOUNTS } = await import('@/lib/financial/core-ledger');
-                await createLedgerEntry({
-                    description: `Profit Withdrawal: ${referenceNumber}`,
-                    descriptionAr: `سحب أرباح: ${referenceNumber}`,
-                    createdBy: payload.userId,
-                    currency,
-                    tx,
-                    lines: [
-                        { accountCode: INTERNAL_ACCOUNTS.FEES, debit: amount, credit: 0 },
-                        { accountCode: INTERNAL_ACCOUNTS.SYSTEM_RESERVE, debit: 0, credit: amount },
-                    ],
-                });
-            });
         }
 
-        // Audit log
-        await prisma.auditLog.create({
-            data: {
-                userId: payload.userId,
-                action: 'PROFIT_WITHDRAWAL',
-                entity: 'ProfitWithdrawal',
-                entityId: referenceNumber,
-                newValue: JSON.stringify({ amount, currency, method, phone, recipientName }),
-                ipAddress: request.headers.get('x-forwarded-for') || undefined,
-            },
-        });
-
         return NextResponse.json({
             success: true,
-            referenceNumber,
-            recipientName: recipientName || undefined,
+            ...outcome.data,
         }, { headers: getSecurityHeaders() });
 
     } catch (error) {
@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { createReversalEntry } from '@/lib/financial/core-ledger';
+import { formatCurrency, type Currency } from '@/lib/wallet/currency';
+
+const REVERSAL_ERRORS: Record<string, string> = {
+    INSUFFICIENT_BALANCE_FOR_REVERSAL: 'رصيد المستلم غير كافٍ لإلغاء المعاملة',
+    INSUFFICIENT_AGENT_CREDIT_FOR_REVERSAL: 'رصيد ائتمان الوكيل غير كافٍ لإلغاء المعاملة',
+    'Transaction already reversed': 'تم إلغاء هذه المعاملة مسبقاً',
+    'Only completed transactions can be reversed': 'لا يمكن إلغاء إلا المعاملات المكتملة',
+    'Transaction has merchant refunds': 'أصدر التاجر استرداداً لهذه المعاملة، لا يمكن إلغاؤها',
+};
+
+/**
+ * Approve a reversal request (checker step) and execute the reversal
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await verifyAdminPermission(PERMISSIONS.TRANSACTIONS_REVERSE, request);
+        if (!auth.success || !auth.payload) {
+            return NextResponse.json(
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
+            );
+        }
+
+        const payload = auth.payload;
+
+        const { id } = await params;
+
+        const reversalRequest = await prisma.reversalRequest.findUnique({
+            where: { id },
+        });
+
+        if (!reversalRequest) {
+            return NextResponse.json(
+                { error: 'الطلب غير موجود' },
+                { status: 404, headers: getSecurityHeaders() }
+            );
+        }
+
+        if (reversalRequest.status !== 'PENDING') {
+            return NextResponse.json(
+                { error: 'تم معالجة هذا الطلب بالفعل' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        // Four-eyes: the proposer cannot approve their own request
+        if (reversalRequest.requestedBy === payload.userId) {
+            return NextResponse.json(
+                { error: 'لا يمكنك الموافقة على طلب قمت بإنشائه. يجب موافقة مشرف آخر' },
+                { status: 403, headers: getSecurityHeaders() }
+            );
+        }
+
+        // Claim the request so two checkers cannot execute it twice
+        const claimed = await prisma.reversalRequest.updateMany({
+            where: { id, status: 'PENDING' },
+            data: { status: 'APPROVED', reviewedBy: payload.userId, reviewedAt: new Date() },
+        });
+
+        if (claimed.count === 0) {
+            return NextResponse.json(
+                { error: 'تم معالجة هذا الطلب بالفعل' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        let reversal: { reversalTransactionId: string; ledgerEntryId: string };
+        try {
+            reversal = await createReversalEntry(
+                reversalRequest.transactionId,
+                reversalRequest.reason,
+                reversalRequest.reasonAr || reversalRequest.reason,
+                payload.userId
+            );
+        } catch (error: any) {
+            // Release the claim - nothing was written by the failed reversal
+            await prisma.reversalRequest.update({
+                where: { id },
+                data: { status: 'PENDING', reviewedBy: null, reviewedAt: null },
+            });
+
+            const message = error?.message || '';
+            return NextResponse.json(
+                { error: REVERSAL_ERRORS[message] || message || 'فشل إلغاء المعاملة' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        await prisma.reversalRequest.update({
+            where: { id },
+            data: { reversalTransactionId: reversal.reversalTransactionId },
+        });
+
+        const original = await prisma.transaction.findUnique({
+            where: { id: reversalRequest.transactionId },
+        });
+
+        await prisma.auditLog.create({
+            data: {
+                userId: payload.userId,
+                action: 'REVERSAL_APPROVED',
+                entity: 'Transaction',
+                entityId: reversalRequest.transactionId,
+                oldValue: JSON.stringify({ status: 'COMPLETED' }),
+                newValue: JSON.stringify({
+                    status: 'REVERSED',
+                    reversalRequestId: id,
+                    requestedBy: reversalRequest.requestedBy,
+                    reversalTransactionId: reversal.reversalTransactionId,
+                    ledgerEntryId: reversal.ledgerEntryId,
+                }),
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+                userAgent: request.headers.get('user-agent') || undefined,
+            },
+        });
+
+        // Notify both parties
+        if (original) {
+            const formattedAmount = formatCurrency(original.amount, (original.currency || 'USD') as Currency);
+            const parties = [original.senderId, original.receiverId].filter((p): p is string => !!p);
+
+            await prisma.notification.createMany({
+                data: parties.map((userId) => ({
+                    userId,
+                    type: 'TRANSACTION',
+                    title: 'Transaction Reversed',
+                    titleAr: 'تم إلغاء معاملة',
+                    message: `Transaction ${original.referenceNumber} (${formattedAmount}) has been reversed`,
+                    messageAr: `تم إلغاء المعاملة ${original.referenceNumber} بقيمة ${formattedAmount}`,
+                    metadata: JSON.stringify({
+                        transactionId: original.id,
+                        reversalTransactionId: reversal.reversalTransactionId,
+                    }),
+                })),
+            });
+        }
+
+        return NextResponse.json(
+            {
+                success: true,
+                message: 'تمت الموافقة وإلغاء المعاملة',
+                reversalTransactionId: reversal.reversalTransactionId,
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Approve reversal error:', error);
+        return NextResponse.json(
+            { error: 'حدث خطأ في الخادم' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await verifyAdminPermission(PERMISSIONS.TRANSACTIONS_REVERSE, request);
+        if (!auth.success || !auth.payload) {
+            return NextResponse.json(
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
+            );
+        }
+
+        const payload = auth.payload;
+
+        const { id } = await params;
+        const body = await request.json().catch(() => ({}));
+        const { reason } = body;
+
+        const reversalRequest = await prisma.reversalRequest.findUnique({
+            where: { id },
+        });
+
+        if (!reversalRequest) {
+            return NextResponse.json(
+                { error: 'الطلب غير موجود' },
+                { status: 404, headers: getSecurityHeaders() }
+            );
+        }
+
+        if (reversalRequest.status !== 'PENDING') {
+            return NextResponse.json(
+                { error: 'تم معالجة هذا الطلب بالفعل' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        // The proposer may withdraw their own request; anyone else rejects it
+        await prisma.reversalRequest.update({
+            where: { id },
+            data: {
+                status: 'REJECTED',
+                reviewedBy: payload.userId,
+                reviewedAt: new Date(),
+                rejectionReason: reason || null,
+            },
+        });
+
+        await prisma.auditLog.create({
+            data: {
+                userId: payload.userId,
+                action: 'REVERSAL_REJECTED',
+                entity: 'Transaction',
+                entityId: reversalRequest.transactionId,
+                newValue: JSON.stringify({ reversalRequestId: id, reason }),
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            {
+                success: true,
+                message: 'تم رفض طلب الإلغاء',
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Reject reversal error:', error);
+        return NextResponse.json(
+            { error: 'حدث خطأ في الخادم' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+
+/**
+ * List reversal requests (default: pending ones awaiting a checker)
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await verifyAdminPermission(PERMISSIONS.TRANSACTIONS_VIEW, request);
+        if (!auth.success || !auth.payload) {
+            return NextResponse.json(
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
+            );
+        }
+
+        const status = request.nextUrl.searchParams.get('status') || 'PENDING';
+
+        const reversalRequests = await prisma.reversalRequest.findMany({
+            where: status === 'ALL' ? {} : { status },
+            orderBy: { createdAt: 'desc' },
+            take: 100,
+        });
+
+        const transactions = await prisma.transaction.findMany({
+            where: { id: { in: reversalRequests.map((r) => r.transactionId) } },
+            select: {
+                id: true,
+                referenceNumber: true,
+                type: true,
+                status: true,
+                amount: true,
+                fee: true,
+                currency: true,
+                createdAt: true,
+            },
+        });
+        const transactionsById = new Map(transactions.map((t) => [t.id, t]));
+
+        return NextResponse.json(
+            {
+                reversalRequests: reversalRequests.map((r) => ({
+                    ...r,
+                    transaction: transactionsById.get(r.transactionId) || null,
+                })),
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Get reversal requests error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -6,34 +6,18 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
-import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
-import { cookies } from 'next/headers';
-
-// Verify admin access
-async function verifyAdmin(request: NextRequest) {
-    const cookieStore = await cookies();
-    const token = cookieStore.get('accessToken')?.value;
-
-    if (!token) {
-        return null;
-    }
-
-    const payload = verifyAccessToken(token);
-    if (!payload || payload.userType !== 'ADMIN') {
-        return null;
-    }
-
-    return payload;
-}
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
 
 // GET: Get pending risk alerts
 export async function GET(request: NextRequest) {
     try {
-        const admin = await verifyAdmin(request);
-        if (!admin) {
+        const auth = await verifyAdminPermission(PERMISSIONS.RISK_MANAGE, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
@@ -74,14 +58,16 @@ export async function GET(request: NextRequest) {
 // POST: Resolve a risk alert
 export async function POST(request: NextRequest) {
     try {
-        const admin = await verifyAdmin(request);
-        if (!admin) {
+        const auth = await verifyAdminPermission(PERMISSIONS.RISK_MANAGE, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
+        const payload = auth.payload;
+
         const body = await request.json();
         const { alertId, resolution, notes } = body;
 
@@ -104,7 +90,7 @@ export async function POST(request: NextRequest) {
             where: { id: alertId },
             data: {
                 status: resolution,
-                reviewedBy: admin.userId,
+                reviewedBy: payload.userId,
                 reviewedAt: new Date(),
                 resolution,
                 resolutionNotes: notes,
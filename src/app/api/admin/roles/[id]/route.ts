@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { ADMIN_ROLES, PERMISSIONS, resolveAdminRole } from '@/lib/auth/permissions';
+import { z } from 'zod';
+
+const adminRoleSchema = z.object({
+    role: z.enum(ADMIN_ROLES),
+});
+
+/**
+ * PUT /api/admin/roles/[id]
+ * Assign an admin role. The admin's sessions are ended so the next login carries the new role.
+ */
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await verifyAdminPermission(PERMISSIONS.ROLES_MANAGE, request);
+        if (!auth.success || !auth.payload) {
+            return NextResponse.json(
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
+            );
+        }
+
+        const payload = auth.payload;
+        const { id } = await params;
+        const body = await request.json();
+        const result = adminRoleSchema.safeParse(body);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { role } = result.data;
+
+        const target = await prisma.user.findUnique({
+            where: { id },
+            select: { id: true, userType: true, adminRole: true },
+        });
+
+        if (!target || target.userType !== 'ADMIN') {
+            return NextResponse.json(
+                { error: 'المشرف غير موجود' },
+                { status: 404, headers: getSecurityHeaders() }
+            );
+        }
+
+        const currentRole = resolveAdminRole(target.adminRole);
+
+        // Never leave the platform without a super admin
+        if (currentRole === 'SUPER_ADMIN' && role !== 'SUPER_ADMIN') {
+            const otherSuperAdmins = await prisma.user.count({
+                where: {
+                    id: { not: id },
+                    userType: 'ADMIN',
+                    isActive: true,
+                    deletedAt: null,
+                    adminRole: 'SUPER_ADMIN',
+                },
+            });
+
+            if (otherSuperAdmins === 0) {
+                return NextResponse.json(
+                    { error: 'يجب أن يبقى مدير عام واحد على الأقل' },
+                    { status: 400, headers: getSecurityHeaders() }
+                );
+            }
+        }
+
+        await prisma.$transaction(async (tx) => {
+            await tx.user.update({
+                where: { id },
+                data: { adminRole: role },
+            });
+
+            await tx.session.deleteMany({ where: { userId: id } });
+
+            await tx.auditLog.create({
+                data: {
+                    userId: payload.userId,
+                    action: 'ADMIN_ROLE_CHANGED',
+                    entity: 'User',
+                    entityId: id,
+                    oldValue: JSON.stringify({ role: target.adminRole }),
+                    newValue: JSON.stringify({ role }),
+                    ipAddress: request.headers.get('x-forwarded-for') || undefined,
+                },
+            });
+        });
+
+        return NextResponse.json(
+            { success: true, message: 'تم تحديث الدور' },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Update admin role error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { ADMIN_ROLES, ADMIN_ROLE_NAMES, PERMISSIONS, ROLE_PERMISSIONS, resolveAdminRole } from '@/lib/auth/permissions';
+
+/**
+ * GET /api/admin/roles
+ * Admin users with their role, and the permissions each role grants
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await verifyAdminPermission(PERMISSIONS.ROLES_MANAGE, request);
+        if (!auth.success || !auth.payload) {
+            return NextResponse.json(
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
+            );
+        }
+
+        const admins = await prisma.user.findMany({
+            where: { userType: 'ADMIN', deletedAt: null },
+            select: {
+                id: true,
+                fullName: true,
+                fullNameAr: true,
+                phone: true,
+                adminRole: true,
+                isActive: true,
+                lastLoginAt: true,
+            },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        return NextResponse.json(
+            {
+                admins: admins.map(admin => ({
+                    ...admin,
+                    adminRole: resolveAdminRole(admin.adminRole),
+                    isLegacyRole: admin.adminRole === null,
+                })),
+                roles: ADMIN_ROLES.map(role => ({
+                    role,
+                    name: ADMIN_ROLE_NAMES[role],
+                    permissions: ROLE_PERMISSIONS[role],
+                })),
+                currentAdminId: auth.payload.userId,
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Get admin roles error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
-import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
-import { cookies } from 'next/headers';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { fitsMinorUnits } from '@/lib/financial/money';
 import { z } from 'zod';
 
 const serviceSchema = z.object({
@@ -11,15 +13,15 @@ const serviceSchema = z.object({
     descriptionAr: z.string().optional(),
     category: z.string(),
     categoryAr: z.string().optional(),
-    price: z.number().min(0),
+    price: z.number().min(0).refine((price) => fitsMinorUnits(price), 'Price cannot have more than 2 decimal places'),
     iconUrl: z.string().optional(),
     imageUrl: z.string().optional(),
     isActive: z.boolean().optional(),
     metadata: z.string().optional(),
     // Flexible pricing
     isFlexiblePrice: z.boolean().optional(),
-    minPrice: z.number().optional(),
-    maxPrice: z.number().optional(),
+    minPrice: z.number().refine((price) => fitsMinorUnits(price), 'Price cannot have more than 2 decimal places').optional(),
+    maxPrice: z.number().refine((price) => fitsMinorUnits(price), 'Price cannot have more than 2 decimal places').optional(),
     // Required fields from buyer (individual booleans)
     requirePhone: z.boolean().optional(),
     requireEmail: z.boolean().optional(),
@@ -29,23 +31,13 @@ const serviceSchema = z.object({
 });
 
 // GET - List all services (for admin)
-export async function GET() {
+export async function GET(request: NextRequest) {
     try {
-        const cookieStore = await cookies();
-        const token = cookieStore.get('accessToken')?.value;
-
-        if (!token) {
-            return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
-            );
-        }
-
-        const payload = verifyAccessToken(token);
-        if (!payload || payload.userType !== 'ADMIN') {
+        const auth = await verifyAdminPermission(PERMISSIONS.SERVICES_MANAGE, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Admin access required' },
-                { status: 403, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
@@ -77,21 +69,11 @@ export async function GET() {
 // POST - Create new service
 export async function POST(request: NextRequest) {
     try {
-        const cookieStore = await cookies();
-        const token = cookieStore.get('accessToken')?.value;
-
-        if (!token) {
-            return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
-            );
-        }
-
-        const payload = verifyAccessToken(token);
-        if (!payload || payload.userType !== 'ADMIN') {
+        const auth = await verifyAdminPermission(PERMISSIONS.SERVICES_MANAGE, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Admin access required' },
-                { status: 403, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
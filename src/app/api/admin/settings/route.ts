@@ -1,61 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
-import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
-import { cookies } from 'next/headers';
-import { z } from 'zod';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { updateSystemSettings, systemSettingsSchema } from '@/lib/financial/admin-actions';
+import { requiresApproval, proposeApproval, PENDING_APPROVAL_MESSAGE } from '@/lib/financial/approvals';
 
-const settingsSchema = z.object({
-    // USD Fee Settings
-    depositFeePercent: z.number().min(0).max(100).optional(),
-    depositFeeFixed: z.number().min(0).optional(),
-    withdrawalFeePercent: z.number().min(0).max(100).optional(),
-    withdrawalFeeFixed: z.number().min(0).optional(),
-    transferFeePercent: z.number().min(0).max(100).optional(),
-    transferFeeFixed: z.number().min(0).optional(),
-    qrPaymentFeePercent: z.number().min(0).max(100).optional(),
-    qrPaymentFeeFixed: z.number().min(0).optional(),
-    serviceFeePercent: z.number().min(0).max(100).optional(),
-    serviceFeeFixed: z.number().min(0).optional(),
-    agentCommissionPercent: z.number().min(0).max(100).optional(),
-    // SYP Fee Settings
-    depositFeePercentSYP: z.number().min(0).max(100).optional(),
-    depositFeeFixedSYP: z.number().min(0).optional(),
-    withdrawalFeePercentSYP: z.number().min(0).max(100).optional(),
-    withdrawalFeeFixedSYP: z.number().min(0).optional(),
-    transferFeePercentSYP: z.number().min(0).max(100).optional(),
-    transferFeeFixedSYP: z.number().min(0).optional(),
-    qrPaymentFeePercentSYP: z.number().min(0).max(100).optional(),
-    qrPaymentFeeFixedSYP: z.number().min(0).optional(),
-    serviceFeePercentSYP: z.number().min(0).max(100).optional(),
-    serviceFeeFixedSYP: z.number().min(0).optional(),
-    agentCommissionPercentSYP: z.number().min(0).max(100).optional(),
-    // Settlement & Limits
-    settlementPlatformCommission: z.number().min(0).max(100).optional(),
-    settlementAgentCommission: z.number().min(0).max(100).optional(),
-    dailyTransactionLimit: z.number().positive().optional(),
-    weeklyTransactionLimit: z.number().positive().optional(),
-    monthlyTransactionLimit: z.number().positive().optional(),
-    minTransactionAmount: z.number().positive().optional(),
-    maxTransactionAmount: z.number().positive().optional(),
-});
-
-export async function GET() {
+export async function GET(request: NextRequest) {
     try {
-        const cookieStore = await cookies();
-        const token = cookieStore.get('accessToken')?.value;
-
-        if (!token) {
-            return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
-            );
-        }
-
-        const payload = verifyAccessToken(token);
-        if (!payload || payload.userType !== 'ADMIN') {
+        const auth = await verifyAdminPermission(PERMISSIONS.SETTINGS_MANAGE, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Admin access required' },
-                { status: 403, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
@@ -83,26 +40,18 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
     try {
-        const cookieStore = await cookies();
-        const token = cookieStore.get('accessToken')?.value;
-
-        if (!token) {
+        const auth = await verifyAdminPermission(PERMISSIONS.SETTINGS_MANAGE, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
-        const payload = verifyAccessToken(token);
-        if (!payload || payload.userType !== 'ADMIN') {
-            return NextResponse.json(
-                { error: 'Admin access required' },
-                { status: 403, headers: getSecurityHeaders() }
-            );
-        }
+        const payload = auth.payload;
 
         const body = await request.json();
-        const result = settingsSchema.safeParse(body);
+        const result = systemSettingsSchema.safeParse(body);
 
         if (!result.success) {
             return NextResponse.json(
@@ -111,41 +60,27 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Get existing settings or create new
-        let settings = await prisma.systemSettings.findFirst();
+        const ipAddress = request.headers.get('x-forwarded-for') || undefined;
 
-        if (settings) {
-            // Update existing
-            settings = await prisma.systemSettings.update({
-                where: { id: settings.id },
-                data: {
-                    ...result.data,
-                    updatedBy: payload.userId,
-                },
-            });
-        } else {
-            // Create new
-            settings = await prisma.systemSettings.create({
-                data: {
-                    ...result.data,
-                    updatedBy: payload.userId,
-                },
+        // Four-eyes: fee and limit changes wait for a second admin
+        if (await requiresApproval('SETTINGS_UPDATE')) {
+            const approval = await proposeApproval({
+                actionType: 'SETTINGS_UPDATE',
+                payload: result.data,
+                requestedBy: payload.userId,
+                ipAddress,
             });
+
+            return NextResponse.json(
+                { pendingApproval: true, approvalRequestId: approval.id, message: PENDING_APPROVAL_MESSAGE },
+                { status: 202, headers: getSecurityHeaders() }
+            );
         }
 
-        // Audit log
-        await prisma.auditLog.create({
-            data: {
-                userId: payload.userId,
-                action: 'UPDATE_SYSTEM_SETTINGS',
-                entity: 'SystemSettings',
-                entityId: settings.id,
-                newValue: JSON.stringify(result.data),
-            },
-        });
+        const outcome = await updateSystemSettings(result.data, { adminId: payload.userId, ipAddress });
 
         return NextResponse.json(
-            { settings, message: 'Settings updated successfully' },
+            { settings: outcome.data?.settings, message: 'Settings updated successfully' },
             { status: 200, headers: getSecurityHeaders() }
         );
     } catch (error) {
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
-import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
-import { cookies } from 'next/headers';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { postTransaction, agentParty, RESERVE_PARTY, SETTLEMENTS_PARTY, POSTING_ERRORS } from '@/lib/financial/posting-engine';
+import { Money } from '@/lib/financial/money';
 import { z } from 'zod';
 
 const settlementActionSchema = z.object({
@@ -14,23 +17,15 @@ const settlementActionSchema = z.object({
 
 export async function POST(request: NextRequest) {
     try {
-        const cookieStore = await cookies();
-        const token = cookieStore.get('accessToken')?.value;
-
-        if (!token) {
+        const auth = await verifyAdminPermission(PERMISSIONS.SETTLEMENTS_MANAGE, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
-        const payload = verifyAccessToken(token);
-        if (!payload || payload.userType !== 'ADMIN') {
-            return NextResponse.json(
-                { error: 'Admin access required' },
-                { status: 403, headers: getSecurityHeaders() }
-            );
-        }
+        const payload = auth.payload;
 
         const body = await request.json();
         const result = settlementActionSchema.safeParse(body);
@@ -64,9 +59,8 @@ export async function POST(request: NextRequest) {
         if (action === 'approve') {
             if (settlement.type === 'CASH_TO_CREDIT') {
                 // Agent gives cash → receives digital credit
-                const currency = settlement.currency || 'USD';
+                const currency = settlement.currency === 'SYP' ? 'SYP' : 'USD';
                 const cashField = currency === 'SYP' ? 'cashCollectedSYP' : 'cashCollected';
-                const creditField = currency === 'SYP' ? 'currentCreditSYP' : 'currentCredit';
 
                 // ═══════════════════════════════════════════════════════════════
                 // ATOMIC TRANSACTION - Prevents Race Condition
@@ -80,7 +74,6 @@ export async function POST(request: NextRequest) {
                         },
                         data: {
                             [cashField]: { decrement: settlement.cashCollected! },
-                            [creditField]: { increment: settlement.amountDue! },
                             totalSettlements: { increment: 1 },
                             lastSettlement: new Date(),
                         },
@@ -90,6 +83,18 @@ export async function POST(request: NextRequest) {
                         throw new Error('INSUFFICIENT_CASH');
                     }
 
+                    // SETTLEMENTS -> agent credit (amountDue), the platform and agent shares -> FEES
+                    await postTransaction(tx, {
+                        type: 'SETTLEMENT',
+                        currency,
+                        referenceNumber: settlement.settlementNumber,
+                        createdBy: adminId,
+                        payer: SETTLEMENTS_PARTY,
+                        payee: agentParty(settlement.agentId),
+                        gross: settlement.cashCollected!,
+                        fee: Money.of(settlement.cashCollected!, currency).subtract(Money.of(settlement.amountDue!, currency)).toDecimal(),
+                    });
+
                     await tx.settlement.update({
                         where: { id: settlementId },
                         data: {
@@ -110,44 +115,44 @@ export async function POST(request: NextRequest) {
                         type: 'SYSTEM',
                         title: 'Settlement Approved',
                         titleAr: 'تمت الموافقة على التسوية',
-                        message: `Your cash to credit settlement of ${symbol}${settlement.requestedAmount?.toLocaleString()} has been approved. You received ${symbol}${settlement.amountDue?.toLocaleString()} credit.`,
-                        messageAr: `تمت الموافقة على تحويل ${symbol}${settlement.requestedAmount?.toLocaleString()} نقد إلى رصيد. حصلت على ${symbol}${settlement.amountDue?.toLocaleString()} رصيد.`,
+                        message: `Your cash to credit settlement of ${symbol}${settlement.requestedAmount?.toNumber().toLocaleString()} has been approved. You received ${symbol}${settlement.amountDue?.toNumber().toLocaleString()} credit.`,
+                        messageAr: `تمت الموافقة على تحويل ${symbol}${settlement.requestedAmount?.toNumber().toLocaleString()} نقد إلى رصيد. حصلت على ${symbol}${settlement.amountDue?.toNumber().toLocaleString()} رصيد.`,
                     },
                 });
             }
             else if (settlement.type === 'CREDIT_REQUEST') {
                 // Agent requests additional credit (loan)
-                const currency = settlement.currency || 'USD';
+                const currency = settlement.currency === 'SYP' ? 'SYP' : 'USD';
 
-                if (currency === 'SYP') {
-                    await prisma.agentProfile.update({
+                await prisma.$transaction(async (tx) => {
+                    // Minted like an admin credit grant - SYS-RESERVE -> agent credit
+                    await postTransaction(tx, {
+                        type: 'CREDIT_GRANT',
+                        currency,
+                        referenceNumber: settlement.settlementNumber,
+                        createdBy: adminId,
+                        payer: RESERVE_PARTY,
+                        payee: agentParty(settlement.agentId),
+                        gross: settlement.creditGiven!,
+                    });
+
+                    await tx.agentProfile.update({
                         where: { id: settlement.agentId },
                         data: {
-                            currentCreditSYP: { increment: settlement.creditGiven! },
-                            pendingDebtSYP: { increment: settlement.creditGiven! },
+                            [currency === 'SYP' ? 'pendingDebtSYP' : 'pendingDebt']: { increment: settlement.creditGiven! },
                             totalSettlements: { increment: 1 },
                             lastSettlement: new Date(),
                         },
                     });
-                } else {
-                    await prisma.agentProfile.update({
-                        where: { id: settlement.agentId },
+
+                    await tx.settlement.update({
+                        where: { id: settlementId },
                         data: {
-                            currentCredit: { increment: settlement.creditGiven! },
-                            pendingDebt: { increment: settlement.creditGiven! },
-                            totalSettlements: { increment: 1 },
-                            lastSettlement: new Date(),
+                            status: 'APPROVED',
+                            reviewedBy: adminId,
+                            reviewedAt: new Date(),
                         },
                     });
-                }
-
-                await prisma.settlement.update({
-                    where: { id: settlementId },
-                    data: {
-                        status: 'APPROVED',
-                        reviewedBy: adminId,
-                        reviewedAt: new Date(),
-                    },
                 });
 
                 // Notify agent
@@ -171,55 +176,42 @@ export async function POST(request: NextRequest) {
                     );
                 }
 
-                const currency = settlement.currency || 'USD';
+                const currency = settlement.currency === 'SYP' ? 'SYP' : 'USD';
 
-                // Deduct credit from requesting agent
-                if (currency === 'SYP') {
-                    await prisma.agentProfile.update({
-                        where: { id: settlement.agentId },
-                        data: {
-                            currentCreditSYP: { decrement: settlement.creditDeducted! },
-                        },
-                    });
-                } else {
-                    await prisma.agentProfile.update({
-                        where: { id: settlement.agentId },
-                        data: {
-                            currentCredit: { decrement: settlement.creditDeducted! },
-                        },
+                await prisma.$transaction(async (tx) => {
+                    // Deduct credit from requesting agent (agent credit -> SETTLEMENTS)
+                    await postTransaction(tx, {
+                        type: 'SETTLEMENT',
+                        currency,
+                        referenceNumber: settlement.settlementNumber,
+                        createdBy: adminId,
+                        payer: agentParty(settlement.agentId),
+                        payee: SETTLEMENTS_PARTY,
+                        gross: settlement.creditDeducted!,
                     });
-                }
 
-                // If FROM_AGENT, deduct cash from source agent
-                if (deliveryMethod === 'FROM_AGENT' && sourceAgentId) {
-                    if (currency === 'SYP') {
-                        await prisma.agentProfile.update({
-                            where: { id: sourceAgentId },
-                            data: {
-                                cashCollectedSYP: { decrement: settlement.cashToReceive! },
-                            },
-                        });
-                    } else {
-                        await prisma.agentProfile.update({
+                    // If FROM_AGENT, deduct cash from source agent
+                    if (deliveryMethod === 'FROM_AGENT' && sourceAgentId) {
+                        await tx.agentProfile.update({
                             where: { id: sourceAgentId },
                             data: {
-                                cashCollected: { decrement: settlement.cashToReceive! },
+                                [currency === 'SYP' ? 'cashCollectedSYP' : 'cashCollected']: { decrement: settlement.cashToReceive! },
                             },
                         });
                     }
-                }
 
-                await prisma.settlement.update({
-                    where: { id: settlementId },
-                    data: {
-                        status: 'APPROVED',
-                        deliveryMethod,
-                        sourceAgentId: deliveryMethod === 'FROM_AGENT' ? sourceAgentId : null,
-                        deliveryStatus: 'PENDING',
-                        deliveryNotes: notes,
-                        reviewedBy: adminId,
-                        reviewedAt: new Date(),
-                    },
+                    await tx.settlement.update({
+                        where: { id: settlementId },
+                        data: {
+                            status: 'APPROVED',
+                            deliveryMethod,
+                            sourceAgentId: deliveryMethod === 'FROM_AGENT' ? sourceAgentId : null,
+                            deliveryStatus: 'PENDING',
+                            deliveryNotes: notes,
+                            reviewedBy: adminId,
+                            reviewedAt: new Date(),
+                        },
+                    });
                 });
 
                 const deliveryMessages: Record<string, { en: string; ar: string }> = {
@@ -238,8 +230,8 @@ export async function POST(request: NextRequest) {
                         type: 'SYSTEM',
                         title: 'Cash Request Approved',
                         titleAr: 'تمت الموافقة على طلب النقد',
-                        message: `Your cash request of ${symbol}${settlement.cashToReceive?.toLocaleString()} has been approved. ${deliveryMsg.en}.`,
-                        messageAr: `تمت الموافقة على طلب نقد بقيمة ${symbol}${settlement.cashToReceive?.toLocaleString()}. ${deliveryMsg.ar}.`,
+                        message: `Your cash request of ${symbol}${settlement.cashToReceive?.toNumber().toLocaleString()} has been approved. ${deliveryMsg.en}.`,
+                        messageAr: `تمت الموافقة على طلب نقد بقيمة ${symbol}${settlement.cashToReceive?.toNumber().toLocaleString()}. ${deliveryMsg.ar}.`,
                     },
                 });
             }
@@ -322,8 +314,8 @@ export async function POST(request: NextRequest) {
                     type: 'SYSTEM',
                     title: 'Cash Delivered',
                     titleAr: 'تم تسليم النقد',
-                    message: `Cash of ${symbol}${settlement.cashToReceive?.toLocaleString()} has been delivered to you.`,
-                    messageAr: `تم تسليمك نقد بقيمة ${symbol}${settlement.cashToReceive?.toLocaleString()}.`,
+                    message: `Cash of ${symbol}${settlement.cashToReceive?.toNumber().toLocaleString()} has been delivered to you.`,
+                    messageAr: `تم تسليمك نقد بقيمة ${symbol}${settlement.cashToReceive?.toNumber().toLocaleString()}.`,
                 },
             });
         }
@@ -343,7 +335,14 @@ export async function POST(request: NextRequest) {
             { success: true },
             { status: 200, headers: getSecurityHeaders() }
         );
-    } catch (error) {
+    } catch (error: any) {
+        if (POSTING_ERRORS[error?.message]) {
+            return NextResponse.json(
+                { error: POSTING_ERRORS[error.message] },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
         console.error('Settlement action error:', error);
         return NextResponse.json(
             { error: 'Internal server error' },
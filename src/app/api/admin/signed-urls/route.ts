@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAuth } from '@/lib/auth/verify-session';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
 import { getSignedUrlFromFullUrl } from '@/lib/storage/s3';
 
 /**
@@ -9,9 +10,9 @@ import { getSignedUrlFromFullUrl } from '@/lib/storage/s3';
 export async function POST(request: NextRequest) {
     try {
         // Verify admin
-        const auth = await verifyAuth(request);
-        if (!auth.success || !auth.user || auth.user.userType !== 'ADMIN') {
-            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        const auth = await verifyAdminPermission(PERMISSIONS.KYC_REVIEW, request);
+        if (!auth.success) {
+            return NextResponse.json({ error: auth.error }, { status: auth.status });
         }
 
         const body = await request.json();
@@ -6,34 +6,19 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
-import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
-import { cookies } from 'next/headers';
-
-// Verify admin access
-async function verifyAdmin(request: NextRequest) {
-    const cookieStore = await cookies();
-    const token = cookieStore.get('accessToken')?.value;
-
-    if (!token) {
-        return null;
-    }
-
-    const payload = verifyAccessToken(token);
-    if (!payload || payload.userType !== 'ADMIN') {
-        return null;
-    }
-
-    return payload;
-}
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { toAmount, sumAmounts } from '@/lib/financial/money';
 
 // GET: Get snapshot history
 export async function GET(request: NextRequest) {
     try {
-        const admin = await verifyAdmin(request);
-        if (!admin) {
+        const auth = await verifyAdminPermission(PERMISSIONS.LEDGER_VIEW, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
@@ -74,11 +59,11 @@ export async function GET(request: NextRequest) {
 // POST: Trigger manual snapshot (local only, no S3)
 export async function POST(request: NextRequest) {
     try {
-        const admin = await verifyAdmin(request);
-        if (!admin) {
+        const auth = await verifyAdminPermission(PERMISSIONS.LEDGER_MANAGE, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
@@ -106,11 +91,11 @@ export async function POST(request: NextRequest) {
             prisma.transaction.findMany({ where: { status: 'COMPLETED' } }),
         ]);
 
-        const totalUserBalance = wallets.reduce((sum, w) => sum + w.balance, 0);
+        const totalUserBalance = sumAmounts(wallets.map(w => w.balance));
         const agentProfiles = await prisma.agentProfile.findMany();
-        const totalAgentCredit = agentProfiles.reduce((sum, a) => sum + a.currentCredit, 0);
-        const totalAgentCash = agentProfiles.reduce((sum, a) => sum + a.cashCollected, 0);
-        const totalVolume = transactions.reduce((sum, t) => sum + t.amount, 0);
+        const totalAgentCredit = sumAmounts(agentProfiles.map(a => a.currentCredit));
+        const totalAgentCash = sumAmounts(agentProfiles.map(a => a.cashCollected));
+        const totalVolume = sumAmounts(transactions.map(t => t.amount));
 
         // Get internal accounts
         const systemReserve = await prisma.internalAccount.findUnique({
@@ -134,8 +119,8 @@ export async function POST(request: NextRequest) {
                 totalAgentCredit,
                 totalAgentCash,
                 totalMerchantBalance: 0,
-                systemReserve: systemReserve?.balance || 0,
-                feesCollected: feesAccount?.balance || 0,
+                systemReserve: toAmount(systemReserve?.balance),
+                feesCollected: toAmount(feesAccount?.balance),
                 totalTransactions: transactions.length,
                 totalVolume,
             },
@@ -149,8 +134,8 @@ export async function POST(request: NextRequest) {
                 totalAgentCredit,
                 totalAgentCash,
                 totalMerchantBalance: 0,
-                systemReserve: systemReserve?.balance || 0,
-                feesCollected: feesAccount?.balance || 0,
+                systemReserve: toAmount(systemReserve?.balance),
+                feesCollected: toAmount(feesAccount?.balance),
                 totalTransactions: transactions.length,
                 totalVolume,
             },
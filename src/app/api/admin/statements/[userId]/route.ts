@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
-import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
 import { generateStatement, getStatementFilename, StatementData } from '@/lib/pdf/statement-generator';
-import { cookies } from 'next/headers';
 import arMessages from '@/messages/ar.json';
 import enMessages from '@/messages/en.json';
+import { Money } from '@/lib/financial/money';
 
 // Admin can generate statement for any user
 export async function GET(
@@ -12,21 +14,11 @@ export async function GET(
     { params }: { params: { userId: string } }
 ) {
     try {
-        const cookieStore = await cookies();
-        const token = cookieStore.get('accessToken')?.value;
-
-        if (!token) {
-            return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
-            );
-        }
-
-        const payload = verifyAccessToken(token);
-        if (!payload || payload.userType !== 'ADMIN') {
+        const auth = await verifyAdminPermission(PERMISSIONS.TRANSACTIONS_VIEW, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Admin access required' },
-                { status: 403, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
@@ -94,9 +86,9 @@ export async function GET(
         });
 
         // Calculate running balance and totals
-        let totalIncoming = 0;
-        let totalOutgoing = 0;
-        let totalFees = 0;
+        let totalIncoming = Money.zero('USD');
+        let totalOutgoing = Money.zero('USD');
+        let totalFees = Money.zero('USD');
 
         // Get USD wallet balance (or first wallet if no USD)
         const userUSDWallet = wallets.find((w) => w.currency === 'USD');
@@ -114,30 +106,33 @@ export async function GET(
             },
         });
 
-        let balanceChange = 0;
+        let balanceChange = Money.zero('USD');
         allTxThisMonth.forEach(tx => {
             const isIncoming = tx.receiverId === user.id;
             if (isIncoming) {
-                balanceChange += tx.amount;
+                balanceChange = balanceChange.add(Money.of(tx.amount, 'USD'));
             } else {
-                balanceChange -= (tx.amount + (tx.fee || 0));
+                balanceChange = balanceChange.subtract(Money.of(tx.amount, 'USD').add(Money.of(tx.fee, 'USD')));
             }
         });
 
-        const openingBalance = currentBalance - balanceChange;
+        const openingBalance = Money.of(currentBalance, 'USD').subtract(balanceChange);
 
         // Process transactions with running balance
         let runningBalance = openingBalance;
         const processedTransactions = transactions.map(tx => {
             const isIncoming = tx.receiverId === user.id;
 
+            const amount = Money.of(tx.amount, 'USD');
+            const fee = Money.of(tx.fee, 'USD');
+
             if (isIncoming) {
-                runningBalance += tx.amount;
-                totalIncoming += tx.amount;
+                runningBalance = runningBalance.add(amount);
+                totalIncoming = totalIncoming.add(amount);
             } else {
-                runningBalance -= (tx.amount + (tx.fee || 0));
-                totalOutgoing += tx.amount;
-                totalFees += tx.fee || 0;
+                runningBalance = runningBalance.subtract(amount.add(fee));
+                totalOutgoing = totalOutgoing.add(amount);
+                totalFees = totalFees.add(fee);
             }
 
             return {
@@ -146,10 +141,10 @@ export async function GET(
                 date: tx.createdAt,
                 type: tx.type,
                 description: tx.description || tx.descriptionAr || '',
-                amount: tx.amount,
-                fee: tx.fee || 0,
+                amount: amount.toNumber(),
+                fee: fee.toNumber(),
                 isIncoming,
-                balance: runningBalance,
+                balance: runningBalance.toNumber(),
             };
         });
 
@@ -175,14 +170,14 @@ export async function GET(
             month,
             year,
 
-            openingBalance,
-            closingBalance: runningBalance,
+            openingBalance: openingBalance.toNumber(),
+            closingBalance: runningBalance.toNumber(),
 
             transactions: processedTransactions,
 
-            totalIncoming,
-            totalOutgoing,
-            totalFees,
+            totalIncoming: totalIncoming.toNumber(),
+            totalOutgoing: totalOutgoing.toNumber(),
+            totalFees: totalFees.toNumber(),
             transactionCount: transactions.length,
 
 
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
+import { isReversibleTransactionType } from '@/lib/financial/core-ledger';
+import { z } from 'zod';
+
+const proposeReversalSchema = z.object({
+    reason: z.string().min(5, 'Reason must be at least 5 characters').max(500),
+    reasonAr: z.string().max(500).optional(),
+});
+
+/**
+ * Propose a reversal (maker step)
+ * The reversal only executes after a different admin approves it
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await verifyAdminPermission(PERMISSIONS.TRANSACTIONS_REVERSE, request);
+        if (!auth.success || !auth.payload) {
+            return NextResponse.json(
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
+            );
+        }
+
+        const payload = auth.payload;
+
+        const { id } = await params;
+        const body = await request.json();
+        const result = proposeReversalSchema.safeParse(body);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { reason, reasonAr } = result.data;
+
+        const transaction = await prisma.transaction.findUnique({
+            where: { id },
+        });
+
+        if (!transaction) {
+            return NextResponse.json(
+                { error: 'المعاملة غير موجودة' },
+                { status: 404, headers: getSecurityHeaders() }
+            );
+        }
+
+        if (transaction.status !== 'COMPLETED') {
+            return NextResponse.json(
+                { error: 'لا يمكن إلغاء إلا المعاملات المكتملة' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        if (!isReversibleTransactionType(transaction.type)) {
+            return NextResponse.json(
+                { error: 'هذا النوع من المعاملات لا يدعم الإلغاء' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const existing = await prisma.reversalRequest.findFirst({
+            where: { transactionId: id, status: 'PENDING' },
+        });
+
+        if (existing) {
+            return NextResponse.json(
+                { error: 'يوجد طلب إلغاء قيد المراجعة لهذه المعاملة' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const reversalRequest = await prisma.reversalRequest.create({
+            data: {
+                transactionId: id,
+                reason,
+                reasonAr: reasonAr || reason,
+                requestedBy: payload.userId,
+            },
+        });
+
+        await prisma.auditLog.create({
+            data: {
+                userId: payload.userId,
+                action: 'REVERSAL_REQUESTED',
+                entity: 'Transaction',
+                entityId: id,
+                newValue: JSON.stringify({
+                    reversalRequestId: reversalRequest.id,
+                    referenceNumber: transaction.referenceNumber,
+                    amount: transaction.amount,
+                    currency: transaction.currency,
+                    reason,
+                }),
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+                userAgent: request.headers.get('user-agent') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            {
+                success: true,
+                message: 'تم إرسال طلب الإلغاء بانتظار موافقة مشرف آخر',
+                reversalRequest,
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Propose reversal error:', error);
+        return NextResponse.json(
+            { error: 'حدث خطأ في الخادم' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
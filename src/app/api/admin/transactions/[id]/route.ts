@@ -1,30 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
-import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
-import { cookies } from 'next/headers';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
 
 export async function GET(
     request: NextRequest,
     { params }: { params: { id: string } }
 ) {
     try {
-        const cookieStore = await cookies();
-        const token = cookieStore.get('accessToken')?.value;
-
-        if (!token) {
+        const auth = await verifyAdminPermission(PERMISSIONS.TRANSACTIONS_VIEW, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
-        const payload = verifyAccessToken(token);
-        if (!payload || payload.userType !== 'ADMIN') {
-            return NextResponse.json(
-                { error: 'Admin access required' },
-                { status: 403, headers: getSecurityHeaders() }
-            );
-        }
+        const payload = auth.payload;
 
         const transactionId = params.id;
 
@@ -59,8 +52,18 @@ export async function GET(
             );
         }
 
+        const [reversalRequests, reversal] = await Promise.all([
+            prisma.reversalRequest.findMany({
+                where: { transactionId },
+                orderBy: { createdAt: 'desc' },
+            }),
+            prisma.reversalTransaction.findFirst({
+                where: { originalTransactionId: transactionId },
+            }),
+        ]);
+
         return NextResponse.json(
-            { transaction },
+            { transaction, reversalRequests, reversal, currentAdminId: payload.userId },
             { status: 200, headers: getSecurityHeaders() }
         );
     } catch (error) {
@@ -1,29 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
-import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
-import { cookies } from 'next/headers';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
 import { softDelete } from '@/lib/db/soft-delete';
+import { resolveKycTier, getLatestKycDocuments } from '@/lib/kyc/tiers';
 
 export async function GET(
     request: NextRequest,
     { params }: { params: { id: string } }
 ) {
     try {
-        const cookieStore = await cookies();
-        const token = cookieStore.get('accessToken')?.value;
-
-        if (!token) {
-            return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
-            );
-        }
-
-        const payload = verifyAccessToken(token);
-        if (!payload || payload.userType !== 'ADMIN') {
+        const auth = await verifyAdminPermission(PERMISSIONS.USERS_VIEW, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Admin access required' },
-                { status: 403, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
@@ -35,9 +27,12 @@ export async function GET(
                 wallets: true,
                 kycDocuments: {
                     select: {
+                        id: true,
                         documentType: true,
                         documentUrl: true,
                         status: true,
+                        rejectionReason: true,
+                        createdAt: true,
                     },
                     orderBy: { createdAt: 'desc' },
                 },
@@ -85,6 +80,7 @@ export async function GET(
         // Extract ID back photo from KYC documents if available
         const idBackDocument = user.kycDocuments?.find(doc => doc.documentType === 'ID_BACK');
         const idBackPhotoUrl = idBackDocument?.documentUrl || null;
+        const proofOfAddressDocument = user.kycDocuments?.find(doc => doc.documentType === 'PROOF_OF_ADDRESS');
 
         return NextResponse.json(
             {
@@ -96,11 +92,15 @@ export async function GET(
                     dateOfBirth: user.dateOfBirth,
                     userType: user.userType,
                     kycStatus: user.kycStatus,
+                    kycTier: resolveKycTier(user),
+                    kycRequestedTier: user.kycRequestedTier,
+                    kycDocuments: Array.from(getLatestKycDocuments(user.kycDocuments).values()),
                     isActive: user.isActive,
                     hasMerchantAccount: user.hasMerchantAccount,
                     idPhotoUrl: user.idPhotoUrl,
                     idPhotoBackUrl: idBackPhotoUrl,
                     selfiePhotoUrl: user.selfiePhotoUrl,
+                    proofOfAddressUrl: proofOfAddressDocument?.documentUrl || null,
                     kycSubmittedAt: user.kycSubmittedAt,
                     kycReviewedAt: user.kycReviewedAt,
                     kycRejectionReason: user.kycRejectionReason,
@@ -132,23 +132,15 @@ export async function DELETE(
     { params }: { params: { id: string } }
 ) {
     try {
-        const cookieStore = await cookies();
-        const token = cookieStore.get('accessToken')?.value;
-
-        if (!token) {
+        const auth = await verifyAdminPermission(PERMISSIONS.USERS_MANAGE, request);
+        if (!auth.success || !auth.payload) {
             return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401, headers: getSecurityHeaders() }
+                { error: auth.error },
+                { status: auth.status, headers: getSecurityHeaders() }
             );
         }
 
-        const payload = verifyAccessToken(token);
-        if (!payload || payload.userType !== 'ADMIN') {
-            return NextResponse.json(
-                { error: 'Admin access required' },
-                { status: 403, headers: getSecurityHeaders() }
-            );
-        }
+        const payload = auth.payload;
 
         await softDelete({
             model: 'user',
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage, hasRole } from '@/lib/auth/verify-session';
+import { resolveCashOutQR } from '@/lib/withdrawal/cash-out';
+import { calculateCommission } from '@/lib/ledger/ledger';
+import { z } from 'zod';
+
+const previewSchema = z.object({
+    qrData: z.string().min(1, 'QR data is required'),
+});
+
+/**
+ * Show the agent what a scanned cash-out QR is worth before handing over cash
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.payload) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        if (!hasRole(auth.user, ['AGENT'])) {
+            return NextResponse.json(
+                { error: 'Unauthorized - Agent access required' },
+                { status: 403, headers: getSecurityHeaders() }
+            );
+        }
+
+        const body = await request.json();
+        const result = previewSchema.safeParse(body);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { token, error } = await resolveCashOutQR(result.data.qrData);
+
+        if (!token) {
+            return NextResponse.json(
+                { error },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const customer = await prisma.user.findUnique({
+            where: { id: token.userId },
+            select: { fullName: true, fullNameAr: true, phone: true },
+        });
+
+        const currency = (token.currency || 'USD') as 'USD' | 'SYP';
+        const commission = await calculateCommission(token.amount, 'WITHDRAW', currency);
+
+        return NextResponse.json(
+            {
+                amount: token.amount,
+                currency,
+                fee: commission.totalFee,
+                agentFee: commission.agentFee,
+                expiresAt: token.expiresAt,
+                customer: {
+                    name: customer?.fullNameAr || customer?.fullName,
+                    phone: customer?.phone,
+                },
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Cash-out preview error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
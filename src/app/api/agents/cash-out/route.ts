@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage, hasRole } from '@/lib/auth/verify-session';
+import { redeemCashOutToken } from '@/lib/withdrawal/cash-out';
+import { parseCashOutQR } from '@/lib/utils/qr';
+import { z } from 'zod';
+
+const redeemSchema = z.object({
+    qrData: z.string().min(1, 'QR data is required'),
+});
+
+/**
+ * Redeem a customer's cash-out QR - debits the customer and credits the agent
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.payload) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        if (!hasRole(auth.user, ['AGENT'])) {
+            return NextResponse.json(
+                { error: 'Unauthorized - Agent access required' },
+                { status: 403, headers: getSecurityHeaders() }
+            );
+        }
+
+        const body = await request.json();
+        const result = redeemSchema.safeParse(body);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { qrData } = result.data;
+        const redeemResult = await redeemCashOutToken(qrData, auth.payload.userId);
+
+        if (!redeemResult.success) {
+            return NextResponse.json(
+                { error: redeemResult.error },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        // Audit log
+        await prisma.auditLog.create({
+            data: {
+                userId: auth.payload.userId,
+                action: 'CASH_OUT_QR_REDEEMED',
+                entity: 'Transaction',
+                entityId: redeemResult.transactionId,
+                newValue: JSON.stringify({ cashOutTokenId: parseCashOutQR(qrData) }),
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            {
+                success: true,
+                transactionId: redeemResult.transactionId,
+                referenceNumber: redeemResult.referenceNumber,
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Cash-out redeem error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
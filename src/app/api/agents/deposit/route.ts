@@ -5,11 +5,13 @@ import { verifyAuth, getAuthErrorMessage, hasRole } from '@/lib/auth/verify-sess
 import { processDeposit } from '@/lib/ledger/ledger';
 import { sendTransactionEmail } from '@/lib/email/email';
 import { formatCurrency, type Currency, getUserWallet } from '@/lib/wallet/currency';
+import { assessTransactionRisk } from '@/lib/financial/risk-hook';
 import { z } from 'zod';
+import { toAmount, fitsMinorUnits } from '@/lib/financial/money';
 
 const depositSchema = z.object({
     customerPhone: z.string().min(9, 'Invalid phone number'),
-    amount: z.number().positive('Amount must be positive'),
+    amount: z.number().positive('Amount must be positive').refine((amount) => fitsMinorUnits(amount), 'Amount cannot have more than 2 decimal places'),
     currency: z.enum(['USD', 'SYP']).default('USD'),
 });
 
@@ -68,6 +70,24 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // The agent's daily credit and cash-on-hand limits; the customer isn't spending, so no payer limits
+        const risk = await assessTransactionRisk(request, {
+            userId: payload.userId,
+            amount,
+            type: 'DEPOSIT',
+            currency: currency as 'USD' | 'SYP',
+            counterpartyId: payload.userId,
+            skipPayerLimits: true,
+            holdable: false,
+        });
+
+        if (!risk.allowed) {
+            return NextResponse.json(
+                { error: risk.error },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
         // Process deposit with selected currency
         const depositResult = await processDeposit(
             customer.id,
@@ -125,7 +145,7 @@ export async function POST(request: NextRequest) {
                 referenceNumber: depositResult.referenceNumber || '',
                 status: 'COMPLETED',
                 date: new Date(),
-                balance: wallet?.balance || 0,
+                balance: toAmount(wallet?.balance),
             }).catch(err => console.error('Email send error:', err));
         }
 
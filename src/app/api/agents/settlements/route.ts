@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
 import { verifyAccessToken, getSecurityHeaders, generateReferenceNumber } from '@/lib/auth/security';
 import { cookies } from 'next/headers';
+import { Money } from '@/lib/financial/money';
+import { FEE_ROUNDING, AGENT_SHARE_ROUNDING } from '@/lib/ledger/ledger';
 
 // GET: Get agent's settlements
 export async function GET(request: NextRequest) {
@@ -115,28 +117,29 @@ export async function POST(request: NextRequest) {
         }
 
         // Get currency-specific balances
-        const cashBalance = currency === 'SYP' ? agentProfile.cashCollectedSYP : agentProfile.cashCollected;
-        const creditBalance = currency === 'SYP' ? agentProfile.currentCreditSYP : agentProfile.currentCredit;
-        const creditLimit = currency === 'SYP' ? agentProfile.creditLimitSYP : agentProfile.creditLimit;
+        const requested = Money.of(amount, currency);
+        const cashBalance = Money.of(currency === 'SYP' ? agentProfile.cashCollectedSYP : agentProfile.cashCollected, currency);
+        const creditBalance = Money.of(currency === 'SYP' ? agentProfile.currentCreditSYP : agentProfile.currentCredit, currency);
+        const creditLimit = Money.of(currency === 'SYP' ? agentProfile.creditLimitSYP : agentProfile.creditLimit, currency);
 
         // Type-specific validations
         if (type === 'CASH_TO_CREDIT') {
-            if (amount > cashBalance) {
+            if (requested.greaterThan(cashBalance)) {
                 return NextResponse.json(
                     { error: `Insufficient cash balance. Available: ${currency === 'SYP' ? 'ل.س' : '$'}${cashBalance}` },
                     { status: 400, headers: getSecurityHeaders() }
                 );
             }
         } else if (type === 'CREDIT_REQUEST') {
-            const availableCredit = creditLimit - creditBalance - agentProfile.pendingDebt;
-            if (amount > availableCredit) {
+            const availableCredit = creditLimit.subtract(creditBalance).subtract(Money.of(agentProfile.pendingDebt, currency));
+            if (requested.greaterThan(availableCredit)) {
                 return NextResponse.json(
                     { error: `Insufficient credit limit. Available: ${currency === 'SYP' ? 'ل.س' : '$'}${availableCredit}` },
                     { status: 400, headers: getSecurityHeaders() }
                 );
             }
         } else if (type === 'CASH_REQUEST') {
-            if (amount > creditBalance) {
+            if (requested.greaterThan(creditBalance)) {
                 return NextResponse.json(
                     { error: `Insufficient digital credit. Available: ${currency === 'SYP' ? 'ل.س' : '$'}${creditBalance}` },
                     { status: 400, headers: getSecurityHeaders() }
@@ -181,16 +184,16 @@ export async function POST(request: NextRequest) {
 
         // Type-specific calculations
         if (type === 'CASH_TO_CREDIT') {
-            const platformShare = amount * (settings.settlementPlatformCommission / 100);
-            const agentShare = amount * (settings.settlementAgentCommission / 100);
-            const amountDue = amount - platformShare - agentShare;
+            const platformShare = requested.percent(settings.settlementPlatformCommission, FEE_ROUNDING);
+            const agentShare = requested.percent(settings.settlementAgentCommission, AGENT_SHARE_ROUNDING);
+            const amountDue = requested.subtract(platformShare).subtract(agentShare);
 
             settlementData = {
                 ...settlementData,
-                cashCollected: amount,
-                platformShare,
-                agentShare,
-                amountDue,
+                cashCollected: requested.toDecimal(),
+                platformShare: platformShare.toDecimal(),
+                agentShare: agentShare.toDecimal(),
+                amountDue: amountDue.toDecimal(),
                 creditUsed: agentProfile.currentCredit,
             };
         } else if (type === 'CREDIT_REQUEST') {
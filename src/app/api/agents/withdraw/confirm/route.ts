@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage, hasRole } from '@/lib/auth/verify-session';
+import { confirmWithdrawalWithCode } from '@/lib/withdrawal/withdrawal-request';
+import { checkRateLimit, getClientIp, rateLimitExceededResponse } from '@/lib/rate-limit/limiter';
+import { z } from 'zod';
+
+const confirmSchema = z.object({
+    withdrawalRequestId: z.string(),
+    code: z.string().length(6, 'Code must be 6 digits'),
+});
+
+/**
+ * Complete a withdrawal with the code the customer read out to the agent
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.payload) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        if (!hasRole(auth.user, ['AGENT'])) {
+            return NextResponse.json(
+                { error: 'Unauthorized - Agent access required' },
+                { status: 403, headers: getSecurityHeaders() }
+            );
+        }
+
+        const rateLimit = await checkRateLimit('WITHDRAWAL_CONFIRM', { user: auth.payload.userId, ip: getClientIp(request) });
+        if (!rateLimit.allowed) {
+            return rateLimitExceededResponse(rateLimit);
+        }
+
+        const body = await request.json();
+        const result = confirmSchema.safeParse(body);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { withdrawalRequestId, code } = result.data;
+
+        const withdrawResult = await confirmWithdrawalWithCode(withdrawalRequestId, auth.payload.userId, code);
+
+        if (!withdrawResult.success) {
+            return NextResponse.json(
+                { error: withdrawResult.error, remainingAttempts: withdrawResult.remainingAttempts },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        // Audit log
+        await prisma.auditLog.create({
+            data: {
+                userId: auth.payload.userId,
+                action: 'WITHDRAW_COMPLETED',
+                entity: 'Transaction',
+                entityId: withdrawResult.transactionId,
+                newValue: JSON.stringify({ withdrawalRequestId, approvalMethod: 'CODE' }),
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            {
+                success: true,
+                transactionId: withdrawResult.transactionId,
+                referenceNumber: withdrawResult.referenceNumber,
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Confirm withdraw error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -2,17 +2,22 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
 import { getSecurityHeaders, validateAmount } from '@/lib/auth/security';
 import { verifyAuth, getAuthErrorMessage, hasRole } from '@/lib/auth/verify-session';
-import { processWithdrawal } from '@/lib/ledger/ledger';
-import { sendTransactionEmail } from '@/lib/email/email';
-import { formatCurrency, type Currency, getUserWallet } from '@/lib/wallet/currency';
+import { createWithdrawalRequest, WITHDRAWAL_REQUEST_EXPIRY_MINUTES } from '@/lib/withdrawal/withdrawal-request';
+import { type Currency, getUserWallet } from '@/lib/wallet/currency';
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/rate-limit/limiter';
+import { assessTransactionRisk } from '@/lib/financial/risk-hook';
+import { fitsMinorUnits } from '@/lib/financial/money';
 import { z } from 'zod';
 
 const withdrawSchema = z.object({
     customerPhone: z.string().min(9, 'Invalid phone number'),
-    amount: z.number().positive('Amount must be positive'),
+    amount: z.number().positive('Amount must be positive').refine((amount) => fitsMinorUnits(amount), 'Amount cannot have more than 2 decimal places'),
     currency: z.enum(['USD', 'SYP']).default('USD'),
 });
 
+/**
+ * Create a withdrawal request - the customer must confirm before any money moves
+ */
 export async function POST(request: NextRequest) {
     try {
         // Full session verification (token + DB session + user status)
@@ -68,77 +73,152 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Process withdrawal with selected currency
-        const withdrawResult = await processWithdrawal(
-            customer.id,
-            payload.userId,
+        if (customer.id === payload.userId) {
+            return NextResponse.json(
+                { error: 'Cannot withdraw from your own account' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        // Each request sends the customer a confirmation code
+        const rateLimit = await checkRateLimit('OTP_SEND', { phone: customer.phone });
+        if (!rateLimit.allowed) {
+            return rateLimitExceededResponse(rateLimit);
+        }
+
+        // Early feedback only - the atomic balance check happens in processWithdrawal
+        const customerWallet = await getUserWallet(customer.id, currency as Currency, 'PERSONAL');
+        if (!customerWallet || customerWallet.balance.lessThan(amount)) {
+            return NextResponse.json(
+                { error: 'رصيد العميل غير كافٍ' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        // The customer is the payer but the agent's device is making the request - no IP/device checks
+        const risk = await assessTransactionRisk(null, {
+            userId: customer.id,
             amount,
-            undefined, // createdBy
-            currency as 'USD' | 'SYP'
-        );
+            type: 'WITHDRAW',
+            currency: currency as 'USD' | 'SYP',
+            counterpartyId: payload.userId,
+            holdable: false,
+        });
 
-        if (!withdrawResult.success) {
+        if (!risk.allowed) {
             return NextResponse.json(
-                { error: withdrawResult.error },
+                { error: risk.error },
                 { status: 400, headers: getSecurityHeaders() }
             );
         }
 
+        const { requestId, expiresAt } = await createWithdrawalRequest({
+            agentId: payload.userId,
+            customerId: customer.id,
+            amount,
+            currency: currency as Currency,
+        });
+
         // Audit log
         await prisma.auditLog.create({
             data: {
                 userId: payload.userId,
-                action: 'WITHDRAW_COMPLETED',
-                entity: 'Transaction',
-                entityId: withdrawResult.transactionId,
-                newValue: JSON.stringify({ amount, customerPhone }),
+                action: 'WITHDRAW_REQUESTED',
+                entity: 'WithdrawalRequest',
+                entityId: requestId,
+                newValue: JSON.stringify({ amount, currency, customerPhone }),
                 ipAddress: request.headers.get('x-forwarded-for') || undefined,
             },
         });
 
-        // Create notification for customer with correct currency
-        const symbol = currency === 'SYP' ? 'ل.س' : '$';
-        const formattedAmount = currency === 'SYP'
-            ? Math.floor(amount).toLocaleString('ar-SY')
-            : amount.toFixed(2);
-
-        await prisma.notification.create({
-            data: {
-                userId: customer.id,
-                type: 'TRANSACTION',
-                title: 'Withdrawal Completed',
-                titleAr: 'تم السحب',
-                message: `You withdrew ${formattedAmount} ${symbol}`,
-                messageAr: `تم سحب ${formattedAmount}${symbol} من حسابك`,
-                metadata: JSON.stringify({ transactionId: withdrawResult.transactionId }),
+        return NextResponse.json(
+            {
+                success: true,
+                status: 'PENDING',
+                withdrawalRequestId: requestId,
+                expiresAt,
+                expiresIn: WITHDRAWAL_REQUEST_EXPIRY_MINUTES * 60,
+                customer: {
+                    name: customer.fullNameAr || customer.fullName,
+                },
             },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Agent withdraw error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
+
+/**
+ * Poll the status of a withdrawal request created by this agent
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.payload) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        if (!hasRole(auth.user, ['AGENT'])) {
+            return NextResponse.json(
+                { error: 'Unauthorized - Agent access required' },
+                { status: 403, headers: getSecurityHeaders() }
+            );
+        }
+
+        const requestId = request.nextUrl.searchParams.get('requestId');
+        if (!requestId) {
+            return NextResponse.json(
+                { error: 'Missing requestId' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const withdrawalRequest = await prisma.withdrawalRequest.findUnique({
+            where: { id: requestId },
         });
 
-        // Send email notification
-        if (customer.email) {
-            const wallet = await prisma.wallet.findFirst({ where: { userId: customer.id, currency, walletType: 'PERSONAL' } });
-            await sendTransactionEmail({
-                to: customer.email,
-                userName: customer.fullNameAr || customer.fullName,
-                transactionType: 'WITHDRAW',
-                amount,
-                referenceNumber: withdrawResult.referenceNumber || '',
-                status: 'COMPLETED',
-                date: new Date(),
-                balance: wallet?.balance || 0,
-            }).catch(err => console.error('Email send error:', err));
+        if (!withdrawalRequest || withdrawalRequest.agentId !== auth.payload.userId) {
+            return NextResponse.json(
+                { error: 'Withdrawal request not found' },
+                { status: 404, headers: getSecurityHeaders() }
+            );
+        }
+
+        const isExpired = withdrawalRequest.status === 'PENDING' && withdrawalRequest.expiresAt < new Date();
+
+        let referenceNumber: string | undefined;
+        if (withdrawalRequest.transactionId) {
+            const transaction = await prisma.transaction.findUnique({
+                where: { id: withdrawalRequest.transactionId },
+                select: { referenceNumber: true },
+            });
+            referenceNumber = transaction?.referenceNumber;
         }
 
         return NextResponse.json(
             {
-                success: true,
-                transactionId: withdrawResult.transactionId,
-                referenceNumber: withdrawResult.referenceNumber,
+                id: withdrawalRequest.id,
+                status: isExpired ? 'EXPIRED' : withdrawalRequest.status,
+                amount: withdrawalRequest.amount,
+                currency: withdrawalRequest.currency,
+                expiresAt: withdrawalRequest.expiresAt,
+                transactionId: withdrawalRequest.transactionId,
+                referenceNumber,
+                failureReason: withdrawalRequest.failureReason,
             },
             { status: 200, headers: getSecurityHeaders() }
         );
     } catch (error) {
-        console.error('Agent withdraw error:', error);
+        console.error('Agent withdraw status error:', error);
         return NextResponse.json(
             { error: 'Internal server error' },
             { status: 500, headers: getSecurityHeaders() }
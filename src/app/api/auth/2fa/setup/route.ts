@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { verifyTwoFactorToken, getSecurityHeaders } from '@/lib/auth/security';
+import { startTwoFactorEnrollment, TWO_FACTOR_TOKEN_COOKIE } from '@/lib/auth/two-factor';
+
+// POST - Start mandatory 2FA enrollment during login (password already verified)
+export async function POST(request: NextRequest) {
+    try {
+        const challenge = request.cookies.get(TWO_FACTOR_TOKEN_COOKIE)?.value;
+        const payload = challenge ? verifyTwoFactorToken(challenge) : null;
+
+        if (!payload) {
+            return NextResponse.json(
+                { error: 'Verification expired. Please login again', expired: true },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const enrollment = await startTwoFactorEnrollment(payload.userId);
+        if (!enrollment) {
+            return NextResponse.json(
+                { error: 'Two-factor authentication is already enabled' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        await prisma.auditLog.create({
+            data: {
+                userId: payload.userId,
+                action: 'TWO_FACTOR_ENROLLMENT_STARTED',
+                entity: 'User',
+                entityId: payload.userId,
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+                userAgent: request.headers.get('user-agent') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            { success: true, ...enrollment },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('2FA setup error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
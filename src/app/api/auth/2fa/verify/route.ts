@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { verifyTwoFactorToken, getSecurityHeaders } from '@/lib/auth/security';
+import { checkRateLimit, getClientIp, rateLimitExceededResponse } from '@/lib/rate-limit/limiter';
+import {
+    confirmTwoFactorEnrollment,
+    verifySecondFactor,
+    countRemainingRecoveryCodes,
+    TWO_FACTOR_TOKEN_COOKIE,
+    type SecondFactorMethod,
+} from '@/lib/auth/two-factor';
+import {
+    createLoginSession,
+    setSessionCookies,
+    clearTwoFactorChallengeCookie,
+} from '@/lib/auth/verify-session';
+import { z } from 'zod';
+
+const verifySchema = z.object({
+    code: z.string().trim().min(6, 'Invalid verification code').max(20, 'Invalid verification code'),
+    rememberDevice: z.boolean().optional(),
+});
+
+// POST - Second login step: TOTP or recovery code (or the first TOTP code when enrolling)
+export async function POST(request: NextRequest) {
+    try {
+        const clientIp = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
+
+        const challenge = request.cookies.get(TWO_FACTOR_TOKEN_COOKIE)?.value;
+        const payload = challenge ? verifyTwoFactorToken(challenge) : null;
+
+        const rateLimit = await checkRateLimit('LOGIN_2FA', { ip: getClientIp(request), user: payload?.userId });
+
+        if (!rateLimit.allowed) {
+            return rateLimitExceededResponse(rateLimit, 'Too many attempts. Please try again later.');
+        }
+
+        if (!payload) {
+            return NextResponse.json(
+                { error: 'Verification expired. Please login again', expired: true },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const body = await request.json();
+        const result = verifySchema.safeParse(body);
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { code } = result.data;
+
+        const user = await prisma.user.findUnique({
+            where: { id: payload.userId },
+            include: { wallets: true },
+        });
+
+        if (!user || !user.isActive || user.status === 'SUSPENDED' || user.status === 'BLOCKED') {
+            return NextResponse.json(
+                { error: 'Your account has been suspended. Contact support.' },
+                { status: 403, headers: getSecurityHeaders() }
+            );
+        }
+
+        if (user.lockedUntil && user.lockedUntil > new Date()) {
+            const remainingTime = Math.ceil((user.lockedUntil.getTime() - Date.now()) / 60000);
+            return NextResponse.json(
+                { error: `Account locked. Try again in ${remainingTime} minutes.` },
+                { status: 423, headers: getSecurityHeaders() }
+            );
+        }
+
+        // Enrollment: the first code from the app turns 2FA on
+        let method: SecondFactorMethod | null;
+        let recoveryCodes: string[] | null = null;
+        if (user.twoFactorEnabled) {
+            method = await verifySecondFactor(user.id, code);
+        } else {
+            recoveryCodes = await confirmTwoFactorEnrollment(user.id, code);
+            method = recoveryCodes ? 'TOTP' : null;
+        }
+
+        if (!method) {
+            // Same lockout as a wrong password
+            const failedAttempts = user.failedAttempts + 1;
+            await prisma.user.update({
+                where: { id: user.id },
+                data: failedAttempts >= 5
+                    ? { failedAttempts: 0, lockedUntil: new Date(Date.now() + 30 * 60 * 1000) }
+                    : { failedAttempts },
+            });
+
+            await prisma.auditLog.create({
+                data: {
+                    userId: user.id,
+                    action: 'LOGIN_2FA_FAILED',
+                    entity: 'Session',
+                    ipAddress: clientIp,
+                    userAgent: request.headers.get('user-agent') || undefined,
+                },
+            });
+
+            return NextResponse.json(
+                { error: 'Invalid verification code' },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        await prisma.user.update({
+            where: { id: user.id },
+            data: { failedAttempts: 0, lockedUntil: null },
+        });
+
+        if (recoveryCodes) {
+            await prisma.auditLog.create({
+                data: {
+                    userId: user.id,
+                    action: 'TWO_FACTOR_ENABLED',
+                    entity: 'User',
+                    entityId: user.id,
+                    ipAddress: clientIp,
+                    userAgent: request.headers.get('user-agent') || undefined,
+                },
+            });
+        }
+
+        const tokens = await createLoginSession({ ...user, twoFactorEnabled: true }, method, request, {
+            rememberDevice: result.data.rememberDevice,
+        });
+
+        const response = NextResponse.json(
+            {
+                success: true,
+                user: {
+                    id: user.id,
+                    fullName: user.fullName,
+                    phone: user.phone,
+                    email: user.email,
+                    userType: user.userType,
+                    status: user.status,
+                    kycStatus: user.kycStatus,
+                    balance: user.wallets?.find((w: { currency: string; walletType: string }) => w.currency === 'USD' && w.walletType === 'PERSONAL')?.balance || 0,
+                },
+                // Shown once - only hashes are stored
+                ...(recoveryCodes && { recoveryCodes }),
+                ...(method === 'RECOVERY_CODE' && { recoveryCodesRemaining: await countRemainingRecoveryCodes(user.id) }),
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+
+        setSessionCookies(response, tokens);
+        clearTwoFactorChallengeCookie(response);
+
+        return response;
+    } catch (error) {
+        console.error('2FA verify error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
-import { getSecurityHeaders } from '@/lib/auth/security';
+import { getSecurityHeaders, sanitizePhoneNumber } from '@/lib/auth/security';
+import { checkRateLimit, getClientIp, rateLimitExceededResponse } from '@/lib/rate-limit/limiter';
+import {
+    canSelfServiceReset,
+    startSelfServiceReset,
+    generateTicketNumber,
+    generateResetToken,
+    RESET_OTP_EXPIRY_MINUTES,
+} from '@/lib/auth/password-reset';
 import { z } from 'zod';
-import crypto from 'crypto';
 
 // Validation schema
 const forgotPasswordSchema = z.object({
@@ -10,20 +17,13 @@ const forgotPasswordSchema = z.object({
     message: z.string().optional(),
 });
 
-// Generate unique ticket number
-function generateTicketNumber(): string {
-    const timestamp = Date.now().toString(36).toUpperCase();
-    const random = Math.random().toString(36).substring(2, 6).toUpperCase();
-    return `PWD-${timestamp}${random}`;
-}
-
-// Generate reset token
-function generateResetToken(): string {
-    return crypto.randomBytes(32).toString('hex');
-}
-
 export async function POST(request: NextRequest) {
     try {
+        const ipRateLimit = await checkRateLimit('PASSWORD_RESET', { ip: getClientIp(request) });
+        if (!ipRateLimit.allowed) {
+            return rateLimitExceededResponse(ipRateLimit);
+        }
+
         const body = await request.json();
         const result = forgotPasswordSchema.safeParse(body);
 
@@ -35,11 +35,17 @@ export async function POST(request: NextRequest) {
         }
 
         const { phone, message } = result.data;
+        const sanitizedPhone = sanitizePhoneNumber(phone);
+
+        const phoneRateLimit = await checkRateLimit('PASSWORD_RESET', { phone: sanitizedPhone });
+        if (!phoneRateLimit.allowed) {
+            return rateLimitExceededResponse(phoneRateLimit);
+        }
 
         // Find user by phone
         const user = await prisma.user.findFirst({
             where: {
-                phone: phone,
+                phone: sanitizedPhone,
                 status: { not: 'DELETED' }
             },
         });
@@ -51,10 +57,48 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Verified phone - reset by SMS code, no admin involved
+        if (canSelfServiceReset(user)) {
+            const { requestId, sent, code } = await startSelfServiceReset(user);
+
+            if (!sent) {
+                return NextResponse.json(
+                    { error: 'تعذر إرسال الرسالة، حاول لاحقاً' },
+                    { status: 502, headers: getSecurityHeaders() }
+                );
+            }
+
+            await prisma.auditLog.create({
+                data: {
+                    userId: user.id,
+                    action: 'PASSWORD_RESET_OTP_SENT',
+                    entity: 'PasswordResetRequest',
+                    entityId: requestId,
+                    ipAddress: request.headers.get('x-forwarded-for') || undefined,
+                    userAgent: request.headers.get('user-agent') || undefined,
+                },
+            });
+
+            return NextResponse.json(
+                {
+                    success: true,
+                    method: 'SMS_OTP',
+                    requestId,
+                    expiresIn: RESET_OTP_EXPIRY_MINUTES * 60,
+                    message: 'تم إرسال رمز التحقق إلى رقم هاتفك',
+                    // Development only
+                    __dev_otp: process.env.NODE_ENV === 'development' ? code : undefined,
+                },
+                { status: 200, headers: getSecurityHeaders() }
+            );
+        }
+
+        // No verified contact channel - support ticket for an admin to approve
         // Check if there's already a pending password reset request
         const existingRequest = await prisma.passwordResetRequest.findFirst({
             where: {
                 userId: user.id,
+                method: 'ADMIN',
                 status: 'PENDING',
                 expiresAt: { gt: new Date() },
             },
@@ -82,6 +126,7 @@ export async function POST(request: NextRequest) {
                 ticketNumber,
                 token: resetToken,
                 status: 'PENDING',
+                method: 'ADMIN',
                 message: message || 'طلب استعادة كلمة المرور',
                 expiresAt,
             },
@@ -112,6 +157,7 @@ ${message || 'لا يوجد'}
         return NextResponse.json(
             {
                 success: true,
+                method: 'ADMIN',
                 ticketNumber,
                 message: 'تم إرسال طلبك بنجاح. سيتم مراجعته من قبل فريق الدعم.',
             },
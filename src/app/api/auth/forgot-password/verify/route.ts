@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { checkRateLimit, getClientIp, rateLimitExceededResponse } from '@/lib/rate-limit/limiter';
+import { verifyResetCode, RESET_LINK_MINUTES } from '@/lib/auth/password-reset';
+import { z } from 'zod';
+
+const verifySchema = z.object({
+    requestId: z.string().min(1, 'الطلب غير صالح'),
+    code: z.string().trim().length(6, 'رمز التحقق يجب أن يكون 6 أرقام'),
+});
+
+// POST - Check the SMS code of a self-service reset, returns the token for /reset-password
+export async function POST(request: NextRequest) {
+    try {
+        const rateLimit = await checkRateLimit('PASSWORD_RESET_VERIFY', { ip: getClientIp(request) });
+        if (!rateLimit.allowed) {
+            return rateLimitExceededResponse(rateLimit);
+        }
+
+        const body = await request.json();
+        const result = verifySchema.safeParse(body);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const verification = await verifyResetCode(
+            result.data.requestId,
+            result.data.code,
+            request.headers.get('x-forwarded-for') || undefined
+        );
+
+        if (!verification.success) {
+            return NextResponse.json(
+                { error: verification.error },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        return NextResponse.json(
+            { success: true, token: verification.token, expiresIn: RESET_LINK_MINUTES * 60 },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Verify reset code error:', error);
+        return NextResponse.json(
+            { error: 'حدث خطأ في الخادم' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -2,13 +2,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
 import {
     verifyPassword,
-    generateAccessToken,
-    generateRefreshToken,
-    generateSessionId,
     sanitizePhoneNumber,
-    checkRateLimit,
     getSecurityHeaders
 } from '@/lib/auth/security';
+import { checkRateLimit, getClientIp, rateLimitExceededResponse } from '@/lib/rate-limit/limiter';
+import {
+    getSecondFactorRequirement,
+    setTwoFactorChallengeCookie,
+    createLoginSession,
+    setSessionCookies,
+} from '@/lib/auth/verify-session';
 import { z } from 'zod';
 
 // Validation schema
@@ -21,19 +24,10 @@ export async function POST(request: NextRequest) {
     try {
         // Rate limiting
         const clientIp = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
-        const rateLimit = checkRateLimit(`login:${clientIp}`, 5, 60000); // 5 attempts per minute
+        const rateLimit = await checkRateLimit('LOGIN', { ip: getClientIp(request) });
 
         if (!rateLimit.allowed) {
-            return NextResponse.json(
-                { error: 'Too many login attempts. Please try again later.' },
-                {
-                    status: 429,
-                    headers: {
-                        ...getSecurityHeaders(),
-                        'Retry-After': Math.ceil((rateLimit.resetAt.getTime() - Date.now()) / 1000).toString(),
-                    }
-                }
-            );
+            return rateLimitExceededResponse(rateLimit, 'Too many login attempts. Please try again later.');
         }
 
         const body = await request.json();
@@ -50,6 +44,12 @@ export async function POST(request: NextRequest) {
         const { phone, password } = result.data;
         const sanitizedPhone = sanitizePhoneNumber(phone);
 
+        // Per-account limit - slows password guessing spread over many IPs
+        const phoneRateLimit = await checkRateLimit('LOGIN', { phone: sanitizedPhone });
+        if (!phoneRateLimit.allowed) {
+            return rateLimitExceededResponse(phoneRateLimit, 'Too many login attempts. Please try again later.');
+        }
+
         // Find user
         const user = await prisma.user.findUnique({
             where: { phone: sanitizedPhone },
@@ -133,56 +133,36 @@ export async function POST(request: NextRequest) {
             data: {
                 failedAttempts: 0,
                 lockedUntil: null,
-                lastLoginAt: new Date(),
-                lastLoginIp: clientIp,
             },
         });
 
-        // Invalidate old sessions (optional: keep last 5)
-        const oldSessions = await prisma.session.findMany({
-            where: { userId: user.id },
-            orderBy: { createdAt: 'desc' },
-            skip: 5,
-        });
-
-        if (oldSessions.length > 0) {
-            await prisma.session.deleteMany({
-                where: { id: { in: oldSessions.map(s => s.id) } },
+        // Second factor - no session until it is passed
+        const secondFactor = await getSecondFactorRequirement(user, request);
+        if (secondFactor !== 'NONE') {
+            await prisma.auditLog.create({
+                data: {
+                    userId: user.id,
+                    action: 'LOGIN_2FA_CHALLENGE',
+                    entity: 'Session',
+                    newValue: JSON.stringify({ enrollmentRequired: secondFactor === 'ENROLL' }),
+                    ipAddress: clientIp,
+                    userAgent: request.headers.get('user-agent') || undefined,
+                },
             });
-        }
 
-        // Create new session
-        const sessionId = generateSessionId();
-        const tokenPayload = {
-            userId: user.id,
-            userType: user.userType,
-            sessionId,
-        };
-
-        const accessToken = generateAccessToken(tokenPayload);
-        const refreshToken = generateRefreshToken(tokenPayload);
-
-        await prisma.session.create({
-            data: {
-                userId: user.id,
-                token: accessToken,
-                refreshToken,
-                userAgent: request.headers.get('user-agent') || undefined,
-                ipAddress: clientIp,
-                expiresAt: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000), // 90 days for WebView
-            },
-        });
+            const challengeResponse = NextResponse.json(
+                {
+                    success: true,
+                    requiresTwoFactor: true,
+                    enrollmentRequired: secondFactor === 'ENROLL',
+                },
+                { status: 200, headers: getSecurityHeaders() }
+            );
+            setTwoFactorChallengeCookie(challengeResponse, user.id);
+            return challengeResponse;
+        }
 
-        // Audit log
-        await prisma.auditLog.create({
-            data: {
-                userId: user.id,
-                action: 'LOGIN_SUCCESS',
-                entity: 'Session',
-                ipAddress: clientIp,
-                userAgent: request.headers.get('user-agent') || undefined,
-            },
-        });
+        const tokens = await createLoginSession(user, null, request);
 
         // Response
         const response = NextResponse.json(
@@ -202,22 +182,7 @@ export async function POST(request: NextRequest) {
             { status: 200, headers: getSecurityHeaders() }
         );
 
-        // Set secure cookies - Extended session (90 days)
-        response.cookies.set('accessToken', accessToken, {
-            httpOnly: true,
-            secure: process.env.NODE_ENV === 'production',
-            sameSite: 'lax', // Lax is better for mobile persistence
-            maxAge: 90 * 24 * 60 * 60, // 90 days
-            path: '/',
-        });
-
-        response.cookies.set('refreshToken', refreshToken, {
-            httpOnly: true,
-            secure: process.env.NODE_ENV === 'production',
-            sameSite: 'lax',
-            maxAge: 90 * 24 * 60 * 60, // 90 days
-            path: '/',
-        });
+        setSessionCookies(response, tokens);
 
         return response;
     } catch (error) {
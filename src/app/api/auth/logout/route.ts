@@ -10,9 +10,15 @@ export async function POST(request: NextRequest) {
         const refreshToken = cookieStore.get('refreshToken')?.value;
 
         // Delete session from database
-        if (accessToken) {
-            const session = await prisma.session.findUnique({
-                where: { token: accessToken },
+        // The access token may have expired - the refresh token still identifies the session
+        if (accessToken || refreshToken) {
+            const session = await prisma.session.findFirst({
+                where: {
+                    OR: [
+                        ...(accessToken ? [{ token: accessToken }] : []),
+                        ...(refreshToken ? [{ refreshToken }] : []),
+                    ],
+                },
             });
 
             if (session) {
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import {
+    refreshSession,
+    setSessionCookies,
+    clearSessionCookies,
+    getAuthErrorMessage,
+} from '@/lib/auth/verify-session';
+
+/**
+ * Renew the access token - the refresh token is rotated on every call
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const refreshToken = request.cookies.get('refreshToken')?.value;
+
+        if (!refreshToken) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage('NO_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const result = await refreshSession(refreshToken, request);
+
+        if (!result.success) {
+            const response = NextResponse.json(
+                { error: getAuthErrorMessage(result.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+            clearSessionCookies(response);
+            return response;
+        }
+
+        const response = NextResponse.json(
+            { success: true },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+
+        if (result.tokens) {
+            setSessionCookies(response, result.tokens);
+        }
+
+        return response;
+    } catch (error) {
+        console.error('Token refresh error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
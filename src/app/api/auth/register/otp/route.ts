@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { sanitizePhoneNumber, isValidSyrianPhone, getSecurityHeaders } from '@/lib/auth/security';
+import { checkRateLimit, getClientIp, rateLimitExceededResponse } from '@/lib/rate-limit/limiter';
+import { sendPhoneVerification, PHONE_OTP_EXPIRY_MINUTES } from '@/lib/otp/phone-verification';
+import { z } from 'zod';
+
+const otpSchema = z.object({
+    phone: z.string().min(9, 'Phone number is required'),
+});
+
+// POST - Text a verification code to the phone number being registered
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const result = otpSchema.safeParse(body);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const sanitizedPhone = sanitizePhoneNumber(result.data.phone);
+        if (!isValidSyrianPhone(sanitizedPhone)) {
+            return NextResponse.json(
+                { error: 'Invalid Syrian phone number' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const rateLimit = await checkRateLimit('OTP_SEND', { ip: getClientIp(request), phone: sanitizedPhone });
+        if (!rateLimit.allowed) {
+            return rateLimitExceededResponse(rateLimit);
+        }
+
+        const existingUser = await prisma.user.findUnique({
+            where: { phone: sanitizedPhone },
+            select: { id: true },
+        });
+
+        if (existingUser) {
+            return NextResponse.json(
+                { error: 'Phone number already registered' },
+                { status: 409, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { verificationId, sent, code } = await sendPhoneVerification(
+            sanitizedPhone,
+            request.headers.get('x-forwarded-for') || undefined
+        );
+
+        if (!sent) {
+            return NextResponse.json(
+                { error: 'تعذر إرسال الرسالة، حاول لاحقاً' },
+                { status: 502, headers: getSecurityHeaders() }
+            );
+        }
+
+        return NextResponse.json(
+            {
+                success: true,
+                verificationId,
+                expiresIn: PHONE_OTP_EXPIRY_MINUTES * 60,
+                // Development only
+                __dev_otp: process.env.NODE_ENV === 'development' ? code : undefined,
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Registration OTP error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -7,6 +7,7 @@ import {
     getSecurityHeaders
 } from '@/lib/auth/security';
 import { uploadToS3 } from '@/lib/storage/s3';
+import { isPhoneVerified, consumePhoneVerification } from '@/lib/otp/phone-verification';
 import { v4 as uuidv4 } from 'uuid';
 import { z } from 'zod';
 
@@ -23,6 +24,7 @@ const registerSchema = z.object({
     password: z.string().min(6, 'Password must be at least 6 characters'),
     address: z.string().optional(), // NEW: Address field
     dateOfBirth: z.string().optional(),
+    phoneVerificationId: z.string().min(1, 'يرجى تأكيد رقم الهاتف'),
 });
 
 export async function POST(request: NextRequest) {
@@ -37,6 +39,7 @@ export async function POST(request: NextRequest) {
             password: formData.get('password') as string,
             address: formData.get('address') as string, // NEW: Extract address
             dateOfBirth: formData.get('dateOfBirth') as string,
+            phoneVerificationId: formData.get('phoneVerificationId') as string,
         };
 
         const validation = registerSchema.safeParse(rawData);
@@ -48,7 +51,7 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const { fullName, phone, email, password, address, dateOfBirth } = validation.data;
+        const { fullName, phone, email, password, address, dateOfBirth, phoneVerificationId } = validation.data;
 
         // Files - support new and old field names
         const idPhotoFront = formData.get('idPhotoFront') as File | null;
@@ -71,6 +74,14 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // SMS code must have been confirmed for this number (checked before any upload)
+        if (!(await isPhoneVerified(phoneVerificationId, sanitizedPhone))) {
+            return NextResponse.json(
+                { error: 'لم يتم تأكيد رقم الهاتف، أعد إرسال رمز التحقق' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
         // Check existing user
         const existingUser = await prisma.user.findUnique({
             where: { phone: sanitizedPhone },
@@ -144,6 +155,10 @@ export async function POST(request: NextRequest) {
 
         // 4. Create user in DB
         const user = await prisma.$transaction(async (tx) => {
+            if (!(await consumePhoneVerification(tx, phoneVerificationId, sanitizedPhone))) {
+                throw new Error('PHONE_NOT_VERIFIED'); // Used by a parallel registration
+            }
+
             // Create user
             const newUser = await tx.user.create({
                 data: {
@@ -156,8 +171,10 @@ export async function POST(request: NextRequest) {
                     dateOfBirth: dateOfBirth ? new Date(dateOfBirth) : null,
                     userType: 'USER',
                     status: 'PENDING',
+                    phoneVerifiedAt: new Date(),
                     isActive: false, // User is inactive until admin approval
                     kycStatus: idPhotoUrl && selfiePhotoUrl ? 'PENDING' : 'NOT_SUBMITTED',
+                    kycRequestedTier: idPhotoUrl && selfiePhotoUrl ? 1 : null,
                     idPhotoUrl,     // S3 URL - Keeping for backward compatibility
                     selfiePhotoUrl, // S3 URL - Keeping for backward compatibility
                     kycSubmittedAt: idPhotoUrl && selfiePhotoUrl ? new Date() : null,
@@ -250,6 +267,13 @@ export async function POST(request: NextRequest) {
             { status: 201, headers: getSecurityHeaders() }
         );
     } catch (error) {
+        if (error instanceof Error && error.message === 'PHONE_NOT_VERIFIED') {
+            return NextResponse.json(
+                { error: 'لم يتم تأكيد رقم الهاتف، أعد إرسال رمز التحقق' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
         console.error('Registration error:', error);
 
         // More detailed error response for debugging
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyPhoneCode } from '@/lib/otp/phone-verification';
+import { z } from 'zod';
+
+const verifySchema = z.object({
+    verificationId: z.string().min(1, 'Verification is required'),
+    code: z.string().trim().length(6, 'رمز التحقق يجب أن يكون 6 أرقام'),
+});
+
+// POST - Check the SMS code before the registration form is submitted
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const result = verifySchema.safeParse(body);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const verification = await verifyPhoneCode(result.data.verificationId, result.data.code);
+
+        if (!verification.success) {
+            return NextResponse.json(
+                { error: verification.error },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        return NextResponse.json(
+            { success: true },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Phone verification error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
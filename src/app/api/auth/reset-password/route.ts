@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
 import { getSecurityHeaders, hashPassword } from '@/lib/auth/security';
+import { checkRateLimit, getClientIp, rateLimitExceededResponse } from '@/lib/rate-limit/limiter';
 import { z } from 'zod';
 
 // Validation schema for reset password
@@ -69,6 +70,11 @@ export async function GET(request: NextRequest) {
 // POST - Reset password
 export async function POST(request: NextRequest) {
     try {
+        const rateLimit = await checkRateLimit('PASSWORD_RESET', { ip: getClientIp(request) });
+        if (!rateLimit.allowed) {
+            return rateLimitExceededResponse(rateLimit);
+        }
+
         const body = await request.json();
         const result = resetPasswordSchema.safeParse(body);
 
@@ -121,8 +127,25 @@ export async function POST(request: NextRequest) {
             prisma.session.deleteMany({
                 where: { userId: resetRequest.userId },
             }),
+            // Whoever knew the old password must not skip 2FA on a remembered device
+            prisma.userDevice.updateMany({
+                where: { userId: resetRequest.userId },
+                data: { twoFactorRememberedUntil: null },
+            }),
         ]);
 
+        await prisma.auditLog.create({
+            data: {
+                userId: resetRequest.userId,
+                action: 'PASSWORD_RESET_COMPLETED',
+                entity: 'PasswordResetRequest',
+                entityId: resetRequest.id,
+                newValue: JSON.stringify({ method: resetRequest.method }),
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+                userAgent: request.headers.get('user-agent') || undefined,
+            },
+        });
+
         return NextResponse.json(
             {
                 success: true,
@@ -6,10 +6,12 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
-import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
-import { cookies } from 'next/headers';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAdminPermission } from '@/lib/auth/verify-session';
+import { PERMISSIONS } from '@/lib/auth/permissions';
 import crypto from 'crypto';
 import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
+import { toAmount, sumAmounts } from '@/lib/financial/money';
 
 // S3 Configuration
 const s3Client = new S3Client({
@@ -31,19 +33,12 @@ async function verifyAccess(request: NextRequest) {
     }
 
     // Check for admin access
-    const cookieStore = await cookies();
-    const token = cookieStore.get('accessToken')?.value;
-
-    if (!token) {
-        return null;
-    }
-
-    const payload = verifyAccessToken(token);
-    if (!payload || payload.userType !== 'ADMIN') {
+    const auth = await verifyAdminPermission(PERMISSIONS.LEDGER_MANAGE, request);
+    if (!auth.success || !auth.payload) {
         return null;
     }
 
-    return { isCron: false, userId: payload.userId };
+    return { isCron: false, userId: auth.payload.userId };
 }
 
 // GET: Get recent hourly snapshots
@@ -171,18 +166,18 @@ export async function POST(request: NextRequest) {
         // CALCULATE TOTALS
         // ═══════════════════════════════════════════════════════════════
 
-        const totalWalletsUSD = wallets
+        const totalWalletsUSD = sumAmounts(wallets
             .filter(w => w.currency === 'USD')
-            .reduce((sum, w) => sum + w.balance, 0);
+            .map(w => w.balance));
 
-        const totalWalletsSYP = wallets
+        const totalWalletsSYP = sumAmounts(wallets
             .filter(w => w.currency === 'SYP')
-            .reduce((sum, w) => sum + w.balance, 0);
+            .map(w => w.balance));
 
-        const totalAgentCredit = agents.reduce((sum, a) => sum + a.currentCredit, 0);
-        const totalAgentCreditSYP = agents.reduce((sum, a) => sum + (a.currentCreditSYP || 0), 0);
-        const totalAgentCash = agents.reduce((sum, a) => sum + a.cashCollected, 0);
-        const totalAgentCashSYP = agents.reduce((sum, a) => sum + (a.cashCollectedSYP || 0), 0);
+        const totalAgentCredit = sumAmounts(agents.map(a => a.currentCredit));
+        const totalAgentCreditSYP = sumAmounts(agents.map(a => a.currentCreditSYP));
+        const totalAgentCash = sumAmounts(agents.map(a => a.cashCollected));
+        const totalAgentCashSYP = sumAmounts(agents.map(a => a.cashCollectedSYP));
 
         const sysReserve = internalAccounts.find(a => a.code === 'SYS-RESERVE');
         const sysReserveSYP = internalAccounts.find(a => a.code === 'SYS-RESERVE-SYP');
@@ -220,10 +215,10 @@ export async function POST(request: NextRequest) {
                 totalAgentCreditSYP,
                 totalAgentCash,
                 totalAgentCashSYP,
-                systemReserveUSD: sysReserve?.balance || 0,
-                systemReserveSYP: sysReserveSYP?.balance || 0,
-                feesCollectedUSD: feesAccount?.balance || 0,
-                feesCollectedSYP: feesSYP?.balance || 0,
+                systemReserveUSD: toAmount(sysReserve?.balance),
+                systemReserveSYP: toAmount(sysReserveSYP?.balance),
+                feesCollectedUSD: toAmount(feesAccount?.balance),
+                feesCollectedSYP: toAmount(feesSYP?.balance),
                 checksum,
                 walletCount: wallets.length,
                 agentCount: agents.length,
@@ -0,0 +1,33 @@
+/**
+ * Reconciliation Cron API
+ * POST - Reconcile wallets and agent credit with the ledger (called by the reconciliation scheduler)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { runReconciliation } from '@/lib/financial/reconciliation';
+
+export async function POST(request: NextRequest) {
+    try {
+        const cronSecret = request.headers.get('x-cron-secret');
+        if (!cronSecret || cronSecret !== process.env.CRON_SECRET) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const result = await runReconciliation('SCHEDULED');
+
+        return NextResponse.json(
+            { success: true, ...result },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Reconciliation cron error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -0,0 +1,33 @@
+/**
+ * Scheduled Transfers Cron API
+ * POST - Execute all due scheduled/recurring transfers (called by the scheduled-transfer scheduler)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { runDueScheduledTransfers } from '@/lib/transfer/scheduled-transfers';
+
+export async function POST(request: NextRequest) {
+    try {
+        const cronSecret = request.headers.get('x-cron-secret');
+        if (!cronSecret || cronSecret !== process.env.CRON_SECRET) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const result = await runDueScheduledTransfers();
+
+        return NextResponse.json(
+            { success: true, ...result },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Scheduled transfers cron error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
 import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
+import { releaseServiceOrder, refundServiceOrder } from '@/lib/merchant/service-orders';
+import { POSTING_ERRORS } from '@/lib/financial/posting-engine';
 import { cookies } from 'next/headers';
 import { z } from 'zod';
 
@@ -82,16 +84,7 @@ export async function POST(
                 },
             });
 
-            // Get the linked transaction to determine currency
-            let orderCurrency = 'USD';
             if (order.transactionId) {
-                const linkedTransaction = await tx.transaction.findUnique({
-                    where: { id: order.transactionId },
-                });
-                if (linkedTransaction?.currency) {
-                    orderCurrency = linkedTransaction.currency;
-                }
-
                 // Update the linked Transaction status as well
                 await tx.transaction.update({
                     where: { id: order.transactionId },
@@ -103,15 +96,7 @@ export async function POST(
             }
 
             // Transfer amount to merchant business wallet (using order currency)
-            const merchantBusinessWallet = await tx.wallet.findFirst({
-                where: { userId: payload.userId, walletType: 'BUSINESS', currency: orderCurrency },
-            });
-            if (merchantBusinessWallet) {
-                await tx.wallet.update({
-                    where: { id: merchantBusinessWallet.id },
-                    data: { balance: { increment: order.amount } },
-                });
-            }
+            await releaseServiceOrder(tx, order, payload.userId);
         });
 
         // Notify buyer
@@ -130,7 +115,14 @@ export async function POST(
             { success: true, message: 'تمت الموافقة على الطلب بنجاح' },
             { headers: getSecurityHeaders() }
         );
-    } catch (error) {
+    } catch (error: any) {
+        if (POSTING_ERRORS[error?.message]) {
+            return NextResponse.json(
+                { error: POSTING_ERRORS[error.message] },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
         console.error('Error approving order:', error);
         return NextResponse.json(
             { error: 'Internal server error' },
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
 import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
+import { releaseServiceOrder, refundServiceOrder } from '@/lib/merchant/service-orders';
+import { POSTING_ERRORS } from '@/lib/financial/posting-engine';
 import { cookies } from 'next/headers';
 import { z } from 'zod';
 
@@ -78,8 +80,7 @@ export async function POST(
         }
 
         // Reject and refund
-        let orderCurrency = 'USD';
-        await prisma.$transaction(async (tx) => {
+        const orderCurrency = await prisma.$transaction(async (tx) => {
             // Update order status
             await tx.servicePurchase.update({
                 where: { id },
@@ -93,15 +94,7 @@ export async function POST(
                 },
             });
 
-            // Get linked transaction to determine currency
             if (order.transactionId) {
-                const linkedTransaction = await tx.transaction.findUnique({
-                    where: { id: order.transactionId },
-                });
-                if (linkedTransaction?.currency) {
-                    orderCurrency = linkedTransaction.currency;
-                }
-
                 // Update the linked Transaction status as well
                 await tx.transaction.update({
                     where: { id: order.transactionId },
@@ -113,15 +106,7 @@ export async function POST(
             }
 
             // Refund to buyer wallet (using order currency)
-            const buyerWallet = await tx.wallet.findFirst({
-                where: { userId: order.userId, walletType: 'PERSONAL', currency: orderCurrency },
-            });
-            if (buyerWallet) {
-                await tx.wallet.update({
-                    where: { id: buyerWallet.id },
-                    data: { balance: { increment: order.totalAmount } },
-                });
-            }
+            return refundServiceOrder(tx, order, payload.userId);
         });
 
         // Format currency symbol
@@ -143,7 +128,14 @@ export async function POST(
             { success: true, message: 'تم رفض الطلب وإرجاع المبلغ للزبون' },
             { headers: getSecurityHeaders() }
         );
-    } catch (error) {
+    } catch (error: any) {
+        if (POSTING_ERRORS[error?.message]) {
+            return NextResponse.json(
+                { error: POSTING_ERRORS[error.message] },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
         console.error('Error rejecting order:', error);
         return NextResponse.json(
             { error: 'Internal server error' },
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
+import { cookies } from 'next/headers';
+import { expireDynamicQRIfNeeded } from '@/lib/merchant/dynamic-qr';
+
+async function getMerchantDynamicQR(id: string) {
+    const cookieStore = await cookies();
+    const token = cookieStore.get('accessToken')?.value;
+    const payload = token ? verifyAccessToken(token) : null;
+
+    if (!payload) {
+        return { error: 'Unauthorized', status: 401 } as const;
+    }
+
+    const merchantProfile = await prisma.merchantProfile.findUnique({
+        where: { userId: payload.userId },
+    });
+
+    const dynamicQR = await prisma.merchantDynamicQR.findUnique({ where: { id } });
+
+    if (!merchantProfile || !dynamicQR || dynamicQR.merchantId !== merchantProfile.id) {
+        return { error: 'Not found', status: 404 } as const;
+    }
+
+    return { dynamicQR, userId: payload.userId };
+}
+
+// GET - Live status of a dynamic QR (polled by the merchant page)
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        const found = await getMerchantDynamicQR(id);
+
+        if (!found.dynamicQR) {
+            return NextResponse.json(
+                { error: found.error },
+                { status: found.status, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { dynamicQR } = found;
+        const status = await expireDynamicQRIfNeeded(dynamicQR);
+
+        let payer: { name: string } | null = null;
+        let referenceNumber: string | undefined;
+        if (status === 'PAID') {
+            const [payerUser, transaction] = await Promise.all([
+                dynamicQR.paidBy
+                    ? prisma.user.findUnique({ where: { id: dynamicQR.paidBy }, select: { fullName: true, fullNameAr: true } })
+                    : null,
+                dynamicQR.transactionId
+                    ? prisma.transaction.findUnique({ where: { id: dynamicQR.transactionId }, select: { referenceNumber: true } })
+                    : null,
+            ]);
+            payer = payerUser ? { name: payerUser.fullNameAr || payerUser.fullName } : null;
+            referenceNumber = transaction?.referenceNumber;
+        }
+
+        return NextResponse.json(
+            {
+                id: dynamicQR.id,
+                status,
+                amount: dynamicQR.amount,
+                currency: dynamicQR.currency,
+                orderReference: dynamicQR.orderReference,
+                expiresAt: dynamicQR.expiresAt,
+                paidAt: dynamicQR.paidAt,
+                payer,
+                referenceNumber,
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Get dynamic QR error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
+
+// DELETE - Cancel an unpaid dynamic QR
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        const found = await getMerchantDynamicQR(id);
+
+        if (!found.dynamicQR) {
+            return NextResponse.json(
+                { error: found.error },
+                { status: found.status, headers: getSecurityHeaders() }
+            );
+        }
+
+        const updated = await prisma.merchantDynamicQR.updateMany({
+            where: { id, status: 'PENDING' },
+            data: { status: 'CANCELLED' },
+        });
+
+        if (updated.count === 0) {
+            return NextResponse.json(
+                { error: 'لا يمكن إلغاء هذا الرمز' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        return NextResponse.json(
+            { success: true },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Cancel dynamic QR error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { verifyAccessToken, getSecurityHeaders, validateAmount } from '@/lib/auth/security';
+import { cookies } from 'next/headers';
+import { createDynamicQR, DYNAMIC_QR_MAX_EXPIRY_MINUTES } from '@/lib/merchant/dynamic-qr';
+import type { Currency } from '@/lib/wallet/currency';
+import { fitsMinorUnits } from '@/lib/financial/money';
+import { z } from 'zod';
+
+const dynamicQRSchema = z.object({
+    amount: z.number().positive('Amount must be positive').refine((amount) => fitsMinorUnits(amount), 'Amount cannot have more than 2 decimal places'),
+    currency: z.enum(['USD', 'SYP']).default('USD'),
+    orderReference: z.string().max(64).optional(),
+    expiresInMinutes: z.number().int().positive().max(DYNAMIC_QR_MAX_EXPIRY_MINUTES).optional(),
+});
+
+// POST - Create a per-sale QR with the amount embedded
+export async function POST(request: NextRequest) {
+    try {
+        const cookieStore = await cookies();
+        const token = cookieStore.get('accessToken')?.value;
+
+        if (!token) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const payload = verifyAccessToken(token);
+        if (!payload) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { id: payload.userId },
+            include: { merchantProfile: true },
+        });
+
+        const hasMerchantAccess = user && (
+            user.userType === 'MERCHANT' ||
+            user.hasMerchantAccount
+        );
+
+        if (!hasMerchantAccess || !user.merchantProfile || !user.merchantProfile.isActive) {
+            return NextResponse.json(
+                { error: 'Unauthorized - Merchant access required' },
+                { status: 403, headers: getSecurityHeaders() }
+            );
+        }
+
+        const body = await request.json();
+        const result = dynamicQRSchema.safeParse(body);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { amount, currency, orderReference, expiresInMinutes } = result.data;
+
+        if (!validateAmount(amount)) {
+            return NextResponse.json(
+                { error: 'Invalid amount' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const dynamicQR = await createDynamicQR({
+            merchant: user.merchantProfile,
+            amount,
+            currency: currency as Currency,
+            orderReference: orderReference || undefined,
+            expiresInMinutes,
+        });
+
+        await prisma.auditLog.create({
+            data: {
+                userId: payload.userId,
+                action: 'DYNAMIC_QR_CREATED',
+                entity: 'MerchantDynamicQR',
+                entityId: dynamicQR.id,
+                newValue: JSON.stringify({ amount, currency, orderReference }),
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            {
+                success: true,
+                id: dynamicQR.id,
+                qrData: dynamicQR.qrData,
+                amount,
+                currency,
+                orderReference,
+                expiresAt: dynamicQR.expiresAt,
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Create dynamic QR error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
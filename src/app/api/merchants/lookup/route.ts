@@ -1,12 +1,45 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
 import { getSecurityHeaders } from '@/lib/auth/security';
+import { resolveDynamicQR } from '@/lib/merchant/dynamic-qr';
 
-// GET - Lookup merchant by code
+// GET - Lookup merchant by code, or resolve a dynamic (per-sale) QR
 export async function GET(request: NextRequest) {
     try {
         const { searchParams } = new URL(request.url);
         const code = searchParams.get('code');
+        const qr = searchParams.get('qr');
+
+        if (qr) {
+            const { dynamicQR, merchant, error } = await resolveDynamicQR(qr);
+
+            if (!dynamicQR || !merchant) {
+                return NextResponse.json(
+                    { error },
+                    { status: 400, headers: getSecurityHeaders() }
+                );
+            }
+
+            return NextResponse.json(
+                {
+                    merchant: {
+                        id: merchant.id,
+                        userId: merchant.userId,
+                        businessName: merchant.businessName,
+                        businessNameAr: merchant.businessNameAr,
+                        merchantCode: merchant.merchantCode,
+                    },
+                    dynamicQR: {
+                        id: dynamicQR.id,
+                        amount: dynamicQR.amount,
+                        currency: dynamicQR.currency,
+                        orderReference: dynamicQR.orderReference,
+                        expiresAt: dynamicQR.expiresAt,
+                    },
+                },
+                { status: 200, headers: getSecurityHeaders() }
+            );
+        }
 
         if (!code) {
             return NextResponse.json(
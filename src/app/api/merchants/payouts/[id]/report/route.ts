@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
+import { buildPayoutReportCSV } from '@/lib/merchant/payouts';
+
+// GET - Per-row result report of a payout batch (CSV download)
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { id } = await params;
+
+        const merchantProfile = await prisma.merchantProfile.findUnique({
+            where: { userId: auth.user.id },
+        });
+
+        const batch = merchantProfile
+            ? await prisma.payoutBatch.findFirst({
+                where: { id, merchantId: merchantProfile.id },
+                include: { items: true },
+            })
+            : null;
+
+        if (!batch) {
+            return NextResponse.json(
+                { error: 'Batch not found' },
+                { status: 404, headers: getSecurityHeaders() }
+            );
+        }
+
+        return new NextResponse(buildPayoutReportCSV(batch.items), {
+            status: 200,
+            headers: {
+                ...getSecurityHeaders(),
+                'Content-Type': 'text/csv; charset=utf-8',
+                'Content-Disposition': `attachment; filename="payout-${batch.id}.csv"`,
+            },
+        });
+    } catch (error) {
+        console.error('Payout report error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -0,0 +1,210 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
+import { resolvePayoutRows, validatePayoutRows, executePayoutBatch } from '@/lib/merchant/payouts';
+import { assessTransactionRisk } from '@/lib/financial/risk-hook';
+import { Money, fitsMinorUnits } from '@/lib/financial/money';
+import { z } from 'zod';
+import bcrypt from 'bcryptjs';
+
+const payoutSchema = z.object({
+    currency: z.enum(['USD', 'SYP']).default('USD'),
+    csv: z.string().max(200000).optional(),
+    rows: z.array(z.object({
+        phone: z.string(),
+        amount: z.number().refine((amount) => fitsMinorUnits(amount), 'Amount cannot have more than 2 decimal places'),
+        note: z.string().optional(),
+    })).optional(),
+    templateId: z.string().optional(),
+    pin: z.string().length(4, 'PIN must be 4 digits'),
+});
+
+/**
+ * Run a bulk payout from the business wallet
+ * The whole batch is authorized once with the Payment PIN; rows are re-validated server-side
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { id: auth.user.id },
+            include: { merchantProfile: true, wallets: true },
+        });
+
+        if (!user || !user.hasMerchantAccount || !user.merchantProfile) {
+            return NextResponse.json(
+                { error: 'Merchant account required' },
+                { status: 403, headers: getSecurityHeaders() }
+            );
+        }
+
+        const body = await request.json();
+        const result = payoutSchema.safeParse(body);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { currency, pin, templateId } = result.data;
+
+        // Verify Payment PIN
+        if (!user.paymentPin) {
+            return NextResponse.json(
+                { error: 'Payment PIN not set. Please set it in settings.' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const isPinValid = await bcrypt.compare(pin, user.paymentPin);
+        if (!isPinValid) {
+            return NextResponse.json(
+                { error: 'Invalid PIN' },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { rows, error } = await resolvePayoutRows(user.merchantProfile.id, result.data);
+
+        if (!rows) {
+            return NextResponse.json(
+                { error },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const validation = await validatePayoutRows(user.id, rows, currency);
+
+        if (validation.invalidCount > 0) {
+            return NextResponse.json(
+                { error: `يوجد ${validation.invalidCount} صف غير صالح - يرجى تصحيحها أولاً`, rows: validation.rows },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const businessWallet = user.wallets.find(w => w.currency === currency && w.walletType === 'BUSINESS');
+
+        if (!businessWallet) {
+            return NextResponse.json(
+                { error: `Business wallet not found for ${currency}` },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const grandTotal = Money.of(validation.totalAmount, currency).add(Money.of(validation.totalFee, currency));
+        if (businessWallet.balance.lessThan(grandTotal.toDecimal())) {
+            return NextResponse.json(
+                { error: 'Insufficient balance in business wallet' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        // Checked once for the whole batch - a batch can't be held, so a flagged one is refused
+        const risk = await assessTransactionRisk(request, {
+            userId: user.id,
+            amount: validation.totalAmount,
+            type: 'MERCHANT_TRANSFER',
+            currency,
+            holdable: false,
+        });
+
+        if (!risk.allowed) {
+            return NextResponse.json(
+                { error: risk.error },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const batch = await executePayoutBatch({
+            merchantUserId: user.id,
+            merchantProfileId: user.merchantProfile.id,
+            businessName: user.merchantProfile.businessNameAr || user.merchantProfile.businessName,
+            businessWalletId: businessWallet.id,
+            currency,
+            validation,
+            templateId,
+        });
+
+        await prisma.auditLog.create({
+            data: {
+                userId: user.id,
+                action: 'PAYOUT_BATCH_EXECUTED',
+                entity: 'PayoutBatch',
+                entityId: batch.id,
+                newValue: JSON.stringify({
+                    currency,
+                    rowCount: batch.rowCount,
+                    successCount: batch.successCount,
+                    failedCount: batch.failedCount,
+                    totalAmount: batch.totalAmount,
+                    totalFee: batch.totalFee,
+                }),
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            { success: true, batch },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Bulk payout error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
+
+// GET - Recent payout batches
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const merchantProfile = await prisma.merchantProfile.findUnique({
+            where: { userId: auth.user.id },
+        });
+
+        if (!merchantProfile) {
+            return NextResponse.json(
+                { error: 'Merchant account required' },
+                { status: 403, headers: getSecurityHeaders() }
+            );
+        }
+
+        const batches = await prisma.payoutBatch.findMany({
+            where: { merchantId: merchantProfile.id },
+            orderBy: { createdAt: 'desc' },
+            take: 20,
+        });
+
+        return NextResponse.json(
+            { batches },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Get payout batches error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
+
+// DELETE - Remove a payroll template
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { id } = await params;
+
+        const merchantProfile = await prisma.merchantProfile.findUnique({
+            where: { userId: auth.user.id },
+        });
+
+        const deleted = merchantProfile
+            ? await prisma.payrollTemplate.deleteMany({ where: { id, merchantId: merchantProfile.id } })
+            : { count: 0 };
+
+        if (deleted.count === 0) {
+            return NextResponse.json(
+                { error: 'Template not found' },
+                { status: 404, headers: getSecurityHeaders() }
+            );
+        }
+
+        return NextResponse.json(
+            { success: true },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Delete payroll template error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
+import { MAX_PAYOUT_ROWS, parsePayoutCSV } from '@/lib/merchant/payouts';
+import { fitsMinorUnits } from '@/lib/financial/money';
+import { z } from 'zod';
+
+const templateSchema = z.object({
+    name: z.string().min(1, 'Name is required').max(100),
+    currency: z.enum(['USD', 'SYP']).default('USD'),
+    csv: z.string().max(200000).optional(),
+    rows: z.array(z.object({
+        phone: z.string(),
+        amount: z.number().refine((amount) => fitsMinorUnits(amount), 'Amount cannot have more than 2 decimal places'),
+        note: z.string().optional(),
+    })).max(MAX_PAYOUT_ROWS).optional(),
+});
+
+// GET - Saved payroll templates
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const merchantProfile = await prisma.merchantProfile.findUnique({
+            where: { userId: auth.user.id },
+        });
+
+        if (!merchantProfile) {
+            return NextResponse.json(
+                { error: 'Merchant account required' },
+                { status: 403, headers: getSecurityHeaders() }
+            );
+        }
+
+        const templates = await prisma.payrollTemplate.findMany({
+            where: { merchantId: merchantProfile.id },
+            orderBy: { updatedAt: 'desc' },
+        });
+
+        return NextResponse.json(
+            {
+                templates: templates.map(t => ({
+                    id: t.id,
+                    name: t.name,
+                    currency: t.currency,
+                    rows: JSON.parse(t.rows),
+                    updatedAt: t.updatedAt,
+                })),
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Get payroll templates error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
+
+// POST - Save the current rows as a payroll template
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const merchantProfile = await prisma.merchantProfile.findUnique({
+            where: { userId: auth.user.id },
+        });
+
+        if (!merchantProfile) {
+            return NextResponse.json(
+                { error: 'Merchant account required' },
+                { status: 403, headers: getSecurityHeaders() }
+            );
+        }
+
+        const body = await request.json();
+        const result = templateSchema.safeParse(body);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { name, currency, csv } = result.data;
+        const rows = csv ? parsePayoutCSV(csv) : result.data.rows || [];
+
+        if (rows.length === 0 || rows.length > MAX_PAYOUT_ROWS) {
+            return NextResponse.json(
+                { error: 'لا توجد صفوف في الدفعة' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const template = await prisma.payrollTemplate.create({
+            data: {
+                merchantId: merchantProfile.id,
+                name,
+                currency,
+                rows: JSON.stringify(rows),
+            },
+        });
+
+        return NextResponse.json(
+            { success: true, template: { id: template.id, name: template.name } },
+            { status: 201, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Create payroll template error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
+import { resolvePayoutRows, validatePayoutRows } from '@/lib/merchant/payouts';
+import { Money, fitsMinorUnits } from '@/lib/financial/money';
+import { z } from 'zod';
+
+const validateSchema = z.object({
+    currency: z.enum(['USD', 'SYP']).default('USD'),
+    csv: z.string().max(200000).optional(),
+    rows: z.array(z.object({
+        phone: z.string(),
+        amount: z.number().refine((amount) => fitsMinorUnits(amount), 'Amount cannot have more than 2 decimal places'),
+        note: z.string().optional(),
+    })).optional(),
+    templateId: z.string().optional(),
+});
+
+/**
+ * Validate a bulk payout before the merchant authorizes it
+ * Returns per-row status, fees from calculateCommission and the batch total
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { id: auth.user.id },
+            include: { merchantProfile: true, wallets: true },
+        });
+
+        if (!user || !user.hasMerchantAccount || !user.merchantProfile) {
+            return NextResponse.json(
+                { error: 'Merchant account required' },
+                { status: 403, headers: getSecurityHeaders() }
+            );
+        }
+
+        const body = await request.json();
+        const result = validateSchema.safeParse(body);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { currency } = result.data;
+        const { rows, error } = await resolvePayoutRows(user.merchantProfile.id, result.data);
+
+        if (!rows) {
+            return NextResponse.json(
+                { error },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const validation = await validatePayoutRows(user.id, rows, currency);
+
+        const businessWallet = user.wallets.find(w => w.currency === currency && w.walletType === 'BUSINESS');
+        const balance = Money.of(businessWallet?.balance || 0, currency);
+        const grandTotal = Money.of(validation.totalAmount, currency).add(Money.of(validation.totalFee, currency));
+
+        return NextResponse.json(
+            {
+                ...validation,
+                currency,
+                grandTotal: grandTotal.toNumber(),
+                balance: balance.toNumber(),
+                hasSufficientBalance: !balance.lessThan(grandTotal),
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Validate payout error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders, validateAmount } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
+import { checkRateLimit, getClientIp, rateLimitExceededResponse } from '@/lib/rate-limit/limiter';
+import { processMerchantRefund } from '@/lib/merchant/refund';
+import { fitsMinorUnits } from '@/lib/financial/money';
+import { z } from 'zod';
+import bcrypt from 'bcryptjs';
+
+const refundSchema = z.object({
+    amount: z.number().positive('Amount must be positive').refine((amount) => fitsMinorUnits(amount), 'Amount cannot have more than 2 decimal places'),
+    reason: z.string().max(200).optional(),
+    pin: z.string().length(4, 'PIN must be 4 digits'),
+});
+
+/**
+ * Refund (fully or partially) a QR payment received by the merchant
+ * Uses Payment PIN for verification
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const userId = auth.user.id;
+
+        // Every attempt counts - the PIN is only 4 digits
+        const rateLimit = await checkRateLimit('MERCHANT_REFUND', { user: userId, ip: getClientIp(request) });
+        if (!rateLimit.allowed) {
+            return rateLimitExceededResponse(rateLimit);
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { userType: true, hasMerchantAccount: true, paymentPin: true },
+        });
+
+        if (!user || (user.userType !== 'MERCHANT' && !user.hasMerchantAccount)) {
+            return NextResponse.json(
+                { error: 'Merchant account required' },
+                { status: 403, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { id } = await params;
+        const body = await request.json();
+        const result = refundSchema.safeParse(body);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { amount, reason, pin } = result.data;
+
+        // Verify Payment PIN
+        if (!user.paymentPin) {
+            return NextResponse.json(
+                { error: 'Payment PIN not set. Please set it in settings.' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const isPinValid = await bcrypt.compare(pin, user.paymentPin);
+        if (!isPinValid) {
+            return NextResponse.json(
+                { error: 'Invalid PIN' },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        if (!validateAmount(amount)) {
+            return NextResponse.json(
+                { error: 'Invalid amount' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const refundResult = await processMerchantRefund({
+            transactionId: id,
+            merchantUserId: userId,
+            amount,
+            reason,
+        });
+
+        if (!refundResult.success) {
+            return NextResponse.json(
+                { error: refundResult.error },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        // Audit log
+        await prisma.auditLog.create({
+            data: {
+                userId,
+                action: 'MERCHANT_REFUND',
+                entity: 'Transaction',
+                entityId: refundResult.transactionId,
+                newValue: JSON.stringify({
+                    originalTransactionId: id,
+                    amount,
+                    reason,
+                    referenceNumber: refundResult.referenceNumber,
+                }),
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+                userAgent: request.headers.get('user-agent') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            {
+                success: true,
+                transactionId: refundResult.transactionId,
+                referenceNumber: refundResult.referenceNumber,
+                refundedAmount: refundResult.refundedAmount,
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Merchant refund error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
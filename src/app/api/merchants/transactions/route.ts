@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
+import { getRefundableAmount } from '@/lib/merchant/refund';
+
+const PAGE_SIZE = 20;
+
+// GET - QR payments received by the merchant, with refund status
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { id: auth.user.id },
+            select: { userType: true, hasMerchantAccount: true },
+        });
+
+        if (!user || (user.userType !== 'MERCHANT' && !user.hasMerchantAccount)) {
+            return NextResponse.json(
+                { error: 'Merchant account required' },
+                { status: 403, headers: getSecurityHeaders() }
+            );
+        }
+
+        const page = Math.max(1, parseInt(request.nextUrl.searchParams.get('page') || '1'));
+
+        const where = { receiverId: auth.user.id, type: 'QR_PAYMENT' };
+
+        const [transactions, total] = await Promise.all([
+            prisma.transaction.findMany({
+                where,
+                orderBy: { createdAt: 'desc' },
+                skip: (page - 1) * PAGE_SIZE,
+                take: PAGE_SIZE,
+                include: {
+                    sender: { select: { fullName: true, fullNameAr: true, phone: true } },
+                },
+            }),
+            prisma.transaction.count({ where }),
+        ]);
+
+        return NextResponse.json(
+            {
+                transactions: transactions.map(tx => ({
+                    id: tx.id,
+                    referenceNumber: tx.referenceNumber,
+                    amount: tx.amount,
+                    currency: tx.currency,
+                    status: tx.status,
+                    createdAt: tx.createdAt,
+                    senderName: tx.sender?.fullNameAr || tx.sender?.fullName,
+                    senderPhone: tx.sender?.phone,
+                    refundedAmount: tx.refundedAmount,
+                    refundableAmount: tx.status === 'COMPLETED' ? getRefundableAmount(tx) : 0,
+                })),
+                pagination: {
+                    page,
+                    pageSize: PAGE_SIZE,
+                    total,
+                    totalPages: Math.ceil(total / PAGE_SIZE),
+                },
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Merchant transactions error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -4,12 +4,16 @@ import { getSecurityHeaders, validateAmount, sanitizePhoneNumber, generateRefere
 import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
 import { processTransfer } from '@/lib/ledger/ledger';
 import { sendPushNotification } from '@/lib/firebase/admin';
+import { assessTransactionRisk } from '@/lib/financial/risk-hook';
+import { notifyTransactionHeld, HELD_MESSAGE } from '@/lib/financial/held-funds';
+import { postTransaction, walletParty } from '@/lib/financial/posting-engine';
+import { fitsMinorUnits } from '@/lib/financial/money';
 import { z } from 'zod';
 import bcrypt from 'bcryptjs';
 
 const transferSchema = z.object({
     recipientPhone: z.string().min(9, 'Invalid phone number'),
-    amount: z.number().positive('Amount must be positive'),
+    amount: z.number().positive('Amount must be positive').refine((amount) => fitsMinorUnits(amount), 'Amount cannot have more than 2 decimal places'),
     pin: z.string().length(4, 'PIN must be 4 digits'),
     note: z.string().max(200).optional(),
     currency: z.enum(['USD', 'SYP']).default('USD'),
@@ -122,7 +126,7 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        if (businessWallet.balance < amount) {
+        if (businessWallet.balance.lessThan(amount)) {
             return NextResponse.json(
                 { error: 'Insufficient balance in business wallet' },
                 { status: 400, headers: getSecurityHeaders() }
@@ -141,20 +145,22 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Process transfer from business wallet to recipient's personal wallet
-        const transaction = await prisma.$transaction(async (tx) => {
-            // Deduct from business wallet
-            await tx.wallet.update({
-                where: { id: businessWallet.id },
-                data: { balance: { decrement: amount } },
-            });
+        const risk = await assessTransactionRisk(request, {
+            userId,
+            amount,
+            type: 'MERCHANT_TRANSFER',
+            currency,
+        });
 
-            // Add to recipient's personal wallet
-            await tx.wallet.update({
-                where: { id: recipientWallet.id },
-                data: { balance: { increment: amount } },
-            });
+        if (!risk.allowed) {
+            return NextResponse.json(
+                { error: risk.error },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
 
+        // Process transfer from business wallet to recipient's personal wallet
+        const transaction = await prisma.$transaction(async (tx) => {
             // Create transaction record
             const referenceNumber = generateReferenceNumber('MTF');
             const txn = await tx.transaction.create({
@@ -165,7 +171,7 @@ export async function POST(request: NextRequest) {
                     netAmount: amount,
                     referenceNumber,
                     type: 'MERCHANT_TRANSFER',
-                    status: 'COMPLETED',
+                    status: risk.hold ? 'PROCESSING' : 'COMPLETED',
                     currency, // Include currency in transaction
                     description: note || `تحويل من ${user.merchantProfile?.businessName || 'حساب بزنس'}`,
                     metadata: JSON.stringify({
@@ -176,25 +182,38 @@ export async function POST(request: NextRequest) {
                 },
             });
 
-            // Create Double-Entry Ledger Entry
-            const { createLedgerEntry, INTERNAL_ACCOUNTS } = await import('@/lib/financial/core-ledger');
-            await createLedgerEntry({
+            // Business wallet -> recipient's personal wallet; a held transfer waits in SUSPENSE
+            await postTransaction(tx, {
+                type: 'TRANSFER',
+                currency,
+                referenceNumber,
                 description: `Merchant Transfer: ${referenceNumber}`,
                 descriptionAr: `تحويل تاجر: ${referenceNumber}`,
                 transactionId: txn.id,
                 createdBy: userId,
-                currency, // Pass currency for correct balance field
-                lines: [
-                    // Debit Merchant Ledger (Business wallet decreases)
-                    { accountCode: INTERNAL_ACCOUNTS.MERCHANTS_LEDGER, debit: amount, credit: 0 },
-                    // Credit User Ledger (Recipient receives)
-                    { accountCode: INTERNAL_ACCOUNTS.USERS_LEDGER, debit: 0, credit: amount },
-                ],
+                payer: walletParty(businessWallet.id),
+                payee: walletParty(recipientWallet.id),
+                gross: amount,
+                hold: risk.hold
+                    ? { riskAlertId: risk.riskAlertId, reason: risk.reason || 'Held by risk checks', reasonAr: risk.reasonAr }
+                    : undefined,
             });
 
             return txn;
         });
 
+        // Held for risk review - the recipient hears about it only once it's released
+        if (risk.hold) {
+            await notifyTransactionHeld(userId, transaction.id, transaction.referenceNumber);
+
+            return NextResponse.json({
+                success: true,
+                held: true,
+                transactionId: transaction.id,
+                message: HELD_MESSAGE,
+            });
+        }
+
         // Format amount with currency
         const symbol = currency === 'SYP' ? 'ل.س' : '$';
         const formattedAmount = currency === 'SYP'
@@ -245,7 +264,14 @@ export async function POST(request: NextRequest) {
             transactionId: transaction.id,
             newBalance: updatedWallet?.balance || 0,
         });
-    } catch (error) {
+    } catch (error: any) {
+        if (error?.message === 'INSUFFICIENT_BALANCE') {
+            return NextResponse.json(
+                { error: 'Insufficient balance in business wallet' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
         console.error('Merchant transfer error:', error);
         return NextResponse.json(
             { error: 'Internal server error' },
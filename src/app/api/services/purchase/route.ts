@@ -1,13 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
 import { verifyAccessToken, getSecurityHeaders, generateReferenceNumber } from '@/lib/auth/security';
+import { assessTransactionRisk } from '@/lib/financial/risk-hook';
+import { INTERNAL_ACCOUNTS } from '@/lib/financial/core-ledger';
+import { postTransaction, walletParty, accountParty, SUSPENSE_PARTY, POSTING_ERRORS } from '@/lib/financial/posting-engine';
 import { cookies } from 'next/headers';
+import { fitsMinorUnits } from '@/lib/financial/money';
 import { z } from 'zod';
 
 const purchaseSchema = z.object({
     serviceId: z.string(),
     phoneNumber: z.string().min(9, 'رقم الهاتف مطلوب'),
-    amount: z.number().positive().optional(),
+    amount: z.number().positive().refine((amount) => fitsMinorUnits(amount), 'Amount cannot have more than 2 decimal places').optional(),
     userInput: z.string().optional(),
     currency: z.enum(['USD', 'SYP']).default('USD'),
 });
@@ -88,7 +92,7 @@ export async function POST(request: NextRequest) {
         }
 
         // Check balance
-        if (wallet.balance < totalDeducted) {
+        if (wallet.balance.lessThan(totalDeducted)) {
             const symbol = currency === 'USD' ? '$' : 'ل.س';
             return NextResponse.json(
                 { error: `رصيد غير كافي. المطلوب: ${totalDeducted.toFixed(2)} ${symbol}` },
@@ -96,6 +100,22 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Top-ups are delivered straight away, so a flagged purchase is refused rather than held
+        const risk = await assessTransactionRisk(request, {
+            userId: payload.userId,
+            amount,
+            type: 'SERVICE_PURCHASE',
+            currency,
+            holdable: false,
+        });
+
+        if (!risk.allowed) {
+            return NextResponse.json(
+                { error: risk.error },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
         const referenceNumber = generateReferenceNumber('SVC');
 
         // Determine if this needs seller approval
@@ -103,19 +123,7 @@ export async function POST(request: NextRequest) {
 
         // Create purchase and deduct balance in transaction
         const purchase = await prisma.$transaction(async (tx) => {
-            // 1. Get Seller Wallet (if exists) - Use service currency
-            let sellerWallet = null;
-            if (service.sellerId) {
-                sellerWallet = await tx.wallet.findFirst({
-                    where: {
-                        userId: service.sellerId,
-                        walletType: 'PERSONAL',
-                        currency: currency // ✅ Use service currency
-                    },
-                });
-            }
-
-            // 2. Create Main Transaction Record
+            // 1. Create Main Transaction Record
             const transaction = await tx.transaction.create({
                 data: {
                     referenceNumber,
@@ -135,37 +143,23 @@ export async function POST(request: NextRequest) {
                 },
             });
 
-            // 3. Update User Wallet (Always Decrement Gross Amount)
-            await tx.wallet.update({
-                where: { id: wallet.id },
-                data: { balance: { decrement: totalDeducted } },
+            // 2. Debit the user wallet (gross). An order waits in SUSPENSE until the seller
+            // completes or rejects it (lib/merchant/service-orders); a system service is platform revenue
+            await postTransaction(tx, {
+                type: 'SERVICE_PURCHASE',
+                currency,
+                referenceNumber,
+                description: `Service Purchase: ${service.name}`,
+                descriptionAr: `شراء خدمة: ${service.nameAr || service.name}`,
+                transactionId: transaction.id,
+                createdBy: payload.userId,
+                payer: walletParty(wallet.id),
+                payee: needsApproval ? SUSPENSE_PARTY : accountParty(INTERNAL_ACCOUNTS.FEES),
+                gross: totalDeducted,
+                fee: needsApproval ? 0 : commission.totalFee,
             });
 
-            // 4. Update Seller Wallet (Increment Net Amount) if COMPLETED
-            // If it needs approval, we don't credit yet? Or do we hold it?
-            // Usually for services, if it's pending approval, we might hold funds. 
-            // BUT for now, let's assume if it triggers a transaction, money moves.
-            // If needsApproval is true, maybe we put it in SUSPENSE?
-            // The prompt "Record... in Ledger" implies completed ops mainly, but pending ones are tricky.
-            // The current logic set status to PENDING.
-            // Let's assume Immediate Deduction (Held) -> Approval -> Release.
-            // But to simplify matching "Only do these two things", I will stick to the active logic:
-            // The original code deducted immediately. It just didn't credit anyone.
-            // I will credit the seller if NOT pending, or if pending, maybe hold it?
-            // "needsApproval" flow usually implies the seller has to accept FIRST. 
-            // But the generic logic here seems to treat it as "Order placed, money taken".
-            // Let's credit the seller ONLY if !needsApproval. If needsApproval, existing logic just deducted (so money vanished?).
-            // I will fix the vanish: If needsApproval, money goes to SUSPENSE (System managed).
-            // However, to keep it simple and safe:
-
-            if (!needsApproval && sellerWallet) {
-                await tx.wallet.update({
-                    where: { id: sellerWallet.id },
-                    data: { balance: { increment: commission.netAmount } },
-                });
-            }
-
-            // 5. Create ServicePurchase
+            // 3. Create ServicePurchase
             const newPurchase = await tx.servicePurchase.create({
                 data: {
                     serviceId: service.id,
@@ -185,43 +179,6 @@ export async function POST(request: NextRequest) {
                 },
             });
 
-            // 6. Create Ledger Entry (Only if COMPLETED)
-            // If PENDING, we might do a "Hold" entry, but let's stick to completed for the full immutable ledger for now.
-            // Or use SUSPENSE for pending.
-
-            if (!needsApproval) {
-                const { createLedgerEntry, INTERNAL_ACCOUNTS } = await import('@/lib/financial/core-ledger');
-
-                await createLedgerEntry({
-                    description: `Service Purchase: ${service.name}`,
-                    descriptionAr: `شراء خدمة: ${service.nameAr || service.name}`,
-                    transactionId: transaction.id,
-                    createdBy: payload.userId,
-                    currency, // Pass currency for correct balance field
-                    lines: [
-                        // Debit User (Asset/Liability decrease depending on view, but here User Wallet is Liability from Bank perspective)
-                        // Actually, User Wallet = Liability. Debit Liability = Decrease Balance. Correct.
-                        {
-                            accountCode: INTERNAL_ACCOUNTS.USERS_LEDGER,
-                            debit: amount,
-                            credit: 0
-                        },
-                        // Credit Merchant (Liability Increase)
-                        {
-                            accountCode: INTERNAL_ACCOUNTS.MERCHANTS_LEDGER,
-                            debit: 0,
-                            credit: commission.netAmount
-                        },
-                        // Credit Fees (Revenue)
-                        {
-                            accountCode: INTERNAL_ACCOUNTS.FEES,
-                            debit: 0,
-                            credit: commission.totalFee
-                        }
-                    ]
-                });
-            }
-
             return newPurchase;
         });
 
@@ -290,7 +247,14 @@ export async function POST(request: NextRequest) {
             },
             { status: 200, headers: getSecurityHeaders() }
         );
-    } catch (error) {
+    } catch (error: any) {
+        if (error?.message === 'INSUFFICIENT_BALANCE') {
+            return NextResponse.json(
+                { error: POSTING_ERRORS.INSUFFICIENT_BALANCE },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
         if (error instanceof z.ZodError) {
             return NextResponse.json(
                 { error: 'Invalid data', details: error.errors },
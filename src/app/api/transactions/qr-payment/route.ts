@@ -4,12 +4,19 @@ import { getSecurityHeaders, validateAmount, generateReferenceNumber } from '@/l
 import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
 import { sendPushNotification } from '@/lib/firebase/admin';
 import { getUserWallet, getOrCreateWallet, formatCurrency, type Currency } from '@/lib/wallet/currency';
+import { resolveDynamicQR } from '@/lib/merchant/dynamic-qr';
+import { touchBeneficiary } from '@/lib/transfer/beneficiaries';
+import { assessTransactionRisk, dismissRiskAlerts } from '@/lib/financial/risk-hook';
+import { notifyTransactionHeld, HELD_MESSAGE } from '@/lib/financial/held-funds';
+import { postTransaction, walletParty } from '@/lib/financial/posting-engine';
+import { Money, fitsMinorUnits } from '@/lib/financial/money';
 import { z } from 'zod';
 
 const qrPaymentSchema = z.object({
     merchantCode: z.string().min(3, 'Invalid merchant code'),
-    amount: z.number().positive('Amount must be positive'),
+    amount: z.number().positive('Amount must be positive').refine((amount) => fitsMinorUnits(amount), 'Amount cannot have more than 2 decimal places'),
     currency: z.enum(['USD', 'SYP']).default('USD'),
+    qrData: z.string().optional(), // Signed dynamic QR (per-sale amount)
 });
 
 export async function POST(request: NextRequest) {
@@ -36,7 +43,7 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const { merchantCode, amount, currency } = result.data;
+        const { merchantCode, amount, currency, qrData } = result.data;
 
         if (!validateAmount(amount)) {
             return NextResponse.json(
@@ -60,6 +67,32 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Dynamic QR: amount and currency are fixed by the merchant's signed code
+        let dynamicQR: Awaited<ReturnType<typeof resolveDynamicQR>>['dynamicQR'];
+        if (qrData) {
+            const resolved = await resolveDynamicQR(qrData);
+
+            if (!resolved.dynamicQR) {
+                return NextResponse.json(
+                    { error: resolved.error },
+                    { status: 400, headers: getSecurityHeaders() }
+                );
+            }
+
+            if (
+                resolved.dynamicQR.merchantId !== merchantProfile.id ||
+                !resolved.dynamicQR.amount.equals(amount) ||
+                resolved.dynamicQR.currency !== currency
+            ) {
+                return NextResponse.json(
+                    { error: 'بيانات الدفع لا تطابق رمز QR' },
+                    { status: 400, headers: getSecurityHeaders() }
+                );
+            }
+
+            dynamicQR = resolved.dynamicQR;
+        }
+
         // Get sender's wallet for the selected currency
         const senderWallet = await getUserWallet(payload.userId, currency as Currency, 'PERSONAL');
 
@@ -75,7 +108,8 @@ export async function POST(request: NextRequest) {
         const { calculateCommission } = await import('@/lib/ledger/ledger');
         const { platformFee, totalFee } = await calculateCommission(amount, 'QR_PAYMENT', currency as 'USD' | 'SYP');
 
-        const requiredAmount = amount + totalFee;
+        // Amount + fees, exact in minor units
+        const requiredAmount = Money.of(amount, currency as 'USD' | 'SYP').add(Money.of(totalFee, currency as 'USD' | 'SYP'));
 
         // Get or create merchant's business wallet for this currency
         let merchantWallet = await getUserWallet(merchantProfile.userId, currency as Currency, 'BUSINESS');
@@ -84,50 +118,57 @@ export async function POST(request: NextRequest) {
             merchantWallet = await getOrCreateWallet(merchantProfile.userId, currency as Currency, 'BUSINESS');
         }
 
+        // Payer limits plus the merchant's daily/monthly payment limits
+        const risk = await assessTransactionRisk(request, {
+            userId: payload.userId,
+            amount,
+            type: 'QR_PAYMENT',
+            currency: currency as 'USD' | 'SYP',
+            counterpartyId: merchantProfile.userId,
+        });
+
+        if (!risk.allowed) {
+            return NextResponse.json(
+                { error: risk.error },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
         // Process payment
         const referenceNumber = generateReferenceNumber('QRP');
 
         const transaction = await prisma.$transaction(async (tx) => {
-            // ═══════════════════════════════════════════════════════════════
-            // ATOMIC BALANCE CHECK - Prevents Race Condition
-            // Uses updateMany with gte to atomically verify and deduct
-            // ═══════════════════════════════════════════════════════════════
-            const senderUpdate = await tx.wallet.updateMany({
-                where: {
-                    id: senderWallet.id,
-                    balance: { gte: requiredAmount } // Only update if balance is sufficient
-                },
-                data: { balance: { decrement: requiredAmount } },
-            });
+            // Claim the dynamic QR first so it can only be paid once
+            if (dynamicQR) {
+                const claimed = await tx.merchantDynamicQR.updateMany({
+                    where: { id: dynamicQR.id, status: 'PENDING', expiresAt: { gt: new Date() } },
+                    data: { status: 'PAID', paidBy: payload.userId, paidAt: new Date() },
+                });
 
-            // If no rows updated, balance was insufficient
-            if (senderUpdate.count === 0) {
-                throw new Error('INSUFFICIENT_BALANCE');
+                if (claimed.count === 0) {
+                    throw new Error('DYNAMIC_QR_UNAVAILABLE');
+                }
             }
 
-            // Add to merchant's business wallet
-            await tx.wallet.update({
-                where: { id: merchantWallet!.id },
-                data: { balance: { increment: amount } },
-            });
-
-            // Update merchant stats based on currency
-            if (currency === 'SYP') {
-                await tx.merchantProfile.update({
-                    where: { id: merchantProfile.id },
-                    data: {
-                        totalSalesSYP: { increment: amount },
-                        totalTransactionsSYP: { increment: 1 },
-                    },
-                });
-            } else {
-                await tx.merchantProfile.update({
-                    where: { id: merchantProfile.id },
-                    data: {
-                        totalSales: { increment: amount },
-                        totalTransactions: { increment: 1 },
-                    },
-                });
+            // Update merchant stats based on currency (a held payment is counted on release)
+            if (!risk.hold) {
+                if (currency === 'SYP') {
+                    await tx.merchantProfile.update({
+                        where: { id: merchantProfile.id },
+                        data: {
+                            totalSalesSYP: { increment: amount },
+                            totalTransactionsSYP: { increment: 1 },
+                        },
+                    });
+                } else {
+                    await tx.merchantProfile.update({
+                        where: { id: merchantProfile.id },
+                        data: {
+                            totalSales: { increment: amount },
+                            totalTransactions: { increment: 1 },
+                        },
+                    });
+                }
             }
 
             // Create transaction record
@@ -135,7 +176,7 @@ export async function POST(request: NextRequest) {
                 data: {
                     referenceNumber,
                     type: 'QR_PAYMENT',
-                    status: 'COMPLETED',
+                    status: risk.hold ? 'PROCESSING' : 'COMPLETED',
                     senderId: payload.userId,
                     receiverId: merchantProfile.userId,
                     amount,
@@ -146,32 +187,73 @@ export async function POST(request: NextRequest) {
                     currency, // USD or SYP
                     description: `Payment to ${merchantProfile.businessName}`,
                     descriptionAr: `دفع إلى ${merchantProfile.businessNameAr || merchantProfile.businessName}`,
-                    completedAt: new Date(),
+                    metadata: dynamicQR
+                        ? JSON.stringify({ dynamicQRId: dynamicQR.id, orderReference: dynamicQR.orderReference })
+                        : undefined,
+                    completedAt: risk.hold ? undefined : new Date(),
                 },
             });
 
-            // Create Double-Entry Ledger Entry with tx context for proper rollback
-            const { createLedgerEntry, INTERNAL_ACCOUNTS } = await import('@/lib/financial/core-ledger');
-            await createLedgerEntry({
-                description: `QR Payment: ${referenceNumber}`,
-                descriptionAr: `دفع QR: ${referenceNumber}`,
+            if (dynamicQR) {
+                await tx.merchantDynamicQR.update({
+                    where: { id: dynamicQR.id },
+                    data: { transactionId: newTransaction.id },
+                });
+            }
+
+            // Payer -> merchant's business wallet (+ fees); a held payment waits in SUSPENSE
+            // The payer debit is the atomic balance check (throws INSUFFICIENT_BALANCE)
+            await postTransaction(tx, {
+                type: 'QR_PAYMENT',
+                currency: currency as 'USD' | 'SYP',
+                referenceNumber,
                 transactionId: newTransaction.id,
                 createdBy: payload.userId,
-                currency, // Pass currency for correct balance field
-                tx, // Pass transaction context for atomic rollback
-                lines: [
-                    // Debit User Ledger (User pays)
-                    { accountCode: INTERNAL_ACCOUNTS.USERS_LEDGER, debit: amount + totalFee, credit: 0 },
-                    // Credit Merchant Ledger (Merchant receives)
-                    { accountCode: INTERNAL_ACCOUNTS.MERCHANTS_LEDGER, debit: 0, credit: amount },
-                    // Credit Fees
-                    { accountCode: INTERNAL_ACCOUNTS.FEES, debit: 0, credit: totalFee },
-                ],
+                payer: walletParty(senderWallet.id),
+                payee: walletParty(merchantWallet!.id),
+                gross: requiredAmount.toDecimal(),
+                fee: totalFee,
+                hold: risk.hold
+                    ? { riskAlertId: risk.riskAlertId, reason: risk.reason || 'Held by risk checks', reasonAr: risk.reasonAr }
+                    : undefined,
             });
 
             return newTransaction;
+        }).catch(async (error) => {
+            // Nothing was paid - don't leave the alerts without a transaction
+            await dismissRiskAlerts(risk.riskAlertIds, error instanceof Error ? error.message : 'UNKNOWN');
+            throw error;
         });
 
+        // Held for risk review - the merchant hears about it only once it's released
+        if (risk.hold) {
+            await notifyTransactionHeld(payload.userId, transaction.id, referenceNumber);
+
+            await prisma.auditLog.create({
+                data: {
+                    userId: payload.userId,
+                    action: 'QR_PAYMENT_HELD',
+                    entity: 'Transaction',
+                    entityId: transaction.id,
+                    newValue: JSON.stringify({ amount, currency, merchantCode, referenceNumber, riskAlertId: risk.riskAlertId }),
+                    ipAddress: request.headers.get('x-forwarded-for') || undefined,
+                    userAgent: request.headers.get('user-agent') || undefined,
+                },
+            });
+
+            return NextResponse.json(
+                {
+                    success: true,
+                    held: true,
+                    transactionId: transaction.id,
+                    referenceNumber,
+                    currency,
+                    message: HELD_MESSAGE,
+                },
+                { status: 200, headers: getSecurityHeaders() }
+            );
+        }
+
         // Get sender info for notifications
         const sender = await prisma.user.findUnique({
             where: { id: payload.userId },
@@ -219,6 +301,8 @@ export async function POST(request: NextRequest) {
             ).catch(err => console.error('Push merchant error:', err));
         }
 
+        await touchBeneficiary(payload.userId, { merchantCode });
+
         // Audit log for QR payment
         await prisma.auditLog.create({
             data: {
@@ -232,6 +316,8 @@ export async function POST(request: NextRequest) {
                     merchantCode,
                     merchantName: merchantProfile.businessName,
                     referenceNumber,
+                    dynamicQRId: dynamicQR?.id,
+                    orderReference: dynamicQR?.orderReference,
                 }),
                 ipAddress: request.headers.get('x-forwarded-for') || undefined,
                 userAgent: request.headers.get('user-agent') || undefined,
@@ -258,6 +344,13 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        if (error?.message === 'DYNAMIC_QR_UNAVAILABLE') {
+            return NextResponse.json(
+                { error: 'رمز الدفع منتهي الصلاحية أو مدفوع مسبقاً' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
         return NextResponse.json(
             { error: 'Internal server error' },
             { status: 500, headers: getSecurityHeaders() }
@@ -4,7 +4,10 @@ import { getSecurityHeaders } from '@/lib/auth/security';
 import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
 import { verifyOTP, isOTPExpired } from '@/lib/otp/generator';
 import { processTransfer } from '@/lib/ledger/ledger';
+import { claimPaymentRequest, releasePaymentRequest, completePaymentRequest, holdPaymentRequest } from '@/lib/transfer/payment-requests';
+import { touchBeneficiary } from '@/lib/transfer/beneficiaries';
 import { sendPushNotification } from '@/lib/firebase/admin';
+import { notifyTransactionHeld, HELD_MESSAGE } from '@/lib/financial/held-funds';
 import { z } from 'zod';
 
 const confirmSchema = z.object({
@@ -106,17 +109,38 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Paying a request: claim it first so it can only be paid once
+        if (otpRecord.paymentRequestId) {
+            const claimed = await claimPaymentRequest(otpRecord.paymentRequestId, payload.userId);
+            if (!claimed) {
+                return NextResponse.json(
+                    { error: 'طلب الدفع لم يعد متاحاً' },
+                    { status: 400, headers: getSecurityHeaders() }
+                );
+            }
+        }
+
         // OTP is valid - Process the transfer with the stored currency
         const currency = (otpRecord.currency || 'USD') as 'USD' | 'SYP';
         const transferResult = await processTransfer(
             payload.userId,
             otpRecord.recipientId,
-            otpRecord.amount,
+            otpRecord.amount.toNumber(),
             otpRecord.note ?? undefined,
-            currency
+            currency,
+            otpRecord.riskHold
+                ? {
+                    riskAlertId: otpRecord.riskAlertId ?? undefined,
+                    reason: otpRecord.riskReason || 'Held by risk checks',
+                    reasonAr: otpRecord.riskReasonAr ?? undefined,
+                }
+                : undefined
         );
 
         if (!transferResult.success) {
+            if (otpRecord.paymentRequestId) {
+                await releasePaymentRequest(otpRecord.paymentRequestId);
+            }
             return NextResponse.json(
                 { error: transferResult.error },
                 { status: 400, headers: getSecurityHeaders() }
@@ -129,16 +153,57 @@ export async function POST(request: NextRequest) {
             data: { isUsed: true },
         });
 
+        // A held payment only settles the request once the funds are released
+        if (otpRecord.paymentRequestId) {
+            if (transferResult.held) {
+                await holdPaymentRequest(otpRecord.paymentRequestId, transferResult.transactionId || '');
+            } else {
+                await completePaymentRequest(otpRecord.paymentRequestId, transferResult.transactionId || '');
+            }
+        }
+
+        // Held for risk review - the recipient hears about it only once it's released
+        if (transferResult.held) {
+            await notifyTransactionHeld(payload.userId, transferResult.transactionId || '', transferResult.referenceNumber || '');
+
+            await prisma.auditLog.create({
+                data: {
+                    userId: payload.userId,
+                    action: 'TRANSFER_HELD',
+                    entity: 'Transaction',
+                    entityId: transferResult.transactionId,
+                    newValue: JSON.stringify({ amount: otpRecord.amount, recipientId: otpRecord.recipientId, riskAlertId: otpRecord.riskAlertId }),
+                    ipAddress: request.headers.get('x-forwarded-for') || undefined,
+                    userAgent: request.headers.get('user-agent') || undefined,
+                },
+            });
+
+            return NextResponse.json(
+                {
+                    success: true,
+                    held: true,
+                    transactionId: transferResult.transactionId,
+                    referenceNumber: transferResult.referenceNumber,
+                    message: HELD_MESSAGE,
+                },
+                { status: 200, headers: getSecurityHeaders() }
+            );
+        }
+
         // Get sender and recipient info
         const [sender, recipient] = await Promise.all([
             prisma.user.findUnique({ where: { id: payload.userId } }),
             prisma.user.findUnique({ where: { id: otpRecord.recipientId } }),
         ]);
 
+        if (recipient) {
+            await touchBeneficiary(payload.userId, { phone: recipient.phone });
+        }
+
         // Format amount with correct currency
         const symbol = currency === 'SYP' ? 'ل.س' : '$';
         const formattedAmount = currency === 'SYP'
-            ? Math.floor(otpRecord.amount).toLocaleString('ar-SY')
+            ? Math.floor(otpRecord.amount.toNumber()).toLocaleString('ar-SY')
             : otpRecord.amount.toFixed(2);
 
         // Create notifications
@@ -4,14 +4,22 @@ import { getSecurityHeaders, validateAmount, sanitizePhoneNumber } from '@/lib/a
 import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
 import { generateOTP, hashOTP, getOTPExpiry } from '@/lib/otp/generator';
 import { sendPushNotification } from '@/lib/firebase/admin';
+import { sendOtpSms } from '@/lib/sms/sms';
 import { getUserWallet, type Currency, isValidCurrency, formatCurrency } from '@/lib/wallet/currency';
+import { getPayablePaymentRequest } from '@/lib/transfer/payment-requests';
+import { checkRateLimit, getClientIp, rateLimitExceededResponse } from '@/lib/rate-limit/limiter';
+import { assessTransactionRisk } from '@/lib/financial/risk-hook';
+import { fitsMinorUnits } from '@/lib/financial/money';
 import { z } from 'zod';
 
 const initiateSchema = z.object({
-    recipientPhone: z.string().min(9, 'Invalid phone number'),
-    amount: z.number().positive('Amount must be positive'),
+    recipientPhone: z.string().min(9, 'Invalid phone number').optional(),
+    amount: z.number().positive('Amount must be positive').refine((amount) => fitsMinorUnits(amount), 'Amount cannot have more than 2 decimal places').optional(),
     currency: z.enum(['USD', 'SYP']).default('USD'),
     note: z.string().max(200).optional(),
+    paymentRequestId: z.string().optional(), // Paying a "request money" - amount/recipient come from the request
+}).refine(data => data.paymentRequestId || (data.recipientPhone && data.amount !== undefined), {
+    message: 'Recipient and amount are required',
 });
 
 export async function POST(request: NextRequest) {
@@ -38,9 +46,38 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const { recipientPhone, amount, currency, note } = result.data;
+        let { recipientPhone, amount, currency, note } = result.data;
+        const { paymentRequestId } = result.data;
 
-        if (!validateAmount(amount)) {
+        if (paymentRequestId) {
+            const { paymentRequest, error } = await getPayablePaymentRequest(paymentRequestId, userId);
+
+            if (!paymentRequest) {
+                return NextResponse.json(
+                    { error },
+                    { status: 400, headers: getSecurityHeaders() }
+                );
+            }
+
+            const requester = await prisma.user.findUnique({
+                where: { id: paymentRequest.requesterId },
+                select: { phone: true },
+            });
+
+            if (!requester) {
+                return NextResponse.json(
+                    { error: 'Recipient not found' },
+                    { status: 404, headers: getSecurityHeaders() }
+                );
+            }
+
+            recipientPhone = requester.phone;
+            amount = paymentRequest.amount.toNumber();
+            currency = paymentRequest.currency === 'SYP' ? 'SYP' : 'USD';
+            note = paymentRequest.note ?? undefined;
+        }
+
+        if (!recipientPhone || amount === undefined || !validateAmount(amount)) {
             return NextResponse.json(
                 { error: 'Invalid amount' },
                 { status: 400, headers: getSecurityHeaders() }
@@ -70,7 +107,7 @@ export async function POST(request: NextRequest) {
         // Check sender's balance for the selected currency
         const senderWallet = await getUserWallet(userId, currency as Currency, 'PERSONAL');
 
-        if (!senderWallet || senderWallet.balance < amount) {
+        if (!senderWallet || senderWallet.balance.lessThan(amount)) {
             const currencyName = currency === 'SYP' ? 'الليرة السورية' : 'الدولار';
             return NextResponse.json(
                 { error: `رصيدك غير كافي بـ${currencyName}` },
@@ -87,24 +124,24 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Check transaction risk and limits
-        const { checkTransactionRisk } = await import('@/lib/financial/risk-engine');
-        const riskCheck = await checkTransactionRisk({
-            userId: userId,
+        const rateLimit = await checkRateLimit('OTP_SEND', { user: userId, ip: getClientIp(request) });
+        if (!rateLimit.allowed) {
+            return rateLimitExceededResponse(rateLimit);
+        }
+
+        // Check transaction risk and limits - a hold is carried to confirm on the OTP record
+        const risk = await assessTransactionRisk(request, {
+            userId,
             amount,
             type: 'TRANSFER',
             currency: currency as 'USD' | 'SYP',
-            ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || undefined,
         });
 
-        if (!riskCheck.passed) {
-            const limitAlert = riskCheck.alerts.find(a => a.type === 'LIMIT_EXCEEDED');
-            if (limitAlert) {
-                return NextResponse.json(
-                    { error: limitAlert.reasonAr || limitAlert.reason },
-                    { status: 400, headers: getSecurityHeaders() }
-                );
-            }
+        if (!risk.allowed) {
+            return NextResponse.json(
+                { error: risk.error },
+                { status: 400, headers: getSecurityHeaders() }
+            );
         }
 
         // Generate OTP
@@ -129,7 +166,12 @@ export async function POST(request: NextRequest) {
                 currency, // USD or SYP
                 recipientId: recipient.id,
                 note,
+                paymentRequestId,
                 expiresAt,
+                riskHold: risk.hold,
+                riskAlertId: risk.riskAlertId,
+                riskReason: risk.reason,
+                riskReasonAr: risk.reasonAr,
             },
         });
 
@@ -153,7 +195,10 @@ export async function POST(request: NextRequest) {
                 }
             );
         }
-        // If no FCM token, OTP is stored in DB - user can request resend
+        // No push token (web only, or notifications refused) - SMS instead
+        if (!sender?.fcmToken && sender?.phone) {
+            await sendOtpSms(sender.phone, otp, 'TRANSFER');
+        }
 
         return NextResponse.json(
             {
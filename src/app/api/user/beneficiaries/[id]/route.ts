@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
+import { z } from 'zod';
+
+const updateSchema = z.object({
+    nickname: z.string().min(1, 'Nickname is required').max(50).optional(),
+    defaultCurrency: z.enum(['USD', 'SYP']).optional(),
+});
+
+// PATCH - Rename a beneficiary or change its default currency
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { id } = await params;
+        const body = await request.json();
+        const result = updateSchema.safeParse(body);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const updated = await prisma.beneficiary.updateMany({
+            where: { id, userId: auth.user.id },
+            data: result.data,
+        });
+
+        if (updated.count === 0) {
+            return NextResponse.json(
+                { error: 'Beneficiary not found' },
+                { status: 404, headers: getSecurityHeaders() }
+            );
+        }
+
+        return NextResponse.json(
+            { success: true },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Update beneficiary error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
+
+// DELETE - Remove a beneficiary
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { id } = await params;
+
+        const deleted = await prisma.beneficiary.deleteMany({
+            where: { id, userId: auth.user.id },
+        });
+
+        if (deleted.count === 0) {
+            return NextResponse.json(
+                { error: 'Beneficiary not found' },
+                { status: 404, headers: getSecurityHeaders() }
+            );
+        }
+
+        return NextResponse.json(
+            { success: true },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Delete beneficiary error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
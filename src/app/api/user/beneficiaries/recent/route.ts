@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
+
+const RECENT_RECIPIENTS_LIMIT = 5;
+
+// GET - Recent transfer recipients, built from the user's past TRANSFER transactions
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const recentTransfers = await prisma.transaction.findMany({
+            where: {
+                senderId: auth.user.id,
+                type: 'TRANSFER',
+                status: 'COMPLETED',
+                receiverId: { not: null },
+            },
+            orderBy: { createdAt: 'desc' },
+            distinct: ['receiverId'],
+            take: RECENT_RECIPIENTS_LIMIT,
+            select: { receiverId: true, currency: true, createdAt: true },
+        });
+
+        const receiverIds = recentTransfers.map(t => t.receiverId as string);
+        const users = await prisma.user.findMany({
+            where: { id: { in: receiverIds }, isActive: true },
+            select: { id: true, fullName: true, fullNameAr: true, phone: true },
+        });
+        const usersById = new Map(users.map(u => [u.id, u]));
+
+        const recipients = recentTransfers
+            .filter(t => usersById.has(t.receiverId as string))
+            .map(t => {
+                const user = usersById.get(t.receiverId as string)!;
+                return {
+                    id: user.id,
+                    fullName: user.fullName,
+                    fullNameAr: user.fullNameAr,
+                    phone: user.phone,
+                    lastCurrency: t.currency,
+                    lastTransferAt: t.createdAt,
+                };
+            });
+
+        return NextResponse.json(
+            { recipients },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Get recent recipients error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders, sanitizePhoneNumber } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
+import { BENEFICIARY_TYPES } from '@/lib/transfer/beneficiaries';
+import { z } from 'zod';
+
+const MAX_BENEFICIARIES = 50;
+
+const beneficiarySchema = z.object({
+    type: z.enum(BENEFICIARY_TYPES).default('USER'),
+    phone: z.string().min(9, 'Invalid phone number').optional(),
+    merchantCode: z.string().min(3, 'Invalid merchant code').optional(),
+    nickname: z.string().min(1, 'Nickname is required').max(50),
+    defaultCurrency: z.enum(['USD', 'SYP']).default('USD'),
+});
+
+// GET - Saved beneficiaries (?type=USER) or favorite merchants (?type=MERCHANT)
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { searchParams } = new URL(request.url);
+        const type = searchParams.get('type') === 'MERCHANT' ? 'MERCHANT' : 'USER';
+
+        const beneficiaries = await prisma.beneficiary.findMany({
+            where: { userId: auth.user.id, type },
+            orderBy: [{ lastUsedAt: { sort: 'desc', nulls: 'last' } }, { nickname: 'asc' }],
+            select: {
+                id: true,
+                type: true,
+                phone: true,
+                merchantCode: true,
+                nickname: true,
+                defaultCurrency: true,
+                lastUsedAt: true,
+            },
+        });
+
+        return NextResponse.json(
+            { beneficiaries },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Get beneficiaries error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
+
+// POST - Save a beneficiary or favorite merchant
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const userId = auth.user.id;
+        const body = await request.json();
+        const result = beneficiarySchema.safeParse(body);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { type, nickname, defaultCurrency } = result.data;
+        let phone: string | undefined;
+        let merchantCode: string | undefined;
+
+        if (type === 'USER') {
+            if (!result.data.phone) {
+                return NextResponse.json(
+                    { error: 'Invalid phone number' },
+                    { status: 400, headers: getSecurityHeaders() }
+                );
+            }
+
+            phone = sanitizePhoneNumber(result.data.phone);
+            const target = await prisma.user.findUnique({ where: { phone } });
+
+            if (!target || !target.isActive) {
+                return NextResponse.json(
+                    { error: 'User not found' },
+                    { status: 404, headers: getSecurityHeaders() }
+                );
+            }
+
+            if (target.id === userId) {
+                return NextResponse.json(
+                    { error: 'لا يمكنك إضافة نفسك كمستفيد' },
+                    { status: 400, headers: getSecurityHeaders() }
+                );
+            }
+
+            if (target.userType === 'AGENT') {
+                return NextResponse.json(
+                    { error: 'Cannot transfer to agents' },
+                    { status: 400, headers: getSecurityHeaders() }
+                );
+            }
+        } else {
+            if (!result.data.merchantCode) {
+                return NextResponse.json(
+                    { error: 'Invalid merchant code' },
+                    { status: 400, headers: getSecurityHeaders() }
+                );
+            }
+
+            merchantCode = result.data.merchantCode.toUpperCase();
+            const merchant = await prisma.merchantProfile.findUnique({ where: { merchantCode } });
+
+            if (!merchant || !merchant.isActive) {
+                return NextResponse.json(
+                    { error: 'Merchant not found or inactive' },
+                    { status: 404, headers: getSecurityHeaders() }
+                );
+            }
+        }
+
+        const [existing, count] = await Promise.all([
+            prisma.beneficiary.findFirst({
+                where: { userId, ...(phone ? { phone } : { merchantCode }) },
+            }),
+            prisma.beneficiary.count({ where: { userId } }),
+        ]);
+
+        if (existing) {
+            return NextResponse.json(
+                { error: 'محفوظ مسبقاً في قائمتك' },
+                { status: 409, headers: getSecurityHeaders() }
+            );
+        }
+
+        if (count >= MAX_BENEFICIARIES) {
+            return NextResponse.json(
+                { error: `لا يمكن حفظ أكثر من ${MAX_BENEFICIARIES} مستفيد` },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const beneficiary = await prisma.beneficiary.create({
+            data: { userId, type, phone, merchantCode, nickname, defaultCurrency },
+        });
+
+        return NextResponse.json(
+            {
+                success: true,
+                beneficiary: {
+                    id: beneficiary.id,
+                    type: beneficiary.type,
+                    phone: beneficiary.phone,
+                    merchantCode: beneficiary.merchantCode,
+                    nickname: beneficiary.nickname,
+                    defaultCurrency: beneficiary.defaultCurrency,
+                    lastUsedAt: beneficiary.lastUsedAt,
+                },
+            },
+            { status: 201, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Create beneficiary error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -0,0 +1,223 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders, validateAmount, verifyPassword } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
+import { createCashOutToken, cancelCashOutToken, CASH_OUT_EXPIRY_MINUTES } from '@/lib/withdrawal/cash-out';
+import { type Currency, getUserWallet } from '@/lib/wallet/currency';
+import { assessTransactionRisk } from '@/lib/financial/risk-hook';
+import { fitsMinorUnits } from '@/lib/financial/money';
+import { z } from 'zod';
+
+const cashOutSchema = z.object({
+    amount: z.number().positive('Amount must be positive').refine((amount) => fitsMinorUnits(amount), 'Amount cannot have more than 2 decimal places'),
+    currency: z.enum(['USD', 'SYP']).default('USD'),
+    pin: z.string().length(4, 'PIN must be 4 digits'),
+});
+
+// POST - Generate a one-time cash-out QR for the given amount
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.payload) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const body = await request.json();
+        const result = cashOutSchema.safeParse(body);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { amount, currency, pin } = result.data;
+
+        if (!validateAmount(amount)) {
+            return NextResponse.json(
+                { error: 'Invalid amount' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { id: auth.payload.userId },
+            select: { paymentPin: true },
+        });
+
+        if (!user?.paymentPin) {
+            return NextResponse.json(
+                { error: 'يرجى تعيين رمز الدفع أولاً من الإعدادات' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const isPinValid = await verifyPassword(pin, user.paymentPin);
+        if (!isPinValid) {
+            return NextResponse.json(
+                { error: 'رمز الدفع غير صحيح' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        // Early feedback only - the atomic balance check happens in processWithdrawal
+        const wallet = await getUserWallet(auth.payload.userId, currency as Currency, 'PERSONAL');
+        if (!wallet || wallet.balance.lessThan(amount)) {
+            return NextResponse.json(
+                { error: 'رصيد غير كافٍ' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        // Payer checks now; the redeeming agent's limits are checked when the QR is scanned
+        const risk = await assessTransactionRisk(request, {
+            userId: auth.payload.userId,
+            amount,
+            type: 'WITHDRAW',
+            currency: currency as 'USD' | 'SYP',
+            holdable: false,
+        });
+
+        if (!risk.allowed) {
+            return NextResponse.json(
+                { error: risk.error },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { tokenId, qrData, expiresAt } = await createCashOutToken({
+            userId: auth.payload.userId,
+            amount,
+            currency: currency as Currency,
+        });
+
+        await prisma.auditLog.create({
+            data: {
+                userId: auth.payload.userId,
+                action: 'CASH_OUT_QR_CREATED',
+                entity: 'CashOutToken',
+                entityId: tokenId,
+                newValue: JSON.stringify({ amount, currency }),
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            {
+                success: true,
+                tokenId,
+                qrData,
+                amount,
+                currency,
+                expiresAt,
+                expiresIn: CASH_OUT_EXPIRY_MINUTES * 60,
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Create cash-out QR error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
+
+// GET - Status of a cash-out token (polled while the QR is on screen)
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.payload) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const tokenId = request.nextUrl.searchParams.get('id');
+        if (!tokenId) {
+            return NextResponse.json(
+                { error: 'Missing id' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const token = await prisma.cashOutToken.findUnique({ where: { id: tokenId } });
+
+        if (!token || token.userId !== auth.payload.userId) {
+            return NextResponse.json(
+                { error: 'Not found' },
+                { status: 404, headers: getSecurityHeaders() }
+            );
+        }
+
+        const isExpired = token.status === 'ACTIVE' && token.expiresAt < new Date();
+
+        return NextResponse.json(
+            {
+                id: token.id,
+                status: isExpired ? 'EXPIRED' : token.status,
+                amount: token.amount,
+                currency: token.currency,
+                expiresAt: token.expiresAt,
+                transactionId: token.transactionId,
+                failureReason: token.failureReason,
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Get cash-out QR error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
+
+// DELETE - Cancel an active cash-out token
+export async function DELETE(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.payload) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const tokenId = request.nextUrl.searchParams.get('id');
+        if (!tokenId) {
+            return NextResponse.json(
+                { error: 'Missing id' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const cancelled = await cancelCashOutToken(tokenId, auth.payload.userId);
+
+        if (!cancelled) {
+            return NextResponse.json(
+                { error: 'لا يمكن إلغاء هذا الرمز' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        return NextResponse.json(
+            { success: true },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Cancel cash-out QR error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
+import { z } from 'zod';
+
+const deviceSchema = z.object({
+    isTrusted: z.boolean(),
+});
+
+// PATCH - Trust a device (skips the risk engine's new-device hold) or withdraw trust
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const body = await request.json();
+        const result = deviceSchema.safeParse(body);
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const device = await prisma.userDevice.findFirst({
+            where: { id: params.id, userId: auth.user.id },
+        });
+
+        if (!device) {
+            return NextResponse.json(
+                { error: 'الجهاز غير موجود' },
+                { status: 404, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { isTrusted } = result.data;
+
+        // Withdrawing trust also forgets the 2FA "remember this device"
+        await prisma.userDevice.update({
+            where: { id: device.id },
+            data: isTrusted
+                ? { isTrusted: true, trustExpiresAt: null }
+                : { isTrusted: false, trustExpiresAt: null, twoFactorRememberedUntil: null },
+        });
+
+        await prisma.auditLog.create({
+            data: {
+                userId: auth.user.id,
+                action: isTrusted ? 'DEVICE_TRUSTED' : 'DEVICE_UNTRUSTED',
+                entity: 'UserDevice',
+                entityId: device.id,
+                oldValue: JSON.stringify({ isTrusted: device.isTrusted }),
+                newValue: JSON.stringify({ isTrusted }),
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+                userAgent: request.headers.get('user-agent') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            { success: true },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Update device error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
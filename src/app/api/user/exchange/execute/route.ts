@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders, verifyPassword } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
+import { executeExchangeQuote } from '@/lib/wallet/exchange';
+import { formatCurrency, type Currency } from '@/lib/wallet/currency';
+import { z } from 'zod';
+
+const executeSchema = z.object({
+    quoteId: z.string().min(1, 'Quote is required'),
+    pin: z.string().length(4, 'PIN must be 4 digits'),
+});
+
+// POST - Execute a locked quote, authorized with the payment PIN
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const userId = auth.user.id;
+        const body = await request.json();
+        const result = executeSchema.safeParse(body);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { quoteId, pin } = result.data;
+
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { paymentPin: true },
+        });
+
+        if (!user?.paymentPin) {
+            return NextResponse.json(
+                { error: 'يرجى تعيين رمز الدفع أولاً من الإعدادات' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const isPinValid = await verifyPassword(pin, user.paymentPin);
+        if (!isPinValid) {
+            return NextResponse.json(
+                { error: 'رمز الدفع غير صحيح' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const exchangeResult = await executeExchangeQuote(quoteId, userId);
+
+        if (!exchangeResult.success || !exchangeResult.quote) {
+            return NextResponse.json(
+                { error: exchangeResult.error },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const quote = exchangeResult.quote;
+        const fromFormatted = formatCurrency(quote.fromAmount, quote.fromCurrency as Currency);
+        const toFormatted = formatCurrency(quote.toAmount, quote.toCurrency as Currency);
+
+        await prisma.notification.create({
+            data: {
+                userId,
+                type: 'TRANSACTION',
+                title: 'Currency Exchanged',
+                titleAr: 'تم صرف العملة',
+                message: `You exchanged ${fromFormatted} for ${toFormatted}`,
+                messageAr: `تم صرف ${fromFormatted} إلى ${toFormatted}`,
+                metadata: JSON.stringify({ transactionId: exchangeResult.transactionId, exchangeQuoteId: quoteId }),
+            },
+        });
+
+        await prisma.auditLog.create({
+            data: {
+                userId,
+                action: 'EXCHANGE_EXECUTED',
+                entity: 'ExchangeQuote',
+                entityId: quoteId,
+                newValue: JSON.stringify({
+                    transactionId: exchangeResult.transactionId,
+                    fromCurrency: quote.fromCurrency,
+                    fromAmount: quote.fromAmount,
+                    toCurrency: quote.toCurrency,
+                    toAmount: quote.toAmount,
+                    rate: quote.rate,
+                    spread: quote.spread,
+                }),
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            {
+                success: true,
+                message: 'تم الصرف بنجاح',
+                transaction: {
+                    id: exchangeResult.transactionId,
+                    referenceNumber: exchangeResult.referenceNumber,
+                    fromAmount: quote.fromAmount,
+                    fromCurrency: quote.fromCurrency,
+                    toAmount: quote.toAmount,
+                    toCurrency: quote.toCurrency,
+                },
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Exchange execute error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSecurityHeaders, validateAmount } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
+import { createExchangeQuote } from '@/lib/wallet/exchange';
+import { fitsMinorUnits } from '@/lib/financial/money';
+import { z } from 'zod';
+
+const quoteSchema = z.object({
+    fromCurrency: z.enum(['USD', 'SYP']),
+    amount: z.number().positive('Amount must be positive').refine((amount) => fitsMinorUnits(amount), 'Amount cannot have more than 2 decimal places'),
+});
+
+// POST - Lock the live rate for a short window
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const body = await request.json();
+        const result = quoteSchema.safeParse(body);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { fromCurrency, amount } = result.data;
+
+        if (!validateAmount(amount)) {
+            return NextResponse.json(
+                { error: 'Invalid amount' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const quoteResult = await createExchangeQuote(auth.user.id, fromCurrency, amount);
+
+        if (!quoteResult.success || !quoteResult.quote) {
+            return NextResponse.json(
+                { error: quoteResult.error },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const quote = quoteResult.quote;
+
+        return NextResponse.json(
+            {
+                quote: {
+                    id: quote.id,
+                    fromCurrency: quote.fromCurrency,
+                    toCurrency: quote.toCurrency,
+                    fromAmount: quote.fromAmount,
+                    toAmount: quote.toAmount,
+                    rate: quote.rate,
+                    expiresAt: quote.expiresAt,
+                },
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Exchange quote error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
+import { getCurrentExchangeRate, EXCHANGE_QUOTE_TTL_SECONDS } from '@/lib/wallet/exchange';
+
+// GET - Live USD/SYP rates and the user's recent exchanges
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const [rate, exchanges] = await Promise.all([
+            getCurrentExchangeRate(),
+            prisma.exchangeQuote.findMany({
+                where: { userId: auth.user.id, status: 'EXECUTED' },
+                orderBy: { executedAt: 'desc' },
+                take: 10,
+            }),
+        ]);
+
+        return NextResponse.json(
+            {
+                rate: rate
+                    ? { buyRate: rate.buyRate, sellRate: rate.sellRate, updatedAt: rate.createdAt }
+                    : null,
+                quoteTtlSeconds: EXCHANGE_QUOTE_TTL_SECONDS,
+                exchanges: exchanges.map(e => ({
+                    id: e.id,
+                    fromCurrency: e.fromCurrency,
+                    toCurrency: e.toCurrency,
+                    fromAmount: e.fromAmount,
+                    toAmount: e.toAmount,
+                    rate: e.rate,
+                    executedAt: e.executedAt,
+                })),
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Get exchange rate error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
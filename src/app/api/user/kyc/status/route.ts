@@ -2,6 +2,15 @@ import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
 import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
 import { cookies } from 'next/headers';
+import {
+    KYC_TIERS,
+    KYC_TIER_NAMES,
+    KYC_TIER_REQUIREMENTS,
+    resolveKycTier,
+    getKycTierLimits,
+    getLatestKycDocuments,
+    getMissingKycDocuments,
+} from '@/lib/kyc/tiers';
 
 // GET - Get user's KYC status
 export async function GET() {
@@ -28,7 +37,19 @@ export async function GET() {
             where: { id: payload.userId },
             select: {
                 kycStatus: true,
+                kycTier: true,
+                kycRequestedTier: true,
                 kycRejectionReason: true,
+                kycDocuments: {
+                    select: {
+                        id: true,
+                        documentType: true,
+                        status: true,
+                        rejectionReason: true,
+                        reviewedAt: true,
+                        createdAt: true,
+                    },
+                },
             },
         });
 
@@ -39,10 +60,24 @@ export async function GET() {
             );
         }
 
+        const tier = resolveKycTier(user);
+        const tierLimits = await getKycTierLimits();
+
         return NextResponse.json(
             {
                 status: user.kycStatus || 'NOT_SUBMITTED',
                 rejectionReason: user.kycRejectionReason || '',
+                tier,
+                requestedTier: user.kycRequestedTier,
+                // Latest upload of each document type with its own review status
+                documents: Array.from(getLatestKycDocuments(user.kycDocuments).values()),
+                tiers: KYC_TIERS.map(t => ({
+                    tier: t,
+                    name: KYC_TIER_NAMES[t],
+                    requirements: KYC_TIER_REQUIREMENTS[t],
+                    missingDocuments: t > tier ? getMissingKycDocuments(t, user.kycDocuments) : [],
+                    limits: tierLimits.find(l => l.tier === t),
+                })),
             },
             { status: 200, headers: getSecurityHeaders() }
         );
@@ -3,6 +3,14 @@ import { prisma } from '@/lib/db/prisma';
 import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
 import { cookies } from 'next/headers';
 import { uploadToS3 } from '@/lib/storage/s3';
+import { resolveKycTier, isKycTier, getMissingKycDocuments, type KycDocumentType } from '@/lib/kyc/tiers';
+
+const KYC_UPLOAD_FOLDERS: Record<KycDocumentType, string> = {
+    ID_FRONT: 'kyc/id-front',
+    ID_BACK: 'kyc/id-back',
+    SELFIE: 'kyc/selfie',
+    PROOF_OF_ADDRESS: 'kyc/proof-of-address',
+};
 
 // POST - Submit KYC documents
 export async function POST(request: NextRequest) {
@@ -27,75 +35,85 @@ export async function POST(request: NextRequest) {
 
         const userId = payload.userId;
 
-        // Check if user already has pending/approved KYC
+        // Check if user already has a pending upgrade request
         const user = await prisma.user.findUnique({
             where: { id: userId },
-            select: { kycStatus: true },
+            select: {
+                kycStatus: true,
+                kycTier: true,
+                kycDocuments: {
+                    select: { documentType: true, status: true, createdAt: true },
+                },
+            },
         });
 
-        if (user?.kycStatus === 'PENDING') {
+        if (!user) {
             return NextResponse.json(
-                { error: 'KYC already pending review' },
-                { status: 400, headers: getSecurityHeaders() }
+                { error: 'User not found' },
+                { status: 404, headers: getSecurityHeaders() }
             );
         }
 
-        if (user?.kycStatus === 'APPROVED') {
+        if (user.kycStatus === 'PENDING') {
             return NextResponse.json(
-                { error: 'KYC already approved' },
+                { error: 'KYC already pending review' },
                 { status: 400, headers: getSecurityHeaders() }
             );
         }
 
+        const currentTier = resolveKycTier(user);
+
         // Parse form data
         const formData = await request.formData();
-        const idPhotoFront = formData.get('idPhotoFront') as File | null;
-        const idPhotoBack = formData.get('idPhotoBack') as File | null;
-        const selfie = formData.get('selfiePhoto') as File | null;
 
-        // Also support the old field names for backwards compatibility
-        const legacyIdPhoto = formData.get('idPhoto') as File | null;
-        const legacySelfie = formData.get('selfie') as File | null;
-
-        const frontPhoto = idPhotoFront || legacyIdPhoto;
-        const backPhoto = idPhotoBack;
-        const selfiePhoto = selfie || legacySelfie;
+        // Clients that don't send a tier are asking for the next one
+        const requestedTier = Number(formData.get('tier') || currentTier + 1);
 
-        if (!frontPhoto || !selfiePhoto) {
+        if (!isKycTier(requestedTier) || requestedTier <= currentTier) {
             return NextResponse.json(
-                { error: 'ID photo (front) and selfie are required' },
+                { error: currentTier === 2 ? 'KYC already approved' : 'Invalid KYC tier' },
                 { status: 400, headers: getSecurityHeaders() }
             );
         }
 
-        // Upload front ID to S3
-        const frontUpload = await uploadToS3(frontPhoto, 'kyc/id-front', userId);
-        if (!frontUpload.success || !frontUpload.url) {
+        // Also support the old field names for backwards compatibility
+        const files: Record<KycDocumentType, File | null> = {
+            ID_FRONT: (formData.get('idPhotoFront') || formData.get('idPhoto')) as File | null,
+            ID_BACK: formData.get('idPhotoBack') as File | null,
+            SELFIE: (formData.get('selfiePhoto') || formData.get('selfie')) as File | null,
+            PROOF_OF_ADDRESS: formData.get('proofOfAddress') as File | null,
+        };
+
+        // Only documents that aren't approved yet have to be (re)uploaded
+        const missingDocuments = getMissingKycDocuments(requestedTier, user.kycDocuments);
+        const notUploaded = missingDocuments.filter(type => !files[type]);
+
+        if (notUploaded.length > 0) {
             return NextResponse.json(
-                { error: 'Failed to upload ID front photo: ' + frontUpload.error },
-                { status: 500, headers: getSecurityHeaders() }
+                { error: `Missing documents: ${notUploaded.join(', ')}` },
+                { status: 400, headers: getSecurityHeaders() }
             );
         }
 
-        // Upload back ID to S3 (optional but recommended)
-        let backUpload: { success: boolean; url?: string; error?: string } = { success: true };
-        if (backPhoto) {
-            backUpload = await uploadToS3(backPhoto, 'kyc/id-back', userId);
-            if (!backUpload.success || !backUpload.url) {
+        // The ID back goes along with a new ID front (optional but recommended)
+        const typesToUpload: KycDocumentType[] = missingDocuments.includes('ID_FRONT') && files.ID_BACK
+            ? [...missingDocuments, 'ID_BACK']
+            : missingDocuments;
+
+        // Upload to S3
+        const uploads: { documentType: KycDocumentType; url: string }[] = [];
+        for (const documentType of typesToUpload) {
+            const upload = await uploadToS3(files[documentType]!, KYC_UPLOAD_FOLDERS[documentType], userId);
+            if (!upload.success || !upload.url) {
                 return NextResponse.json(
-                    { error: 'Failed to upload ID back photo: ' + backUpload.error },
+                    { error: `Failed to upload ${documentType}: ` + upload.error },
                     { status: 500, headers: getSecurityHeaders() }
                 );
             }
+            uploads.push({ documentType, url: upload.url });
         }
 
-        const selfieUpload = await uploadToS3(selfiePhoto, 'kyc/selfie', userId);
-        if (!selfieUpload.success || !selfieUpload.url) {
-            return NextResponse.json(
-                { error: 'Failed to upload selfie: ' + selfieUpload.error },
-                { status: 500, headers: getSecurityHeaders() }
-            );
-        }
+        const uploadedUrl = (type: KycDocumentType) => uploads.find(u => u.documentType === type)?.url;
 
         // Update User and Create Documents
         await prisma.$transaction(async (tx) => {
@@ -104,41 +122,22 @@ export async function POST(request: NextRequest) {
                 where: { id: userId },
                 data: {
                     kycStatus: 'PENDING',
+                    kycRequestedTier: requestedTier,
                     kycSubmittedAt: new Date(),
                     kycRejectionReason: null,
-                    idPhotoUrl: frontUpload.url!,
-                    selfiePhotoUrl: selfieUpload.url!,
+                    idPhotoUrl: uploadedUrl('ID_FRONT'),
+                    selfiePhotoUrl: uploadedUrl('SELFIE'),
                 },
             });
 
             // Add to Document History
-            const documents = [
-                {
-                    userId: userId,
-                    documentType: 'ID_FRONT',
-                    documentUrl: frontUpload.url!,
-                    status: 'PENDING',
-                },
-                {
-                    userId: userId,
-                    documentType: 'SELFIE',
-                    documentUrl: selfieUpload.url!,
-                    status: 'PENDING',
-                },
-            ];
-
-            // Add back photo if provided
-            if (backUpload.url) {
-                documents.push({
-                    userId: userId,
-                    documentType: 'ID_BACK',
-                    documentUrl: backUpload.url,
-                    status: 'PENDING',
-                });
-            }
-
             await tx.kYCDocument.createMany({
-                data: documents,
+                data: uploads.map(upload => ({
+                    userId,
+                    documentType: upload.documentType,
+                    documentUrl: upload.url,
+                    status: 'PENDING',
+                })),
             });
         });
 
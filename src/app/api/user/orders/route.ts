@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
 import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
+import { releaseServiceOrder, refundServiceOrder } from '@/lib/merchant/service-orders';
+import { POSTING_ERRORS } from '@/lib/financial/posting-engine';
 import { cookies } from 'next/headers';
+import { toAmount } from '@/lib/financial/money';
 
 // GET - List orders for my services (as seller)
 export async function GET() {
@@ -61,7 +64,7 @@ export async function GET() {
             total: orders.length,
             totalEarnings: orders
                 .filter(o => o.status === 'COMPLETED')
-                .reduce((sum, o) => sum + (o.netAmount || 0), 0),
+                .reduce((sum, o) => sum + toAmount(o.netAmount), 0),
         };
 
         return NextResponse.json(
@@ -151,16 +154,7 @@ export async function POST(request: NextRequest) {
                     },
                 });
 
-                // Get currency from linked transaction
-                let orderCurrency = 'USD';
                 if (order.transactionId) {
-                    const linkedTransaction = await tx.transaction.findUnique({
-                        where: { id: order.transactionId },
-                    });
-                    if (linkedTransaction?.currency) {
-                        orderCurrency = linkedTransaction.currency;
-                    }
-
                     // Update the linked Transaction status
                     await tx.transaction.update({
                         where: { id: order.transactionId },
@@ -172,16 +166,7 @@ export async function POST(request: NextRequest) {
                 }
 
                 // Add to seller wallet (using order currency)
-                const sellerWallet = await tx.wallet.findFirst({
-                    where: { userId: payload.userId, walletType: 'BUSINESS', currency: orderCurrency },
-                });
-
-                if (sellerWallet) {
-                    await tx.wallet.update({
-                        where: { id: sellerWallet.id },
-                        data: { balance: { increment: order.netAmount || order.amount } },
-                    });
-                }
+                await releaseServiceOrder(tx, order, payload.userId);
 
                 // Notify buyer
                 await tx.notification.create({
@@ -224,16 +209,7 @@ export async function POST(request: NextRequest) {
                     },
                 });
 
-                // Get currency from linked transaction
-                let orderCurrency = 'USD';
                 if (order.transactionId) {
-                    const linkedTransaction = await tx.transaction.findUnique({
-                        where: { id: order.transactionId },
-                    });
-                    if (linkedTransaction?.currency) {
-                        orderCurrency = linkedTransaction.currency;
-                    }
-
                     // Update the linked Transaction status
                     await tx.transaction.update({
                         where: { id: order.transactionId },
@@ -245,16 +221,7 @@ export async function POST(request: NextRequest) {
                 }
 
                 // Refund buyer wallet (using order currency)
-                const buyerWallet = await tx.wallet.findFirst({
-                    where: { userId: order.userId, walletType: 'PERSONAL', currency: orderCurrency },
-                });
-
-                if (buyerWallet) {
-                    await tx.wallet.update({
-                        where: { id: buyerWallet.id },
-                        data: { balance: { increment: order.totalAmount } },
-                    });
-                }
+                await refundServiceOrder(tx, order, payload.userId);
 
                 // Notify buyer
                 await tx.notification.create({
@@ -286,7 +253,14 @@ export async function POST(request: NextRequest) {
                 { status: 200, headers: getSecurityHeaders() }
             );
         }
-    } catch (error) {
+    } catch (error: any) {
+        if (POSTING_ERRORS[error?.message]) {
+            return NextResponse.json(
+                { error: POSTING_ERRORS[error.message] },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
         console.error('Error responding to order:', error);
         return NextResponse.json(
             { error: 'Internal server error' },
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
+import { sendPushNotification } from '@/lib/firebase/admin';
+import { formatCurrency, type Currency } from '@/lib/wallet/currency';
+import { z } from 'zod';
+
+const respondSchema = z.object({
+    action: z.enum(['DECLINE', 'CANCEL']),
+});
+
+// POST - Payer declines, or requester cancels, a pending payment request
+// Paying goes through /api/transactions/transfer/initiate with paymentRequestId
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { id } = await params;
+        const body = await request.json();
+        const result = respondSchema.safeParse(body);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { action } = result.data;
+        const userId = auth.user.id;
+
+        const updated = await prisma.paymentRequest.updateMany({
+            where: {
+                id,
+                status: 'PENDING',
+                expiresAt: { gt: new Date() },
+                ...(action === 'DECLINE' ? { payerId: userId } : { requesterId: userId }),
+            },
+            data: {
+                status: action === 'DECLINE' ? 'DECLINED' : 'CANCELLED',
+                respondedAt: new Date(),
+            },
+        });
+
+        if (updated.count === 0) {
+            return NextResponse.json(
+                { error: 'طلب الدفع غير موجود أو لم يعد معلقاً' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        if (action === 'DECLINE') {
+            const paymentRequest = await prisma.paymentRequest.findUnique({ where: { id } });
+            const requester = paymentRequest
+                ? await prisma.user.findUnique({ where: { id: paymentRequest.requesterId } })
+                : null;
+
+            if (paymentRequest && requester) {
+                const formattedAmount = formatCurrency(paymentRequest.amount, paymentRequest.currency as Currency);
+                const payerName = auth.user.fullName;
+
+                await prisma.notification.create({
+                    data: {
+                        userId: requester.id,
+                        type: 'TRANSACTION',
+                        title: 'Payment Request Declined',
+                        titleAr: 'تم رفض طلب الدفع',
+                        message: `${auth.user.fullName} declined your request of ${formattedAmount}`,
+                        messageAr: `رفض ${payerName} طلبك بمبلغ ${formattedAmount}`,
+                        metadata: JSON.stringify({ paymentRequestId: id }),
+                    },
+                });
+
+                if (requester.fcmToken) {
+                    sendPushNotification(
+                        requester.fcmToken,
+                        '❌ تم رفض طلب الدفع',
+                        `رفض ${payerName} طلبك بمبلغ ${formattedAmount}`,
+                        { type: 'PAYMENT_REQUEST_DECLINED', paymentRequestId: id }
+                    ).catch(err => console.error('Push requester error:', err));
+                }
+            }
+        }
+
+        await prisma.auditLog.create({
+            data: {
+                userId,
+                action: action === 'DECLINE' ? 'PAYMENT_REQUEST_DECLINED' : 'PAYMENT_REQUEST_CANCELLED',
+                entity: 'PaymentRequest',
+                entityId: id,
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            { success: true, status: action === 'DECLINE' ? 'DECLINED' : 'CANCELLED' },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Respond payment request error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -0,0 +1,212 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders, validateAmount, sanitizePhoneNumber } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
+import { sendPushNotification } from '@/lib/firebase/admin';
+import { formatCurrency, type Currency } from '@/lib/wallet/currency';
+import { getPaymentRequestExpiry, getEffectiveStatus } from '@/lib/transfer/payment-requests';
+import { fitsMinorUnits } from '@/lib/financial/money';
+import { z } from 'zod';
+
+const createSchema = z.object({
+    payerPhone: z.string().min(9, 'Invalid phone number'),
+    amount: z.number().positive('Amount must be positive').refine((amount) => fitsMinorUnits(amount), 'Amount cannot have more than 2 decimal places'),
+    currency: z.enum(['USD', 'SYP']).default('USD'),
+    note: z.string().max(200).optional(),
+});
+
+// POST - Ask another user to pay an amount
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const body = await request.json();
+        const result = createSchema.safeParse(body);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { payerPhone, amount, currency, note } = result.data;
+
+        if (!validateAmount(amount)) {
+            return NextResponse.json(
+                { error: 'Invalid amount' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const payer = await prisma.user.findUnique({
+            where: { phone: sanitizePhoneNumber(payerPhone) },
+        });
+
+        if (!payer || !payer.isActive) {
+            return NextResponse.json(
+                { error: 'المستخدم غير موجود' },
+                { status: 404, headers: getSecurityHeaders() }
+            );
+        }
+
+        if (payer.id === auth.user.id) {
+            return NextResponse.json(
+                { error: 'لا يمكنك طلب المال من نفسك' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        if (payer.userType === 'AGENT') {
+            return NextResponse.json(
+                { error: 'لا يمكن طلب المال من الوكلاء' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const paymentRequest = await prisma.paymentRequest.create({
+            data: {
+                requesterId: auth.user.id,
+                payerId: payer.id,
+                amount,
+                currency,
+                note,
+                expiresAt: getPaymentRequestExpiry(),
+            },
+        });
+
+        const formattedAmount = formatCurrency(amount, currency as Currency);
+        const requesterName = auth.user.fullName;
+
+        await prisma.notification.create({
+            data: {
+                userId: payer.id,
+                type: 'TRANSACTION',
+                title: 'Payment Request',
+                titleAr: 'طلب دفع',
+                message: `${auth.user.fullName} requested ${formattedAmount}${note ? ` - ${note}` : ''}`,
+                messageAr: `طلب ${requesterName} منك ${formattedAmount}${note ? ` - ${note}` : ''}`,
+                metadata: JSON.stringify({ paymentRequestId: paymentRequest.id }),
+            },
+        });
+
+        if (payer.fcmToken) {
+            sendPushNotification(
+                payer.fcmToken,
+                '💸 طلب دفع',
+                `طلب ${requesterName} منك ${formattedAmount}`,
+                { type: 'PAYMENT_REQUEST', paymentRequestId: paymentRequest.id }
+            ).catch(err => console.error('Push payer error:', err));
+        }
+
+        await prisma.auditLog.create({
+            data: {
+                userId: auth.user.id,
+                action: 'PAYMENT_REQUEST_CREATED',
+                entity: 'PaymentRequest',
+                entityId: paymentRequest.id,
+                newValue: JSON.stringify({ payerId: payer.id, amount, currency }),
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            {
+                success: true,
+                paymentRequest: {
+                    id: paymentRequest.id,
+                    amount: paymentRequest.amount,
+                    currency: paymentRequest.currency,
+                    status: paymentRequest.status,
+                    expiresAt: paymentRequest.expiresAt,
+                },
+            },
+            { status: 201, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Create payment request error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
+
+// GET - Incoming (to pay) and outgoing (sent) payment requests
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const userId = auth.user.id;
+
+        const [incoming, outgoing] = await Promise.all([
+            prisma.paymentRequest.findMany({
+                where: { payerId: userId },
+                orderBy: { createdAt: 'desc' },
+                take: 20,
+            }),
+            prisma.paymentRequest.findMany({
+                where: { requesterId: userId },
+                orderBy: { createdAt: 'desc' },
+                take: 20,
+            }),
+        ]);
+
+        const counterpartIds = Array.from(new Set([
+            ...incoming.map(r => r.requesterId),
+            ...outgoing.map(r => r.payerId),
+        ]));
+
+        const users = await prisma.user.findMany({
+            where: { id: { in: counterpartIds } },
+            select: { id: true, fullName: true, fullNameAr: true, phone: true },
+        });
+        const usersById = new Map(users.map(u => [u.id, u]));
+
+        const format = (r: typeof incoming[number], counterpartId: string) => {
+            const counterpart = usersById.get(counterpartId);
+            return {
+                id: r.id,
+                amount: r.amount,
+                currency: r.currency,
+                note: r.note,
+                status: getEffectiveStatus(r),
+                expiresAt: r.expiresAt,
+                paidAt: r.paidAt,
+                createdAt: r.createdAt,
+                counterpart: counterpart ? {
+                    name: counterpart.fullNameAr || counterpart.fullName,
+                    phone: counterpart.phone,
+                } : null,
+            };
+        };
+
+        return NextResponse.json(
+            {
+                incoming: incoming.map(r => format(r, r.requesterId)),
+                outgoing: outgoing.map(r => format(r, r.payerId)),
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Get payment requests error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
+
+// DELETE - Cancel a scheduled transfer (runs already in progress are not affected)
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { id } = await params;
+
+        const cancelled = await prisma.scheduledTransfer.updateMany({
+            where: { id, senderId: auth.user.id, status: 'ACTIVE' },
+            data: { status: 'CANCELLED' },
+        });
+
+        if (cancelled.count === 0) {
+            return NextResponse.json(
+                { error: 'التحويل المجدول غير موجود أو غير نشط' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        await prisma.auditLog.create({
+            data: {
+                userId: auth.user.id,
+                action: 'SCHEDULED_TRANSFER_CANCELLED',
+                entity: 'ScheduledTransfer',
+                entityId: id,
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            { success: true },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Cancel scheduled transfer error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
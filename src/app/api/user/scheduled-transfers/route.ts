@@ -0,0 +1,218 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders, validateAmount, sanitizePhoneNumber, verifyPassword } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
+import { getUserWallet, type Currency } from '@/lib/wallet/currency';
+import { SCHEDULED_TRANSFER_FREQUENCIES } from '@/lib/transfer/scheduled-transfers';
+import { fitsMinorUnits } from '@/lib/financial/money';
+import { z } from 'zod';
+
+const MAX_START_DAYS_AHEAD = 365;
+
+const scheduleSchema = z.object({
+    recipientPhone: z.string().min(9, 'Invalid phone number'),
+    amount: z.number().positive('Amount must be positive').refine((amount) => fitsMinorUnits(amount), 'Amount cannot have more than 2 decimal places'),
+    currency: z.enum(['USD', 'SYP']).default('USD'),
+    note: z.string().max(200).optional(),
+    frequency: z.enum(SCHEDULED_TRANSFER_FREQUENCIES),
+    startAt: z.string().datetime({ message: 'Invalid start date' }),
+    pin: z.string().length(4, 'PIN must be 4 digits'),
+});
+
+// POST - Create a scheduled or recurring transfer, authorized once with the payment PIN
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const userId = auth.user.id;
+        const body = await request.json();
+        const result = scheduleSchema.safeParse(body);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { recipientPhone, amount, currency, note, frequency, pin } = result.data;
+        const startAt = new Date(result.data.startAt);
+
+        if (!validateAmount(amount)) {
+            return NextResponse.json(
+                { error: 'Invalid amount' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const now = Date.now();
+        if (startAt.getTime() < now - 60 * 1000 || startAt.getTime() > now + MAX_START_DAYS_AHEAD * 24 * 60 * 60 * 1000) {
+            return NextResponse.json(
+                { error: 'تاريخ البدء غير صالح' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const sender = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { paymentPin: true },
+        });
+
+        if (!sender?.paymentPin) {
+            return NextResponse.json(
+                { error: 'يرجى تعيين رمز الدفع أولاً من الإعدادات' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const isPinValid = await verifyPassword(pin, sender.paymentPin);
+        if (!isPinValid) {
+            return NextResponse.json(
+                { error: 'رمز الدفع غير صحيح' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const recipient = await prisma.user.findUnique({
+            where: { phone: sanitizePhoneNumber(recipientPhone) },
+        });
+
+        if (!recipient) {
+            return NextResponse.json(
+                { error: 'Recipient not found' },
+                { status: 404, headers: getSecurityHeaders() }
+            );
+        }
+
+        if (recipient.id === userId) {
+            return NextResponse.json(
+                { error: 'Cannot transfer to yourself' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        if (recipient.userType === 'AGENT') {
+            return NextResponse.json(
+                { error: 'Cannot transfer to agents' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const recipientWallet = await getUserWallet(recipient.id, currency as Currency, 'PERSONAL');
+        if (!recipientWallet) {
+            return NextResponse.json(
+                { error: 'المستلم ليس لديه محفظة بهذه العملة' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const scheduledTransfer = await prisma.scheduledTransfer.create({
+            data: {
+                senderId: userId,
+                recipientId: recipient.id,
+                amount,
+                currency,
+                note,
+                frequency,
+                startAt,
+                nextRunAt: startAt,
+            },
+        });
+
+        await prisma.auditLog.create({
+            data: {
+                userId,
+                action: 'SCHEDULED_TRANSFER_CREATED',
+                entity: 'ScheduledTransfer',
+                entityId: scheduledTransfer.id,
+                newValue: JSON.stringify({ recipientId: recipient.id, amount, currency, frequency, startAt }),
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            {
+                success: true,
+                scheduledTransfer: {
+                    id: scheduledTransfer.id,
+                    amount: scheduledTransfer.amount,
+                    currency: scheduledTransfer.currency,
+                    frequency: scheduledTransfer.frequency,
+                    nextRunAt: scheduledTransfer.nextRunAt,
+                    status: scheduledTransfer.status,
+                },
+            },
+            { status: 201, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Create scheduled transfer error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
+
+// GET - The user's scheduled transfers
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const schedules = await prisma.scheduledTransfer.findMany({
+            where: { senderId: auth.user.id },
+            orderBy: [{ status: 'asc' }, { nextRunAt: 'asc' }],
+            take: 50,
+        });
+
+        const recipients = await prisma.user.findMany({
+            where: { id: { in: Array.from(new Set(schedules.map(s => s.recipientId))) } },
+            select: { id: true, fullName: true, fullNameAr: true, phone: true },
+        });
+        const recipientsById = new Map(recipients.map(r => [r.id, r]));
+
+        return NextResponse.json(
+            {
+                scheduledTransfers: schedules.map(s => {
+                    const recipient = recipientsById.get(s.recipientId);
+                    return {
+                        id: s.id,
+                        amount: s.amount,
+                        currency: s.currency,
+                        note: s.note,
+                        frequency: s.frequency,
+                        status: s.status,
+                        nextRunAt: s.nextRunAt,
+                        lastRunAt: s.lastRunAt,
+                        lastError: s.lastError,
+                        failedAttempts: s.failedAttempts,
+                        recipient: recipient ? {
+                            name: recipient.fullNameAr || recipient.fullName,
+                            phone: recipient.phone,
+                        } : null,
+                    };
+                }),
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Get scheduled transfers error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
 import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
 import { cookies } from 'next/headers';
+import { fitsMinorUnits } from '@/lib/financial/money';
 import { z } from 'zod';
 
 const serviceSchema = z.object({
@@ -11,13 +12,13 @@ const serviceSchema = z.object({
     descriptionAr: z.string().optional(),
     category: z.string(),
     currency: z.enum(['USD', 'SYP']).default('USD'), // NEW: Currency validation
-    price: z.number().min(0),
+    price: z.number().min(0).refine((price) => fitsMinorUnits(price), 'Price cannot have more than 2 decimal places'),
     imageUrl: z.string().optional(),
     providerLocation: z.string().optional(), // موقع مزود الخدمة
     // Flexible pricing
     isFlexiblePrice: z.boolean().optional(),
-    minPrice: z.number().optional(),
-    maxPrice: z.number().optional(),
+    minPrice: z.number().refine((price) => fitsMinorUnits(price), 'Price cannot have more than 2 decimal places').optional(),
+    maxPrice: z.number().refine((price) => fitsMinorUnits(price), 'Price cannot have more than 2 decimal places').optional(),
     // Required fields from buyer (individual booleans)
     requirePhone: z.boolean().optional(),
     requireEmail: z.boolean().optional(),
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
+
+// DELETE - Revoke one of the user's other sessions
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const session = await prisma.session.findFirst({
+            where: { id: params.id, userId: auth.user.id },
+        });
+
+        if (!session) {
+            return NextResponse.json(
+                { error: 'الجلسة غير موجودة' },
+                { status: 404, headers: getSecurityHeaders() }
+            );
+        }
+
+        if (session.id === auth.sessionId) {
+            return NextResponse.json(
+                { error: 'استخدم تسجيل الخروج لإنهاء الجلسة الحالية' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        await prisma.session.delete({ where: { id: session.id } });
+
+        await prisma.auditLog.create({
+            data: {
+                userId: auth.user.id,
+                action: 'SESSION_REVOKED',
+                entity: 'Session',
+                entityId: session.id,
+                newValue: JSON.stringify({ deviceId: session.deviceId, ipAddress: session.ipAddress }),
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+                userAgent: request.headers.get('user-agent') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            { success: true },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Revoke session error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
+import { describeUserAgent } from '@/lib/auth/devices';
+
+// GET - Active sessions and known devices
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const [sessions, devices] = await Promise.all([
+            prisma.session.findMany({
+                where: { userId: auth.user.id, expiresAt: { gt: new Date() } },
+                include: { device: { select: { id: true, deviceName: true, deviceType: true, isTrusted: true } } },
+                orderBy: { lastSeenAt: 'desc' },
+            }),
+            prisma.userDevice.findMany({
+                where: { userId: auth.user.id },
+                orderBy: { lastUsedAt: 'desc' },
+            }),
+        ]);
+
+        return NextResponse.json(
+            {
+                sessions: sessions.map(s => ({
+                    id: s.id,
+                    deviceName: s.device?.deviceName || describeUserAgent(s.userAgent).name,
+                    deviceType: s.device?.deviceType || describeUserAgent(s.userAgent).type,
+                    deviceId: s.device?.id || null,
+                    isTrusted: s.device?.isTrusted || false,
+                    ipAddress: s.ipAddress,
+                    location: s.location,
+                    lastSeenAt: s.lastSeenAt,
+                    createdAt: s.createdAt,
+                    isCurrent: s.id === auth.sessionId,
+                })),
+                devices: devices.map(d => ({
+                    id: d.id,
+                    deviceName: d.deviceName || describeUserAgent(d.userAgent).name,
+                    deviceType: d.deviceType,
+                    lastIpAddress: d.lastIpAddress,
+                    lastLocation: d.lastLocation,
+                    lastUsedAt: d.lastUsedAt,
+                    createdAt: d.createdAt,
+                    isTrusted: d.isTrusted,
+                    twoFactorRemembered: !!d.twoFactorRememberedUntil && d.twoFactorRememberedUntil > new Date(),
+                })),
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Get sessions error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
+
+// DELETE - Sign out everywhere except this session
+export async function DELETE(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const revoked = await prisma.session.deleteMany({
+            where: { userId: auth.user.id, id: { not: auth.sessionId } },
+        });
+
+        await prisma.auditLog.create({
+            data: {
+                userId: auth.user.id,
+                action: 'SESSIONS_REVOKED',
+                entity: 'Session',
+                newValue: JSON.stringify({ count: revoked.count, scope: 'OTHERS' }),
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+                userAgent: request.headers.get('user-agent') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            { success: true, revoked: revoked.count },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Revoke sessions error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
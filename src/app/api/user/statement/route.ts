@@ -5,6 +5,7 @@ import { generateStatement, getStatementFilename, StatementData } from '@/lib/pd
 import { cookies } from 'next/headers';
 import arMessages from '@/messages/ar.json';
 import enMessages from '@/messages/en.json';
+import { Money } from '@/lib/financial/money';
 
 export async function GET(request: NextRequest) {
     try {
@@ -81,9 +82,9 @@ export async function GET(request: NextRequest) {
         });
 
         // Calculate running balance and totals
-        let totalIncoming = 0;
-        let totalOutgoing = 0;
-        let totalFees = 0;
+        let totalIncoming = Money.zero(currency);
+        let totalOutgoing = Money.zero(currency);
+        let totalFees = Money.zero(currency);
 
         // Get opening balance (balance before first transaction of month)
         // We'll calculate it by getting current balance and reversing all transactions
@@ -103,30 +104,33 @@ export async function GET(request: NextRequest) {
             },
         });
 
-        let balanceChange = 0;
+        let balanceChange = Money.zero(currency);
         allTxThisMonth.forEach(tx => {
             const isIncoming = tx.receiverId === user.id;
             if (isIncoming) {
-                balanceChange += tx.amount;
+                balanceChange = balanceChange.add(Money.of(tx.amount, currency));
             } else {
-                balanceChange -= (tx.amount + (tx.fee || 0));
+                balanceChange = balanceChange.subtract(Money.of(tx.amount, currency).add(Money.of(tx.fee, currency)));
             }
         });
 
-        const openingBalance = currentBalance - balanceChange;
+        const openingBalance = Money.of(currentBalance, currency).subtract(balanceChange);
 
         // Process transactions with running balance
         let runningBalance = openingBalance;
         const processedTransactions = transactions.map(tx => {
             const isIncoming = tx.receiverId === user.id;
 
+            const amount = Money.of(tx.amount, currency);
+            const fee = Money.of(tx.fee, currency);
+
             if (isIncoming) {
-                runningBalance += tx.amount;
-                totalIncoming += tx.amount;
+                runningBalance = runningBalance.add(amount);
+                totalIncoming = totalIncoming.add(amount);
             } else {
-                runningBalance -= (tx.amount + (tx.fee || 0));
-                totalOutgoing += tx.amount;
-                totalFees += tx.fee || 0;
+                runningBalance = runningBalance.subtract(amount.add(fee));
+                totalOutgoing = totalOutgoing.add(amount);
+                totalFees = totalFees.add(fee);
             }
 
             return {
@@ -135,10 +139,10 @@ export async function GET(request: NextRequest) {
                 date: tx.createdAt,
                 type: tx.type,
                 description: tx.description || tx.descriptionAr || '',
-                amount: tx.amount,
-                fee: tx.fee || 0,
+                amount: amount.toNumber(),
+                fee: fee.toNumber(),
                 isIncoming,
-                balance: runningBalance,
+                balance: runningBalance.toNumber(),
             };
         });
 
@@ -169,14 +173,14 @@ export async function GET(request: NextRequest) {
             month,
             year,
 
-            openingBalance,
-            closingBalance: runningBalance,
+            openingBalance: openingBalance.toNumber(),
+            closingBalance: runningBalance.toNumber(),
 
             transactions: processedTransactions,
 
-            totalIncoming,
-            totalOutgoing,
-            totalFees,
+            totalIncoming: totalIncoming.toNumber(),
+            totalOutgoing: totalOutgoing.toNumber(),
+            totalFees: totalFees.toNumber(),
             transactionCount: transactions.length,
 
             currency: currency, // Currency for PDF
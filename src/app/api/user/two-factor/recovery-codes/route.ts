@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/rate-limit/limiter';
+import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
+import { verifySecondFactor, generateRecoveryCodes } from '@/lib/auth/two-factor';
+import { z } from 'zod';
+
+const regenerateSchema = z.object({
+    code: z.string().trim().regex(/^\d{6}$/, 'أدخل الرمز من تطبيق المصادقة'),
+});
+
+// POST - Replace all recovery codes (needs a current code from the app)
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const rateLimit = await checkRateLimit('TWO_FACTOR_SETTINGS', { user: auth.user.id });
+        if (!rateLimit.allowed) {
+            return rateLimitExceededResponse(rateLimit);
+        }
+
+        const body = await request.json();
+        const result = regenerateSchema.safeParse(body);
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        if (await verifySecondFactor(auth.user.id, result.data.code) !== 'TOTP') {
+            return NextResponse.json(
+                { error: 'رمز التحقق غير صحيح' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const recoveryCodes = await generateRecoveryCodes(auth.user.id);
+
+        await prisma.auditLog.create({
+            data: {
+                userId: auth.user.id,
+                action: 'TWO_FACTOR_RECOVERY_CODES_REGENERATED',
+                entity: 'User',
+                entityId: auth.user.id,
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+                userAgent: request.headers.get('user-agent') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            { success: true, recoveryCodes },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Regenerate recovery codes error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
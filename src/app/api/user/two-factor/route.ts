@@ -0,0 +1,229 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/rate-limit/limiter';
+import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
+import {
+    isTwoFactorRequired,
+    startTwoFactorEnrollment,
+    confirmTwoFactorEnrollment,
+    verifySecondFactor,
+    disableTwoFactor,
+    countRemainingRecoveryCodes,
+} from '@/lib/auth/two-factor';
+import { z } from 'zod';
+
+const codeSchema = z.object({
+    code: z.string().trim().min(6, 'رمز التحقق غير صالح').max(20, 'رمز التحقق غير صالح'),
+});
+
+// GET - 2FA status for the settings page
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const [user, rememberedDevices] = await Promise.all([
+            prisma.user.findUnique({
+                where: { id: auth.user.id },
+                select: { twoFactorEnabled: true, twoFactorEnabledAt: true },
+            }),
+            prisma.userDevice.count({
+                where: { userId: auth.user.id, twoFactorRememberedUntil: { gt: new Date() } },
+            }),
+        ]);
+
+        return NextResponse.json(
+            {
+                enabled: user?.twoFactorEnabled || false,
+                enabledAt: user?.twoFactorEnabledAt || null,
+                required: isTwoFactorRequired(auth.user.userType),
+                recoveryCodesRemaining: user?.twoFactorEnabled ? await countRemainingRecoveryCodes(auth.user.id) : 0,
+                rememberedDevices,
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Get 2FA status error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
+
+// POST - Start enrollment (new secret for the QR code)
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const enrollment = await startTwoFactorEnrollment(auth.user.id);
+        if (!enrollment) {
+            return NextResponse.json(
+                { error: 'التحقق بخطوتين مفعل بالفعل' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        await prisma.auditLog.create({
+            data: {
+                userId: auth.user.id,
+                action: 'TWO_FACTOR_ENROLLMENT_STARTED',
+                entity: 'User',
+                entityId: auth.user.id,
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+                userAgent: request.headers.get('user-agent') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            { success: true, ...enrollment },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Start 2FA enrollment error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
+
+// PUT - Confirm enrollment with the first code from the app
+export async function PUT(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const rateLimit = await checkRateLimit('TWO_FACTOR_SETTINGS', { user: auth.user.id });
+        if (!rateLimit.allowed) {
+            return rateLimitExceededResponse(rateLimit);
+        }
+
+        const body = await request.json();
+        const result = codeSchema.safeParse(body);
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const recoveryCodes = await confirmTwoFactorEnrollment(auth.user.id, result.data.code);
+        if (!recoveryCodes) {
+            return NextResponse.json(
+                { error: 'رمز التحقق غير صحيح' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        await prisma.auditLog.create({
+            data: {
+                userId: auth.user.id,
+                action: 'TWO_FACTOR_ENABLED',
+                entity: 'User',
+                entityId: auth.user.id,
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+                userAgent: request.headers.get('user-agent') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            { success: true, recoveryCodes },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Confirm 2FA enrollment error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
+
+// DELETE - Turn 2FA off (not allowed where it is mandatory)
+export async function DELETE(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.user) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        if (isTwoFactorRequired(auth.user.userType)) {
+            return NextResponse.json(
+                { error: 'التحقق بخطوتين إلزامي لهذا النوع من الحسابات' },
+                { status: 403, headers: getSecurityHeaders() }
+            );
+        }
+
+        const rateLimit = await checkRateLimit('TWO_FACTOR_SETTINGS', { user: auth.user.id });
+        if (!rateLimit.allowed) {
+            return rateLimitExceededResponse(rateLimit);
+        }
+
+        const body = await request.json();
+        const result = codeSchema.safeParse(body);
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const method = await verifySecondFactor(auth.user.id, result.data.code);
+        if (!method) {
+            return NextResponse.json(
+                { error: 'رمز التحقق غير صحيح' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        await disableTwoFactor(auth.user.id);
+
+        await prisma.auditLog.create({
+            data: {
+                userId: auth.user.id,
+                action: 'TWO_FACTOR_DISABLED',
+                entity: 'User',
+                entityId: auth.user.id,
+                newValue: JSON.stringify({ verifiedWith: method }),
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+                userAgent: request.headers.get('user-agent') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            { success: true },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Disable 2FA error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
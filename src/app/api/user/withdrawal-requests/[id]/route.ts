@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
+import { approveWithdrawalWithPin, rejectWithdrawalRequest } from '@/lib/withdrawal/withdrawal-request';
+import { checkRateLimit, getClientIp, rateLimitExceededResponse } from '@/lib/rate-limit/limiter';
+import { z } from 'zod';
+
+const respondSchema = z.object({
+    action: z.enum(['APPROVE', 'REJECT']),
+    pin: z.string().length(4, 'PIN must be 4 digits').optional(),
+});
+
+// POST - Customer approves (with payment PIN) or declines an agent withdrawal request
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.payload) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { id } = await params;
+        const body = await request.json();
+        const result = respondSchema.safeParse(body);
+
+        if (!result.success) {
+            return NextResponse.json(
+                { error: result.error.errors[0].message },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const { action, pin } = result.data;
+
+        if (action === 'REJECT') {
+            const rejectResult = await rejectWithdrawalRequest(id, auth.payload.userId);
+
+            if (!rejectResult.success) {
+                return NextResponse.json(
+                    { error: rejectResult.error },
+                    { status: 400, headers: getSecurityHeaders() }
+                );
+            }
+
+            await prisma.auditLog.create({
+                data: {
+                    userId: auth.payload.userId,
+                    action: 'WITHDRAW_DECLINED',
+                    entity: 'WithdrawalRequest',
+                    entityId: id,
+                    ipAddress: request.headers.get('x-forwarded-for') || undefined,
+                },
+            });
+
+            return NextResponse.json(
+                { success: true, status: 'REJECTED' },
+                { status: 200, headers: getSecurityHeaders() }
+            );
+        }
+
+        if (!pin) {
+            return NextResponse.json(
+                { error: 'رمز الدفع مطلوب' },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        const rateLimit = await checkRateLimit('WITHDRAWAL_CONFIRM', { user: auth.payload.userId, ip: getClientIp(request) });
+        if (!rateLimit.allowed) {
+            return rateLimitExceededResponse(rateLimit);
+        }
+
+        const approveResult = await approveWithdrawalWithPin(id, auth.payload.userId, pin);
+
+        if (!approveResult.success) {
+            return NextResponse.json(
+                { error: approveResult.error, remainingAttempts: approveResult.remainingAttempts },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
+
+        await prisma.auditLog.create({
+            data: {
+                userId: auth.payload.userId,
+                action: 'WITHDRAW_COMPLETED',
+                entity: 'Transaction',
+                entityId: approveResult.transactionId,
+                newValue: JSON.stringify({ withdrawalRequestId: id, approvalMethod: 'PIN' }),
+                ipAddress: request.headers.get('x-forwarded-for') || undefined,
+            },
+        });
+
+        return NextResponse.json(
+            {
+                success: true,
+                status: 'COMPLETED',
+                transactionId: approveResult.transactionId,
+                referenceNumber: approveResult.referenceNumber,
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Respond withdrawal request error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { verifyAuth, getAuthErrorMessage } from '@/lib/auth/verify-session';
+
+// GET - Pending agent withdrawal requests awaiting the customer's confirmation
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await verifyAuth(request);
+
+        if (!auth.success || !auth.payload) {
+            return NextResponse.json(
+                { error: getAuthErrorMessage(auth.error || 'INVALID_TOKEN', 'ar') },
+                { status: 401, headers: getSecurityHeaders() }
+            );
+        }
+
+        const withdrawalRequests = await prisma.withdrawalRequest.findMany({
+            where: {
+                customerId: auth.payload.userId,
+                status: 'PENDING',
+                expiresAt: { gt: new Date() },
+            },
+            orderBy: { createdAt: 'desc' },
+            select: {
+                id: true,
+                agentId: true,
+                amount: true,
+                currency: true,
+                expiresAt: true,
+                createdAt: true,
+            },
+        });
+
+        const agentProfiles = await prisma.agentProfile.findMany({
+            where: { userId: { in: withdrawalRequests.map(r => r.agentId) } },
+            select: { userId: true, businessName: true, businessNameAr: true, agentCode: true },
+        });
+        const agentsById = new Map(agentProfiles.map(a => [a.userId, a]));
+
+        return NextResponse.json(
+            {
+                requests: withdrawalRequests.map(r => ({
+                    ...r,
+                    agent: agentsById.get(r.agentId) || null,
+                })),
+            },
+            { status: 200, headers: getSecurityHeaders() }
+        );
+    } catch (error) {
+        console.error('Get withdrawal requests error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500, headers: getSecurityHeaders() }
+        );
+    }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
 import { getSecurityHeaders } from '@/lib/auth/security';
+import { checkRateLimit, getClientIp, rateLimitExceededResponse } from '@/lib/rate-limit/limiter';
 
 // GET - Lookup user by phone for transfer
 export async function GET(request: NextRequest) {
@@ -27,6 +28,12 @@ export async function GET(request: NextRequest) {
             }
         }
 
+        // No login here - limit both the caller and the number being looked up
+        const rateLimit = await checkRateLimit('USER_LOOKUP', { ip: getClientIp(request), phone: cleanPhone });
+        if (!rateLimit.allowed) {
+            return rateLimitExceededResponse(rateLimit, 'Too many requests. Please try again later.');
+        }
+
         const user = await prisma.user.findFirst({
             where: {
                 OR: [
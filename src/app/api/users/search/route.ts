@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
 import { getSecurityHeaders, sanitizePhoneNumber } from '@/lib/auth/security';
 import { verifyAuth } from '@/lib/auth/verify-session';
+import { checkRateLimit, getClientIp, rateLimitExceededResponse } from '@/lib/rate-limit/limiter';
 
 // GET - Search for a user by phone number
 export async function GET(request: NextRequest) {
@@ -14,6 +15,11 @@ export async function GET(request: NextRequest) {
             );
         }
 
+        const rateLimit = await checkRateLimit('USER_SEARCH', { ip: getClientIp(request), user: auth.user.id });
+        if (!rateLimit.allowed) {
+            return rateLimitExceededResponse(rateLimit);
+        }
+
         const { searchParams } = new URL(request.url);
         const phone = searchParams.get('phone');
 
@@ -2,12 +2,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
 import { getSecurityHeaders, generateReferenceNumber } from '@/lib/auth/security';
 import { verifyAuth } from '@/lib/auth/verify-session';
+import { assessTransactionRisk } from '@/lib/financial/risk-hook';
+import { notifyTransactionHeld, HELD_MESSAGE } from '@/lib/financial/held-funds';
+import { postTransaction, walletParty } from '@/lib/financial/posting-engine';
+import { fitsMinorUnits } from '@/lib/financial/money';
 import { z } from 'zod';
 
 const transferSchema = z.object({
     fromWallet: z.enum(['personal', 'business']),
     toWallet: z.enum(['personal', 'business']),
-    amount: z.number().positive().min(0.01),
+    amount: z.number().positive().min(0.01).refine((amount) => fitsMinorUnits(amount), 'Amount cannot have more than 2 decimal places'),
     currency: z.enum(['USD', 'SYP']).default('USD'),
 });
 
@@ -83,31 +87,24 @@ export async function POST(request: NextRequest) {
         const sourceWallet = fromWallet === 'personal' ? personalWallet : businessWallet;
         const destWallet = toWallet === 'personal' ? personalWallet : businessWallet;
 
-        // Perform transaction with ATOMIC balance check
-        const result = await prisma.$transaction(async (tx) => {
-            // ═══════════════════════════════════════════════════════════════
-            // ATOMIC BALANCE CHECK - Prevents Race Condition
-            // Uses updateMany with gte to atomically verify and deduct
-            // ═══════════════════════════════════════════════════════════════
-            const sourceUpdate = await tx.wallet.updateMany({
-                where: {
-                    id: sourceWallet.id,
-                    balance: { gte: amount } // Only update if balance is sufficient
-                },
-                data: { balance: { decrement: amount } },
-            });
-
-            // If no rows updated, balance was insufficient
-            if (sourceUpdate.count === 0) {
-                throw new Error('INSUFFICIENT_BALANCE');
-            }
+        // Own money, so the spending limits don't apply - device/IP/rapid checks still do
+        const risk = await assessTransactionRisk(request, {
+            userId,
+            amount,
+            type: 'INTERNAL_TRANSFER',
+            currency,
+            skipPayerLimits: true,
+        });
 
-            // Add to destination
-            await tx.wallet.update({
-                where: { id: destWallet.id },
-                data: { balance: { increment: amount } },
-            });
+        if (!risk.allowed) {
+            return NextResponse.json(
+                { error: risk.error },
+                { status: 400, headers: getSecurityHeaders() }
+            );
+        }
 
+        // Perform transaction with ATOMIC balance check
+        const result = await prisma.$transaction(async (tx) => {
             // Create transaction record
             const referenceNumber = generateReferenceNumber('INT');
             const transaction = await tx.transaction.create({
@@ -119,7 +116,7 @@ export async function POST(request: NextRequest) {
                     currency, // Add currency
                     referenceNumber,
                     type: 'INTERNAL_TRANSFER',
-                    status: 'COMPLETED',
+                    status: risk.hold ? 'PROCESSING' : 'COMPLETED',
                     description: fromWallet === 'personal'
                         ? 'تحويل من الحساب الشخصي للبزنس'
                         : 'تحويل من البزنس للحساب الشخصي',
@@ -133,15 +130,39 @@ export async function POST(request: NextRequest) {
                 },
             });
 
+            // USR-LEDGER <-> MRC-LEDGER; the source debit is the atomic balance check
+            // (throws INSUFFICIENT_BALANCE) and a held transfer waits in SUSPENSE
+            await postTransaction(tx, {
+                type: 'TRANSFER',
+                currency,
+                referenceNumber,
+                description: `Internal Transfer: ${referenceNumber}`,
+                descriptionAr: `تحويل داخلي: ${referenceNumber}`,
+                transactionId: transaction.id,
+                createdBy: userId,
+                payer: walletParty(sourceWallet.id),
+                payee: walletParty(destWallet.id),
+                gross: amount,
+                hold: risk.hold
+                    ? { riskAlertId: risk.riskAlertId, reason: risk.reason || 'Held by risk checks', reasonAr: risk.reasonAr }
+                    : undefined,
+            });
+
             return transaction;
         });
 
+        if (risk.hold) {
+            await notifyTransactionHeld(userId, result.id, result.referenceNumber);
+        }
+
         // Get updated balances
         const updatedPersonal = await prisma.wallet.findUnique({ where: { id: personalWallet.id } });
         const updatedBusiness = await prisma.wallet.findUnique({ where: { id: businessWallet.id } });
 
         return NextResponse.json({
             success: true,
+            held: risk.hold,
+            message: risk.hold ? HELD_MESSAGE : undefined,
             transaction: {
                 id: result.id,
                 amount,
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
 import { verifyAccessToken, getSecurityHeaders } from '@/lib/auth/security';
 import { cookies } from 'next/headers';
+import { toAmount } from '@/lib/financial/money';
 
 // Middleware to get current user from token
 async function getCurrentUser(request: NextRequest) {
@@ -202,7 +203,7 @@ export async function GET(request: NextRequest) {
 
                 monthlyStats: monthlyStats.reduce((acc, stat) => {
                     acc[stat.type] = {
-                        total: stat._sum.amount || 0,
+                        total: toAmount(stat._sum.amount),
                         count: stat._count,
                     };
                     return acc;
@@ -0,0 +1,344 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ArrowLeftIcon, ArrowsUpDownIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import { DualBalanceDisplay, formatCurrencyAmount, type Currency } from '@/components/CurrencySelector';
+
+interface ExchangeRate {
+    buyRate: number;
+    sellRate: number;
+    updatedAt: string;
+}
+
+interface Quote {
+    id: string;
+    fromCurrency: Currency;
+    toCurrency: Currency;
+    fromAmount: number;
+    toAmount: number;
+    rate: number;
+    expiresAt: string;
+}
+
+interface PastExchange {
+    id: string;
+    fromCurrency: Currency;
+    toCurrency: Currency;
+    fromAmount: number;
+    toAmount: number;
+    rate: number;
+    executedAt: string;
+}
+
+export default function ExchangePage() {
+    const router = useRouter();
+    const [mounted, setMounted] = useState(false);
+    const [loading, setLoading] = useState(true);
+    const [rate, setRate] = useState<ExchangeRate | null>(null);
+    const [balances, setBalances] = useState<{ USD: number; SYP: number }>({ USD: 0, SYP: 0 });
+    const [exchanges, setExchanges] = useState<PastExchange[]>([]);
+
+    const [fromCurrency, setFromCurrency] = useState<Currency>('USD');
+    const [amount, setAmount] = useState('');
+    const [quote, setQuote] = useState<Quote | null>(null);
+    const [secondsLeft, setSecondsLeft] = useState(0);
+    const [pin, setPin] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [result, setResult] = useState<{ referenceNumber: string; toAmount: number; toCurrency: Currency } | null>(null);
+
+    const toCurrency: Currency = fromCurrency === 'USD' ? 'SYP' : 'USD';
+
+    const fetchData = useCallback(async () => {
+        try {
+            const [exchangeRes, walletRes] = await Promise.all([
+                fetch('/api/user/exchange'),
+                fetch('/api/wallet'),
+            ]);
+
+            if (exchangeRes.status === 401 || walletRes.status === 401) {
+                router.push('/login');
+                return;
+            }
+
+            const exchangeData = await exchangeRes.json();
+            setRate(exchangeData.rate);
+            setExchanges(exchangeData.exchanges || []);
+
+            const walletData = await walletRes.json();
+            setBalances({
+                USD: walletData.personalWallets?.USD?.balance || 0,
+                SYP: walletData.personalWallets?.SYP?.balance || 0,
+            });
+        } catch (err) {
+            console.error('Error:', err);
+        } finally {
+            setLoading(false);
+        }
+    }, [router]);
+
+    useEffect(() => {
+        setMounted(true);
+        fetchData();
+    }, [fetchData]);
+
+    // Countdown for the locked rate
+    useEffect(() => {
+        if (!quote) return;
+
+        const tick = () => {
+            const left = Math.max(0, Math.ceil((new Date(quote.expiresAt).getTime() - Date.now()) / 1000));
+            setSecondsLeft(left);
+        };
+        tick();
+        const interval = setInterval(tick, 1000);
+        return () => clearInterval(interval);
+    }, [quote]);
+
+    const flipDirection = () => {
+        setFromCurrency(toCurrency);
+        setAmount('');
+        setQuote(null);
+        setError('');
+    };
+
+    const getQuote = async () => {
+        setIsLoading(true);
+        setError('');
+
+        try {
+            const res = await fetch('/api/user/exchange/quote', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ fromCurrency, amount: parseFloat(amount) }),
+            });
+
+            const data = await res.json();
+            if (!res.ok) {
+                throw new Error(data.error || 'فشل الحصول على السعر');
+            }
+
+            setQuote(data.quote);
+            setPin('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'حدث خطأ');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const executeQuote = async () => {
+        if (!quote) return;
+        setIsLoading(true);
+        setError('');
+
+        try {
+            const res = await fetch('/api/user/exchange/execute', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ quoteId: quote.id, pin }),
+            });
+
+            const data = await res.json();
+            if (!res.ok) {
+                throw new Error(data.error || 'فشل الصرف');
+            }
+
+            setResult({
+                referenceNumber: data.transaction.referenceNumber,
+                toAmount: data.transaction.toAmount,
+                toCurrency: data.transaction.toCurrency,
+            });
+            setQuote(null);
+            setAmount('');
+            setPin('');
+            fetchData();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'حدث خطأ');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const formatDate = (dateString: string) => {
+        return new Intl.DateTimeFormat('en-US', {
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+        }).format(new Date(dateString));
+    };
+
+    if (!mounted || loading) {
+        return (
+            <div className="min-h-screen bg-dark-950 flex items-center justify-center" suppressHydrationWarning>
+                <div className="spinner w-12 h-12"></div>
+            </div>
+        );
+    }
+
+    const parsedAmount = parseFloat(amount);
+    const isExpired = quote !== null && secondsLeft === 0;
+
+    return (
+        <div className="min-h-screen bg-dark-950">
+            <header className="navbar">
+                <div className="navbar-container">
+                    <div className="flex items-center gap-2 sm:gap-3">
+                        <Link href="/dashboard" className="btn-ghost btn-icon">
+                            <ArrowLeftIcon className="w-5 h-5 sm:w-6 sm:h-6" />
+                        </Link>
+                        <h1 className="text-lg sm:text-xl font-bold text-white">💱 صرف العملات</h1>
+                    </div>
+                </div>
+            </header>
+
+            <main className="pt-24 pb-8 px-4">
+                <div className="max-w-md mx-auto space-y-4">
+                    <div className="card p-4">
+                        <p className="text-dark-400 text-xs mb-3">رصيدك</p>
+                        <DualBalanceDisplay balances={balances} variant="compact" />
+                    </div>
+
+                    {!rate ? (
+                        <div className="card p-8 text-center text-dark-400">
+                            <p>خدمة الصرف غير متاحة حالياً</p>
+                        </div>
+                    ) : result ? (
+                        <div className="card p-6 text-center space-y-3">
+                            <CheckCircleIcon className="w-16 h-16 text-green-500 mx-auto" />
+                            <h2 className="text-white text-lg font-bold">تم الصرف بنجاح</h2>
+                            <p className="text-white text-2xl font-bold" dir="ltr">
+                                {formatCurrencyAmount(result.toAmount, result.toCurrency)}
+                            </p>
+                            <p className="text-dark-400 text-sm" dir="ltr">{result.referenceNumber}</p>
+                            <button onClick={() => setResult(null)} className="btn-primary w-full">
+                                صرف جديد
+                            </button>
+                        </div>
+                    ) : (
+                        <div className="card p-6 space-y-4">
+                            <div className="grid grid-cols-2 gap-3 text-center">
+                                <div className="bg-dark-800/50 rounded-xl p-3">
+                                    <p className="text-dark-400 text-xs">نشتري الدولار</p>
+                                    <p className="text-white font-semibold" dir="ltr">{formatCurrencyAmount(rate.buyRate, 'SYP')}</p>
+                                </div>
+                                <div className="bg-dark-800/50 rounded-xl p-3">
+                                    <p className="text-dark-400 text-xs">نبيع الدولار</p>
+                                    <p className="text-white font-semibold" dir="ltr">{formatCurrencyAmount(rate.sellRate, 'SYP')}</p>
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="label">تصرف من ({fromCurrency})</label>
+                                <input
+                                    type="number"
+                                    className="input text-center text-xl"
+                                    dir="ltr"
+                                    min="0.01"
+                                    step={fromCurrency === 'SYP' ? '1' : '0.01'}
+                                    value={amount}
+                                    disabled={quote !== null}
+                                    onChange={(e) => setAmount(e.target.value)}
+                                />
+                                <p className="text-dark-500 text-xs mt-1">
+                                    المتاح: {formatCurrencyAmount(balances[fromCurrency], fromCurrency)}
+                                </p>
+                            </div>
+
+                            <div className="flex justify-center">
+                                <button
+                                    onClick={flipDirection}
+                                    className="btn-secondary btn-icon"
+                                    aria-label="عكس الاتجاه"
+                                >
+                                    <ArrowsUpDownIcon className="w-5 h-5" />
+                                </button>
+                            </div>
+
+                            <p className="text-center text-dark-400 text-sm">تستلم بـ {toCurrency}</p>
+
+                            {quote && (
+                                <div className="bg-primary-500/10 border border-primary-500/30 rounded-xl p-4 space-y-2">
+                                    <div className="flex justify-between">
+                                        <span className="text-dark-400">تدفع</span>
+                                        <span className="text-white" dir="ltr">{formatCurrencyAmount(quote.fromAmount, quote.fromCurrency)}</span>
+                                    </div>
+                                    <div className="flex justify-between">
+                                        <span className="text-dark-400">تستلم</span>
+                                        <span className="text-white font-bold" dir="ltr">{formatCurrencyAmount(quote.toAmount, quote.toCurrency)}</span>
+                                    </div>
+                                    <div className="flex justify-between">
+                                        <span className="text-dark-400">السعر</span>
+                                        <span className="text-white" dir="ltr">1 USD = {formatCurrencyAmount(quote.rate, 'SYP')}</span>
+                                    </div>
+                                    <p className={`text-xs text-center ${isExpired ? 'text-red-400' : 'text-dark-400'}`}>
+                                        {isExpired ? 'انتهت صلاحية السعر' : `السعر مثبت لمدة ${secondsLeft} ثانية`}
+                                    </p>
+                                </div>
+                            )}
+
+                            {quote && !isExpired && (
+                                <div>
+                                    <label className="label">رمز الدفع</label>
+                                    <input
+                                        type="password"
+                                        inputMode="numeric"
+                                        maxLength={4}
+                                        className="input text-center text-2xl tracking-[0.8em]"
+                                        placeholder="••••"
+                                        value={pin}
+                                        onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 4))}
+                                    />
+                                </div>
+                            )}
+
+                            {error && <p className="text-red-400 text-sm text-center">{error}</p>}
+
+                            {!quote || isExpired ? (
+                                <button
+                                    onClick={getQuote}
+                                    disabled={isLoading || !(parsedAmount > 0) || parsedAmount > balances[fromCurrency]}
+                                    className="btn-primary w-full"
+                                >
+                                    {isLoading ? <div className="spinner w-5 h-5"></div> : isExpired ? 'تحديث السعر' : 'احصل على السعر'}
+                                </button>
+                            ) : (
+                                <div className="flex gap-3">
+                                    <button
+                                        onClick={executeQuote}
+                                        disabled={isLoading || pin.length !== 4}
+                                        className="btn-primary flex-1"
+                                    >
+                                        {isLoading ? <div className="spinner w-5 h-5"></div> : 'تأكيد الصرف'}
+                                    </button>
+                                    <button onClick={() => setQuote(null)} className="btn-secondary flex-1">
+                                        تعديل
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {exchanges.length > 0 && (
+                        <div className="card p-4">
+                            <h3 className="text-dark-400 text-sm mb-3">عمليات الصرف الأخيرة</h3>
+                            <div className="space-y-3">
+                                {exchanges.map(exchange => (
+                                    <div key={exchange.id} className="flex items-center justify-between text-sm">
+                                        <span className="text-dark-400">{formatDate(exchange.executedAt)}</span>
+                                        <span className="text-white" dir="ltr">
+                                            {formatCurrencyAmount(exchange.fromAmount, exchange.fromCurrency)} → {formatCurrencyAmount(exchange.toAmount, exchange.toCurrency)}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </main>
+        </div>
+    );
+}
@@ -19,9 +19,11 @@ import {
     ShoppingBagIcon,
 } from '@heroicons/react/24/outline';
 import usePushNotifications from '@/hooks/usePushNotifications';
-import { DualBalanceDisplay, formatCurrencyAmount, CurrencyToggle, type Currency } from '@/components/CurrencySelector';
+import { DualBalanceDisplay, formatCurrencyAmount, type Currency } from '@/components/CurrencySelector';
 
 import TransactionDetailsModal from '@/components/TransactionDetailsModal';
+import PendingWithdrawalRequests from '@/components/PendingWithdrawalRequests';
+import PaymentRequests from '@/components/PaymentRequests';
 
 interface WalletData {
     balance: number;
@@ -70,7 +72,6 @@ export default function UserDashboard() {
     const [merchantProfile, setMerchantProfile] = useState<MerchantProfile | null>(null);
     const [hasMerchantAccount, setHasMerchantAccount] = useState(false);
     const [transactions, setTransactions] = useState<Transaction[]>([]);
-    const [showTransferModal, setShowTransferModal] = useState(false);
     const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
     const [isDetailsModalOpen, setIsDetailsModalOpen] = useState(false);
 
@@ -223,6 +224,9 @@ export default function UserDashboard() {
             <main className="pt-20 pb-24 px-4">
                 <div className="max-w-4xl mx-auto space-y-6">
 
+                    {/* Agent withdrawal requests awaiting confirmation */}
+                    <PendingWithdrawalRequests refreshKey={notification} onCompleted={fetchWalletData} />
+
                     {/* Balance Card */}
                     <div className="card p-8 relative overflow-hidden">
                         <div className="absolute inset-0 bg-gradient-to-br from-primary-500/5 via-transparent to-primary-500/10"></div>
@@ -318,6 +322,22 @@ export default function UserDashboard() {
                         </Link>
                     )}
 
+                    {/* Currency Exchange Quick Link */}
+                    <Link href="/dashboard/exchange" className="card p-4 hover:border-primary-500/40 transition-all group mt-4 overflow-hidden block">
+                        <div className="flex items-center gap-4">
+                            <div className="w-12 h-12 rounded-xl bg-pink-500/10 flex items-center justify-center flex-shrink-0">
+                                <span className="text-2xl">💱</span>
+                            </div>
+                            <div className="flex-1 min-w-0">
+                                <h3 className="text-white font-semibold">صرف العملات</h3>
+                                <p className="text-dark-400 text-sm">تحويل بين الدولار والليرة السورية</p>
+                            </div>
+                            <div className="text-primary-500 flex-shrink-0">
+                                ←
+                            </div>
+                        </div>
+                    </Link>
+
                     {/* Services Quick Link */}
                     <Link href="/dashboard/services" className="card p-4 hover:border-primary-500/40 transition-all group mt-4 mb-4 overflow-hidden block">
                         <div className="flex items-center gap-4">
@@ -350,6 +370,8 @@ export default function UserDashboard() {
                         </div>
                     </Link>
 
+                    {/* Request money - incoming and outgoing payment requests */}
+                    <PaymentRequests refreshKey={notification} onCompleted={fetchWalletData} />
 
                     {/* Recent Transactions */}
                     <div className="card p-6">
@@ -409,11 +431,6 @@ export default function UserDashboard() {
                 </div>
             </main>
 
-            {/* Transfer Modal */}
-            {showTransferModal && (
-                <TransferModal onClose={() => setShowTransferModal(false)} onSuccess={fetchWalletData} />
-            )}
-
             <TransactionDetailsModal
                 isOpen={isDetailsModalOpen}
                 onClose={() => setIsDetailsModalOpen(false)}
@@ -423,144 +440,3 @@ export default function UserDashboard() {
         </div>
     );
 }
-
-// Transfer Modal Component
-function TransferModal({ onClose, onSuccess }: { onClose: () => void; onSuccess: () => void }) {
-    const t = useTranslations();
-    const [isLoading, setIsLoading] = useState(false);
-    const [error, setError] = useState('');
-    const [success, setSuccess] = useState(false);
-    const [formData, setFormData] = useState({
-        recipientPhone: '',
-        amount: '',
-        note: '',
-        currency: 'USD' as Currency,
-    });
-
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
-        setIsLoading(true);
-        setError('');
-
-        try {
-            const response = await fetch('/api/transactions/transfer', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    recipientPhone: formData.recipientPhone,
-                    amount: parseFloat(formData.amount),
-                    currency: formData.currency,
-                    note: formData.note || undefined,
-                }),
-            });
-
-            const data = await response.json();
-
-            if (!response.ok) {
-                throw new Error(data.error || 'Transfer failed');
-            }
-
-            setSuccess(true);
-            onSuccess();
-            setTimeout(() => onClose(), 2000);
-        } catch (err) {
-            setError(err instanceof Error ? err.message : 'An error occurred');
-        } finally {
-            setIsLoading(false);
-        }
-    };
-
-    if (success) {
-        return (
-            <div className="modal-backdrop" onClick={onClose}>
-                <div className="modal" onClick={(e) => e.stopPropagation()}>
-                    <div className="p-8 text-center">
-                        <div className="w-20 h-20 rounded-full bg-green-500/10 flex items-center justify-center mx-auto mb-4">
-                            <CheckCircleIcon className="w-10 h-10 text-green-500" />
-                        </div>
-                        <h3 className="text-2xl font-bold text-white mb-2">{t('transaction.transfer.success')}</h3>
-                        <p className="text-dark-400">تم تنفيذ التحويل بنجاح</p>
-                    </div>
-                </div>
-            </div>
-        );
-    }
-
-    return (
-        <div className="modal-backdrop" onClick={onClose}>
-            <div className="modal" onClick={(e) => e.stopPropagation()}>
-                <div className="modal-header">
-                    <h3 className="text-xl font-semibold text-white">{t('transaction.transfer.title')}</h3>
-                    <button onClick={onClose} className="text-dark-400 hover:text-white">
-                        <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                        </svg>
-                    </button>
-                </div>
-
-                <form onSubmit={handleSubmit}>
-                    <div className="modal-body space-y-4">
-                        {error && (
-                            <div className="p-4 rounded-xl bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
-                                {error}
-                            </div>
-                        )}
-
-                        <div>
-                            <label className="label">{t('transaction.transfer.recipient')}</label>
-                            <input
-                                type="tel"
-                                className="input"
-                                placeholder="09XX XXX XXX"
-                                dir="ltr"
-                                value={formData.recipientPhone}
-                                onChange={(e) => setFormData({ ...formData, recipientPhone: e.target.value })}
-                                required
-                            />
-                        </div>
-
-                        <div>
-                            <label className="label">{t('transaction.transfer.amount')}</label>
-                            <div className="flex items-center gap-2">
-                                <input
-                                    type="number"
-                                    className="input flex-1"
-                                    placeholder="0"
-                                    dir="ltr"
-                                    min="1"
-                                    value={formData.amount}
-                                    onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
-                                    required
-                                />
-                                <CurrencyToggle
-                                    value={formData.currency}
-                                    onChange={(c) => setFormData({ ...formData, currency: c })}
-                                />
-                            </div>
-                        </div>
-
-                        <div>
-                            <label className="label">{t('transaction.transfer.note')}</label>
-                            <input
-                                type="text"
-                                className="input"
-                                placeholder="ملاحظة اختيارية..."
-                                value={formData.note}
-                                onChange={(e) => setFormData({ ...formData, note: e.target.value })}
-                            />
-                        </div>
-                    </div>
-
-                    <div className="modal-footer">
-                        <button type="button" onClick={onClose} className="btn-secondary">
-                            {t('common.cancel')}
-                        </button>
-                        <button type="submit" className="btn-primary" disabled={isLoading}>
-                            {isLoading ? <div className="spinner w-5 h-5"></div> : t('transaction.transfer.confirm')}
-                        </button>
-                    </div>
-                </form>
-            </div>
-        </div>
-    );
-}
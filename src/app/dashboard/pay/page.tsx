@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, lazy, Suspense } from 'react';
+import { useState, useEffect, useCallback, lazy, Suspense } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import {
@@ -9,8 +9,11 @@ import {
     CheckCircleIcon,
     CameraIcon,
     MagnifyingGlassIcon,
+    StarIcon,
 } from '@heroicons/react/24/outline';
+import { StarIcon as StarIconSolid } from '@heroicons/react/24/solid';
 import CurrencySelector, { type Currency, formatCurrencyAmount } from '@/components/CurrencySelector';
+import BeneficiaryPicker from '@/components/BeneficiaryPicker';
 
 // Dynamic import for QR Scanner (to avoid SSR issues)
 const QRScanner = lazy(() => import('@/components/QRScanner'));
@@ -22,6 +25,14 @@ interface Merchant {
     merchantCode: string;
 }
 
+interface DynamicQR {
+    qrData: string;
+    amount: number;
+    currency: Currency;
+    orderReference: string | null;
+    expiresAt: string;
+}
+
 interface WalletBalances {
     USD: number;
     SYP: number;
@@ -37,18 +48,15 @@ export default function PayPage() {
     const [showScanner, setShowScanner] = useState(false);
     const [currency, setCurrency] = useState<Currency>('USD');
     const [balances, setBalances] = useState<WalletBalances>({ USD: 0, SYP: 0 });
+    const [dynamicQR, setDynamicQR] = useState<DynamicQR | null>(null);
+    const [merchantSaved, setMerchantSaved] = useState(false);
     const [formData, setFormData] = useState({
         merchantCode: '',
         amount: '',
         pin: '',
     });
 
-    useEffect(() => {
-        setMounted(true);
-        fetchBalances();
-    }, []);
-
-    const fetchBalances = async () => {
+    const fetchBalances = useCallback(async () => {
         try {
             const res = await fetch('/api/wallet');
             if (res.ok) {
@@ -61,7 +69,46 @@ export default function PayPage() {
         } catch (error) {
             console.error('Error fetching balances:', error);
         }
-    };
+    }, []);
+
+    // Per-sale QR: amount and currency are fixed by the merchant, go straight to PIN
+    const lookupDynamicQR = useCallback(async (qrData: string) => {
+        setIsLoading(true);
+        setError('');
+
+        try {
+            const res = await fetch(`/api/merchants/lookup?qr=${encodeURIComponent(qrData)}`);
+            const data = await res.json();
+            if (res.ok && data.merchant && data.dynamicQR) {
+                setMerchant(data.merchant);
+                setDynamicQR({ ...data.dynamicQR, qrData });
+                setCurrency(data.dynamicQR.currency);
+                setFormData(prev => ({
+                    ...prev,
+                    merchantCode: data.merchant.merchantCode,
+                    amount: data.dynamicQR.amount.toString(),
+                }));
+                setStep('pin');
+            } else {
+                setError(data.error || 'رمز QR غير صالح');
+                setStep('method');
+            }
+        } catch (err) {
+            setError('خطأ في الاتصال');
+        }
+        setIsLoading(false);
+    }, []);
+
+    useEffect(() => {
+        setMounted(true);
+        fetchBalances();
+
+        // Dynamic QR opened as a link (/dashboard/pay?qr=DQR...)
+        const qr = new URLSearchParams(window.location.search).get('qr');
+        if (qr) {
+            lookupDynamicQR(qr);
+        }
+    }, [fetchBalances, lookupDynamicQR]);
 
     const lookupMerchant = async (code?: string) => {
         const merchantCode = code || formData.merchantCode;
@@ -74,6 +121,7 @@ export default function PayPage() {
             const data = await res.json();
             if (res.ok && data.merchant) {
                 setMerchant(data.merchant);
+                setMerchantSaved(false);
                 setFormData(prev => ({ ...prev, merchantCode: data.merchant.merchantCode }));
                 setStep('amount');
             } else {
@@ -85,8 +133,41 @@ export default function PayPage() {
         setIsLoading(false);
     };
 
+    const saveFavoriteMerchant = async () => {
+        if (!merchant) return;
+
+        try {
+            const res = await fetch('/api/user/beneficiaries', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    type: 'MERCHANT',
+                    merchantCode: merchant.merchantCode,
+                    nickname: merchant.businessNameAr || merchant.businessName,
+                    defaultCurrency: currency,
+                }),
+            });
+
+            // 409 = already a favorite
+            if (res.ok || res.status === 409) {
+                setMerchantSaved(true);
+            } else {
+                const data = await res.json();
+                setError(data.error || 'فشل الحفظ');
+            }
+        } catch (err) {
+            setError('خطأ في الاتصال');
+        }
+    };
+
     const handleQRScan = (result: string) => {
         setShowScanner(false);
+
+        if (result.startsWith('DQR.')) {
+            lookupDynamicQR(result);
+            return;
+        }
+
         // Parse QR result - could be merchant code or URL
         let code = result;
 
@@ -135,6 +216,7 @@ export default function PayPage() {
                     merchantCode: formData.merchantCode,
                     amount: parseFloat(formData.amount),
                     currency, // Add currency to request
+                    qrData: dynamicQR?.qrData,
                 }),
             });
 
@@ -175,6 +257,11 @@ export default function PayPage() {
                                 if (step === 'method') router.push('/dashboard');
                                 else if (step === 'code') setStep('method');
                                 else if (step === 'amount') setStep('code');
+                                else if (step === 'pin' && dynamicQR) {
+                                    setDynamicQR(null);
+                                    setFormData({ merchantCode: '', amount: '', pin: '' });
+                                    setStep('method');
+                                }
                                 else if (step === 'pin') setStep('amount');
                             }}
                             className="btn-ghost btn-icon"
@@ -228,6 +315,20 @@ export default function PayPage() {
                                     </div>
                                 </div>
                             </button>
+
+                            {isLoading && <div className="spinner w-8 h-8 mx-auto"></div>}
+                            {error && <p className="text-red-400 text-sm text-center">{error}</p>}
+
+                            {/* Favorite merchants */}
+                            <BeneficiaryPicker
+                                type="MERCHANT"
+                                onSelect={(selection) => {
+                                    if (!selection.merchantCode) return;
+                                    setCurrency(selection.currency);
+                                    setFormData(prev => ({ ...prev, merchantCode: selection.merchantCode! }));
+                                    lookupMerchant(selection.merchantCode);
+                                }}
+                            />
                         </div>
                     )}
 
@@ -263,6 +364,14 @@ export default function PayPage() {
                                 </div>
                                 <h2 className="text-white font-semibold">{merchant.businessNameAr || merchant.businessName}</h2>
                                 <p className="text-dark-400 text-sm">{merchant.merchantCode}</p>
+                                <button
+                                    onClick={saveFavoriteMerchant}
+                                    disabled={merchantSaved}
+                                    className="btn-ghost btn-sm inline-flex items-center gap-1 mt-2 text-yellow-400"
+                                >
+                                    {merchantSaved ? <StarIconSolid className="w-4 h-4" /> : <StarIcon className="w-4 h-4" />}
+                                    {merchantSaved ? 'في المفضلة' : 'إضافة للمفضلة'}
+                                </button>
                             </div>
 
                             {/* Currency Selector */}
@@ -320,6 +429,12 @@ export default function PayPage() {
                                 <h2 className="text-white font-semibold text-lg mb-2">تأكيد الدفع</h2>
                                 <p className="text-dark-400">{merchant.businessNameAr || merchant.businessName}</p>
                                 <p className="text-primary-500 text-3xl font-bold mt-2">{formatCurrencyAmount(parseFloat(formData.amount), currency)}</p>
+                                {dynamicQR?.orderReference && (
+                                    <p className="text-dark-400 text-sm mt-2">رقم الطلب: {dynamicQR.orderReference}</p>
+                                )}
+                                {dynamicQR && parseFloat(formData.amount) > balances[currency] && (
+                                    <p className="text-red-400 text-sm mt-2">⚠️ رصيدك غير كافٍ</p>
+                                )}
                             </div>
 
                             <div className="mb-6">
@@ -0,0 +1,238 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import {
+    ArrowLeftIcon,
+    ComputerDesktopIcon,
+    DevicePhoneMobileIcon,
+    ShieldCheckIcon,
+    XMarkIcon,
+} from '@heroicons/react/24/outline';
+
+interface SessionItem {
+    id: string;
+    deviceName: string;
+    deviceType: string | null;
+    deviceId: string | null;
+    isTrusted: boolean;
+    ipAddress: string | null;
+    location: string | null;
+    lastSeenAt: string;
+    createdAt: string;
+    isCurrent: boolean;
+}
+
+interface DeviceItem {
+    id: string;
+    deviceName: string;
+    deviceType: string | null;
+    lastIpAddress: string | null;
+    lastLocation: string | null;
+    lastUsedAt: string;
+    createdAt: string;
+    isTrusted: boolean;
+    twoFactorRemembered: boolean;
+}
+
+function formatDateTime(date: string) {
+    return new Date(date).toLocaleString('ar-SY', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export default function DevicesPage() {
+    const [mounted, setMounted] = useState(false);
+    const [loading, setLoading] = useState(true);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [sessions, setSessions] = useState<SessionItem[]>([]);
+    const [devices, setDevices] = useState<DeviceItem[]>([]);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    useEffect(() => {
+        setMounted(true);
+        fetchSessions();
+    }, []);
+
+    const fetchSessions = async () => {
+        try {
+            const res = await fetch('/api/user/sessions');
+            if (res.ok) {
+                const data = await res.json();
+                setSessions(data.sessions || []);
+                setDevices(data.devices || []);
+            }
+        } catch (error) {
+            console.error('Error:', error);
+        }
+        setLoading(false);
+    };
+
+    const run = async (id: string, url: string, init: RequestInit, successText: string) => {
+        setBusyId(id);
+        setMessage(null);
+        try {
+            const res = await fetch(url, init);
+            const data = await res.json();
+            if (res.ok) {
+                setMessage({ type: 'success', text: successText });
+                fetchSessions();
+            } else {
+                setMessage({ type: 'error', text: data.error || 'حدث خطأ' });
+            }
+        } catch (error) {
+            setMessage({ type: 'error', text: 'خطأ في الاتصال' });
+        }
+        setBusyId(null);
+    };
+
+    const revokeSession = (id: string) =>
+        run(id, `/api/user/sessions/${id}`, { method: 'DELETE' }, 'تم إنهاء الجلسة');
+
+    const revokeOthers = () => {
+        if (!confirm('هل تريد تسجيل الخروج من جميع الأجهزة الأخرى؟')) return;
+        run('others', '/api/user/sessions', { method: 'DELETE' }, 'تم تسجيل الخروج من جميع الأجهزة الأخرى');
+    };
+
+    const setTrusted = (id: string, isTrusted: boolean) =>
+        run(id, `/api/user/devices/${id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ isTrusted }),
+        }, isTrusted ? 'تم توثيق الجهاز' : 'تم إلغاء توثيق الجهاز');
+
+    if (!mounted || loading) {
+        return (
+            <div className="min-h-screen bg-dark-950 flex items-center justify-center" suppressHydrationWarning>
+                <div className="spinner w-12 h-12"></div>
+            </div>
+        );
+    }
+
+    const otherSessions = sessions.filter(s => !s.isCurrent).length;
+
+    return (
+        <div className="min-h-screen bg-dark-950">
+            <header className="navbar">
+                <div className="navbar-container">
+                    <div className="flex items-center gap-2 sm:gap-3">
+                        <Link href="/dashboard/settings" className="btn-ghost btn-icon">
+                            <ArrowLeftIcon className="w-5 h-5 sm:w-6 sm:h-6" />
+                        </Link>
+                        <h1 className="text-lg sm:text-xl font-bold text-white">📱 الأجهزة والجلسات</h1>
+                    </div>
+                </div>
+            </header>
+
+            <main className="pt-24 pb-8 px-4">
+                <div className="max-w-2xl mx-auto space-y-6">
+                    {message && (
+                        <div className={`card p-4 ${message.type === 'success' ? 'bg-green-500/10 border-green-500/30' : 'bg-red-500/10 border-red-500/30'}`}>
+                            <p className={`text-center ${message.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+                                {message.text}
+                            </p>
+                        </div>
+                    )}
+
+                    {/* Sessions */}
+                    <div className="card p-6">
+                        <div className="flex items-center justify-between mb-4">
+                            <h2 className="text-white font-semibold">الجلسات النشطة</h2>
+                            {otherSessions > 0 && (
+                                <button
+                                    onClick={revokeOthers}
+                                    disabled={busyId !== null}
+                                    className="btn-sm bg-red-500/10 text-red-500 hover:bg-red-500/20 rounded-lg"
+                                >
+                                    تسجيل الخروج من الأجهزة الأخرى
+                                </button>
+                            )}
+                        </div>
+                        <div className="space-y-3">
+                            {sessions.map(session => {
+                                const Icon = session.deviceType === 'MOBILE' ? DevicePhoneMobileIcon : ComputerDesktopIcon;
+                                return (
+                                    <div key={session.id} className="flex items-start justify-between gap-3 p-3 rounded-xl bg-dark-800/50">
+                                        <div className="flex items-start gap-3">
+                                            <div className="w-10 h-10 rounded-xl bg-dark-800 flex items-center justify-center flex-shrink-0">
+                                                <Icon className="w-5 h-5 text-primary-500" />
+                                            </div>
+                                            <div>
+                                                <p className="text-white text-sm flex items-center gap-2">
+                                                    <span dir="ltr">{session.deviceName}</span>
+                                                    {session.isCurrent && <span className="badge-success">هذا الجهاز</span>}
+                                                    {session.isTrusted && <ShieldCheckIcon className="w-4 h-4 text-green-400" />}
+                                                </p>
+                                                <p className="text-dark-400 text-xs mt-1" dir="ltr">
+                                                    {[session.location, session.ipAddress].filter(Boolean).join(' - ') || '-'}
+                                                </p>
+                                                <p className="text-dark-500 text-xs mt-1">
+                                                    آخر نشاط: {formatDateTime(session.lastSeenAt)}
+                                                </p>
+                                            </div>
+                                        </div>
+                                        {!session.isCurrent && (
+                                            <button
+                                                onClick={() => revokeSession(session.id)}
+                                                disabled={busyId !== null}
+                                                className="btn-ghost btn-icon text-red-400"
+                                                title="إنهاء الجلسة"
+                                            >
+                                                <XMarkIcon className="w-5 h-5" />
+                                            </button>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+
+                    {/* Devices */}
+                    <div className="card p-6">
+                        <h2 className="text-white font-semibold mb-2">الأجهزة</h2>
+                        <p className="text-dark-400 text-sm mb-4">
+                            المعاملات من جهاز غير موثق قد تخضع لمراجعة إضافية. وثّق الأجهزة التي تملكها فقط.
+                        </p>
+                        <div className="space-y-3">
+                            {devices.map(device => {
+                                const Icon = device.deviceType === 'MOBILE' ? DevicePhoneMobileIcon : ComputerDesktopIcon;
+                                return (
+                                    <div key={device.id} className="flex items-start justify-between gap-3 p-3 rounded-xl bg-dark-800/50">
+                                        <div className="flex items-start gap-3">
+                                            <div className="w-10 h-10 rounded-xl bg-dark-800 flex items-center justify-center flex-shrink-0">
+                                                <Icon className="w-5 h-5 text-primary-500" />
+                                            </div>
+                                            <div>
+                                                <p className="text-white text-sm flex items-center gap-2">
+                                                    <span dir="ltr">{device.deviceName}</span>
+                                                    {device.isTrusted
+                                                        ? <span className="badge-success">موثق</span>
+                                                        : <span className="badge-warning">غير موثق</span>}
+                                                </p>
+                                                <p className="text-dark-400 text-xs mt-1" dir="ltr">
+                                                    {[device.lastLocation, device.lastIpAddress].filter(Boolean).join(' - ') || '-'}
+                                                </p>
+                                                <p className="text-dark-500 text-xs mt-1">
+                                                    آخر استخدام: {formatDateTime(device.lastUsedAt)}
+                                                    {device.twoFactorRemembered && ' · بدون رمز التحقق'}
+                                                </p>
+                                            </div>
+                                        </div>
+                                        <button
+                                            onClick={() => setTrusted(device.id, !device.isTrusted)}
+                                            disabled={busyId !== null}
+                                            className={device.isTrusted ? 'btn-ghost btn-sm text-dark-400' : 'btn-secondary btn-sm'}
+                                        >
+                                            {device.isTrusted ? 'إلغاء التوثيق' : 'توثيق'}
+                                        </button>
+                                    </div>
+                                );
+                            })}
+                            {devices.length === 0 && (
+                                <p className="text-dark-500 text-sm text-center">لا توجد أجهزة</p>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            </main>
+        </div>
+    );
+}
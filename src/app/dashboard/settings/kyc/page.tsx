@@ -2,7 +2,45 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
-import { ArrowLeftIcon, DocumentIcon, CameraIcon, CheckCircleIcon, XCircleIcon, ClockIcon } from '@heroicons/react/24/outline';
+import { ArrowLeftIcon, DocumentIcon, CameraIcon, HomeIcon, CheckCircleIcon, XCircleIcon, ClockIcon, LockClosedIcon } from '@heroicons/react/24/outline';
+import { formatCurrencyAmount } from '@/components/CurrencySelector';
+
+type DocumentType = 'ID_FRONT' | 'ID_BACK' | 'SELFIE' | 'PROOF_OF_ADDRESS';
+
+interface KycDocument {
+    id: string;
+    documentType: DocumentType;
+    status: string;
+    rejectionReason: string | null;
+    reviewedAt: string | null;
+    createdAt: string;
+}
+
+interface KycTierInfo {
+    tier: number;
+    name: { en: string; ar: string };
+    requirements: DocumentType[];
+    missingDocuments: DocumentType[];
+    limits?: {
+        dailyLimitUSD: number;
+        monthlyLimitUSD: number;
+        dailyLimitSYP: number;
+        monthlyLimitSYP: number;
+    };
+}
+
+const DOCUMENT_INFO: Record<DocumentType, { label: string; hint: string; field: string; icon: typeof DocumentIcon }> = {
+    ID_FRONT: { label: 'صورة الهوية - الوجه الأمامي', hint: 'الهوية الشخصية أو جواز السفر', field: 'idPhotoFront', icon: DocumentIcon },
+    ID_BACK: { label: 'صورة الهوية - الوجه الخلفي', hint: 'الخلف يحتوي على معلومات إضافية', field: 'idPhotoBack', icon: DocumentIcon },
+    SELFIE: { label: 'صورة سيلفي مع الهوية', hint: 'وجهك + الهوية بيدك', field: 'selfiePhoto', icon: CameraIcon },
+    PROOF_OF_ADDRESS: { label: 'إثبات العنوان', hint: 'فاتورة كهرباء أو ماء أو عقد إيجار باسمك', field: 'proofOfAddress', icon: HomeIcon },
+};
+
+const DOCUMENT_STATUS: Record<string, { label: string; color: string }> = {
+    PENDING: { label: 'قيد المراجعة', color: 'text-yellow-400' },
+    APPROVED: { label: 'مقبول ✓', color: 'text-green-400' },
+    REJECTED: { label: 'مرفوض', color: 'text-red-400' },
+};
 
 export default function KYCPage() {
     const [mounted, setMounted] = useState(false);
@@ -10,12 +48,13 @@ export default function KYCPage() {
     const [submitting, setSubmitting] = useState(false);
     const [kycStatus, setKycStatus] = useState<string>('NOT_SUBMITTED');
     const [rejectionReason, setRejectionReason] = useState<string>('');
-    const [idPhotoFront, setIdPhotoFront] = useState<File | null>(null);
-    const [idPhotoBack, setIdPhotoBack] = useState<File | null>(null);
-    const [selfiePhoto, setSelfiePhoto] = useState<File | null>(null);
-    const [idPreviewFront, setIdPreviewFront] = useState<string>('');
-    const [idPreviewBack, setIdPreviewBack] = useState<string>('');
-    const [selfiePreview, setSelfiePreview] = useState<string>('');
+    const [tier, setTier] = useState(0);
+    const [requestedTier, setRequestedTier] = useState<number | null>(null);
+    const [tiers, setTiers] = useState<KycTierInfo[]>([]);
+    const [documents, setDocuments] = useState<KycDocument[]>([]);
+    const [targetTier, setTargetTier] = useState<number | null>(null);
+    const [files, setFiles] = useState<Partial<Record<DocumentType, File>>>({});
+    const [previews, setPreviews] = useState<Partial<Record<DocumentType, string>>>({});
     const [error, setError] = useState('');
     const [success, setSuccess] = useState(false);
 
@@ -31,6 +70,10 @@ export default function KYCPage() {
                 const data = await res.json();
                 setKycStatus(data.status || 'NOT_SUBMITTED');
                 setRejectionReason(data.rejectionReason || '');
+                setTier(data.tier || 0);
+                setRequestedTier(data.requestedTier ?? null);
+                setTiers(data.tiers || []);
+                setDocuments(data.documents || []);
             }
         } catch (error) {
             console.error('Error:', error);
@@ -38,24 +81,31 @@ export default function KYCPage() {
         setLoading(false);
     };
 
-    const handleFileChange = (file: File | null, type: 'id-front' | 'id-back' | 'selfie') => {
+    const handleFileChange = (file: File | null, type: DocumentType) => {
         if (!file) return;
+        setFiles({ ...files, [type]: file });
+        setPreviews({ ...previews, [type]: URL.createObjectURL(file) });
+    };
 
-        if (type === 'id-front') {
-            setIdPhotoFront(file);
-            setIdPreviewFront(URL.createObjectURL(file));
-        } else if (type === 'id-back') {
-            setIdPhotoBack(file);
-            setIdPreviewBack(URL.createObjectURL(file));
-        } else {
-            setSelfiePhoto(file);
-            setSelfiePreview(URL.createObjectURL(file));
-        }
+    const selectTier = (value: number) => {
+        setTargetTier(value);
+        setFiles({});
+        setPreviews({});
+        setError('');
     };
 
+    const target = tiers.find(t => t.tier === targetTier);
+    // The ID back goes along with a new ID front
+    const uploadTypes: DocumentType[] = target
+        ? target.missingDocuments.includes('ID_FRONT')
+            ? [...target.missingDocuments, 'ID_BACK']
+            : target.missingDocuments
+        : [];
+    const requiredReady = target ? target.missingDocuments.every(type => files[type]) : false;
+
     const handleSubmit = async () => {
-        if (!idPhotoFront || !idPhotoBack || !selfiePhoto) {
-            setError('الرجاء رفع جميع الصور المطلوبة (صورة الهوية الأمامية والخلفية + السيلفي)');
+        if (!target || !requiredReady) {
+            setError('الرجاء رفع جميع المستندات المطلوبة');
             return;
         }
 
@@ -64,9 +114,13 @@ export default function KYCPage() {
 
         try {
             const formData = new FormData();
-            formData.append('idPhotoFront', idPhotoFront);
-            formData.append('idPhotoBack', idPhotoBack);
-            formData.append('selfiePhoto', selfiePhoto);
+            formData.append('tier', String(target.tier));
+            for (const type of uploadTypes) {
+                const file = files[type];
+                if (file) {
+                    formData.append(DOCUMENT_INFO[type].field, file);
+                }
+            }
 
             const res = await fetch('/api/user/kyc/submit', {
                 method: 'POST',
@@ -76,7 +130,8 @@ export default function KYCPage() {
             const data = await res.json();
             if (res.ok) {
                 setSuccess(true);
-                setKycStatus('PENDING');
+                setTargetTier(null);
+                fetchKycStatus();
             } else {
                 setError(data.error || 'حدث خطأ');
             }
@@ -103,6 +158,7 @@ export default function KYCPage() {
 
     const status = statusConfig[kycStatus as keyof typeof statusConfig] || statusConfig.NOT_SUBMITTED;
     const StatusIcon = status.icon;
+    const currentTierName = tiers.find(t => t.tier === tier)?.name.ar;
 
     return (
         <div className="min-h-screen bg-dark-950">
@@ -124,8 +180,15 @@ export default function KYCPage() {
                         <div className="flex items-center gap-4">
                             <StatusIcon className={`w-12 h-12 ${status.color}`} />
                             <div>
-                                <p className="text-dark-400 text-sm">حالة التوثيق</p>
-                                <p className={`text-lg font-bold ${status.color}`}>{status.label}</p>
+                                <p className="text-dark-400 text-sm">مستوى التوثيق</p>
+                                <p className="text-lg font-bold text-white">
+                                    المستوى {tier}{currentTierName && ` - ${currentTierName}`}
+                                </p>
+                                {kycStatus !== 'NOT_SUBMITTED' && (
+                                    <p className={`text-sm ${status.color}`}>
+                                        آخر طلب{requestedTier !== null && kycStatus === 'PENDING' ? ` (المستوى ${requestedTier})` : ''}: {status.label}
+                                    </p>
+                                )}
                             </div>
                         </div>
                         {kycStatus === 'REJECTED' && rejectionReason && (
@@ -144,114 +207,144 @@ export default function KYCPage() {
                         </div>
                     )}
 
+                    {/* Upgrade path */}
+                    <div className="card p-6">
+                        <h2 className="text-white font-semibold mb-4">مستويات التوثيق</h2>
+                        <div className="space-y-3">
+                            {tiers.map(t => {
+                                const isCurrent = t.tier === tier;
+                                const isReached = t.tier <= tier;
+                                const canUpgrade = t.tier > tier && kycStatus !== 'PENDING';
+                                return (
+                                    <div
+                                        key={t.tier}
+                                        className={`p-4 rounded-xl border ${isCurrent ? 'border-primary-500/50 bg-primary-500/10' : 'border-dark-700 bg-dark-800/50'}`}
+                                    >
+                                        <div className="flex items-center justify-between gap-2">
+                                            <div>
+                                                <p className="text-white font-medium">المستوى {t.tier} - {t.name.ar}</p>
+                                                <p className="text-dark-400 text-xs mt-1">
+                                                    {t.requirements.length === 0
+                                                        ? 'رقم الهاتف فقط'
+                                                        : t.requirements.map(type => DOCUMENT_INFO[type].label).join('، ')}
+                                                </p>
+                                            </div>
+                                            {isReached ? (
+                                                <CheckCircleIcon className="w-6 h-6 text-green-400 flex-shrink-0" />
+                                            ) : canUpgrade ? (
+                                                <button onClick={() => selectTier(t.tier)} className="btn-primary btn-sm flex-shrink-0">
+                                                    ترقية
+                                                </button>
+                                            ) : (
+                                                <LockClosedIcon className="w-5 h-5 text-dark-500 flex-shrink-0" />
+                                            )}
+                                        </div>
+                                        {t.limits && (
+                                            <div className="grid grid-cols-2 gap-2 mt-3 text-xs" dir="ltr">
+                                                <p className="text-dark-400">
+                                                    يومي: <span className="text-dark-200">{formatCurrencyAmount(t.limits.dailyLimitUSD, 'USD')}</span>
+                                                </p>
+                                                <p className="text-dark-400">
+                                                    شهري: <span className="text-dark-200">{formatCurrencyAmount(t.limits.monthlyLimitUSD, 'USD')}</span>
+                                                </p>
+                                                <p className="text-dark-400">
+                                                    يومي: <span className="text-dark-200">{formatCurrencyAmount(t.limits.dailyLimitSYP, 'SYP')}</span>
+                                                </p>
+                                                <p className="text-dark-400">
+                                                    شهري: <span className="text-dark-200">{formatCurrencyAmount(t.limits.monthlyLimitSYP, 'SYP')}</span>
+                                                </p>
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+
                     {/* Upload Form */}
-                    {(kycStatus === 'NOT_SUBMITTED' || kycStatus === 'REJECTED') && !success && (
+                    {target && (
                         <div className="card p-6">
-                            <h2 className="text-white font-semibold mb-4">رفع المستندات</h2>
-
-                            {/* ID Photo Front */}
-                            <div className="mb-4">
-                                <label className="block text-dark-300 text-sm mb-2">
-                                    صورة الهوية - الوجه الأمامي
-                                    <span className="text-primary-500 mr-1">*</span>
-                                </label>
-                                <div
-                                    className="border-2 border-dashed border-dark-600 rounded-xl p-4 text-center cursor-pointer hover:border-primary-500/50 transition-colors"
-                                    onClick={() => document.getElementById('id-front-input')?.click()}
-                                >
-                                    {idPreviewFront ? (
-                                        <img src={idPreviewFront} alt="ID Front" className="w-full h-32 object-cover rounded-lg" />
-                                    ) : (
-                                        <>
-                                            <DocumentIcon className="w-10 h-10 text-dark-500 mx-auto mb-2" />
-                                            <p className="text-dark-400 text-sm">اضغط لرفع الوجه الأمامي</p>
-                                            <p className="text-dark-500 text-xs mt-1">الهوية الشخصية أو جواز السفر</p>
-                                        </>
-                                    )}
-                                </div>
-                                <input
-                                    id="id-front-input"
-                                    type="file"
-                                    accept="image/*"
-                                    className="hidden"
-                                    onChange={(e) => handleFileChange(e.target.files?.[0] || null, 'id-front')}
-                                />
-                            </div>
-
-                            {/* ID Photo Back */}
-                            <div className="mb-4">
-                                <label className="block text-dark-300 text-sm mb-2">
-                                    صورة الهوية - الوجه الخلفي
-                                    <span className="text-primary-500 mr-1">*</span>
-                                </label>
-                                <div
-                                    className="border-2 border-dashed border-dark-600 rounded-xl p-4 text-center cursor-pointer hover:border-primary-500/50 transition-colors"
-                                    onClick={() => document.getElementById('id-back-input')?.click()}
-                                >
-                                    {idPreviewBack ? (
-                                        <img src={idPreviewBack} alt="ID Back" className="w-full h-32 object-cover rounded-lg" />
-                                    ) : (
-                                        <>
-                                            <DocumentIcon className="w-10 h-10 text-dark-500 mx-auto mb-2" />
-                                            <p className="text-dark-400 text-sm">اضغط لرفع الوجه الخلفي</p>
-                                            <p className="text-dark-500 text-xs mt-1">الخلف يحتوي على معلومات إضافية</p>
-                                        </>
-                                    )}
-                                </div>
-                                <input
-                                    id="id-back-input"
-                                    type="file"
-                                    accept="image/*"
-                                    className="hidden"
-                                    onChange={(e) => handleFileChange(e.target.files?.[0] || null, 'id-back')}
-                                />
-                            </div>
+                            <h2 className="text-white font-semibold mb-4">رفع المستندات - المستوى {target.tier}</h2>
 
-                            {/* Selfie Photo */}
-                            <div className="mb-6">
-                                <label className="block text-dark-300 text-sm mb-2">
-                                    صورة سيلفي مع الهوية
-                                    <span className="text-primary-500 mr-1">*</span>
-                                </label>
-                                <div
-                                    className="border-2 border-dashed border-dark-600 rounded-xl p-4 text-center cursor-pointer hover:border-primary-500/50 transition-colors"
-                                    onClick={() => document.getElementById('selfie-input')?.click()}
-                                >
-                                    {selfiePreview ? (
-                                        <img src={selfiePreview} alt="Selfie" className="w-full h-32 object-cover rounded-lg" />
-                                    ) : (
-                                        <>
-                                            <CameraIcon className="w-10 h-10 text-dark-500 mx-auto mb-2" />
-                                            <p className="text-dark-400 text-sm">اضغط لرفع صورة سيلفي</p>
-                                            <p className="text-dark-500 text-xs mt-1">وجهك + الهوية بيدك</p>
-                                        </>
-                                    )}
-                                </div>
-                                <input
-                                    id="selfie-input"
-                                    type="file"
-                                    accept="image/*"
-                                    className="hidden"
-                                    onChange={(e) => handleFileChange(e.target.files?.[0] || null, 'selfie')}
-                                />
-                            </div>
+                            {uploadTypes.map(type => {
+                                const info = DOCUMENT_INFO[type];
+                                const DocIcon = info.icon;
+                                const inputId = `kyc-${type}`;
+                                return (
+                                    <div key={type} className="mb-4">
+                                        <label className="block text-dark-300 text-sm mb-2">
+                                            {info.label}
+                                            {type !== 'ID_BACK' && <span className="text-primary-500 mr-1">*</span>}
+                                        </label>
+                                        <div
+                                            className="border-2 border-dashed border-dark-600 rounded-xl p-4 text-center cursor-pointer hover:border-primary-500/50 transition-colors"
+                                            onClick={() => document.getElementById(inputId)?.click()}
+                                        >
+                                            {previews[type] ? (
+                                                <img src={previews[type]} alt={type} className="w-full h-32 object-cover rounded-lg" />
+                                            ) : (
+                                                <>
+                                                    <DocIcon className="w-10 h-10 text-dark-500 mx-auto mb-2" />
+                                                    <p className="text-dark-400 text-sm">اضغط للرفع</p>
+                                                    <p className="text-dark-500 text-xs mt-1">{info.hint}</p>
+                                                </>
+                                            )}
+                                        </div>
+                                        <input
+                                            id={inputId}
+                                            type="file"
+                                            accept="image/*"
+                                            className="hidden"
+                                            onChange={(e) => handleFileChange(e.target.files?.[0] || null, type)}
+                                        />
+                                    </div>
+                                );
+                            })}
 
                             {error && <p className="text-red-400 text-sm text-center mb-4">{error}</p>}
 
-                            <button
-                                onClick={handleSubmit}
-                                disabled={submitting || !idPhotoFront || !idPhotoBack || !selfiePhoto}
-                                className="btn-primary w-full"
-                            >
-                                {submitting ? <div className="spinner w-5 h-5"></div> : 'إرسال للمراجعة'}
-                            </button>
+                            <div className="flex gap-3">
+                                <button
+                                    onClick={handleSubmit}
+                                    disabled={submitting || !requiredReady}
+                                    className="btn-primary flex-1"
+                                >
+                                    {submitting ? <div className="spinner w-5 h-5"></div> : 'إرسال للمراجعة'}
+                                </button>
+                                <button onClick={() => setTargetTier(null)} className="btn-secondary">
+                                    إلغاء
+                                </button>
+                            </div>
 
                             <p className="text-dark-500 text-xs text-center mt-4">
-                                المستندات مطلوبة للتحقق من هويتك وحماية حسابك
+                                المستندات المقبولة سابقاً لا تحتاج لإعادة الرفع
                             </p>
                         </div>
                     )}
 
+                    {/* Documents */}
+                    {documents.length > 0 && (
+                        <div className="card p-6">
+                            <h2 className="text-white font-semibold mb-4">المستندات</h2>
+                            <div className="space-y-3">
+                                {documents.map(doc => {
+                                    const docStatus = DOCUMENT_STATUS[doc.status] || DOCUMENT_STATUS.PENDING;
+                                    return (
+                                        <div key={doc.id} className="flex items-start justify-between gap-3">
+                                            <div>
+                                                <p className="text-white text-sm">{DOCUMENT_INFO[doc.documentType]?.label || doc.documentType}</p>
+                                                {doc.status === 'REJECTED' && doc.rejectionReason && (
+                                                    <p className="text-red-400 text-xs mt-1">{doc.rejectionReason}</p>
+                                                )}
+                                            </div>
+                                            <span className={`text-sm flex-shrink-0 ${docStatus.color}`}>{docStatus.label}</span>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+
                     {/* Info */}
                     {kycStatus === 'PENDING' && (
                         <div className="card p-6 bg-yellow-500/10">
@@ -261,7 +354,7 @@ export default function KYCPage() {
                         </div>
                     )}
 
-                    {kycStatus === 'APPROVED' && (
+                    {tier === 2 && (
                         <div className="card p-6 bg-green-500/10">
                             <p className="text-green-400 text-center">
                                 ✅ حسابك موثق بالكامل!
@@ -75,6 +75,8 @@ export default function SettingsPage() {
                 { icon: LockClosedIcon, label: `🔒 ${t('settings.appLock')}`, value: locale === 'ar' ? '6 أرقام' : '6 digits', href: '/dashboard/settings/app-lock' },
                 { icon: LockClosedIcon, label: `💳 ${t('settings.paymentPin')}`, value: locale === 'ar' ? '4 أرقام' : '4 digits', href: '/dashboard/settings/payment-pin' },
                 { icon: LockClosedIcon, label: t('settings.changePassword'), href: '/dashboard/settings/password' },
+                { icon: ShieldCheckIcon, label: `🔐 ${t('settings.twoFactor')}`, href: '/dashboard/settings/two-factor' },
+                { icon: DevicePhoneMobileIcon, label: t('settings.devicesAndSessions'), href: '/dashboard/settings/devices' },
             ],
         },
         {
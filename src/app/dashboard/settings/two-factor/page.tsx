@@ -0,0 +1,269 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { QRCodeCanvas } from 'qrcode.react';
+import { ArrowLeftIcon, ShieldCheckIcon, KeyIcon } from '@heroicons/react/24/outline';
+
+interface TwoFactorStatus {
+    enabled: boolean;
+    enabledAt: string | null;
+    required: boolean;
+    recoveryCodesRemaining: number;
+    rememberedDevices: number;
+}
+
+export default function TwoFactorPage() {
+    const [mounted, setMounted] = useState(false);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+    const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+    const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+    const [code, setCode] = useState('');
+    const [action, setAction] = useState<'disable' | 'regenerate' | null>(null);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    useEffect(() => {
+        setMounted(true);
+        fetchStatus();
+    }, []);
+
+    const fetchStatus = async () => {
+        try {
+            const res = await fetch('/api/user/two-factor');
+            if (res.ok) {
+                setStatus(await res.json());
+            }
+        } catch (error) {
+            console.error('Error:', error);
+        }
+        setLoading(false);
+    };
+
+    const request = async (url: string, method: string, body?: object) => {
+        setSaving(true);
+        setMessage(null);
+        try {
+            const res = await fetch(url, {
+                method,
+                headers: { 'Content-Type': 'application/json' },
+                body: body ? JSON.stringify(body) : undefined,
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                setMessage({ type: 'error', text: data.error || 'حدث خطأ' });
+                return null;
+            }
+            return data;
+        } catch (error) {
+            setMessage({ type: 'error', text: 'خطأ في الاتصال' });
+            return null;
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleStart = async () => {
+        const data = await request('/api/user/two-factor', 'POST');
+        if (data) {
+            setEnrollment({ secret: data.secret, otpauthUrl: data.otpauthUrl });
+            setCode('');
+        }
+    };
+
+    const handleConfirm = async () => {
+        const data = await request('/api/user/two-factor', 'PUT', { code });
+        if (data) {
+            setEnrollment(null);
+            setRecoveryCodes(data.recoveryCodes);
+            setCode('');
+            setMessage({ type: 'success', text: 'تم تفعيل التحقق بخطوتين' });
+            fetchStatus();
+        }
+    };
+
+    const handleAction = async () => {
+        if (action === 'disable') {
+            const data = await request('/api/user/two-factor', 'DELETE', { code });
+            if (data) {
+                setMessage({ type: 'success', text: 'تم إيقاف التحقق بخطوتين' });
+                setRecoveryCodes([]);
+            }
+        } else if (action === 'regenerate') {
+            const data = await request('/api/user/two-factor/recovery-codes', 'POST', { code });
+            if (data) {
+                setRecoveryCodes(data.recoveryCodes);
+                setMessage({ type: 'success', text: 'تم إنشاء رموز استرداد جديدة' });
+            }
+        }
+        setAction(null);
+        setCode('');
+        fetchStatus();
+    };
+
+    if (!mounted || loading) {
+        return (
+            <div className="min-h-screen bg-dark-950 flex items-center justify-center" suppressHydrationWarning>
+                <div className="spinner w-12 h-12"></div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-dark-950">
+            <header className="navbar">
+                <div className="navbar-container">
+                    <div className="flex items-center gap-2 sm:gap-3">
+                        <Link href="/dashboard/settings" className="btn-ghost btn-icon">
+                            <ArrowLeftIcon className="w-5 h-5 sm:w-6 sm:h-6" />
+                        </Link>
+                        <h1 className="text-lg sm:text-xl font-bold text-white">🔐 التحقق بخطوتين</h1>
+                    </div>
+                </div>
+            </header>
+
+            <main className="pt-24 pb-8 px-4">
+                <div className="max-w-md mx-auto space-y-6">
+                    {message && (
+                        <div className={`card p-4 ${message.type === 'success' ? 'bg-green-500/10 border-green-500/30' : 'bg-red-500/10 border-red-500/30'}`}>
+                            <p className={`text-center ${message.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+                                {message.text}
+                            </p>
+                        </div>
+                    )}
+
+                    {/* Status */}
+                    <div className="card p-6">
+                        <div className="flex items-center gap-4">
+                            <ShieldCheckIcon className={`w-12 h-12 ${status?.enabled ? 'text-green-400' : 'text-dark-400'}`} />
+                            <div>
+                                <p className="text-lg font-bold text-white">
+                                    {status?.enabled ? 'مفعل ✓' : 'غير مفعل'}
+                                </p>
+                                <p className="text-dark-400 text-sm">
+                                    رمز من تطبيق المصادقة (Google Authenticator وغيره) عند تسجيل الدخول
+                                </p>
+                            </div>
+                        </div>
+                        {status?.enabled && (
+                            <div className="mt-4 space-y-1 text-sm text-dark-400">
+                                <p>رموز الاسترداد المتبقية: <span className="text-white">{status.recoveryCodesRemaining}</span></p>
+                                <p>الأجهزة المحفوظة: <span className="text-white">{status.rememberedDevices}</span></p>
+                            </div>
+                        )}
+                        {status?.required && (
+                            <p className="mt-4 text-yellow-400 text-sm">التحقق بخطوتين إلزامي لحسابك ولا يمكن إيقافه</p>
+                        )}
+                    </div>
+
+                    {/* Recovery codes - shown once */}
+                    {recoveryCodes.length > 0 && (
+                        <div className="card p-6">
+                            <h2 className="text-white font-semibold mb-2">رموز الاسترداد</h2>
+                            <p className="text-dark-400 text-sm mb-4">
+                                احفظها في مكان آمن. كل رمز يعمل مرة واحدة ولن تظهر مرة أخرى
+                            </p>
+                            <div className="grid grid-cols-2 gap-2 p-4 rounded-xl bg-dark-800 font-mono text-sm text-white" dir="ltr">
+                                {recoveryCodes.map(recoveryCode => (
+                                    <span key={recoveryCode}>{recoveryCode}</span>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Enrollment */}
+                    {!status?.enabled && (
+                        <div className="card p-6">
+                            {enrollment ? (
+                                <div className="space-y-4">
+                                    <p className="text-dark-400 text-sm text-center">
+                                        امسح الرمز بتطبيق المصادقة ثم أدخل الرمز المكون من 6 أرقام
+                                    </p>
+                                    <div className="flex justify-center">
+                                        <div className="p-3 bg-white rounded-xl">
+                                            <QRCodeCanvas value={enrollment.otpauthUrl} size={180} />
+                                        </div>
+                                    </div>
+                                    <code className="block text-white text-sm break-all text-center" dir="ltr">{enrollment.secret}</code>
+                                    <input
+                                        type="text"
+                                        inputMode="numeric"
+                                        autoComplete="one-time-code"
+                                        className="input text-center tracking-widest"
+                                        placeholder="000000"
+                                        dir="ltr"
+                                        value={code}
+                                        onChange={(e) => setCode(e.target.value)}
+                                    />
+                                    <button
+                                        onClick={handleConfirm}
+                                        disabled={saving || code.trim().length !== 6}
+                                        className="btn-primary w-full"
+                                    >
+                                        {saving ? <div className="spinner w-5 h-5"></div> : 'تفعيل'}
+                                    </button>
+                                </div>
+                            ) : (
+                                <button onClick={handleStart} disabled={saving} className="btn-primary w-full">
+                                    <ShieldCheckIcon className="w-5 h-5" />
+                                    تفعيل التحقق بخطوتين
+                                </button>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Manage */}
+                    {status?.enabled && (
+                        <div className="card p-6 space-y-4">
+                            {action ? (
+                                <>
+                                    <p className="text-dark-400 text-sm">
+                                        {action === 'disable'
+                                            ? 'أدخل رمزاً من تطبيق المصادقة أو رمز استرداد لإيقاف التحقق بخطوتين'
+                                            : 'أدخل رمزاً من تطبيق المصادقة لإنشاء رموز استرداد جديدة (القديمة ستتوقف عن العمل)'}
+                                    </p>
+                                    <input
+                                        type="text"
+                                        className="input text-center tracking-widest"
+                                        placeholder="000000"
+                                        dir="ltr"
+                                        value={code}
+                                        onChange={(e) => setCode(e.target.value)}
+                                    />
+                                    <div className="flex gap-3">
+                                        <button
+                                            onClick={handleAction}
+                                            disabled={saving || code.trim().length < 6}
+                                            className={action === 'disable' ? 'btn flex-1 bg-red-500/10 text-red-500 hover:bg-red-500/20' : 'btn-primary flex-1'}
+                                        >
+                                            {saving ? <div className="spinner w-5 h-5"></div> : 'تأكيد'}
+                                        </button>
+                                        <button onClick={() => { setAction(null); setCode(''); }} className="btn-secondary">
+                                            إلغاء
+                                        </button>
+                                    </div>
+                                </>
+                            ) : (
+                                <>
+                                    <button onClick={() => setAction('regenerate')} className="btn-secondary w-full">
+                                        <KeyIcon className="w-5 h-5" />
+                                        إنشاء رموز استرداد جديدة
+                                    </button>
+                                    {!status.required && (
+                                        <button
+                                            onClick={() => setAction('disable')}
+                                            className="btn w-full bg-red-500/10 text-red-500 hover:bg-red-500/20"
+                                        >
+                                            إيقاف التحقق بخطوتين
+                                        </button>
+                                    )}
+                                </>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </main>
+        </div>
+    );
+}
@@ -91,6 +91,7 @@ export default function TransactionsPage() {
             WITHDRAW: t('transaction.types.withdraw'),
             TRANSFER: t('transaction.types.transfer'),
             QR_PAYMENT: t('transaction.types.qrPayment'),
+            EXCHANGE: t('transaction.types.exchange'),
         };
         return labels[type] || type;
     };
@@ -3,9 +3,11 @@
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { ArrowLeftIcon, UserIcon, CheckCircleIcon, MagnifyingGlassIcon, KeyIcon } from '@heroicons/react/24/outline';
+import { ArrowLeftIcon, UserIcon, CheckCircleIcon, MagnifyingGlassIcon, KeyIcon, CalendarDaysIcon, StarIcon } from '@heroicons/react/24/outline';
+import { StarIcon as StarIconSolid } from '@heroicons/react/24/solid';
 import usePushNotifications from '@/hooks/usePushNotifications';
 import { CurrencyToggle, formatCurrencyAmount, type Currency } from '@/components/CurrencySelector';
+import BeneficiaryPicker from '@/components/BeneficiaryPicker';
 
 interface User {
     id: string;
@@ -24,7 +26,7 @@ export default function TransferPage() {
     const [mounted, setMounted] = useState(false);
     const [step, setStep] = useState<'search' | 'amount' | 'otp' | 'success'>('search');
     const [loading, setLoading] = useState(false);
-    const [phone, setPhone] = useState('');
+    const [phoneInput, setPhoneInput] = useState('');
     const [recipient, setRecipient] = useState<User | null>(null);
     const [amount, setAmount] = useState('');
     const [otp, setOtp] = useState('');
@@ -34,6 +36,7 @@ export default function TransferPage() {
     const [transferRequestId, setTransferRequestId] = useState('');
     const [otpExpiresIn, setOtpExpiresIn] = useState(300);
     const [remainingAttempts, setRemainingAttempts] = useState(3);
+    const [recipientSaved, setRecipientSaved] = useState(false);
     // Fee settings
     const [feePercent, setFeePercent] = useState(0.5);
     const [feeFixed, setFeeFixed] = useState(0);
@@ -93,7 +96,8 @@ export default function TransferPage() {
     const fee = calculateFee(parseFloat(amount) || 0);
     const totalAmount = (parseFloat(amount) || 0) + fee;
 
-    const searchUser = async () => {
+    const searchUser = async (phoneOverride?: string) => {
+        const phone = phoneOverride ?? phoneInput;
         if (!phone || phone.length < 9) {
             setError('الرجاء إدخال رقم هاتف صحيح');
             return;
@@ -107,6 +111,7 @@ export default function TransferPage() {
             const data = await res.json();
             if (res.ok && data.user) {
                 setRecipient(data.user);
+                setRecipientSaved(false);
                 setStep('amount');
             } else {
                 setError('لم يتم العثور على المستخدم');
@@ -148,6 +153,33 @@ export default function TransferPage() {
         setLoading(false);
     };
 
+    const saveRecipient = async () => {
+        if (!recipient) return;
+
+        try {
+            const res = await fetch('/api/user/beneficiaries', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    type: 'USER',
+                    phone: recipient.phone,
+                    nickname: recipient.fullNameAr || recipient.fullName,
+                    defaultCurrency: currency,
+                }),
+            });
+
+            // 409 = already saved
+            if (res.ok || res.status === 409) {
+                setRecipientSaved(true);
+            } else {
+                const data = await res.json();
+                setError(data.error || 'فشل الحفظ');
+            }
+        } catch (error) {
+            setError('خطأ في الاتصال');
+        }
+    };
+
     const confirmTransfer = async () => {
         if (!transferRequestId || !otp) return;
 
@@ -240,16 +272,16 @@ export default function TransferPage() {
                                     type="tel"
                                     className="input text-center text-xl"
                                     placeholder="رقم الهاتف"
-                                    value={phone}
-                                    onChange={(e) => setPhone(e.target.value)}
+                                    value={phoneInput}
+                                    onChange={(e) => setPhoneInput(e.target.value)}
                                     dir="ltr"
                                     autoFocus
                                 />
                             </div>
                             {error && <p className="text-red-400 text-sm text-center mb-4">{error}</p>}
                             <button
-                                onClick={searchUser}
-                                disabled={loading || !phone}
+                                onClick={() => searchUser()}
+                                disabled={loading || !phoneInput}
                                 className="btn-primary w-full"
                             >
                                 {loading ? <div className="spinner w-5 h-5"></div> : (
@@ -259,6 +291,27 @@ export default function TransferPage() {
                                     </>
                                 )}
                             </button>
+                            <Link
+                                href="/dashboard/transfer/scheduled"
+                                className="flex items-center justify-center gap-2 mt-4 text-primary-500 text-sm hover:text-primary-400 transition-colors"
+                            >
+                                <CalendarDaysIcon className="w-5 h-5" />
+                                التحويلات المجدولة والمتكررة
+                            </Link>
+                        </div>
+                    )}
+
+                    {/* Saved beneficiaries & recent recipients */}
+                    {step === 'search' && (
+                        <div className="mt-6">
+                            <BeneficiaryPicker
+                                type="USER"
+                                onSelect={(selection) => {
+                                    setPhoneInput(selection.phone || '');
+                                    setCurrency(selection.currency);
+                                    searchUser(selection.phone);
+                                }}
+                            />
                         </div>
                     )}
 
@@ -273,6 +326,16 @@ export default function TransferPage() {
                                     <p className="text-white font-semibold">{recipient.fullNameAr || recipient.fullName}</p>
                                     <p className="text-dark-400 text-sm" dir="ltr">{recipient.phone}</p>
                                 </div>
+                                <button
+                                    onClick={saveRecipient}
+                                    disabled={recipientSaved}
+                                    className="btn-ghost btn-icon ms-auto"
+                                    title="حفظ كمستفيد"
+                                >
+                                    {recipientSaved
+                                        ? <StarIconSolid className="w-6 h-6 text-yellow-400" />
+                                        : <StarIcon className="w-6 h-6 text-dark-400" />}
+                                </button>
                             </div>
 
                             <div className="mb-6">
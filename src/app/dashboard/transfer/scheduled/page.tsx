@@ -0,0 +1,324 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ArrowLeftIcon, CalendarDaysIcon, PlusIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { CurrencyToggle, formatCurrencyAmount, type Currency } from '@/components/CurrencySelector';
+
+interface ScheduledTransfer {
+    id: string;
+    amount: number;
+    currency: Currency;
+    note: string | null;
+    frequency: 'ONCE' | 'WEEKLY' | 'MONTHLY';
+    status: string;
+    nextRunAt: string;
+    lastRunAt: string | null;
+    lastError: string | null;
+    failedAttempts: number;
+    recipient: {
+        name: string;
+        phone: string;
+    } | null;
+}
+
+const FREQUENCY_LABELS: Record<string, string> = {
+    ONCE: 'مرة واحدة',
+    WEEKLY: 'أسبوعياً',
+    MONTHLY: 'شهرياً',
+};
+
+const STATUS_LABELS: Record<string, { label: string; badge: string }> = {
+    ACTIVE: { label: 'نشط', badge: 'badge-success' },
+    PROCESSING: { label: 'قيد التنفيذ', badge: 'badge-info' },
+    COMPLETED: { label: 'مكتمل', badge: 'badge-primary' },
+    CANCELLED: { label: 'ملغى', badge: 'badge-error' },
+    FAILED: { label: 'فشل', badge: 'badge-error' },
+};
+
+export default function ScheduledTransfersPage() {
+    const router = useRouter();
+    const [mounted, setMounted] = useState(false);
+    const [loading, setLoading] = useState(true);
+    const [schedules, setSchedules] = useState<ScheduledTransfer[]>([]);
+
+    // New schedule form
+    const [showForm, setShowForm] = useState(false);
+    const [phone, setPhone] = useState('');
+    const [amount, setAmount] = useState('');
+    const [currency, setCurrency] = useState<Currency>('USD');
+    const [note, setNote] = useState('');
+    const [frequency, setFrequency] = useState<'ONCE' | 'WEEKLY' | 'MONTHLY'>('MONTHLY');
+    const [startAt, setStartAt] = useState('');
+    const [pin, setPin] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const fetchSchedules = useCallback(async () => {
+        try {
+            const res = await fetch('/api/user/scheduled-transfers');
+            if (res.status === 401) {
+                router.push('/login');
+                return;
+            }
+            const data = await res.json();
+            setSchedules(data.scheduledTransfers || []);
+        } catch (err) {
+            console.error('Error:', err);
+        } finally {
+            setLoading(false);
+        }
+    }, [router]);
+
+    useEffect(() => {
+        setMounted(true);
+        fetchSchedules();
+    }, [fetchSchedules]);
+
+    const createSchedule = async () => {
+        setIsSaving(true);
+        setError('');
+
+        try {
+            const res = await fetch('/api/user/scheduled-transfers', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    recipientPhone: phone,
+                    amount: parseFloat(amount),
+                    currency,
+                    note: note || undefined,
+                    frequency,
+                    startAt: new Date(startAt).toISOString(),
+                    pin,
+                }),
+            });
+
+            const data = await res.json();
+            if (!res.ok) {
+                throw new Error(data.error || 'فشل إنشاء التحويل المجدول');
+            }
+
+            setShowForm(false);
+            setPhone('');
+            setAmount('');
+            setNote('');
+            setStartAt('');
+            setPin('');
+            fetchSchedules();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'حدث خطأ');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const cancelSchedule = async (id: string) => {
+        if (!confirm('هل تريد إلغاء هذا التحويل المجدول؟')) return;
+
+        try {
+            const res = await fetch(`/api/user/scheduled-transfers/${id}`, { method: 'DELETE' });
+            const data = await res.json();
+            if (!res.ok) {
+                alert(data.error || 'حدث خطأ');
+            }
+        } catch (err) {
+            console.error('Error:', err);
+        }
+        fetchSchedules();
+    };
+
+    const formatDate = (dateString: string) => {
+        return new Intl.DateTimeFormat('en-US', {
+            month: 'short',
+            day: 'numeric',
+            year: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+        }).format(new Date(dateString));
+    };
+
+    if (!mounted || loading) {
+        return (
+            <div className="min-h-screen bg-dark-950 flex items-center justify-center" suppressHydrationWarning>
+                <div className="spinner w-12 h-12"></div>
+            </div>
+        );
+    }
+
+    const parsedAmount = parseFloat(amount);
+    const isFormValid = phone.length >= 9 && parsedAmount > 0 && startAt !== '' && pin.length === 4;
+
+    return (
+        <div className="min-h-screen bg-dark-950">
+            <header className="navbar">
+                <div className="navbar-container">
+                    <div className="flex items-center gap-2 sm:gap-3">
+                        <Link href="/dashboard/transfer" className="btn-ghost btn-icon">
+                            <ArrowLeftIcon className="w-5 h-5 sm:w-6 sm:h-6" />
+                        </Link>
+                        <h1 className="text-lg sm:text-xl font-bold text-white">📅 التحويلات المجدولة</h1>
+                    </div>
+                </div>
+            </header>
+
+            <main className="pt-24 pb-8 px-4">
+                <div className="max-w-md mx-auto space-y-4">
+                    {!showForm ? (
+                        <button onClick={() => setShowForm(true)} className="btn-primary w-full">
+                            <PlusIcon className="w-5 h-5" />
+                            تحويل مجدول جديد
+                        </button>
+                    ) : (
+                        <div className="card p-6 space-y-4">
+                            <div className="flex items-center justify-between">
+                                <h2 className="text-white font-semibold">تحويل مجدول جديد</h2>
+                                <button onClick={() => setShowForm(false)} className="btn-ghost btn-icon">
+                                    <XMarkIcon className="w-5 h-5" />
+                                </button>
+                            </div>
+
+                            <div>
+                                <label className="label">رقم هاتف المستلم</label>
+                                <input
+                                    type="tel"
+                                    className="input"
+                                    dir="ltr"
+                                    value={phone}
+                                    onChange={(e) => setPhone(e.target.value)}
+                                />
+                            </div>
+
+                            <div>
+                                <div className="flex items-center justify-between mb-2">
+                                    <label className="label mb-0">المبلغ</label>
+                                    <CurrencyToggle value={currency} onChange={setCurrency} />
+                                </div>
+                                <input
+                                    type="number"
+                                    className="input text-center text-xl"
+                                    dir="ltr"
+                                    min="0.01"
+                                    step={currency === 'SYP' ? '1' : '0.01'}
+                                    value={amount}
+                                    onChange={(e) => setAmount(e.target.value)}
+                                />
+                            </div>
+
+                            <div>
+                                <label className="label">التكرار</label>
+                                <div className="grid grid-cols-3 gap-2">
+                                    {(['ONCE', 'WEEKLY', 'MONTHLY'] as const).map(f => (
+                                        <button
+                                            key={f}
+                                            type="button"
+                                            onClick={() => setFrequency(f)}
+                                            className={frequency === f ? 'btn-primary btn-sm' : 'btn-secondary btn-sm'}
+                                        >
+                                            {FREQUENCY_LABELS[f]}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="label">{frequency === 'ONCE' ? 'موعد التحويل' : 'أول تحويل'}</label>
+                                <input
+                                    type="datetime-local"
+                                    className="input"
+                                    dir="ltr"
+                                    value={startAt}
+                                    onChange={(e) => setStartAt(e.target.value)}
+                                />
+                            </div>
+
+                            <div>
+                                <label className="label">ملاحظة (اختياري)</label>
+                                <input
+                                    type="text"
+                                    className="input"
+                                    maxLength={200}
+                                    value={note}
+                                    onChange={(e) => setNote(e.target.value)}
+                                />
+                            </div>
+
+                            <div>
+                                <label className="label">رمز الدفع</label>
+                                <input
+                                    type="password"
+                                    inputMode="numeric"
+                                    maxLength={4}
+                                    className="input text-center text-2xl tracking-[0.8em]"
+                                    placeholder="••••"
+                                    value={pin}
+                                    onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 4))}
+                                />
+                                <p className="text-dark-500 text-xs mt-2">
+                                    يتم تنفيذ التحويلات تلقائياً من محفظتك الشخصية دون رمز تأكيد إضافي
+                                </p>
+                            </div>
+
+                            {error && <p className="text-red-400 text-sm text-center">{error}</p>}
+
+                            <button
+                                onClick={createSchedule}
+                                disabled={isSaving || !isFormValid}
+                                className="btn-primary w-full"
+                            >
+                                {isSaving ? <div className="spinner w-5 h-5"></div> : 'حفظ'}
+                            </button>
+                        </div>
+                    )}
+
+                    {schedules.length === 0 ? (
+                        <div className="card p-8 text-center text-dark-400">
+                            <CalendarDaysIcon className="w-12 h-12 mx-auto mb-2 opacity-50" />
+                            <p>لا توجد تحويلات مجدولة</p>
+                        </div>
+                    ) : (
+                        schedules.map(schedule => {
+                            const status = STATUS_LABELS[schedule.status] || { label: schedule.status, badge: 'badge-info' };
+                            return (
+                                <div key={schedule.id} className="card p-4">
+                                    <div className="flex items-center justify-between gap-3">
+                                        <div className="min-w-0">
+                                            <p className="text-white font-medium truncate">{schedule.recipient?.name || '-'}</p>
+                                            <p className="text-dark-400 text-sm">
+                                                {FREQUENCY_LABELS[schedule.frequency]}
+                                                {schedule.status === 'ACTIVE' && ` · التالي: ${formatDate(schedule.nextRunAt)}`}
+                                            </p>
+                                            {schedule.note && <p className="text-dark-500 text-xs truncate">{schedule.note}</p>}
+                                        </div>
+                                        <div className="text-end flex-shrink-0">
+                                            <p className="text-white font-semibold" dir="ltr">
+                                                {formatCurrencyAmount(schedule.amount, schedule.currency)}
+                                            </p>
+                                            <span className={`${status.badge} text-xs`}>{status.label}</span>
+                                        </div>
+                                    </div>
+
+                                    {schedule.lastError && schedule.failedAttempts > 0 && (
+                                        <p className="text-orange-400 text-xs mt-2">
+                                            فشلت آخر محاولة: {schedule.lastError}
+                                        </p>
+                                    )}
+
+                                    {schedule.status === 'ACTIVE' && (
+                                        <button
+                                            onClick={() => cancelSchedule(schedule.id)}
+                                            className="btn-ghost btn-sm text-red-400 mt-2"
+                                        >
+                                            إلغاء
+                                        </button>
+                                    )}
+                                </div>
+                            );
+                        })
+                    )}
+                </div>
+            </main>
+        </div>
+    );
+}
@@ -11,6 +11,7 @@ import {
     CurrencyDollarIcon,
 } from '@heroicons/react/24/outline';
 import { CurrencyToggle, formatCurrencyAmount, type Currency } from '@/components/CurrencySelector';
+import CashOutQR from '@/components/CashOutQR';
 
 interface Agent {
     id: string;
@@ -103,6 +104,9 @@ export default function WithdrawPage() {
                         </div>
                     </div>
 
+                    {/* One-time cash-out QR */}
+                    <CashOutQR currency={currency} onCompleted={fetchData} />
+
                     {/* Steps */}
                     <div className="card p-6 mb-6">
                         <h3 className="text-lg font-semibold text-white mb-4">{t('transaction.withdraw.stepsTitle')}</h3>
@@ -12,6 +12,9 @@ export default function ForgotPasswordPage() {
     const [isLoading, setIsLoading] = useState(false);
     const [submitted, setSubmitted] = useState(false);
     const [ticketNumber, setTicketNumber] = useState('');
+    // Self-service reset: SMS code sent to the verified phone
+    const [otpRequestId, setOtpRequestId] = useState<string | null>(null);
+    const [otpCode, setOtpCode] = useState('');
     const [error, setError] = useState('');
     const [formData, setFormData] = useState({
         phone: '',
@@ -36,6 +39,12 @@ export default function ForgotPasswordPage() {
                 throw new Error(data.error || 'حدث خطأ');
             }
 
+            if (data.method === 'SMS_OTP') {
+                setOtpRequestId(data.requestId);
+                setOtpCode('');
+                return;
+            }
+
             setTicketNumber(data.ticketNumber);
             setSubmitted(true);
         } catch (err) {
@@ -45,6 +54,90 @@ export default function ForgotPasswordPage() {
         }
     };
 
+    const handleVerifyCode = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading(true);
+        setError('');
+
+        try {
+            const response = await fetch('/api/auth/forgot-password/verify', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ requestId: otpRequestId, code: otpCode }),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'حدث خطأ');
+            }
+
+            router.push(`/reset-password?token=${data.token}`);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'حدث خطأ');
+            setIsLoading(false);
+        }
+    };
+
+    if (otpRequestId) {
+        return (
+            <div className="min-h-screen bg-dark-950 flex items-center justify-center p-6">
+                <div className="w-full max-w-md">
+                    <div className="card p-8">
+                        <div className="text-center mb-8">
+                            <h1 className="text-2xl font-bold text-white mb-2">
+                                أدخل رمز التحقق
+                            </h1>
+                            <p className="text-dark-400 text-sm">
+                                أرسلنا رمزاً مكوناً من 6 أرقام برسالة SMS إلى <span className="text-white" dir="ltr">{formData.phone}</span>
+                            </p>
+                        </div>
+
+                        {error && (
+                            <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 mb-6">
+                                <p className="text-red-400 text-sm text-center">{error}</p>
+                            </div>
+                        )}
+
+                        <form onSubmit={handleVerifyCode} className="space-y-6">
+                            <input
+                                type="text"
+                                inputMode="numeric"
+                                autoComplete="one-time-code"
+                                maxLength={6}
+                                value={otpCode}
+                                onChange={(e) => setOtpCode(e.target.value.replace(/\D/g, ''))}
+                                className="input text-center tracking-widest text-xl"
+                                placeholder="000000"
+                                dir="ltr"
+                            />
+
+                            <button
+                                type="submit"
+                                disabled={isLoading || otpCode.length !== 6}
+                                className="btn-primary w-full"
+                            >
+                                {isLoading ? (
+                                    <div className="spinner w-5 h-5"></div>
+                                ) : (
+                                    'متابعة'
+                                )}
+                            </button>
+                        </form>
+
+                        <button
+                            type="button"
+                            onClick={() => { setOtpRequestId(null); setError(''); }}
+                            className="text-primary-500 hover:text-primary-400 text-sm w-full mt-6"
+                        >
+                            العودة وطلب رمز جديد
+                        </button>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
     if (submitted) {
         return (
             <div className="min-h-screen bg-dark-950 flex items-center justify-center p-6">
@@ -87,7 +180,7 @@ export default function ForgotPasswordPage() {
                             نسيت كلمة المرور؟
                         </h1>
                         <p className="text-dark-400 text-sm">
-                            أدخل رقم هاتفك وسنقوم بإرسال طلب لإعادة تعيين كلمة المرور
+                            أدخل رقم هاتفك وسنرسل لك رمز تحقق، أو طلباً لفريق الدعم إذا لم يكن رقمك موثقاً
                         </p>
                     </div>
 
@@ -1,6 +1,7 @@
 import type { Metadata, Viewport } from 'next';
 import { NextIntlClientProvider } from 'next-intl';
 import { getLocale, getMessages } from 'next-intl/server';
+import TokenRefresh from '@/components/TokenRefresh';
 import './globals.css';
 
 export const metadata: Metadata = {
@@ -81,6 +82,7 @@ export default async function RootLayout({
                 <link rel="preconnect" href="https://fonts.gstatic.com" crossOrigin="anonymous" />
             </head>
             <body className={`${direction === 'rtl' ? 'font-arabic' : 'font-english'} min-h-screen antialiased`} suppressHydrationWarning>
+                <TokenRefresh />
                 <NextIntlClientProvider messages={messages}>
                     {children}
                 </NextIntlClientProvider>
@@ -4,7 +4,8 @@ import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useTranslations, useLocale } from 'next-intl';
 import { useRouter } from 'next/navigation';
-import { EyeIcon, EyeSlashIcon, PhoneIcon, LockClosedIcon, LanguageIcon } from '@heroicons/react/24/outline';
+import { QRCodeCanvas } from 'qrcode.react';
+import { EyeIcon, EyeSlashIcon, PhoneIcon, LockClosedIcon, LanguageIcon, ShieldCheckIcon } from '@heroicons/react/24/outline';
 
 export default function LoginPage() {
     const t = useTranslations();
@@ -19,6 +20,13 @@ export default function LoginPage() {
         password: '',
         rememberMe: false,
     });
+    // Second factor step (ADMIN/AGENT always, users who turned it on)
+    const [twoFactorStep, setTwoFactorStep] = useState<'verify' | 'enroll' | 'recoveryCodes' | null>(null);
+    const [twoFactorCode, setTwoFactorCode] = useState('');
+    const [rememberDevice, setRememberDevice] = useState(false);
+    const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+    const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+    const [loggedInUserType, setLoggedInUserType] = useState('');
 
     // Syrian phone number validation (+963)
     const validateSyrianPhone = (phone: string): { isValid: boolean; message: string } => {
@@ -71,20 +79,64 @@ export default function LoginPage() {
                 throw new Error(data.error || 'Login failed');
             }
 
-            // Redirect based on user type
-            switch (data.user.userType) {
-                case 'ADMIN':
-                    router.push('/admin');
-                    break;
-                case 'AGENT':
-                    router.push('/agent');
-                    break;
-                case 'MERCHANT':
-                    router.push('/merchant');
-                    break;
-                default:
-                    router.push('/dashboard');
+            if (data.requiresTwoFactor) {
+                if (data.enrollmentRequired) {
+                    await startEnrollment();
+                } else {
+                    setTwoFactorStep('verify');
+                }
+                return;
             }
+
+            redirectToDashboard(data.user.userType);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An error occurred');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const startEnrollment = async () => {
+        const response = await fetch('/api/auth/2fa/setup', { method: 'POST' });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'An error occurred');
+        }
+        setEnrollment({ secret: data.secret, otpauthUrl: data.otpauthUrl });
+        setTwoFactorStep('enroll');
+    };
+
+    const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading(true);
+        setError('');
+
+        try {
+            const response = await fetch('/api/auth/2fa/verify', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ code: twoFactorCode, rememberDevice }),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                if (data.expired) {
+                    // Challenge expired - back to the password step
+                    setTwoFactorStep(null);
+                    setTwoFactorCode('');
+                }
+                throw new Error(data.error || 'Verification failed');
+            }
+
+            if (data.recoveryCodes) {
+                setRecoveryCodes(data.recoveryCodes);
+                setLoggedInUserType(data.user.userType);
+                setTwoFactorStep('recoveryCodes');
+                return;
+            }
+
+            redirectToDashboard(data.user.userType);
         } catch (err) {
             setError(err instanceof Error ? err.message : 'An error occurred');
         } finally {
@@ -92,6 +144,23 @@ export default function LoginPage() {
         }
     };
 
+    const redirectToDashboard = (userType: string) => {
+        // Redirect based on user type
+        switch (userType) {
+            case 'ADMIN':
+                router.push('/admin');
+                break;
+            case 'AGENT':
+                router.push('/agent');
+                break;
+            case 'MERCHANT':
+                router.push('/merchant');
+                break;
+            default:
+                router.push('/dashboard');
+        }
+    };
+
     if (!mounted) {
         return (
             <div className="min-h-screen bg-dark-950 flex items-center justify-center" suppressHydrationWarning>
@@ -130,8 +199,12 @@ export default function LoginPage() {
 
                     {/* Header */}
                     <div className="mb-8">
-                        <h1 className="text-3xl font-bold text-white mb-2">{t('auth.login.title')}</h1>
-                        <p className="text-dark-400">{t('auth.login.subtitle')}</p>
+                        <h1 className="text-3xl font-bold text-white mb-2">
+                            {twoFactorStep ? t(`auth.twoFactor.${twoFactorStep}Title`) : t('auth.login.title')}
+                        </h1>
+                        <p className="text-dark-400">
+                            {twoFactorStep ? t(`auth.twoFactor.${twoFactorStep}Subtitle`) : t('auth.login.subtitle')}
+                        </p>
                     </div>
 
                     {/* Error Message */}
@@ -142,95 +215,177 @@ export default function LoginPage() {
                     )}
 
                     {/* Form */}
-                    <form onSubmit={handleSubmit} className="space-y-6">
-                        {/* Phone */}
-                        <div>
-                            <label htmlFor="phone" className="label">{t('auth.login.phone')} <span className="text-dark-500 text-xs">(+963)</span></label>
-                            <div className="relative">
-                                <input
-                                    id="phone"
-                                    type="tel"
-                                    className={`input pr-12 transition-all ${!formData.phone ? '' :
-                                        phoneValidation.isValid
-                                            ? 'border-green-500 focus:border-green-500'
-                                            : 'border-red-500 focus:border-red-500'
-                                        }`}
-                                    placeholder="09XX XXX XXX"
-                                    dir="ltr"
-                                    value={formData.phone}
-                                    onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
-                                    required
-                                />
-                                <PhoneIcon className={`absolute right-4 top-1/2 -translate-y-1/2 w-5 h-5 transition-colors ${!formData.phone ? 'text-dark-500' :
-                                    phoneValidation.isValid ? 'text-green-500' : 'text-red-500'
-                                    }`} />
+                    {twoFactorStep === 'recoveryCodes' ? (
+                        <div className="space-y-6">
+                            <div className="grid grid-cols-2 gap-2 p-4 rounded-xl bg-dark-800 font-mono text-sm text-white" dir="ltr">
+                                {recoveryCodes.map(code => (
+                                    <span key={code}>{code}</span>
+                                ))}
                             </div>
-                            {formData.phone && phoneValidation.message && (
-                                <p className={`mt-1 text-xs ${phoneValidation.isValid ? 'text-green-500' : 'text-red-400'}`}>
-                                    {phoneValidation.message}
-                                </p>
-                            )}
+                            <button
+                                type="button"
+                                className="btn-primary w-full"
+                                onClick={() => redirectToDashboard(loggedInUserType)}
+                            >
+                                {t('auth.twoFactor.continue')}
+                            </button>
                         </div>
+                    ) : twoFactorStep ? (
+                        <form onSubmit={handleTwoFactorSubmit} className="space-y-6">
+                            {twoFactorStep === 'enroll' && enrollment && (
+                                <div className="flex flex-col items-center gap-3">
+                                    <div className="p-3 bg-white rounded-xl">
+                                        <QRCodeCanvas value={enrollment.otpauthUrl} size={180} />
+                                    </div>
+                                    <p className="text-dark-400 text-xs">{t('auth.twoFactor.manualEntry')}</p>
+                                    <code className="text-white text-sm break-all text-center" dir="ltr">{enrollment.secret}</code>
+                                </div>
+                            )}
 
-                        {/* Password */}
-                        <div>
-                            <label htmlFor="password" className="label">{t('auth.login.password')}</label>
-                            <div className="input-group">
+                            <div>
+                                <label htmlFor="twoFactorCode" className="label">{t('auth.twoFactor.code')}</label>
                                 <input
-                                    id="password"
-                                    type={showPassword ? 'text' : 'password'}
-                                    className="input"
-                                    placeholder="••••••••"
-                                    value={formData.password}
-                                    onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                                    id="twoFactorCode"
+                                    type="text"
+                                    inputMode={twoFactorStep === 'enroll' ? 'numeric' : 'text'}
+                                    autoComplete="one-time-code"
+                                    className="input text-center tracking-widest"
+                                    placeholder="000000"
+                                    dir="ltr"
+                                    value={twoFactorCode}
+                                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                                    autoFocus
                                     required
                                 />
-                                <button
-                                    type="button"
-                                    className="input-group-icon"
-                                    onClick={() => setShowPassword(!showPassword)}
-                                >
-                                    {showPassword ? (
-                                        <EyeSlashIcon className="w-5 h-5" />
-                                    ) : (
-                                        <EyeIcon className="w-5 h-5" />
-                                    )}
-                                </button>
+                                {twoFactorStep === 'verify' && (
+                                    <p className="mt-1 text-xs text-dark-500">{t('auth.twoFactor.recoveryHint')}</p>
+                                )}
                             </div>
-                        </div>
 
-                        {/* Remember Me & Forgot Password */}
-                        <div className="flex items-center justify-between">
                             <label className="flex items-center gap-2 cursor-pointer">
                                 <input
                                     type="checkbox"
                                     className="w-4 h-4 rounded border-dark-600 bg-dark-800 text-primary-500 focus:ring-primary-500/20"
-                                    checked={formData.rememberMe}
-                                    onChange={(e) => setFormData({ ...formData, rememberMe: e.target.checked })}
+                                    checked={rememberDevice}
+                                    onChange={(e) => setRememberDevice(e.target.checked)}
                                 />
-                                <span className="text-sm text-dark-300">{t('auth.login.rememberMe')}</span>
+                                <span className="text-sm text-dark-300">{t('auth.twoFactor.rememberDevice')}</span>
                             </label>
-                            <Link href="/forgot-password" className="text-sm text-primary-500 hover:text-primary-400 transition-colors">
-                                {t('auth.login.forgotPassword')}
-                            </Link>
-                        </div>
 
-                        {/* Submit */}
-                        <button
-                            type="submit"
-                            className="btn-primary w-full"
-                            disabled={isLoading}
-                        >
-                            {isLoading ? (
-                                <div className="spinner w-5 h-5"></div>
-                            ) : (
-                                <>
-                                    <LockClosedIcon className="w-5 h-5" />
-                                    <span>{t('auth.login.submit')}</span>
-                                </>
-                            )}
-                        </button>
-                    </form>
+                            <button
+                                type="submit"
+                                className="btn-primary w-full"
+                                disabled={isLoading || twoFactorCode.trim().length < 6}
+                            >
+                                {isLoading ? (
+                                    <div className="spinner w-5 h-5"></div>
+                                ) : (
+                                    <>
+                                        <ShieldCheckIcon className="w-5 h-5" />
+                                        <span>{t('auth.twoFactor.verify')}</span>
+                                    </>
+                                )}
+                            </button>
+
+                            <button
+                                type="button"
+                                className="btn-ghost w-full"
+                                onClick={() => { setTwoFactorStep(null); setTwoFactorCode(''); setError(''); }}
+                            >
+                                {t('auth.twoFactor.back')}
+                            </button>
+                        </form>
+                    ) : (
+                        <form onSubmit={handleSubmit} className="space-y-6">
+                            {/* Phone */}
+                            <div>
+                                <label htmlFor="phone" className="label">{t('auth.login.phone')} <span className="text-dark-500 text-xs">(+963)</span></label>
+                                <div className="relative">
+                                    <input
+                                        id="phone"
+                                        type="tel"
+                                        className={`input pr-12 transition-all ${!formData.phone ? '' :
+                                            phoneValidation.isValid
+                                                ? 'border-green-500 focus:border-green-500'
+                                                : 'border-red-500 focus:border-red-500'
+                                            }`}
+                                        placeholder="09XX XXX XXX"
+                                        dir="ltr"
+                                        value={formData.phone}
+                                        onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                                        required
+                                    />
+                                    <PhoneIcon className={`absolute right-4 top-1/2 -translate-y-1/2 w-5 h-5 transition-colors ${!formData.phone ? 'text-dark-500' :
+                                        phoneValidation.isValid ? 'text-green-500' : 'text-red-500'
+                                        }`} />
+                                </div>
+                                {formData.phone && phoneValidation.message && (
+                                    <p className={`mt-1 text-xs ${phoneValidation.isValid ? 'text-green-500' : 'text-red-400'}`}>
+                                        {phoneValidation.message}
+                                    </p>
+                                )}
+                            </div>
+
+                            {/* Password */}
+                            <div>
+                                <label htmlFor="password" className="label">{t('auth.login.password')}</label>
+                                <div className="input-group">
+                                    <input
+                                        id="password"
+                                        type={showPassword ? 'text' : 'password'}
+                                        className="input"
+                                        placeholder="••••••••"
+                                        value={formData.password}
+                                        onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                                        required
+                                    />
+                                    <button
+                                        type="button"
+                                        className="input-group-icon"
+                                        onClick={() => setShowPassword(!showPassword)}
+                                    >
+                                        {showPassword ? (
+                                            <EyeSlashIcon className="w-5 h-5" />
+                                        ) : (
+                                            <EyeIcon className="w-5 h-5" />
+                                        )}
+                                    </button>
+                                </div>
+                            </div>
+
+                            {/* Remember Me & Forgot Password */}
+                            <div className="flex items-center justify-between">
+                                <label className="flex items-center gap-2 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        className="w-4 h-4 rounded border-dark-600 bg-dark-800 text-primary-500 focus:ring-primary-500/20"
+                                        checked={formData.rememberMe}
+                                        onChange={(e) => setFormData({ ...formData, rememberMe: e.target.checked })}
+                                    />
+                                    <span className="text-sm text-dark-300">{t('auth.login.rememberMe')}</span>
+                                </label>
+                                <Link href="/forgot-password" className="text-sm text-primary-500 hover:text-primary-400 transition-colors">
+                                    {t('auth.login.forgotPassword')}
+                                </Link>
+                            </div>
+
+                            {/* Submit */}
+                            <button
+                                type="submit"
+                                className="btn-primary w-full"
+                                disabled={isLoading}
+                            >
+                                {isLoading ? (
+                                    <div className="spinner w-5 h-5"></div>
+                                ) : (
+                                    <>
+                                        <LockClosedIcon className="w-5 h-5" />
+                                        <span>{t('auth.login.submit')}</span>
+                                    </>
+                                )}
+                            </button>
+                        </form>
+                    )}
 
                     {/* Register Link */}
                     <p className="mt-8 text-center text-dark-400">
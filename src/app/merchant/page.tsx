@@ -15,8 +15,10 @@ import {
     GlobeAltIcon,
     ArrowsRightLeftIcon,
     PaperAirplaneIcon,
+    UserGroupIcon,
 } from '@heroicons/react/24/outline';
 import MerchantQRCode from '@/components/MerchantQRCode';
+import DynamicPaymentQR from '@/components/DynamicPaymentQR';
 import { CurrencyToggle, formatCurrencyAmount, type Currency } from '@/components/CurrencySelector';
 
 interface MerchantData {
@@ -240,6 +242,11 @@ export default function MerchantDashboard() {
                             <h3 className="text-white font-semibold mb-1">تحويل لمستخدم</h3>
                             <p className="text-dark-400 text-xs">إرسال من البزنس</p>
                         </Link>
+                        <Link href="/merchant/payouts" className="card p-6 text-center hover:bg-dark-800/50 transition-colors col-span-2">
+                            <UserGroupIcon className="w-10 h-10 text-purple-500 mx-auto mb-3" />
+                            <h3 className="text-white font-semibold mb-1">دفع الرواتب</h3>
+                            <p className="text-dark-400 text-xs">دفع جماعي من ملف CSV أو قالب محفوظ</p>
+                        </Link>
                     </div>
 
                     {/* QR Code Section */}
@@ -285,9 +292,22 @@ export default function MerchantDashboard() {
                         )}
                     </div>
 
+                    {/* Per-sale QR with amount */}
+                    <DynamicPaymentQR
+                        currency={currency}
+                        businessName={data?.businessName}
+                        merchantCode={data?.merchantCode}
+                        onPaid={fetchMerchantData}
+                    />
+
                     {/* Recent Transactions */}
                     <div className="card p-6">
-                        <h3 className="text-xl font-semibold text-white mb-4">{t('merchant.transactions.title')}</h3>
+                        <div className="flex items-center justify-between mb-4">
+                            <h3 className="text-xl font-semibold text-white">{t('merchant.transactions.title')}</h3>
+                            <Link href="/merchant/transactions" className="text-primary-500 text-sm">
+                                {t('wallet.viewAll')}
+                            </Link>
+                        </div>
 
                         {transactions.length === 0 ? (
                             <div className="text-center py-8 text-dark-400">
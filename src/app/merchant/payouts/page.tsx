@@ -0,0 +1,481 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import {
+    ArrowLeftIcon,
+    ArrowDownTrayIcon,
+    CheckCircleIcon,
+    DocumentArrowUpIcon,
+    TrashIcon,
+    XCircleIcon,
+} from '@heroicons/react/24/outline';
+import { CurrencyToggle, formatCurrencyAmount, type Currency } from '@/components/CurrencySelector';
+
+interface PayoutRow {
+    rowNumber: number;
+    phone: string;
+    amount: number;
+    note?: string;
+    fee: number;
+    valid: boolean;
+    error?: string;
+    recipientName?: string;
+}
+
+interface Validation {
+    rows: PayoutRow[];
+    totalAmount: number;
+    totalFee: number;
+    grandTotal: number;
+    invalidCount: number;
+    balance: number;
+    hasSufficientBalance: boolean;
+}
+
+interface Template {
+    id: string;
+    name: string;
+    currency: Currency;
+    rows: { phone: string; amount: number; note?: string }[];
+}
+
+interface Batch {
+    id: string;
+    currency: Currency;
+    status: string;
+    totalAmount: number;
+    totalFee: number;
+    rowCount: number;
+    successCount: number;
+    failedCount: number;
+    createdAt: string;
+}
+
+const BATCH_STATUS: Record<string, { label: string; badge: string }> = {
+    PROCESSING: { label: 'قيد التنفيذ', badge: 'badge-info' },
+    COMPLETED: { label: 'مكتملة', badge: 'badge-success' },
+    PARTIAL: { label: 'مكتملة جزئياً', badge: 'badge-warning' },
+    FAILED: { label: 'فشلت', badge: 'badge-error' },
+};
+
+export default function MerchantPayoutsPage() {
+    const router = useRouter();
+    const [mounted, setMounted] = useState(false);
+    const [step, setStep] = useState<'input' | 'review' | 'result'>('input');
+    const [currency, setCurrency] = useState<Currency>('USD');
+    const [csv, setCsv] = useState('');
+    const [templateId, setTemplateId] = useState<string | null>(null);
+    const [templates, setTemplates] = useState<Template[]>([]);
+    const [batches, setBatches] = useState<Batch[]>([]);
+    const [validation, setValidation] = useState<Validation | null>(null);
+    const [templateName, setTemplateName] = useState('');
+    const [pin, setPin] = useState('');
+    const [result, setResult] = useState<Batch | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [message, setMessage] = useState('');
+
+    const fetchTemplates = useCallback(async () => {
+        try {
+            const res = await fetch('/api/merchants/payouts/templates');
+            if (res.status === 401 || res.status === 403) {
+                router.push('/login');
+                return;
+            }
+            const data = await res.json();
+            setTemplates(data.templates || []);
+        } catch (err) {
+            console.error('Error:', err);
+        }
+    }, [router]);
+
+    const fetchBatches = useCallback(async () => {
+        try {
+            const res = await fetch('/api/merchants/payouts');
+            if (res.ok) {
+                const data = await res.json();
+                setBatches(data.batches || []);
+            }
+        } catch (err) {
+            console.error('Error:', err);
+        }
+    }, []);
+
+    useEffect(() => {
+        setMounted(true);
+        fetchTemplates();
+        fetchBatches();
+    }, [fetchTemplates, fetchBatches]);
+
+    const handleFile = (file: File | undefined) => {
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = () => {
+            setCsv(String(reader.result || ''));
+            setTemplateId(null);
+        };
+        reader.readAsText(file);
+    };
+
+    const selectTemplate = (template: Template) => {
+        setTemplateId(template.id);
+        setCurrency(template.currency);
+        setCsv(template.rows.map(r => [r.phone, r.amount, r.note || ''].join(',')).join('\n'));
+    };
+
+    const deleteTemplate = async (id: string) => {
+        if (!confirm('هل تريد حذف هذا القالب؟')) return;
+        await fetch(`/api/merchants/payouts/templates/${id}`, { method: 'DELETE' });
+        if (templateId === id) setTemplateId(null);
+        fetchTemplates();
+    };
+
+    // The template is only used as-is; editing the rows turns it into a plain CSV batch
+    const batchSource = () => (templateId ? { templateId } : { csv });
+
+    const validate = async () => {
+        setIsLoading(true);
+        setError('');
+        setMessage('');
+
+        try {
+            const res = await fetch('/api/merchants/payouts/validate', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ currency, ...batchSource() }),
+            });
+
+            const data = await res.json();
+            if (!res.ok) {
+                throw new Error(data.error || 'فشل التحقق');
+            }
+
+            setValidation(data);
+            setPin('');
+            setStep('review');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'حدث خطأ');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const saveTemplate = async () => {
+        setError('');
+
+        try {
+            const res = await fetch('/api/merchants/payouts/templates', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ name: templateName, currency, csv }),
+            });
+
+            const data = await res.json();
+            if (!res.ok) {
+                throw new Error(data.error || 'فشل حفظ القالب');
+            }
+
+            setMessage('تم حفظ القالب');
+            setTemplateName('');
+            fetchTemplates();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'حدث خطأ');
+        }
+    };
+
+    const execute = async () => {
+        setIsLoading(true);
+        setError('');
+
+        try {
+            const res = await fetch('/api/merchants/payouts', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ currency, pin, ...batchSource() }),
+            });
+
+            const data = await res.json();
+            if (!res.ok) {
+                setPin('');
+                throw new Error(data.error || 'فشل تنفيذ الدفعة');
+            }
+
+            setResult(data.batch);
+            setStep('result');
+            fetchBatches();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'حدث خطأ');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const reset = () => {
+        setStep('input');
+        setValidation(null);
+        setResult(null);
+        setCsv('');
+        setTemplateId(null);
+        setError('');
+        setMessage('');
+    };
+
+    const formatDate = (dateString: string) => {
+        return new Intl.DateTimeFormat('en-US', {
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+        }).format(new Date(dateString));
+    };
+
+    if (!mounted) {
+        return (
+            <div className="min-h-screen bg-dark-950 flex items-center justify-center">
+                <div className="spinner w-12 h-12"></div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-dark-950">
+            <header className="navbar">
+                <div className="navbar-container">
+                    <div className="flex items-center gap-3">
+                        <Link href="/merchant" className="btn-ghost btn-icon">
+                            <ArrowLeftIcon className="w-5 h-5 sm:w-6 sm:h-6" />
+                        </Link>
+                        <h1 className="text-base sm:text-xl font-bold text-white">دفع الرواتب الجماعي</h1>
+                    </div>
+                </div>
+            </header>
+
+            <main className="pt-24 pb-8 px-4">
+                <div className="max-w-2xl mx-auto space-y-4">
+                    {/* Step: Input */}
+                    {step === 'input' && (
+                        <div className="card p-6 space-y-4">
+                            <div className="flex items-center justify-between">
+                                <h2 className="text-white font-semibold">بيانات الدفعة</h2>
+                                <CurrencyToggle value={currency} onChange={setCurrency} disabled={templateId !== null} />
+                            </div>
+
+                            {templates.length > 0 && (
+                                <div>
+                                    <label className="label">القوالب المحفوظة</label>
+                                    <div className="space-y-2">
+                                        {templates.map(template => (
+                                            <div key={template.id} className="flex items-center gap-2">
+                                                <button
+                                                    onClick={() => selectTemplate(template)}
+                                                    className={`flex-1 text-start p-3 rounded-xl border transition-colors ${templateId === template.id ? 'border-primary-500 bg-primary-500/10' : 'border-dark-700 hover:border-dark-500'}`}
+                                                >
+                                                    <span className="text-white block">{template.name}</span>
+                                                    <span className="text-dark-400 text-xs">{template.rows.length} موظف · {template.currency}</span>
+                                                </button>
+                                                <button onClick={() => deleteTemplate(template.id)} className="btn-ghost btn-icon">
+                                                    <TrashIcon className="w-5 h-5 text-red-400" />
+                                                </button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+
+                            <label className="flex items-center justify-center gap-2 p-4 rounded-xl border border-dashed border-dark-600 text-dark-300 cursor-pointer hover:border-primary-500 transition-colors">
+                                <DocumentArrowUpIcon className="w-6 h-6" />
+                                رفع ملف CSV
+                                <input
+                                    type="file"
+                                    accept=".csv,text/csv"
+                                    className="hidden"
+                                    onChange={(e) => handleFile(e.target.files?.[0])}
+                                />
+                            </label>
+
+                            <div>
+                                <label className="label">أو الصق الصفوف (الهاتف,المبلغ,ملاحظة)</label>
+                                <textarea
+                                    className="input font-mono text-sm min-h-[10rem]"
+                                    dir="ltr"
+                                    placeholder={'0912345678,150,Salary March\n0998765432,200,Salary March'}
+                                    value={csv}
+                                    onChange={(e) => {
+                                        setCsv(e.target.value);
+                                        setTemplateId(null);
+                                    }}
+                                />
+                            </div>
+
+                            {error && <p className="text-red-400 text-sm text-center">{error}</p>}
+
+                            <button
+                                onClick={validate}
+                                disabled={isLoading || (!csv.trim() && !templateId)}
+                                className="btn-primary w-full"
+                            >
+                                {isLoading ? <div className="spinner w-5 h-5 mx-auto"></div> : 'التحقق من الدفعة'}
+                            </button>
+                        </div>
+                    )}
+
+                    {/* Step: Review */}
+                    {step === 'review' && validation && (
+                        <>
+                            <div className="card p-6">
+                                <div className="grid grid-cols-3 gap-3 text-center mb-4">
+                                    <div>
+                                        <p className="text-dark-400 text-xs">المبلغ</p>
+                                        <p className="text-white font-semibold">{formatCurrencyAmount(validation.totalAmount, currency)}</p>
+                                    </div>
+                                    <div>
+                                        <p className="text-dark-400 text-xs">الرسوم</p>
+                                        <p className="text-white font-semibold">{formatCurrencyAmount(validation.totalFee, currency)}</p>
+                                    </div>
+                                    <div>
+                                        <p className="text-dark-400 text-xs">الإجمالي</p>
+                                        <p className="text-primary-500 font-bold">{formatCurrencyAmount(validation.grandTotal, currency)}</p>
+                                    </div>
+                                </div>
+                                <p className="text-dark-400 text-sm text-center">
+                                    رصيد حساب الأعمال: {formatCurrencyAmount(validation.balance, currency)}
+                                </p>
+                                {!validation.hasSufficientBalance && (
+                                    <p className="text-red-400 text-sm text-center mt-2">رصيد حساب الأعمال غير كافٍ</p>
+                                )}
+                                {validation.invalidCount > 0 && (
+                                    <p className="text-red-400 text-sm text-center mt-2">
+                                        يوجد {validation.invalidCount} صف غير صالح - يرجى تصحيحها أولاً
+                                    </p>
+                                )}
+                            </div>
+
+                            <div className="card p-4 space-y-2">
+                                {validation.rows.map(row => (
+                                    <div key={row.rowNumber} className="flex items-center justify-between gap-3 py-2 border-b border-dark-800 last:border-0">
+                                        <div className="flex items-center gap-3 min-w-0">
+                                            {row.valid
+                                                ? <CheckCircleIcon className="w-5 h-5 text-green-500 flex-shrink-0" />
+                                                : <XCircleIcon className="w-5 h-5 text-red-500 flex-shrink-0" />}
+                                            <div className="min-w-0">
+                                                <p className="text-white text-sm truncate">
+                                                    {row.rowNumber}. {row.recipientName || row.phone}
+                                                </p>
+                                                <p className={`text-xs truncate ${row.valid ? 'text-dark-400' : 'text-red-400'}`}>
+                                                    {row.valid ? row.note || row.phone : row.error}
+                                                </p>
+                                            </div>
+                                        </div>
+                                        <div className="text-end flex-shrink-0">
+                                            <p className="text-white text-sm">
+                                                {Number.isFinite(row.amount) ? formatCurrencyAmount(row.amount, currency) : '-'}
+                                            </p>
+                                            {row.valid && (
+                                                <p className="text-dark-500 text-xs">+ {formatCurrencyAmount(row.fee, currency)}</p>
+                                            )}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+
+                            {!templateId && (
+                                <div className="card p-4 flex gap-3">
+                                    <input
+                                        type="text"
+                                        className="input flex-1"
+                                        maxLength={100}
+                                        placeholder="اسم القالب (مثال: رواتب شهرية)"
+                                        value={templateName}
+                                        onChange={(e) => setTemplateName(e.target.value)}
+                                    />
+                                    <button onClick={saveTemplate} disabled={!templateName.trim()} className="btn-secondary">
+                                        حفظ كقالب
+                                    </button>
+                                </div>
+                            )}
+
+                            <div className="card p-6 space-y-4">
+                                <div>
+                                    <label className="label">رمز الدفع</label>
+                                    <input
+                                        type="password"
+                                        inputMode="numeric"
+                                        maxLength={4}
+                                        className="input text-center text-2xl tracking-[0.8em]"
+                                        placeholder="••••"
+                                        value={pin}
+                                        onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 4))}
+                                    />
+                                </div>
+
+                                {message && <p className="text-green-400 text-sm text-center">{message}</p>}
+                                {error && <p className="text-red-400 text-sm text-center">{error}</p>}
+
+                                <div className="flex gap-3">
+                                    <button
+                                        onClick={execute}
+                                        disabled={isLoading || pin.length !== 4 || validation.invalidCount > 0 || !validation.hasSufficientBalance}
+                                        className="btn-primary flex-1"
+                                    >
+                                        {isLoading ? <div className="spinner w-5 h-5 mx-auto"></div> : `دفع ${validation.rows.length} موظف`}
+                                    </button>
+                                    <button onClick={() => setStep('input')} disabled={isLoading} className="btn-secondary flex-1">
+                                        تعديل
+                                    </button>
+                                </div>
+                            </div>
+                        </>
+                    )}
+
+                    {/* Step: Result */}
+                    {step === 'result' && result && (
+                        <div className="card p-6 text-center space-y-4">
+                            <CheckCircleIcon className="w-16 h-16 text-green-500 mx-auto" />
+                            <h2 className="text-white font-semibold text-lg">
+                                تم تنفيذ {result.successCount} من {result.rowCount}
+                            </h2>
+                            {result.failedCount > 0 && (
+                                <p className="text-orange-400 text-sm">فشل {result.failedCount} صف - راجع التقرير</p>
+                            )}
+                            <a href={`/api/merchants/payouts/${result.id}/report`} className="btn-secondary w-full inline-flex items-center justify-center gap-2">
+                                <ArrowDownTrayIcon className="w-5 h-5" />
+                                تحميل التقرير
+                            </a>
+                            <button onClick={reset} className="btn-primary w-full">دفعة جديدة</button>
+                        </div>
+                    )}
+
+                    {/* Recent batches */}
+                    {batches.length > 0 && (
+                        <div className="card p-4">
+                            <h3 className="text-dark-400 text-sm mb-3">الدفعات السابقة</h3>
+                            <div className="space-y-3">
+                                {batches.map(batch => {
+                                    const status = BATCH_STATUS[batch.status] || { label: batch.status, badge: 'badge-info' };
+                                    return (
+                                        <div key={batch.id} className="flex items-center justify-between gap-3">
+                                            <div>
+                                                <p className="text-white text-sm">
+                                                    {formatCurrencyAmount(batch.totalAmount, batch.currency)} · {batch.successCount}/{batch.rowCount}
+                                                </p>
+                                                <p className="text-dark-500 text-xs">{formatDate(batch.createdAt)}</p>
+                                            </div>
+                                            <div className="flex items-center gap-2">
+                                                <span className={`${status.badge} text-xs`}>{status.label}</span>
+                                                <a href={`/api/merchants/payouts/${batch.id}/report`} className="btn-ghost btn-icon" title="تحميل التقرير">
+                                                    <ArrowDownTrayIcon className="w-5 h-5 text-dark-400" />
+                                                </a>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </main>
+        </div>
+    );
+}
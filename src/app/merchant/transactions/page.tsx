@@ -0,0 +1,277 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import {
+    ArrowLeftIcon,
+    ArrowUturnLeftIcon,
+    CheckCircleIcon,
+    ClockIcon,
+    XMarkIcon,
+} from '@heroicons/react/24/outline';
+import { formatCurrencyAmount, type Currency } from '@/components/CurrencySelector';
+
+interface Payment {
+    id: string;
+    referenceNumber: string;
+    amount: number;
+    currency: Currency;
+    status: string;
+    createdAt: string;
+    senderName: string | null;
+    senderPhone: string | null;
+    refundedAmount: number;
+    refundableAmount: number;
+}
+
+export default function MerchantTransactionsPage() {
+    const router = useRouter();
+    const [mounted, setMounted] = useState(false);
+    const [payments, setPayments] = useState<Payment[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [page, setPage] = useState(1);
+    const [totalPages, setTotalPages] = useState(1);
+
+    // Refund modal
+    const [refundTarget, setRefundTarget] = useState<Payment | null>(null);
+    const [refundAmount, setRefundAmount] = useState('');
+    const [refundReason, setRefundReason] = useState('');
+    const [pin, setPin] = useState('');
+    const [isRefunding, setIsRefunding] = useState(false);
+    const [error, setError] = useState('');
+    const [successMessage, setSuccessMessage] = useState('');
+
+    const fetchPayments = useCallback(async () => {
+        try {
+            const res = await fetch(`/api/merchants/transactions?page=${page}`);
+            if (res.status === 401 || res.status === 403) {
+                router.push('/login');
+                return;
+            }
+            const data = await res.json();
+            setPayments(data.transactions || []);
+            setTotalPages(data.pagination?.totalPages || 1);
+        } catch (err) {
+            console.error('Error:', err);
+        } finally {
+            setLoading(false);
+        }
+    }, [page, router]);
+
+    useEffect(() => {
+        setMounted(true);
+        fetchPayments();
+    }, [fetchPayments]);
+
+    const openRefund = (payment: Payment) => {
+        setRefundTarget(payment);
+        setRefundAmount(payment.refundableAmount.toString());
+        setRefundReason('');
+        setPin('');
+        setError('');
+    };
+
+    const handleRefund = async () => {
+        if (!refundTarget) return;
+        setIsRefunding(true);
+        setError('');
+
+        try {
+            const res = await fetch(`/api/merchants/transactions/${refundTarget.id}/refund`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    amount: parseFloat(refundAmount),
+                    reason: refundReason || undefined,
+                    pin,
+                }),
+            });
+
+            const data = await res.json();
+            if (!res.ok) {
+                throw new Error(data.error || 'فشل الاسترداد');
+            }
+
+            setSuccessMessage(`تم استرداد ${formatCurrencyAmount(parseFloat(refundAmount), refundTarget.currency)} - ${data.referenceNumber}`);
+            setRefundTarget(null);
+            fetchPayments();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'حدث خطأ');
+        } finally {
+            setIsRefunding(false);
+        }
+    };
+
+    const formatDate = (dateString: string) => {
+        return new Intl.DateTimeFormat('en-US', {
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+        }).format(new Date(dateString));
+    };
+
+    if (!mounted || loading) {
+        return (
+            <div className="min-h-screen bg-dark-950 flex items-center justify-center">
+                <div className="spinner w-12 h-12"></div>
+            </div>
+        );
+    }
+
+    const parsedRefund = parseFloat(refundAmount);
+    const isRefundValid = refundTarget !== null &&
+        parsedRefund > 0 &&
+        parsedRefund <= refundTarget.refundableAmount &&
+        pin.length === 4;
+
+    return (
+        <div className="min-h-screen bg-dark-950">
+            <header className="navbar">
+                <div className="navbar-container">
+                    <div className="flex items-center gap-3">
+                        <Link href="/merchant" className="btn-ghost btn-icon">
+                            <ArrowLeftIcon className="w-5 h-5 sm:w-6 sm:h-6" />
+                        </Link>
+                        <h1 className="text-base sm:text-xl font-bold text-white">المدفوعات المستلمة</h1>
+                    </div>
+                </div>
+            </header>
+
+            <main className="pt-24 pb-8 px-4">
+                <div className="max-w-2xl mx-auto space-y-4">
+                    {successMessage && (
+                        <div className="p-4 rounded-xl bg-green-500/10 border border-green-500/20 text-green-400 flex items-center gap-3">
+                            <CheckCircleIcon className="w-6 h-6 flex-shrink-0" />
+                            <span>{successMessage}</span>
+                        </div>
+                    )}
+
+                    {payments.length === 0 ? (
+                        <div className="card p-8 text-center text-dark-400">
+                            <ClockIcon className="w-12 h-12 mx-auto mb-2 opacity-50" />
+                            <p>لا توجد مدفوعات</p>
+                        </div>
+                    ) : (
+                        payments.map((payment) => (
+                            <div key={payment.id} className="card p-4 flex items-center justify-between gap-3">
+                                <div>
+                                    <p className="text-white font-medium">{payment.senderName || '-'}</p>
+                                    <p className="text-dark-400 text-sm">{formatDate(payment.createdAt)}</p>
+                                    <p className="text-dark-500 text-xs">{payment.referenceNumber}</p>
+                                </div>
+                                <div className="text-end">
+                                    <p className="text-green-500 font-semibold">
+                                        +{formatCurrencyAmount(payment.amount, payment.currency)}
+                                    </p>
+                                    {payment.refundedAmount > 0 && (
+                                        <p className="text-orange-400 text-xs">
+                                            مسترد: {formatCurrencyAmount(payment.refundedAmount, payment.currency)}
+                                        </p>
+                                    )}
+                                    {payment.status === 'REVERSED' ? (
+                                        <span className="badge-error text-xs">ملغاة</span>
+                                    ) : payment.refundableAmount > 0 ? (
+                                        <button
+                                            onClick={() => openRefund(payment)}
+                                            className="btn-ghost btn-sm text-orange-400 mt-1 inline-flex items-center gap-1"
+                                        >
+                                            <ArrowUturnLeftIcon className="w-4 h-4" />
+                                            استرداد
+                                        </button>
+                                    ) : (
+                                        <span className="text-dark-500 text-xs">مستردة بالكامل</span>
+                                    )}
+                                </div>
+                            </div>
+                        ))
+                    )}
+
+                    {totalPages > 1 && (
+                        <div className="flex justify-center gap-3">
+                            <button className="btn-ghost btn-sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                                السابق
+                            </button>
+                            <span className="text-dark-400 text-sm self-center">{page} / {totalPages}</span>
+                            <button className="btn-ghost btn-sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                                التالي
+                            </button>
+                        </div>
+                    )}
+                </div>
+            </main>
+
+            {/* Refund Modal */}
+            {refundTarget && (
+                <div className="modal-backdrop" onClick={() => setRefundTarget(null)}>
+                    <div className="modal" onClick={(e) => e.stopPropagation()}>
+                        <div className="modal-header flex items-center justify-between">
+                            <h2 className="text-lg font-semibold text-white">استرداد دفعة</h2>
+                            <button onClick={() => setRefundTarget(null)} className="btn-ghost btn-icon">
+                                <XMarkIcon className="w-5 h-5" />
+                            </button>
+                        </div>
+                        <div className="modal-body space-y-4">
+                            <div className="p-3 rounded-xl bg-dark-700/50 text-sm">
+                                <p className="text-dark-400">{refundTarget.referenceNumber}</p>
+                                <p className="text-white">
+                                    المتاح للاسترداد: {formatCurrencyAmount(refundTarget.refundableAmount, refundTarget.currency)}
+                                </p>
+                            </div>
+
+                            <div>
+                                <label className="label">المبلغ</label>
+                                <input
+                                    type="number"
+                                    className="input text-center text-2xl font-bold"
+                                    dir="ltr"
+                                    min="0.01"
+                                    max={refundTarget.refundableAmount}
+                                    step={refundTarget.currency === 'SYP' ? '1' : '0.01'}
+                                    value={refundAmount}
+                                    onChange={(e) => setRefundAmount(e.target.value)}
+                                />
+                            </div>
+
+                            <div>
+                                <label className="label">السبب (اختياري)</label>
+                                <input
+                                    type="text"
+                                    className="input"
+                                    maxLength={200}
+                                    value={refundReason}
+                                    onChange={(e) => setRefundReason(e.target.value)}
+                                />
+                            </div>
+
+                            <div>
+                                <label className="label">رمز الدفع</label>
+                                <input
+                                    type="password"
+                                    inputMode="numeric"
+                                    maxLength={4}
+                                    className="input text-center text-2xl tracking-[0.8em]"
+                                    placeholder="••••"
+                                    value={pin}
+                                    onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 4))}
+                                />
+                            </div>
+
+                            {error && <p className="text-red-400 text-sm text-center">{error}</p>}
+                        </div>
+                        <div className="modal-footer">
+                            <button
+                                onClick={handleRefund}
+                                disabled={isRefunding || !isRefundValid}
+                                className="btn-primary w-full"
+                            >
+                                {isRefunding ? <div className="spinner w-5 h-5 mx-auto"></div> : 'تأكيد الاسترداد'}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
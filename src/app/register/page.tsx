@@ -37,6 +37,9 @@ export default function RegisterPage() {
         selfiePhoto: null as File | null,
         terms: false, // Terms checkbox
     });
+    // SMS verification of the phone number (step 2)
+    const [otpCode, setOtpCode] = useState('');
+    const [phoneVerification, setPhoneVerification] = useState<{ id: string; phone: string; verified: boolean } | null>(null);
     const [files, setFiles] = useState<{
         idPhotoFront: File | null;
         idPhotoBack: File | null;
@@ -115,7 +118,55 @@ export default function RegisterPage() {
     const phoneValidation = validateSyrianPhone(formData.phone);
     const passwordStrength = getPasswordStrength(formData.password);
 
-    const handleNext = () => {
+    const sendOtp = async (): Promise<boolean> => {
+        setIsLoading(true);
+        try {
+            const response = await fetch('/api/auth/register/otp', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ phone: formData.phone }),
+            });
+            const result = await response.json();
+            if (!response.ok) {
+                setError(result.error || 'تعذر إرسال رمز التحقق');
+                return false;
+            }
+            setPhoneVerification({ id: result.verificationId, phone: formData.phone, verified: false });
+            setOtpCode('');
+            return true;
+        } catch (err) {
+            setError('خطأ في الاتصال');
+            return false;
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const verifyOtp = async (): Promise<boolean> => {
+        if (!phoneVerification) return false;
+        setIsLoading(true);
+        try {
+            const response = await fetch('/api/auth/register/verify-phone', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ verificationId: phoneVerification.id, code: otpCode }),
+            });
+            const result = await response.json();
+            if (!response.ok) {
+                setError(result.error || 'رمز التحقق غير صحيح');
+                return false;
+            }
+            setPhoneVerification({ ...phoneVerification, verified: true });
+            return true;
+        } catch (err) {
+            setError('خطأ في الاتصال');
+            return false;
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleNext = async () => {
         setError('');
 
         if (step === 1) {
@@ -139,16 +190,33 @@ export default function RegisterPage() {
                 setError(t('errors.required'));
                 return;
             }
+            // Send a code unless this number is already verified
+            const alreadyVerified = phoneVerification?.verified && phoneVerification.phone === formData.phone;
+            if (!alreadyVerified && !(await sendOtp())) {
+                return;
+            }
         }
 
         if (step === 2) {
+            if (!phoneVerification?.verified) {
+                if (otpCode.trim().length !== 6) {
+                    setError('أدخل رمز التحقق المكون من 6 أرقام');
+                    return;
+                }
+                if (!(await verifyOtp())) {
+                    return;
+                }
+            }
+        }
+
+        if (step === 3) {
             if (!files.idPhotoFront || !files.idPhotoBack || !files.selfie) {
                 setError('الرجاء رفع جميع الصور المطلوبة');
                 return;
             }
         }
 
-        if (step < 2) {
+        if (step < 3) {
             setStep(step + 1);
         } else {
             handleSubmit();
@@ -168,6 +236,7 @@ export default function RegisterPage() {
             data.append('password', formData.password);
             data.append('address', formData.address || ''); // NEW: Include address
             data.append('dateOfBirth', formData.dateOfBirth || '');
+            data.append('phoneVerificationId', phoneVerification?.id || '');
 
             if (files.idPhotoFront) data.append('idPhotoFront', files.idPhotoFront);
             if (files.idPhotoBack) data.append('idPhotoBack', files.idPhotoBack);
@@ -223,7 +292,11 @@ export default function RegisterPage() {
                             </div>
                             <div className={`w-20 h-1 ${step >= 2 ? 'bg-primary-500' : 'bg-dark-800'}`} />
                             <div className={`w-10 h-10 rounded-full flex items-center justify-center ${step >= 2 ? 'bg-primary-500 text-dark-900' : 'bg-dark-800 text-dark-400'}`}>
-                                2
+                                {step > 2 ? <CheckIcon className="w-5 h-5" /> : '2'}
+                            </div>
+                            <div className={`w-20 h-1 ${step >= 3 ? 'bg-primary-500' : 'bg-dark-800'}`} />
+                            <div className={`w-10 h-10 rounded-full flex items-center justify-center ${step >= 3 ? 'bg-primary-500 text-dark-900' : 'bg-dark-800 text-dark-400'}`}>
+                                3
                             </div>
                         </div>
                     </div>
@@ -231,10 +304,10 @@ export default function RegisterPage() {
                     {/* Header */}
                     <div className="mb-6 text-center">
                         <h1 className="text-2xl font-bold text-white mb-2">
-                            {step === 1 ? 'إنشاء حساب جديد' : 'التحقق من الهوية (KYC)'}
+                            {step === 1 ? 'إنشاء حساب جديد' : step === 2 ? 'تأكيد رقم الهاتف' : 'التحقق من الهوية (KYC)'}
                         </h1>
                         <p className="text-dark-400">
-                            {step === 1 ? 'املأ بياناتك الشخصية' : 'قم برفع صورة هويتك وسيلفي للتحقق'}
+                            {step === 1 ? 'املأ بياناتك الشخصية' : step === 2 ? 'أدخل الرمز الذي أرسلناه إليك برسالة SMS' : 'قم برفع صورة هويتك وسيلفي للتحقق'}
                         </p>
                     </div>
 
@@ -422,8 +495,44 @@ export default function RegisterPage() {
                         </div>
                     )}
 
-                    {/* Step 2: KYC Documents */}
+                    {/* Step 2: Phone Verification */}
                     {step === 2 && (
+                        <div className="space-y-5">
+                            <p className="text-dark-400 text-sm text-center">
+                                تم إرسال رمز التحقق إلى <span className="text-white" dir="ltr">{phoneVerification?.phone}</span>
+                            </p>
+                            {phoneVerification?.verified ? (
+                                <div className="p-4 rounded-xl bg-green-500/10 border border-green-500/20 text-green-400 text-sm text-center">
+                                    ✓ تم تأكيد رقم الهاتف
+                                </div>
+                            ) : (
+                                <>
+                                    <input
+                                        type="text"
+                                        inputMode="numeric"
+                                        autoComplete="one-time-code"
+                                        maxLength={6}
+                                        className="input text-center tracking-widest text-xl"
+                                        placeholder="000000"
+                                        dir="ltr"
+                                        value={otpCode}
+                                        onChange={(e) => setOtpCode(e.target.value.replace(/\D/g, ''))}
+                                    />
+                                    <button
+                                        type="button"
+                                        onClick={() => { setError(''); sendOtp(); }}
+                                        className="text-primary-500 hover:text-primary-400 text-sm w-full"
+                                        disabled={isLoading}
+                                    >
+                                        إعادة إرسال الرمز
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Step 3: KYC Documents */}
+                    {step === 3 && (
                         <div className="space-y-6">
                             <div className="p-4 rounded-xl bg-blue-500/10 border border-blue-500/20 text-blue-400 text-sm">
                                 <p className="font-medium mb-1">📋 متطلبات التحقق</p>
@@ -485,7 +594,7 @@ export default function RegisterPage() {
                                 <div className="spinner w-5 h-5"></div>
                             ) : (
                                 <>
-                                    <span>{step === 2 ? 'إرسال الطلب' : 'التالي'}</span>
+                                    <span>{step === 3 ? 'إرسال الطلب' : 'التالي'}</span>
                                     <ArrowRightIcon className="w-5 h-5" />
                                 </>
                             )}
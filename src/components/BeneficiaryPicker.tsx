@@ -0,0 +1,271 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { PencilSquareIcon, PlusIcon, StarIcon, TrashIcon, UserIcon } from '@heroicons/react/24/outline';
+import { Currency, CurrencyToggle } from './CurrencySelector';
+
+export interface Beneficiary {
+    id: string;
+    type: 'USER' | 'MERCHANT';
+    phone: string | null;
+    merchantCode: string | null;
+    nickname: string;
+    defaultCurrency: Currency;
+    lastUsedAt: string | null;
+}
+
+interface RecentRecipient {
+    id: string;
+    fullName: string;
+    fullNameAr: string | null;
+    phone: string;
+    lastCurrency: Currency;
+}
+
+export interface BeneficiarySelection {
+    phone?: string;
+    merchantCode?: string;
+    currency: Currency;
+}
+
+interface BeneficiaryPickerProps {
+    type: 'USER' | 'MERCHANT';
+    onSelect: (selection: BeneficiarySelection) => void;
+    // Changes whenever the page saved a new beneficiary itself
+    refreshKey?: unknown;
+}
+
+/**
+ * Saved beneficiaries (transfers) or favorite merchants (pay screen), with add/edit/delete
+ * USER lists also show recent recipients from past transfers
+ */
+export default function BeneficiaryPicker({ type, onSelect, refreshKey }: BeneficiaryPickerProps) {
+    const t = useTranslations();
+    const [beneficiaries, setBeneficiaries] = useState<Beneficiary[]>([]);
+    const [recent, setRecent] = useState<RecentRecipient[]>([]);
+
+    // Add / edit form - editingId null means adding
+    const [showForm, setShowForm] = useState(false);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [nickname, setNickname] = useState('');
+    const [identifier, setIdentifier] = useState('');
+    const [currency, setCurrency] = useState<Currency>('USD');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const fetchBeneficiaries = useCallback(async () => {
+        try {
+            const requests = [fetch(`/api/user/beneficiaries?type=${type}`)];
+            if (type === 'USER') {
+                requests.push(fetch('/api/user/beneficiaries/recent'));
+            }
+
+            const [savedRes, recentRes] = await Promise.all(requests);
+            if (savedRes.ok) {
+                const data = await savedRes.json();
+                setBeneficiaries(data.beneficiaries || []);
+            }
+            if (recentRes?.ok) {
+                const data = await recentRes.json();
+                setRecent(data.recipients || []);
+            }
+        } catch (err) {
+            console.error('Error fetching beneficiaries:', err);
+        }
+    }, [type]);
+
+    useEffect(() => {
+        fetchBeneficiaries();
+    }, [fetchBeneficiaries, refreshKey]);
+
+    const openAdd = () => {
+        setEditingId(null);
+        setNickname('');
+        setIdentifier('');
+        setCurrency('USD');
+        setError('');
+        setShowForm(true);
+    };
+
+    const openEdit = (beneficiary: Beneficiary) => {
+        setEditingId(beneficiary.id);
+        setNickname(beneficiary.nickname);
+        setIdentifier(beneficiary.phone || beneficiary.merchantCode || '');
+        setCurrency(beneficiary.defaultCurrency);
+        setError('');
+        setShowForm(true);
+    };
+
+    const save = async () => {
+        setIsSaving(true);
+        setError('');
+
+        try {
+            const response = editingId
+                ? await fetch(`/api/user/beneficiaries/${editingId}`, {
+                    method: 'PATCH',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ nickname, defaultCurrency: currency }),
+                })
+                : await fetch('/api/user/beneficiaries', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        type,
+                        nickname,
+                        defaultCurrency: currency,
+                        ...(type === 'USER' ? { phone: identifier } : { merchantCode: identifier }),
+                    }),
+                });
+
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || t('common.error'));
+            }
+
+            setShowForm(false);
+            fetchBeneficiaries();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t('common.error'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const remove = async (id: string) => {
+        if (!confirm(t('wallet.beneficiaries.deleteConfirm'))) return;
+
+        try {
+            await fetch(`/api/user/beneficiaries/${id}`, { method: 'DELETE' });
+        } catch (err) {
+            console.error('Error deleting beneficiary:', err);
+        }
+        setShowForm(false);
+        fetchBeneficiaries();
+    };
+
+    const select = (beneficiary: Beneficiary) => {
+        onSelect({
+            phone: beneficiary.phone ?? undefined,
+            merchantCode: beneficiary.merchantCode ?? undefined,
+            currency: beneficiary.defaultCurrency,
+        });
+    };
+
+    return (
+        <div className="space-y-4">
+            {type === 'USER' && recent.length > 0 && (
+                <div className="card p-4">
+                    <h3 className="text-dark-400 text-sm mb-3">{t('wallet.beneficiaries.recent')}</h3>
+                    <div className="flex gap-3 overflow-x-auto pb-1">
+                        {recent.map(recipient => (
+                            <button
+                                key={recipient.id}
+                                onClick={() => onSelect({ phone: recipient.phone, currency: recipient.lastCurrency })}
+                                className="flex flex-col items-center gap-1 min-w-[4.5rem] hover:opacity-80 transition-opacity"
+                            >
+                                <span className="w-12 h-12 rounded-full bg-primary-500/20 flex items-center justify-center">
+                                    <UserIcon className="w-6 h-6 text-primary-500" />
+                                </span>
+                                <span className="text-white text-xs truncate max-w-[4.5rem]">
+                                    {recipient.fullNameAr || recipient.fullName}
+                                </span>
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <div className="card p-4">
+                <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-dark-400 text-sm">
+                        {type === 'USER' ? t('wallet.beneficiaries.saved') : t('wallet.beneficiaries.favoriteMerchants')}
+                    </h3>
+                    <button onClick={openAdd} className="btn-ghost btn-sm inline-flex items-center gap-1 text-primary-500">
+                        <PlusIcon className="w-4 h-4" />
+                        {t('wallet.beneficiaries.add')}
+                    </button>
+                </div>
+
+                {showForm && (
+                    <div className="space-y-3 mb-4 p-3 rounded-xl bg-dark-700/50">
+                        <input
+                            type="text"
+                            className="input"
+                            maxLength={50}
+                            placeholder={t('wallet.beneficiaries.nickname')}
+                            value={nickname}
+                            onChange={(e) => setNickname(e.target.value)}
+                        />
+                        <input
+                            type={type === 'USER' ? 'tel' : 'text'}
+                            className="input"
+                            dir="ltr"
+                            disabled={editingId !== null}
+                            placeholder={type === 'USER' ? t('wallet.beneficiaries.phone') : 'BB-XXXXXX'}
+                            value={identifier}
+                            onChange={(e) => setIdentifier(type === 'USER' ? e.target.value : e.target.value.toUpperCase())}
+                        />
+                        <div className="flex items-center justify-between">
+                            <span className="text-dark-400 text-sm">{t('wallet.beneficiaries.defaultCurrency')}</span>
+                            <CurrencyToggle value={currency} onChange={setCurrency} />
+                        </div>
+                        {error && <p className="text-red-400 text-sm">{error}</p>}
+                        <div className="flex gap-3">
+                            <button
+                                onClick={save}
+                                disabled={isSaving || !nickname.trim() || identifier.length < 3}
+                                className="btn-primary btn-sm flex-1"
+                            >
+                                {t('wallet.beneficiaries.save')}
+                            </button>
+                            <button onClick={() => setShowForm(false)} className="btn-secondary btn-sm flex-1">
+                                {t('wallet.beneficiaries.cancel')}
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {beneficiaries.length === 0 && !showForm ? (
+                    <p className="text-dark-500 text-sm text-center py-2">{t('wallet.beneficiaries.empty')}</p>
+                ) : (
+                    <div className="space-y-2">
+                        {beneficiaries.map(beneficiary => (
+                            <div key={beneficiary.id} className="flex items-center gap-3">
+                                <button
+                                    onClick={() => select(beneficiary)}
+                                    className="flex-1 min-w-0 flex items-center gap-3 p-2 -mx-2 rounded-xl hover:bg-dark-700/50 transition-colors text-start"
+                                >
+                                    <span className="w-10 h-10 rounded-full bg-yellow-500/10 flex items-center justify-center flex-shrink-0">
+                                        <StarIcon className="w-5 h-5 text-yellow-400" />
+                                    </span>
+                                    <span className="min-w-0">
+                                        <span className="text-white font-medium truncate block">{beneficiary.nickname}</span>
+                                        <span className="text-dark-400 text-xs block" dir="ltr">
+                                            {beneficiary.phone || beneficiary.merchantCode} · {beneficiary.defaultCurrency}
+                                        </span>
+                                    </span>
+                                </button>
+                                <button
+                                    onClick={() => openEdit(beneficiary)}
+                                    className="btn-ghost btn-icon"
+                                    aria-label={t('wallet.beneficiaries.edit')}
+                                >
+                                    <PencilSquareIcon className="w-5 h-5 text-dark-400" />
+                                </button>
+                                <button
+                                    onClick={() => remove(beneficiary.id)}
+                                    className="btn-ghost btn-icon"
+                                    aria-label={t('wallet.beneficiaries.delete')}
+                                >
+                                    <TrashIcon className="w-5 h-5 text-red-400" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,176 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { QRCodeCanvas } from 'qrcode.react';
+import { QrCodeIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import { Currency, formatCurrencyAmount } from './CurrencySelector';
+
+interface CashOutToken {
+    tokenId: string;
+    qrData: string;
+    amount: number;
+    currency: Currency;
+    expiresAt: string;
+}
+
+interface CashOutQRProps {
+    currency: Currency;
+    onCompleted?: () => void;
+}
+
+export default function CashOutQR({ currency, onCompleted }: CashOutQRProps) {
+    const t = useTranslations();
+    const [amount, setAmount] = useState('');
+    const [pin, setPin] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [token, setToken] = useState<CashOutToken | null>(null);
+    const [completed, setCompleted] = useState(false);
+    const [secondsLeft, setSecondsLeft] = useState(0);
+
+    // Countdown + poll until an agent redeems the QR
+    useEffect(() => {
+        if (!token) return;
+
+        const tick = () => setSecondsLeft(Math.max(0, Math.floor((new Date(token.expiresAt).getTime() - Date.now()) / 1000)));
+        tick();
+        const countdown = setInterval(tick, 1000);
+
+        const poll = setInterval(async () => {
+            try {
+                const response = await fetch(`/api/user/cash-out?id=${token.tokenId}`);
+                if (!response.ok) return;
+                const data = await response.json();
+
+                if (data.status === 'USED') {
+                    setToken(null);
+                    setCompleted(true);
+                    onCompleted?.();
+                } else if (data.status === 'EXPIRED' || data.status === 'CANCELLED') {
+                    setToken(null);
+                    setError(t('transaction.withdraw.cashOut.expired'));
+                } else if (data.status === 'FAILED') {
+                    setToken(null);
+                    setError(data.failureReason || t('common.error'));
+                }
+            } catch (err) {
+                console.error('Poll cash-out error:', err);
+            }
+        }, 3000);
+
+        return () => {
+            clearInterval(countdown);
+            clearInterval(poll);
+        };
+    }, [token, onCompleted, t]);
+
+    const handleGenerate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading(true);
+        setError('');
+        setCompleted(false);
+
+        try {
+            const response = await fetch('/api/user/cash-out', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ amount: parseFloat(amount), currency, pin }),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || t('common.error'));
+            }
+
+            setToken(data);
+            setPin('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t('common.error'));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleCancel = async () => {
+        if (!token) return;
+        await fetch(`/api/user/cash-out?id=${token.tokenId}`, { method: 'DELETE' });
+        setToken(null);
+    };
+
+    return (
+        <div className="card p-6 mb-6">
+            <div className="flex items-center gap-3 mb-4">
+                <QrCodeIcon className="w-6 h-6 text-red-500" />
+                <h3 className="text-lg font-semibold text-white">{t('transaction.withdraw.cashOut.title')}</h3>
+            </div>
+
+            {completed && (
+                <div className="mb-4 p-4 rounded-xl bg-green-500/10 border border-green-500/20 text-green-400 flex items-center gap-3">
+                    <CheckCircleIcon className="w-6 h-6 flex-shrink-0" />
+                    <span>{t('transaction.withdraw.cashOut.completed')}</span>
+                </div>
+            )}
+
+            {token ? (
+                <div className="flex flex-col items-center">
+                    <div className="p-4 bg-white rounded-2xl">
+                        <QRCodeCanvas value={token.qrData} size={220} level="M" marginSize={1} />
+                    </div>
+                    <p className="text-2xl font-bold text-white mt-4" dir="ltr">
+                        {formatCurrencyAmount(token.amount, token.currency)}
+                    </p>
+                    <p className="text-dark-400 text-sm mt-2 text-center">{t('transaction.withdraw.cashOut.showToAgent')}</p>
+                    <p className="text-dark-500 text-sm mt-1" dir="ltr">
+                        {Math.floor(secondsLeft / 60)}:{(secondsLeft % 60).toString().padStart(2, '0')}
+                    </p>
+                    <button type="button" className="btn-ghost w-full mt-4" onClick={handleCancel}>
+                        {t('common.cancel')}
+                    </button>
+                </div>
+            ) : (
+                <form onSubmit={handleGenerate} className="space-y-4">
+                    <p className="text-dark-400 text-sm">{t('transaction.withdraw.cashOut.description')}</p>
+                    <div>
+                        <label className="label">{t('transaction.withdraw.cashOut.amount')}</label>
+                        <input
+                            type="number"
+                            className="input text-2xl text-center font-bold"
+                            placeholder="0"
+                            dir="ltr"
+                            min="1"
+                            value={amount}
+                            onChange={(e) => setAmount(e.target.value)}
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label className="label">{t('transaction.withdraw.cashOut.pin')}</label>
+                        <input
+                            type="password"
+                            inputMode="numeric"
+                            className="input text-center tracking-widest"
+                            placeholder="••••"
+                            dir="ltr"
+                            maxLength={4}
+                            value={pin}
+                            onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                            required
+                        />
+                    </div>
+
+                    {error && <p className="text-red-400 text-sm">{error}</p>}
+
+                    <button
+                        type="submit"
+                        className="btn-primary w-full"
+                        disabled={isLoading || !amount || pin.length !== 4}
+                    >
+                        {isLoading ? <div className="spinner w-5 h-5 mx-auto"></div> : t('transaction.withdraw.cashOut.generate')}
+                    </button>
+                </form>
+            )}
+        </div>
+    );
+}
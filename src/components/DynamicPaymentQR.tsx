@@ -0,0 +1,207 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import MerchantQRCode from './MerchantQRCode';
+import { Currency, formatCurrencyAmount } from './CurrencySelector';
+
+interface ActiveQR {
+    id: string;
+    qrData: string;
+    amount: number;
+    currency: Currency;
+    orderReference?: string;
+    expiresAt: string;
+}
+
+interface PaidInfo {
+    payer: { name: string } | null;
+    referenceNumber?: string;
+}
+
+interface DynamicPaymentQRProps {
+    currency: Currency;
+    businessName?: string;
+    merchantCode?: string;
+    onPaid?: () => void;
+}
+
+export default function DynamicPaymentQR({ currency, businessName, merchantCode, onPaid }: DynamicPaymentQRProps) {
+    const t = useTranslations();
+    const [amount, setAmount] = useState('');
+    const [orderReference, setOrderReference] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [activeQR, setActiveQR] = useState<ActiveQR | null>(null);
+    const [status, setStatus] = useState<'PENDING' | 'PAID' | 'EXPIRED' | 'CANCELLED' | null>(null);
+    const [paidInfo, setPaidInfo] = useState<PaidInfo | null>(null);
+    const [secondsLeft, setSecondsLeft] = useState(0);
+
+    // Live status until the QR is paid, expires or is cancelled
+    useEffect(() => {
+        if (!activeQR || status !== 'PENDING') return;
+
+        const tick = () => setSecondsLeft(Math.max(0, Math.floor((new Date(activeQR.expiresAt).getTime() - Date.now()) / 1000)));
+        tick();
+        const countdown = setInterval(tick, 1000);
+
+        const poll = setInterval(async () => {
+            try {
+                const response = await fetch(`/api/merchants/dynamic-qr/${activeQR.id}`);
+                if (!response.ok) return;
+                const data = await response.json();
+
+                if (data.status !== 'PENDING') {
+                    setStatus(data.status);
+                    if (data.status === 'PAID') {
+                        setPaidInfo({ payer: data.payer, referenceNumber: data.referenceNumber });
+                        onPaid?.();
+                    }
+                }
+            } catch (err) {
+                console.error('Poll dynamic QR error:', err);
+            }
+        }, 3000);
+
+        return () => {
+            clearInterval(countdown);
+            clearInterval(poll);
+        };
+    }, [activeQR, status, onPaid]);
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading(true);
+        setError('');
+
+        try {
+            const response = await fetch('/api/merchants/dynamic-qr', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    amount: parseFloat(amount),
+                    currency,
+                    orderReference: orderReference || undefined,
+                }),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || t('common.error'));
+            }
+
+            setActiveQR(data);
+            setStatus('PENDING');
+            setPaidInfo(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t('common.error'));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleCancel = async () => {
+        if (activeQR && status === 'PENDING') {
+            await fetch(`/api/merchants/dynamic-qr/${activeQR.id}`, { method: 'DELETE' });
+        }
+        reset();
+    };
+
+    const reset = () => {
+        setActiveQR(null);
+        setStatus(null);
+        setPaidInfo(null);
+        setAmount('');
+        setOrderReference('');
+    };
+
+    return (
+        <div className="card p-8 text-center">
+            <h2 className="text-xl font-semibold text-white mb-4">{t('merchant.dynamicQR.title')}</h2>
+
+            {!activeQR ? (
+                <form onSubmit={handleCreate} className="space-y-4 max-w-xs mx-auto text-start">
+                    <p className="text-dark-400 text-sm text-center">{t('merchant.dynamicQR.subtitle')}</p>
+                    <div>
+                        <label className="label">{t('merchant.dynamicQR.amount')}</label>
+                        <input
+                            type="number"
+                            className="input text-2xl text-center font-bold"
+                            placeholder="0"
+                            dir="ltr"
+                            min="0.01"
+                            step={currency === 'SYP' ? '1' : '0.01'}
+                            value={amount}
+                            onChange={(e) => setAmount(e.target.value)}
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label className="label">{t('merchant.dynamicQR.orderReference')}</label>
+                        <input
+                            type="text"
+                            className="input"
+                            maxLength={64}
+                            value={orderReference}
+                            onChange={(e) => setOrderReference(e.target.value)}
+                        />
+                    </div>
+
+                    {error && <p className="text-red-400 text-sm text-center">{error}</p>}
+
+                    <button type="submit" className="btn-primary w-full" disabled={isLoading || !amount}>
+                        {isLoading ? <div className="spinner w-5 h-5 mx-auto"></div> : t('merchant.dynamicQR.generate')}
+                    </button>
+                </form>
+            ) : status === 'PAID' ? (
+                <div className="py-4">
+                    <CheckCircleIcon className="w-16 h-16 text-green-500 mx-auto mb-4" />
+                    <p className="text-white text-xl font-semibold">{t('merchant.dynamicQR.paid')}</p>
+                    <p className="text-green-500 text-2xl font-bold mt-2" dir="ltr">
+                        {formatCurrencyAmount(activeQR.amount, activeQR.currency)}
+                    </p>
+                    {paidInfo?.payer && <p className="text-dark-300 mt-2">{paidInfo.payer.name}</p>}
+                    {paidInfo?.referenceNumber && <p className="text-dark-500 text-sm mt-1">{paidInfo.referenceNumber}</p>}
+                    <button className="btn-primary mx-auto mt-6" onClick={reset}>
+                        {t('merchant.dynamicQR.newSale')}
+                    </button>
+                </div>
+            ) : status === 'PENDING' ? (
+                <div className="flex flex-col items-center">
+                    <MerchantQRCode
+                        value={activeQR.qrData}
+                        businessName={businessName}
+                        merchantCode={merchantCode}
+                        size={240}
+                    />
+                    <p className="text-2xl font-bold text-white mt-4" dir="ltr">
+                        {formatCurrencyAmount(activeQR.amount, activeQR.currency)}
+                    </p>
+                    {activeQR.orderReference && (
+                        <p className="text-dark-400 text-sm mt-1">{activeQR.orderReference}</p>
+                    )}
+                    <div className="flex items-center gap-2 text-dark-400 text-sm mt-3">
+                        <div className="spinner w-4 h-4"></div>
+                        <span>{t('merchant.dynamicQR.waiting')}</span>
+                        <span dir="ltr">{Math.floor(secondsLeft / 60)}:{(secondsLeft % 60).toString().padStart(2, '0')}</span>
+                    </div>
+                    <button className="btn-ghost mt-4" onClick={handleCancel}>
+                        {t('common.cancel')}
+                    </button>
+                </div>
+            ) : (
+                <div className="py-4">
+                    <XCircleIcon className="w-16 h-16 text-red-500 mx-auto mb-4" />
+                    <p className="text-white font-semibold">
+                        {status === 'EXPIRED' ? t('merchant.dynamicQR.expired') : t('merchant.dynamicQR.cancelled')}
+                    </p>
+                    <button className="btn-primary mx-auto mt-6" onClick={reset}>
+                        {t('merchant.dynamicQR.newSale')}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
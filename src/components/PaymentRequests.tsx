@@ -0,0 +1,380 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { HandRaisedIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { Currency, CurrencyToggle, formatCurrencyAmount } from './CurrencySelector';
+
+interface PaymentRequest {
+    id: string;
+    amount: number;
+    currency: Currency;
+    note: string | null;
+    status: string;
+    expiresAt: string;
+    createdAt: string;
+    counterpart: {
+        name: string;
+        phone: string;
+    } | null;
+}
+
+interface PaymentRequestsProps {
+    // Changes whenever the page wants the list reloaded (e.g. on an incoming push)
+    refreshKey?: unknown;
+    onCompleted?: () => void;
+}
+
+const STATUS_BADGES: Record<string, string> = {
+    PENDING: 'badge-warning',
+    PROCESSING: 'badge-info',
+    HELD: 'badge-info',
+    PAID: 'badge-success',
+    DECLINED: 'badge-error',
+    CANCELLED: 'badge-error',
+    EXPIRED: 'badge-error',
+};
+
+export default function PaymentRequests({ refreshKey, onCompleted }: PaymentRequestsProps) {
+    const t = useTranslations();
+    const [incoming, setIncoming] = useState<PaymentRequest[]>([]);
+    const [outgoing, setOutgoing] = useState<PaymentRequest[]>([]);
+
+    // New request form
+    const [showForm, setShowForm] = useState(false);
+    const [payerPhone, setPayerPhone] = useState('');
+    const [amount, setAmount] = useState('');
+    const [currency, setCurrency] = useState<Currency>('USD');
+    const [note, setNote] = useState('');
+    const [isSending, setIsSending] = useState(false);
+    const [formMessage, setFormMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    // Paying an incoming request through the transfer OTP flow
+    const [payingId, setPayingId] = useState<string | null>(null);
+    const [transferRequestId, setTransferRequestId] = useState<string | null>(null);
+    const [otp, setOtp] = useState('');
+    const [processingId, setProcessingId] = useState<string | null>(null);
+    const [error, setError] = useState<{ id: string; text: string } | null>(null);
+
+    const fetchRequests = useCallback(async () => {
+        try {
+            const response = await fetch('/api/user/payment-requests');
+            if (!response.ok) return;
+            const data = await response.json();
+            setIncoming(data.incoming || []);
+            setOutgoing(data.outgoing || []);
+        } catch (err) {
+            console.error('Error fetching payment requests:', err);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchRequests();
+    }, [fetchRequests, refreshKey]);
+
+    const sendRequest = async () => {
+        setIsSending(true);
+        setFormMessage(null);
+
+        try {
+            const response = await fetch('/api/user/payment-requests', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    payerPhone,
+                    amount: parseFloat(amount),
+                    currency,
+                    note: note || undefined,
+                }),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || t('common.error'));
+            }
+
+            setFormMessage({ type: 'success', text: t('wallet.paymentRequests.sent') });
+            setPayerPhone('');
+            setAmount('');
+            setNote('');
+            setShowForm(false);
+            fetchRequests();
+        } catch (err) {
+            setFormMessage({ type: 'error', text: err instanceof Error ? err.message : t('common.error') });
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    const startPayment = async (id: string) => {
+        setProcessingId(id);
+        setError(null);
+
+        try {
+            const response = await fetch('/api/transactions/transfer/initiate', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                // Recipient, amount and currency are taken from the request server-side
+                body: JSON.stringify({ paymentRequestId: id }),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || t('common.error'));
+            }
+
+            setPayingId(id);
+            setTransferRequestId(data.transferRequestId);
+            setOtp('');
+        } catch (err) {
+            setError({ id, text: err instanceof Error ? err.message : t('common.error') });
+            fetchRequests();
+        } finally {
+            setProcessingId(null);
+        }
+    };
+
+    const confirmPayment = async () => {
+        if (!payingId || !transferRequestId) return;
+        const id = payingId;
+        setProcessingId(id);
+        setError(null);
+
+        try {
+            const response = await fetch('/api/transactions/transfer/confirm', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ transferRequestId, otp }),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                setOtp('');
+                throw new Error(data.error || t('common.error'));
+            }
+
+            setPayingId(null);
+            setTransferRequestId(null);
+            fetchRequests();
+            onCompleted?.();
+        } catch (err) {
+            setError({ id, text: err instanceof Error ? err.message : t('common.error') });
+        } finally {
+            setProcessingId(null);
+        }
+    };
+
+    const respond = async (id: string, action: 'DECLINE' | 'CANCEL') => {
+        setProcessingId(id);
+        setError(null);
+
+        try {
+            const response = await fetch(`/api/user/payment-requests/${id}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ action }),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || t('common.error'));
+            }
+        } catch (err) {
+            setError({ id, text: err instanceof Error ? err.message : t('common.error') });
+        } finally {
+            setProcessingId(null);
+            fetchRequests();
+        }
+    };
+
+    const pendingIncoming = incoming.filter(r => r.status === 'PENDING');
+    const parsedAmount = parseFloat(amount);
+
+    return (
+        <div className="card p-6">
+            <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 rounded-xl bg-primary-500/10 flex items-center justify-center">
+                        <HandRaisedIcon className="w-5 h-5 text-primary-500" />
+                    </div>
+                    <h2 className="text-xl font-semibold text-white">{t('wallet.paymentRequests.title')}</h2>
+                </div>
+                <button
+                    onClick={() => setShowForm(!showForm)}
+                    className="btn-ghost btn-sm inline-flex items-center gap-1 text-primary-500"
+                >
+                    <PlusIcon className="w-4 h-4" />
+                    {t('wallet.paymentRequests.requestMoney')}
+                </button>
+            </div>
+
+            {formMessage && (
+                <p className={`text-sm mb-4 ${formMessage.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+                    {formMessage.text}
+                </p>
+            )}
+
+            {showForm && (
+                <div className="space-y-3 mb-6 p-4 rounded-xl bg-dark-700/50">
+                    <input
+                        type="tel"
+                        className="input"
+                        dir="ltr"
+                        placeholder={t('wallet.paymentRequests.payerPhone')}
+                        value={payerPhone}
+                        onChange={(e) => setPayerPhone(e.target.value)}
+                    />
+                    <div className="flex gap-3">
+                        <input
+                            type="number"
+                            className="input flex-1"
+                            dir="ltr"
+                            min="0.01"
+                            step={currency === 'SYP' ? '1' : '0.01'}
+                            placeholder={t('wallet.paymentRequests.amount')}
+                            value={amount}
+                            onChange={(e) => setAmount(e.target.value)}
+                        />
+                        <CurrencyToggle value={currency} onChange={setCurrency} />
+                    </div>
+                    <input
+                        type="text"
+                        className="input"
+                        maxLength={200}
+                        placeholder={t('wallet.paymentRequests.note')}
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                    />
+                    <button
+                        onClick={sendRequest}
+                        disabled={isSending || payerPhone.length < 9 || !(parsedAmount > 0)}
+                        className="btn-primary w-full"
+                    >
+                        {isSending ? <div className="spinner w-5 h-5 mx-auto"></div> : t('wallet.paymentRequests.send')}
+                    </button>
+                </div>
+            )}
+
+            {pendingIncoming.length === 0 && outgoing.length === 0 && (
+                <p className="text-dark-400 text-sm text-center py-4">{t('wallet.paymentRequests.empty')}</p>
+            )}
+
+            {pendingIncoming.length > 0 && (
+                <div className="mb-6">
+                    <h3 className="text-dark-400 text-sm mb-3">{t('wallet.paymentRequests.incoming')}</h3>
+                    <div className="space-y-3">
+                        {pendingIncoming.map(request => (
+                            <div key={request.id} className="p-4 rounded-xl border border-yellow-500/30">
+                                <div className="flex items-center justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <p className="text-white font-medium truncate">
+                                            {t('wallet.paymentRequests.from')}: {request.counterpart?.name || '-'}
+                                        </p>
+                                        {request.note && <p className="text-dark-400 text-sm truncate">{request.note}</p>}
+                                    </div>
+                                    <p className="text-xl font-bold text-white flex-shrink-0" dir="ltr">
+                                        {formatCurrencyAmount(request.amount, request.currency)}
+                                    </p>
+                                </div>
+
+                                {error?.id === request.id && (
+                                    <p className="text-red-400 text-sm mt-3">{error.text}</p>
+                                )}
+
+                                {payingId === request.id ? (
+                                    <div className="mt-3 space-y-3">
+                                        <p className="text-dark-400 text-sm">{t('wallet.paymentRequests.otpHint')}</p>
+                                        <input
+                                            type="text"
+                                            inputMode="numeric"
+                                            maxLength={6}
+                                            className="input text-center text-2xl tracking-[0.5em] font-mono"
+                                            placeholder="000000"
+                                            dir="ltr"
+                                            value={otp}
+                                            onChange={(e) => setOtp(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                                            autoFocus
+                                        />
+                                        <div className="flex gap-3">
+                                            <button
+                                                className="btn-primary flex-1"
+                                                disabled={processingId === request.id || otp.length !== 6}
+                                                onClick={confirmPayment}
+                                            >
+                                                {t('wallet.paymentRequests.confirm')}
+                                            </button>
+                                            <button
+                                                className="btn-secondary flex-1"
+                                                disabled={processingId === request.id}
+                                                onClick={() => setPayingId(null)}
+                                            >
+                                                {t('wallet.paymentRequests.cancel')}
+                                            </button>
+                                        </div>
+                                    </div>
+                                ) : (
+                                    <div className="flex gap-3 mt-3">
+                                        <button
+                                            className="btn-primary flex-1"
+                                            disabled={processingId === request.id}
+                                            onClick={() => startPayment(request.id)}
+                                        >
+                                            {t('wallet.paymentRequests.pay')}
+                                        </button>
+                                        <button
+                                            className="btn-secondary flex-1"
+                                            disabled={processingId === request.id}
+                                            onClick={() => respond(request.id, 'DECLINE')}
+                                        >
+                                            {t('wallet.paymentRequests.decline')}
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {outgoing.length > 0 && (
+                <div>
+                    <h3 className="text-dark-400 text-sm mb-3">{t('wallet.paymentRequests.outgoing')}</h3>
+                    <div className="space-y-3">
+                        {outgoing.map(request => (
+                            <div key={request.id} className="flex items-center justify-between gap-3">
+                                <div className="min-w-0">
+                                    <p className="text-white font-medium truncate">
+                                        {t('wallet.paymentRequests.to')}: {request.counterpart?.name || '-'}
+                                    </p>
+                                    {request.note && <p className="text-dark-400 text-sm truncate">{request.note}</p>}
+                                    {error?.id === request.id && <p className="text-red-400 text-xs">{error.text}</p>}
+                                </div>
+                                <div className="text-end flex-shrink-0">
+                                    <p className="text-white font-semibold" dir="ltr">
+                                        {formatCurrencyAmount(request.amount, request.currency)}
+                                    </p>
+                                    <span className={`${STATUS_BADGES[request.status] || 'badge-info'} text-xs`}>
+                                        {t(`wallet.paymentRequests.status.${request.status}`)}
+                                    </span>
+                                    {request.status === 'PENDING' && (
+                                        <button
+                                            className="btn-ghost btn-sm text-red-400 ms-2"
+                                            disabled={processingId === request.id}
+                                            onClick={() => respond(request.id, 'CANCEL')}
+                                        >
+                                            {t('wallet.paymentRequests.cancel')}
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,141 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { BanknotesIcon } from '@heroicons/react/24/outline';
+import { Currency, formatCurrencyAmount } from './CurrencySelector';
+
+interface WithdrawalRequest {
+    id: string;
+    amount: number;
+    currency: Currency;
+    expiresAt: string;
+    agent: {
+        businessName: string;
+        businessNameAr: string | null;
+        agentCode: string;
+    } | null;
+}
+
+interface PendingWithdrawalRequestsProps {
+    // Changes whenever the page wants the list reloaded (e.g. on an incoming push)
+    refreshKey?: unknown;
+    onCompleted?: () => void;
+}
+
+export default function PendingWithdrawalRequests({ refreshKey, onCompleted }: PendingWithdrawalRequestsProps) {
+    const t = useTranslations();
+    const [requests, setRequests] = useState<WithdrawalRequest[]>([]);
+    const [pins, setPins] = useState<Record<string, string>>({});
+    const [processingId, setProcessingId] = useState<string | null>(null);
+    const [error, setError] = useState<{ id: string; text: string } | null>(null);
+
+    const fetchRequests = useCallback(async () => {
+        try {
+            const response = await fetch('/api/user/withdrawal-requests');
+            if (!response.ok) return;
+            const data = await response.json();
+            setRequests(data.requests || []);
+        } catch (err) {
+            console.error('Error fetching withdrawal requests:', err);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchRequests();
+    }, [fetchRequests, refreshKey]);
+
+    const respond = async (id: string, action: 'APPROVE' | 'REJECT') => {
+        setProcessingId(id);
+        setError(null);
+
+        try {
+            const response = await fetch(`/api/user/withdrawal-requests/${id}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(action === 'APPROVE' ? { action, pin: pins[id] } : { action }),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || t('common.error'));
+            }
+
+            setRequests(prev => prev.filter(r => r.id !== id));
+            if (action === 'APPROVE') {
+                onCompleted?.();
+            }
+        } catch (err) {
+            setError({ id, text: err instanceof Error ? err.message : t('common.error') });
+            fetchRequests();
+        } finally {
+            setProcessingId(null);
+        }
+    };
+
+    if (requests.length === 0) return null;
+
+    return (
+        <div className="space-y-4">
+            {requests.map(request => (
+                <div key={request.id} className="card p-6 border border-yellow-500/30">
+                    <div className="flex items-center gap-3 mb-4">
+                        <div className="w-12 h-12 rounded-xl bg-yellow-500/10 flex items-center justify-center">
+                            <BanknotesIcon className="w-6 h-6 text-yellow-400" />
+                        </div>
+                        <div>
+                            <h3 className="text-white font-semibold">{t('wallet.withdrawalRequest.title')}</h3>
+                            <p className="text-dark-400 text-sm">
+                                {request.agent?.businessNameAr || request.agent?.businessName || t('wallet.withdrawalRequest.agent')}
+                            </p>
+                        </div>
+                        <div className="ms-auto text-end">
+                            <p className="text-2xl font-bold text-white" dir="ltr">
+                                {formatCurrencyAmount(request.amount, request.currency)}
+                            </p>
+                        </div>
+                    </div>
+
+                    <p className="text-dark-400 text-sm mb-4">{t('wallet.withdrawalRequest.hint')}</p>
+
+                    <input
+                        type="password"
+                        inputMode="numeric"
+                        className="input text-center tracking-widest mb-3"
+                        placeholder={t('wallet.withdrawalRequest.pinPlaceholder')}
+                        dir="ltr"
+                        maxLength={4}
+                        value={pins[request.id] || ''}
+                        onChange={(e) => setPins(prev => ({ ...prev, [request.id]: e.target.value.replace(/\D/g, '') }))}
+                    />
+
+                    {error?.id === request.id && (
+                        <p className="text-red-400 text-sm mb-3">{error.text}</p>
+                    )}
+
+                    <div className="flex gap-3">
+                        <button
+                            className="btn-primary flex-1"
+                            disabled={processingId === request.id || (pins[request.id] || '').length !== 4}
+                            onClick={() => respond(request.id, 'APPROVE')}
+                        >
+                            {processingId === request.id ? (
+                                <div className="spinner w-5 h-5 mx-auto"></div>
+                            ) : (
+                                t('wallet.withdrawalRequest.approve')
+                            )}
+                        </button>
+                        <button
+                            className="btn-ghost flex-1"
+                            disabled={processingId === request.id}
+                            onClick={() => respond(request.id, 'REJECT')}
+                        >
+                            {t('wallet.withdrawalRequest.reject')}
+                        </button>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+}
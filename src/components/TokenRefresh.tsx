@@ -0,0 +1,65 @@
+'use client';
+
+/**
+ * Transparent access token renewal
+ * Access tokens are short-lived, so an API call can get a 401 mid-session.
+ * fetch is wrapped once: on a 401 from our API it calls /api/auth/refresh
+ * (shared by all calls in flight) and retries the request with the new cookies.
+ */
+
+const REFRESH_URL = '/api/auth/refresh';
+
+let refreshPromise: Promise<boolean> | null = null;
+
+function refreshTokens(originalFetch: typeof window.fetch): Promise<boolean> {
+    if (!refreshPromise) {
+        refreshPromise = originalFetch(REFRESH_URL, { method: 'POST', credentials: 'same-origin' })
+            .then(res => res.ok)
+            .catch(() => false)
+            .finally(() => {
+                refreshPromise = null;
+            });
+    }
+    return refreshPromise;
+}
+
+function shouldRefresh(input: RequestInfo | URL): boolean {
+    const raw = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const url = new URL(raw, window.location.origin);
+    return url.origin === window.location.origin
+        && url.pathname.startsWith('/api/')
+        && !url.pathname.startsWith('/api/auth/');
+}
+
+function installFetchRefresh() {
+    const w = window as typeof window & { __tokenRefreshInstalled?: boolean };
+    if (w.__tokenRefreshInstalled) return;
+    w.__tokenRefreshInstalled = true;
+
+    const originalFetch = window.fetch.bind(window);
+
+    window.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+        if (!shouldRefresh(input)) {
+            return originalFetch(input, init);
+        }
+
+        // A Request body can only be read once - keep a copy for the retry
+        const retryInput = input instanceof Request ? input.clone() : input;
+        const response = await originalFetch(input, init);
+
+        if (response.status !== 401 || !(await refreshTokens(originalFetch))) {
+            return response;
+        }
+
+        return originalFetch(retryInput, init);
+    };
+}
+
+// Installed at import time so it is in place before any page effect fetches
+if (typeof window !== 'undefined') {
+    installFetchRefresh();
+}
+
+export default function TokenRefresh() {
+    return null;
+}
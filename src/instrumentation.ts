@@ -8,13 +8,26 @@ export async function register() {
     if (process.env.NEXT_RUNTIME === 'nodejs') {
         console.log('🚀 Initializing Bank Basha server instrumentation...');
 
+        // 2FA challenges and TOTP secrets have no built-in key - refuse to start without them
+        const { requireSecret } = await import('@/lib/auth/security');
+        requireSecret('TWO_FACTOR_TOKEN_SECRET');
+        requireSecret('TWO_FACTOR_ENCRYPTION_KEY');
+
         // Start hourly snapshot scheduler
         const { startHourlyScheduler } = await import('@/lib/scheduler/hourly-snapshot-scheduler');
 
+        // Start scheduled/recurring transfer scheduler
+        const { startScheduledTransferScheduler } = await import('@/lib/scheduler/scheduled-transfer-scheduler');
+
+        // Start wallet-to-ledger reconciliation scheduler
+        const { startReconciliationScheduler } = await import('@/lib/scheduler/reconciliation-scheduler');
+
         // Delay start to allow server to fully initialize
         setTimeout(() => {
             console.log('📅 Starting scheduled tasks...');
             startHourlyScheduler();
+            startScheduledTransferScheduler();
+            startReconciliationScheduler();
         }, 5000); // 5 second delay
     }
 }
@@ -1,8 +1,10 @@
 import { prisma } from '@/lib/db/prisma';
+import { sumAmounts } from '@/lib/financial/money';
 
 // Central Bank System Account
 // This account is the source of all credit in the system
 // It CAN have a negative balance (represents money owed TO users)
+// Its wallet only moves through the posting engine (RESERVE party <-> SYS-RESERVE)
 
 export const CENTRAL_BANK_CODE = 'CENTRAL_BANK';
 export const CENTRAL_BANK_NAME = 'Bank Basha Central';
@@ -54,70 +56,6 @@ export async function getCentralBankBalance(currency: 'USD' | 'SYP' = 'USD'): Pr
     return wallet?.balance || 0;
 }
 
-/**
- * Debit Central Bank (when giving credit to agent)
- * This will make the balance more negative
- */
-export async function debitCentralBank(amount: number, description: string, currency: 'USD' | 'SYP' = 'USD') {
-    const centralBank = await getCentralBankAccount();
-
-    const wallet = (centralBank.wallets as any[])?.find((w: { currency: string }) => w.currency === currency);
-    if (!wallet) {
-        throw new Error(`Central Bank ${currency} wallet not found`);
-    }
-
-    // Decrease balance (can go negative)
-    await prisma.wallet.update({
-        where: { id: wallet.id },
-        data: { balance: { decrement: amount } },
-    });
-
-    // Create audit log
-    await prisma.auditLog.create({
-        data: {
-            userId: centralBank.id,
-            action: 'CENTRAL_BANK_DEBIT',
-            entity: 'Wallet',
-            entityId: wallet.id,
-            newValue: JSON.stringify({ amount, description, currency }),
-        },
-    });
-
-    return true;
-}
-
-/**
- * Credit Central Bank (when agent settles)
- * This will make the balance less negative (towards zero)
- */
-export async function creditCentralBank(amount: number, description: string, currency: 'USD' | 'SYP' = 'USD') {
-    const centralBank = await getCentralBankAccount();
-
-    const wallet = (centralBank.wallets as any[])?.find((w: { currency: string }) => w.currency === currency);
-    if (!wallet) {
-        throw new Error(`Central Bank ${currency} wallet not found`);
-    }
-
-    // Increase balance (towards zero)
-    await prisma.wallet.update({
-        where: { id: wallet.id },
-        data: { balance: { increment: amount } },
-    });
-
-    // Create audit log
-    await prisma.auditLog.create({
-        data: {
-            userId: centralBank.id,
-            action: 'CENTRAL_BANK_CREDIT',
-            entity: 'Wallet',
-            entityId: wallet.id,
-            newValue: JSON.stringify({ amount, description, currency }),
-        },
-    });
-
-    return true;
-}
-
 /**
  * Get system financial summary
  */
@@ -148,8 +86,10 @@ export async function getSystemFinancialSummary() {
         totalAgentCredit: agentCredits._sum.currentCredit || 0,
         totalAgentCash: agentCredits._sum.cashCollected || 0,
         // Should always equal zero if perfectly balanced
-        systemBalance: (centralBankUSDWallet?.balance || 0)
-            + (userWallets._sum.balance || 0)
-            + (agentCredits._sum.currentCredit || 0),
+        systemBalance: sumAmounts([
+            centralBankUSDWallet?.balance,
+            userWallets._sum.balance,
+            agentCredits._sum.currentCredit,
+        ]),
     };
 }
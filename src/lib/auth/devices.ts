@@ -0,0 +1,164 @@
+/**
+ * Login Devices
+ * Bank Basha
+ *
+ * Each browser/app gets a long-lived random deviceToken cookie on its first login.
+ * The UserDevice row is keyed by the token's SHA-256, so the same row serves:
+ * - the sessions list (Session.deviceId)
+ * - "remember this device" for 2FA (twoFactorRememberedUntil)
+ * - the risk engine's new-device check (isTrusted)
+ */
+
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { generateSecureToken } from './security';
+import { sendNewDeviceLoginEmail } from '@/lib/email/email';
+
+export const DEVICE_COOKIE = 'deviceToken';
+const DEVICE_COOKIE_MAX_AGE = 365 * 24 * 60 * 60; // 1 year
+
+function hashDeviceToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Device fingerprint of the request (for UserDevice / risk checks), if the browser has logged in before
+ */
+export function getRequestDeviceId(request: NextRequest): string | undefined {
+    const token = request.cookies.get(DEVICE_COOKIE)?.value;
+    return token ? hashDeviceToken(token) : undefined;
+}
+
+/**
+ * "Chrome on Android" style label from the user agent
+ */
+export function describeUserAgent(userAgent: string | null | undefined): { name: string; type: 'MOBILE' | 'WEB' | 'DESKTOP' } {
+    const ua = userAgent || '';
+
+    const browser =
+        /Edg\//.test(ua) ? 'Edge' :
+        /OPR\/|Opera/.test(ua) ? 'Opera' :
+        /SamsungBrowser/.test(ua) ? 'Samsung Internet' :
+        /Chrome\//.test(ua) ? 'Chrome' :
+        /Firefox\//.test(ua) ? 'Firefox' :
+        /Safari\//.test(ua) ? 'Safari' :
+        /wv\)|WebView/.test(ua) ? 'App' :
+        'Browser';
+
+    const os =
+        /Android/.test(ua) ? 'Android' :
+        /iPhone|iPad|iPod/.test(ua) ? 'iOS' :
+        /Windows/.test(ua) ? 'Windows' :
+        /Mac OS X/.test(ua) ? 'macOS' :
+        /Linux/.test(ua) ? 'Linux' :
+        'Unknown';
+
+    const type = /Android|iPhone|iPad|iPod|Mobile/.test(ua) ? 'MOBILE' : ua ? 'DESKTOP' : 'WEB';
+    return { name: `${browser} on ${os}`, type };
+}
+
+/**
+ * Location from the geo headers set by the CDN/proxy in front of the app (none on a bare server)
+ */
+export function getRequestLocation(request: NextRequest): string | undefined {
+    const city = request.headers.get('x-vercel-ip-city') || request.headers.get('cf-ipcity');
+    const country = request.headers.get('x-vercel-ip-country') || request.headers.get('cf-ipcountry');
+    const parts = [city && decodeURIComponent(city), country].filter(Boolean);
+    return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+/**
+ * Find or register the device a login comes from
+ * isNew is only true for an unknown device on an account that has logged in before
+ */
+export async function resolveLoginDevice(userId: string, request: NextRequest) {
+    const existingToken = request.cookies.get(DEVICE_COOKIE)?.value;
+    const token = existingToken || generateSecureToken(32);
+    const deviceId = hashDeviceToken(token);
+    const userAgent = request.headers.get('user-agent') || undefined;
+    const ipAddress = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || undefined;
+    const location = getRequestLocation(request);
+    const { name, type } = describeUserAgent(userAgent);
+
+    const known = existingToken
+        ? await prisma.userDevice.findUnique({ where: { userId_deviceId: { userId, deviceId } } })
+        : null;
+
+    if (known) {
+        const device = await prisma.userDevice.update({
+            where: { id: known.id },
+            data: { userAgent, deviceName: name, lastIpAddress: ipAddress, lastLocation: location, lastUsedAt: new Date() },
+        });
+        return { device, token, isNew: false };
+    }
+
+    const hasLoggedInBefore = (await prisma.session.count({ where: { userId } })) > 0
+        || (await prisma.userDevice.count({ where: { userId } })) > 0;
+
+    const device = await prisma.userDevice.upsert({
+        where: { userId_deviceId: { userId, deviceId } },
+        update: { userAgent, deviceName: name, lastIpAddress: ipAddress, lastLocation: location, lastUsedAt: new Date() },
+        create: {
+            userId,
+            deviceId,
+            deviceName: name,
+            deviceType: type,
+            userAgent,
+            lastIpAddress: ipAddress,
+            lastLocation: location,
+        },
+    });
+
+    return { device, token, isNew: hasLoggedInBefore };
+}
+
+export function setDeviceCookie(response: NextResponse, token: string): void {
+    response.cookies.set(DEVICE_COOKIE, token, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        maxAge: DEVICE_COOKIE_MAX_AGE,
+        path: '/',
+    });
+}
+
+/**
+ * Tell the user about a login from a device we haven't seen (in-app + email)
+ */
+export async function notifyNewDeviceLogin(params: {
+    userId: string;
+    deviceName: string;
+    ipAddress?: string;
+    location?: string;
+}): Promise<void> {
+    const where = [params.location, params.ipAddress].filter(Boolean).join(' - ');
+
+    await prisma.notification.create({
+        data: {
+            userId: params.userId,
+            type: 'SECURITY',
+            title: 'New device login',
+            titleAr: 'تسجيل دخول من جهاز جديد',
+            message: `Your account was accessed from ${params.deviceName}${where ? ` (${where})` : ''}. If this wasn't you, revoke the session and change your password.`,
+            messageAr: `تم تسجيل الدخول إلى حسابك من ${params.deviceName}${where ? ` (${where})` : ''}. إذا لم تكن أنت، قم بإنهاء الجلسة وتغيير كلمة المرور.`,
+            metadata: JSON.stringify({ deviceName: params.deviceName, ipAddress: params.ipAddress, location: params.location }),
+        },
+    });
+
+    const user = await prisma.user.findUnique({
+        where: { id: params.userId },
+        select: { email: true, fullName: true, fullNameAr: true },
+    });
+
+    if (user?.email) {
+        await sendNewDeviceLoginEmail({
+            to: user.email,
+            userName: user.fullNameAr || user.fullName,
+            deviceName: params.deviceName,
+            ipAddress: params.ipAddress,
+            location: params.location,
+            time: new Date(),
+        });
+    }
+}
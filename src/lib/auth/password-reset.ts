@@ -0,0 +1,150 @@
+/**
+ * Password Reset
+ * Bank Basha
+ *
+ * Self-service (method SMS_OTP) for users whose phone was verified by SMS:
+ * 1. /api/auth/forgot-password texts a code (PasswordResetRequest PENDING, code hashed)
+ * 2. /api/auth/forgot-password/verify checks it - the request becomes APPROVED with a
+ *    fresh token valid for RESET_LINK_MINUTES, and the user continues on /reset-password
+ * 3. /api/auth/reset-password sets the password and revokes every session
+ *
+ * Users without a verified contact channel fall back to a support ticket (method ADMIN)
+ * that an admin approves in /api/admin/password-requests/[id]/approve.
+ */
+
+import crypto from 'crypto';
+import { prisma } from '@/lib/db/prisma';
+import { generateOTP, hashOTP, verifyOTP, getOTPExpiry, isOTPExpired } from '@/lib/otp/generator';
+import { sendSms } from '@/lib/sms/sms';
+
+export const RESET_OTP_EXPIRY_MINUTES = 10;
+export const RESET_LINK_MINUTES = 15;
+const MAX_OTP_ATTEMPTS = 5;
+
+export function generateTicketNumber(): string {
+    const timestamp = Date.now().toString(36).toUpperCase();
+    const random = crypto.randomInt(0, 36 ** 4).toString(36).padStart(4, '0').toUpperCase();
+    return `PWD-${timestamp}${random}`;
+}
+
+export function generateResetToken(): string {
+    return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Whether the user can reset without an admin (only the phone is verified today - emails are not)
+ */
+export function canSelfServiceReset(user: { phoneVerifiedAt: Date | null }): boolean {
+    return !!user.phoneVerifiedAt;
+}
+
+/**
+ * Text a reset code - earlier unfinished self-service requests stop working
+ */
+export async function startSelfServiceReset(user: { id: string; phone: string }) {
+    const code = generateOTP();
+
+    await prisma.passwordResetRequest.updateMany({
+        where: { userId: user.id, method: 'SMS_OTP', status: { in: ['PENDING', 'APPROVED'] } },
+        data: { status: 'EXPIRED' },
+    });
+
+    const resetRequest = await prisma.passwordResetRequest.create({
+        data: {
+            userId: user.id,
+            ticketNumber: generateTicketNumber(),
+            token: generateResetToken(),
+            status: 'PENDING',
+            method: 'SMS_OTP',
+            otpHash: await hashOTP(code),
+            message: 'استعادة كلمة المرور برمز SMS',
+            expiresAt: getOTPExpiry(RESET_OTP_EXPIRY_MINUTES),
+        },
+    });
+
+    const sent = await sendSms(
+        user.phone,
+        `بنك باشا: رمز استعادة كلمة المرور ${code}. صالح لمدة ${RESET_OTP_EXPIRY_MINUTES} دقائق. إذا لم تطلبه تجاهل الرسالة.`
+    );
+
+    return { requestId: resetRequest.id, sent, code };
+}
+
+/**
+ * Check the SMS code; on success returns the token for /reset-password
+ * The request is locked (EXPIRED) after MAX_OTP_ATTEMPTS wrong codes
+ */
+export async function verifyResetCode(
+    requestId: string,
+    code: string,
+    ipAddress?: string
+): Promise<{ success: boolean; token?: string; error?: string }> {
+    const resetRequest = await prisma.passwordResetRequest.findUnique({ where: { id: requestId } });
+
+    if (!resetRequest || resetRequest.method !== 'SMS_OTP' || resetRequest.status !== 'PENDING' || !resetRequest.otpHash) {
+        return { success: false, error: 'الطلب غير صالح، أعد طلب رمز جديد' };
+    }
+    if (isOTPExpired(resetRequest.expiresAt)) {
+        return { success: false, error: 'انتهت صلاحية الرمز، أعد طلب رمز جديد' };
+    }
+
+    // Count the attempt first so parallel guesses can't exceed the limit
+    const counted = await prisma.passwordResetRequest.updateMany({
+        where: { id: resetRequest.id, status: 'PENDING', otpAttempts: { lt: MAX_OTP_ATTEMPTS } },
+        data: { otpAttempts: { increment: 1 } },
+    });
+    if (counted.count === 0) {
+        return { success: false, error: 'محاولات كثيرة، أعد طلب رمز جديد' };
+    }
+
+    if (!(await verifyOTP(code, resetRequest.otpHash))) {
+        const attempts = resetRequest.otpAttempts + 1;
+        if (attempts >= MAX_OTP_ATTEMPTS) {
+            await prisma.passwordResetRequest.update({
+                where: { id: resetRequest.id },
+                data: { status: 'EXPIRED' },
+            });
+        }
+
+        await prisma.auditLog.create({
+            data: {
+                userId: resetRequest.userId,
+                action: 'PASSWORD_RESET_OTP_FAILED',
+                entity: 'PasswordResetRequest',
+                entityId: resetRequest.id,
+                newValue: JSON.stringify({ attempts, locked: attempts >= MAX_OTP_ATTEMPTS }),
+                ipAddress,
+            },
+        });
+
+        return {
+            success: false,
+            error: attempts >= MAX_OTP_ATTEMPTS ? 'محاولات كثيرة، أعد طلب رمز جديد' : 'رمز التحقق غير صحيح',
+        };
+    }
+
+    // New token - the one created with the request was never shown to anyone, but rotate anyway
+    const token = generateResetToken();
+    await prisma.passwordResetRequest.update({
+        where: { id: resetRequest.id },
+        data: {
+            status: 'APPROVED',
+            token,
+            otpHash: null,
+            approvedAt: new Date(),
+            expiresAt: new Date(Date.now() + RESET_LINK_MINUTES * 60 * 1000),
+        },
+    });
+
+    await prisma.auditLog.create({
+        data: {
+            userId: resetRequest.userId,
+            action: 'PASSWORD_RESET_OTP_VERIFIED',
+            entity: 'PasswordResetRequest',
+            entityId: resetRequest.id,
+            ipAddress,
+        },
+    });
+
+    return { success: true, token };
+}
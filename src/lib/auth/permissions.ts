@@ -0,0 +1,127 @@
+/**
+ * Admin Roles & Permissions (RBAC)
+ * Bank Basha
+ *
+ * Every ADMIN user has one admin role; each admin API route and /admin page declares the permission it needs.
+ * Kept free of DB imports so middleware (edge runtime) can use it for page checks.
+ */
+
+export const ADMIN_ROLES = ['SUPER_ADMIN', 'FINANCE', 'COMPLIANCE', 'SUPPORT', 'AUDITOR'] as const;
+export type AdminRole = typeof ADMIN_ROLES[number];
+
+export const PERMISSIONS = {
+    DASHBOARD_VIEW: 'dashboard:view',
+    USERS_VIEW: 'users:view',
+    USERS_MANAGE: 'users:manage',
+    KYC_REVIEW: 'kyc:review',
+    AGENTS_VIEW: 'agents:view',
+    AGENTS_MANAGE: 'agents:manage',
+    AGENTS_CREDIT: 'agents:credit',
+    MERCHANTS_VIEW: 'merchants:view',
+    MERCHANTS_MANAGE: 'merchants:manage',
+    TRANSACTIONS_VIEW: 'transactions:view',
+    TRANSACTIONS_REVERSE: 'transactions:reverse',
+    LEDGER_VIEW: 'ledger:view',
+    LEDGER_MANAGE: 'ledger:manage',
+    PROFITS_VIEW: 'profits:view',
+    PROFITS_WITHDRAW: 'profits:withdraw',
+    SETTLEMENTS_MANAGE: 'settlements:manage',
+    EXCHANGE_RATES_MANAGE: 'exchange-rates:manage',
+    RISK_MANAGE: 'risk:manage',
+    SERVICES_MANAGE: 'services:manage',
+    CONTRACTS_MANAGE: 'contracts:manage',
+    SUPPORT_MANAGE: 'support:manage',
+    SETTINGS_MANAGE: 'settings:manage',
+    AUDIT_VIEW: 'audit:view',
+    ROLES_MANAGE: 'roles:manage',
+} as const;
+export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+
+const P = PERMISSIONS;
+
+export const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+    SUPER_ADMIN: Object.values(PERMISSIONS),
+    FINANCE: [
+        P.DASHBOARD_VIEW, P.USERS_VIEW, P.AGENTS_VIEW, P.AGENTS_CREDIT, P.MERCHANTS_VIEW,
+        P.TRANSACTIONS_VIEW, P.TRANSACTIONS_REVERSE, P.LEDGER_VIEW, P.LEDGER_MANAGE,
+        P.PROFITS_VIEW, P.PROFITS_WITHDRAW, P.SETTLEMENTS_MANAGE, P.EXCHANGE_RATES_MANAGE,
+    ],
+    COMPLIANCE: [
+        P.DASHBOARD_VIEW, P.USERS_VIEW, P.USERS_MANAGE, P.KYC_REVIEW, P.AGENTS_VIEW, P.AGENTS_MANAGE,
+        P.MERCHANTS_VIEW, P.MERCHANTS_MANAGE, P.TRANSACTIONS_VIEW, P.RISK_MANAGE, P.AUDIT_VIEW,
+    ],
+    SUPPORT: [
+        P.DASHBOARD_VIEW, P.USERS_VIEW, P.AGENTS_VIEW, P.MERCHANTS_VIEW, P.TRANSACTIONS_VIEW, P.SUPPORT_MANAGE,
+    ],
+    AUDITOR: [
+        P.DASHBOARD_VIEW, P.USERS_VIEW, P.AGENTS_VIEW, P.MERCHANTS_VIEW, P.TRANSACTIONS_VIEW,
+        P.LEDGER_VIEW, P.PROFITS_VIEW, P.AUDIT_VIEW,
+    ],
+};
+
+export const ADMIN_ROLE_NAMES: Record<AdminRole, { en: string; ar: string }> = {
+    SUPER_ADMIN: { en: 'Super Admin', ar: 'مدير عام' },
+    FINANCE: { en: 'Finance', ar: 'المالية' },
+    COMPLIANCE: { en: 'Compliance / KYC', ar: 'الامتثال والتحقق' },
+    SUPPORT: { en: 'Support', ar: 'الدعم الفني' },
+    AUDITOR: { en: 'Auditor', ar: 'مدقق' },
+};
+
+/**
+ * Permission each /admin page needs - longest matching prefix wins
+ * Pages not listed here only need DASHBOARD_VIEW
+ */
+export const ADMIN_PAGE_PERMISSIONS: Record<string, Permission> = {
+    '/admin/users': P.USERS_VIEW,
+    '/admin/agents': P.AGENTS_VIEW,
+    '/admin/merchants': P.MERCHANTS_VIEW,
+    '/admin/merchant-requests': P.MERCHANTS_MANAGE,
+    '/admin/transactions': P.TRANSACTIONS_VIEW,
+    '/admin/ledger': P.LEDGER_VIEW,
+    '/admin/internal-accounts': P.LEDGER_VIEW,
+    '/admin/central-bank': P.LEDGER_VIEW,
+    '/admin/monitor': P.LEDGER_VIEW,
+    '/admin/hourly-snapshots': P.LEDGER_VIEW,
+    '/admin/platform-profits': P.PROFITS_VIEW,
+    '/admin/settlements': P.SETTLEMENTS_MANAGE,
+    '/admin/exchange-rates': P.EXCHANGE_RATES_MANAGE,
+    '/admin/risk-management': P.RISK_MANAGE,
+    '/admin/advanced-settings': P.RISK_MANAGE,
+    '/admin/services': P.SERVICES_MANAGE,
+    '/admin/contracts': P.CONTRACTS_MANAGE,
+    '/admin/support': P.SUPPORT_MANAGE,
+    '/admin/password-requests': P.SUPPORT_MANAGE,
+    '/admin/audit-logs': P.AUDIT_VIEW,
+    '/admin/bin': P.USERS_MANAGE,
+    '/admin/settings': P.SETTINGS_MANAGE,
+    '/admin/roles': P.ROLES_MANAGE,
+};
+
+export function isAdminRole(value: string | null | undefined): value is AdminRole {
+    return !!value && (ADMIN_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Role of an admin without a (valid) role - read-only, never a write permission.
+ * Existing admins get an explicit role from prisma/manual_admin_roles_migration.sql.
+ */
+export const DEFAULT_ADMIN_ROLE: AdminRole = 'AUDITOR';
+
+/**
+ * Admins without a role get the least-privileged role until a super admin assigns one
+ */
+export function resolveAdminRole(value: string | null | undefined): AdminRole {
+    return isAdminRole(value) ? value : DEFAULT_ADMIN_ROLE;
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+    return ROLE_PERMISSIONS[resolveAdminRole(role)].includes(permission);
+}
+
+export function getPagePermission(pathname: string): Permission {
+    const match = Object.keys(ADMIN_PAGE_PERMISSIONS)
+        .filter(prefix => pathname === prefix || pathname.startsWith(`${prefix}/`))
+        .sort((a, b) => b.length - a.length)[0];
+
+    return match ? ADMIN_PAGE_PERMISSIONS[match] : P.DASHBOARD_VIEW;
+}
@@ -4,10 +4,32 @@ import crypto from 'crypto';
 
 const JWT_SECRET: Secret = process.env.JWT_SECRET || 'default-secret-change-in-production';
 const REFRESH_TOKEN_SECRET: Secret = process.env.REFRESH_TOKEN_SECRET || 'refresh-secret-change-in-production';
-// 90 days for WebView mobile app - long session
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '90d';
+// Access tokens are short-lived and renewed through /api/auth/refresh
+// The refresh token (rotated on every use) carries the 90-day WebView session
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
 const REFRESH_TOKEN_EXPIRES_IN = process.env.REFRESH_TOKEN_EXPIRES_IN || '90d';
 
+// Secrets without a built-in default - production refuses to run without them,
+// development falls back to a random value that lasts until the process restarts
+const developmentSecrets = new Map<string, string>();
+
+export function requireSecret(name: string): string {
+    const value = process.env[name];
+    if (value) return value;
+
+    if (process.env.NODE_ENV === 'production') {
+        throw new Error(`${name} must be set in production`);
+    }
+
+    let secret = developmentSecrets.get(name);
+    if (!secret) {
+        secret = crypto.randomBytes(32).toString('hex');
+        developmentSecrets.set(name, secret);
+        console.warn(`⚠️ ${name} is not set - using a random value until the server restarts`);
+    }
+    return secret;
+}
+
 // Password hashing
 export async function hashPassword(password: string): Promise<string> {
     const saltRounds = 12; // More rounds = more secure but slower
@@ -22,13 +44,15 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
 export interface TokenPayload {
     userId: string;
     userType: string;
-    sessionId: string;
+    sessionId: string;  // Session.id (tokens issued before refresh rotation carry a random id instead)
+    adminRole?: string; // ADMIN only - used by middleware for /admin page checks; APIs re-read it from the DB
 }
 
 export function generateAccessToken(payload: TokenPayload): string {
     return jwt.sign(payload as object, JWT_SECRET, {
         expiresIn: JWT_EXPIRES_IN,
         algorithm: 'HS256',
+        jwtid: crypto.randomUUID(),
     } as jwt.SignOptions);
 }
 
@@ -36,6 +60,7 @@ export function generateRefreshToken(payload: TokenPayload): string {
     return jwt.sign(payload as object, REFRESH_TOKEN_SECRET, {
         expiresIn: REFRESH_TOKEN_EXPIRES_IN,
         algorithm: 'HS256',
+        jwtid: crypto.randomUUID(),
     } as jwt.SignOptions);
 }
 
@@ -55,6 +80,28 @@ export function verifyRefreshToken(token: string): TokenPayload | null {
     }
 }
 
+// Short-lived token between the password step and the 2FA step - it never opens a session
+export interface TwoFactorTokenPayload {
+    userId: string;
+    purpose: 'TWO_FACTOR_LOGIN';
+}
+
+export function generateTwoFactorToken(userId: string): string {
+    return jwt.sign({ userId, purpose: 'TWO_FACTOR_LOGIN' }, requireSecret('TWO_FACTOR_TOKEN_SECRET'), {
+        expiresIn: '10m',
+        algorithm: 'HS256',
+    });
+}
+
+export function verifyTwoFactorToken(token: string): TwoFactorTokenPayload | null {
+    try {
+        const payload = jwt.verify(token, requireSecret('TWO_FACTOR_TOKEN_SECRET')) as TwoFactorTokenPayload;
+        return payload.purpose === 'TWO_FACTOR_LOGIN' ? payload : null;
+    } catch {
+        return null;
+    }
+}
+
 // PIN hashing (4-6 digit)
 export async function hashPin(pin: string): Promise<string> {
     return bcrypt.hash(pin, 10);
@@ -138,37 +185,6 @@ export function isValidSyrianPhone(phone: string): boolean {
     return pattern.test(sanitized);
 }
 
-// Rate limiting helpers
-export interface RateLimitResult {
-    allowed: boolean;
-    remaining: number;
-    resetAt: Date;
-}
-
-const rateLimitStore = new Map<string, { count: number; resetAt: Date }>();
-
-export function checkRateLimit(
-    key: string,
-    maxRequests: number = 100,
-    windowMs: number = 900000 // 15 minutes
-): RateLimitResult {
-    const now = new Date();
-    const entry = rateLimitStore.get(key);
-
-    if (!entry || entry.resetAt < now) {
-        const resetAt = new Date(now.getTime() + windowMs);
-        rateLimitStore.set(key, { count: 1, resetAt });
-        return { allowed: true, remaining: maxRequests - 1, resetAt };
-    }
-
-    if (entry.count >= maxRequests) {
-        return { allowed: false, remaining: 0, resetAt: entry.resetAt };
-    }
-
-    entry.count++;
-    return { allowed: true, remaining: maxRequests - entry.count, resetAt: entry.resetAt };
-}
-
 // Security headers for API responses
 export function getSecurityHeaders(): Record<string, string> {
     return {
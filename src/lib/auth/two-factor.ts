@@ -0,0 +1,286 @@
+/**
+ * Two-Factor Authentication (TOTP, RFC 6238)
+ * Bank Basha
+ *
+ * - Secrets are 160-bit, base32 for authenticator apps, stored AES-256-GCM encrypted
+ * - Codes: HMAC-SHA1, 6 digits, 30 second steps, one step of clock drift either way
+ * - Each accepted step is stored so a code can't be replayed
+ * - 10 one-time recovery codes per enrollment, stored as SHA-256 hashes
+ * - "Remember this device" marks the login's UserDevice row (see devices.ts)
+ */
+
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getRequestDeviceId } from './devices';
+import { requireSecret } from './security';
+
+const ISSUER = 'Bank Basha';
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD = 30; // seconds
+const TOTP_WINDOW = 1;  // accepted steps before/after the current one
+const RECOVERY_CODE_COUNT = 10;
+const REMEMBER_DEVICE_DAYS = 30;
+
+export const TWO_FACTOR_REQUIRED_USER_TYPES = ['ADMIN', 'AGENT'];
+export const TWO_FACTOR_TOKEN_COOKIE = 'twoFactorToken';
+
+export type SecondFactorMethod = 'TOTP' | 'RECOVERY_CODE';
+
+export function isTwoFactorRequired(userType: string): boolean {
+    return TWO_FACTOR_REQUIRED_USER_TYPES.includes(userType);
+}
+
+// ============================================
+// BASE32 (RFC 4648, no padding)
+// ============================================
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (let i = 0; i < buffer.length; i++) {
+        value = (value << 8) | buffer[i];
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+}
+
+function base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+    for (let i = 0; i < cleaned.length; i++) {
+        const index = BASE32_ALPHABET.indexOf(cleaned[i]);
+        if (index === -1) throw new Error('Invalid base32 character');
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+}
+
+// ============================================
+// SECRET STORAGE
+// ============================================
+
+function getEncryptionKey(): Buffer {
+    return crypto.createHash('sha256').update(requireSecret('TWO_FACTOR_ENCRYPTION_KEY')).digest();
+}
+
+function encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':');
+}
+
+function decryptSecret(stored: string): string {
+    const [iv, tag, encrypted] = stored.split(':').map(part => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+// ============================================
+// TOTP
+// ============================================
+
+function generateTotp(secret: string, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+    return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Time step the code matches, or null
+ */
+function matchTotp(secret: string, code: string): number | null {
+    const current = Math.floor(Date.now() / 1000 / TOTP_PERIOD);
+    for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+        const candidate = Buffer.from(generateTotp(secret, current + offset));
+        const given = Buffer.from(code);
+        if (candidate.length === given.length && crypto.timingSafeEqual(candidate, given)) {
+            return current + offset;
+        }
+    }
+    return null;
+}
+
+function getOtpAuthUrl(secret: string, accountName: string): string {
+    const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer: ISSUER,
+        algorithm: 'SHA1',
+        digits: String(TOTP_DIGITS),
+        period: String(TOTP_PERIOD),
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// ============================================
+// RECOVERY CODES
+// ============================================
+
+function hashRecoveryCode(code: string): string {
+    return crypto.createHash('sha256').update(code.toUpperCase().replace(/[\s-]/g, '')).digest('hex');
+}
+
+/**
+ * Replace the user's recovery codes - the plain codes are only ever returned here
+ */
+export async function generateRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const raw = crypto.randomBytes(5).toString('hex').toUpperCase();
+        return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    await prisma.$transaction([
+        prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+        prisma.twoFactorRecoveryCode.createMany({
+            data: codes.map(code => ({ userId, codeHash: hashRecoveryCode(code) })),
+        }),
+    ]);
+
+    return codes;
+}
+
+// ============================================
+// ENROLLMENT
+// ============================================
+
+/**
+ * Create a new (inactive) secret - it only takes effect once a code from it is confirmed
+ */
+export async function startTwoFactorEnrollment(userId: string): Promise<{ secret: string; otpauthUrl: string } | null> {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { phone: true, twoFactorEnabled: true },
+    });
+    if (!user || user.twoFactorEnabled) return null;
+
+    const secret = base32Encode(crypto.randomBytes(20));
+    await prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorSecret: encryptSecret(secret), twoFactorLastStep: null },
+    });
+
+    return { secret, otpauthUrl: getOtpAuthUrl(secret, user.phone) };
+}
+
+/**
+ * Confirm the enrollment with a code from the app - returns the recovery codes, or null if the code is wrong
+ */
+export async function confirmTwoFactorEnrollment(userId: string, code: string): Promise<string[] | null> {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { twoFactorSecret: true, twoFactorEnabled: true },
+    });
+    if (!user?.twoFactorSecret || user.twoFactorEnabled) return null;
+
+    const step = matchTotp(decryptSecret(user.twoFactorSecret), code);
+    if (step === null) return null;
+
+    await prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorEnabled: true, twoFactorEnabledAt: new Date(), twoFactorLastStep: step },
+    });
+
+    return generateRecoveryCodes(userId);
+}
+
+export async function disableTwoFactor(userId: string): Promise<void> {
+    await prisma.$transaction([
+        prisma.user.update({
+            where: { id: userId },
+            data: { twoFactorEnabled: false, twoFactorSecret: null, twoFactorEnabledAt: null, twoFactorLastStep: null },
+        }),
+        prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+        prisma.userDevice.updateMany({ where: { userId }, data: { twoFactorRememberedUntil: null } }),
+    ]);
+}
+
+// ============================================
+// VERIFICATION
+// ============================================
+
+/**
+ * Check a TOTP code or, failing that, consume a recovery code
+ */
+export async function verifySecondFactor(userId: string, code: string): Promise<SecondFactorMethod | null> {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { twoFactorEnabled: true, twoFactorSecret: true, twoFactorLastStep: true },
+    });
+    if (!user?.twoFactorEnabled || !user.twoFactorSecret) return null;
+
+    const normalized = code.trim();
+    if (/^\d{6}$/.test(normalized)) {
+        const step = matchTotp(decryptSecret(user.twoFactorSecret), normalized);
+        if (step === null) return null;
+
+        // Only a step newer than the last accepted one counts (no replay, no race)
+        const accepted = await prisma.user.updateMany({
+            where: {
+                id: userId,
+                OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+            },
+            data: { twoFactorLastStep: step },
+        });
+        return accepted.count > 0 ? 'TOTP' : null;
+    }
+
+    const consumed = await prisma.twoFactorRecoveryCode.updateMany({
+        where: { userId, codeHash: hashRecoveryCode(normalized), usedAt: null },
+        data: { usedAt: new Date() },
+    });
+    return consumed.count > 0 ? 'RECOVERY_CODE' : null;
+}
+
+export async function countRemainingRecoveryCodes(userId: string): Promise<number> {
+    return prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } });
+}
+
+// ============================================
+// REMEMBERED DEVICES
+// ============================================
+
+export async function isDeviceRemembered(userId: string, request: NextRequest): Promise<boolean> {
+    const deviceId = getRequestDeviceId(request);
+    if (!deviceId) return false;
+
+    const device = await prisma.userDevice.findUnique({
+        where: { userId_deviceId: { userId, deviceId } },
+        select: { twoFactorRememberedUntil: true },
+    });
+    return !!device?.twoFactorRememberedUntil && device.twoFactorRememberedUntil > new Date();
+}
+
+/**
+ * Skip the second factor on this device for REMEMBER_DEVICE_DAYS
+ */
+export async function rememberDevice(deviceRowId: string): Promise<void> {
+    await prisma.userDevice.update({
+        where: { id: deviceRowId },
+        data: { twoFactorRememberedUntil: new Date(Date.now() + REMEMBER_DEVICE_DAYS * 24 * 60 * 60 * 1000) },
+    });
+}
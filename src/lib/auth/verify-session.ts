@@ -1,7 +1,94 @@
-import { NextRequest } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { prisma } from '@/lib/db/prisma';
-import { verifyAccessToken, TokenPayload } from './security';
+import {
+    verifyAccessToken,
+    verifyRefreshToken,
+    generateAccessToken,
+    generateRefreshToken,
+    generateSessionId,
+    generateTwoFactorToken,
+    TokenPayload,
+} from './security';
+import { hasPermission, resolveAdminRole, type AdminRole, type Permission } from './permissions';
+import {
+    isTwoFactorRequired,
+    isDeviceRemembered,
+    rememberDevice,
+    TWO_FACTOR_TOKEN_COOKIE,
+    type SecondFactorMethod,
+} from './two-factor';
+import { resolveLoginDevice, setDeviceCookie, notifyNewDeviceLogin } from './devices';
+
+// How often verifyAuth writes Session.lastSeenAt
+const LAST_SEEN_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+// A session with no activity for this long is ended (admins handle money movement - shortest window)
+const SESSION_IDLE_TIMEOUT_MINUTES: Record<string, number> = {
+    ADMIN: 30,
+    AGENT: 12 * 60,
+    USER: 7 * 24 * 60,
+};
+
+// A refresh token rotated out this recently belongs to a concurrent refresh (another tab), not a replay
+const REFRESH_REUSE_GRACE_MS = 30 * 1000;
+
+export interface LoginTokens {
+    accessToken: string;
+    refreshToken: string;
+    deviceToken?: string;  // Only set at login
+}
+
+const SESSION_USER_SELECT = {
+    id: true,
+    userType: true,
+    phone: true,
+    fullName: true,
+    status: true,
+    isActive: true,
+    adminRole: true,
+    twoFactorEnabled: true,
+} as const;
+
+export function getSessionIdleTimeoutMs(userType: string): number {
+    return (SESSION_IDLE_TIMEOUT_MINUTES[userType] ?? SESSION_IDLE_TIMEOUT_MINUTES.USER) * 60 * 1000;
+}
+
+/**
+ * Checks shared by verifyAuth and token refresh - ends the session when it can't continue
+ */
+async function checkSession(session: {
+    id: string;
+    expiresAt: Date;
+    lastSeenAt: Date;
+    user: { userType: string; isActive: boolean; status: string; twoFactorEnabled: boolean };
+}): Promise<string | null> {
+    // Session expired
+    if (session.expiresAt < new Date()) {
+        // Clean up expired session
+        await prisma.session.delete({ where: { id: session.id } });
+        return 'SESSION_EXPIRED';
+    }
+
+    // Idle for too long
+    if (Date.now() - session.lastSeenAt.getTime() > getSessionIdleTimeoutMs(session.user.userType)) {
+        await prisma.session.delete({ where: { id: session.id } });
+        return 'SESSION_IDLE';
+    }
+
+    // User inactive or blocked
+    if (!session.user.isActive || session.user.status === 'BLOCKED' || session.user.status === 'SUSPENDED') {
+        return 'USER_INACTIVE';
+    }
+
+    // Sessions opened before 2FA became mandatory for the account type
+    if (isTwoFactorRequired(session.user.userType) && !session.user.twoFactorEnabled) {
+        await prisma.session.delete({ where: { id: session.id } });
+        return 'TWO_FACTOR_REQUIRED';
+    }
+
+    return null;
+}
 
 export interface AuthResult {
     success: boolean;
@@ -13,7 +100,18 @@ export interface AuthResult {
         fullName: string;
         status: string;
         isActive: boolean;
+        adminRole: string | null;
+        twoFactorEnabled: boolean;
     } | null;
+    sessionId?: string;  // Session.id of the request
+    error?: string;
+}
+
+export interface AdminAuthResult {
+    success: boolean;
+    payload: TokenPayload | null;
+    role: AdminRole | null;
+    status: 200 | 401 | 403;
     error?: string;
 }
 
@@ -54,21 +152,10 @@ export async function verifyAuth(request?: NextRequest): Promise<AuthResult> {
             };
         }
 
-        // Verify session exists in database
-        const session = await prisma.session.findUnique({
-            where: { token },
-            include: {
-                user: {
-                    select: {
-                        id: true,
-                        userType: true,
-                        phone: true,
-                        fullName: true,
-                        status: true,
-                        isActive: true,
-                    },
-                },
-            },
+        // Verify session exists in database (by id - the access token is renewed on every refresh)
+        const session = await prisma.session.findFirst({
+            where: { OR: [{ id: payload.sessionId }, { token }] },
+            include: { user: { select: SESSION_USER_SELECT } },
         });
 
         // Session not found (user logged out)
@@ -81,26 +168,24 @@ export async function verifyAuth(request?: NextRequest): Promise<AuthResult> {
             };
         }
 
-        // Session expired
-        if (session.expiresAt < new Date()) {
-            // Clean up expired session
-            await prisma.session.delete({ where: { id: session.id } });
+        const sessionError = await checkSession(session);
+        if (sessionError) {
             return {
                 success: false,
                 payload,
-                user: null,
-                error: 'SESSION_EXPIRED',
+                user: sessionError === 'SESSION_EXPIRED' || sessionError === 'SESSION_IDLE' ? null : session.user,
+                error: sessionError,
             };
         }
 
-        // User inactive or blocked
-        if (!session.user.isActive || session.user.status === 'BLOCKED' || session.user.status === 'SUSPENDED') {
-            return {
-                success: false,
-                payload,
-                user: session.user,
-                error: 'USER_INACTIVE',
-            };
+        if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_UPDATE_INTERVAL_MS) {
+            await prisma.session.update({
+                where: { id: session.id },
+                data: {
+                    lastSeenAt: new Date(),
+                    ipAddress: request?.headers.get('x-forwarded-for') || session.ipAddress,
+                },
+            });
         }
 
         // All checks passed
@@ -108,6 +193,7 @@ export async function verifyAuth(request?: NextRequest): Promise<AuthResult> {
             success: true,
             payload,
             user: session.user,
+            sessionId: session.id,
         };
     } catch (error) {
         console.error('Auth verification error:', error);
@@ -128,6 +214,336 @@ export function hasRole(user: AuthResult['user'], roles: string[]): boolean {
     return roles.includes(user.userType);
 }
 
+/**
+ * Verify an admin session and that the admin's role grants the permission
+ * The role is read from the database, so role changes apply immediately
+ * Authenticated users who are denied are recorded in AuditLog (ACCESS_DENIED)
+ */
+export async function verifyAdminPermission(
+    permission: Permission,
+    request?: NextRequest,
+    resource?: string  // Audited path, defaults to the request path
+): Promise<AdminAuthResult> {
+    const auth = await verifyAuth(request);
+
+    if (!auth.success || !auth.user || !auth.payload) {
+        return { success: false, payload: null, role: null, status: 401, error: 'Unauthorized' };
+    }
+
+    const isAdmin = auth.user.userType === 'ADMIN';
+    const role = isAdmin ? resolveAdminRole(auth.user.adminRole) : null;
+
+    if (role && hasPermission(role, permission)) {
+        return { success: true, payload: auth.payload, role, status: 200 };
+    }
+
+    await prisma.auditLog.create({
+        data: {
+            userId: auth.user.id,
+            action: 'ACCESS_DENIED',
+            entity: 'Permission',
+            entityId: permission,
+            newValue: JSON.stringify({
+                userType: auth.user.userType,
+                role,
+                method: request?.method,
+                path: resource || request?.nextUrl.pathname,
+            }),
+            ipAddress: request?.headers.get('x-forwarded-for') || undefined,
+            userAgent: request?.headers.get('user-agent') || undefined,
+        },
+    });
+
+    return {
+        success: false,
+        payload: null,
+        role,
+        status: 403,
+        error: isAdmin ? 'Permission denied' : 'Admin access required',
+    };
+}
+
+// ============================================
+// LOGIN SESSIONS
+// ============================================
+
+export interface LoginUser {
+    id: string;
+    userType: string;
+    adminRole: string | null;
+    twoFactorEnabled: boolean;
+}
+
+/**
+ * What the password step leads to:
+ * NONE - open the session now; VERIFY - ask for a code; ENROLL - 2FA is mandatory but not set up yet
+ */
+export async function getSecondFactorRequirement(
+    user: LoginUser,
+    request: NextRequest
+): Promise<'NONE' | 'VERIFY' | 'ENROLL'> {
+    if (!user.twoFactorEnabled) {
+        return isTwoFactorRequired(user.userType) ? 'ENROLL' : 'NONE';
+    }
+    return (await isDeviceRemembered(user.id, request)) ? 'NONE' : 'VERIFY';
+}
+
+/**
+ * Hand out the 2FA challenge instead of a session (httpOnly, only sent to the 2FA endpoints)
+ */
+export function setTwoFactorChallengeCookie(response: NextResponse, userId: string): void {
+    response.cookies.set(TWO_FACTOR_TOKEN_COOKIE, generateTwoFactorToken(userId), {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'strict',
+        maxAge: 10 * 60,
+        path: '/api/auth/2fa',
+    });
+}
+
+export function clearTwoFactorChallengeCookie(response: NextResponse): void {
+    response.cookies.set(TWO_FACTOR_TOKEN_COOKIE, '', {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'strict',
+        maxAge: 0,
+        path: '/api/auth/2fa',
+    });
+}
+
+/**
+ * Create the Session row and tokens for a login
+ * secondFactor is the method the user just passed - without one, the session is only created
+ * when getSecondFactorRequirement says none is needed (2FA off, or a remembered device)
+ * A login from a device the account hasn't used before notifies the user
+ */
+export async function createLoginSession(
+    user: LoginUser,
+    secondFactor: SecondFactorMethod | null,
+    request: NextRequest,
+    options: { rememberDevice?: boolean } = {}
+): Promise<LoginTokens> {
+    if (!secondFactor && (await getSecondFactorRequirement(user, request)) !== 'NONE') {
+        throw new Error('Second factor required before creating a session');
+    }
+
+    const clientIp = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
+    const userAgent = request.headers.get('user-agent') || undefined;
+
+    await prisma.user.update({
+        where: { id: user.id },
+        data: { lastLoginAt: new Date(), lastLoginIp: clientIp },
+    });
+
+    const { device, token: deviceToken, isNew } = await resolveLoginDevice(user.id, request);
+    if (secondFactor && options.rememberDevice) {
+        await rememberDevice(device.id);
+    }
+
+    // Invalidate old sessions (optional: keep last 5)
+    const oldSessions = await prisma.session.findMany({
+        where: { userId: user.id },
+        orderBy: { createdAt: 'desc' },
+        skip: 5,
+    });
+
+    if (oldSessions.length > 0) {
+        await prisma.session.deleteMany({
+            where: { id: { in: oldSessions.map(s => s.id) } },
+        });
+    }
+
+    // Create new session - its id is the tokens' sessionId
+    const sessionId = generateSessionId();
+    const tokenPayload = {
+        userId: user.id,
+        userType: user.userType,
+        sessionId,
+        ...(user.userType === 'ADMIN' && { adminRole: resolveAdminRole(user.adminRole) }),
+    };
+
+    const accessToken = generateAccessToken(tokenPayload);
+    const refreshToken = generateRefreshToken(tokenPayload);
+
+    await prisma.session.create({
+        data: {
+            id: sessionId,
+            userId: user.id,
+            token: accessToken,
+            refreshToken,
+            userAgent,
+            ipAddress: clientIp,
+            location: device.lastLocation,
+            deviceId: device.id,
+            expiresAt: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000), // 90 days for WebView
+        },
+    });
+
+    // Audit log
+    await prisma.auditLog.create({
+        data: {
+            userId: user.id,
+            action: 'LOGIN_SUCCESS',
+            entity: 'Session',
+            newValue: JSON.stringify({
+                secondFactor: secondFactor || (user.twoFactorEnabled ? 'REMEMBERED_DEVICE' : null),
+                deviceId: device.id,
+                newDevice: isNew,
+            }),
+            ipAddress: clientIp,
+            userAgent,
+        },
+    });
+
+    if (isNew) {
+        try {
+            await notifyNewDeviceLogin({
+                userId: user.id,
+                deviceName: device.deviceName || 'Unknown device',
+                ipAddress: clientIp,
+                location: device.lastLocation || undefined,
+            });
+        } catch (error) {
+            console.error('New device notification error:', error);
+        }
+    }
+
+    return { accessToken, refreshToken, deviceToken };
+}
+
+/**
+ * Set secure cookies - Extended session (90 days)
+ */
+export function setSessionCookies(response: NextResponse, tokens: LoginTokens): void {
+    response.cookies.set('accessToken', tokens.accessToken, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax', // Lax is better for mobile persistence
+        maxAge: 90 * 24 * 60 * 60, // Outlives the JWT on purpose - an expired token is renewed via /api/auth/refresh
+        path: '/',
+    });
+
+    response.cookies.set('refreshToken', tokens.refreshToken, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        maxAge: 90 * 24 * 60 * 60, // 90 days
+        path: '/',
+    });
+
+    if (tokens.deviceToken) {
+        setDeviceCookie(response, tokens.deviceToken);
+    }
+}
+
+export function clearSessionCookies(response: NextResponse): void {
+    for (const name of ['accessToken', 'refreshToken']) {
+        response.cookies.set(name, '', {
+            httpOnly: true,
+            secure: process.env.NODE_ENV === 'production',
+            sameSite: 'lax',
+            maxAge: 0,
+            path: '/',
+        });
+    }
+}
+
+// ============================================
+// TOKEN REFRESH
+// ============================================
+
+export interface RefreshResult {
+    success: boolean;
+    tokens?: LoginTokens;  // Absent on success when a concurrent refresh already rotated the token
+    error?: string;
+}
+
+/**
+ * Exchange a refresh token for a new access/refresh pair (rotation)
+ * Presenting a refresh token that was already rotated out means it was copied -
+ * the whole session (the token family) is revoked
+ */
+export async function refreshSession(refreshToken: string, request: NextRequest): Promise<RefreshResult> {
+    const payload = verifyRefreshToken(refreshToken);
+    if (!payload) {
+        return { success: false, error: 'INVALID_TOKEN' };
+    }
+
+    const session = await prisma.session.findFirst({
+        where: { OR: [{ id: payload.sessionId }, { refreshToken }] },
+        include: { user: { select: SESSION_USER_SELECT } },
+    });
+
+    if (!session) {
+        return { success: false, error: 'SESSION_NOT_FOUND' };
+    }
+
+    const clientIp = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || undefined;
+    const userAgent = request.headers.get('user-agent') || undefined;
+
+    if (session.refreshToken !== refreshToken) {
+        const concurrent = session.previousRefreshToken === refreshToken
+            && !!session.refreshedAt
+            && Date.now() - session.refreshedAt.getTime() < REFRESH_REUSE_GRACE_MS;
+        if (concurrent) {
+            // The browser already holds the new cookies from the other refresh
+            return { success: true };
+        }
+
+        await prisma.session.delete({ where: { id: session.id } });
+        await prisma.auditLog.create({
+            data: {
+                userId: session.userId,
+                action: 'REFRESH_TOKEN_REUSED',
+                entity: 'Session',
+                entityId: session.id,
+                newValue: JSON.stringify({ sessionIp: session.ipAddress, deviceId: session.deviceId }),
+                ipAddress: clientIp,
+                userAgent,
+            },
+        });
+        return { success: false, error: 'TOKEN_REUSED' };
+    }
+
+    const sessionError = await checkSession(session);
+    if (sessionError) {
+        return { success: false, error: sessionError };
+    }
+
+    // Claims come from the DB, so userType/role changes apply at the next refresh
+    const tokenPayload = {
+        userId: session.user.id,
+        userType: session.user.userType,
+        sessionId: session.id,
+        ...(session.user.userType === 'ADMIN' && { adminRole: resolveAdminRole(session.user.adminRole) }),
+    };
+
+    const tokens = {
+        accessToken: generateAccessToken(tokenPayload),
+        refreshToken: generateRefreshToken(tokenPayload),
+    };
+
+    // Only one refresh can consume the token
+    const rotated = await prisma.session.updateMany({
+        where: { id: session.id, refreshToken },
+        data: {
+            token: tokens.accessToken,
+            refreshToken: tokens.refreshToken,
+            previousRefreshToken: refreshToken,
+            refreshedAt: new Date(),
+            lastSeenAt: new Date(),
+            ...(clientIp && { ipAddress: clientIp }),
+        },
+    });
+
+    if (rotated.count === 0) {
+        // Lost the race to a concurrent refresh - same as arriving just after it
+        return { success: true };
+    }
+
+    return { success: true, tokens };
+}
+
 /**
  * Get error message for auth failure
  */
@@ -149,10 +565,22 @@ export function getAuthErrorMessage(error: string, locale: 'ar' | 'en' = 'en'):
             ar: 'انتهت صلاحية الجلسة. يرجى تسجيل الدخول مجدداً',
             en: 'Session expired. Please login again',
         },
+        SESSION_IDLE: {
+            ar: 'انتهت الجلسة بسبب عدم النشاط. يرجى تسجيل الدخول مجدداً',
+            en: 'Session ended due to inactivity. Please login again',
+        },
+        TOKEN_REUSED: {
+            ar: 'تم إنهاء الجلسة لأسباب أمنية. يرجى تسجيل الدخول مجدداً',
+            en: 'Session ended for security reasons. Please login again',
+        },
         USER_INACTIVE: {
             ar: 'حسابك معطل. تواصل مع الدعم',
             en: 'Your account is disabled. Contact support',
         },
+        TWO_FACTOR_REQUIRED: {
+            ar: 'يجب تفعيل التحقق بخطوتين. يرجى تسجيل الدخول مجدداً',
+            en: 'Two-factor authentication is required. Please login again',
+        },
         INTERNAL_ERROR: {
             ar: 'حدث خطأ. حاول مجدداً',
             en: 'An error occurred. Try again',
@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 
 declare global {
     var prisma: PrismaClient | undefined;
@@ -17,6 +17,12 @@ if (process.env.NODE_ENV !== 'production') {
     globalThis.prisma = prisma;
 }
 
+// Money columns are Decimal(20, 2) - keep sending them to clients as JSON numbers, as they were
+// when the columns were Float (Decimal serializes to a string by default)
+Prisma.Decimal.prototype.toJSON = function (this: Prisma.Decimal) {
+    return this.toNumber();
+} as () => any;
+
 // ============================================
 // AUTO-INITIALIZE LEDGER ACCOUNTS
 // ============================================
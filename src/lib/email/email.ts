@@ -401,6 +401,92 @@ export async function sendPasswordResetEmail(params: {
   });
 }
 
+/**
+ * Send new device login alert
+ */
+export async function sendNewDeviceLoginEmail(params: {
+  to: string;
+  userName: string;
+  deviceName: string;
+  ipAddress?: string;
+  location?: string;
+  time: Date;
+}) {
+  const formattedTime = params.time.toLocaleString('ar-SY', { dateStyle: 'medium', timeStyle: 'short' });
+
+  const html = `
+<!DOCTYPE html>
+<html dir="rtl" lang="ar">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="margin: 0; padding: 0; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background-color: #0F1419;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #0F1419; padding: 40px 20px;">
+    <tr>
+      <td align="center">
+        <table width="600" cellpadding="0" cellspacing="0" style="background: linear-gradient(135deg, #1F2937 0%, #111827 100%); border-radius: 16px; overflow: hidden;">
+          <tr>
+            <td style="background: linear-gradient(135deg, #F59E0B 0%, #D97706 100%); padding: 40px; text-align: center;">
+              <div style="font-size: 50px; margin-bottom: 10px;">📱</div>
+              <h1 style="margin: 0; color: white; font-size: 24px;">تسجيل دخول من جهاز جديد</h1>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 40px;">
+              <h2 style="margin: 0 0 20px 0; color: #D4AF37;">مرحباً ${params.userName}</h2>
+              <p style="color: #9CA3AF; font-size: 16px; line-height: 1.8;">
+                تم تسجيل الدخول إلى حسابك في بنك باشا من جهاز لم نره من قبل.
+              </p>
+              <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #1F2937; border-radius: 8px; margin: 20px 0;">
+                <tr>
+                  <td style="padding: 12px 20px; color: #9CA3AF; font-size: 14px;">الجهاز</td>
+                  <td style="padding: 12px 20px; color: #E7E9EA; font-size: 14px;" dir="ltr">${params.deviceName}</td>
+                </tr>
+                ${params.location ? `
+                <tr>
+                  <td style="padding: 12px 20px; color: #9CA3AF; font-size: 14px;">الموقع</td>
+                  <td style="padding: 12px 20px; color: #E7E9EA; font-size: 14px;" dir="ltr">${params.location}</td>
+                </tr>
+                ` : ''}
+                ${params.ipAddress ? `
+                <tr>
+                  <td style="padding: 12px 20px; color: #9CA3AF; font-size: 14px;">عنوان IP</td>
+                  <td style="padding: 12px 20px; color: #E7E9EA; font-size: 14px;" dir="ltr">${params.ipAddress}</td>
+                </tr>
+                ` : ''}
+                <tr>
+                  <td style="padding: 12px 20px; color: #9CA3AF; font-size: 14px;">الوقت</td>
+                  <td style="padding: 12px 20px; color: #E7E9EA; font-size: 14px;">${formattedTime}</td>
+                </tr>
+              </table>
+              <div style="background-color: #EF444420; border-right: 4px solid #EF4444; padding: 15px; border-radius: 8px; margin-top: 20px;">
+                <p style="margin: 0; color: #9CA3AF; font-size: 13px; line-height: 1.6;">
+                  <strong style="color: #EF4444;">🔒 لم تكن أنت؟</strong> افتح الإعدادات ← الأجهزة والجلسات وأنهِ هذه الجلسة، ثم غيّر كلمة المرور فوراً.
+                </p>
+              </div>
+            </td>
+          </tr>
+          <tr>
+            <td style="background-color: #1F2937; padding: 30px; text-align: center;">
+              <p style="margin: 0; color: #6B7280; font-size: 12px;">© 2025 بنك باشا. جميع الحقوق محفوظة.</p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `;
+
+  await sendEmail({
+    to: params.to,
+    subject: 'بنك باشا - تسجيل دخول من جهاز جديد 📱',
+    html,
+  });
+}
+
 /**
  * Send agent transaction notification email (for both agent and user)
  */
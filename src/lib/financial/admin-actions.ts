@@ -0,0 +1,421 @@
+/**
+ * Sensitive Admin Financial Actions
+ * Bank Basha
+ *
+ * The actual work behind agent credit grants, profit withdrawals and fee/settings changes.
+ * Routes call these directly when the action is under its approval threshold, otherwise the
+ * approval queue (approvals.ts) replays the stored payload through them once a second admin approves.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { generateReferenceNumber, sanitizePhoneNumber } from '@/lib/auth/security';
+import { createLedgerEntry, INTERNAL_ACCOUNTS } from '@/lib/financial/core-ledger';
+import { postTransaction, walletParty, agentParty, accountParty, RESERVE_PARTY } from '@/lib/financial/posting-engine';
+import { fitsMinorUnits } from '@/lib/financial/money';
+import { z } from 'zod';
+
+export interface AdminActionContext {
+    adminId: string;            // Admin the action is executed for (the proposer when replayed from the queue)
+    ipAddress?: string;
+    approvalRequestId?: string; // Set when executed from the approval queue - linked in the audit log
+}
+
+export interface AdminActionResult {
+    success: boolean;
+    status?: number;
+    error?: string;
+    data?: Record<string, unknown>;
+}
+
+/**
+ * Input schemas - shared by the routes and the approval queue, which re-validates stored payloads before replaying them
+ */
+export const agentCreditSchema = z.object({
+    agentPhone: z.string().min(9, 'Invalid phone number'),
+    amount: z.number().positive('Amount must be positive').refine((amount) => fitsMinorUnits(amount), 'Amount cannot have more than 2 decimal places'),
+    currency: z.enum(['USD', 'SYP']).default('USD'),
+});
+
+export const profitWithdrawalSchema = z.object({
+    amount: z.number().positive('Amount must be positive').refine((amount) => fitsMinorUnits(amount), 'Amount cannot have more than 2 decimal places'),
+    currency: z.enum(['USD', 'SYP']),
+    method: z.enum(['BANK_TRANSFER', 'CASH', 'CRYPTO', 'USER_WALLET']),
+    notes: z.string().optional(),
+    // For bank transfer
+    bankDetails: z.object({
+        bankName: z.string().optional(),
+        accountNumber: z.string().optional(),
+        iban: z.string().optional(),
+    }).optional(),
+    // For user wallet transfer
+    phone: z.string().optional(),
+    walletType: z.enum(['PERSONAL', 'BUSINESS']).optional(),
+});
+
+export const systemSettingsSchema = z.object({
+    // USD Fee Settings
+    depositFeePercent: z.number().min(0).max(100).optional(),
+    depositFeeFixed: z.number().min(0).optional(),
+    withdrawalFeePercent: z.number().min(0).max(100).optional(),
+    withdrawalFeeFixed: z.number().min(0).optional(),
+    transferFeePercent: z.number().min(0).max(100).optional(),
+    transferFeeFixed: z.number().min(0).optional(),
+    qrPaymentFeePercent: z.number().min(0).max(100).optional(),
+    qrPaymentFeeFixed: z.number().min(0).optional(),
+    serviceFeePercent: z.number().min(0).max(100).optional(),
+    serviceFeeFixed: z.number().min(0).optional(),
+    agentCommissionPercent: z.number().min(0).max(100).optional(),
+    // SYP Fee Settings
+    depositFeePercentSYP: z.number().min(0).max(100).optional(),
+    depositFeeFixedSYP: z.number().min(0).optional(),
+    withdrawalFeePercentSYP: z.number().min(0).max(100).optional(),
+    withdrawalFeeFixedSYP: z.number().min(0).optional(),
+    transferFeePercentSYP: z.number().min(0).max(100).optional(),
+    transferFeeFixedSYP: z.number().min(0).optional(),
+    qrPaymentFeePercentSYP: z.number().min(0).max(100).optional(),
+    qrPaymentFeeFixedSYP: z.number().min(0).optional(),
+    serviceFeePercentSYP: z.number().min(0).max(100).optional(),
+    serviceFeeFixedSYP: z.number().min(0).optional(),
+    agentCommissionPercentSYP: z.number().min(0).max(100).optional(),
+    // Settlement & Limits
+    settlementPlatformCommission: z.number().min(0).max(100).optional(),
+    settlementAgentCommission: z.number().min(0).max(100).optional(),
+    dailyTransactionLimit: z.number().positive().optional(),
+    weeklyTransactionLimit: z.number().positive().optional(),
+    monthlyTransactionLimit: z.number().positive().optional(),
+    minTransactionAmount: z.number().positive().optional(),
+    maxTransactionAmount: z.number().positive().optional(),
+});
+
+export type AgentCreditInput = z.infer<typeof agentCreditSchema>;
+export type ProfitWithdrawalInput = z.infer<typeof profitWithdrawalSchema>;
+export type SystemSettingsInput = z.infer<typeof systemSettingsSchema>;
+
+/**
+ * Grant credit to an agent (debits SYS-RESERVE - this is where money is minted)
+ */
+export async function grantAgentCredit(
+    input: AgentCreditInput,
+    context: AdminActionContext
+): Promise<AdminActionResult> {
+    const { agentPhone, amount, currency } = input;
+    const sanitizedPhone = sanitizePhoneNumber(agentPhone);
+
+    // Find agent
+    const agent = await prisma.user.findFirst({
+        where: {
+            phone: { contains: sanitizedPhone.replace('+963', '') },
+            userType: 'AGENT',
+        },
+        include: {
+            wallets: true,
+            agentProfile: true,
+        },
+    });
+
+    if (!agent || !agent.agentProfile) {
+        return { success: false, status: 404, error: 'Agent not found' };
+    }
+
+    // Grant credit in a transaction
+    const referenceNumber = await prisma.$transaction(async (tx) => {
+        // 1. Create transaction record
+        const transaction = await tx.transaction.create({
+            data: {
+                referenceNumber: generateReferenceNumber('CRD'),
+                type: 'CREDIT_GRANT',
+                status: 'COMPLETED',
+                receiverId: agent.id,
+                amount,
+                fee: 0,
+                platformFee: 0,
+                agentFee: 0,
+                netAmount: amount,
+                currency,
+                description: `Credit grant from admin (${currency})`,
+                descriptionAr: `منح رصيد من الإدارة (${currency})`,
+                completedAt: new Date(),
+            },
+        });
+
+        // 2. Debit Central Bank (goes negative - source of all money), credit the agent
+        await postTransaction(tx, {
+            type: 'CREDIT_GRANT',
+            currency,
+            referenceNumber: transaction.referenceNumber,
+            transactionId: transaction.id,
+            createdBy: context.adminId,
+            payer: RESERVE_PARTY,
+            payee: agentParty(agent.agentProfile!.id),
+            gross: amount,
+        });
+
+        return transaction.referenceNumber;
+    });
+
+    // Audit log
+    await prisma.auditLog.create({
+        data: {
+            userId: context.adminId,
+            action: 'CREDIT_GRANTED',
+            entity: 'AgentProfile',
+            entityId: agent.agentProfile.id,
+            newValue: JSON.stringify({
+                amount,
+                agentPhone: sanitizedPhone,
+                approvalRequestId: context.approvalRequestId,
+            }),
+            ipAddress: context.ipAddress,
+        },
+    });
+
+    // Notification
+    await prisma.notification.create({
+        data: {
+            userId: agent.id,
+            type: 'SYSTEM',
+            title: 'Credit Granted',
+            titleAr: 'تم منحك رصيد',
+            message: `You have been granted ${amount} ${currency === 'SYP' ? 'SYP' : 'USD'} credit`,
+            messageAr: `تم منحك رصيد بقيمة ${amount} ${currency === 'SYP' ? 'ل.س' : '$'}`,
+        },
+    });
+
+    return { success: true, data: { referenceNumber } };
+}
+
+/**
+ * Withdraw platform profits (FEES account) to a user wallet or externally (bank, cash, crypto)
+ */
+export async function withdrawPlatformProfits(
+    input: ProfitWithdrawalInput,
+    context: AdminActionContext
+): Promise<AdminActionResult> {
+    const { amount, currency, method, notes, bankDetails, phone, walletType } = input;
+
+    // Get fees account
+    const accountCode = currency === 'SYP' ? 'FEES-COLLECTED-SYP' : 'FEES-COLLECTED';
+    const feesAccount = await prisma.internalAccount.findUnique({
+        where: { code: accountCode },
+    });
+
+    if (!feesAccount || feesAccount.balance.lessThan(amount)) {
+        return { success: false, status: 400, error: 'رصيد الأرباح غير كافي' };
+    }
+
+    const referenceNumber = generateReferenceNumber('PWD');
+    let recipientName = '';
+
+    // ═══════════════════════════════════════════════════════════════
+    // WITHDRAW TO USER WALLET
+    // ═══════════════════════════════════════════════════════════════
+    if (method === 'USER_WALLET') {
+        if (!phone) {
+            return { success: false, status: 400, error: 'رقم الهاتف مطلوب للتحويل إلى المحفظة' };
+        }
+
+        const sanitizedPhone = sanitizePhoneNumber(phone);
+
+        // Find user by phone
+        const targetUser = await prisma.user.findUnique({
+            where: { phone: sanitizedPhone },
+            include: {
+                wallets: true,
+            },
+        });
+
+        if (!targetUser) {
+            return { success: false, status: 404, error: 'لم يتم العثور على مستخدم بهذا الرقم' };
+        }
+
+        // Find the correct wallet
+        const targetWalletType = walletType || 'PERSONAL';
+        const targetWallet = targetUser.wallets.find(
+            w => w.currency === currency && w.walletType === targetWalletType
+        );
+
+        if (!targetWallet) {
+            return { success: false, status: 404, error: `لا توجد محفظة ${currency} للمستخدم` };
+        }
+
+        recipientName = targetUser.fullNameAr || targetUser.fullName;
+
+        // Process in transaction
+        await prisma.$transaction(async (tx) => {
+            // 1. Deduct from fees account
+            await tx.internalAccount.update({
+                where: { code: accountCode },
+                data: { balance: { decrement: amount } },
+            });
+
+            // 2. Create transaction record
+            const transaction = await tx.transaction.create({
+                data: {
+                    referenceNumber,
+                    type: 'DEPOSIT',
+                    amount,
+                    netAmount: amount,
+                    currency,
+                    status: 'COMPLETED',
+                    receiverId: targetUser.id,
+                    description: `Platform profit distribution`,
+                    descriptionAr: `توزيع أرباح المنصة`,
+                    completedAt: new Date(),
+                },
+            });
+
+            // 3. Create withdrawal record
+            await tx.profitWithdrawal.create({
+                data: {
+                    referenceNumber,
+                    adminId: context.adminId,
+                    amount,
+                    currency,
+                    method: 'USER_WALLET',
+                    notes: notes || `تحويل إلى ${recipientName}`,
+                    accountNumber: sanitizedPhone,
+                    status: 'COMPLETED',
+                    completedAt: new Date(),
+                },
+            });
+
+            // 4. Add to user wallet (FEES -> wallet ledger)
+            await postTransaction(tx, {
+                type: 'DEPOSIT',
+                currency,
+                referenceNumber,
+                description: `Profit Distribution to ${sanitizedPhone}: ${referenceNumber}`,
+                descriptionAr: `توزيع أرباح إلى ${recipientName}: ${referenceNumber}`,
+                transactionId: transaction.id,
+                createdBy: context.adminId,
+                payer: accountParty(INTERNAL_ACCOUNTS.FEES),
+                payee: walletParty(targetWallet.id),
+                gross: amount,
+            });
+        });
+
+        // Send notification to user
+        await prisma.notification.create({
+            data: {
+                userId: targetUser.id,
+                type: 'TRANSACTION',
+                title: 'Profit Distribution Received',
+                titleAr: 'استلام أرباح',
+                message: `You received ${currency === 'SYP' ? `${amount.toLocaleString()} SYP` : `$${amount.toFixed(2)}`} from platform profits`,
+                messageAr: `استلمت ${currency === 'SYP' ? `${amount.toLocaleString()} ل.س` : `$${amount.toFixed(2)}`} من أرباح المنصة`,
+            },
+        });
+
+    } else {
+        // ═══════════════════════════════════════════════════════════════
+        // EXTERNAL WITHDRAWAL (Bank, Cash, Crypto)
+        // ═══════════════════════════════════════════════════════════════
+        await prisma.$transaction(async (tx) => {
+            await tx.internalAccount.update({
+                where: { code: accountCode },
+                data: { balance: { decrement: amount } },
+            });
+
+            await tx.profitWithdrawal.create({
+                data: {
+                    referenceNumber,
+                    adminId: context.adminId,
+                    amount,
+                    currency,
+                    method,
+                    notes,
+                    bankName: bankDetails?.bankName,
+                    accountNumber: bankDetails?.accountNumber,
+                    iban: bankDetails?.iban,
+                    status: 'COMPLETED',
+                    completedAt: new Date(),
+                },
+            });
+
+            await createLedgerEntry({
+                description: `Profit Withdrawal: ${referenceNumber}`,
+                descriptionAr: `سحب أرباح: ${referenceNumber}`,
+                createdBy: context.adminId,
+                currency,
+                tx,
+                lines: [
+                    { accountCode: INTERNAL_ACCOUNTS.FEES, debit: amount, credit: 0 },
+                    { accountCode: INTERNAL_ACCOUNTS.SYSTEM_RESERVE, debit: 0, credit: amount },
+                ],
+            });
+        });
+    }
+
+    // Audit log
+    await prisma.auditLog.create({
+        data: {
+            userId: context.adminId,
+            action: 'PROFIT_WITHDRAWAL',
+            entity: 'ProfitWithdrawal',
+            entityId: referenceNumber,
+            newValue: JSON.stringify({
+                amount,
+                currency,
+                method,
+                phone,
+                recipientName,
+                approvalRequestId: context.approvalRequestId,
+            }),
+            ipAddress: context.ipAddress,
+        },
+    });
+
+    return {
+        success: true,
+        data: {
+            referenceNumber,
+            recipientName: recipientName || undefined,
+        },
+    };
+}
+
+/**
+ * Update fees, commissions and limits in SystemSettings
+ */
+export async function updateSystemSettings(
+    input: SystemSettingsInput,
+    context: AdminActionContext
+): Promise<AdminActionResult> {
+    // Get existing settings or create new
+    let settings = await prisma.systemSettings.findFirst();
+
+    if (settings) {
+        // Update existing
+        settings = await prisma.systemSettings.update({
+            where: { id: settings.id },
+            data: {
+                ...input,
+                updatedBy: context.adminId,
+            },
+        });
+    } else {
+        // Create new
+        settings = await prisma.systemSettings.create({
+            data: {
+                ...input,
+                updatedBy: context.adminId,
+            },
+        });
+    }
+
+    // Audit log
+    await prisma.auditLog.create({
+        data: {
+            userId: context.adminId,
+            action: 'UPDATE_SYSTEM_SETTINGS',
+            entity: 'SystemSettings',
+            entityId: settings.id,
+            newValue: JSON.stringify(
+                context.approvalRequestId ? { ...input, approvalRequestId: context.approvalRequestId } : input
+            ),
+            ipAddress: context.ipAddress,
+        },
+    });
+
+    return { success: true, data: { settings } };
+}
@@ -0,0 +1,341 @@
+/**
+ * Maker-Checker Approvals (four-eyes)
+ * Bank Basha
+ *
+ * Sensitive admin actions above their policy threshold are not executed directly:
+ * 1. The maker's validated payload is stored as a PENDING ApprovalRequest
+ * 2. A different admin holding the action's permission approves (or rejects) it
+ * 3. Approval re-validates the stored payload with its action's schema and replays it through the
+ *    same executor the direct path uses
+ *
+ * Every step is written to AuditLog with entity 'ApprovalRequest' and the request id as entityId:
+ * APPROVAL_REQUESTED -> APPROVAL_APPROVED -> APPROVAL_EXECUTED / APPROVAL_FAILED (or APPROVAL_REJECTED)
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { PERMISSIONS, type Permission } from '@/lib/auth/permissions';
+import {
+    grantAgentCredit,
+    withdrawPlatformProfits,
+    updateSystemSettings,
+    agentCreditSchema,
+    profitWithdrawalSchema,
+    systemSettingsSchema,
+    type AdminActionContext,
+    type AdminActionResult,
+    type AgentCreditInput,
+    type ProfitWithdrawalInput,
+    type SystemSettingsInput,
+} from '@/lib/financial/admin-actions';
+import { z } from 'zod';
+
+export const APPROVAL_ACTION_TYPES = [
+    'AGENT_CREDIT',
+    'PROFIT_WITHDRAWAL',
+    'SETTINGS_UPDATE',
+    'APPROVAL_POLICY_UPDATE',
+] as const;
+export type ApprovalActionType = typeof APPROVAL_ACTION_TYPES[number];
+
+export const APPROVAL_ACTIONS: Record<ApprovalActionType, {
+    permission: Permission;
+    name: { en: string; ar: string };
+    amountBased: boolean;   // Thresholds apply; otherwise the policy is simply on/off
+    configurable: boolean;  // Policy changes themselves always need a second admin
+}> = {
+    AGENT_CREDIT: {
+        permission: PERMISSIONS.AGENTS_CREDIT,
+        name: { en: 'Agent credit grant', ar: 'منح رصيد لوكيل' },
+        amountBased: true,
+        configurable: true,
+    },
+    PROFIT_WITHDRAWAL: {
+        permission: PERMISSIONS.PROFITS_WITHDRAW,
+        name: { en: 'Profit withdrawal', ar: 'سحب أرباح المنصة' },
+        amountBased: true,
+        configurable: true,
+    },
+    SETTINGS_UPDATE: {
+        permission: PERMISSIONS.SETTINGS_MANAGE,
+        name: { en: 'Fees & settings change', ar: 'تعديل الرسوم والإعدادات' },
+        amountBased: false,
+        configurable: true,
+    },
+    APPROVAL_POLICY_UPDATE: {
+        permission: PERMISSIONS.SETTINGS_MANAGE,
+        name: { en: 'Approval policy change', ar: 'تعديل سياسة الموافقات' },
+        amountBased: false,
+        configurable: false,
+    },
+};
+
+export interface ApprovalPolicyValues {
+    actionType: ApprovalActionType;
+    enabled: boolean;
+    thresholdUSD: number;
+    thresholdSYP: number;
+}
+
+export const approvalPoliciesSchema = z.object({
+    policies: z.array(z.object({
+        actionType: z.enum(APPROVAL_ACTION_TYPES),
+        enabled: z.boolean(),
+        thresholdUSD: z.number().min(0, 'Threshold cannot be negative'),
+        thresholdSYP: z.number().min(0, 'Threshold cannot be negative'),
+    })).min(1),
+});
+
+export type ApprovalPoliciesInput = z.infer<typeof approvalPoliciesSchema>;
+
+/**
+ * The payload stored with each action type
+ */
+export type ApprovalProposal =
+    | { actionType: 'AGENT_CREDIT'; payload: AgentCreditInput }
+    | { actionType: 'PROFIT_WITHDRAWAL'; payload: ProfitWithdrawalInput }
+    | { actionType: 'SETTINGS_UPDATE'; payload: SystemSettingsInput }
+    | { actionType: 'APPROVAL_POLICY_UPDATE'; payload: ApprovalPoliciesInput };
+
+/**
+ * Stored payloads are only replayed after passing the schema the maker's route validated them with
+ */
+const APPROVAL_PAYLOAD_SCHEMAS = {
+    AGENT_CREDIT: agentCreditSchema,
+    PROFIT_WITHDRAWAL: profitWithdrawalSchema,
+    SETTINGS_UPDATE: systemSettingsSchema,
+    APPROVAL_POLICY_UPDATE: approvalPoliciesSchema,
+} satisfies Record<ApprovalActionType, z.ZodTypeAny>;
+
+/**
+ * Used until an admin saves a policy for the action type
+ */
+const DEFAULT_APPROVAL_POLICIES: Record<ApprovalActionType, Omit<ApprovalPolicyValues, 'actionType'>> = {
+    AGENT_CREDIT: { enabled: true, thresholdUSD: 1000, thresholdSYP: 15000000 },
+    PROFIT_WITHDRAWAL: { enabled: true, thresholdUSD: 500, thresholdSYP: 7500000 },
+    SETTINGS_UPDATE: { enabled: true, thresholdUSD: 0, thresholdSYP: 0 },
+    APPROVAL_POLICY_UPDATE: { enabled: true, thresholdUSD: 0, thresholdSYP: 0 },
+};
+
+export const PENDING_APPROVAL_MESSAGE = 'تم إرسال الطلب، بانتظار موافقة مشرف آخر';
+
+export function isApprovalActionType(value: string): value is ApprovalActionType {
+    return (APPROVAL_ACTION_TYPES as readonly string[]).includes(value);
+}
+
+export async function getApprovalPolicies(): Promise<ApprovalPolicyValues[]> {
+    const saved = await prisma.approvalPolicy.findMany();
+    const savedByType = new Map(saved.map(p => [p.actionType, p]));
+
+    return APPROVAL_ACTION_TYPES.map(actionType => {
+        const policy = APPROVAL_ACTIONS[actionType].configurable ? savedByType.get(actionType) : undefined;
+        return policy
+            ? { actionType, enabled: policy.enabled, thresholdUSD: policy.thresholdUSD, thresholdSYP: policy.thresholdSYP }
+            : { actionType, ...DEFAULT_APPROVAL_POLICIES[actionType] };
+    });
+}
+
+/**
+ * Does this action need a second admin?
+ */
+export async function requiresApproval(
+    actionType: ApprovalActionType,
+    amount?: number,
+    currency?: string
+): Promise<boolean> {
+    const policy = (await getApprovalPolicies()).find(p => p.actionType === actionType);
+    if (!policy || !policy.enabled) return false;
+    if (!APPROVAL_ACTIONS[actionType].amountBased || amount === undefined) return true;
+
+    const threshold = currency === 'SYP' ? policy.thresholdSYP : policy.thresholdUSD;
+    return amount > threshold;
+}
+
+/**
+ * Maker step - record the action with its full payload
+ */
+export async function proposeApproval(params: ApprovalProposal & {
+    amount?: number;
+    currency?: string;
+    requestedBy: string;
+    ipAddress?: string;
+}) {
+    const approval = await prisma.approvalRequest.create({
+        data: {
+            actionType: params.actionType,
+            payload: JSON.stringify(params.payload),
+            amount: params.amount,
+            currency: params.currency,
+            requestedBy: params.requestedBy,
+        },
+    });
+
+    await prisma.auditLog.create({
+        data: {
+            userId: params.requestedBy,
+            action: 'APPROVAL_REQUESTED',
+            entity: 'ApprovalRequest',
+            entityId: approval.id,
+            newValue: JSON.stringify({
+                actionType: params.actionType,
+                amount: params.amount,
+                currency: params.currency,
+                payload: params.payload,
+            }),
+            ipAddress: params.ipAddress,
+        },
+    });
+
+    return approval;
+}
+
+/**
+ * Save approval policies (executed only through the queue - see APPROVAL_POLICY_UPDATE)
+ */
+async function updateApprovalPolicies(
+    input: ApprovalPoliciesInput,
+    context: AdminActionContext
+): Promise<AdminActionResult> {
+    const policies = input.policies.filter(p => APPROVAL_ACTIONS[p.actionType]?.configurable);
+
+    await prisma.$transaction(
+        policies.map(({ actionType, enabled, thresholdUSD, thresholdSYP }) =>
+            prisma.approvalPolicy.upsert({
+                where: { actionType },
+                update: { enabled, thresholdUSD, thresholdSYP, updatedBy: context.adminId },
+                create: { actionType, enabled, thresholdUSD, thresholdSYP, updatedBy: context.adminId },
+            })
+        )
+    );
+
+    await prisma.auditLog.create({
+        data: {
+            userId: context.adminId,
+            action: 'APPROVAL_POLICY_UPDATED',
+            entity: 'ApprovalPolicy',
+            newValue: JSON.stringify({ policies, approvalRequestId: context.approvalRequestId }),
+            ipAddress: context.ipAddress,
+        },
+    });
+
+    return { success: true, data: { policies } };
+}
+
+/**
+ * Validate a stored payload against its action's schema - null when it no longer parses
+ */
+function parseApprovalPayload(actionType: ApprovalActionType, payload: string): ApprovalProposal | null {
+    let json: unknown;
+    try {
+        json = JSON.parse(payload);
+    } catch {
+        return null;
+    }
+
+    switch (actionType) {
+        case 'AGENT_CREDIT': {
+            const result = APPROVAL_PAYLOAD_SCHEMAS.AGENT_CREDIT.safeParse(json);
+            return result.success ? { actionType, payload: result.data } : null;
+        }
+        case 'PROFIT_WITHDRAWAL': {
+            const result = APPROVAL_PAYLOAD_SCHEMAS.PROFIT_WITHDRAWAL.safeParse(json);
+            return result.success ? { actionType, payload: result.data } : null;
+        }
+        case 'SETTINGS_UPDATE': {
+            const result = APPROVAL_PAYLOAD_SCHEMAS.SETTINGS_UPDATE.safeParse(json);
+            return result.success ? { actionType, payload: result.data } : null;
+        }
+        case 'APPROVAL_POLICY_UPDATE': {
+            const result = APPROVAL_PAYLOAD_SCHEMAS.APPROVAL_POLICY_UPDATE.safeParse(json);
+            return result.success ? { actionType, payload: result.data } : null;
+        }
+    }
+}
+
+function runApprovalAction(proposal: ApprovalProposal, context: AdminActionContext): Promise<AdminActionResult> {
+    switch (proposal.actionType) {
+        case 'AGENT_CREDIT':
+            return grantAgentCredit(proposal.payload, context);
+        case 'PROFIT_WITHDRAWAL':
+            return withdrawPlatformProfits(proposal.payload, context);
+        case 'SETTINGS_UPDATE':
+            return updateSystemSettings(proposal.payload, context);
+        case 'APPROVAL_POLICY_UPDATE':
+            return updateApprovalPolicies(proposal.payload, context);
+    }
+}
+
+/**
+ * Checker step - claim the request, then execute the stored payload on the maker's behalf
+ * The caller has already checked the reviewer is a different admin with the action's permission
+ */
+export async function approveAndExecute(
+    approvalRequestId: string,
+    reviewerId: string,
+    ipAddress?: string
+): Promise<AdminActionResult> {
+    // Claim the request so two checkers cannot execute it twice
+    const claimed = await prisma.approvalRequest.updateMany({
+        where: { id: approvalRequestId, status: 'PENDING', requestedBy: { not: reviewerId } },
+        data: { status: 'APPROVED', reviewedBy: reviewerId, reviewedAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+        return { success: false, status: 400, error: 'تم معالجة هذا الطلب بالفعل' };
+    }
+
+    const approval = await prisma.approvalRequest.findUnique({ where: { id: approvalRequestId } });
+    if (!approval || !isApprovalActionType(approval.actionType)) {
+        return { success: false, status: 400, error: 'نوع الطلب غير معروف' };
+    }
+
+    await prisma.auditLog.create({
+        data: {
+            userId: reviewerId,
+            action: 'APPROVAL_APPROVED',
+            entity: 'ApprovalRequest',
+            entityId: approval.id,
+            newValue: JSON.stringify({ actionType: approval.actionType, requestedBy: approval.requestedBy }),
+            ipAddress,
+        },
+    });
+
+    const proposal = parseApprovalPayload(approval.actionType, approval.payload);
+
+    let outcome: AdminActionResult;
+    try {
+        outcome = proposal
+            ? await runApprovalAction(proposal, {
+                adminId: approval.requestedBy,
+                ipAddress,
+                approvalRequestId: approval.id,
+            })
+            : { success: false, status: 400, error: 'بيانات الطلب غير صالحة' };
+    } catch (error) {
+        console.error('Approval execution error:', error);
+        outcome = { success: false, status: 500, error: 'فشل تنفيذ الطلب' };
+    }
+
+    await prisma.approvalRequest.update({
+        where: { id: approval.id },
+        data: outcome.success
+            ? { status: 'EXECUTED', executedAt: new Date(), result: JSON.stringify(outcome.data || {}) }
+            : { status: 'FAILED', failureReason: outcome.error },
+    });
+
+    await prisma.auditLog.create({
+        data: {
+            userId: reviewerId,
+            action: outcome.success ? 'APPROVAL_EXECUTED' : 'APPROVAL_FAILED',
+            entity: 'ApprovalRequest',
+            entityId: approval.id,
+            newValue: JSON.stringify({
+                actionType: approval.actionType,
+                requestedBy: approval.requestedBy,
+                ...(outcome.success ? { result: outcome.data } : { error: outcome.error }),
+            }),
+            ipAddress,
+        },
+    });
+
+    return outcome;
+}
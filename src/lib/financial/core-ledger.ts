@@ -3,11 +3,12 @@
  * Bank Basha - Financial Stability Engine
  * 
  * IMMUTABLE LEDGER: No modifications allowed, only reversals
- * DOUBLE ENTRY: Every transaction has equal debits and credits
+ * DOUBLE ENTRY: Every transaction has equal debits and credits, per currency
  */
 
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import crypto from 'crypto';
+import { Money, type MoneyInput } from '@/lib/financial/money';
 
 const prisma = new PrismaClient();
 
@@ -15,11 +16,16 @@ const prisma = new PrismaClient();
 // TYPES
 // ============================================
 
+export type LedgerCurrency = 'USD' | 'SYP';
+
 export interface LedgerLine {
     accountCode: string;
-    debit: number;
-    credit: number;
+    debit: MoneyInput;
+    credit: MoneyInput;
+    currency?: LedgerCurrency;  // Defaults to the entry currency
     description?: string;
+    walletId?: string;          // Wallet whose balance moved with this line
+    agentProfileId?: string;    // Agent whose credit moved with this line
 }
 
 export interface LedgerEntryInput {
@@ -28,7 +34,7 @@ export interface LedgerEntryInput {
     transactionId?: string;
     lines: LedgerLine[];
     createdBy?: string;
-    currency?: 'USD' | 'SYP';  // Currency for balance field selection
+    currency?: LedgerCurrency;  // Default currency of the lines (USD)
     tx?: any;  // Optional Prisma transaction client for nested transactions
 }
 
@@ -52,6 +58,7 @@ export const INTERNAL_ACCOUNTS = {
     SETTLEMENTS: 'SETTLEMENTS',           // حساب التسويات
     FEES: 'FEES-COLLECTED',               // حساب العمولات
     SUSPENSE: 'SUSPENSE',                 // حساب معلق للمعاملات المجمدة
+    FX_POSITION: 'FX-POSITION',           // مركز الصرف - يوازن القيود بين USD و SYP
 } as const;
 
 // ============================================
@@ -71,6 +78,7 @@ export async function initializeLedgerAccounts(): Promise<void> {
         { code: INTERNAL_ACCOUNTS.SETTLEMENTS, name: 'Settlements', nameAr: 'التسويات', type: 'LIABILITY' },
         { code: INTERNAL_ACCOUNTS.FEES, name: 'Fees Collected', nameAr: 'الرسوم', type: 'REVENUE' },
         { code: INTERNAL_ACCOUNTS.SUSPENSE, name: 'Suspense', nameAr: 'معلق', type: 'LIABILITY' },
+        { code: INTERNAL_ACCOUNTS.FX_POSITION, name: 'FX Position', nameAr: 'مركز الصرف', type: 'EQUITY' },
     ];
 
     for (const acc of accounts) {
@@ -137,6 +145,13 @@ export async function initializeInternalAccounts(): Promise<void> {
             type: 'SUSPENSE',
             description: 'Frozen/held transactions pending review',
         },
+        {
+            code: INTERNAL_ACCOUNTS.FX_POSITION,
+            name: 'FX Position',
+            nameAr: 'مركز الصرف',
+            type: 'FX_POSITION',
+            description: 'Currency held or owed by the platform from USD/SYP exchanges',
+        },
     ];
 
     for (const account of accounts) {
@@ -163,18 +178,90 @@ export async function initializeAllAccounts(): Promise<void> {
 // DOUBLE ENTRY LEDGER
 // ============================================
 
+// Postgres advisory lock key - one chain append at a time
+const LEDGER_CHAIN_LOCK_KEY = 7150021;
+
+// v2 adds the entry and line currencies; v1 entries (written before currencies were stored) still verify
+export type LedgerHashVersion = 'v1' | 'v2';
+export const LEDGER_HASH_VERSION: LedgerHashVersion = 'v2';
+
 /**
- * Generate SHA-256 hash for ledger entry
+ * Persisted fields that make up an entry's hash
+ * Amounts are the stored Decimal(20, 2) values as JS numbers - the same form they had as Float
  */
-function generateEntryHash(data: object, previousHash?: string): string {
-    const content = JSON.stringify({
-        ...data,
-        previousHash: previousHash || 'GENESIS',
-        timestamp: new Date().toISOString(),
-    });
+export interface HashableLedgerEntry {
+    sequence: number;
+    entryNumber: string;
+    description: string;
+    descriptionAr: string | null;
+    totalDebit: number;
+    totalCredit: number;
+    currency: string | null;
+    createdBy: string | null;
+    createdAt: Date;
+    previousHash: string;
+    lines: Array<{ accountCode: string; debit: number; credit: number; currency: string | null }>;
+}
+
+/**
+ * SHA-256 over the canonical form of a stored entry
+ * Only persisted values are used, and lines are sorted (they have no stored order),
+ * so the hash can be recomputed from the database at any time
+ */
+export function computeEntryHash(
+    entry: HashableLedgerEntry,
+    version: LedgerHashVersion = LEDGER_HASH_VERSION
+): string {
+    const withCurrency = version !== 'v1';
+
+    const lines = entry.lines
+        .map((line) => JSON.stringify(
+            withCurrency
+                ? [line.accountCode, line.debit, line.credit, line.currency]
+                : [line.accountCode, line.debit, line.credit]
+        ))
+        .sort();
+
+    const content = JSON.stringify([
+        version,
+        entry.sequence,
+        entry.entryNumber,
+        entry.description,
+        entry.descriptionAr ?? null,
+        entry.totalDebit,
+        entry.totalCredit,
+        ...(withCurrency ? [entry.currency] : []),
+        entry.createdBy ?? null,
+        entry.createdAt.toISOString(),
+        entry.previousHash,
+        lines,
+    ]);
     return crypto.createHash('sha256').update(content).digest('hex');
 }
 
+/**
+ * Take the chain lock and read the tail (inside the entry's transaction)
+ * Entries from before sequencing have no sequence - the first sequenced entry links to the newest of them
+ */
+async function lockChainTail(tx: any): Promise<{ sequence: number; previousHash: string }> {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(${LEDGER_CHAIN_LOCK_KEY})`;
+
+    const tail = await tx.ledgerEntry.findFirst({
+        where: { sequence: { not: null } },
+        orderBy: { sequence: 'desc' },
+        select: { sequence: true, hash: true },
+    });
+    if (tail) {
+        return { sequence: tail.sequence + 1, previousHash: tail.hash };
+    }
+
+    const legacyTail = await tx.ledgerEntry.findFirst({
+        orderBy: { createdAt: 'desc' },
+        select: { hash: true },
+    });
+    return { sequence: 1, previousHash: legacyTail?.hash || 'GENESIS' };
+}
+
 /**
  * Generate unique entry number
  */
@@ -186,57 +273,95 @@ function generateEntryNumber(): string {
 
 /**
  * Create immutable double-entry ledger entry
- * THROWS if debits !== credits
+ * THROWS if debits !== credits in any currency
  * Accepts optional tx parameter to run within an existing transaction
  */
 export async function createLedgerEntry(input: LedgerEntryInput): Promise<string> {
-    // Validate double entry
-    let totalDebit = 0;
-    let totalCredit = 0;
+    const lines = input.lines.map((line) => {
+        const currency: LedgerCurrency = line.currency || input.currency || 'USD';
+        return {
+            accountCode: line.accountCode,
+            debit: Money.of(line.debit || 0, currency),
+            credit: Money.of(line.credit || 0, currency),
+            currency,
+            walletId: line.walletId ?? null,
+            agentProfileId: line.agentProfileId ?? null,
+        };
+    });
 
-    for (const line of input.lines) {
-        totalDebit += line.debit || 0;
-        totalCredit += line.credit || 0;
-    }
+    // Validate double entry - USD and SYP must each balance on their own, to the minor unit
+    const totalsByCurrency: Partial<Record<LedgerCurrency, { debit: Money; credit: Money }>> = {};
 
-    // Must balance within 0.01 tolerance
-    if (Math.abs(totalDebit - totalCredit) > 0.01) {
-        throw new Error(
-            `Ledger entry not balanced! Debit: ${totalDebit}, Credit: ${totalCredit}`
-        );
+    for (const line of lines) {
+        const totals = totalsByCurrency[line.currency] || { debit: Money.zero(line.currency), credit: Money.zero(line.currency) };
+        totals.debit = totals.debit.add(line.debit);
+        totals.credit = totals.credit.add(line.credit);
+        totalsByCurrency[line.currency] = totals;
     }
 
-    // Get previous entry hash for blockchain-like integrity
-    const db = input.tx || prisma;
-    const lastEntry = await db.ledgerEntry.findFirst({
-        orderBy: { createdAt: 'desc' },
-        select: { hash: true },
-    });
+    const currencies = Object.keys(totalsByCurrency) as LedgerCurrency[];
+    let totalDebit = new Prisma.Decimal(0);
+    let totalCredit = new Prisma.Decimal(0);
+
+    for (const currency of currencies) {
+        const totals = totalsByCurrency[currency]!;
+
+        if (!totals.debit.equals(totals.credit)) {
+            throw new Error(
+                `Ledger entry not balanced in ${currency}! Debit: ${totals.debit}, Credit: ${totals.credit}`
+            );
+        }
+
+        totalDebit = totalDebit.add(totals.debit.toDecimal());
+        totalCredit = totalCredit.add(totals.credit.toDecimal());
+    }
 
+    const entryCurrency = currencies.length === 1 ? currencies[0] : 'MULTI';
     const entryNumber = generateEntryNumber();
-    const hash = generateEntryHash(
-        { entryNumber, description: input.description, lines: input.lines },
-        lastEntry?.hash || undefined
-    );
 
     // Helper function to run the ledger creation logic
     const runLedgerCreation = async (tx: any) => {
+        // Blockchain-like integrity: appends are serialized so two entries can't share a parent
+        const { sequence, previousHash } = await lockChainTail(tx);
+        const createdAt = new Date();
+        const hash = computeEntryHash({
+            sequence,
+            entryNumber,
+            description: input.description,
+            descriptionAr: input.descriptionAr ?? null,
+            totalDebit: totalDebit.toNumber(),
+            totalCredit: totalCredit.toNumber(),
+            currency: entryCurrency,
+            createdBy: input.createdBy ?? null,
+            createdAt,
+            previousHash,
+            lines: lines.map((line) => ({
+                accountCode: line.accountCode,
+                debit: line.debit.toNumber(),
+                credit: line.credit.toNumber(),
+                currency: line.currency,
+            })),
+        });
+
         // Create ledger entry
         const ledgerEntry = await tx.ledgerEntry.create({
             data: {
+                sequence,
                 entryNumber,
                 description: input.description,
                 descriptionAr: input.descriptionAr,
                 totalDebit,
                 totalCredit,
+                currency: entryCurrency,
                 hash,
-                previousHash: lastEntry?.hash || 'GENESIS',
+                previousHash,
                 createdBy: input.createdBy,
+                createdAt,
             },
         });
 
         // Create entry lines
-        for (const line of input.lines) {
+        for (const line of lines) {
             // Find or error if account doesn't exist
             const account = await tx.ledgerAccount.findUnique({
                 where: { code: line.accountCode },
@@ -251,8 +376,11 @@ export async function createLedgerEntry(input: LedgerEntryInput): Promise<string
                 data: {
                     entryId: ledgerEntry.id,
                     accountId: account.id,
-                    debit: line.debit || 0,
-                    credit: line.credit || 0,
+                    debit: line.debit.toDecimal(),
+                    credit: line.credit.toDecimal(),
+                    currency: line.currency,
+                    walletId: line.walletId,
+                    agentProfileId: line.agentProfileId,
                 },
             });
 
@@ -261,15 +389,15 @@ export async function createLedgerEntry(input: LedgerEntryInput): Promise<string
             // Credits decrease ASSET/EXPENSE, increase LIABILITY/EQUITY/REVENUE
             const balanceChange =
                 account.type === 'ASSET' || account.type === 'EXPENSE'
-                    ? (line.debit || 0) - (line.credit || 0)
-                    : (line.credit || 0) - (line.debit || 0);
+                    ? line.debit.subtract(line.credit)
+                    : line.credit.subtract(line.debit);
 
-            // Select balance field based on currency
-            const balanceField = input.currency === 'SYP' ? 'balanceSYP' : 'balance';
+            // Select balance field based on the line's currency
+            const balanceField = line.currency === 'SYP' ? 'balanceSYP' : 'balance';
 
             await tx.ledgerAccount.update({
                 where: { id: account.id },
-                data: { [balanceField]: { increment: balanceChange } },
+                data: { [balanceField]: { increment: balanceChange.toDecimal() } },
             });
         }
 
@@ -298,8 +426,163 @@ export async function createLedgerEntry(input: LedgerEntryInput): Promise<string
     return entry.id;
 }
 
+/**
+ * Transaction types that can be reversed through createReversalEntry
+ */
+export const REVERSIBLE_TRANSACTION_TYPES = ['TRANSFER', 'QR_PAYMENT', 'DEPOSIT', 'WITHDRAW'] as const;
+
+export function isReversibleTransactionType(type: string): boolean {
+    return (REVERSIBLE_TRANSACTION_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Debit a wallet only if it holds enough balance (atomic, no negative balances)
+ */
+async function debitWalletForReversal(
+    tx: any,
+    userId: string,
+    currency: string,
+    walletType: 'PERSONAL' | 'BUSINESS',
+    amount: Money
+): Promise<void> {
+    const wallet = await tx.wallet.findFirst({ where: { userId, currency, walletType } });
+    if (!wallet) {
+        throw new Error(`Wallet not found for reversal (${walletType} ${currency})`);
+    }
+
+    const update = await tx.wallet.updateMany({
+        where: { id: wallet.id, balance: { gte: amount.toDecimal() } },
+        data: { balance: { decrement: amount.toDecimal() } },
+    });
+
+    if (update.count === 0) {
+        throw new Error('INSUFFICIENT_BALANCE_FOR_REVERSAL');
+    }
+}
+
+async function creditWalletForReversal(
+    tx: any,
+    userId: string,
+    currency: string,
+    walletType: 'PERSONAL' | 'BUSINESS',
+    amount: Money
+): Promise<void> {
+    const wallet = await tx.wallet.findFirst({ where: { userId, currency, walletType } });
+    if (!wallet) {
+        throw new Error(`Wallet not found for reversal (${walletType} ${currency})`);
+    }
+
+    await tx.wallet.update({
+        where: { id: wallet.id },
+        data: { balance: { increment: amount.toDecimal() } },
+    });
+}
+
+/**
+ * Undo the operational balance changes of a transaction (Currency-Aware)
+ * Mirrors the party legs of the posting rules (lib/financial/posting-engine)
+ *
+ * - TRANSFER:   sender +amount+fee (fee refunded), receiver -amount
+ * - QR_PAYMENT: payer +amount+fee (fee refunded), merchant BUSINESS -netAmount
+ * - DEPOSIT:    user -netAmount, agent credit +amount, agent cash -amount
+ * - WITHDRAW:   user +amount, agent credit -netAmount, agent cash +amount
+ */
+async function restoreBalancesForReversal(tx: any, originalTx: any): Promise<void> {
+    const currency = originalTx.currency === 'SYP' ? 'SYP' : 'USD';
+    const amount = Money.of(originalTx.amount, currency);
+    const fee = Money.of(originalTx.fee, currency);
+    const netAmount = Money.of(originalTx.netAmount, currency);
+
+    switch (originalTx.type) {
+        case 'TRANSFER':
+            await debitWalletForReversal(tx, originalTx.receiverId, currency, 'PERSONAL', netAmount);
+            await creditWalletForReversal(tx, originalTx.senderId, currency, 'PERSONAL', amount.add(fee));
+            break;
+
+        case 'QR_PAYMENT': {
+            await debitWalletForReversal(tx, originalTx.receiverId, currency, 'BUSINESS', netAmount);
+            await creditWalletForReversal(tx, originalTx.senderId, currency, 'PERSONAL', amount.add(fee));
+
+            const merchantProfile = await tx.merchantProfile.findUnique({
+                where: { userId: originalTx.receiverId },
+            });
+            if (merchantProfile) {
+                await tx.merchantProfile.update({
+                    where: { id: merchantProfile.id },
+                    data: currency === 'SYP'
+                        ? { totalSalesSYP: { decrement: amount.toDecimal() }, totalTransactionsSYP: { decrement: 1 } }
+                        : { totalSales: { decrement: amount.toDecimal() }, totalTransactions: { decrement: 1 } },
+                });
+            }
+            break;
+        }
+
+        case 'DEPOSIT': {
+            await debitWalletForReversal(tx, originalTx.receiverId, currency, 'PERSONAL', netAmount);
+
+            const agentProfile = await tx.agentProfile.findUnique({
+                where: { userId: originalTx.agentId || originalTx.senderId },
+            });
+            if (!agentProfile) {
+                throw new Error('Agent profile not found for reversal');
+            }
+            await tx.agentProfile.update({
+                where: { id: agentProfile.id },
+                data: currency === 'SYP'
+                    ? {
+                        currentCreditSYP: { increment: amount.toDecimal() },
+                        cashCollectedSYP: { decrement: amount.toDecimal() },
+                        totalDepositsSYP: { decrement: amount.toDecimal() },
+                    }
+                    : {
+                        currentCredit: { increment: amount.toDecimal() },
+                        cashCollected: { decrement: amount.toDecimal() },
+                        totalDeposits: { decrement: amount.toDecimal() },
+                    },
+            });
+            break;
+        }
+
+        case 'WITHDRAW': {
+            const agentProfile = await tx.agentProfile.findUnique({
+                where: { userId: originalTx.agentId || originalTx.receiverId },
+            });
+            if (!agentProfile) {
+                throw new Error('Agent profile not found for reversal');
+            }
+
+            const agentCredit = currency === 'SYP' ? agentProfile.currentCreditSYP : agentProfile.currentCredit;
+            if (Money.of(agentCredit, currency).lessThan(netAmount)) {
+                throw new Error('INSUFFICIENT_AGENT_CREDIT_FOR_REVERSAL');
+            }
+
+            await tx.agentProfile.update({
+                where: { id: agentProfile.id },
+                data: currency === 'SYP'
+                    ? {
+                        currentCreditSYP: { decrement: netAmount.toDecimal() },
+                        cashCollectedSYP: { increment: amount.toDecimal() },
+                        totalWithdrawalsSYP: { decrement: amount.toDecimal() },
+                    }
+                    : {
+                        currentCredit: { decrement: netAmount.toDecimal() },
+                        cashCollected: { increment: amount.toDecimal() },
+                        totalWithdrawals: { decrement: amount.toDecimal() },
+                    },
+            });
+            await creditWalletForReversal(tx, originalTx.senderId, currency, 'PERSONAL', amount);
+            break;
+        }
+
+        default:
+            throw new Error(`Transaction type ${originalTx.type} cannot be reversed`);
+    }
+}
+
 /**
  * Create reversal for an existing transaction (IMMUTABLE - never modify!)
+ * Restores wallet/agent balances, refunds fees and posts the mirrored ledger entry
+ * with each line in its original currency - all inside one DB transaction.
  */
 export async function createReversalEntry(
     originalTransactionId: string,
@@ -309,7 +592,7 @@ export async function createReversalEntry(
 ): Promise<{ reversalTransactionId: string; ledgerEntryId: string }> {
     const originalTx = await prisma.transaction.findUnique({
         where: { id: originalTransactionId },
-        include: { ledgerEntry: { include: { lines: true } } },
+        include: { ledgerEntry: { include: { lines: { include: { account: true } } } } },
     });
 
     if (!originalTx) {
@@ -320,10 +603,37 @@ export async function createReversalEntry(
         throw new Error('Transaction already reversed');
     }
 
+    if (originalTx.status !== 'COMPLETED') {
+        throw new Error('Only completed transactions can be reversed');
+    }
+
+    if (!isReversibleTransactionType(originalTx.type)) {
+        throw new Error(`Transaction type ${originalTx.type} cannot be reversed`);
+    }
+
+    // A partially refunded payment would be refunded twice
+    if (!originalTx.refundedAmount.isZero()) {
+        throw new Error('Transaction has merchant refunds');
+    }
+
+    const currency = originalTx.currency === 'SYP' ? 'SYP' : 'USD';
+
     // Create reversal transaction (opposite of original)
     const referenceNumber = `REV-${originalTx.referenceNumber}`;
 
     return await prisma.$transaction(async (tx) => {
+        // Guard against a concurrent reversal of the same transaction
+        const marked = await tx.transaction.updateMany({
+            where: { id: originalTransactionId, status: 'COMPLETED', refundedAmount: 0 },
+            data: { status: 'REVERSED' },
+        });
+        if (marked.count === 0) {
+            throw new Error('Transaction already reversed');
+        }
+
+        // Restore sender/receiver balances and refund fees
+        await restoreBalancesForReversal(tx, originalTx);
+
         // Create reversal transaction record
         const reversalTx = await tx.transaction.create({
             data: {
@@ -332,13 +642,16 @@ export async function createReversalEntry(
                 status: 'COMPLETED',
                 senderId: originalTx.receiverId,
                 receiverId: originalTx.senderId,
+                agentId: originalTx.agentId,
                 amount: originalTx.amount,
                 fee: 0,
                 platformFee: 0,
                 agentFee: 0,
                 netAmount: originalTx.amount,
+                currency,
                 description: `Reversal: ${reason}`,
                 descriptionAr: `إلغاء: ${reasonAr}`,
+                metadata: JSON.stringify({ originalTransactionId, originalReference: originalTx.referenceNumber }),
                 completedAt: new Date(),
             },
         });
@@ -347,34 +660,26 @@ export async function createReversalEntry(
         let ledgerEntryId: string | undefined;
         if (originalTx.ledgerEntry) {
             const reversedLines = originalTx.ledgerEntry.lines.map((line) => ({
-                accountCode: '', // Will be filled below
+                accountCode: line.account.code,
                 debit: line.credit, // Swap
                 credit: line.debit, // Swap
+                // Reverse into the same balance column as the original line
+                currency: (line.currency || currency) as LedgerCurrency,
+                walletId: line.walletId ?? undefined,
+                agentProfileId: line.agentProfileId ?? undefined,
             }));
 
-            // Get account codes
-            for (let i = 0; i < reversedLines.length; i++) {
-                const account = await tx.ledgerAccount.findUnique({
-                    where: { id: originalTx.ledgerEntry.lines[i].accountId },
-                });
-                reversedLines[i].accountCode = account?.code || '';
-            }
-
             ledgerEntryId = await createLedgerEntry({
                 description: `Reversal of ${originalTx.referenceNumber}: ${reason}`,
                 descriptionAr: `إلغاء ${originalTx.referenceNumber}: ${reasonAr}`,
                 transactionId: reversalTx.id,
                 lines: reversedLines,
                 createdBy: reversedBy,
+                currency,
+                tx, // Same DB transaction as the balance restore
             });
         }
 
-        // Mark original as reversed
-        await tx.transaction.update({
-            where: { id: originalTransactionId },
-            data: { status: 'REVERSED' },
-        });
-
         // Record reversal link
         await tx.reversalTransaction.create({
             data: {
@@ -407,13 +712,14 @@ export async function updateInternalAccount(
     currency: 'USD' | 'SYP' = 'USD'
 ): Promise<void> {
     const balanceField = currency === 'SYP' ? 'balanceSYP' : 'balance';
+    const change = Money.of(amount, currency).toDecimal();
 
     await prisma.internalAccount.update({
         where: { code: accountCode },
         data: {
             [balanceField]: operation === 'INCREMENT'
-                ? { increment: amount }
-                : { decrement: amount },
+                ? { increment: change }
+                : { decrement: change },
         },
     });
 }
@@ -427,8 +733,8 @@ export async function getInternalAccountBalances(): Promise<Record<string, { USD
 
     for (const acc of accounts) {
         balances[acc.code] = {
-            USD: acc.balance,
-            SYP: acc.balanceSYP,
+            USD: acc.balance.toNumber(),
+            SYP: acc.balanceSYP.toNumber(),
         };
     }
 
@@ -444,38 +750,36 @@ export async function verifySystemBalance(): Promise<{
     USD: { systemReserve: number; totalOther: number; difference: number; isBalanced: boolean };
     SYP: { systemReserve: number; totalOther: number; difference: number; isBalanced: boolean };
 }> {
-    const balances = await getInternalAccountBalances();
-
-    // USD Check
-    const systemReserveUSD = balances[INTERNAL_ACCOUNTS.SYSTEM_RESERVE]?.USD || 0;
-    const totalOtherUSD = Object.entries(balances)
-        .filter(([code]) => code !== INTERNAL_ACCOUNTS.SYSTEM_RESERVE)
-        .reduce((sum, [, bal]) => sum + bal.USD, 0);
-    const differenceUSD = systemReserveUSD + totalOtherUSD;
-    const isBalancedUSD = Math.abs(differenceUSD) < 0.01;
-
-    // SYP Check
-    const systemReserveSYP = balances[INTERNAL_ACCOUNTS.SYSTEM_RESERVE]?.SYP || 0;
-    const totalOtherSYP = Object.entries(balances)
-        .filter(([code]) => code !== INTERNAL_ACCOUNTS.SYSTEM_RESERVE)
-        .reduce((sum, [, bal]) => sum + bal.SYP, 0);
-    const differenceSYP = systemReserveSYP + totalOtherSYP;
-    const isBalancedSYP = Math.abs(differenceSYP) < 0.01;
+    const accounts = await prisma.internalAccount.findMany();
+
+    // Each currency checked on its own, to the minor unit
+    const check = (currency: LedgerCurrency) => {
+        const balanceOf = (acc: typeof accounts[number]) =>
+            Money.of(currency === 'SYP' ? acc.balanceSYP : acc.balance, currency);
+
+        const reserve = accounts.find((acc) => acc.code === INTERNAL_ACCOUNTS.SYSTEM_RESERVE);
+        const systemReserve = reserve ? balanceOf(reserve) : Money.zero(currency);
+        const totalOther = Money.sum(
+            accounts.filter((acc) => acc.code !== INTERNAL_ACCOUNTS.SYSTEM_RESERVE).map(balanceOf),
+            currency
+        );
+        const difference = systemReserve.add(totalOther);
+
+        return {
+            systemReserve: systemReserve.toNumber(),
+            totalOther: totalOther.toNumber(),
+            difference: difference.toNumber(),
+            isBalanced: difference.isZero(),
+        };
+    };
+
+    const USD = check('USD');
+    const SYP = check('SYP');
 
     return {
-        isBalanced: isBalancedUSD && isBalancedSYP,
-        USD: {
-            systemReserve: systemReserveUSD,
-            totalOther: totalOtherUSD,
-            difference: differenceUSD,
-            isBalanced: isBalancedUSD,
-        },
-        SYP: {
-            systemReserve: systemReserveSYP,
-            totalOther: totalOtherSYP,
-            difference: differenceSYP,
-            isBalanced: isBalancedSYP,
-        },
+        isBalanced: USD.isBalanced && SYP.isBalanced,
+        USD,
+        SYP,
     };
 }
 
@@ -0,0 +1,241 @@
+/**
+ * Held Funds - transactions frozen by the risk hook
+ * Bank Basha - Financial Stability Engine
+ *
+ * A held transaction debits the payer as usual, but the money is parked in SUSPENSE
+ * instead of reaching the payee (Transaction status PROCESSING):
+ * - RELEASE: SUSPENSE -> payee (+ fees), Transaction COMPLETED
+ * - CANCEL:  SUSPENSE -> payer (full refund, fees included), Transaction CANCELLED
+ *
+ * The hold itself is posted by the posting engine (postTransaction with a hold).
+ * HeldTransaction keeps the wallets and ledger accounts so release/cancel need no
+ * knowledge of the route that created the hold.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { postTransaction, walletParty, SUSPENSE_PARTY } from '@/lib/financial/posting-engine';
+import { Money, type MoneyInput } from '@/lib/financial/money';
+import { settleHeldPaymentRequest } from '@/lib/transfer/payment-requests';
+
+type PrismaTx = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
+
+/**
+ * The part of a transaction client recording a hold touches (postTransaction passes its own)
+ */
+export interface HoldTx {
+    heldTransaction: { create(args: Prisma.HeldTransactionCreateArgs): Promise<{ id: string }> };
+    riskAlert: { update(args: Prisma.RiskAlertUpdateArgs): Promise<unknown> };
+}
+
+// Shown to the payer instead of the usual success message
+export const HELD_MESSAGE = 'العملية قيد المراجعة الأمنية، سيتم إشعارك عند اعتمادها';
+
+export interface HoldInstruction {
+    riskAlertId?: string;
+    reason: string;
+    reasonAr?: string;
+}
+
+export interface HoldFundsInput extends HoldInstruction {
+    transactionId: string;
+    currency: 'USD' | 'SYP';
+    payerWalletId: string;
+    payerAccountCode: string;
+    payeeWalletId?: string | null;
+    payeeAccountCode: string;
+    payeeAmount: MoneyInput;
+    feeAmount?: MoneyInput;
+}
+
+/**
+ * Record the hold (inside the posting's transaction, after the payer was debited)
+ */
+export async function holdInSuspense(tx: HoldTx, input: HoldFundsInput): Promise<string> {
+    const payeeAmount = Money.of(input.payeeAmount, input.currency);
+    const feeAmount = Money.of(input.feeAmount || 0, input.currency);
+
+    const held = await tx.heldTransaction.create({
+        data: {
+            transactionId: input.transactionId,
+            riskAlertId: input.riskAlertId,
+            reason: input.reason,
+            reasonAr: input.reasonAr,
+            holdAmount: payeeAmount.add(feeAmount).toDecimal(),
+            currency: input.currency,
+            payerWalletId: input.payerWalletId,
+            payerAccountCode: input.payerAccountCode,
+            payeeWalletId: input.payeeWalletId || null,
+            payeeAccountCode: input.payeeAccountCode,
+            payeeAmount: payeeAmount.toDecimal(),
+            feeAmount: feeAmount.toDecimal(),
+            status: 'HELD',
+        },
+    });
+
+    if (input.riskAlertId) {
+        await tx.riskAlert.update({
+            where: { id: input.riskAlertId },
+            data: { transactionId: input.transactionId },
+        });
+    }
+
+    return held.id;
+}
+
+/**
+ * Tell the payer their transaction is waiting for review
+ */
+export async function notifyTransactionHeld(userId: string, transactionId: string, referenceNumber: string) {
+    await prisma.notification.create({
+        data: {
+            userId,
+            type: 'TRANSACTION',
+            title: 'Transaction Under Review',
+            titleAr: 'العملية قيد المراجعة',
+            message: `Transaction ${referenceNumber} is under security review. We will notify you once it is processed.`,
+            messageAr: `العملية ${referenceNumber} قيد المراجعة الأمنية وسيتم إشعارك عند معالجتها`,
+            metadata: JSON.stringify({ transactionId }),
+        },
+    });
+}
+
+/**
+ * Claim a HELD row for an admin decision - throws HELD_NOT_AVAILABLE if someone else got to it first
+ */
+async function claimHeld(tx: PrismaTx, heldId: string, status: 'RELEASED' | 'CANCELLED', adminId: string, notes?: string) {
+    const claimed = await tx.heldTransaction.updateMany({
+        where: { id: heldId, status: 'HELD' },
+        data: { status, releasedBy: adminId, releasedAt: new Date(), releaseNotes: notes },
+    });
+
+    if (claimed.count === 0) {
+        throw new Error('HELD_NOT_AVAILABLE');
+    }
+
+    const held = await tx.heldTransaction.findUniqueOrThrow({ where: { id: heldId } });
+    const transaction = await tx.transaction.findUniqueOrThrow({ where: { id: held.transactionId } });
+    return { held, transaction };
+}
+
+/**
+ * Release a held transaction to its payee
+ */
+export async function releaseHeldFunds(heldId: string, adminId: string, notes?: string) {
+    const { held, transaction } = await prisma.$transaction(async (tx) => {
+        const claimed = await claimHeld(tx, heldId, 'RELEASED', adminId, notes);
+        const { held } = claimed;
+        const currency = held.currency as 'USD' | 'SYP';
+
+        // Holds created before funds were parked only need the status change
+        if (held.payerAccountCode && held.payeeWalletId) {
+            await postTransaction(tx, {
+                type: claimed.transaction.type === 'QR_PAYMENT' ? 'QR_PAYMENT' : 'TRANSFER',
+                currency,
+                referenceNumber: claimed.transaction.referenceNumber,
+                description: `Held release: ${claimed.transaction.referenceNumber}`,
+                descriptionAr: `إفراج عن عملية معلقة: ${claimed.transaction.referenceNumber}`,
+                createdBy: adminId,
+                payer: SUSPENSE_PARTY,
+                payee: walletParty(held.payeeWalletId),
+                gross: held.holdAmount,
+                fee: held.feeAmount,
+            });
+        }
+
+        // Merchant sales only count once the payment actually reaches the merchant
+        if (claimed.transaction.type === 'QR_PAYMENT' && claimed.transaction.receiverId) {
+            await tx.merchantProfile.update({
+                where: { userId: claimed.transaction.receiverId },
+                data: currency === 'SYP'
+                    ? { totalSalesSYP: { increment: held.payeeAmount }, totalTransactionsSYP: { increment: 1 } }
+                    : { totalSales: { increment: held.payeeAmount }, totalTransactions: { increment: 1 } },
+            });
+        }
+
+        await tx.transaction.update({
+            where: { id: held.transactionId },
+            data: { status: 'COMPLETED', completedAt: new Date() },
+        });
+
+        return claimed;
+    });
+
+    const notifications = [];
+    if (transaction.senderId) {
+        notifications.push({
+            userId: transaction.senderId,
+            type: 'TRANSACTION',
+            title: 'Transaction Approved',
+            titleAr: 'تمت الموافقة على العملية',
+            message: `Transaction ${transaction.referenceNumber} was approved and completed`,
+            messageAr: `تمت الموافقة على العملية ${transaction.referenceNumber} وإتمامها`,
+            metadata: JSON.stringify({ transactionId: transaction.id }),
+        });
+    }
+    if (transaction.receiverId && transaction.receiverId !== transaction.senderId) {
+        notifications.push({
+            userId: transaction.receiverId,
+            type: 'TRANSACTION',
+            title: 'Transfer Received',
+            titleAr: 'تم استلام تحويل',
+            message: `You received ${held.payeeAmount} ${held.currency}`,
+            messageAr: `استلمت ${held.payeeAmount} ${held.currency === 'SYP' ? 'ل.س' : '$'}`,
+            metadata: JSON.stringify({ transactionId: transaction.id }),
+        });
+    }
+    await prisma.notification.createMany({ data: notifications });
+
+    await settleHeldPaymentRequest(transaction.id, true);
+
+    return held;
+}
+
+/**
+ * Cancel a held transaction and refund the payer in full
+ */
+export async function cancelHeldFunds(heldId: string, adminId: string, notes?: string) {
+    const { held, transaction } = await prisma.$transaction(async (tx) => {
+        const claimed = await claimHeld(tx, heldId, 'CANCELLED', adminId, notes);
+        const { held } = claimed;
+
+        if (held.payerAccountCode && held.payerWalletId) {
+            await postTransaction(tx, {
+                type: 'REFUND',
+                currency: held.currency as 'USD' | 'SYP',
+                referenceNumber: claimed.transaction.referenceNumber,
+                description: `Held refund: ${claimed.transaction.referenceNumber}`,
+                descriptionAr: `استرداد عملية معلقة: ${claimed.transaction.referenceNumber}`,
+                createdBy: adminId,
+                payer: SUSPENSE_PARTY,
+                payee: walletParty(held.payerWalletId),
+                gross: held.holdAmount,
+            });
+        }
+
+        await tx.transaction.update({
+            where: { id: held.transactionId },
+            data: { status: 'CANCELLED' },
+        });
+
+        return claimed;
+    });
+
+    if (transaction.senderId) {
+        await prisma.notification.create({
+            data: {
+                userId: transaction.senderId,
+                type: 'TRANSACTION',
+                title: 'Transaction Cancelled',
+                titleAr: 'تم إلغاء العملية',
+                message: `Transaction ${transaction.referenceNumber} was cancelled after review and refunded`,
+                messageAr: `تم إلغاء العملية ${transaction.referenceNumber} بعد المراجعة وإعادة المبلغ إلى محفظتك`,
+                metadata: JSON.stringify({ transactionId: transaction.id }),
+            },
+        });
+    }
+
+    await settleHeldPaymentRequest(transaction.id, false);
+
+    return held;
+}
@@ -0,0 +1,237 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Prisma } from '@prisma/client';
+
+interface StoredLine {
+    debit: Prisma.Decimal;
+    credit: Prisma.Decimal;
+    currency: string | null;
+    account: { code: string };
+}
+
+interface StoredEntry {
+    id: string;
+    sequence: number | null;
+    entryNumber: string;
+    description: string;
+    descriptionAr: string | null;
+    totalDebit: Prisma.Decimal;
+    totalCredit: Prisma.Decimal;
+    currency: string | null;
+    createdBy: string | null;
+    createdAt: Date;
+    previousHash: string;
+    hash: string;
+    lines: StoredLine[];
+}
+
+// core-ledger creates its own client at import - it is never queried here
+vi.mock('@prisma/client', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@prisma/client')>()),
+    PrismaClient: class { },
+}));
+
+// In-memory LedgerEntry table - only the filters the verifier uses
+const { entries } = vi.hoisted(() => ({ entries: [] as StoredEntry[] }));
+
+vi.mock('@/lib/db/prisma', () => {
+    type Where = {
+        sequence?: null | number | { gt: number };
+        hash?: string;
+        createdAt?: { lte?: Date; gt?: Date };
+    };
+
+    const matches = (entry: StoredEntry, where: Where = {}) => {
+        if (where.sequence === null && entry.sequence !== null) return false;
+        if (typeof where.sequence === 'number' && entry.sequence !== where.sequence) return false;
+        if (where.sequence && typeof where.sequence === 'object'
+            && (entry.sequence === null || entry.sequence <= where.sequence.gt)) return false;
+        if (where.hash !== undefined && entry.hash !== where.hash) return false;
+        if (where.createdAt?.lte && entry.createdAt > where.createdAt.lte) return false;
+        if (where.createdAt?.gt && entry.createdAt <= where.createdAt.gt) return false;
+        return true;
+    };
+
+    const ordered = (args: { where?: Where; orderBy?: { sequence?: 'asc'; createdAt?: 'asc' | 'desc' } }) => {
+        const found = entries.filter((entry) => matches(entry, args.where));
+        if (args.orderBy?.sequence) {
+            found.sort((a, b) => (a.sequence as number) - (b.sequence as number));
+        } else if (args.orderBy?.createdAt) {
+            const direction = args.orderBy.createdAt === 'asc' ? 1 : -1;
+            found.sort((a, b) => direction * (a.createdAt.getTime() - b.createdAt.getTime()));
+        }
+        return found;
+    };
+
+    return {
+        prisma: {
+            ledgerEntry: {
+                count: async (args: { where?: Where }) => entries.filter((entry) => matches(entry, args.where)).length,
+                findMany: async (args: { where?: Where; orderBy?: { sequence: 'asc' }; take: number }) =>
+                    ordered(args).slice(0, args.take),
+                findFirst: async (args: { where?: Where; orderBy?: { createdAt: 'asc' | 'desc' } }) =>
+                    ordered(args)[0] ?? null,
+            },
+        },
+    };
+});
+
+import { computeEntryHash, type HashableLedgerEntry } from '@/lib/financial/core-ledger';
+import { verifyLedgerChain } from '@/lib/financial/ledger-integrity';
+
+function hashable(entry: StoredEntry): HashableLedgerEntry {
+    return {
+        sequence: entry.sequence as number,
+        entryNumber: entry.entryNumber,
+        description: entry.description,
+        descriptionAr: entry.descriptionAr,
+        totalDebit: entry.totalDebit.toNumber(),
+        totalCredit: entry.totalCredit.toNumber(),
+        currency: entry.currency,
+        createdBy: entry.createdBy,
+        createdAt: entry.createdAt,
+        previousHash: entry.previousHash,
+        lines: entry.lines.map((line) => ({
+            accountCode: line.account.code,
+            debit: line.debit.toNumber(),
+            credit: line.credit.toNumber(),
+            currency: line.currency,
+        })),
+    };
+}
+
+/**
+ * Append a correctly chained entry moving `amount` from SYS-RESERVE to USR-LEDGER
+ */
+function append(amount: string): StoredEntry {
+    const sequence = entries.length + 1;
+    const entry: StoredEntry = {
+        id: `entry-${sequence}`,
+        sequence,
+        entryNumber: `LE-${sequence}`,
+        description: `Deposit ${sequence}`,
+        descriptionAr: null,
+        totalDebit: new Prisma.Decimal(amount),
+        totalCredit: new Prisma.Decimal(amount),
+        currency: 'USD',
+        createdBy: 'admin-1',
+        createdAt: new Date(Date.UTC(2026, 0, 1, 0, sequence)),
+        previousHash: entries.length ? entries[entries.length - 1].hash : 'GENESIS',
+        hash: '',
+        lines: [
+            { debit: new Prisma.Decimal(amount), credit: new Prisma.Decimal(0), currency: 'USD', account: { code: 'SYS-RESERVE' } },
+            { debit: new Prisma.Decimal(0), credit: new Prisma.Decimal(amount), currency: 'USD', account: { code: 'USR-LEDGER' } },
+        ],
+    };
+    entry.hash = computeEntryHash(hashable(entry));
+    entries.push(entry);
+    return entry;
+}
+
+beforeEach(() => {
+    entries.length = 0;
+});
+
+describe('computeEntryHash', () => {
+    it('is reproducible and independent of line order', () => {
+        const entry = append('100.00');
+        const reversed = { ...hashable(entry), lines: [...hashable(entry).lines].reverse() };
+
+        expect(computeEntryHash(hashable(entry))).toBe(entry.hash);
+        expect(computeEntryHash(reversed)).toBe(entry.hash);
+        expect(entry.hash).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('changes when any stored field changes', () => {
+        const base = hashable(append('100.00'));
+
+        expect(computeEntryHash({ ...base, totalDebit: 100.01 })).not.toBe(computeEntryHash(base));
+        expect(computeEntryHash({ ...base, previousHash: 'other' })).not.toBe(computeEntryHash(base));
+        expect(computeEntryHash({ ...base, createdAt: new Date(base.createdAt.getTime() + 1) })).not.toBe(computeEntryHash(base));
+        expect(computeEntryHash({
+            ...base,
+            lines: base.lines.map((line) => ({ ...line, currency: 'SYP' })),
+        })).not.toBe(computeEntryHash(base));
+    });
+
+    it('leaves currencies out of v1 hashes', () => {
+        const base = hashable(append('100.00'));
+        const inSYP = { ...base, currency: 'SYP', lines: base.lines.map((line) => ({ ...line, currency: 'SYP' })) };
+
+        expect(computeEntryHash(inSYP, 'v1')).toBe(computeEntryHash(base, 'v1'));
+        expect(computeEntryHash(base, 'v1')).not.toBe(computeEntryHash(base, 'v2'));
+    });
+});
+
+describe('verifyLedgerChain', () => {
+    it('accepts an intact chain', async () => {
+        append('100.00');
+        append('25.50');
+        const head = append('0.01');
+
+        const result = await verifyLedgerChain();
+
+        expect(result.valid).toBe(true);
+        expect(result.checkedEntries).toBe(3);
+        expect(result.headSequence).toBe(3);
+        expect(result.headHash).toBe(head.hash);
+        expect(result.firstBreak).toBeNull();
+    });
+
+    it('accepts entries hashed with v1', async () => {
+        const entry = append('100.00');
+        entry.hash = computeEntryHash(hashable(entry), 'v1');
+
+        expect((await verifyLedgerChain()).valid).toBe(true);
+    });
+
+    it('reports an edited amount as HASH_MISMATCH', async () => {
+        append('100.00');
+        const tampered = append('25.50');
+        append('10.00');
+        tampered.lines[1].credit = new Prisma.Decimal('2550.00');
+
+        const result = await verifyLedgerChain();
+
+        expect(result.valid).toBe(false);
+        expect(result.checkedEntries).toBe(1);
+        expect(result.firstBreak).toMatchObject({ reason: 'HASH_MISMATCH', entryId: tampered.id, sequence: 2 });
+    });
+
+    it('reports a deleted entry as SEQUENCE_GAP', async () => {
+        append('100.00');
+        append('25.50');
+        const after = append('10.00');
+        entries.splice(1, 1);
+
+        const result = await verifyLedgerChain();
+
+        expect(result.firstBreak).toMatchObject({ reason: 'SEQUENCE_GAP', entryId: after.id, expected: 2, actual: 3 });
+    });
+
+    it('tells a fork from a dangling link', async () => {
+        const root = append('100.00');
+        append('25.50');
+        const forked = append('10.00');
+        forked.previousHash = root.hash;
+        forked.hash = computeEntryHash(hashable(forked));
+
+        expect((await verifyLedgerChain()).firstBreak).toMatchObject({ reason: 'FORK', entryId: forked.id });
+
+        forked.previousHash = 'f'.repeat(64);
+        forked.hash = computeEntryHash(hashable(forked));
+
+        expect((await verifyLedgerChain()).firstBreak).toMatchObject({ reason: 'PREVIOUS_HASH_MISMATCH', entryId: forked.id });
+    });
+
+    it('reports unsequenced entries written after chaining began', async () => {
+        append('100.00');
+        const unchained = append('25.50');
+        unchained.sequence = null;
+
+        const result = await verifyLedgerChain();
+
+        expect(result.checkedEntries).toBe(1);
+        expect(result.legacyEntries).toBe(1);
+        expect(result.firstBreak).toMatchObject({ reason: 'UNCHAINED_ENTRY', entryId: unchained.id });
+    });
+});
@@ -0,0 +1,185 @@
+/**
+ * Ledger Hash Chain Verification
+ * Bank Basha - Financial Stability Engine
+ *
+ * Walks LedgerEntry in sequence order and checks every link:
+ * - sequence is contiguous from 1 (a gap means an entry was deleted)
+ * - previousHash equals the hash of the entry before it (otherwise FORK if it points
+ *   at another entry, PREVIOUS_HASH_MISMATCH if it points at nothing)
+ * - the stored hash matches computeEntryHash over the stored fields and lines
+ *   (current format first, then v1 for entries written before currencies were stored)
+ * Entries written after chaining started but without a sequence bypassed the chain lock.
+ *
+ * Entries from before sequencing (sequence null) used a non-reproducible hash and are
+ * only counted. Run with `npm run ledger:verify` or GET /api/admin/ledger/verify.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { computeEntryHash, type HashableLedgerEntry } from '@/lib/financial/core-ledger';
+
+const BATCH_SIZE = 500;
+
+export type ChainBreakReason =
+    | 'SEQUENCE_GAP'
+    | 'PREVIOUS_HASH_MISMATCH'
+    | 'FORK'
+    | 'HASH_MISMATCH'
+    | 'UNCHAINED_ENTRY';
+
+export interface ChainBreak {
+    reason: ChainBreakReason;
+    entryId: string;
+    entryNumber: string;
+    sequence: number | null;
+    expected?: string | number | null;
+    actual?: string | number | null;
+}
+
+export interface ChainVerificationResult {
+    valid: boolean;
+    checkedEntries: number;
+    legacyEntries: number;
+    headSequence: number | null;
+    headHash: string | null;
+    firstBreak: ChainBreak | null;
+    verifiedAt: Date;
+}
+
+/**
+ * Verify the whole chain - stops at the first broken or forked link
+ */
+export async function verifyLedgerChain(): Promise<ChainVerificationResult> {
+    const verifiedAt = new Date();
+    const legacyEntries = await prisma.ledgerEntry.count({ where: { sequence: null } });
+
+    let checkedEntries = 0;
+    let previous: { sequence: number; hash: string } | null = null;
+    let firstBreak: ChainBreak | null = null;
+
+    const result = (): ChainVerificationResult => ({
+        valid: firstBreak === null,
+        checkedEntries,
+        legacyEntries,
+        headSequence: previous?.sequence ?? null,
+        headHash: previous?.hash ?? null,
+        firstBreak,
+        verifiedAt,
+    });
+
+    let cursor = 0;
+
+    while (!firstBreak) {
+        const batch = await prisma.ledgerEntry.findMany({
+            where: { sequence: { gt: cursor } },
+            orderBy: { sequence: 'asc' },
+            take: BATCH_SIZE,
+            include: { lines: { include: { account: { select: { code: true } } } } },
+        });
+
+        if (batch.length === 0) break;
+        cursor = batch[batch.length - 1].sequence as number;
+
+        for (const entry of batch) {
+            const sequence = entry.sequence as number;
+            const expectedSequence: number = previous ? previous.sequence + 1 : 1;
+
+            if (sequence !== expectedSequence) {
+                firstBreak = {
+                    reason: 'SEQUENCE_GAP',
+                    entryId: entry.id,
+                    entryNumber: entry.entryNumber,
+                    sequence,
+                    expected: expectedSequence,
+                    actual: sequence,
+                };
+                break;
+            }
+
+            // The first sequenced entry links to the newest entry written before chaining began
+            const expectedPrevious = previous
+                ? previous.hash
+                : (await prisma.ledgerEntry.findFirst({
+                    where: { sequence: null, createdAt: { lte: entry.createdAt } },
+                    orderBy: { createdAt: 'desc' },
+                    select: { hash: true },
+                }))?.hash || 'GENESIS';
+
+            if (entry.previousHash !== expectedPrevious) {
+                const parent = entry.previousHash
+                    ? await prisma.ledgerEntry.findFirst({ where: { hash: entry.previousHash }, select: { id: true } })
+                    : null;
+                firstBreak = {
+                    reason: parent ? 'FORK' : 'PREVIOUS_HASH_MISMATCH',
+                    entryId: entry.id,
+                    entryNumber: entry.entryNumber,
+                    sequence,
+                    expected: expectedPrevious,
+                    actual: entry.previousHash,
+                };
+                break;
+            }
+
+            const hashable: HashableLedgerEntry = {
+                sequence,
+                entryNumber: entry.entryNumber,
+                description: entry.description,
+                descriptionAr: entry.descriptionAr,
+                totalDebit: entry.totalDebit.toNumber(),
+                totalCredit: entry.totalCredit.toNumber(),
+                currency: entry.currency,
+                createdBy: entry.createdBy,
+                createdAt: entry.createdAt,
+                previousHash: entry.previousHash,
+                lines: entry.lines.map((line) => ({
+                    accountCode: line.account.code,
+                    debit: line.debit.toNumber(),
+                    credit: line.credit.toNumber(),
+                    currency: line.currency,
+                })),
+            };
+            const recomputed = computeEntryHash(hashable);
+
+            if (entry.hash !== recomputed && entry.hash !== computeEntryHash(hashable, 'v1')) {
+                firstBreak = {
+                    reason: 'HASH_MISMATCH',
+                    entryId: entry.id,
+                    entryNumber: entry.entryNumber,
+                    sequence,
+                    expected: recomputed,
+                    actual: entry.hash,
+                };
+                break;
+            }
+
+            checkedEntries++;
+            previous = { sequence, hash: entry.hash as string };
+        }
+    }
+
+    if (firstBreak) {
+        return result();
+    }
+
+    // Anything unsequenced written after chaining started skipped the chain lock
+    const firstSequenced = await prisma.ledgerEntry.findFirst({
+        where: { sequence: 1 },
+        select: { createdAt: true },
+    });
+    if (firstSequenced) {
+        const unchained = await prisma.ledgerEntry.findFirst({
+            where: { sequence: null, createdAt: { gt: firstSequenced.createdAt } },
+            orderBy: { createdAt: 'asc' },
+        });
+        if (unchained) {
+            firstBreak = {
+                reason: 'UNCHAINED_ENTRY',
+                entryId: unchained.id,
+                entryNumber: unchained.entryNumber,
+                sequence: null,
+                actual: unchained.previousHash,
+            };
+        }
+    }
+
+    return result();
+}
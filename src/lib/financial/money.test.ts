@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { Prisma } from '@prisma/client';
+import { Money, fitsMinorUnits, sumAmounts, toAmount } from '@/lib/financial/money';
+
+describe('Money.of', () => {
+    it('holds major-unit amounts as exact minor units', () => {
+        expect(Money.of(10.5, 'USD').minor).toBe(BigInt(1050));
+        expect(Money.of('0.1', 'USD').add(Money.of('0.2', 'USD')).toString()).toBe('0.30');
+        expect(Money.of(new Prisma.Decimal('1234567890.12'), 'SYP').minor).toBe(BigInt(123456789012));
+    });
+
+    it('rounds sub-minor digits with the requested mode', () => {
+        expect(Money.of('1.005', 'USD').toString()).toBe('1.01');
+        expect(Money.of('1.005', 'USD', 'HALF_EVEN').toString()).toBe('1.00');
+        expect(Money.of('1.015', 'USD', 'HALF_EVEN').toString()).toBe('1.02');
+        expect(Money.of('1.009', 'USD', 'DOWN').toString()).toBe('1.00');
+        expect(Money.of('1.001', 'USD', 'UP').toString()).toBe('1.01');
+        expect(Money.of('-1.005', 'USD').toString()).toBe('-1.01');
+    });
+});
+
+describe('Money arithmetic', () => {
+    it('adds, subtracts and sums without float drift', () => {
+        const cents = Array.from({ length: 10 }, () => Money.of(0.1, 'USD'));
+        expect(Money.sum(cents, 'USD').equals(Money.of(1, 'USD'))).toBe(true);
+        expect(Money.of(5, 'USD').subtract(Money.of(7.25, 'USD')).toNumber()).toBe(-2.25);
+        expect(Money.sum([], 'SYP').isZero()).toBe(true);
+    });
+
+    it('refuses to mix currencies', () => {
+        expect(() => Money.of(1, 'USD').add(Money.of(1, 'SYP'))).toThrow('Currency mismatch');
+        expect(() => Money.of(1, 'USD').compare(Money.of(1, 'SYP'))).toThrow('Currency mismatch');
+    });
+
+    it('rounds percentages to whole minor units', () => {
+        const amount = Money.of(33.33, 'USD');
+        expect(amount.percent(1.5, 'HALF_UP').toString()).toBe('0.50');
+        expect(amount.percent(1.5, 'DOWN').toString()).toBe('0.49');
+        expect(Money.of(100, 'USD').percent(0, 'HALF_UP').isZero()).toBe(true);
+    });
+
+    it('converts between currencies at a rate', () => {
+        expect(Money.of(10, 'USD').convert(13000, 'SYP', 'DOWN').toString()).toBe('130000.00');
+        expect(Money.of(1, 'SYP').convert('0.0000769', 'USD', 'DOWN').toString()).toBe('0.00');
+        expect(Money.of(1, 'SYP').convert('0.0000769', 'USD', 'UP').toString()).toBe('0.01');
+    });
+
+    it('quantizes below the currency scale', () => {
+        expect(Money.of('1500.49', 'SYP').quantize(0, 'DOWN').toString()).toBe('1500.00');
+        expect(Money.of('1500.50', 'SYP').quantize(0, 'HALF_UP').toString()).toBe('1501.00');
+    });
+
+    it('compares by value', () => {
+        const small = Money.of(1, 'USD');
+        const large = Money.of(1.01, 'USD');
+        expect(small.compare(large)).toBe(-1);
+        expect(large.greaterThan(small)).toBe(true);
+        expect(small.lessThan(large)).toBe(true);
+        expect(small.negate().isNegative()).toBe(true);
+        expect(large.isPositive()).toBe(true);
+    });
+});
+
+describe('Money output', () => {
+    it('writes back to Decimal columns and JSON', () => {
+        const amount = Money.fromMinor(123456, 'USD');
+        expect(amount.toDecimal().equals(new Prisma.Decimal('1234.56'))).toBe(true);
+        expect(amount.toNumber()).toBe(1234.56);
+        expect(JSON.stringify({ amount })).toBe('{"amount":1234.56}');
+    });
+});
+
+describe('fitsMinorUnits', () => {
+    it('accepts amounts with at most the currency scale', () => {
+        expect(fitsMinorUnits(10)).toBe(true);
+        expect(fitsMinorUnits(10.05)).toBe(true);
+        expect(fitsMinorUnits('10.50', 'SYP')).toBe(true);
+    });
+
+    it('rejects sub-minor amounts and garbage', () => {
+        expect(fitsMinorUnits(10.005)).toBe(false);
+        expect(fitsMinorUnits('0.001', 'USD')).toBe(false);
+        expect(fitsMinorUnits('abc')).toBe(false);
+    });
+});
+
+describe('report helpers', () => {
+    it('reads Decimal columns and totals them exactly', () => {
+        expect(toAmount(null)).toBe(0);
+        expect(toAmount(new Prisma.Decimal('12.34'))).toBe(12.34);
+        expect(sumAmounts([new Prisma.Decimal('0.1'), 0.2, null, undefined])).toBe(0.3);
+    });
+});
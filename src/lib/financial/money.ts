@@ -0,0 +1,214 @@
+/**
+ * Money - integer minor-unit amounts
+ * Bank Basha - Financial Stability Engine
+ *
+ * Every amount that moves a balance goes through Money: the value is held as a bigint count
+ * of minor units (cents, piastres), so sums and balance checks are exact and need no tolerance.
+ * Anything that can produce a fraction of a minor unit (percentages, exchange rates) takes an
+ * explicit rounding mode.
+ *
+ * Columns on the ledger and wallet paths are Prisma Decimal(20, 2); Money.of reads them (and
+ * plain numbers from request bodies) and toDecimal writes them back.
+ */
+
+import { Prisma } from '@prisma/client';
+
+export type MoneyCurrency = 'USD' | 'SYP';
+
+/**
+ * Minor units per currency (ISO 4217) - SYP is still shown without decimals (CURRENCY_INFO)
+ */
+export const CURRENCY_SCALE: Record<MoneyCurrency, number> = {
+    USD: 2,
+    SYP: 2,
+};
+
+export type RoundingMode =
+    | 'HALF_UP'    // Half away from zero - fees
+    | 'HALF_EVEN'  // Banker's rounding
+    | 'DOWN'       // Towards zero - what we pay out never exceeds the exact value
+    | 'UP';        // Away from zero
+
+export type MoneyInput = number | string | Prisma.Decimal;
+
+const DECIMAL_ROUNDING: Record<RoundingMode, Prisma.Decimal.Rounding> = {
+    HALF_UP: Prisma.Decimal.ROUND_HALF_UP,
+    HALF_EVEN: Prisma.Decimal.ROUND_HALF_EVEN,
+    DOWN: Prisma.Decimal.ROUND_DOWN,
+    UP: Prisma.Decimal.ROUND_UP,
+};
+
+const ZERO = BigInt(0);
+
+function scaleFactor(currency: MoneyCurrency): Prisma.Decimal {
+    return new Prisma.Decimal(10).pow(CURRENCY_SCALE[currency]);
+}
+
+export class Money {
+    private constructor(
+        readonly minor: bigint,
+        readonly currency: MoneyCurrency
+    ) { }
+
+    /**
+     * From a major-unit amount (10.5 = $10.50); sub-minor digits are rounded with `rounding`
+     */
+    static of(amount: MoneyInput, currency: MoneyCurrency, rounding: RoundingMode = 'HALF_UP'): Money {
+        const minor = new Prisma.Decimal(amount)
+            .mul(scaleFactor(currency))
+            .toDecimalPlaces(0, DECIMAL_ROUNDING[rounding]);
+        return new Money(BigInt(minor.toFixed(0)), currency);
+    }
+
+    static fromMinor(minor: bigint | number, currency: MoneyCurrency): Money {
+        return new Money(BigInt(minor), currency);
+    }
+
+    static zero(currency: MoneyCurrency): Money {
+        return new Money(ZERO, currency);
+    }
+
+    static sum(values: Money[], currency: MoneyCurrency): Money {
+        return values.reduce((total, value) => total.add(value), Money.zero(currency));
+    }
+
+    add(other: Money): Money {
+        this.assertSameCurrency(other);
+        return new Money(this.minor + other.minor, this.currency);
+    }
+
+    subtract(other: Money): Money {
+        this.assertSameCurrency(other);
+        return new Money(this.minor - other.minor, this.currency);
+    }
+
+    negate(): Money {
+        return new Money(-this.minor, this.currency);
+    }
+
+    /**
+     * Multiply by a rate or ratio - the result is rounded to whole minor units
+     */
+    multiply(factor: MoneyInput, rounding: RoundingMode): Money {
+        const minor = new Prisma.Decimal(this.minor.toString())
+            .mul(factor)
+            .toDecimalPlaces(0, DECIMAL_ROUNDING[rounding]);
+        return new Money(BigInt(minor.toFixed(0)), this.currency);
+    }
+
+    /**
+     * `percent` of this amount (1.5 = 1.5%)
+     */
+    percent(percent: MoneyInput, rounding: RoundingMode): Money {
+        return this.multiply(new Prisma.Decimal(percent).div(100), rounding);
+    }
+
+    /**
+     * Convert into another currency at `rate` (to units per from unit)
+     */
+    convert(rate: MoneyInput, currency: MoneyCurrency, rounding: RoundingMode): Money {
+        const minor = new Prisma.Decimal(this.toDecimal())
+            .mul(rate)
+            .mul(scaleFactor(currency))
+            .toDecimalPlaces(0, DECIMAL_ROUNDING[rounding]);
+        return new Money(BigInt(minor.toFixed(0)), currency);
+    }
+
+    /**
+     * Round to fewer decimals than the currency scale (e.g. whole SYP for payouts)
+     */
+    quantize(decimals: number, rounding: RoundingMode): Money {
+        return Money.of(this.toDecimal().toDecimalPlaces(decimals, DECIMAL_ROUNDING[rounding]), this.currency);
+    }
+
+    compare(other: Money): -1 | 0 | 1 {
+        this.assertSameCurrency(other);
+        if (this.minor === other.minor) return 0;
+        return this.minor > other.minor ? 1 : -1;
+    }
+
+    equals(other: Money): boolean {
+        return this.compare(other) === 0;
+    }
+
+    greaterThan(other: Money): boolean {
+        return this.compare(other) > 0;
+    }
+
+    lessThan(other: Money): boolean {
+        return this.compare(other) < 0;
+    }
+
+    isZero(): boolean {
+        return this.minor === ZERO;
+    }
+
+    isNegative(): boolean {
+        return this.minor < ZERO;
+    }
+
+    isPositive(): boolean {
+        return this.minor > ZERO;
+    }
+
+    /**
+     * Exact value for Decimal columns and Prisma increments
+     */
+    toDecimal(): Prisma.Decimal {
+        return new Prisma.Decimal(this.minor.toString()).div(scaleFactor(this.currency));
+    }
+
+    /**
+     * Major units as a JS number - for API responses, messages and Float reporting columns
+     */
+    toNumber(): number {
+        return this.toDecimal().toNumber();
+    }
+
+    toString(): string {
+        return this.toDecimal().toFixed(CURRENCY_SCALE[this.currency]);
+    }
+
+    toJSON(): number {
+        return this.toNumber();
+    }
+
+    private assertSameCurrency(other: Money) {
+        if (other.currency !== this.currency) {
+            throw new Error(`Currency mismatch: ${this.currency} / ${other.currency}`);
+        }
+    }
+}
+
+// Without a currency an amount must fit every currency
+const MIN_CURRENCY_SCALE = Math.min(...Object.values(CURRENCY_SCALE));
+
+/**
+ * True when the amount has no digits below the currency's minor unit (10.05 fits, 10.005 does not)
+ * - used to reject such amounts at the API instead of rounding them silently
+ */
+export function fitsMinorUnits(amount: MoneyInput, currency?: MoneyCurrency): boolean {
+    const scale = currency ? CURRENCY_SCALE[currency] : MIN_CURRENCY_SCALE;
+    try {
+        return new Prisma.Decimal(amount).decimalPlaces() <= scale;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * A Decimal column (or a legacy Float) as a JS number - for reports and totals that are only displayed
+ */
+export function toAmount(value: MoneyInput | null | undefined): number {
+    if (value === null || value === undefined) return 0;
+    return typeof value === 'number' ? value : new Prisma.Decimal(value).toNumber();
+}
+
+/**
+ * Exact total of Decimal columns as a JS number - for report totals
+ */
+export function sumAmounts(values: (MoneyInput | null | undefined)[]): number {
+    return values
+        .reduce<Prisma.Decimal>((sum, value) => sum.add(value ?? 0), new Prisma.Decimal(0))
+        .toNumber();
+}
@@ -0,0 +1,320 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Prisma } from '@prisma/client';
+
+vi.mock('@prisma/client', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@prisma/client')>()),
+    PrismaClient: class { },
+}));
+vi.mock('@/lib/db/prisma', () => ({ prisma: {} }));
+vi.mock('@/lib/financial/held-funds', () => ({
+    holdInSuspense: vi.fn(async () => 'held-1'),
+}));
+
+import { postTransaction, walletParty, agentParty, accountParty, RESERVE_PARTY, type PostingInput, type PostingTx } from '@/lib/financial/posting-engine';
+import { INTERNAL_ACCOUNTS } from '@/lib/financial/core-ledger';
+import { holdInSuspense } from '@/lib/financial/held-funds';
+import { CENTRAL_BANK_CODE } from '@/lib/accounting/central-bank';
+
+type DecimalUpdate = { increment?: Prisma.Decimal; decrement?: Prisma.Decimal };
+
+interface FakeWallet {
+    id: string;
+    currency: string;
+    walletType: 'PERSONAL' | 'BUSINESS';
+    balance: Prisma.Decimal;
+    phone: string;
+}
+
+interface FakeAccount {
+    id: string;
+    code: string;
+    type: string;
+    balance: Prisma.Decimal;
+}
+
+interface FakeLine {
+    accountCode: string;
+    debit: Prisma.Decimal;
+    credit: Prisma.Decimal;
+    walletId: string | null;
+}
+
+const decimal = (value: Prisma.Decimal.Value) => new Prisma.Decimal(value);
+
+const apply = (value: Prisma.Decimal, update: DecimalUpdate) =>
+    value.add(update.increment ?? 0).sub(update.decrement ?? 0);
+
+/**
+ * In-memory transaction client - just the calls the posting engine and createLedgerEntry make
+ */
+function createFakeTx() {
+    const wallets: FakeWallet[] = [];
+    const agents = new Map<string, { currentCredit: Prisma.Decimal; currentCreditSYP: Prisma.Decimal }>();
+    const accounts = new Map<string, FakeAccount>(Object.values(INTERNAL_ACCOUNTS).map((code) => [
+        code,
+        { id: code, code, type: code === INTERNAL_ACCOUNTS.FEES ? 'REVENUE' : 'LIABILITY', balance: decimal(0) },
+    ]));
+    const entries: Array<{ id: string; sequence: number; hash: string }> = [];
+    const lines: FakeLine[] = [];
+
+    const walletById = (id: string) => wallets.find((wallet) => wallet.id === id);
+
+    const tx: PostingTx = {
+        $executeRaw: async () => 0,
+        wallet: {
+            findUnique: async ({ where }: { where: { id: string } }) => walletById(where.id) ?? null,
+            findFirst: async ({ where }: { where: { user: { phone: string }; currency: string } }) =>
+                wallets.find((wallet) => wallet.phone === where.user.phone && wallet.currency === where.currency) ?? null,
+            updateMany: async ({ where, data }: { where: { id: string; balance: { gte: Prisma.Decimal } }; data: { balance: DecimalUpdate } }) => {
+                const wallet = walletById(where.id);
+                if (!wallet || wallet.balance.lessThan(where.balance.gte)) return { count: 0 };
+                wallet.balance = apply(wallet.balance, data.balance);
+                return { count: 1 };
+            },
+            update: async ({ where, data }: { where: { id: string }; data: { balance: DecimalUpdate } }) => {
+                const wallet = walletById(where.id)!;
+                wallet.balance = apply(wallet.balance, data.balance);
+                return wallet;
+            },
+        },
+        agentProfile: {
+            updateMany: async ({ where, data }: {
+                where: { id: string } & Record<string, { gte: Prisma.Decimal } | string>;
+                data: Record<string, DecimalUpdate>;
+            }) => {
+                const agent = agents.get(where.id);
+                if (!agent) return { count: 0 };
+                const field = 'currentCreditSYP' in data ? 'currentCreditSYP' : 'currentCredit';
+                const minimum = where[field];
+                if (typeof minimum === 'object' && agent[field].lessThan(minimum.gte)) return { count: 0 };
+                agent[field] = apply(agent[field], data[field]);
+                return { count: 1 };
+            },
+        },
+        ledgerEntry: {
+            findFirst: async () => entries[entries.length - 1] ?? null,
+            create: async ({ data }) => {
+                const entry = { id: `entry-${data.sequence}`, sequence: data.sequence!, hash: data.hash! };
+                entries.push(entry);
+                return entry;
+            },
+        },
+        ledgerAccount: {
+            findUnique: async ({ where }: { where: { code: string } }) => accounts.get(where.code) ?? null,
+            update: async ({ where, data }: { where: { id: string }; data: Record<string, DecimalUpdate> }) => {
+                const account = accounts.get(where.id)!;
+                account.balance = apply(account.balance, data.balance ?? data.balanceSYP);
+                return account;
+            },
+        },
+        ledgerEntryLine: {
+            create: async ({ data }) => {
+                lines.push({ accountCode: data.accountId, debit: decimal(String(data.debit ?? 0)), credit: decimal(String(data.credit ?? 0)), walletId: data.walletId ?? null });
+                return data;
+            },
+        },
+        transaction: {
+            update: async () => ({}),
+        },
+        heldTransaction: {
+            create: async () => ({ id: 'held-1' }),
+        },
+        riskAlert: {
+            update: async () => ({}),
+        },
+    };
+
+    return {
+        tx,
+        entries,
+        lines,
+        addWallet(id: string, balance: Prisma.Decimal.Value, options: Partial<FakeWallet> = {}) {
+            const wallet: FakeWallet = { id, currency: 'USD', walletType: 'PERSONAL', balance: decimal(balance), phone: `+963${id}`, ...options };
+            wallets.push(wallet);
+            return wallet;
+        },
+        addAgent(id: string, credit: Prisma.Decimal.Value) {
+            const agent = { currentCredit: decimal(credit), currentCreditSYP: decimal(0) };
+            agents.set(id, agent);
+            return agent;
+        },
+        accountBalance: (code: string) => accounts.get(code)!.balance.toNumber(),
+    };
+}
+
+let ledger: ReturnType<typeof createFakeTx>;
+
+const transfer = (overrides: Partial<PostingInput> = {}): PostingInput => ({
+    type: 'TRANSFER',
+    currency: 'USD',
+    referenceNumber: 'TRF-1',
+    payer: walletParty('alice'),
+    payee: walletParty('bob'),
+    gross: 100,
+    fee: 1.5,
+    ...overrides,
+});
+
+function expectBalancedEntry() {
+    const debit = ledger.lines.reduce((sum, line) => sum.add(line.debit), decimal(0));
+    const credit = ledger.lines.reduce((sum, line) => sum.add(line.credit), decimal(0));
+    expect(debit.equals(credit)).toBe(true);
+}
+
+beforeEach(() => {
+    ledger = createFakeTx();
+    vi.mocked(holdInSuspense).mockClear();
+});
+
+describe('postTransaction', () => {
+    it('debits gross, credits net and keeps the fee', async () => {
+        const alice = ledger.addWallet('alice', 250);
+        const bob = ledger.addWallet('bob', 0, { walletType: 'BUSINESS' });
+
+        const result = await postTransaction(ledger.tx, transfer());
+
+        expect(result.netAmount.toNumber()).toBe(98.5);
+        expect(alice.balance.toNumber()).toBe(150);
+        expect(bob.balance.toNumber()).toBe(98.5);
+        expect(ledger.entries).toHaveLength(1);
+        expect(ledger.lines.map((line) => [line.accountCode, line.debit.toNumber(), line.credit.toNumber(), line.walletId])).toEqual([
+            [INTERNAL_ACCOUNTS.USERS_LEDGER, 100, 0, 'alice'],
+            [INTERNAL_ACCOUNTS.MERCHANTS_LEDGER, 0, 98.5, 'bob'],
+            [INTERNAL_ACCOUNTS.FEES, 0, 1.5, null],
+        ]);
+        expectBalancedEntry();
+        expect(ledger.accountBalance(INTERNAL_ACCOUNTS.FEES)).toBe(1.5);
+    });
+
+    it('keeps amounts exact to the minor unit', async () => {
+        const alice = ledger.addWallet('alice', '0.3');
+        const bob = ledger.addWallet('bob', 0);
+
+        await postTransaction(ledger.tx, transfer({ gross: 0.3, fee: 0.1 }));
+
+        expect(alice.balance.isZero()).toBe(true);
+        expect(bob.balance.toString()).toBe('0.2');
+        expectBalancedEntry();
+    });
+
+    it('rejects an overdraft before anyone is credited', async () => {
+        const alice = ledger.addWallet('alice', 99.99);
+        const bob = ledger.addWallet('bob', 0);
+
+        await expect(postTransaction(ledger.tx, transfer())).rejects.toThrow('INSUFFICIENT_BALANCE');
+        expect(alice.balance.toNumber()).toBe(99.99);
+        expect(bob.balance.isZero()).toBe(true);
+        expect(ledger.entries).toHaveLength(0);
+    });
+
+    it('rejects invalid amounts', async () => {
+        ledger.addWallet('alice', 100);
+        ledger.addWallet('bob', 0);
+
+        await expect(postTransaction(ledger.tx, transfer({ gross: 0, fee: 0 }))).rejects.toThrow('Invalid TRANSFER amounts');
+        await expect(postTransaction(ledger.tx, transfer({ gross: 1, fee: 2 }))).rejects.toThrow('Invalid TRANSFER amounts');
+        await expect(postTransaction(ledger.tx, transfer({ fee: -1 }))).rejects.toThrow('Invalid TRANSFER amounts');
+    });
+
+    it('only moves money between the parties its rule allows', async () => {
+        ledger.addWallet('alice', 100);
+        ledger.addAgent('agent-1', 100);
+
+        await expect(postTransaction(ledger.tx, {
+            ...transfer({ fee: 0 }),
+            type: 'CREDIT_GRANT',
+            payee: agentParty('agent-1'),
+        })).rejects.toThrow('CREDIT_GRANT cannot move money from WALLET to AGENT');
+        await expect(postTransaction(ledger.tx, transfer({ payee: agentParty('agent-1') })))
+            .rejects.toThrow('TRANSFER cannot move money from WALLET to AGENT');
+        expect(ledger.entries).toHaveLength(0);
+    });
+
+    it('refuses a wallet in another currency', async () => {
+        ledger.addWallet('alice', 100);
+        ledger.addWallet('bob', 0, { currency: 'SYP' });
+
+        await expect(postTransaction(ledger.tx, transfer())).rejects.toThrow('WALLET_NOT_FOUND');
+    });
+
+    it('checks agent credit on deposits', async () => {
+        const agent = ledger.addAgent('agent-1', 50);
+        const alice = ledger.addWallet('alice', 0);
+
+        await expect(postTransaction(ledger.tx, {
+            ...transfer({ fee: 0 }),
+            type: 'DEPOSIT',
+            payer: agentParty('agent-1'),
+            payee: walletParty('alice'),
+        })).rejects.toThrow('INSUFFICIENT_AGENT_CREDIT');
+
+        await postTransaction(ledger.tx, {
+            ...transfer({ gross: 50, fee: 0 }),
+            type: 'DEPOSIT',
+            payer: agentParty('agent-1'),
+            payee: walletParty('alice'),
+        });
+
+        expect(agent.currentCredit.isZero()).toBe(true);
+        expect(alice.balance.toNumber()).toBe(50);
+        expectBalancedEntry();
+    });
+
+    it('lets the reserve go negative when money is minted', async () => {
+        const centralBank = ledger.addWallet('central-bank', 0, { phone: CENTRAL_BANK_CODE });
+        const agent = ledger.addAgent('agent-1', 0);
+
+        await postTransaction(ledger.tx, {
+            ...transfer({ gross: 1000, fee: 0 }),
+            type: 'CREDIT_GRANT',
+            payer: RESERVE_PARTY,
+            payee: agentParty('agent-1'),
+        });
+
+        expect(centralBank.balance.toNumber()).toBe(-1000);
+        expect(agent.currentCredit.toNumber()).toBe(1000);
+        expect(ledger.lines.map((line) => line.accountCode)).toEqual([INTERNAL_ACCOUNTS.SYSTEM_RESERVE, INTERNAL_ACCOUNTS.AGENTS_LEDGER]);
+        expectBalancedEntry();
+    });
+
+    it('parks a held payment, fee included, in SUSPENSE', async () => {
+        const alice = ledger.addWallet('alice', 100);
+        const bob = ledger.addWallet('bob', 0);
+        const hold = { reason: 'Risk review' };
+
+        const result = await postTransaction(ledger.tx, transfer({ transactionId: 'txn-1', hold }));
+
+        expect(result.heldTransactionId).toBe('held-1');
+        expect(alice.balance.isZero()).toBe(true);
+        expect(bob.balance.isZero()).toBe(true);
+        expect(ledger.accountBalance(INTERNAL_ACCOUNTS.SUSPENSE)).toBe(100);
+        expect(ledger.accountBalance(INTERNAL_ACCOUNTS.FEES)).toBe(0);
+        expectBalancedEntry();
+        expect(holdInSuspense).toHaveBeenCalledWith(ledger.tx, expect.objectContaining({
+            transactionId: 'txn-1',
+            payerWalletId: 'alice',
+            payeeWalletId: 'bob',
+            payeeAmount: new Prisma.Decimal('98.5'),
+            feeAmount: new Prisma.Decimal('1.5'),
+        }));
+    });
+
+    it('only holds wallet-paid transfers and QR payments', async () => {
+        ledger.addWallet('alice', 100);
+        ledger.addWallet('bob', 0);
+        const hold = { reason: 'Risk review' };
+
+        await expect(postTransaction(ledger.tx, transfer({ hold }))).rejects.toThrow('TRANSFER cannot be held');
+        await expect(postTransaction(ledger.tx, transfer({
+            type: 'REFUND',
+            fee: 0,
+            transactionId: 'txn-1',
+            hold,
+        }))).rejects.toThrow('REFUND cannot be held');
+        await expect(postTransaction(ledger.tx, transfer({
+            payer: accountParty(INTERNAL_ACCOUNTS.SUSPENSE),
+            transactionId: 'txn-1',
+            hold,
+        }))).rejects.toThrow('TRANSFER cannot be held');
+    });
+});
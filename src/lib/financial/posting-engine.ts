@@ -0,0 +1,347 @@
+/**
+ * Posting Engine - the single way money moves
+ * Bank Basha - Financial Stability Engine
+ *
+ * Each transaction type has a declarative posting rule: which kinds of party may pay and
+ * receive, and the legs the entry is made of. postTransaction resolves the parties, moves
+ * their operational balances and writes the ledger entry inside the caller's DB transaction,
+ * so a wallet can never change without its ledger line (or the other way round).
+ *
+ * Parties and the ledger account they post to:
+ * - WALLET:  PERSONAL -> USR-LEDGER, BUSINESS -> MRC-LEDGER (wallet balance moves with the leg)
+ * - AGENT:   AGT-LEDGER (agent digital credit moves with the leg)
+ * - RESERVE: SYS-RESERVE (Central Bank wallet moves with the leg and may go negative)
+ * - ACCOUNT: an internal account only, e.g. SUSPENSE or SETTLEMENTS
+ *
+ * Amounts: the payer gives `gross`, the platform keeps `fee`, the payee receives gross - fee,
+ * all exact in minor units (Money).
+ * Reversals (core-ledger createReversalEntry) mirror the stored lines instead of a rule.
+ * Currency exchange (two currencies through FX-POSITION) and external profit withdrawals
+ * (FEES -> SYS-RESERVE, no party) post their lines directly with createLedgerEntry.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { createLedgerEntry, INTERNAL_ACCOUNTS, type LedgerCurrency, type LedgerLine } from '@/lib/financial/core-ledger';
+import { Money, type MoneyInput } from '@/lib/financial/money';
+import { holdInSuspense, type HoldInstruction, type HoldTx } from '@/lib/financial/held-funds';
+import { CENTRAL_BANK_CODE } from '@/lib/accounting/central-bank';
+
+/**
+ * The part of a Prisma transaction client a posting touches: party balances here, the
+ * entry itself in createLedgerEntry and the hold in holdInSuspense
+ */
+export interface PostingTx extends HoldTx {
+    $executeRaw(query: TemplateStringsArray, ...values: unknown[]): Promise<number>;
+    wallet: {
+        findUnique(args: Prisma.WalletFindUniqueArgs): Promise<{ id: string; currency: string; walletType: string } | null>;
+        findFirst(args: Prisma.WalletFindFirstArgs): Promise<{ id: string } | null>;
+        updateMany(args: Prisma.WalletUpdateManyArgs): Promise<{ count: number }>;
+        update(args: Prisma.WalletUpdateArgs): Promise<unknown>;
+    };
+    agentProfile: {
+        updateMany(args: Prisma.AgentProfileUpdateManyArgs): Promise<{ count: number }>;
+    };
+    ledgerEntry: {
+        findFirst(args: Prisma.LedgerEntryFindFirstArgs): Promise<{ sequence: number | null; hash: string | null } | null>;
+        create(args: { data: Prisma.LedgerEntryUncheckedCreateInput }): Promise<{ id: string }>;
+    };
+    ledgerAccount: {
+        findUnique(args: Prisma.LedgerAccountFindUniqueArgs): Promise<{ id: string; type: string } | null>;
+        update(args: Prisma.LedgerAccountUpdateArgs): Promise<unknown>;
+    };
+    ledgerEntryLine: {
+        create(args: { data: Prisma.LedgerEntryLineUncheckedCreateInput }): Promise<unknown>;
+    };
+    transaction: {
+        update(args: Prisma.TransactionUpdateArgs): Promise<unknown>;
+    };
+}
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PostingType =
+    | 'DEPOSIT'
+    | 'WITHDRAW'
+    | 'TRANSFER'
+    | 'QR_PAYMENT'
+    | 'SERVICE_PURCHASE'
+    | 'CREDIT_GRANT'
+    | 'SETTLEMENT'
+    | 'REFUND';
+
+export type PostingParty =
+    | { kind: 'WALLET'; walletId: string }
+    | { kind: 'AGENT'; agentProfileId: string }
+    | { kind: 'RESERVE' }
+    | { kind: 'ACCOUNT'; accountCode: string };
+
+type PartyKind = PostingParty['kind'];
+
+interface PostingLeg {
+    side: 'DEBIT' | 'CREDIT';
+    amount: 'gross' | 'net' | 'fee';
+    party?: 'payer' | 'payee';
+    accountCode?: string;  // Fixed account when the leg belongs to no party
+}
+
+interface PostingRule {
+    label: string;
+    labelAr: string;
+    payer: PartyKind[];
+    payee: PartyKind[];
+    legs: PostingLeg[];
+    holdable?: boolean;    // The payee side can be parked in SUSPENSE for risk review
+}
+
+export interface PostingInput {
+    type: PostingType;
+    currency: LedgerCurrency;
+    referenceNumber: string;
+    transactionId?: string;  // Linked to the ledger entry
+    createdBy?: string;
+    payer: PostingParty;
+    payee: PostingParty;
+    gross: MoneyInput;
+    fee?: MoneyInput;
+    hold?: HoldInstruction;
+    description?: string;    // Defaults to "<rule label>: <reference>"
+    descriptionAr?: string;
+}
+
+export interface PostingResult {
+    ledgerEntryId: string;
+    netAmount: Money;
+    heldTransactionId?: string;
+}
+
+// Thrown from inside the DB transaction - callers map them to their own messages
+export const POSTING_ERRORS: Record<string, string> = {
+    INSUFFICIENT_BALANCE: 'رصيد غير كافٍ',
+    INSUFFICIENT_AGENT_CREDIT: 'رصيد الائتمان غير كافٍ',
+    WALLET_NOT_FOUND: 'المحفظة غير موجودة',
+    AGENT_NOT_FOUND: 'الوكيل غير موجود',
+};
+
+// ============================================
+// PARTIES
+// ============================================
+
+export function walletParty(walletId: string): PostingParty {
+    return { kind: 'WALLET', walletId };
+}
+
+export function agentParty(agentProfileId: string): PostingParty {
+    return { kind: 'AGENT', agentProfileId };
+}
+
+export function accountParty(accountCode: string): PostingParty {
+    return { kind: 'ACCOUNT', accountCode };
+}
+
+export const RESERVE_PARTY: PostingParty = { kind: 'RESERVE' };
+export const SUSPENSE_PARTY = accountParty(INTERNAL_ACCOUNTS.SUSPENSE);
+export const SETTLEMENTS_PARTY = accountParty(INTERNAL_ACCOUNTS.SETTLEMENTS);
+
+// ============================================
+// POSTING RULES
+// ============================================
+
+// Payer gives gross, payee gets net, the platform keeps the fee
+const FEE_LEGS: PostingLeg[] = [
+    { side: 'DEBIT', amount: 'gross', party: 'payer' },
+    { side: 'CREDIT', amount: 'net', party: 'payee' },
+    { side: 'CREDIT', amount: 'fee', accountCode: INTERNAL_ACCOUNTS.FEES },
+];
+
+// Fee-free movements - the entry won't balance if a fee is passed
+const PLAIN_LEGS: PostingLeg[] = [
+    { side: 'DEBIT', amount: 'gross', party: 'payer' },
+    { side: 'CREDIT', amount: 'gross', party: 'payee' },
+];
+
+export const POSTING_RULES: Record<PostingType, PostingRule> = {
+    // Agent credit (or a platform account, e.g. profit distribution) -> user wallet
+    DEPOSIT: { label: 'Deposit', labelAr: 'إيداع', payer: ['AGENT', 'ACCOUNT'], payee: ['WALLET'], legs: FEE_LEGS },
+    // User wallet -> agent credit (the agent hands over cash)
+    WITHDRAW: { label: 'Withdrawal', labelAr: 'سحب', payer: ['WALLET'], payee: ['AGENT'], legs: FEE_LEGS },
+    // Wallet -> wallet; the payer is SUSPENSE when a held transfer is released
+    TRANSFER: { label: 'Transfer', labelAr: 'تحويل', payer: ['WALLET', 'ACCOUNT'], payee: ['WALLET'], legs: FEE_LEGS, holdable: true },
+    QR_PAYMENT: { label: 'QR Payment', labelAr: 'دفع QR', payer: ['WALLET', 'ACCOUNT'], payee: ['WALLET'], legs: FEE_LEGS, holdable: true },
+    // Orders awaiting the seller wait in SUSPENSE; system services pay straight into FEES
+    SERVICE_PURCHASE: { label: 'Service Purchase', labelAr: 'شراء خدمة', payer: ['WALLET', 'ACCOUNT'], payee: ['WALLET', 'ACCOUNT'], legs: FEE_LEGS },
+    // Money is minted here - SYS-RESERVE -> agent credit
+    CREDIT_GRANT: { label: 'Credit Grant', labelAr: 'منح رصيد', payer: ['RESERVE'], payee: ['AGENT'], legs: PLAIN_LEGS },
+    // Agent cash <-> digital credit through SETTLEMENTS
+    SETTLEMENT: { label: 'Settlement', labelAr: 'تسوية', payer: ['ACCOUNT', 'AGENT'], payee: ['AGENT', 'ACCOUNT'], legs: FEE_LEGS },
+    REFUND: { label: 'Refund', labelAr: 'استرداد', payer: ['WALLET', 'ACCOUNT'], payee: ['WALLET'], legs: PLAIN_LEGS },
+};
+
+// ============================================
+// ENGINE
+// ============================================
+
+interface ResolvedParty {
+    party: PostingParty;
+    accountCode: string;
+    walletId?: string;
+    agentProfileId?: string;
+    overdraft?: boolean;  // Central Bank only
+}
+
+async function resolveParty(tx: PostingTx, party: PostingParty, currency: LedgerCurrency): Promise<ResolvedParty> {
+    switch (party.kind) {
+        case 'WALLET': {
+            const wallet = await tx.wallet.findUnique({ where: { id: party.walletId } });
+            if (!wallet || wallet.currency !== currency) {
+                throw new Error('WALLET_NOT_FOUND');
+            }
+            return {
+                party,
+                walletId: wallet.id,
+                accountCode: wallet.walletType === 'BUSINESS'
+                    ? INTERNAL_ACCOUNTS.MERCHANTS_LEDGER
+                    : INTERNAL_ACCOUNTS.USERS_LEDGER,
+            };
+        }
+
+        case 'AGENT':
+            return { party, agentProfileId: party.agentProfileId, accountCode: INTERNAL_ACCOUNTS.AGENTS_LEDGER };
+
+        case 'RESERVE': {
+            const centralBankWallet = await tx.wallet.findFirst({
+                where: { user: { phone: CENTRAL_BANK_CODE }, currency },
+            });
+            return {
+                party,
+                walletId: centralBankWallet?.id,
+                accountCode: INTERNAL_ACCOUNTS.SYSTEM_RESERVE,
+                overdraft: true,
+            };
+        }
+
+        case 'ACCOUNT':
+            return { party, accountCode: party.accountCode };
+    }
+}
+
+/**
+ * Move a party's operational balance by the same amount as its ledger line
+ * Party accounts are all liabilities, so a debit lowers the balance and a credit raises it
+ */
+async function moveParty(tx: PostingTx, resolved: ResolvedParty, currency: LedgerCurrency, change: Money) {
+    if (change.isZero()) return;
+
+    if (resolved.walletId) {
+        if (change.isNegative() && !resolved.overdraft) {
+            // Atomic balance check - no negative wallets
+            const debited = await tx.wallet.updateMany({
+                where: { id: resolved.walletId, balance: { gte: change.negate().toDecimal() } },
+                data: { balance: { decrement: change.negate().toDecimal() } },
+            });
+            if (debited.count === 0) {
+                throw new Error('INSUFFICIENT_BALANCE');
+            }
+            return;
+        }
+
+        await tx.wallet.update({
+            where: { id: resolved.walletId },
+            data: { balance: { increment: change.toDecimal() } },
+        });
+        return;
+    }
+
+    if (resolved.agentProfileId) {
+        const creditField = currency === 'SYP' ? 'currentCreditSYP' : 'currentCredit';
+        const updated = await tx.agentProfile.updateMany({
+            where: change.isNegative()
+                ? { id: resolved.agentProfileId, [creditField]: { gte: change.negate().toDecimal() } }
+                : { id: resolved.agentProfileId },
+            data: { [creditField]: { increment: change.toDecimal() } },
+        });
+        if (updated.count === 0) {
+            throw new Error(change.isNegative() ? 'INSUFFICIENT_AGENT_CREDIT' : 'AGENT_NOT_FOUND');
+        }
+    }
+}
+
+/**
+ * Post a transaction: party balances and the ledger entry, in the caller's DB transaction
+ * THROWS (rolling the caller back) on a rule violation or an insufficient balance
+ * With a hold, everything the payee side would get is parked in SUSPENSE instead
+ */
+export async function postTransaction(tx: PostingTx, input: PostingInput): Promise<PostingResult> {
+    const rule = POSTING_RULES[input.type];
+    const gross = Money.of(input.gross, input.currency);
+    const fee = Money.of(input.fee || 0, input.currency);
+    const net = gross.subtract(fee);
+
+    if (!gross.isPositive() || fee.isNegative() || net.isNegative()) {
+        throw new Error(`Invalid ${input.type} amounts: gross ${gross}, fee ${fee}`);
+    }
+    if (!rule.payer.includes(input.payer.kind) || !rule.payee.includes(input.payee.kind)) {
+        throw new Error(`${input.type} cannot move money from ${input.payer.kind} to ${input.payee.kind}`);
+    }
+    if (input.hold && (!rule.holdable || input.payer.kind !== 'WALLET' || !input.transactionId)) {
+        throw new Error(`${input.type} cannot be held`);
+    }
+
+    const payer = await resolveParty(tx, input.payer, input.currency);
+    const payee = input.hold
+        ? { party: SUSPENSE_PARTY, accountCode: INTERNAL_ACCOUNTS.SUSPENSE }
+        : await resolveParty(tx, input.payee, input.currency);
+
+    const amounts = { gross, net, fee };
+    const lines: LedgerLine[] = [];
+
+    // Legs are declared debit first, so balance checks run before anyone is credited
+    for (const leg of rule.legs) {
+        const amount = amounts[leg.amount];
+        if (amount.isZero()) continue;
+
+        // A held transaction's fee waits in SUSPENSE with the rest
+        const resolved = leg.party === 'payer' ? payer : (leg.party === 'payee' || input.hold) ? payee : null;
+        const accountCode = resolved ? resolved.accountCode : leg.accountCode!;
+
+        if (resolved) {
+            await moveParty(tx, resolved, input.currency, leg.side === 'CREDIT' ? amount : amount.negate());
+        }
+        lines.push({
+            accountCode,
+            debit: leg.side === 'DEBIT' ? amount.toDecimal() : 0,
+            credit: leg.side === 'CREDIT' ? amount.toDecimal() : 0,
+            walletId: resolved?.walletId,
+            agentProfileId: resolved?.agentProfileId,
+        });
+    }
+
+    const ledgerEntryId = await createLedgerEntry({
+        description: input.description || `${rule.label}: ${input.referenceNumber}`,
+        descriptionAr: input.descriptionAr || `${rule.labelAr}: ${input.referenceNumber}`,
+        transactionId: input.transactionId,
+        createdBy: input.createdBy,
+        currency: input.currency,
+        tx,
+        lines,
+    });
+
+    let heldTransactionId: string | undefined;
+    if (input.hold) {
+        const intendedPayee = await resolveParty(tx, input.payee, input.currency);
+        heldTransactionId = await holdInSuspense(tx, {
+            ...input.hold,
+            transactionId: input.transactionId!,
+            currency: input.currency,
+            payerWalletId: payer.walletId!,
+            payerAccountCode: payer.accountCode,
+            payeeWalletId: intendedPayee.walletId,
+            payeeAccountCode: intendedPayee.accountCode,
+            payeeAmount: net.toDecimal(),
+            feeAmount: fee.toDecimal(),
+        });
+    }
+
+    return { ledgerEntryId, netAmount: net, heldTransactionId };
+}
@@ -0,0 +1,375 @@
+/**
+ * Wallet-to-Ledger Reconciliation
+ * Bank Basha - Financial Stability Engine
+ *
+ * verifySystemBalance only proves the ledger accounts net to zero. This job compares each
+ * ledger account with the operational balances it stands for, per currency:
+ * - USR-LEDGER  <-> PERSONAL wallets (the Central Bank wallet posts to SYS-RESERVE and is left out)
+ * - MRC-LEDGER  <-> BUSINESS wallets
+ * - AGT-LEDGER  <-> agent digital credit (currentCredit / currentCreditSYP)
+ * Agent cash on hand (cashCollected) is physical money with no ledger account behind it, so it
+ * is not reconciled here - settlements check it against the agent's declarations.
+ *
+ * When a check breaks, every wallet / agent behind it is compared with the ledger lines posted
+ * for it (LedgerEntryLine.walletId / agentProfileId) to find the ones that diverge. Lines written
+ * before the posting engine recorded the party are only attributed where the backfill in
+ * manual_reconciliation_migration.sql could link them, so older accounts can show up here too.
+ *
+ * All balances are read in one RepeatableRead transaction, so a transfer committing mid-run
+ * can't show up on one side of a check and not the other.
+ *
+ * Every run is stored with its checks; a break notifies the admins. Runs hourly through
+ * POST /api/cron/reconciliation (reconciliation scheduler); history is on /admin/monitor.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { INTERNAL_ACCOUNTS, type LedgerCurrency } from '@/lib/financial/core-ledger';
+import { Money } from '@/lib/financial/money';
+import { CENTRAL_BANK_CODE } from '@/lib/accounting/central-bank';
+
+type PrismaTx = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
+
+const CURRENCIES: LedgerCurrency[] = ['USD', 'SYP'];
+
+// The discrepancy scan reads every wallet - give the snapshot more than the default 5s
+const SNAPSHOT_TIMEOUT_MS = 120_000;
+
+// Largest differences first - a systemic break should not write a row per wallet
+const MAX_DISCREPANCIES_PER_CHECK = 200;
+
+export type ReconciliationTrigger = 'SCHEDULED' | 'MANUAL';
+export type ReconciliationStatus = 'BALANCED' | 'BROKEN';
+
+type ReconciledAccount =
+    | typeof INTERNAL_ACCOUNTS.USERS_LEDGER
+    | typeof INTERNAL_ACCOUNTS.MERCHANTS_LEDGER
+    | typeof INTERNAL_ACCOUNTS.AGENTS_LEDGER;
+
+export interface ReconciliationCheck {
+    accountCode: ReconciledAccount;
+    currency: LedgerCurrency;
+    ledgerBalance: number;
+    operationalBalance: number;
+    difference: number; // operational - ledger
+    balanced: boolean;
+}
+
+export interface ReconciliationDiscrepancyReport {
+    accountCode: ReconciledAccount;
+    currency: LedgerCurrency;
+    entityType: 'WALLET' | 'AGENT';
+    entityId: string;
+    userId: string | null;
+    operationalBalance: number;
+    ledgerBalance: number;
+    difference: number;
+}
+
+export interface ReconciliationResult {
+    runId: string;
+    status: ReconciliationStatus;
+    checks: ReconciliationCheck[];
+    discrepancies: ReconciliationDiscrepancyReport[];
+    durationMs: number;
+}
+
+// Wallet type behind each wallet ledger
+const WALLET_ACCOUNTS: { accountCode: ReconciledAccount; walletType: 'PERSONAL' | 'BUSINESS' }[] = [
+    { accountCode: INTERNAL_ACCOUNTS.USERS_LEDGER, walletType: 'PERSONAL' },
+    { accountCode: INTERNAL_ACCOUNTS.MERCHANTS_LEDGER, walletType: 'BUSINESS' },
+];
+
+const customerWallets = (walletType: 'PERSONAL' | 'BUSINESS', currency: LedgerCurrency) => ({
+    walletType,
+    currency,
+    user: { phone: { not: CENTRAL_BANK_CODE } },
+});
+
+/**
+ * Net of the lines attributed to each wallet / agent on a LIABILITY account (credit - debit)
+ */
+async function getAttributedBalances(
+    tx: PrismaTx,
+    accountCode: ReconciledAccount,
+    currency: LedgerCurrency,
+    by: 'walletId' | 'agentProfileId'
+): Promise<Map<string, Money>> {
+    const groups = await tx.ledgerEntryLine.groupBy({
+        by: [by],
+        where: { account: { code: accountCode }, currency, [by]: { not: null } },
+        _sum: { debit: true, credit: true },
+    });
+
+    const balances = new Map<string, Money>();
+    for (const group of groups) {
+        const entityId = group[by];
+        if (!entityId) continue;
+        balances.set(
+            entityId,
+            Money.of(group._sum.credit ?? 0, currency).subtract(Money.of(group._sum.debit ?? 0, currency))
+        );
+    }
+    return balances;
+}
+
+function toCheck(accountCode: ReconciledAccount, currency: LedgerCurrency, ledger: Money, operational: Money): ReconciliationCheck {
+    const difference = operational.subtract(ledger);
+    return {
+        accountCode,
+        currency,
+        ledgerBalance: ledger.toNumber(),
+        operationalBalance: operational.toNumber(),
+        difference: difference.toNumber(),
+        balanced: difference.isZero(),
+    };
+}
+
+function toDiscrepancy(
+    check: ReconciliationCheck,
+    entity: { entityType: 'WALLET' | 'AGENT'; entityId: string; userId: string | null },
+    operational: Money,
+    ledger: Money
+): ReconciliationDiscrepancyReport | null {
+    const difference = operational.subtract(ledger);
+    if (difference.isZero()) return null;
+
+    return {
+        accountCode: check.accountCode,
+        currency: check.currency,
+        ...entity,
+        operationalBalance: operational.toNumber(),
+        ledgerBalance: ledger.toNumber(),
+        difference: difference.toNumber(),
+    };
+}
+
+function largestFirst(discrepancies: ReconciliationDiscrepancyReport[]): ReconciliationDiscrepancyReport[] {
+    return discrepancies
+        .sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference))
+        .slice(0, MAX_DISCREPANCIES_PER_CHECK);
+}
+
+/**
+ * Wallets behind a broken USR-LEDGER / MRC-LEDGER check whose balance differs from their lines
+ */
+async function findWalletDiscrepancies(
+    tx: PrismaTx,
+    check: ReconciliationCheck,
+    walletType: 'PERSONAL' | 'BUSINESS'
+): Promise<ReconciliationDiscrepancyReport[]> {
+    const attributed = await getAttributedBalances(tx, check.accountCode, check.currency, 'walletId');
+    const wallets = await tx.wallet.findMany({
+        where: customerWallets(walletType, check.currency),
+        select: { id: true, userId: true, balance: true },
+    });
+
+    const discrepancies: ReconciliationDiscrepancyReport[] = [];
+    for (const wallet of wallets) {
+        const discrepancy = toDiscrepancy(
+            check,
+            { entityType: 'WALLET', entityId: wallet.id, userId: wallet.userId },
+            Money.of(wallet.balance, check.currency),
+            attributed.get(wallet.id) ?? Money.zero(check.currency)
+        );
+        if (discrepancy) discrepancies.push(discrepancy);
+    }
+    return largestFirst(discrepancies);
+}
+
+/**
+ * Agents behind a broken AGT-LEDGER check whose credit differs from their lines
+ */
+async function findAgentDiscrepancies(tx: PrismaTx, check: ReconciliationCheck): Promise<ReconciliationDiscrepancyReport[]> {
+    const attributed = await getAttributedBalances(tx, check.accountCode, check.currency, 'agentProfileId');
+    const agents = await tx.agentProfile.findMany({
+        select: { id: true, userId: true, currentCredit: true, currentCreditSYP: true },
+    });
+
+    const discrepancies: ReconciliationDiscrepancyReport[] = [];
+    for (const agent of agents) {
+        const discrepancy = toDiscrepancy(
+            check,
+            { entityType: 'AGENT', entityId: agent.id, userId: agent.userId },
+            Money.of(check.currency === 'SYP' ? agent.currentCreditSYP : agent.currentCredit, check.currency),
+            attributed.get(agent.id) ?? Money.zero(check.currency)
+        );
+        if (discrepancy) discrepancies.push(discrepancy);
+    }
+    return largestFirst(discrepancies);
+}
+
+/**
+ * Notify every admin of a broken run (in-app + push)
+ */
+async function alertAdmins(runId: string, checks: ReconciliationCheck[]) {
+    const broken = checks.filter((check) => !check.balanced);
+    const summary = broken
+        .map((check) => `${check.accountCode} ${check.currency}: ${check.difference > 0 ? '+' : ''}${check.difference}`)
+        .join('، ');
+
+    const admins = await prisma.user.findMany({
+        where: { userType: 'ADMIN', phone: { not: CENTRAL_BANK_CODE } },
+        select: { id: true, fcmToken: true },
+    });
+    if (admins.length === 0) return;
+
+    await prisma.notification.createMany({
+        data: admins.map((admin) => ({
+            userId: admin.id,
+            type: 'SYSTEM',
+            title: 'Ledger reconciliation break',
+            titleAr: 'خلل في مطابقة الدفتر',
+            message: `Wallet balances do not match the ledger (${summary}). Run ${runId}`,
+            messageAr: `أرصدة المحافظ لا تطابق دفتر الأستاذ (${summary}). المطابقة ${runId}`,
+            metadata: JSON.stringify({ runId, checks: broken }),
+        })),
+    });
+
+    const { sendPushNotification } = await import('@/lib/firebase/admin');
+    for (const admin of admins) {
+        if (admin.fcmToken) {
+            sendPushNotification(
+                admin.fcmToken,
+                '⚠️ خلل في مطابقة الدفتر',
+                `أرصدة المحافظ لا تطابق دفتر الأستاذ (${summary})`,
+                { type: 'RECONCILIATION_BREAK', url: '/admin/monitor' }
+            ).catch(err => console.error('Push notification error:', err));
+        }
+    }
+}
+
+/**
+ * Reconcile wallets and agent credit with the ledger, store the run and alert on a break
+ */
+export async function runReconciliation(
+    trigger: ReconciliationTrigger,
+    triggeredBy?: string
+): Promise<ReconciliationResult> {
+    const startedAt = new Date();
+
+    const { checks, discrepancies } = await prisma.$transaction(async (tx) => {
+        const ledgerAccounts = await tx.ledgerAccount.findMany({
+            where: {
+                code: {
+                    in: [
+                        INTERNAL_ACCOUNTS.USERS_LEDGER,
+                        INTERNAL_ACCOUNTS.MERCHANTS_LEDGER,
+                        INTERNAL_ACCOUNTS.AGENTS_LEDGER,
+                    ],
+                },
+            },
+        });
+        const ledgerBalance = (accountCode: ReconciledAccount, currency: LedgerCurrency) => {
+            const account = ledgerAccounts.find((acc) => acc.code === accountCode);
+            if (!account) return Money.zero(currency);
+            return Money.of(currency === 'SYP' ? account.balanceSYP : account.balance, currency);
+        };
+
+        const checks: ReconciliationCheck[] = [];
+        const discrepancies: ReconciliationDiscrepancyReport[] = [];
+
+        for (const currency of CURRENCIES) {
+            for (const { accountCode, walletType } of WALLET_ACCOUNTS) {
+                const wallets = await tx.wallet.aggregate({
+                    where: customerWallets(walletType, currency),
+                    _sum: { balance: true },
+                });
+
+                const check = toCheck(
+                    accountCode,
+                    currency,
+                    ledgerBalance(accountCode, currency),
+                    Money.of(wallets._sum.balance ?? 0, currency)
+                );
+                checks.push(check);
+
+                if (!check.balanced) {
+                    discrepancies.push(...await findWalletDiscrepancies(tx, check, walletType));
+                }
+            }
+
+            const agents = await tx.agentProfile.aggregate({
+                _sum: { currentCredit: true, currentCreditSYP: true },
+            });
+            const agentCredit = currency === 'SYP' ? agents._sum.currentCreditSYP : agents._sum.currentCredit;
+
+            const agentCheck = toCheck(
+                INTERNAL_ACCOUNTS.AGENTS_LEDGER,
+                currency,
+                ledgerBalance(INTERNAL_ACCOUNTS.AGENTS_LEDGER, currency),
+                Money.of(agentCredit ?? 0, currency)
+            );
+            checks.push(agentCheck);
+
+            if (!agentCheck.balanced) {
+                discrepancies.push(...await findAgentDiscrepancies(tx, agentCheck));
+            }
+        }
+
+        return { checks, discrepancies };
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.RepeatableRead, timeout: SNAPSHOT_TIMEOUT_MS });
+
+    const breakCount = checks.filter((check) => !check.balanced).length;
+    const status: ReconciliationStatus = breakCount === 0 ? 'BALANCED' : 'BROKEN';
+    const completedAt = new Date();
+    const durationMs = completedAt.getTime() - startedAt.getTime();
+
+    const run = await prisma.reconciliationRun.create({
+        data: {
+            trigger,
+            triggeredBy: triggeredBy || null,
+            status,
+            checks: JSON.stringify(checks),
+            breakCount,
+            startedAt,
+            completedAt,
+            durationMs,
+            discrepancies: {
+                create: discrepancies.map((discrepancy) => ({
+                    accountCode: discrepancy.accountCode,
+                    currency: discrepancy.currency,
+                    entityType: discrepancy.entityType,
+                    entityId: discrepancy.entityId,
+                    userId: discrepancy.userId,
+                    operationalBalance: discrepancy.operationalBalance,
+                    ledgerBalance: discrepancy.ledgerBalance,
+                    difference: discrepancy.difference,
+                })),
+            },
+        },
+    });
+
+    if (status === 'BROKEN') {
+        // The run is already stored - a failed notification must not fail the job
+        await alertAdmins(run.id, checks).catch((error) =>
+            console.error('Reconciliation alert error:', error)
+        );
+    }
+
+    return { runId: run.id, status, checks, discrepancies, durationMs };
+}
+
+/**
+ * Latest runs with their discrepancies - for /admin/monitor
+ */
+export async function getReconciliationHistory(take = 20) {
+    const runs = await prisma.reconciliationRun.findMany({
+        orderBy: { startedAt: 'desc' },
+        take,
+        include: { discrepancies: { orderBy: { difference: 'desc' } } },
+    });
+
+    return runs.map((run) => ({
+        id: run.id,
+        trigger: run.trigger,
+        triggeredBy: run.triggeredBy,
+        status: run.status,
+        checks: JSON.parse(run.checks) as ReconciliationCheck[],
+        breakCount: run.breakCount,
+        startedAt: run.startedAt,
+        completedAt: run.completedAt,
+        durationMs: run.durationMs,
+        discrepancies: run.discrepancies,
+    }));
+}
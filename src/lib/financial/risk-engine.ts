@@ -6,6 +6,8 @@
  */
 
 import { PrismaClient } from '@prisma/client';
+import { getUserKycTierLimits } from '@/lib/kyc/tiers';
+import { toAmount } from '@/lib/financial/money';
 
 const prisma = new PrismaClient();
 
@@ -35,6 +37,8 @@ export interface TransactionRiskContext {
     ipAddress?: string;
     deviceId?: string;
     userAgent?: string;
+    counterpartyId?: string;    // Merchant (QR_PAYMENT) or agent (DEPOSIT/WITHDRAW) user id
+    skipPayerLimits?: boolean;  // Already counted against the payer's limits in an earlier step
 }
 
 // ============================================
@@ -97,6 +101,16 @@ async function checkRapidTransactions(
         },
     });
 
+    // Hard cap - refused, not just flagged
+    if (recentCount >= settings.userRateLimitPer10Min) {
+        return {
+            type: 'LIMIT_EXCEEDED',
+            score: 60,
+            reason: `Too many transactions: ${recentCount} in last 10 minutes (limit: ${settings.userRateLimitPer10Min})`,
+            reasonAr: `عدد كبير من المعاملات: ${recentCount} في آخر 10 دقائق (الحد: ${settings.userRateLimitPer10Min})`,
+        };
+    }
+
     if (recentCount >= settings.riskRapidTxThreshold) {
         return {
             type: 'RAPID_TRANSACTIONS',
@@ -233,19 +247,36 @@ async function checkTransactionLimits(
     const weeklySpent = currency === 'USD' ? limits.weeklySpentUSD : limits.weeklySpentSYP;
     const monthlySpent = currency === 'USD' ? limits.monthlySpentUSD : limits.monthlySpentSYP;
 
-    // Get currency-specific limits from settings
-    const dailyLimit = currency === 'SYP'
+    // Get currency-specific limits from settings (global ceiling for every user)
+    const globalDailyLimit = currency === 'SYP'
         ? (settings.userDailyLimitSYP || settings.userDailyLimit * 15000)
         : settings.userDailyLimit;
-    const weeklyLimit = currency === 'SYP'
+    const globalWeeklyLimit = currency === 'SYP'
         ? (settings.userWeeklyLimitSYP || settings.userWeeklyLimit * 15000)
         : settings.userWeeklyLimit;
-    const monthlyLimit = currency === 'SYP'
+    const globalMonthlyLimit = currency === 'SYP'
         ? (settings.userMonthlyLimitSYP || settings.userMonthlyLimit * 15000)
         : settings.userMonthlyLimit;
 
+    // The user's KYC tier sets their own limits under that ceiling
+    const tierLimits = await getUserKycTierLimits(userId);
+    const dailyLimit = Math.min(globalDailyLimit, currency === 'SYP' ? tierLimits.dailyLimitSYP : tierLimits.dailyLimitUSD);
+    const weeklyLimit = Math.min(globalWeeklyLimit, currency === 'SYP' ? tierLimits.weeklyLimitSYP : tierLimits.weeklyLimitUSD);
+    const monthlyLimit = Math.min(globalMonthlyLimit, currency === 'SYP' ? tierLimits.monthlyLimitSYP : tierLimits.monthlyLimitUSD);
+
     const currencySymbol = currency === 'SYP' ? 'ل.س' : '$';
 
+    // A single transaction can never exceed the tier's limits, even right after a period reset
+    const periodLimit = Math.min(dailyLimit, weeklyLimit, monthlyLimit);
+    if (amount > periodLimit) {
+        return {
+            type: 'LIMIT_EXCEEDED',
+            score: 60,
+            reason: `Amount exceeds KYC tier ${tierLimits.tier} limit (${currency}): ${currencySymbol}${amount} > ${currencySymbol}${periodLimit}`,
+            reasonAr: `المبلغ يتجاوز حد مستوى التوثيق ${tierLimits.tier} (${currency}): ${currencySymbol}${amount} > ${currencySymbol}${periodLimit}`,
+        };
+    }
+
     // Reset counters if needed
     const dailyReset = new Date(limits.dailyResetAt);
     const weeklyReset = new Date(limits.weeklyResetAt);
@@ -310,6 +341,103 @@ async function checkTransactionLimits(
     return null;
 }
 
+/**
+ * Sum of a counterparty's non-failed transactions of a type since a date
+ */
+async function sumTransactions(
+    where: { receiverId?: string; agentId?: string },
+    type: string,
+    currency: 'USD' | 'SYP',
+    since: Date
+): Promise<number> {
+    const result = await prisma.transaction.aggregate({
+        where: {
+            ...where,
+            type,
+            currency,
+            status: { notIn: ['FAILED', 'CANCELLED', 'REVERSED'] },
+            createdAt: { gte: since },
+        },
+        _sum: { amount: true },
+    });
+    return toAmount(result._sum.amount);
+}
+
+/**
+ * Check merchant and agent limits from AdvancedSettings (Currency-Aware)
+ * - QR_PAYMENT: merchant daily/monthly payments received
+ * - DEPOSIT: agent daily credit given out and maximum cash on hand
+ * - WITHDRAW: agent daily withdrawals paid out
+ */
+async function checkCounterpartyLimits(
+    type: string,
+    counterpartyId: string | undefined,
+    amount: number,
+    settings: Awaited<ReturnType<typeof getAdvancedSettings>>,
+    currency: 'USD' | 'SYP' = 'USD'
+): Promise<RiskAlertData | null> {
+    if (!counterpartyId) return null;
+
+    const isSYP = currency === 'SYP';
+    const currencySymbol = isSYP ? 'ل.س' : '$';
+    const now = new Date();
+    const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+
+    const exceeded = (reason: string, reasonAr: string, used: number, limit: number): RiskAlertData => ({
+        type: 'LIMIT_EXCEEDED',
+        score: 60,
+        reason: `${reason} (${currency}): ${currencySymbol}${used} > ${currencySymbol}${limit}`,
+        reasonAr: `${reasonAr} (${currency}): ${currencySymbol}${used} > ${currencySymbol}${limit}`,
+    });
+
+    if (type === 'QR_PAYMENT') {
+        const dailyLimit = isSYP ? settings.merchantDailyPaymentLimitSYP : settings.merchantDailyPaymentLimit;
+        const monthlyLimit = isSYP ? settings.merchantMonthlyLimitSYP : settings.merchantMonthlyLimit;
+
+        const daily = await sumTransactions({ receiverId: counterpartyId }, type, currency, startOfDay) + amount;
+        if (daily > dailyLimit) {
+            return exceeded('Merchant daily payment limit exceeded', 'تجاوز التاجر حد المدفوعات اليومي', daily, dailyLimit);
+        }
+
+        const monthly = await sumTransactions({ receiverId: counterpartyId }, type, currency, startOfMonth) + amount;
+        if (monthly > monthlyLimit) {
+            return exceeded('Merchant monthly limit exceeded', 'تجاوز التاجر الحد الشهري', monthly, monthlyLimit);
+        }
+    }
+
+    if (type === 'DEPOSIT') {
+        const dailyLimit = isSYP ? settings.agentDailyCreditLimitSYP : settings.agentDailyCreditLimit;
+        const maxCash = isSYP ? settings.agentMaxCashHoldSYP : settings.agentMaxCashHold;
+
+        const daily = await sumTransactions({ agentId: counterpartyId }, type, currency, startOfDay) + amount;
+        if (daily > dailyLimit) {
+            return exceeded('Agent daily deposit limit exceeded', 'تجاوز الوكيل حد الإيداع اليومي', daily, dailyLimit);
+        }
+
+        // A deposit adds the customer's cash to what the agent is holding
+        const agent = await prisma.agentProfile.findUnique({
+            where: { userId: counterpartyId },
+            select: { cashCollected: true, cashCollectedSYP: true },
+        });
+        const cashAfter = toAmount(agent ? (isSYP ? agent.cashCollectedSYP : agent.cashCollected) : 0) + amount;
+        if (cashAfter > maxCash) {
+            return exceeded('Agent cash on hand limit exceeded - settle first', 'تجاوز الوكيل حد النقد المسموح - يرجى التسوية أولاً', cashAfter, maxCash);
+        }
+    }
+
+    if (type === 'WITHDRAW') {
+        const dailyLimit = isSYP ? settings.agentDailyWithdrawLimitSYP : settings.agentDailyWithdrawLimit;
+
+        const daily = await sumTransactions({ agentId: counterpartyId }, type, currency, startOfDay) + amount;
+        if (daily > dailyLimit) {
+            return exceeded('Agent daily withdrawal limit exceeded', 'تجاوز الوكيل حد السحب اليومي', daily, dailyLimit);
+        }
+    }
+
+    return null;
+}
+
 // ============================================
 // MAIN RISK CHECK
 // ============================================
@@ -322,16 +450,28 @@ export async function checkTransactionRisk(
 ): Promise<RiskCheckResult> {
     const settings = await getAdvancedSettings();
     const alerts: RiskAlertData[] = [];
+    const currency = context.currency || 'USD';
+
+    // Counterparty first - the payer's counters are only charged for transactions that can go ahead
+    const counterpartyAlert = await checkCounterpartyLimits(
+        context.type, context.counterpartyId, context.amount, settings, currency
+    );
 
     // Run all checks
     const checks = await Promise.all([
-        checkHighAmount(context.amount, settings, context.currency || 'USD'),
+        checkHighAmount(context.amount, settings, currency),
         checkRapidTransactions(context.userId, settings),
         checkNewDevice(context.userId, context.deviceId, settings),
         checkSuspiciousIP(context.userId, context.ipAddress),
-        checkTransactionLimits(context.userId, context.amount, settings, context.currency || 'USD'),
+        counterpartyAlert || context.skipPayerLimits
+            ? null
+            : checkTransactionLimits(context.userId, context.amount, settings, currency),
     ]);
 
+    if (counterpartyAlert) {
+        alerts.push(counterpartyAlert);
+    }
+
     for (const result of checks) {
         if (result) {
             alerts.push(result);
@@ -386,69 +526,6 @@ export async function createRiskAlert(
     return alert.id;
 }
 
-/**
- * Hold a transaction for manual review
- */
-export async function holdTransaction(
-    transactionId: string,
-    riskAlertId: string | undefined,
-    reason: string,
-    reasonAr: string,
-    amount: number
-): Promise<string> {
-    const held = await prisma.heldTransaction.create({
-        data: {
-            transactionId,
-            riskAlertId,
-            reason,
-            reasonAr,
-            holdAmount: amount,
-            status: 'HELD',
-        },
-    });
-
-    // Update transaction status
-    await prisma.transaction.update({
-        where: { id: transactionId },
-        data: { status: 'PROCESSING' },
-    });
-
-    return held.id;
-}
-
-/**
- * Release a held transaction
- */
-export async function releaseHeldTransaction(
-    heldId: string,
-    releasedBy: string,
-    notes?: string
-): Promise<void> {
-    const held = await prisma.heldTransaction.findUnique({
-        where: { id: heldId },
-    });
-
-    if (!held || held.status !== 'HELD') {
-        throw new Error('Transaction not found or already processed');
-    }
-
-    await prisma.$transaction([
-        prisma.heldTransaction.update({
-            where: { id: heldId },
-            data: {
-                status: 'RELEASED',
-                releasedBy,
-                releasedAt: new Date(),
-                releaseNotes: notes,
-            },
-        }),
-        prisma.transaction.update({
-            where: { id: held.transactionId },
-            data: { status: 'COMPLETED', completedAt: new Date() },
-        }),
-    ]);
-}
-
 /**
  * Get pending risk alerts for admin review
  */
@@ -473,8 +550,6 @@ export async function getHeldTransactions() {
 const riskEngine = {
     checkTransactionRisk,
     createRiskAlert,
-    holdTransaction,
-    releaseHeldTransaction,
     getPendingRiskAlerts,
     getHeldTransactions,
 };
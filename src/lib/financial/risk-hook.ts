@@ -0,0 +1,112 @@
+/**
+ * Pre-transaction Risk Hook
+ * Bank Basha - Financial Stability Engine
+ *
+ * Every money-moving route calls assessTransactionRisk before touching balances:
+ * 1. checkTransactionRisk runs the payer checks plus the per-type limits from AdvancedSettings
+ * 2. Each alert is stored as a RiskAlert for the risk management screen
+ * 3. LIMIT_EXCEEDED refuses the transaction; other auto-freeze alerts hold it -
+ *    the route then parks the funds in SUSPENSE (see held-funds.ts)
+ *
+ * Cash operations can't be parked (the agent and the customer are at the counter),
+ * so callers pass holdable: false and a hold becomes a refusal.
+ *
+ * An allowed transaction that then fails (insufficient balance, a lost race) never
+ * happened - the route passes its alerts to dismissRiskAlerts so none is left unattached.
+ */
+
+import type { NextRequest } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkTransactionRisk, createRiskAlert, type TransactionRiskContext } from '@/lib/financial/risk-engine';
+import { getRequestDeviceId } from '@/lib/auth/devices';
+
+export interface RiskAssessmentInput {
+    userId: string;
+    amount: number;
+    type: string;
+    currency?: 'USD' | 'SYP';
+    counterpartyId?: string;
+    skipPayerLimits?: boolean;
+    holdable?: boolean;
+}
+
+export interface RiskDecision {
+    allowed: boolean;
+    error?: string;
+    hold: boolean;
+    riskAlertId?: string;
+    riskAlertIds?: string[];  // Alerts raised for an allowed transaction
+    reason?: string;
+    reasonAr?: string;
+}
+
+const HOLD_REFUSED_ERROR = 'تم إيقاف العملية للمراجعة الأمنية، يرجى التواصل مع الدعم';
+
+/**
+ * Run the risk checks for a transaction about to happen
+ * Pass the request only when the caller is the payer - IP and device are checked against their history
+ */
+export async function assessTransactionRisk(
+    request: NextRequest | null,
+    input: RiskAssessmentInput
+): Promise<RiskDecision> {
+    const context: TransactionRiskContext = {
+        userId: input.userId,
+        amount: input.amount,
+        type: input.type,
+        currency: input.currency || 'USD',
+        counterpartyId: input.counterpartyId,
+        skipPayerLimits: input.skipPayerLimits,
+        ipAddress: request
+            ? request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || undefined
+            : undefined,
+        deviceId: request ? getRequestDeviceId(request) : undefined,
+        userAgent: request?.headers.get('user-agent') || undefined,
+    };
+
+    const riskCheck = await checkTransactionRisk(context);
+    if (riskCheck.passed) {
+        return { allowed: true, hold: false };
+    }
+
+    const alertIds = await Promise.all(riskCheck.alerts.map((alert) => createRiskAlert(context, alert)));
+
+    const limitAlert = riskCheck.alerts.find((alert) => alert.type === 'LIMIT_EXCEEDED');
+    if (limitAlert) {
+        return { allowed: false, hold: false, error: limitAlert.reasonAr || limitAlert.reason };
+    }
+
+    if (!riskCheck.shouldHold) {
+        return { allowed: true, hold: false, riskAlertIds: alertIds };
+    }
+
+    if (input.holdable === false) {
+        return { allowed: false, hold: false, error: HOLD_REFUSED_ERROR };
+    }
+
+    return {
+        allowed: true,
+        hold: true,
+        riskAlertId: alertIds[0],
+        riskAlertIds: alertIds,
+        reason: riskCheck.alerts.map((alert) => alert.reason).join('; '),
+        reasonAr: riskCheck.alerts.map((alert) => alert.reasonAr).join('؛ '),
+    };
+}
+
+/**
+ * Close the alerts of an allowed transaction that failed before anything was posted
+ */
+export async function dismissRiskAlerts(alertIds: string[] | undefined, reason: string): Promise<void> {
+    if (!alertIds?.length) return;
+
+    await prisma.riskAlert.updateMany({
+        where: { id: { in: alertIds }, status: 'PENDING', transactionId: null },
+        data: {
+            status: 'DISMISSED',
+            reviewedAt: new Date(),
+            resolution: 'DISMISSED',
+            resolutionNotes: `Transaction failed: ${reason}`,
+        },
+    });
+}
@@ -8,6 +8,7 @@
 import { PrismaClient } from '@prisma/client';
 import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
 import crypto from 'crypto';
+import { toAmount, sumAmounts } from '@/lib/financial/money';
 
 const prisma = new PrismaClient();
 
@@ -121,22 +122,22 @@ async function collectSnapshotData(): Promise<SnapshotData> {
     ]);
 
     // Calculate statistics
-    const totalUserBalance = wallets.reduce((sum, w) => sum + w.balance, 0);
-    const totalAgentCredit = agents.reduce((sum, a) => sum + a.currentCredit, 0);
-    const totalAgentCash = agents.reduce((sum, a) => sum + a.cashCollected, 0);
+    const totalUserBalance = sumAmounts(wallets.map(w => w.balance));
+    const totalAgentCredit = sumAmounts(agents.map(a => a.currentCredit));
+    const totalAgentCash = sumAmounts(agents.map(a => a.cashCollected));
 
     const merchantWallets = await prisma.wallet.findMany({
         where: {
             user: { userType: 'MERCHANT' },
         },
     });
-    const totalMerchantBalance = merchantWallets.reduce((sum, w) => sum + w.balance, 0);
+    const totalMerchantBalance = sumAmounts(merchantWallets.map(w => w.balance));
 
     const systemReserveAccount = internalAccounts.find((a) => a.code === 'SYS-RESERVE');
     const feesAccount = internalAccounts.find((a) => a.code === 'FEES-COLLECTED');
 
     const completedTransactions = transactions.filter((t) => t.status === 'COMPLETED');
-    const totalVolume = completedTransactions.reduce((sum, t) => sum + t.amount, 0);
+    const totalVolume = sumAmounts(completedTransactions.map(t => t.amount));
 
     return {
         metadata: {
@@ -152,8 +153,8 @@ async function collectSnapshotData(): Promise<SnapshotData> {
             totalAgentCredit,
             totalAgentCash,
             totalMerchantBalance,
-            systemReserve: systemReserveAccount?.balance || 0,
-            feesCollected: feesAccount?.balance || 0,
+            systemReserve: toAmount(systemReserveAccount?.balance),
+            feesCollected: toAmount(feesAccount?.balance),
             totalTransactions: transactions.length,
             totalVolume,
         },
@@ -0,0 +1,150 @@
+/**
+ * KYC Tiers
+ * Bank Basha
+ *
+ * Tier 0: phone only
+ * Tier 1: + ID document
+ * Tier 2: + selfie and proof of address
+ *
+ * Each tier has its own daily/weekly/monthly limits per currency (KycTierLimit rows, defaults below).
+ * Users upgrade by submitting the documents the next tier still needs; every KYCDocument row
+ * is reviewed on its own, so a rejected selfie doesn't throw away an approved ID.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+
+export const KYC_TIERS = [0, 1, 2] as const;
+export type KycTier = typeof KYC_TIERS[number];
+
+export const KYC_DOCUMENT_TYPES = ['ID_FRONT', 'ID_BACK', 'SELFIE', 'PROOF_OF_ADDRESS'] as const;
+export type KycDocumentType = typeof KYC_DOCUMENT_TYPES[number];
+
+/**
+ * Documents a tier needs on top of the phone number (ID_BACK is optional everywhere)
+ */
+export const KYC_TIER_REQUIREMENTS: Record<KycTier, KycDocumentType[]> = {
+    0: [],
+    1: ['ID_FRONT'],
+    2: ['ID_FRONT', 'SELFIE', 'PROOF_OF_ADDRESS'],
+};
+
+export const KYC_TIER_NAMES: Record<KycTier, { en: string; ar: string }> = {
+    0: { en: 'Basic', ar: 'أساسي' },
+    1: { en: 'Verified ID', ar: 'هوية موثقة' },
+    2: { en: 'Fully verified', ar: 'توثيق كامل' },
+};
+
+export interface KycTierLimits {
+    tier: KycTier;
+    dailyLimitUSD: number;
+    weeklyLimitUSD: number;
+    monthlyLimitUSD: number;
+    dailyLimitSYP: number;
+    weeklyLimitSYP: number;
+    monthlyLimitSYP: number;
+}
+
+/**
+ * Used until an admin saves limits for the tier
+ */
+const DEFAULT_KYC_TIER_LIMITS: Record<KycTier, Omit<KycTierLimits, 'tier'>> = {
+    0: {
+        dailyLimitUSD: 100, weeklyLimitUSD: 300, monthlyLimitUSD: 500,
+        dailyLimitSYP: 1500000, weeklyLimitSYP: 4500000, monthlyLimitSYP: 7500000,
+    },
+    1: {
+        dailyLimitUSD: 1000, weeklyLimitUSD: 5000, monthlyLimitUSD: 15000,
+        dailyLimitSYP: 15000000, weeklyLimitSYP: 75000000, monthlyLimitSYP: 225000000,
+    },
+    2: {
+        dailyLimitUSD: 5000, weeklyLimitUSD: 20000, monthlyLimitUSD: 50000,
+        dailyLimitSYP: 75000000, weeklyLimitSYP: 300000000, monthlyLimitSYP: 750000000,
+    },
+};
+
+export function isKycTier(value: number): value is KycTier {
+    return (KYC_TIERS as readonly number[]).includes(value);
+}
+
+/**
+ * Users approved before tiers existed sent an ID and a selfie - they count as tier 1
+ */
+export function resolveKycTier(user: { kycTier: number; kycStatus: string }): KycTier {
+    if (user.kycTier === 0 && user.kycStatus === 'APPROVED') return 1;
+    return isKycTier(user.kycTier) ? user.kycTier : 0;
+}
+
+export async function getKycTierLimits(): Promise<KycTierLimits[]> {
+    const saved = await prisma.kycTierLimit.findMany();
+    const savedByTier = new Map(saved.map(l => [l.tier, l]));
+
+    return KYC_TIERS.map(tier => {
+        const limits = savedByTier.get(tier);
+        return limits
+            ? {
+                tier,
+                dailyLimitUSD: limits.dailyLimitUSD,
+                weeklyLimitUSD: limits.weeklyLimitUSD,
+                monthlyLimitUSD: limits.monthlyLimitUSD,
+                dailyLimitSYP: limits.dailyLimitSYP,
+                weeklyLimitSYP: limits.weeklyLimitSYP,
+                monthlyLimitSYP: limits.monthlyLimitSYP,
+            }
+            : { tier, ...DEFAULT_KYC_TIER_LIMITS[tier] };
+    });
+}
+
+export async function getUserKycTierLimits(userId: string): Promise<KycTierLimits> {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { kycTier: true, kycStatus: true },
+    });
+
+    const tier = user ? resolveKycTier(user) : 0;
+    const limits = await getKycTierLimits();
+    return limits.find(l => l.tier === tier) || { tier, ...DEFAULT_KYC_TIER_LIMITS[tier] };
+}
+
+/**
+ * Latest document of each type (documents are never overwritten - each upload is a new row)
+ */
+export function getLatestKycDocuments<T extends { documentType: string; createdAt: Date }>(documents: T[]): Map<string, T> {
+    const latest = new Map<string, T>();
+    for (const doc of documents) {
+        const current = latest.get(doc.documentType);
+        if (!current || doc.createdAt > current.createdAt) {
+            latest.set(doc.documentType, doc);
+        }
+    }
+    return latest;
+}
+
+/**
+ * Highest tier whose required documents are all approved
+ */
+export function getQualifiedKycTier(
+    documents: { documentType: string; status: string; createdAt: Date }[]
+): KycTier {
+    const latest = getLatestKycDocuments(documents);
+    let qualified: KycTier = 0;
+    for (const tier of KYC_TIERS) {
+        if (KYC_TIER_REQUIREMENTS[tier].every(type => latest.get(type)?.status === 'APPROVED')) {
+            qualified = tier;
+        }
+    }
+    return qualified;
+}
+
+/**
+ * Document types the user still has to upload to reach the tier (not yet approved or pending)
+ */
+export function getMissingKycDocuments(
+    targetTier: KycTier,
+    documents: { documentType: string; status: string; createdAt: Date }[]
+): KycDocumentType[] {
+    const latest = getLatestKycDocuments(documents);
+    return KYC_TIER_REQUIREMENTS[targetTier].filter(type => {
+        const status = latest.get(type)?.status;
+        return status !== 'APPROVED' && status !== 'PENDING';
+    });
+}
@@ -1,5 +1,13 @@
+/**
+ * Core money operations - deposit, withdrawal and P2P transfer
+ * Wallet/agent balances and ledger lines are posted together through the posting engine
+ */
+
 import { prisma } from '@/lib/db/prisma';
-import { generateLedgerHash, generateReferenceNumber } from '@/lib/auth/security';
+import { generateReferenceNumber } from '@/lib/auth/security';
+import type { HoldInstruction } from '@/lib/financial/held-funds';
+import { postTransaction, walletParty, agentParty, POSTING_ERRORS } from '@/lib/financial/posting-engine';
+import { Money, type MoneyInput, type RoundingMode } from '@/lib/financial/money';
 
 /**
  * Get system settings from database
@@ -18,134 +26,32 @@ async function getSystemSettings() {
     return settings;
 }
 
-export interface LedgerEntryData {
-    description: string;
-    descriptionAr?: string;
-    lines: Array<{
-        accountCode: string;
-        debit?: number;
-        credit?: number;
-    }>;
-    createdBy?: string;
-    currency?: 'USD' | 'SYP'; // Add currency for balance field selection
-}
+type PrismaTx = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
+
+/**
+ * Runs inside the money movement's DB transaction - whatever it writes commits or rolls back with it
+ */
+export type AfterPostingHook = (tx: PrismaTx, transactionId: string) => Promise<void>;
 
 export interface TransactionResult {
     success: boolean;
     transactionId?: string;
     referenceNumber?: string;
     ledgerEntryId?: string;
+    held?: boolean; // Parked in SUSPENSE for risk review
     error?: string;
 }
 
-// System account codes
-export const SYSTEM_ACCOUNTS = {
-    // Assets
-    PLATFORM_CASH: 'A-1001',
-    PLATFORM_BANK: 'A-1002',
-    AGENT_RECEIVABLES: 'A-1100',
-
-    // Liabilities
-    USER_WALLETS: 'L-2001',
-    AGENT_WALLETS: 'L-2002',
-    MERCHANT_WALLETS: 'L-2003',
-
-    // Revenue
-    DEPOSIT_FEES: 'R-4001',
-    WITHDRAW_FEES: 'R-4002',
-    TRANSFER_FEES: 'R-4003',
-
-    // Expense
-    AGENT_COMMISSIONS: 'E-5001',
-};
-
-/**
- * Create a double-entry ledger entry
- * Ensures debits = credits
- */
-export async function createLedgerEntry(data: LedgerEntryData): Promise<string> {
-    // Validate that debits equal credits
-    let totalDebits = 0;
-    let totalCredits = 0;
-
-    for (const line of data.lines) {
-        totalDebits += line.debit || 0;
-        totalCredits += line.credit || 0;
-    }
-
-    if (Math.abs(totalDebits - totalCredits) > 0.001) {
-        throw new Error(`Ledger entry not balanced: Debits ${totalDebits} != Credits ${totalCredits}`);
-    }
-
-    // Get the last entry hash for blockchain-like integrity
-    const lastEntry = await prisma.ledgerEntry.findFirst({
-        orderBy: { createdAt: 'desc' },
-        select: { hash: true },
-    });
-
-    // Create entry number
-    const entryNumber = generateReferenceNumber('LE');
-
-    // Create hash of this entry
-    const hashData = JSON.stringify({
-        entryNumber,
-        description: data.description,
-        lines: data.lines,
-        timestamp: new Date().toISOString(),
-    });
-    const hash = generateLedgerHash(hashData, lastEntry?.hash || undefined);
-
-    // Create ledger entry with lines
-    const entry = await prisma.ledgerEntry.create({
-        data: {
-            entryNumber,
-            description: data.description,
-            descriptionAr: data.descriptionAr,
-            hash,
-            previousHash: lastEntry?.hash,
-            createdBy: data.createdBy,
-            lines: {
-                create: await Promise.all(
-                    data.lines.map(async (line) => {
-                        const account = await prisma.ledgerAccount.findUnique({
-                            where: { code: line.accountCode },
-                        });
-                        if (!account) {
-                            throw new Error(`Account not found: ${line.accountCode}`);
-                        }
-                        return {
-                            accountId: account.id,
-                            debit: line.debit || 0,
-                            credit: line.credit || 0,
-                        };
-                    })
-                ),
-            },
-        },
-    });
-
-    // Update account balances - select field based on currency
-    const balanceField = data.currency === 'SYP' ? 'balanceSYP' : 'balance';
-
-    for (const line of data.lines) {
-        await prisma.ledgerAccount.update({
-            where: { code: line.accountCode },
-            data: {
-                [balanceField]: {
-                    increment: (line.debit || 0) - (line.credit || 0),
-                },
-            },
-        });
-    }
-
-    return entry.id;
-}
+// Rounding of the percentage parts of a fee - the platform fee takes whatever the agent share leaves
+export const FEE_ROUNDING: RoundingMode = 'HALF_UP';
+export const AGENT_SHARE_ROUNDING: RoundingMode = 'DOWN';
 
 /**
  * Calculate commission for a transaction based on system settings
+ * Amounts are exact to the minor unit (totalFee = platformFee + agentFee, netAmount = amount - totalFee)
  */
 export async function calculateCommission(
-    amount: number,
+    amount: MoneyInput,
     type: 'DEPOSIT' | 'WITHDRAW' | 'TRANSFER' | 'QR_PAYMENT' | 'SERVICE_PURCHASE',
     currency: 'USD' | 'SYP' = 'USD'
 ): Promise<{ platformFee: number; agentFee: number; totalFee: number; netAmount: number }> {
@@ -216,13 +122,18 @@ export async function calculateCommission(
         }
     }
 
-    const percentageFee = Math.round(amount * (feePercent / 100) * 100) / 100;
-    const totalFee = parseFloat((percentageFee + feeFixed).toFixed(2));
-    const agentFee = Math.round(totalFee * (agentCommissionPercent / 100) * 100) / 100;
-    const platformFee = parseFloat((totalFee - agentFee).toFixed(2));
-    const netAmount = parseFloat((amount - totalFee).toFixed(2));
-
-    return { platformFee, agentFee, totalFee, netAmount };
+    const gross = Money.of(amount, currency);
+    const totalFee = gross.percent(feePercent, FEE_ROUNDING).add(Money.of(feeFixed, currency, FEE_ROUNDING));
+    const agentFee = totalFee.percent(agentCommissionPercent, AGENT_SHARE_ROUNDING);
+    const platformFee = totalFee.subtract(agentFee);
+    const netAmount = gross.subtract(totalFee);
+
+    return {
+        platformFee: platformFee.toNumber(),
+        agentFee: agentFee.toNumber(),
+        totalFee: totalFee.toNumber(),
+        netAmount: netAmount.toNumber(),
+    };
 }
 
 /**
@@ -293,8 +204,8 @@ export async function processDeposit(
                 ? agent.agentProfile.currentCreditSYP
                 : agent.agentProfile.currentCredit;
 
-            if (agentCredit < amount) {
-                return { success: false, error: `رصيد الائتمان غير كافي. المتاح: ${currencySymbol}${agentCredit.toLocaleString()}` };
+            if (agentCredit.lessThan(amount)) {
+                return { success: false, error: `رصيد الائتمان غير كافي. المتاح: ${currencySymbol}${agentCredit.toNumber().toLocaleString()}` };
             }
 
             // Calculate commission from system settings
@@ -303,38 +214,15 @@ export async function processDeposit(
             // Create reference number
             const referenceNumber = generateReferenceNumber('DEP');
 
-            // ═══════════════════════════════════════════════════════════════
-            // DOUBLE-ENTRY ACCOUNTING
-            // ═══════════════════════════════════════════════════════════════
-
-            // 1. User wallet INCREASES (receives digital balance)
-            await tx.wallet.update({
-                where: { id: userWallet.id },
-                data: { balance: { increment: netAmount } },
+            // 1. Agent cash INCREASES (collects physical cash) - based on currency
+            await tx.agentProfile.update({
+                where: { id: agent.agentProfile.id },
+                data: currency === 'SYP'
+                    ? { cashCollectedSYP: { increment: amount }, totalDepositsSYP: { increment: amount } }
+                    : { cashCollected: { increment: amount }, totalDeposits: { increment: amount } },
             });
 
-            // 2. Agent credit DECREASES, cash INCREASES - based on currency
-            if (currency === 'SYP') {
-                await tx.agentProfile.update({
-                    where: { id: agent.agentProfile.id },
-                    data: {
-                        currentCreditSYP: { decrement: amount },
-                        cashCollectedSYP: { increment: amount },
-                        totalDepositsSYP: { increment: amount },
-                    },
-                });
-            } else {
-                await tx.agentProfile.update({
-                    where: { id: agent.agentProfile.id },
-                    data: {
-                        currentCredit: { decrement: amount },
-                        cashCollected: { increment: amount },
-                        totalDeposits: { increment: amount },
-                    },
-                });
-            }
-
-            // 3. Create transaction record
+            // 2. Create transaction record
             const transaction = await tx.transaction.create({
                 data: {
                     referenceNumber,
@@ -355,23 +243,17 @@ export async function processDeposit(
                 },
             });
 
-            // 4. Create Double-Entry Ledger Entry
-            const { createLedgerEntry, INTERNAL_ACCOUNTS } = await import('@/lib/financial/core-ledger');
-            await createLedgerEntry({
-                description: `Deposit: ${referenceNumber}`,
-                descriptionAr: `إيداع: ${referenceNumber}`,
+            // 3. Agent credit -> user wallet (+ fees), with the ledger entry
+            await postTransaction(tx, {
+                type: 'DEPOSIT',
+                currency,
+                referenceNumber,
                 transactionId: transaction.id,
                 createdBy: agentId,
-                currency, // Pass currency for correct balance field
-                tx, // Pass transaction context
-                lines: [
-                    // Debit Agent Ledger (Agent gives credit)
-                    { accountCode: INTERNAL_ACCOUNTS.AGENTS_LEDGER, debit: amount, credit: 0 },
-                    // Credit User Ledger (User receives balance)
-                    { accountCode: INTERNAL_ACCOUNTS.USERS_LEDGER, debit: 0, credit: netAmount },
-                    // Credit Fees (Platform receives fees)
-                    { accountCode: INTERNAL_ACCOUNTS.FEES, debit: 0, credit: totalFee },
-                ],
+                payer: agentParty(agent.agentProfile.id),
+                payee: walletParty(userWallet.id),
+                gross: amount,
+                fee: totalFee,
             });
 
             return {
@@ -380,7 +262,10 @@ export async function processDeposit(
                 referenceNumber,
             };
         });
-    } catch (error) {
+    } catch (error: any) {
+        if (POSTING_ERRORS[error?.message]) {
+            return { success: false, error: POSTING_ERRORS[error.message] };
+        }
         console.error('Deposit error:', error);
         return { success: false, error: 'Failed to process deposit' };
     }
@@ -461,8 +346,12 @@ export async function processWithdrawal(
                 ? agent.agentProfile.cashCollectedSYP
                 : agent.agentProfile.cashCollected;
 
-            if (agentCash < amount) {
-                return { success: false, error: `الوكيل ليس لديه نقد كافي. المتاح: ${currencySymbol}${agentCash.toLocaleString()}` };
+            if (agentCash.lessThan(amount)) {
+                return { success: false, error: `الوكيل ليس لديه نقد كافي. المتاح: ${currencySymbol}${agentCash.toNumber().toLocaleString()}` };
+            }
+
+            if (userWallet.balance.lessThan(amount)) {
+                return { success: false, error: `رصيد غير كافي. المتاح: ${currencySymbol}${userWallet.balance.toNumber().toLocaleString()}` };
             }
 
             // Calculate commission from system settings
@@ -470,46 +359,15 @@ export async function processWithdrawal(
 
             const referenceNumber = generateReferenceNumber('WTH');
 
-            // ═══════════════════════════════════════════════════════════════
-            // ATOMIC BALANCE CHECK - Prevents Race Condition
-            // ═══════════════════════════════════════════════════════════════
-
-            // Atomic update with balance check
-            const userUpdate = await tx.wallet.updateMany({
-                where: {
-                    id: userWallet.id,
-                    balance: { gte: amount } // Only update if balance is sufficient
-                },
-                data: { balance: { decrement: amount } },
+            // 1. Agent cash DECREASES (hands over physical cash) - based on currency
+            await tx.agentProfile.update({
+                where: { id: agent.agentProfile.id },
+                data: currency === 'SYP'
+                    ? { cashCollectedSYP: { decrement: amount }, totalWithdrawalsSYP: { increment: amount } }
+                    : { cashCollected: { decrement: amount }, totalWithdrawals: { increment: amount } },
             });
 
-            // If no rows updated, balance was insufficient
-            if (userUpdate.count === 0) {
-                return { success: false, error: `رصيد غير كافي. المتاح: ${currencySymbol}${userWallet.balance.toLocaleString()}` };
-            }
-
-            // 2. Agent credit INCREASES, cash DECREASES - based on currency
-            if (currency === 'SYP') {
-                await tx.agentProfile.update({
-                    where: { id: agent.agentProfile.id },
-                    data: {
-                        currentCreditSYP: { increment: netAmount },
-                        cashCollectedSYP: { decrement: amount },
-                        totalWithdrawalsSYP: { increment: amount },
-                    },
-                });
-            } else {
-                await tx.agentProfile.update({
-                    where: { id: agent.agentProfile.id },
-                    data: {
-                        currentCredit: { increment: netAmount },
-                        cashCollected: { decrement: amount },
-                        totalWithdrawals: { increment: amount },
-                    },
-                });
-            }
-
-            // 3. Create transaction record
+            // 2. Create transaction record
             const transaction = await tx.transaction.create({
                 data: {
                     referenceNumber,
@@ -530,23 +388,18 @@ export async function processWithdrawal(
                 },
             });
 
-            // 4. Create Double-Entry Ledger Entry
-            const { createLedgerEntry, INTERNAL_ACCOUNTS } = await import('@/lib/financial/core-ledger');
-            await createLedgerEntry({
-                description: `Withdrawal: ${referenceNumber}`,
-                descriptionAr: `سحب: ${referenceNumber}`,
+            // 3. User wallet -> agent credit (+ fees), with the ledger entry
+            // The wallet debit is the atomic balance check - a concurrent spend rolls everything back
+            await postTransaction(tx, {
+                type: 'WITHDRAW',
+                currency,
+                referenceNumber,
                 transactionId: transaction.id,
                 createdBy: agentId,
-                currency, // Pass currency for correct balance field
-                tx, // Pass transaction context
-                lines: [
-                    // Debit User Ledger (User gives up balance)
-                    { accountCode: INTERNAL_ACCOUNTS.USERS_LEDGER, debit: amount, credit: 0 },
-                    // Credit Agent Ledger (Agent receives credit back)
-                    { accountCode: INTERNAL_ACCOUNTS.AGENTS_LEDGER, debit: 0, credit: netAmount },
-                    // Credit Fees (Platform receives fees)
-                    { accountCode: INTERNAL_ACCOUNTS.FEES, debit: 0, credit: totalFee },
-                ],
+                payer: walletParty(userWallet.id),
+                payee: agentParty(agent.agentProfile.id),
+                gross: amount,
+                fee: totalFee,
             });
 
             return {
@@ -555,7 +408,10 @@ export async function processWithdrawal(
                 referenceNumber,
             };
         });
-    } catch (error) {
+    } catch (error: any) {
+        if (POSTING_ERRORS[error?.message]) {
+            return { success: false, error: POSTING_ERRORS[error.message] };
+        }
         console.error('Withdrawal error:', error);
         return { success: false, error: 'Failed to process withdrawal' };
     }
@@ -563,13 +419,17 @@ export async function processWithdrawal(
 
 /**
  * Process P2P transfer with dual currency support
+ * With a hold, the sender is debited but the funds wait in SUSPENSE for risk review
+ * afterPosting lets the caller record its own state in the same DB transaction
  */
 export async function processTransfer(
     senderId: string,
     receiverId: string,
     amount: number,
     note?: string,
-    currency: 'USD' | 'SYP' = 'USD'
+    currency: 'USD' | 'SYP' = 'USD',
+    hold?: HoldInstruction,
+    afterPosting?: AfterPostingHook
 ): Promise<TransactionResult> {
     try {
         return await prisma.$transaction(async (tx) => {
@@ -612,41 +472,22 @@ export async function processTransfer(
 
             const { platformFee, totalFee } = await calculateCommission(amount, 'TRANSFER', currency);
 
-            // ═══════════════════════════════════════════════════════════════
-            // ATOMIC BALANCE CHECK - Prevents Race Condition
-            // ═══════════════════════════════════════════════════════════════
-            const requiredBalance = amount + totalFee;
+            const requiredBalance = Money.of(amount, currency).add(Money.of(totalFee, currency));
             const referenceNumber = generateReferenceNumber('TRF');
 
-            // Atomic update with balance check - prevents negative balance
-            const senderUpdate = await tx.wallet.updateMany({
-                where: {
-                    id: senderWallet.id,
-                    balance: { gte: requiredBalance } // Only update if balance is sufficient
-                },
-                data: { balance: { decrement: amount + totalFee } },
-            });
-
-            // If no rows updated, balance was insufficient
-            if (senderUpdate.count === 0) {
+            if (senderWallet.balance.lessThan(requiredBalance.toDecimal())) {
                 const currencySymbol = currency === 'SYP' ? 'ل.س' : '$';
                 return {
                     success: false,
-                    error: `رصيد غير كافٍ. المتاح: ${currencySymbol}${senderWallet.balance.toLocaleString()}, المطلوب: ${currencySymbol}${requiredBalance.toLocaleString()}`
+                    error: `رصيد غير كافٍ. المتاح: ${currencySymbol}${senderWallet.balance.toNumber().toLocaleString()}, المطلوب: ${currencySymbol}${requiredBalance.toNumber().toLocaleString()}`
                 };
             }
 
-            // Add to receiver
-            await tx.wallet.update({
-                where: { id: receiverWallet.id },
-                data: { balance: { increment: amount } },
-            });
-
             const transaction = await tx.transaction.create({
                 data: {
                     referenceNumber,
                     type: 'TRANSFER',
-                    status: 'COMPLETED',
+                    status: hold ? 'PROCESSING' : 'COMPLETED',
                     senderId,
                     receiverId,
                     amount,
@@ -657,198 +498,41 @@ export async function processTransfer(
                     currency, // USD or SYP
                     description: note || `Transfer to ${receiver.fullName}`,
                     descriptionAr: note || `تحويل إلى ${receiver.fullNameAr || receiver.fullName}`,
-                    completedAt: new Date(),
+                    completedAt: hold ? undefined : new Date(),
                 },
             });
 
-            // Create Double-Entry Ledger Entry
-            const { createLedgerEntry, INTERNAL_ACCOUNTS } = await import('@/lib/financial/core-ledger');
-            await createLedgerEntry({
-                description: `Transfer: ${referenceNumber}`,
-                descriptionAr: `تحويل: ${referenceNumber}`,
+            // Sender -> receiver (+ fees); a held transfer waits in SUSPENSE
+            // The sender debit is the atomic balance check - a concurrent spend rolls everything back
+            await postTransaction(tx, {
+                type: 'TRANSFER',
+                currency,
+                referenceNumber,
                 transactionId: transaction.id,
                 createdBy: senderId,
-                currency, // Pass currency for correct balance field
-                tx, // Pass transaction context
-                lines: [
-                    // Debit Sender (gives up balance)
-                    { accountCode: INTERNAL_ACCOUNTS.USERS_LEDGER, debit: amount + totalFee, credit: 0 },
-                    // Credit Receiver (receives balance)
-                    { accountCode: INTERNAL_ACCOUNTS.USERS_LEDGER, debit: 0, credit: amount },
-                    // Credit Fees
-                    { accountCode: INTERNAL_ACCOUNTS.FEES, debit: 0, credit: totalFee },
-                ],
-            });
-
-            return {
-                success: true,
-                transactionId: transaction.id,
-                referenceNumber,
-            };
-        });
-    } catch (error) {
-        console.error('Transfer error:', error);
-        return { success: false, error: 'Failed to process transfer' };
-    }
-}
-
-/**
- * Process QR Payment to merchant
- */
-export async function processQRPayment(
-    payerId: string,
-    merchantId: string,
-    amount: number,
-    note?: string,
-    currency: 'USD' | 'SYP' = 'USD'
-): Promise<TransactionResult> {
-    try {
-        return await prisma.$transaction(async (tx) => {
-            const payer = await tx.user.findUnique({
-                where: { id: payerId },
-                include: { wallets: true },
+                payer: walletParty(senderWallet.id),
+                payee: walletParty(receiverWallet.id),
+                gross: requiredBalance.toDecimal(),
+                fee: totalFee,
+                hold,
             });
-            const merchant = await tx.user.findUnique({
-                where: { id: merchantId },
-                include: { wallets: true, merchantProfile: true },
-            });
-
-            // Get wallets based on selected currency
-            const payerWallet = (payer?.wallets as any[])?.find(
-                (w: { walletType: string; currency: string }) => w.walletType === 'PERSONAL' && w.currency === currency
-            );
-            const merchantWallet = (merchant?.wallets as any[])?.find(
-                (w: { walletType: string; currency: string }) => w.walletType === 'BUSINESS' && w.currency === currency
-            );
 
-            if (!payer || !payerWallet) {
-                return { success: false, error: 'Payer not found' };
+            if (afterPosting) {
+                await afterPosting(tx, transaction.id);
             }
-            if (!merchant || !merchantWallet || !merchant.merchantProfile) {
-                return { success: false, error: 'Merchant not found' };
-            }
-
-            const referenceNumber = generateReferenceNumber('QRP');
-
-            // ═══════════════════════════════════════════════════════════════
-            // ATOMIC BALANCE CHECK - Prevents Race Condition
-            // ═══════════════════════════════════════════════════════════════
-
-            // Atomic update with balance check
-            const payerUpdate = await tx.wallet.updateMany({
-                where: {
-                    id: payerWallet.id,
-                    balance: { gte: amount } // Only update if balance is sufficient
-                },
-                data: { balance: { decrement: amount } },
-            });
-
-            // If no rows updated, balance was insufficient
-            if (payerUpdate.count === 0) {
-                const currencySymbol = currency === 'SYP' ? 'ل.س' : '$';
-                return { success: false, error: `Insufficient balance. Available: ${currencySymbol}${payerWallet.balance.toLocaleString()}` };
-            }
-
-            await tx.wallet.update({
-                where: { id: merchantWallet.id },
-                data: { balance: { increment: amount } },
-            });
-
-            // Update merchant stats based on currency
-            if (currency === 'SYP') {
-                await tx.merchantProfile.update({
-                    where: { id: merchant.merchantProfile.id },
-                    data: {
-                        totalSalesSYP: { increment: amount },
-                        totalTransactionsSYP: { increment: 1 },
-                    },
-                });
-            } else {
-                await tx.merchantProfile.update({
-                    where: { id: merchant.merchantProfile.id },
-                    data: {
-                        totalSales: { increment: amount },
-                        totalTransactions: { increment: 1 },
-                    },
-                });
-            }
-
-            const transaction = await tx.transaction.create({
-                data: {
-                    referenceNumber,
-                    type: 'QR_PAYMENT',
-                    status: 'COMPLETED',
-                    senderId: payerId,
-                    receiverId: merchantId,
-                    amount,
-                    fee: 0,
-                    platformFee: 0,
-                    agentFee: 0,
-                    netAmount: amount,
-                    currency, // Use selected currency
-                    description: note || `Payment to ${merchant.merchantProfile.businessName}`,
-                    descriptionAr: note || `دفع إلى ${merchant.merchantProfile.businessNameAr || merchant.merchantProfile.businessName}`,
-                    completedAt: new Date(),
-                },
-            });
-
-            // Create Double-Entry Ledger Entry
-            const { createLedgerEntry, INTERNAL_ACCOUNTS } = await import('@/lib/financial/core-ledger');
-            await createLedgerEntry({
-                description: `QR Payment: ${referenceNumber}`,
-                descriptionAr: `دفع QR: ${referenceNumber}`,
-                transactionId: transaction.id,
-                createdBy: payerId,
-                currency, // Pass currency for correct balance field
-                tx, // Pass transaction context
-                lines: [
-                    // Debit User Ledger (User pays)
-                    { accountCode: INTERNAL_ACCOUNTS.USERS_LEDGER, debit: amount, credit: 0 },
-                    // Credit Merchant Ledger (Merchant receives)
-                    { accountCode: INTERNAL_ACCOUNTS.MERCHANTS_LEDGER, debit: 0, credit: amount },
-                ],
-            });
 
             return {
                 success: true,
                 transactionId: transaction.id,
                 referenceNumber,
+                held: !!hold,
             };
         });
-    } catch (error) {
-        console.error('QR Payment error:', error);
-        return { success: false, error: 'Failed to process payment' };
-    }
-}
-
-/**
- * Initialize system ledger accounts
- */
-export async function initializeSystemAccounts(): Promise<void> {
-    const accounts = [
-        { code: SYSTEM_ACCOUNTS.PLATFORM_CASH, name: 'Platform Cash', nameAr: 'النقد في الصندوق', type: 'ASSET' },
-        { code: SYSTEM_ACCOUNTS.PLATFORM_BANK, name: 'Platform Bank', nameAr: 'الحساب البنكي', type: 'ASSET' },
-        { code: SYSTEM_ACCOUNTS.AGENT_RECEIVABLES, name: 'Agent Receivables', nameAr: 'ذمم الوكلاء', type: 'ASSET' },
-        { code: SYSTEM_ACCOUNTS.USER_WALLETS, name: 'User Wallets', nameAr: 'محافظ المستخدمين', type: 'LIABILITY' },
-        { code: SYSTEM_ACCOUNTS.AGENT_WALLETS, name: 'Agent Wallets', nameAr: 'محافظ الوكلاء', type: 'LIABILITY' },
-        { code: SYSTEM_ACCOUNTS.MERCHANT_WALLETS, name: 'Merchant Wallets', nameAr: 'محافظ التجار', type: 'LIABILITY' },
-        { code: SYSTEM_ACCOUNTS.DEPOSIT_FEES, name: 'Deposit Fees', nameAr: 'رسوم الإيداع', type: 'REVENUE' },
-        { code: SYSTEM_ACCOUNTS.WITHDRAW_FEES, name: 'Withdrawal Fees', nameAr: 'رسوم السحب', type: 'REVENUE' },
-        { code: SYSTEM_ACCOUNTS.TRANSFER_FEES, name: 'Transfer Fees', nameAr: 'رسوم التحويل', type: 'REVENUE' },
-        { code: SYSTEM_ACCOUNTS.AGENT_COMMISSIONS, name: 'Agent Commissions', nameAr: 'عمولات الوكلاء', type: 'EXPENSE' },
-    ];
-
-    for (const account of accounts) {
-        await prisma.ledgerAccount.upsert({
-            where: { code: account.code },
-            update: {},
-            create: {
-                code: account.code,
-                name: account.name,
-                nameAr: account.nameAr,
-                type: account.type as any,
-                isSystem: true,
-            },
-        });
+    } catch (error: any) {
+        if (POSTING_ERRORS[error?.message]) {
+            return { success: false, error: POSTING_ERRORS[error.message] };
+        }
+        console.error('Transfer error:', error);
+        return { success: false, error: 'Failed to process transfer' };
     }
 }
@@ -0,0 +1,124 @@
+/**
+ * Dynamic Merchant QR
+ * Bank Basha
+ *
+ * Per-sale QR codes carrying amount, currency, order reference and expiry.
+ * The payload is signed (see generateDynamicMerchantQR) and backed by a
+ * MerchantDynamicQR row so each code can be paid exactly once.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { generateDynamicMerchantQR, parseDynamicMerchantQR } from '@/lib/utils/qr';
+import type { Currency } from '@/lib/wallet/currency';
+import { Money } from '@/lib/financial/money';
+
+export const DYNAMIC_QR_DEFAULT_EXPIRY_MINUTES = 10;
+export const DYNAMIC_QR_MAX_EXPIRY_MINUTES = 24 * 60;
+
+type DynamicQRRecord = NonNullable<Awaited<ReturnType<typeof prisma.merchantDynamicQR.findUnique>>>;
+type MerchantRecord = NonNullable<Awaited<ReturnType<typeof prisma.merchantProfile.findUnique>>>;
+
+/**
+ * Create a dynamic QR for a single sale
+ */
+export async function createDynamicQR(params: {
+    merchant: Pick<MerchantRecord, 'id' | 'merchantCode'>;
+    amount: number;
+    currency: Currency;
+    orderReference?: string;
+    expiresInMinutes?: number;
+}): Promise<{ id: string; qrData: string; expiresAt: Date }> {
+    const { merchant, currency, orderReference } = params;
+    // Stored and signed as the same minor-unit amount, or the signature check can never match
+    const amount = Money.of(params.amount, currency);
+    const expiresInMinutes = Math.min(
+        params.expiresInMinutes || DYNAMIC_QR_DEFAULT_EXPIRY_MINUTES,
+        DYNAMIC_QR_MAX_EXPIRY_MINUTES
+    );
+    const expiresAt = new Date(Date.now() + expiresInMinutes * 60 * 1000);
+
+    const dynamicQR = await prisma.merchantDynamicQR.create({
+        data: {
+            merchantId: merchant.id,
+            amount: amount.toDecimal(),
+            currency,
+            orderReference,
+            expiresAt,
+        },
+    });
+
+    const qrData = generateDynamicMerchantQR({
+        id: dynamicQR.id,
+        merchantCode: merchant.merchantCode,
+        amount: amount.toNumber(),
+        currency,
+        orderReference,
+        expiresAt: expiresAt.getTime(),
+    });
+
+    return { id: dynamicQR.id, qrData, expiresAt };
+}
+
+/**
+ * Check whether a dynamic QR has run past its expiry, marking it EXPIRED if so
+ */
+export async function expireDynamicQRIfNeeded(dynamicQR: DynamicQRRecord): Promise<string> {
+    if (dynamicQR.status === 'PENDING' && dynamicQR.expiresAt < new Date()) {
+        await prisma.merchantDynamicQR.updateMany({
+            where: { id: dynamicQR.id, status: 'PENDING' },
+            data: { status: 'EXPIRED' },
+        });
+        return 'EXPIRED';
+    }
+
+    return dynamicQR.status;
+}
+
+/**
+ * Resolve a scanned dynamic QR to a payable sale
+ * Rejects tampered, expired, cancelled and already-paid codes
+ */
+export async function resolveDynamicQR(qrData: string): Promise<{
+    dynamicQR?: DynamicQRRecord;
+    merchant?: MerchantRecord;
+    error?: string;
+}> {
+    const payload = parseDynamicMerchantQR(qrData);
+    if (!payload) {
+        return { error: 'رمز QR غير صالح' };
+    }
+
+    const dynamicQR = await prisma.merchantDynamicQR.findUnique({ where: { id: payload.id } });
+    if (!dynamicQR) {
+        return { error: 'رمز QR غير صالح' };
+    }
+
+    const merchant = await prisma.merchantProfile.findUnique({ where: { id: dynamicQR.merchantId } });
+
+    // Signed payload must agree with the stored sale
+    if (
+        !merchant ||
+        merchant.merchantCode !== payload.merchantCode ||
+        !dynamicQR.amount.equals(payload.amount) ||
+        dynamicQR.currency !== payload.currency
+    ) {
+        return { error: 'رمز QR غير صالح' };
+    }
+
+    if (!merchant.isActive) {
+        return { error: 'التاجر غير نشط' };
+    }
+
+    const status = await expireDynamicQRIfNeeded(dynamicQR);
+
+    switch (status) {
+        case 'PENDING':
+            return { dynamicQR, merchant };
+        case 'PAID':
+            return { error: 'تم دفع هذا الرمز مسبقاً' };
+        case 'CANCELLED':
+            return { error: 'تم إلغاء رمز الدفع' };
+        default:
+            return { error: 'انتهت صلاحية رمز الدفع' };
+    }
+}
@@ -0,0 +1,437 @@
+/**
+ * Bulk Payouts (Payroll)
+ * Bank Basha
+ *
+ * Pays many users from a merchant's BUSINESS wallet in one authorized batch:
+ * - Rows come from a CSV (phone,amount,note) or a saved PayrollTemplate
+ * - Every row is validated and priced with calculateCommission('TRANSFER') before the merchant enters the PIN
+ * - Each row is posted as a TRANSFER in its own DB transaction (MRC-LEDGER -> USR-LEDGER + FEES), so one
+ *   failed row never leaves money half-moved and never blocks the others
+ * - The batch keeps a per-row result for the downloadable report
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { generateReferenceNumber, sanitizePhoneNumber, validateAmount } from '@/lib/auth/security';
+import { calculateCommission } from '@/lib/ledger/ledger';
+import { postTransaction, walletParty } from '@/lib/financial/posting-engine';
+import { Money, fitsMinorUnits, type MoneyInput } from '@/lib/financial/money';
+import { sendPushNotification } from '@/lib/firebase/admin';
+import { formatCurrency, type Currency } from '@/lib/wallet/currency';
+
+export const MAX_PAYOUT_ROWS = 500;
+
+export interface PayoutRowInput {
+    phone: string;
+    amount: number;
+    note?: string;
+}
+
+export interface ValidatedPayoutRow extends PayoutRowInput {
+    rowNumber: number;
+    fee: number;
+    valid: boolean;
+    error?: string;
+    recipientId?: string;
+    recipientName?: string;
+}
+
+export interface PayoutValidation {
+    rows: ValidatedPayoutRow[];
+    totalAmount: number;
+    totalFee: number;
+    invalidCount: number;
+}
+
+/**
+ * Split one CSV line, honouring double-quoted fields ("Ahmad, Jr.")
+ */
+function splitCSVLine(line: string): string[] {
+    const cells: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '"') {
+            if (inQuotes && line[i + 1] === '"') {
+                current += '"';
+                i++;
+            } else {
+                inQuotes = !inQuotes;
+            }
+        } else if (char === ',' && !inQuotes) {
+            cells.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    cells.push(current.trim());
+    return cells;
+}
+
+/**
+ * Parse "phone,amount,note" CSV; a header row is skipped if present
+ * Unparseable amounts come back as NaN and are reported by validatePayoutRows
+ */
+export function parsePayoutCSV(csv: string): PayoutRowInput[] {
+    const lines = csv.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim() !== '');
+
+    if (lines.length > 0 && /[a-zA-Z\u0600-\u06FF]/.test(splitCSVLine(lines[0])[0])) {
+        lines.shift();
+    }
+
+    return lines.map(line => {
+        const [phone = '', amount = '', ...note] = splitCSVLine(line);
+        return {
+            phone,
+            amount: amount === '' ? NaN : Number(amount),
+            note: note.join(', ') || undefined,
+        };
+    });
+}
+
+/**
+ * Rows for a batch from whichever source the merchant used - CSV text, explicit rows or a saved template
+ */
+export async function resolvePayoutRows(
+    merchantProfileId: string,
+    input: { csv?: string; rows?: PayoutRowInput[]; templateId?: string }
+): Promise<{ rows?: PayoutRowInput[]; error?: string }> {
+    let rows: PayoutRowInput[] = [];
+
+    if (input.templateId) {
+        const template = await prisma.payrollTemplate.findFirst({
+            where: { id: input.templateId, merchantId: merchantProfileId },
+        });
+        if (!template) {
+            return { error: 'القالب غير موجود' };
+        }
+        rows = JSON.parse(template.rows) as PayoutRowInput[];
+    } else if (input.csv) {
+        rows = parsePayoutCSV(input.csv);
+    } else if (input.rows) {
+        rows = input.rows;
+    }
+
+    if (rows.length === 0) {
+        return { error: 'لا توجد صفوف في الدفعة' };
+    }
+    if (rows.length > MAX_PAYOUT_ROWS) {
+        return { error: `الحد الأقصى ${MAX_PAYOUT_ROWS} صف في الدفعة الواحدة` };
+    }
+
+    return { rows };
+}
+
+/**
+ * Validate every row against the recipients and price it
+ */
+export async function validatePayoutRows(
+    merchantUserId: string,
+    rows: PayoutRowInput[],
+    currency: Currency
+): Promise<PayoutValidation> {
+    const phones = rows.map(row => sanitizePhoneNumber(row.phone || ''));
+    const recipients = await prisma.user.findMany({
+        where: { phone: { in: phones } },
+        include: { wallets: true },
+    });
+    const recipientsByPhone = new Map(recipients.map(r => [r.phone, r]));
+    const seenPhones = new Set<string>();
+
+    const validated: ValidatedPayoutRow[] = [];
+
+    for (let i = 0; i < rows.length; i++) {
+        const row = rows[i];
+        const phone = phones[i];
+        const base = { rowNumber: i + 1, phone, amount: row.amount, note: row.note, fee: 0 };
+
+        const fail = (error: string) => {
+            validated.push({ ...base, valid: false, error });
+        };
+
+        if (phone.replace(/\D/g, '').length < 9) {
+            fail('رقم هاتف غير صالح');
+            continue;
+        }
+        if (!Number.isFinite(row.amount) || !validateAmount(row.amount) || !fitsMinorUnits(row.amount, currency)) {
+            fail('مبلغ غير صالح');
+            continue;
+        }
+        if (row.note && row.note.length > 200) {
+            fail('الملاحظة طويلة جداً');
+            continue;
+        }
+        if (seenPhones.has(phone)) {
+            fail('رقم مكرر في الدفعة');
+            continue;
+        }
+        seenPhones.add(phone);
+
+        const recipient = recipientsByPhone.get(phone);
+        if (!recipient || !recipient.isActive) {
+            fail('المستلم غير موجود');
+            continue;
+        }
+        if (recipient.id === merchantUserId) {
+            fail('لا يمكن التحويل لنفسك');
+            continue;
+        }
+        if (recipient.userType === 'AGENT') {
+            fail('لا يمكن التحويل للوكلاء');
+            continue;
+        }
+        if (!recipient.wallets.some(w => w.currency === currency && w.walletType === 'PERSONAL')) {
+            fail('المستلم ليس لديه محفظة بهذه العملة');
+            continue;
+        }
+
+        const { totalFee } = await calculateCommission(row.amount, 'TRANSFER', currency);
+
+        validated.push({
+            ...base,
+            fee: totalFee,
+            valid: true,
+            recipientId: recipient.id,
+            recipientName: recipient.fullNameAr || recipient.fullName,
+        });
+    }
+
+    const validRows = validated.filter(row => row.valid);
+
+    return {
+        rows: validated,
+        totalAmount: Money.sum(validRows.map(row => Money.of(row.amount, currency)), currency).toNumber(),
+        totalFee: Money.sum(validRows.map(row => Money.of(row.fee, currency)), currency).toNumber(),
+        invalidCount: validated.length - validRows.length,
+    };
+}
+
+/**
+ * Pay one row atomically - business wallet debit, recipient credit, transaction and ledger entry
+ */
+async function executePayoutRow(
+    row: ValidatedPayoutRow,
+    batchId: string,
+    merchantUserId: string,
+    businessWalletId: string,
+    businessName: string,
+    currency: Currency
+): Promise<{ transactionId: string; referenceNumber: string }> {
+    return prisma.$transaction(async (tx) => {
+        const recipientWallet = await tx.wallet.findFirst({
+            where: { userId: row.recipientId, currency, walletType: 'PERSONAL' },
+        });
+
+        if (!recipientWallet) {
+            throw new Error('المستلم ليس لديه محفظة بهذه العملة');
+        }
+
+        const referenceNumber = generateReferenceNumber('PAY');
+        const transaction = await tx.transaction.create({
+            data: {
+                senderId: merchantUserId,
+                receiverId: row.recipientId,
+                amount: row.amount,
+                fee: row.fee,
+                platformFee: row.fee,
+                netAmount: row.amount,
+                referenceNumber,
+                type: 'MERCHANT_TRANSFER',
+                status: 'COMPLETED',
+                currency,
+                description: row.note || `Payout from ${businessName}`,
+                descriptionAr: row.note || `دفعة من ${businessName}`,
+                metadata: JSON.stringify({
+                    fromBusinessWallet: true,
+                    businessWalletId,
+                    businessName,
+                    payoutBatchId: batchId,
+                    rowNumber: row.rowNumber,
+                }),
+                completedAt: new Date(),
+            },
+        });
+
+        // Business wallet pays amount + fee - the batch total was checked up front but the balance
+        // may have moved since, so the engine's atomic check still applies
+        try {
+            await postTransaction(tx, {
+                type: 'TRANSFER',
+                currency,
+                referenceNumber,
+                description: `Bulk Payout: ${referenceNumber}`,
+                descriptionAr: `دفعة رواتب: ${referenceNumber}`,
+                transactionId: transaction.id,
+                createdBy: merchantUserId,
+                payer: walletParty(businessWalletId),
+                payee: walletParty(recipientWallet.id),
+                gross: Money.of(row.amount, currency).add(Money.of(row.fee, currency)).toDecimal(),
+                fee: row.fee,
+            });
+        } catch (error) {
+            if (error instanceof Error && error.message === 'INSUFFICIENT_BALANCE') {
+                throw new Error('رصيد حساب الأعمال غير كافٍ');
+            }
+            throw error;
+        }
+
+        return { transactionId: transaction.id, referenceNumber };
+    });
+}
+
+/**
+ * Create a batch for already-validated rows and pay them one by one
+ */
+export async function executePayoutBatch(params: {
+    merchantUserId: string;
+    merchantProfileId: string;
+    businessName: string;
+    businessWalletId: string;
+    currency: Currency;
+    validation: PayoutValidation;
+    templateId?: string;
+}) {
+    const { merchantUserId, merchantProfileId, businessName, businessWalletId, currency, validation, templateId } = params;
+
+    const batch = await prisma.payoutBatch.create({
+        data: {
+            merchantId: merchantProfileId,
+            createdBy: merchantUserId,
+            currency,
+            totalAmount: validation.totalAmount,
+            totalFee: validation.totalFee,
+            rowCount: validation.rows.length,
+            templateId,
+            items: {
+                create: validation.rows.map(row => ({
+                    rowNumber: row.rowNumber,
+                    phone: row.phone,
+                    amount: row.amount,
+                    fee: row.fee,
+                    note: row.note,
+                    recipientId: row.recipientId,
+                })),
+            },
+        },
+        include: { items: true },
+    });
+
+    const itemsByRow = new Map(batch.items.map(item => [item.rowNumber, item]));
+    const paid: { recipientId: string; amount: number; transactionId: string }[] = [];
+    let failedCount = 0;
+
+    for (const row of validation.rows) {
+        const item = itemsByRow.get(row.rowNumber)!;
+
+        try {
+            const { transactionId, referenceNumber } = await executePayoutRow(
+                row, batch.id, merchantUserId, businessWalletId, businessName, currency
+            );
+
+            await prisma.payoutBatchItem.update({
+                where: { id: item.id },
+                data: { status: 'COMPLETED', transactionId, referenceNumber },
+            });
+            paid.push({ recipientId: row.recipientId!, amount: row.amount, transactionId });
+        } catch (error) {
+            failedCount++;
+            await prisma.payoutBatchItem.update({
+                where: { id: item.id },
+                data: {
+                    status: 'FAILED',
+                    error: error instanceof Error ? error.message : 'Payout failed',
+                },
+            });
+        }
+    }
+
+    const status = failedCount === 0 ? 'COMPLETED' : paid.length === 0 ? 'FAILED' : 'PARTIAL';
+    const completedBatch = await prisma.payoutBatch.update({
+        where: { id: batch.id },
+        data: {
+            status,
+            successCount: paid.length,
+            failedCount,
+            completedAt: new Date(),
+        },
+    });
+
+    if (paid.length > 0) {
+        await prisma.notification.createMany({
+            data: paid.map(p => {
+                const formattedAmount = formatCurrency(p.amount, currency);
+                return {
+                    userId: p.recipientId,
+                    type: 'TRANSACTION',
+                    title: 'Transfer Received',
+                    titleAr: 'تحويل وارد',
+                    message: `Received ${formattedAmount} from ${businessName}`,
+                    messageAr: `استلمت ${formattedAmount} من ${businessName}`,
+                    metadata: JSON.stringify({ transactionId: p.transactionId, payoutBatchId: batch.id }),
+                };
+            }),
+        });
+
+        const recipients = await prisma.user.findMany({
+            where: { id: { in: paid.map(p => p.recipientId) }, fcmToken: { not: null } },
+            select: { id: true, fcmToken: true },
+        });
+        const amountsByRecipient = new Map(paid.map(p => [p.recipientId, p.amount]));
+
+        for (const recipient of recipients) {
+            sendPushNotification(
+                recipient.fcmToken!,
+                '💰 تحويل وارد!',
+                `استلمت ${formatCurrency(amountsByRecipient.get(recipient.id) || 0, currency)} من ${businessName}`,
+                { type: 'MERCHANT_TRANSFER_RECEIVED', payoutBatchId: batch.id, currency }
+            ).catch(err => console.error('Push payout error:', err));
+        }
+    }
+
+    return completedBatch;
+}
+
+/**
+ * Quote a CSV cell; text a spreadsheet would run as a formula (=, +, -, @, tab, CR) gets a
+ * leading ' - names and notes come from merchants and users. Plain numbers are left as they are.
+ */
+function escapeCSVCell(value: MoneyInput | null | undefined): string {
+    let text = value === null || value === undefined ? '' : String(value);
+    if (/^[=+\-@\t\r]/.test(text) && !/^[+-]?\d+(\.\d+)?$/.test(text)) {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Per-row result report for a finished batch
+ */
+export function buildPayoutReportCSV(items: {
+    rowNumber: number;
+    phone: string;
+    amount: MoneyInput;
+    fee: MoneyInput;
+    note: string | null;
+    status: string;
+    referenceNumber: string | null;
+    error: string | null;
+}[]): string {
+    const header = ['row', 'phone', 'amount', 'fee', 'note', 'status', 'reference', 'error'];
+    const lines = [...items]
+        .sort((a, b) => a.rowNumber - b.rowNumber)
+        .map(item => [
+            item.rowNumber,
+            item.phone,
+            item.amount,
+            item.fee,
+            item.note,
+            item.status,
+            item.referenceNumber,
+            item.error,
+        ].map(escapeCSVCell).join(','));
+
+    // BOM so Excel opens Arabic text correctly
+    return '\uFEFF' + [header.join(','), ...lines].join('\r\n');
+}
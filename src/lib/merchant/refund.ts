@@ -0,0 +1,215 @@
+/**
+ * Merchant Refunds
+ * Bank Basha
+ *
+ * Full or partial refund of a completed QR_PAYMENT:
+ * - Debits the merchant's BUSINESS wallet, credits the payer's PERSONAL wallet (same currency)
+ * - Creates a REFUND transaction linked to the original via MerchantRefund
+ * - Posted as a REFUND by the posting engine (MRC-LEDGER -> USR-LEDGER)
+ * - Transaction.refundedAmount caps the running total at the original amount
+ *
+ * The QR payment fee is not returned - only the amount the merchant received.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { generateReferenceNumber } from '@/lib/auth/security';
+import { postTransaction, walletParty } from '@/lib/financial/posting-engine';
+import { Money, type MoneyInput } from '@/lib/financial/money';
+import { sendPushNotification } from '@/lib/firebase/admin';
+import { formatCurrency, type Currency } from '@/lib/wallet/currency';
+
+export interface RefundResult {
+    success: boolean;
+    error?: string;
+    transactionId?: string;
+    referenceNumber?: string;
+    refundedAmount?: number;
+}
+
+const REFUND_ERRORS: Record<string, string> = {
+    TRANSACTION_NOT_REFUNDABLE: 'لا يمكن استرداد هذه المعاملة',
+    REFUND_EXCEEDS_ORIGINAL: 'مبلغ الاسترداد يتجاوز المبلغ المتبقي من الدفعة',
+    INSUFFICIENT_BALANCE: 'رصيد حساب الأعمال غير كافٍ',
+    PAYER_WALLET_NOT_FOUND: 'محفظة العميل غير موجودة',
+};
+
+/**
+ * Remaining refundable amount of a payment
+ */
+export function getRefundableAmount(transaction: { amount: MoneyInput; refundedAmount: MoneyInput; currency: string }): Money {
+    const currency = transaction.currency === 'SYP' ? 'SYP' : 'USD';
+    const remaining = Money.of(transaction.amount, currency).subtract(Money.of(transaction.refundedAmount, currency));
+    return remaining.isNegative() ? Money.zero(currency) : remaining;
+}
+
+export async function processMerchantRefund(params: {
+    transactionId: string;
+    merchantUserId: string;
+    amount: number;
+    reason?: string;
+}): Promise<RefundResult> {
+    const { transactionId, merchantUserId, amount, reason } = params;
+
+    const [original, merchantProfile] = await Promise.all([
+        prisma.transaction.findUnique({ where: { id: transactionId } }),
+        prisma.merchantProfile.findUnique({ where: { userId: merchantUserId } }),
+    ]);
+
+    if (
+        !original ||
+        !merchantProfile ||
+        original.type !== 'QR_PAYMENT' ||
+        original.receiverId !== merchantUserId ||
+        !original.senderId
+    ) {
+        return { success: false, error: 'المعاملة غير موجودة' };
+    }
+
+    if (original.status !== 'COMPLETED') {
+        return { success: false, error: REFUND_ERRORS.TRANSACTION_NOT_REFUNDABLE };
+    }
+
+    const currency = (original.currency === 'SYP' ? 'SYP' : 'USD') as Currency;
+    const refund = Money.of(amount, currency);
+
+    if (refund.greaterThan(getRefundableAmount(original))) {
+        return { success: false, error: REFUND_ERRORS.REFUND_EXCEEDS_ORIGINAL };
+    }
+
+    const payerId = original.senderId;
+    const referenceNumber = generateReferenceNumber('RFD');
+
+    try {
+        const refundTransaction = await prisma.$transaction(async (tx) => {
+            // Increment first - the row lock serialises concurrent refunds of the same payment
+            const locked = await tx.transaction.updateMany({
+                where: { id: original.id, status: 'COMPLETED' },
+                data: { refundedAmount: { increment: refund.toDecimal() } },
+            });
+            if (locked.count === 0) {
+                throw new Error('TRANSACTION_NOT_REFUNDABLE');
+            }
+
+            const updatedOriginal = await tx.transaction.findUnique({
+                where: { id: original.id },
+                select: { amount: true, refundedAmount: true },
+            });
+            if (!updatedOriginal || updatedOriginal.refundedAmount.greaterThan(updatedOriginal.amount)) {
+                throw new Error('REFUND_EXCEEDS_ORIGINAL');
+            }
+
+            const [merchantWallet, payerWallet] = await Promise.all([
+                tx.wallet.findFirst({ where: { userId: merchantUserId, currency, walletType: 'BUSINESS' } }),
+                tx.wallet.findFirst({ where: { userId: payerId, currency, walletType: 'PERSONAL' } }),
+            ]);
+            if (!merchantWallet) {
+                throw new Error('INSUFFICIENT_BALANCE');
+            }
+            if (!payerWallet) {
+                throw new Error('PAYER_WALLET_NOT_FOUND');
+            }
+
+            // Refunds reduce gross sales
+            await tx.merchantProfile.update({
+                where: { id: merchantProfile.id },
+                data: currency === 'SYP'
+                    ? { totalSalesSYP: { decrement: refund.toDecimal() } }
+                    : { totalSales: { decrement: refund.toDecimal() } },
+            });
+
+            const newTransaction = await tx.transaction.create({
+                data: {
+                    referenceNumber,
+                    type: 'REFUND',
+                    status: 'COMPLETED',
+                    senderId: merchantUserId,
+                    receiverId: payerId,
+                    amount: refund.toDecimal(),
+                    fee: 0,
+                    netAmount: refund.toDecimal(),
+                    currency,
+                    description: `Refund from ${merchantProfile.businessName} (${original.referenceNumber})`,
+                    descriptionAr: `استرداد من ${merchantProfile.businessNameAr || merchantProfile.businessName} (${original.referenceNumber})`,
+                    metadata: JSON.stringify({ originalTransactionId: original.id, reason }),
+                    completedAt: new Date(),
+                },
+            });
+
+            // Debit merchant BUSINESS wallet (atomic balance check), credit payer PERSONAL wallet
+            await postTransaction(tx, {
+                type: 'REFUND',
+                currency,
+                referenceNumber,
+                description: `Merchant refund: ${referenceNumber}`,
+                descriptionAr: `استرداد تاجر: ${referenceNumber}`,
+                transactionId: newTransaction.id,
+                createdBy: merchantUserId,
+                payer: walletParty(merchantWallet.id),
+                payee: walletParty(payerWallet.id),
+                gross: refund.toDecimal(),
+            });
+
+            await tx.merchantRefund.create({
+                data: {
+                    originalTransactionId: original.id,
+                    refundTransactionId: newTransaction.id,
+                    merchantId: merchantProfile.id,
+                    amount: refund.toDecimal(),
+                    currency,
+                    reason,
+                    createdBy: merchantUserId,
+                },
+            });
+
+            return { id: newTransaction.id, refundedAmount: updatedOriginal.refundedAmount };
+        });
+
+        await notifyRefund(payerId, merchantProfile.businessName, merchantProfile.businessNameAr, amount, currency, refundTransaction.id);
+
+        return {
+            success: true,
+            transactionId: refundTransaction.id,
+            referenceNumber,
+            refundedAmount: refundTransaction.refundedAmount.toNumber(),
+        };
+    } catch (error) {
+        const code = error instanceof Error ? error.message : '';
+        if (REFUND_ERRORS[code]) {
+            return { success: false, error: REFUND_ERRORS[code] };
+        }
+        throw error;
+    }
+}
+
+async function notifyRefund(
+    payerId: string,
+    businessName: string,
+    businessNameAr: string | null,
+    amount: number,
+    currency: Currency,
+    transactionId: string
+): Promise<void> {
+    const formattedAmount = formatCurrency(amount, currency);
+
+    await prisma.notification.create({
+        data: {
+            userId: payerId,
+            type: 'TRANSACTION',
+            title: 'Refund Received',
+            titleAr: 'تم استرداد مبلغ',
+            message: `${businessName} refunded ${formattedAmount} to your wallet`,
+            messageAr: `أعاد ${businessNameAr || businessName} مبلغ ${formattedAmount} إلى محفظتك`,
+            metadata: JSON.stringify({ transactionId }),
+        },
+    });
+
+    const payer = await prisma.user.findUnique({ where: { id: payerId }, select: { fcmToken: true } });
+    if (payer?.fcmToken) {
+        sendPushNotification(
+            payer.fcmToken,
+            '↩️ تم استرداد مبلغ',
+            `أعاد ${businessNameAr || businessName} مبلغ ${formattedAmount} إلى محفظتك`,
+            { type: 'REFUND_RECEIVED', transactionId, amount: amount.toString(), currency }
+        ).catch(err => console.error('Push refund error:', err));
+    }
+}
@@ -0,0 +1,101 @@
+/**
+ * Service Orders - settling seller-approved purchases
+ * Bank Basha
+ *
+ * A purchase that needs the seller's approval is paid into SUSPENSE (services/purchase).
+ * When the seller completes it the money moves SUSPENSE -> seller BUSINESS wallet (minus the
+ * fee); when the seller rejects or cancels it goes back SUSPENSE -> buyer PERSONAL wallet.
+ *
+ * Orders placed before purchases were posted only debited the buyer's wallet, so their money
+ * still sits in USR-LEDGER and is settled from there instead.
+ */
+
+import type { prisma } from '@/lib/db/prisma';
+import { INTERNAL_ACCOUNTS, type LedgerCurrency } from '@/lib/financial/core-ledger';
+import { postTransaction, walletParty, accountParty, SUSPENSE_PARTY } from '@/lib/financial/posting-engine';
+import type { MoneyInput } from '@/lib/financial/money';
+
+type PrismaTx = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
+
+export interface ServiceOrder {
+    userId: string;
+    referenceNumber: string;
+    transactionId: string | null;
+    totalAmount: MoneyInput;
+    fee: MoneyInput;
+}
+
+/**
+ * Currency and the account holding the order's money
+ */
+async function getOrderEscrow(tx: PrismaTx, order: ServiceOrder) {
+    const linkedTransaction = order.transactionId
+        ? await tx.transaction.findUnique({ where: { id: order.transactionId } })
+        : null;
+
+    return {
+        currency: (linkedTransaction?.currency || 'USD') as LedgerCurrency,
+        escrow: linkedTransaction?.ledgerEntryId
+            ? SUSPENSE_PARTY
+            : accountParty(INTERNAL_ACCOUNTS.USERS_LEDGER),
+    };
+}
+
+/**
+ * Pay a completed order out to the seller's BUSINESS wallet
+ * THROWS WALLET_NOT_FOUND when the seller has no business wallet in the order currency
+ */
+export async function releaseServiceOrder(tx: PrismaTx, order: ServiceOrder, sellerId: string): Promise<LedgerCurrency> {
+    const { currency, escrow } = await getOrderEscrow(tx, order);
+
+    const sellerWallet = await tx.wallet.findFirst({
+        where: { userId: sellerId, walletType: 'BUSINESS', currency },
+    });
+    if (!sellerWallet) {
+        throw new Error('WALLET_NOT_FOUND');
+    }
+
+    await postTransaction(tx, {
+        type: 'SERVICE_PURCHASE',
+        currency,
+        referenceNumber: order.referenceNumber,
+        description: `Service order completed: ${order.referenceNumber}`,
+        descriptionAr: `تنفيذ طلب خدمة: ${order.referenceNumber}`,
+        createdBy: sellerId,
+        payer: escrow,
+        payee: walletParty(sellerWallet.id),
+        gross: order.totalAmount,
+        fee: order.fee,
+    });
+
+    return currency;
+}
+
+/**
+ * Return a rejected or cancelled order to the buyer's PERSONAL wallet (fee included)
+ * THROWS WALLET_NOT_FOUND when the buyer has no wallet in the order currency
+ */
+export async function refundServiceOrder(tx: PrismaTx, order: ServiceOrder, processedBy: string): Promise<LedgerCurrency> {
+    const { currency, escrow } = await getOrderEscrow(tx, order);
+
+    const buyerWallet = await tx.wallet.findFirst({
+        where: { userId: order.userId, walletType: 'PERSONAL', currency },
+    });
+    if (!buyerWallet) {
+        throw new Error('WALLET_NOT_FOUND');
+    }
+
+    await postTransaction(tx, {
+        type: 'REFUND',
+        currency,
+        referenceNumber: order.referenceNumber,
+        description: `Service order refund: ${order.referenceNumber}`,
+        descriptionAr: `استرداد طلب خدمة: ${order.referenceNumber}`,
+        createdBy: processedBy,
+        payer: escrow,
+        payee: walletParty(buyerWallet.id),
+        gross: order.totalAmount,
+    });
+
+    return currency;
+}
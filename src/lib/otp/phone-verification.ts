@@ -0,0 +1,118 @@
+/**
+ * Phone Verification
+ * Bank Basha
+ *
+ * Registration proves the registrant owns the phone number:
+ * 1. /api/auth/register/otp sends a code by SMS (PhoneVerification row, code hashed)
+ * 2. /api/auth/register/verify-phone checks the code (MAX_ATTEMPTS tries)
+ * 3. /api/auth/register consumes the verified row - one verification, one account
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { generateOTP, hashOTP, verifyOTP, getOTPExpiry, isOTPExpired } from './generator';
+import { sendOtpSms } from '@/lib/sms/sms';
+
+export const PHONE_OTP_EXPIRY_MINUTES = 5;
+const MAX_ATTEMPTS = 5;
+
+// Time between entering the code and finishing the form (document uploads)
+const VERIFIED_VALIDITY_MS = 30 * 60 * 1000;
+
+type PrismaTx = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
+
+/**
+ * Create a verification and text the code
+ * The code is only returned for development responses
+ */
+export async function sendPhoneVerification(phone: string, ipAddress?: string) {
+    const code = generateOTP();
+
+    const verification = await prisma.phoneVerification.create({
+        data: {
+            phone,
+            codeHash: await hashOTP(code),
+            expiresAt: getOTPExpiry(PHONE_OTP_EXPIRY_MINUTES),
+            ipAddress,
+        },
+    });
+
+    const sent = await sendOtpSms(phone, code, 'REGISTRATION');
+
+    return { verificationId: verification.id, sent, code };
+}
+
+/**
+ * Check the code the user typed
+ */
+export async function verifyPhoneCode(
+    verificationId: string,
+    code: string
+): Promise<{ success: boolean; error?: string }> {
+    const verification = await prisma.phoneVerification.findUnique({ where: { id: verificationId } });
+
+    if (!verification || verification.consumedAt) {
+        return { success: false, error: 'طلب التحقق غير موجود، أعد إرسال الرمز' };
+    }
+    if (verification.verifiedAt) {
+        return { success: true };
+    }
+    if (isOTPExpired(verification.expiresAt)) {
+        return { success: false, error: 'انتهت صلاحية الرمز، أعد إرسال الرمز' };
+    }
+    if (verification.attempts >= MAX_ATTEMPTS) {
+        return { success: false, error: 'محاولات كثيرة، أعد إرسال الرمز' };
+    }
+
+    // Count the attempt before comparing so parallel guesses can't exceed the limit
+    const counted = await prisma.phoneVerification.updateMany({
+        where: { id: verification.id, attempts: { lt: MAX_ATTEMPTS } },
+        data: { attempts: { increment: 1 } },
+    });
+    if (counted.count === 0) {
+        return { success: false, error: 'محاولات كثيرة، أعد إرسال الرمز' };
+    }
+
+    if (!(await verifyOTP(code, verification.codeHash))) {
+        return { success: false, error: 'رمز التحقق غير صحيح' };
+    }
+
+    await prisma.phoneVerification.update({
+        where: { id: verification.id },
+        data: { verifiedAt: new Date() },
+    });
+
+    return { success: true };
+}
+
+function usableVerificationWhere(verificationId: string, phone: string) {
+    return {
+        id: verificationId,
+        phone,
+        consumedAt: null,
+        verifiedAt: { gte: new Date(Date.now() - VERIFIED_VALIDITY_MS) },
+    };
+}
+
+/**
+ * Whether the verification is verified for this phone, fresh and unused
+ */
+export async function isPhoneVerified(verificationId: string, phone: string): Promise<boolean> {
+    const count = await prisma.phoneVerification.count({ where: usableVerificationWhere(verificationId, phone) });
+    return count === 1;
+}
+
+/**
+ * Use the verification for the account being created (inside its transaction)
+ * Returns false if another registration got to it first
+ */
+export async function consumePhoneVerification(
+    tx: PrismaTx,
+    verificationId: string,
+    phone: string
+): Promise<boolean> {
+    const consumed = await tx.phoneVerification.updateMany({
+        where: usableVerificationWhere(verificationId, phone),
+        data: { consumedAt: new Date() },
+    });
+    return consumed.count === 1;
+}
@@ -0,0 +1,201 @@
+/**
+ * Rate Limiter
+ * Bank Basha
+ *
+ * Named policies with sliding-window limits per IP, per user and per phone.
+ * A request is counted against every dimension it is checked with; the most
+ * restrictive one decides. Counters are kept in the shared store (./store).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSecurityHeaders } from '@/lib/auth/security';
+import { getRateLimitStore } from './store';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export type RateLimitDimension = 'ip' | 'user' | 'phone';
+
+export interface RateLimitRule {
+    limit: number;
+    windowMs: number;
+}
+
+export type RateLimitPolicy = Partial<Record<RateLimitDimension, RateLimitRule>>;
+
+export const RATE_LIMIT_POLICIES = {
+    // Password step of login
+    LOGIN: {
+        ip: { limit: 10, windowMs: MINUTE },
+        phone: { limit: 5, windowMs: 15 * MINUTE },
+    },
+    // TOTP / recovery code step of login
+    LOGIN_2FA: {
+        ip: { limit: 5, windowMs: MINUTE },
+        user: { limit: 10, windowMs: 15 * MINUTE },
+    },
+    // Confirming an agent withdrawal (customer PIN / code read out to the agent)
+    WITHDRAWAL_CONFIRM: {
+        ip: { limit: 20, windowMs: 15 * MINUTE },
+        user: { limit: 10, windowMs: 15 * MINUTE },
+    },
+    // Merchant refunds (authorised by the 4-digit payment PIN)
+    MERCHANT_REFUND: {
+        ip: { limit: 20, windowMs: 15 * MINUTE },
+        user: { limit: 5, windowMs: 15 * MINUTE },
+    },
+    // Enabling/disabling 2FA and regenerating recovery codes
+    TWO_FACTOR_SETTINGS: {
+        user: { limit: 5, windowMs: MINUTE },
+    },
+    // Sending an OTP (transfers, withdrawals, registration)
+    OTP_SEND: {
+        ip: { limit: 20, windowMs: HOUR },
+        user: { limit: 5, windowMs: 10 * MINUTE },
+        phone: { limit: 5, windowMs: 10 * MINUTE },
+    },
+    // Phone -> name lookups (account enumeration)
+    USER_LOOKUP: {
+        ip: { limit: 30, windowMs: MINUTE },
+        user: { limit: 30, windowMs: MINUTE },
+        phone: { limit: 10, windowMs: 15 * MINUTE },
+    },
+    USER_SEARCH: {
+        ip: { limit: 60, windowMs: MINUTE },
+        user: { limit: 30, windowMs: MINUTE },
+    },
+    PASSWORD_RESET: {
+        ip: { limit: 5, windowMs: HOUR },
+        phone: { limit: 3, windowMs: HOUR },
+    },
+    // Entering the SMS code of a self-service reset
+    PASSWORD_RESET_VERIFY: {
+        ip: { limit: 10, windowMs: 15 * MINUTE },
+    },
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES;
+
+export type RateLimitSubject = Partial<Record<RateLimitDimension, string | null | undefined>>;
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    resetAt: Date;            // When the window of the deciding dimension rolls over
+    retryAfterSeconds: number; // 0 when allowed
+}
+
+/**
+ * Client IP - X-Real-IP is set by our nginx; otherwise the last X-Forwarded-For hop,
+ * the one our proxy appended (earlier hops come from the client and can be anything)
+ */
+export function getClientIp(request: NextRequest): string {
+    return request.headers.get('x-real-ip')
+        || request.headers.get('x-forwarded-for')?.split(',').pop()?.trim()
+        || 'unknown';
+}
+
+/**
+ * Time (ms) until one more request would fit under the limit
+ */
+function getRetryAfterMs(rule: RateLimitRule, current: number, previous: number, elapsed: number): number {
+    const { limit, windowMs } = rule;
+
+    // Still inside this window: wait for the previous window's weight to drop enough
+    if (current + 1 <= limit && previous > 0) {
+        return Math.max(0, windowMs * (1 - (limit - current - 1) / previous) - elapsed);
+    }
+
+    // Next window: this window's hits become the weighted "previous"
+    return (windowMs - elapsed) + Math.max(0, windowMs * (1 - (limit - 1) / current));
+}
+
+async function checkDimension(
+    policyName: RateLimitPolicyName,
+    dimension: RateLimitDimension,
+    value: string,
+    rule: RateLimitRule
+): Promise<RateLimitResult> {
+    const now = Date.now();
+    const windowStart = now - (now % rule.windowMs);
+    const elapsed = now - windowStart;
+
+    const { current, previous } = await getRateLimitStore().hit(
+        `${policyName}:${dimension}:${value}`,
+        windowStart,
+        rule.windowMs
+    );
+
+    const estimate = previous * (1 - elapsed / rule.windowMs) + current;
+    const allowed = estimate <= rule.limit;
+
+    return {
+        allowed,
+        limit: rule.limit,
+        remaining: Math.max(0, Math.floor(rule.limit - estimate)),
+        resetAt: new Date(windowStart + rule.windowMs),
+        retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil(getRetryAfterMs(rule, current, previous, elapsed) / 1000)),
+    };
+}
+
+/**
+ * Count a request against a policy
+ * Only the dimensions given in subject are checked. If the store is unreachable the
+ * request is allowed (logged) - an outage of the counter store must not lock everyone out.
+ */
+export async function checkRateLimit(
+    policyName: RateLimitPolicyName,
+    subject: RateLimitSubject
+): Promise<RateLimitResult> {
+    const policy: RateLimitPolicy = RATE_LIMIT_POLICIES[policyName];
+    const checks: Promise<RateLimitResult>[] = [];
+
+    for (const dimension of Object.keys(policy) as RateLimitDimension[]) {
+        const rule = policy[dimension];
+        const value = subject[dimension];
+        if (rule && value) {
+            checks.push(checkDimension(policyName, dimension, value, rule));
+        }
+    }
+
+    let results: RateLimitResult[];
+    try {
+        results = await Promise.all(checks);
+    } catch (error) {
+        console.error(`Rate limit store error (${policyName}):`, error);
+        results = [];
+    }
+
+    if (results.length === 0) {
+        return { allowed: true, limit: 0, remaining: 0, resetAt: new Date(), retryAfterSeconds: 0 };
+    }
+
+    const denied = results.filter(r => !r.allowed);
+    if (denied.length > 0) {
+        return denied.reduce((a, b) => (b.retryAfterSeconds > a.retryAfterSeconds ? b : a));
+    }
+    return results.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+}
+
+/**
+ * 429 with Retry-After and the RateLimit-* headers
+ */
+export function rateLimitExceededResponse(
+    result: RateLimitResult,
+    error: string = 'محاولات كثيرة، حاول لاحقاً'
+): NextResponse {
+    return NextResponse.json(
+        { error, retryAfter: result.retryAfterSeconds },
+        {
+            status: 429,
+            headers: {
+                ...getSecurityHeaders(),
+                'Retry-After': result.retryAfterSeconds.toString(),
+                'RateLimit-Limit': result.limit.toString(),
+                'RateLimit-Remaining': '0',
+                'RateLimit-Reset': result.retryAfterSeconds.toString(),
+            },
+        }
+    );
+}
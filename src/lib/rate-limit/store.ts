@@ -0,0 +1,127 @@
+/**
+ * Rate Limit Stores
+ * Bank Basha
+ *
+ * Counters live outside the process so every instance behind the load balancer
+ * sees the same numbers and a deploy doesn't reset them.
+ *
+ * The limiter uses a sliding-window counter: one counter per fixed window, and the
+ * estimate is current + previous * (part of the previous window still inside the sliding window).
+ * A store only has to increment the current window's counter and read the previous one.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+
+export interface WindowCounts {
+    current: number;   // Including this hit
+    previous: number;
+}
+
+export interface RateLimitStore {
+    hit(key: string, windowStart: number, windowMs: number): Promise<WindowCounts>;
+}
+
+/**
+ * Postgres (default) - one RateLimitBucket row per key and window
+ */
+class PostgresRateLimitStore implements RateLimitStore {
+    private lastCleanup = 0;
+
+    async hit(key: string, windowStart: number, windowMs: number): Promise<WindowCounts> {
+        const start = new Date(windowStart);
+        const expiresAt = new Date(windowStart + 2 * windowMs);
+
+        // Atomic increment - concurrent requests on other instances can't lose a hit
+        const [rows, previous] = await Promise.all([
+            prisma.$queryRaw<{ count: number }[]>`
+                INSERT INTO "rate_limit_buckets" ("key", "windowStart", "count", "expiresAt")
+                VALUES (${key}, ${start}, 1, ${expiresAt})
+                ON CONFLICT ("key", "windowStart")
+                DO UPDATE SET "count" = "rate_limit_buckets"."count" + 1
+                RETURNING "count"
+            `,
+            prisma.rateLimitBucket.findUnique({
+                where: { key_windowStart: { key, windowStart: new Date(windowStart - windowMs) } },
+                select: { count: true },
+            }),
+        ]);
+
+        this.cleanup();
+
+        return { current: Number(rows[0]?.count ?? 1), previous: previous?.count ?? 0 };
+    }
+
+    // Drop finished windows at most once a minute per instance
+    private cleanup(): void {
+        const now = Date.now();
+        if (now - this.lastCleanup < 60 * 1000) return;
+        this.lastCleanup = now;
+
+        prisma.rateLimitBucket
+            .deleteMany({ where: { expiresAt: { lt: new Date(now) } } })
+            .catch(error => console.error('Rate limit cleanup error:', error));
+    }
+}
+
+/**
+ * Redis-compatible store over a REST endpoint (Upstash and compatible proxies)
+ * Keys expire on their own, no cleanup needed
+ */
+class RedisRestRateLimitStore implements RateLimitStore {
+    private static readonly SCRIPT = `
+        local current = redis.call('INCR', KEYS[1])
+        if current == 1 then redis.call('PEXPIRE', KEYS[1], ARGV[1]) end
+        local previous = tonumber(redis.call('GET', KEYS[2]) or '0')
+        return { current, previous }
+    `;
+
+    constructor(private url: string, private token: string) { }
+
+    async hit(key: string, windowStart: number, windowMs: number): Promise<WindowCounts> {
+        const response = await fetch(this.url, {
+            method: 'POST',
+            headers: {
+                Authorization: `Bearer ${this.token}`,
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify([
+                'EVAL',
+                RedisRestRateLimitStore.SCRIPT,
+                '2',
+                `ratelimit:${key}:${windowStart}`,
+                `ratelimit:${key}:${windowStart - windowMs}`,
+                String(2 * windowMs),
+            ]),
+            cache: 'no-store',
+        });
+
+        const data = await response.json();
+        if (!response.ok || data.error || !Array.isArray(data.result)) {
+            throw new Error(`Redis rate limit store error: ${data.error || response.status}`);
+        }
+
+        return { current: Number(data.result[0]), previous: Number(data.result[1]) };
+    }
+}
+
+let store: RateLimitStore | null = null;
+
+/**
+ * Store from RATE_LIMIT_STORE ("postgres" by default, "redis" needs RATE_LIMIT_REDIS_URL/TOKEN)
+ */
+export function getRateLimitStore(): RateLimitStore {
+    if (!store) {
+        const url = process.env.RATE_LIMIT_REDIS_URL;
+        const token = process.env.RATE_LIMIT_REDIS_TOKEN;
+
+        if (process.env.RATE_LIMIT_STORE === 'redis' && url && token) {
+            store = new RedisRestRateLimitStore(url, token);
+        } else {
+            if (process.env.RATE_LIMIT_STORE === 'redis') {
+                console.error('RATE_LIMIT_STORE=redis without RATE_LIMIT_REDIS_URL/TOKEN - using Postgres');
+            }
+            store = new PostgresRateLimitStore();
+        }
+    }
+    return store;
+}
@@ -0,0 +1,74 @@
+/**
+ * Internal Scheduler for Wallet-to-Ledger Reconciliation
+ * This runs on app startup and reconciles wallets with the ledger every hour
+ */
+
+let isSchedulerRunning = false;
+let schedulerInterval: NodeJS.Timeout | null = null;
+
+const RECONCILIATION_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Run one reconciliation
+ */
+async function executeReconciliation() {
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret) {
+        console.log('⚠️ CRON_SECRET not set, skipping reconciliation');
+        return;
+    }
+
+    try {
+        const response = await fetch(`${baseUrl}/api/cron/reconciliation`, {
+            method: 'POST',
+            headers: {
+                'x-cron-secret': cronSecret,
+                'Content-Type': 'application/json',
+            },
+        });
+
+        const data = await response.json();
+
+        if (data.success) {
+            if (data.status === 'BROKEN') {
+                console.error(`🚨 Reconciliation break: ${data.discrepancies.length} diverging accounts (run ${data.runId})`);
+            } else {
+                console.log(`✅ Reconciliation balanced (${data.durationMs}ms)`);
+            }
+        } else {
+            console.error('❌ Reconciliation failed:', data.error);
+        }
+    } catch (error) {
+        console.error('❌ Reconciliation scheduler error:', error);
+    }
+}
+
+/**
+ * Start the reconciliation scheduler
+ */
+export function startReconciliationScheduler() {
+    if (isSchedulerRunning) {
+        console.log('📅 Reconciliation scheduler already running');
+        return;
+    }
+
+    console.log('🚀 Starting reconciliation scheduler...');
+    isSchedulerRunning = true;
+
+    executeReconciliation();
+    schedulerInterval = setInterval(executeReconciliation, RECONCILIATION_INTERVAL_MS);
+}
+
+/**
+ * Stop the scheduler
+ */
+export function stopReconciliationScheduler() {
+    if (schedulerInterval) {
+        clearInterval(schedulerInterval);
+        schedulerInterval = null;
+    }
+    isSchedulerRunning = false;
+    console.log('🛑 Reconciliation scheduler stopped');
+}
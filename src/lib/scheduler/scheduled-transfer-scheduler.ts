@@ -0,0 +1,73 @@
+/**
+ * Internal Scheduler for Scheduled & Recurring Transfers
+ * This runs on app startup and executes due transfers every few minutes
+ */
+
+let isSchedulerRunning = false;
+let schedulerInterval: NodeJS.Timeout | null = null;
+
+const SCHEDULED_TRANSFER_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes
+
+/**
+ * Execute all due scheduled transfers
+ */
+async function executeScheduledTransfers() {
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret) {
+        console.log('⚠️ CRON_SECRET not set, skipping scheduled transfers');
+        return;
+    }
+
+    try {
+        const response = await fetch(`${baseUrl}/api/cron/scheduled-transfers`, {
+            method: 'POST',
+            headers: {
+                'x-cron-secret': cronSecret,
+                'Content-Type': 'application/json',
+            },
+        });
+
+        const data = await response.json();
+
+        if (data.success) {
+            if (data.due > 0) {
+                console.log(`✅ Scheduled transfers: ${data.succeeded} sent, ${data.failed} failed (${data.due} due)`);
+            }
+        } else {
+            console.error('❌ Scheduled transfers failed:', data.error);
+        }
+    } catch (error) {
+        console.error('❌ Scheduled transfer scheduler error:', error);
+    }
+}
+
+/**
+ * Start the scheduled transfer scheduler
+ */
+export function startScheduledTransferScheduler() {
+    if (isSchedulerRunning) {
+        console.log('📅 Scheduled transfer scheduler already running');
+        return;
+    }
+
+    console.log('🚀 Starting scheduled transfer scheduler...');
+    isSchedulerRunning = true;
+
+    // Catch up on anything that became due while the server was down, then poll
+    executeScheduledTransfers();
+    schedulerInterval = setInterval(executeScheduledTransfers, SCHEDULED_TRANSFER_INTERVAL_MS);
+}
+
+/**
+ * Stop the scheduler
+ */
+export function stopScheduledTransferScheduler() {
+    if (schedulerInterval) {
+        clearInterval(schedulerInterval);
+        schedulerInterval = null;
+    }
+    isSchedulerRunning = false;
+    console.log('🛑 Scheduled transfer scheduler stopped');
+}
@@ -0,0 +1,87 @@
+// SMS Service for Bank Basha
+// Provider chosen by SMS_PROVIDER: twilio in production, console or file stand-ins for development
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+export type SmsProviderName = 'console' | 'file' | 'twilio';
+
+interface SmsProvider {
+    send(to: string, body: string): Promise<void>;
+}
+
+// Development: print to the server log
+const consoleProvider: SmsProvider = {
+    async send(to, body) {
+        console.log(`📱 [SMS] to ${to}: ${body}`);
+    },
+};
+
+// Development: append to a file (SMS_FILE_PATH, default logs/sms.log) - handy for e2e tests
+const fileProvider: SmsProvider = {
+    async send(to, body) {
+        const filePath = process.env.SMS_FILE_PATH || path.join(process.cwd(), 'logs', 'sms.log');
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.appendFile(filePath, `${new Date().toISOString()}\t${to}\t${body.replace(/\n/g, ' ')}\n`);
+    },
+};
+
+// Twilio Messages REST API
+const twilioProvider: SmsProvider = {
+    async send(to, body) {
+        const accountSid = process.env.TWILIO_ACCOUNT_SID;
+        const authToken = process.env.TWILIO_AUTH_TOKEN;
+        const from = process.env.TWILIO_FROM_NUMBER;
+
+        if (!accountSid || !authToken || !from) {
+            throw new Error('Twilio is not configured (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER)');
+        }
+
+        const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+            method: 'POST',
+            headers: {
+                Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+                'Content-Type': 'application/x-www-form-urlencoded',
+            },
+            body: new URLSearchParams({ To: to, From: from, Body: body }).toString(),
+        });
+
+        if (!response.ok) {
+            const data = await response.json().catch(() => ({}));
+            throw new Error(`Twilio error ${response.status}: ${data.message || 'unknown'}`);
+        }
+    },
+};
+
+const providers: Record<SmsProviderName, SmsProvider> = {
+    console: consoleProvider,
+    file: fileProvider,
+    twilio: twilioProvider,
+};
+
+function getProviderName(): SmsProviderName {
+    const name = process.env.SMS_PROVIDER as SmsProviderName | undefined;
+    if (name && name in providers) return name;
+    return process.env.NODE_ENV === 'production' ? 'twilio' : 'console';
+}
+
+/**
+ * Send an SMS - returns false instead of throwing so callers can fall back
+ */
+export async function sendSms(to: string, body: string): Promise<boolean> {
+    try {
+        await providers[getProviderName()].send(to, body);
+        return true;
+    } catch (error) {
+        console.error('SMS sending error:', error);
+        return false;
+    }
+}
+
+/**
+ * One-time code message (Arabic, with the app name so users can tell it's genuine)
+ */
+export async function sendOtpSms(to: string, code: string, purpose: 'REGISTRATION' | 'TRANSFER'): Promise<boolean> {
+    const action = purpose === 'REGISTRATION' ? 'لتأكيد رقم هاتفك' : 'لتأكيد التحويل';
+    return sendSms(to, `بنك باشا: رمز التحقق ${code} ${action}. صالح لمدة 5 دقائق. لا تشاركه مع أحد.`);
+}
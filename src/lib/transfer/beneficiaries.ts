@@ -0,0 +1,23 @@
+/**
+ * Saved Beneficiaries & Favorite Merchants
+ * Bank Basha
+ */
+
+import { prisma } from '@/lib/db/prisma';
+
+export const BENEFICIARY_TYPES = ['USER', 'MERCHANT'] as const;
+export type BeneficiaryType = typeof BENEFICIARY_TYPES[number];
+
+/**
+ * Bump lastUsedAt on a saved beneficiary after a successful payment to it
+ * No-op if the recipient isn't saved
+ */
+export async function touchBeneficiary(
+    userId: string,
+    target: { phone: string } | { merchantCode: string }
+): Promise<void> {
+    await prisma.beneficiary.updateMany({
+        where: { userId, ...target },
+        data: { lastUsedAt: new Date() },
+    });
+}
@@ -0,0 +1,151 @@
+/**
+ * Payment Requests ("Request Money")
+ * Bank Basha
+ *
+ * 1. Requester asks a payer for an amount (PENDING, expires after PAYMENT_REQUEST_EXPIRY_HOURS)
+ * 2. Payer taps "Pay" -> /api/transactions/transfer/initiate with paymentRequestId
+ * 3. /api/transactions/transfer/confirm verifies the OTP, claims the request and settles it
+ * 4. A payment held by the risk hook leaves the request HELD - it is PAID only once the funds
+ *    are released (held-funds), and back to PENDING if the hold is cancelled
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { sendPushNotification } from '@/lib/firebase/admin';
+import { formatCurrency, type Currency } from '@/lib/wallet/currency';
+
+export const PAYMENT_REQUEST_EXPIRY_HOURS = 72;
+
+type PaymentRequestRecord = NonNullable<Awaited<ReturnType<typeof prisma.paymentRequest.findUnique>>>;
+
+export function getPaymentRequestExpiry(): Date {
+    return new Date(Date.now() + PAYMENT_REQUEST_EXPIRY_HOURS * 60 * 60 * 1000);
+}
+
+/**
+ * Status as the user should see it - PENDING requests past their expiry read as EXPIRED
+ */
+export function getEffectiveStatus(paymentRequest: Pick<PaymentRequestRecord, 'status' | 'expiresAt'>): string {
+    if (paymentRequest.status === 'PENDING' && paymentRequest.expiresAt < new Date()) {
+        return 'EXPIRED';
+    }
+    return paymentRequest.status;
+}
+
+/**
+ * Load a request the given user can pay right now
+ */
+export async function getPayablePaymentRequest(
+    paymentRequestId: string,
+    payerId: string
+): Promise<{ paymentRequest?: PaymentRequestRecord; error?: string }> {
+    const paymentRequest = await prisma.paymentRequest.findUnique({ where: { id: paymentRequestId } });
+
+    if (!paymentRequest || paymentRequest.payerId !== payerId) {
+        return { error: 'طلب الدفع غير موجود' };
+    }
+
+    switch (getEffectiveStatus(paymentRequest)) {
+        case 'PENDING':
+            return { paymentRequest };
+        case 'PAID':
+        case 'PROCESSING':
+            return { error: 'تم دفع هذا الطلب مسبقاً' };
+        case 'HELD':
+            return { error: 'دفع هذا الطلب قيد المراجعة الأمنية' };
+        case 'DECLINED':
+            return { error: 'تم رفض طلب الدفع' };
+        case 'CANCELLED':
+            return { error: 'تم إلغاء طلب الدفع' };
+        default:
+            return { error: 'انتهت صلاحية طلب الدفع' };
+    }
+}
+
+/**
+ * Claim a request before money moves so it can only be paid once
+ * Returns false if it was paid, declined or expired in the meantime
+ */
+export async function claimPaymentRequest(paymentRequestId: string, payerId: string): Promise<boolean> {
+    const claimed = await prisma.paymentRequest.updateMany({
+        where: { id: paymentRequestId, payerId, status: 'PENDING', expiresAt: { gt: new Date() } },
+        data: { status: 'PROCESSING' },
+    });
+    return claimed.count > 0;
+}
+
+export async function releasePaymentRequest(paymentRequestId: string): Promise<void> {
+    await prisma.paymentRequest.updateMany({
+        where: { id: paymentRequestId, status: 'PROCESSING' },
+        data: { status: 'PENDING' },
+    });
+}
+
+/**
+ * The payment of a claimed request was held for risk review - nothing reached the requester yet
+ */
+export async function holdPaymentRequest(paymentRequestId: string, transactionId: string): Promise<void> {
+    await prisma.paymentRequest.update({
+        where: { id: paymentRequestId },
+        data: { status: 'HELD', transactionId },
+    });
+}
+
+/**
+ * Settle the request behind a held payment once an admin decided on it:
+ * released -> PAID (requester is told now), cancelled -> PENDING again so it can be paid later
+ */
+export async function settleHeldPaymentRequest(transactionId: string, released: boolean): Promise<void> {
+    const paymentRequest = await prisma.paymentRequest.findFirst({
+        where: { transactionId, status: 'HELD' },
+    });
+    if (!paymentRequest) return;
+
+    if (released) {
+        await completePaymentRequest(paymentRequest.id, transactionId);
+        return;
+    }
+
+    await prisma.paymentRequest.updateMany({
+        where: { id: paymentRequest.id, status: 'HELD' },
+        data: { status: 'PENDING', transactionId: null },
+    });
+}
+
+/**
+ * Mark a claimed request as paid and tell the requester
+ */
+export async function completePaymentRequest(paymentRequestId: string, transactionId: string): Promise<void> {
+    const paymentRequest = await prisma.paymentRequest.update({
+        where: { id: paymentRequestId },
+        data: { status: 'PAID', transactionId, paidAt: new Date(), respondedAt: new Date() },
+    });
+
+    const [requester, payer] = await Promise.all([
+        prisma.user.findUnique({ where: { id: paymentRequest.requesterId } }),
+        prisma.user.findUnique({ where: { id: paymentRequest.payerId } }),
+    ]);
+
+    const formattedAmount = formatCurrency(paymentRequest.amount, paymentRequest.currency as Currency);
+    const payerName = payer?.fullNameAr || payer?.fullName || 'مستخدم';
+
+    await prisma.notification.create({
+        data: {
+            userId: paymentRequest.requesterId,
+            type: 'TRANSACTION',
+            title: 'Payment Request Paid',
+            titleAr: 'تم دفع طلبك',
+            message: `${payer?.fullName || 'A user'} paid your request of ${formattedAmount}`,
+            messageAr: `دفع ${payerName} طلبك بمبلغ ${formattedAmount}`,
+            metadata: JSON.stringify({ paymentRequestId, transactionId }),
+        },
+    });
+
+    if (requester?.fcmToken) {
+        sendPushNotification(
+            requester.fcmToken,
+            '✅ تم دفع طلبك',
+            `دفع ${payerName} طلبك بمبلغ ${formattedAmount}`,
+            { type: 'PAYMENT_REQUEST_PAID', paymentRequestId, transactionId }
+        ).catch(err => console.error('Push requester error:', err));
+    }
+}
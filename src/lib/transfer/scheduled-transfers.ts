@@ -0,0 +1,329 @@
+/**
+ * Scheduled & Recurring Transfers
+ * Bank Basha
+ *
+ * 1. User creates a schedule (ONCE / WEEKLY / MONTHLY), authorized once with the payment PIN
+ * 2. The scheduled-transfer scheduler calls runDueScheduledTransfers() periodically
+ * 3. Each due schedule is claimed, checked against risk limits and paid with processTransfer
+ * 4. On failure (e.g. insufficient balance) the run is retried, then skipped (recurring) or failed (one-off)
+ *
+ * A paid run moves the schedule on in the same DB transaction as the transfer, so a crash
+ * after the payment can never leave the occurrence due again. Runs missed while the server
+ * was down are skipped, not paid back to back.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { processTransfer } from '@/lib/ledger/ledger';
+import { assessTransactionRisk } from '@/lib/financial/risk-hook';
+import { notifyTransactionHeld } from '@/lib/financial/held-funds';
+import { sendPushNotification } from '@/lib/firebase/admin';
+import { formatCurrency, type Currency } from '@/lib/wallet/currency';
+
+export const SCHEDULED_TRANSFER_FREQUENCIES = ['ONCE', 'WEEKLY', 'MONTHLY'] as const;
+export type ScheduledTransferFrequency = typeof SCHEDULED_TRANSFER_FREQUENCIES[number];
+
+export const SCHEDULED_TRANSFER_MAX_ATTEMPTS = 3;
+export const SCHEDULED_TRANSFER_RETRY_HOURS = 6;
+
+type ScheduledTransferRecord = NonNullable<Awaited<ReturnType<typeof prisma.scheduledTransfer.findUnique>>>;
+
+/**
+ * Date of the given run, counted from the first run
+ * Monthly runs keep the start day, clamped to the end of shorter months (31 Jan -> 28 Feb -> 31 Mar)
+ */
+export function getOccurrenceDate(startAt: Date, frequency: string, occurrence: number): Date {
+    if (frequency === 'WEEKLY') {
+        return new Date(startAt.getTime() + occurrence * 7 * 24 * 60 * 60 * 1000);
+    }
+
+    if (frequency === 'MONTHLY') {
+        const date = new Date(startAt);
+        const targetMonth = date.getMonth() + occurrence;
+        const lastDayOfTarget = new Date(date.getFullYear(), targetMonth + 1, 0).getDate();
+        date.setDate(1);
+        date.setMonth(targetMonth);
+        date.setDate(Math.min(startAt.getDate(), lastDayOfTarget));
+        return date;
+    }
+
+    return startAt;
+}
+
+async function notifySender(
+    schedule: ScheduledTransferRecord,
+    title: string,
+    titleAr: string,
+    message: string,
+    messageAr: string
+) {
+    await prisma.notification.create({
+        data: {
+            userId: schedule.senderId,
+            type: 'TRANSACTION',
+            title,
+            titleAr,
+            message,
+            messageAr,
+            metadata: JSON.stringify({ scheduledTransferId: schedule.id }),
+        },
+    });
+
+    const sender = await prisma.user.findUnique({
+        where: { id: schedule.senderId },
+        select: { fcmToken: true },
+    });
+
+    if (sender?.fcmToken) {
+        sendPushNotification(sender.fcmToken, titleAr, messageAr, {
+            type: 'SCHEDULED_TRANSFER',
+            scheduledTransferId: schedule.id,
+        }).catch(err => console.error('Push scheduled transfer error:', err));
+    }
+}
+
+/**
+ * Move a schedule to its next run (or finish it) after the current run succeeded or was given up
+ * The next run is the first one still in the future - missed runs are skipped
+ */
+function getNextRunData(schedule: ScheduledTransferRecord, finalStatus: 'COMPLETED' | 'FAILED') {
+    if (schedule.frequency === 'ONCE') {
+        return { status: finalStatus, failedAttempts: 0 };
+    }
+
+    const now = new Date();
+    let occurrence = schedule.occurrence + 1;
+    let nextRunAt = getOccurrenceDate(schedule.startAt, schedule.frequency, occurrence);
+    while (nextRunAt <= now) {
+        occurrence++;
+        nextRunAt = getOccurrenceDate(schedule.startAt, schedule.frequency, occurrence);
+    }
+
+    return {
+        status: 'ACTIVE',
+        occurrence,
+        nextRunAt,
+        failedAttempts: 0,
+    };
+}
+
+async function handleRunFailure(schedule: ScheduledTransferRecord, error: string) {
+    const failedAttempts = schedule.failedAttempts + 1;
+    const formattedAmount = formatCurrency(schedule.amount, schedule.currency as Currency);
+
+    if (failedAttempts < SCHEDULED_TRANSFER_MAX_ATTEMPTS) {
+        await prisma.scheduledTransfer.update({
+            where: { id: schedule.id },
+            data: {
+                status: 'ACTIVE',
+                failedAttempts,
+                lastError: error,
+                lastRunAt: new Date(),
+                nextRunAt: new Date(Date.now() + SCHEDULED_TRANSFER_RETRY_HOURS * 60 * 60 * 1000),
+            },
+        });
+
+        await notifySender(
+            schedule,
+            'Scheduled Transfer Failed',
+            'فشل التحويل المجدول',
+            `Your scheduled transfer of ${formattedAmount} failed: ${error}. We will retry in ${SCHEDULED_TRANSFER_RETRY_HOURS} hours.`,
+            `فشل تحويلك المجدول بمبلغ ${formattedAmount}: ${error}. سنعيد المحاولة بعد ${SCHEDULED_TRANSFER_RETRY_HOURS} ساعات.`
+        );
+        return;
+    }
+
+    // Out of retries - skip this run (recurring) or fail the schedule (one-off)
+    await prisma.scheduledTransfer.update({
+        where: { id: schedule.id },
+        data: {
+            ...getNextRunData(schedule, 'FAILED'),
+            lastError: error,
+            lastRunAt: new Date(),
+        },
+    });
+
+    await notifySender(
+        schedule,
+        'Scheduled Transfer Skipped',
+        'تم تخطي التحويل المجدول',
+        `Your scheduled transfer of ${formattedAmount} could not be completed after ${SCHEDULED_TRANSFER_MAX_ATTEMPTS} attempts: ${error}`,
+        `تعذر تنفيذ تحويلك المجدول بمبلغ ${formattedAmount} بعد ${SCHEDULED_TRANSFER_MAX_ATTEMPTS} محاولات: ${error}`
+    );
+}
+
+/**
+ * Execute one due schedule
+ * Returns true if money moved
+ */
+export async function executeScheduledTransfer(scheduledTransferId: string): Promise<boolean> {
+    // Claim the run so overlapping scheduler ticks can't pay it twice
+    const claimed = await prisma.scheduledTransfer.updateMany({
+        where: { id: scheduledTransferId, status: 'ACTIVE', nextRunAt: { lte: new Date() } },
+        data: { status: 'PROCESSING' },
+    });
+
+    if (claimed.count === 0) {
+        return false;
+    }
+
+    const schedule = await prisma.scheduledTransfer.findUnique({ where: { id: scheduledTransferId } });
+    if (!schedule) {
+        return false;
+    }
+
+    const currency = (schedule.currency || 'USD') as 'USD' | 'SYP';
+
+    const sender = await prisma.user.findUnique({ where: { id: schedule.senderId } });
+    if (!sender || !sender.isActive || sender.status === 'BLOCKED' || sender.status === 'SUSPENDED') {
+        await prisma.scheduledTransfer.update({
+            where: { id: schedule.id },
+            data: { status: 'CANCELLED', lastError: 'Sender account is not active', lastRunAt: new Date() },
+        });
+        return false;
+    }
+
+    // Same limits as an interactive transfer
+    const risk = await assessTransactionRisk(null, {
+        userId: schedule.senderId,
+        amount: schedule.amount.toNumber(),
+        type: 'TRANSFER',
+        currency,
+    });
+
+    if (!risk.allowed) {
+        await handleRunFailure(schedule, risk.error || 'Blocked by risk checks');
+        return false;
+    }
+
+    const transferResult = await processTransfer(
+        schedule.senderId,
+        schedule.recipientId,
+        schedule.amount.toNumber(),
+        schedule.note ?? undefined,
+        currency,
+        risk.hold ? { riskAlertId: risk.riskAlertId, reason: risk.reason || 'Held by risk checks', reasonAr: risk.reasonAr } : undefined,
+        // Commits with the payment - the occurrence can't be paid twice
+        async (tx, transactionId) => {
+            await tx.scheduledTransfer.update({
+                where: { id: schedule.id },
+                data: {
+                    ...getNextRunData(schedule, 'COMPLETED'),
+                    lastError: null,
+                    lastRunAt: new Date(),
+                    lastTransactionId: transactionId,
+                },
+            });
+        }
+    );
+
+    if (!transferResult.success) {
+        await handleRunFailure(schedule, transferResult.error || 'Transfer failed');
+        return false;
+    }
+
+    // Held for risk review - the recipient is told on release
+    if (transferResult.held) {
+        await notifyTransactionHeld(schedule.senderId, transferResult.transactionId || '', transferResult.referenceNumber || '');
+        return true;
+    }
+
+    const recipient = await prisma.user.findUnique({ where: { id: schedule.recipientId } });
+    const formattedAmount = formatCurrency(schedule.amount, currency);
+    const recipientName = recipient?.fullNameAr || recipient?.fullName || 'مستخدم';
+    const senderName = sender.fullNameAr || sender.fullName;
+
+    await prisma.notification.createMany({
+        data: [
+            {
+                userId: schedule.senderId,
+                type: 'TRANSACTION',
+                title: 'Scheduled Transfer Sent',
+                titleAr: 'تم تنفيذ التحويل المجدول',
+                message: `Your scheduled transfer of ${formattedAmount} to ${recipient?.fullName} was sent`,
+                messageAr: `تم إرسال تحويلك المجدول بمبلغ ${formattedAmount} إلى ${recipientName}`,
+                metadata: JSON.stringify({ transactionId: transferResult.transactionId, scheduledTransferId: schedule.id }),
+            },
+            {
+                userId: schedule.recipientId,
+                type: 'TRANSACTION',
+                title: 'Transfer Received',
+                titleAr: 'تم استلام تحويل',
+                message: `You received ${formattedAmount}`,
+                messageAr: `استلمت ${formattedAmount} من ${senderName}`,
+                metadata: JSON.stringify({ transactionId: transferResult.transactionId }),
+            },
+        ],
+    });
+
+    if (sender.fcmToken) {
+        sendPushNotification(
+            sender.fcmToken,
+            '📅 تم تنفيذ التحويل المجدول',
+            `أرسلت ${formattedAmount} إلى ${recipientName}`,
+            { type: 'TRANSFER', transactionId: transferResult.transactionId || '', amount: schedule.amount.toString(), currency }
+        ).catch(err => console.error('Push send error:', err));
+    }
+
+    if (recipient?.fcmToken) {
+        sendPushNotification(
+            recipient.fcmToken,
+            '💰 تحويل وارد!',
+            `استلمت ${formattedAmount} من ${senderName}`,
+            { type: 'TRANSFER', transactionId: transferResult.transactionId || '', amount: schedule.amount.toString(), currency }
+        ).catch(err => console.error('Push receive error:', err));
+    }
+
+    await prisma.auditLog.create({
+        data: {
+            userId: schedule.senderId,
+            action: 'SCHEDULED_TRANSFER_EXECUTED',
+            entity: 'ScheduledTransfer',
+            entityId: schedule.id,
+            newValue: JSON.stringify({
+                transactionId: transferResult.transactionId,
+                occurrence: schedule.occurrence,
+                amount: schedule.amount,
+                currency,
+            }),
+        },
+    });
+
+    return true;
+}
+
+/**
+ * Run every schedule that is due now
+ */
+export async function runDueScheduledTransfers(): Promise<{ due: number; succeeded: number; failed: number }> {
+    const due = await prisma.scheduledTransfer.findMany({
+        where: { status: 'ACTIVE', nextRunAt: { lte: new Date() } },
+        orderBy: { nextRunAt: 'asc' },
+        select: { id: true },
+        take: 200,
+    });
+
+    let succeeded = 0;
+    let failed = 0;
+
+    // Sequential on purpose - keeps ledger contention low and order predictable
+    for (const { id } of due) {
+        try {
+            if (await executeScheduledTransfer(id)) {
+                succeeded++;
+            } else {
+                failed++;
+            }
+        } catch (error) {
+            console.error(`Scheduled transfer ${id} error:`, error);
+            failed++;
+            // Don't leave the schedule stuck in PROCESSING - a paid run has already moved it
+            // on (in the transfer's DB transaction), so only an unpaid run is still PROCESSING
+            await prisma.scheduledTransfer.updateMany({
+                where: { id, status: 'PROCESSING' },
+                data: { status: 'ACTIVE' },
+            });
+        }
+    }
+
+    return { due: due.length, succeeded, failed };
+}
@@ -17,3 +17,96 @@ export function generateMerchantQR(merchantCode: string): string {
     // Prefix with QR to identify it as a Bank Basha QR code
     return `QR_${hash}`;
 }
+
+const QR_SIGNING_SECRET = process.env.JWT_SECRET || 'default-secret-change-in-production';
+
+function signQRValue(value: string): string {
+    return crypto
+        .createHmac('sha256', QR_SIGNING_SECRET)
+        .update(value)
+        .digest('hex')
+        .slice(0, 24)
+        .toUpperCase();
+}
+
+function isValidQRSignature(value: string, signature: string): boolean {
+    const expected = signQRValue(value);
+    return signature.length === expected.length &&
+        crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+}
+
+/**
+ * Builds the signed QR value for a one-time cash-out token.
+ * The amount and currency live server-side, the QR only carries the id and its signature.
+ */
+export function generateCashOutQR(tokenId: string): string {
+    return `CO_${tokenId}_${signQRValue(`CASHOUT_${tokenId}`)}`;
+}
+
+/**
+ * Returns the token id of a cash-out QR, or null if it is malformed or the signature doesn't match.
+ */
+export function parseCashOutQR(value: string): string | null {
+    const match = /^CO_([a-z0-9]+)_([A-F0-9]{24})$/.exec(value.trim());
+    if (!match) return null;
+
+    const [, tokenId, signature] = match;
+    return isValidQRSignature(`CASHOUT_${tokenId}`, signature) ? tokenId : null;
+}
+
+export interface DynamicMerchantQRPayload {
+    id: string;         // MerchantDynamicQR id
+    merchantCode: string;
+    amount: number;
+    currency: 'USD' | 'SYP';
+    orderReference?: string;
+    expiresAt: number;  // Unix ms
+}
+
+/**
+ * Builds a signed per-sale merchant QR: DQR.<base64url payload>.<signature>
+ * The payer's app can read amount/currency/reference offline, the server re-checks the signature.
+ */
+export function generateDynamicMerchantQR(payload: DynamicMerchantQRPayload): string {
+    const body = Buffer.from(JSON.stringify({
+        i: payload.id,
+        m: payload.merchantCode,
+        a: payload.amount,
+        c: payload.currency,
+        r: payload.orderReference,
+        e: payload.expiresAt,
+    })).toString('base64url');
+
+    return `DQR.${body}.${signQRValue(`DQR.${body}`)}`;
+}
+
+/**
+ * Returns the payload of a dynamic merchant QR, or null if it is malformed or has been tampered with.
+ * Expiry is NOT checked here - callers decide how to report it.
+ */
+export function parseDynamicMerchantQR(value: string): DynamicMerchantQRPayload | null {
+    const match = /^DQR\.([A-Za-z0-9_-]+)\.([A-F0-9]{24})$/.exec(value.trim());
+    if (!match) return null;
+
+    const [, body, signature] = match;
+    if (!isValidQRSignature(`DQR.${body}`, signature)) return null;
+
+    try {
+        const data = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+        if (typeof data.i !== 'string' || typeof data.m !== 'string' || typeof data.a !== 'number' ||
+            (data.c !== 'USD' && data.c !== 'SYP') || typeof data.e !== 'number') {
+            return null;
+        }
+
+        return {
+            id: data.i,
+            merchantCode: data.m,
+            amount: data.a,
+            currency: data.c,
+            orderReference: typeof data.r === 'string' ? data.r : undefined,
+            expiresAt: data.e,
+        };
+    } catch {
+        return null;
+    }
+}
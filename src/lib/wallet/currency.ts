@@ -5,6 +5,7 @@
  */
 
 import { prisma } from '@/lib/db/prisma';
+import { toAmount, type MoneyInput } from '@/lib/financial/money';
 
 // Types
 export type Currency = 'USD' | 'SYP';
@@ -139,7 +140,7 @@ export async function hasEnoughBalance(
     walletType: WalletType = 'PERSONAL'
 ): Promise<boolean> {
     const wallet = await getUserWallet(userId, currency, walletType);
-    return wallet ? wallet.balance >= amount : false;
+    return wallet ? wallet.balance.greaterThanOrEqualTo(amount) : false;
 }
 
 /**
@@ -151,14 +152,15 @@ export async function getBalance(
     walletType: WalletType = 'PERSONAL'
 ): Promise<number> {
     const wallet = await getUserWallet(userId, currency, walletType);
-    return wallet?.balance ?? 0;
+    return toAmount(wallet?.balance);
 }
 
 /**
  * Format amount according to currency
  */
-export function formatCurrency(amount: number, currency: Currency): string {
+export function formatCurrency(value: MoneyInput, currency: Currency): string {
     const info = CURRENCY_INFO[currency];
+    const amount = toAmount(value);
 
     if (currency === 'SYP') {
         return `${Math.round(amount).toLocaleString('ar-SY')} ${info.symbol}`;
@@ -170,7 +172,7 @@ export function formatCurrency(amount: number, currency: Currency): string {
 /**
  * Format amount with currency icon
  */
-export function formatCurrencyWithIcon(amount: number, currency: Currency): string {
+export function formatCurrencyWithIcon(amount: MoneyInput, currency: Currency): string {
     const info = CURRENCY_INFO[currency];
     return `${info.icon} ${formatCurrency(amount, currency)}`;
 }
@@ -0,0 +1,234 @@
+/**
+ * Currency Exchange (USD <-> SYP)
+ * Bank Basha
+ *
+ * 1. Admins publish buy/sell rates - each change is a new ExchangeRate row (rate history)
+ * 2. The user asks for a quote: the live rate is locked for EXCHANGE_QUOTE_TTL_SECONDS
+ * 3. Executing the quote moves money between the user's two PERSONAL wallets in one DB transaction
+ *
+ * Ledger (one entry, each currency balanced on its own):
+ * - From currency: Dr USR-LEDGER fromAmount / Cr FX-POSITION fromAmount
+ * - To currency:   Dr FX-POSITION midAmount / Cr USR-LEDGER toAmount / Cr FEES spread
+ * The spread (mid-rate value minus what the user receives) is stored as the transaction's platformFee
+ * so it shows up in platform profits next to the other fees.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { generateReferenceNumber } from '@/lib/auth/security';
+import { createLedgerEntry, INTERNAL_ACCOUNTS } from '@/lib/financial/core-ledger';
+import { Money, type MoneyInput } from '@/lib/financial/money';
+import { CURRENCY_INFO, type Currency } from '@/lib/wallet/currency';
+
+export const EXCHANGE_QUOTE_TTL_SECONDS = 60;
+
+type ExchangeRateRecord = NonNullable<Awaited<ReturnType<typeof prisma.exchangeRate.findFirst>>>;
+type ExchangeQuoteRecord = NonNullable<Awaited<ReturnType<typeof prisma.exchangeQuote.findUnique>>>;
+
+export interface ExchangeCalculation {
+    fromCurrency: Currency;
+    toCurrency: Currency;
+    fromAmount: number;
+    toAmount: number;
+    rate: number;
+    midAmount: number;
+    spread: number;
+}
+
+/**
+ * `amount` at `rate` (SYP per USD) in the other currency, rounded to the decimals it is paid out in
+ * The user's side rounds DOWN - they never receive a fraction we can't pay out
+ */
+function convertAmount(amount: Money, rate: number, toCurrency: Currency, rounding: 'DOWN' | 'HALF_UP'): Money {
+    const exact = amount.currency === 'USD'
+        ? amount.toDecimal().mul(rate)
+        : amount.toDecimal().div(rate);
+    return Money.of(exact, toCurrency, rounding).quantize(CURRENCY_INFO[toCurrency].decimals, rounding);
+}
+
+/**
+ * Live rate = latest published row
+ */
+export async function getCurrentExchangeRate() {
+    return prisma.exchangeRate.findFirst({ orderBy: { createdAt: 'desc' } });
+}
+
+/**
+ * Price an exchange at the given rate
+ * USD -> SYP uses buyRate, SYP -> USD uses sellRate; the mid rate is their average
+ */
+export function calculateExchange(
+    rate: Pick<ExchangeRateRecord, 'buyRate' | 'sellRate'>,
+    fromCurrency: Currency,
+    fromAmount: MoneyInput
+): ExchangeCalculation {
+    const toCurrency: Currency = fromCurrency === 'USD' ? 'SYP' : 'USD';
+    const midRate = (rate.buyRate + rate.sellRate) / 2;
+
+    const appliedRate = fromCurrency === 'USD' ? rate.buyRate : rate.sellRate;
+    const from = Money.of(fromAmount, fromCurrency);
+    const toAmount = convertAmount(from, appliedRate, toCurrency, 'DOWN');
+    const midAmount = convertAmount(from, midRate, toCurrency, 'HALF_UP');
+    const spread = midAmount.subtract(toAmount);
+
+    return {
+        fromCurrency,
+        toCurrency,
+        fromAmount: from.toNumber(),
+        toAmount: toAmount.toNumber(),
+        rate: appliedRate,
+        midAmount: midAmount.toNumber(),
+        spread: spread.isNegative() ? 0 : spread.toNumber(),
+    };
+}
+
+/**
+ * Lock the live rate for the user
+ */
+export async function createExchangeQuote(
+    userId: string,
+    fromCurrency: Currency,
+    fromAmount: number
+): Promise<{ success: boolean; quote?: ExchangeQuoteRecord; error?: string }> {
+    const rate = await getCurrentExchangeRate();
+    if (!rate) {
+        return { success: false, error: 'خدمة الصرف غير متاحة حالياً' };
+    }
+
+    const calculation = calculateExchange(rate, fromCurrency, fromAmount);
+    if (calculation.toAmount <= 0) {
+        return { success: false, error: 'المبلغ صغير جداً للصرف' };
+    }
+
+    const quote = await prisma.exchangeQuote.create({
+        data: {
+            userId,
+            rateId: rate.id,
+            ...calculation,
+            expiresAt: new Date(Date.now() + EXCHANGE_QUOTE_TTL_SECONDS * 1000),
+        },
+    });
+
+    return { success: true, quote };
+}
+
+/**
+ * Execute a locked quote atomically across both wallets
+ */
+export async function executeExchangeQuote(
+    quoteId: string,
+    userId: string
+): Promise<{ success: boolean; quote?: ExchangeQuoteRecord; transactionId?: string; referenceNumber?: string; error?: string }> {
+    // Claim the quote so a double submit can't execute it twice
+    const claimed = await prisma.exchangeQuote.updateMany({
+        where: { id: quoteId, userId, status: 'PENDING', expiresAt: { gt: new Date() } },
+        data: { status: 'PROCESSING' },
+    });
+
+    if (claimed.count === 0) {
+        const existing = await prisma.exchangeQuote.findFirst({ where: { id: quoteId, userId } });
+        if (existing?.status === 'PENDING') {
+            await prisma.exchangeQuote.update({ where: { id: quoteId }, data: { status: 'EXPIRED' } });
+            return { success: false, error: 'انتهت صلاحية السعر، يرجى طلب سعر جديد' };
+        }
+        return { success: false, error: existing?.status === 'EXPIRED' ? 'انتهت صلاحية السعر، يرجى طلب سعر جديد' : 'عرض السعر غير صالح' };
+    }
+
+    const quote = await prisma.exchangeQuote.findUnique({ where: { id: quoteId } });
+    if (!quote) {
+        return { success: false, error: 'عرض السعر غير صالح' };
+    }
+
+    const fromCurrency = quote.fromCurrency as Currency;
+    const toCurrency = quote.toCurrency as Currency;
+
+    try {
+        const result = await prisma.$transaction(async (tx) => {
+            const fromWallet = await tx.wallet.findFirst({
+                where: { userId, currency: fromCurrency, walletType: 'PERSONAL' },
+            });
+
+            if (!fromWallet) {
+                throw new Error('المحفظة غير موجودة');
+            }
+
+            // Atomic balance check
+            const debited = await tx.wallet.updateMany({
+                where: { id: fromWallet.id, balance: { gte: quote.fromAmount } },
+                data: { balance: { decrement: quote.fromAmount } },
+            });
+
+            if (debited.count === 0) {
+                throw new Error('الرصيد غير كافٍ');
+            }
+
+            const toWallet = await tx.wallet.upsert({
+                where: { userId_currency_walletType: { userId, currency: toCurrency, walletType: 'PERSONAL' } },
+                update: { balance: { increment: quote.toAmount } },
+                create: { userId, currency: toCurrency, walletType: 'PERSONAL', balance: quote.toAmount },
+            });
+
+            const referenceNumber = generateReferenceNumber('FX');
+
+            const transaction = await tx.transaction.create({
+                data: {
+                    senderId: userId,
+                    receiverId: userId,
+                    amount: quote.toAmount,
+                    fee: 0,
+                    platformFee: quote.spread,
+                    netAmount: quote.toAmount,
+                    referenceNumber,
+                    type: 'EXCHANGE',
+                    status: 'COMPLETED',
+                    currency: toCurrency,
+                    description: `Exchange ${quote.fromAmount} ${fromCurrency} to ${quote.toAmount} ${toCurrency}`,
+                    descriptionAr: `صرف ${quote.fromAmount} ${fromCurrency} إلى ${quote.toAmount} ${toCurrency}`,
+                    metadata: JSON.stringify({
+                        exchangeQuoteId: quote.id,
+                        rateId: quote.rateId,
+                        rate: quote.rate,
+                        fromCurrency,
+                        fromAmount: quote.fromAmount,
+                        midAmount: quote.midAmount,
+                    }),
+                    completedAt: new Date(),
+                },
+            });
+
+            // The platform takes the user's money into its FX position and pays the
+            // other currency out of it - the spread goes to fees
+            await createLedgerEntry({
+                description: `Currency Exchange: ${referenceNumber} (${fromCurrency} -> ${toCurrency})`,
+                descriptionAr: `صرف عملات: ${referenceNumber} (${fromCurrency} -> ${toCurrency})`,
+                transactionId: transaction.id,
+                createdBy: userId,
+                tx,
+                lines: [
+                    { accountCode: INTERNAL_ACCOUNTS.USERS_LEDGER, debit: quote.fromAmount, credit: 0, currency: fromCurrency, walletId: fromWallet.id },
+                    { accountCode: INTERNAL_ACCOUNTS.FX_POSITION, debit: 0, credit: quote.fromAmount, currency: fromCurrency },
+                    { accountCode: INTERNAL_ACCOUNTS.FX_POSITION, debit: quote.midAmount, credit: 0, currency: toCurrency },
+                    { accountCode: INTERNAL_ACCOUNTS.USERS_LEDGER, debit: 0, credit: quote.toAmount, currency: toCurrency, walletId: toWallet.id },
+                    { accountCode: INTERNAL_ACCOUNTS.FEES, debit: 0, credit: quote.spread, currency: toCurrency },
+                ],
+            });
+
+            await tx.exchangeQuote.update({
+                where: { id: quote.id },
+                data: { status: 'EXECUTED', transactionId: transaction.id, executedAt: new Date() },
+            });
+
+            return { transactionId: transaction.id, referenceNumber };
+        });
+
+        return { success: true, quote, ...result };
+    } catch (error) {
+        // Nothing moved - let the user retry while the quote is still valid
+        await prisma.exchangeQuote.updateMany({
+            where: { id: quote.id, status: 'PROCESSING' },
+            data: { status: 'PENDING' },
+        });
+
+        console.error('Exchange error:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'فشل الصرف' };
+    }
+}
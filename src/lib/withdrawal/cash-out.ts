@@ -0,0 +1,210 @@
+/**
+ * Customer Cash-Out QR
+ * Bank Basha
+ *
+ * The customer generates a one-time, amount-bound QR on their dashboard
+ * and any agent scans it to hand over the cash:
+ * 1. Customer creates an ACTIVE token (amount + currency, confirmed with payment PIN)
+ * 2. Agent scans the signed QR and sees the amount
+ * 3. Agent redeems it - the token is claimed once, then processWithdrawal runs
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { processWithdrawal } from '@/lib/ledger/ledger';
+import { assessTransactionRisk } from '@/lib/financial/risk-hook';
+import { generateCashOutQR, parseCashOutQR } from '@/lib/utils/qr';
+import { sendPushNotification } from '@/lib/firebase/admin';
+import { formatCurrency, type Currency } from '@/lib/wallet/currency';
+
+export const CASH_OUT_EXPIRY_MINUTES = 15;
+
+export interface CashOutResult {
+    success: boolean;
+    error?: string;
+    transactionId?: string;
+    referenceNumber?: string;
+}
+
+type CashOutTokenRecord = NonNullable<Awaited<ReturnType<typeof prisma.cashOutToken.findUnique>>>;
+
+/**
+ * Create a cash-out token for the customer
+ * Only one ACTIVE token per customer - older ones are cancelled
+ */
+export async function createCashOutToken(params: {
+    userId: string;
+    amount: number;
+    currency: Currency;
+}): Promise<{ tokenId: string; qrData: string; expiresAt: Date }> {
+    const { userId, amount, currency } = params;
+
+    await prisma.cashOutToken.updateMany({
+        where: { userId, status: 'ACTIVE' },
+        data: { status: 'CANCELLED' },
+    });
+
+    const expiresAt = new Date(Date.now() + CASH_OUT_EXPIRY_MINUTES * 60 * 1000);
+
+    const token = await prisma.cashOutToken.create({
+        data: { userId, amount, currency, expiresAt },
+    });
+
+    return { tokenId: token.id, qrData: generateCashOutQR(token.id), expiresAt };
+}
+
+function tokenError(token: CashOutTokenRecord): string {
+    switch (token.status) {
+        case 'USED':
+        case 'PROCESSING':
+            return 'تم استخدام رمز السحب مسبقاً';
+        case 'CANCELLED':
+            return 'تم إلغاء رمز السحب';
+        case 'FAILED':
+            return 'فشل السحب بهذا الرمز، يرجى إنشاء رمز جديد';
+        default:
+            return 'انتهت صلاحية رمز السحب';
+    }
+}
+
+/**
+ * Resolve a scanned QR to a redeemable token
+ */
+export async function resolveCashOutQR(
+    qrData: string
+): Promise<{ token?: CashOutTokenRecord; error?: string }> {
+    const tokenId = parseCashOutQR(qrData);
+    if (!tokenId) {
+        return { error: 'رمز QR غير صالح' };
+    }
+
+    const token = await prisma.cashOutToken.findUnique({ where: { id: tokenId } });
+    if (!token) {
+        return { error: 'رمز QR غير صالح' };
+    }
+
+    if (token.status === 'ACTIVE' && token.expiresAt < new Date()) {
+        await prisma.cashOutToken.updateMany({
+            where: { id: token.id, status: 'ACTIVE' },
+            data: { status: 'EXPIRED' },
+        });
+        return { error: 'انتهت صلاحية رمز السحب' };
+    }
+
+    if (token.status !== 'ACTIVE') {
+        return { error: tokenError(token) };
+    }
+
+    return { token };
+}
+
+/**
+ * Agent redeems a scanned cash-out QR
+ * The token is claimed atomically so it can only settle once
+ */
+export async function redeemCashOutToken(qrData: string, agentId: string): Promise<CashOutResult> {
+    const { token, error } = await resolveCashOutQR(qrData);
+    if (!token) {
+        return { success: false, error };
+    }
+
+    if (token.userId === agentId) {
+        return { success: false, error: 'لا يمكن السحب من حسابك الخاص' };
+    }
+
+    // The customer's limits were counted when the QR was created - only the agent's are left.
+    // A refusal leaves the token ACTIVE so another agent can pay it out
+    const risk = await assessTransactionRisk(null, {
+        userId: token.userId,
+        amount: token.amount.toNumber(),
+        type: 'WITHDRAW',
+        currency: (token.currency || 'USD') as Currency,
+        counterpartyId: agentId,
+        skipPayerLimits: true,
+        holdable: false,
+    });
+    if (!risk.allowed) {
+        return { success: false, error: risk.error };
+    }
+
+    const claimed = await prisma.cashOutToken.updateMany({
+        where: { id: token.id, status: 'ACTIVE', expiresAt: { gt: new Date() } },
+        data: { status: 'PROCESSING', agentId },
+    });
+
+    if (claimed.count === 0) {
+        return { success: false, error: 'تم استخدام رمز السحب مسبقاً' };
+    }
+
+    const currency = (token.currency || 'USD') as Currency;
+    const result = await processWithdrawal(token.userId, agentId, token.amount.toNumber(), token.userId, currency);
+
+    if (!result.success) {
+        await prisma.cashOutToken.update({
+            where: { id: token.id },
+            data: { status: 'FAILED', failureReason: result.error },
+        });
+        return { success: false, error: result.error };
+    }
+
+    await prisma.cashOutToken.update({
+        where: { id: token.id },
+        data: { status: 'USED', transactionId: result.transactionId, usedAt: new Date() },
+    });
+
+    await notifyCashOutCompleted(token, agentId, result.transactionId || '');
+
+    return {
+        success: true,
+        transactionId: result.transactionId,
+        referenceNumber: result.referenceNumber,
+    };
+}
+
+async function notifyCashOutCompleted(
+    token: CashOutTokenRecord,
+    agentId: string,
+    transactionId: string
+): Promise<void> {
+    const currency = (token.currency || 'USD') as Currency;
+    const formattedAmount = formatCurrency(token.amount, currency);
+
+    const [customer, agentProfile] = await Promise.all([
+        prisma.user.findUnique({ where: { id: token.userId } }),
+        prisma.agentProfile.findUnique({ where: { userId: agentId } }),
+    ]);
+
+    const agentName = agentProfile?.businessNameAr || agentProfile?.businessName || 'وكيل';
+
+    await prisma.notification.create({
+        data: {
+            userId: token.userId,
+            type: 'TRANSACTION',
+            title: 'Cash-Out Completed',
+            titleAr: 'تم السحب',
+            message: `You withdrew ${formattedAmount} at ${agentProfile?.businessName || 'an agent'}`,
+            messageAr: `تم سحب ${formattedAmount} لدى ${agentName}`,
+            metadata: JSON.stringify({ transactionId, cashOutTokenId: token.id }),
+        },
+    });
+
+    if (customer?.fcmToken) {
+        sendPushNotification(
+            customer.fcmToken,
+            '💵 تم السحب',
+            `تم سحب ${formattedAmount} لدى ${agentName}`,
+            { type: 'CASH_OUT_COMPLETED', transactionId, cashOutTokenId: token.id }
+        ).catch(err => console.error('Push customer error:', err));
+    }
+}
+
+/**
+ * Customer cancels their active cash-out token
+ */
+export async function cancelCashOutToken(tokenId: string, userId: string): Promise<boolean> {
+    const updated = await prisma.cashOutToken.updateMany({
+        where: { id: tokenId, userId, status: 'ACTIVE' },
+        data: { status: 'CANCELLED' },
+    });
+
+    return updated.count > 0;
+}
@@ -0,0 +1,400 @@
+/**
+ * Agent Withdrawal Requests - Customer Confirmation
+ * Bank Basha
+ *
+ * An agent cannot debit a customer's wallet on their own anymore:
+ * 1. Agent creates a PENDING request (customer phone + amount)
+ * 2. Customer approves in-app with their payment PIN,
+ *    OR reads the short-lived code (sent by push) to the agent
+ * 3. Only then processWithdrawal runs
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { verifyPassword } from '@/lib/auth/security';
+import { generateOTP, hashOTP, verifyOTP, getOTPExpiry, isOTPExpired } from '@/lib/otp/generator';
+import { processWithdrawal } from '@/lib/ledger/ledger';
+import { toAmount } from '@/lib/financial/money';
+import { sendPushNotification } from '@/lib/firebase/admin';
+import { sendTransactionEmail } from '@/lib/email/email';
+import { formatCurrency, type Currency } from '@/lib/wallet/currency';
+
+export const WITHDRAWAL_REQUEST_EXPIRY_MINUTES = 5;
+
+export interface WithdrawalRequestResult {
+    success: boolean;
+    error?: string;
+    remainingAttempts?: number;
+    transactionId?: string;
+    referenceNumber?: string;
+}
+
+type WithdrawalRequestRecord = NonNullable<Awaited<ReturnType<typeof prisma.withdrawalRequest.findUnique>>>;
+
+/**
+ * Create a pending withdrawal request and notify the customer
+ * Any previous PENDING request between the same agent and customer is cancelled
+ */
+export async function createWithdrawalRequest(params: {
+    agentId: string;
+    customerId: string;
+    amount: number;
+    currency: Currency;
+}): Promise<{ requestId: string; expiresAt: Date }> {
+    const { agentId, customerId, amount, currency } = params;
+
+    await prisma.withdrawalRequest.updateMany({
+        where: { agentId, customerId, status: 'PENDING' },
+        data: { status: 'CANCELLED' },
+    });
+
+    const code = generateOTP();
+    const codeHash = await hashOTP(code);
+    const expiresAt = getOTPExpiry(WITHDRAWAL_REQUEST_EXPIRY_MINUTES);
+
+    const withdrawalRequest = await prisma.withdrawalRequest.create({
+        data: {
+            agentId,
+            customerId,
+            amount,
+            currency,
+            codeHash,
+            expiresAt,
+        },
+    });
+
+    const [customer, agentProfile] = await Promise.all([
+        prisma.user.findUnique({ where: { id: customerId } }),
+        prisma.agentProfile.findUnique({ where: { userId: agentId } }),
+    ]);
+
+    const agentName = agentProfile?.businessNameAr || agentProfile?.businessName || 'وكيل';
+    const formattedAmount = formatCurrency(amount, currency);
+
+    await prisma.notification.create({
+        data: {
+            userId: customerId,
+            type: 'SECURITY',
+            title: 'Withdrawal Request',
+            titleAr: 'طلب سحب نقدي',
+            message: `${agentProfile?.businessName || 'An agent'} requested a cash withdrawal of ${formattedAmount}. Approve it in the app or give the agent your code.`,
+            messageAr: `طلب ${agentName} سحب ${formattedAmount} نقداً من حسابك. وافق من التطبيق أو أعطِ الوكيل رمز التأكيد.`,
+            metadata: JSON.stringify({ withdrawalRequestId: withdrawalRequest.id }),
+        },
+    });
+
+    // Code goes only to the customer's device - the agent never sees it unless the customer reads it out
+    if (customer?.fcmToken) {
+        await sendPushNotification(
+            customer.fcmToken,
+            '🏧 طلب سحب نقدي',
+            `${agentName} يطلب سحب ${formattedAmount}\nرمز التأكيد: ${code}\nصالح لمدة ${WITHDRAWAL_REQUEST_EXPIRY_MINUTES} دقائق`,
+            {
+                type: 'WITHDRAWAL_REQUEST',
+                withdrawalRequestId: withdrawalRequest.id,
+                code,
+                amount: amount.toString(),
+                currency,
+            }
+        );
+    }
+
+    return { requestId: withdrawalRequest.id, expiresAt };
+}
+
+/**
+ * Mark a request as expired if its window has passed
+ * Returns true when the request can no longer be acted upon
+ */
+async function expireIfNeeded(withdrawalRequest: WithdrawalRequestRecord): Promise<boolean> {
+    if (withdrawalRequest.status !== 'PENDING') return true;
+
+    if (isOTPExpired(withdrawalRequest.expiresAt)) {
+        await prisma.withdrawalRequest.updateMany({
+            where: { id: withdrawalRequest.id, status: 'PENDING' },
+            data: { status: 'EXPIRED' },
+        });
+        return true;
+    }
+
+    return false;
+}
+
+/**
+ * Take one attempt before checking the PIN/code - atomic, so parallel guesses cannot
+ * all be checked against the same counter. Returns false once attempts have run out.
+ */
+async function reserveAttempt(withdrawalRequest: WithdrawalRequestRecord): Promise<boolean> {
+    const reserved = await prisma.withdrawalRequest.updateMany({
+        where: {
+            id: withdrawalRequest.id,
+            status: 'PENDING',
+            attempts: { lt: withdrawalRequest.maxAttempts },
+        },
+        data: { attempts: { increment: 1 } },
+    });
+
+    if (reserved.count === 0) {
+        await rejectIfExhausted(withdrawalRequest.id);
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Reject the request once its attempts are used up
+ */
+async function rejectIfExhausted(requestId: string): Promise<number> {
+    const current = await prisma.withdrawalRequest.findUnique({
+        where: { id: requestId },
+        select: { attempts: true, maxAttempts: true },
+    });
+    if (!current) return 0;
+
+    const remainingAttempts = Math.max(0, current.maxAttempts - current.attempts);
+    if (remainingAttempts === 0) {
+        await prisma.withdrawalRequest.updateMany({
+            where: { id: requestId, status: 'PENDING' },
+            data: { status: 'REJECTED', failureReason: 'MAX_ATTEMPTS' },
+        });
+    }
+
+    return remainingAttempts;
+}
+
+function statusError(withdrawalRequest: WithdrawalRequestRecord): string {
+    switch (withdrawalRequest.status) {
+        case 'EXPIRED':
+            return 'انتهت صلاحية طلب السحب';
+        case 'COMPLETED':
+            return 'تم تنفيذ طلب السحب مسبقاً';
+        case 'REJECTED':
+            return 'تم رفض طلب السحب';
+        case 'CANCELLED':
+            return 'تم إلغاء طلب السحب';
+        default:
+            return isOTPExpired(withdrawalRequest.expiresAt) ? 'انتهت صلاحية طلب السحب' : 'لا يمكن تنفيذ طلب السحب';
+    }
+}
+
+/**
+ * Execute the withdrawal once the customer has confirmed
+ * Claims the request atomically so it can only settle once
+ */
+async function executeWithdrawalRequest(
+    withdrawalRequest: WithdrawalRequestRecord,
+    approvalMethod: 'PIN' | 'CODE'
+): Promise<WithdrawalRequestResult> {
+    const claimed = await prisma.withdrawalRequest.updateMany({
+        where: { id: withdrawalRequest.id, status: 'PENDING', expiresAt: { gt: new Date() } },
+        data: { status: 'PROCESSING', approvalMethod },
+    });
+
+    if (claimed.count === 0) {
+        return { success: false, error: statusError(withdrawalRequest) };
+    }
+
+    const currency = (withdrawalRequest.currency || 'USD') as Currency;
+    const result = await processWithdrawal(
+        withdrawalRequest.customerId,
+        withdrawalRequest.agentId,
+        withdrawalRequest.amount.toNumber(),
+        withdrawalRequest.customerId,
+        currency
+    );
+
+    if (!result.success) {
+        await prisma.withdrawalRequest.update({
+            where: { id: withdrawalRequest.id },
+            data: { status: 'FAILED', failureReason: result.error },
+        });
+        return { success: false, error: result.error };
+    }
+
+    await prisma.withdrawalRequest.update({
+        where: { id: withdrawalRequest.id },
+        data: {
+            status: 'COMPLETED',
+            transactionId: result.transactionId,
+            completedAt: new Date(),
+        },
+    });
+
+    await notifyWithdrawalCompleted(withdrawalRequest, result.transactionId || '', result.referenceNumber || '');
+
+    return {
+        success: true,
+        transactionId: result.transactionId,
+        referenceNumber: result.referenceNumber,
+    };
+}
+
+async function notifyWithdrawalCompleted(
+    withdrawalRequest: WithdrawalRequestRecord,
+    transactionId: string,
+    referenceNumber: string
+): Promise<void> {
+    const currency = (withdrawalRequest.currency || 'USD') as Currency;
+    const formattedAmount = formatCurrency(withdrawalRequest.amount, currency);
+
+    const [customer, agent] = await Promise.all([
+        prisma.user.findUnique({ where: { id: withdrawalRequest.customerId } }),
+        prisma.user.findUnique({ where: { id: withdrawalRequest.agentId } }),
+    ]);
+
+    await prisma.notification.createMany({
+        data: [
+            {
+                userId: withdrawalRequest.customerId,
+                type: 'TRANSACTION',
+                title: 'Withdrawal Completed',
+                titleAr: 'تم السحب',
+                message: `You withdrew ${formattedAmount}`,
+                messageAr: `تم سحب ${formattedAmount} من حسابك`,
+                metadata: JSON.stringify({ transactionId }),
+            },
+            {
+                userId: withdrawalRequest.agentId,
+                type: 'TRANSACTION',
+                title: 'Withdrawal Confirmed',
+                titleAr: 'تم تأكيد السحب',
+                message: `Customer confirmed withdrawal of ${formattedAmount}. Hand over the cash.`,
+                messageAr: `أكد العميل سحب ${formattedAmount}. يمكنك تسليم النقد.`,
+                metadata: JSON.stringify({ transactionId, withdrawalRequestId: withdrawalRequest.id }),
+            },
+        ],
+    });
+
+    if (agent?.fcmToken) {
+        sendPushNotification(
+            agent.fcmToken,
+            '✅ تم تأكيد السحب',
+            `أكد ${customer?.fullNameAr || customer?.fullName || 'العميل'} سحب ${formattedAmount}`,
+            { type: 'WITHDRAWAL_CONFIRMED', transactionId, withdrawalRequestId: withdrawalRequest.id }
+        ).catch(err => console.error('Push agent error:', err));
+    }
+
+    if (customer?.email) {
+        const wallet = await prisma.wallet.findFirst({
+            where: { userId: customer.id, currency, walletType: 'PERSONAL' },
+        });
+        await sendTransactionEmail({
+            to: customer.email,
+            userName: customer.fullNameAr || customer.fullName,
+            transactionType: 'WITHDRAW',
+            amount: withdrawalRequest.amount.toNumber(),
+            currency,
+            referenceNumber,
+            status: 'COMPLETED',
+            date: new Date(),
+            balance: toAmount(wallet?.balance),
+        }).catch(err => console.error('Email send error:', err));
+    }
+}
+
+/**
+ * Customer approves in-app with their payment PIN
+ */
+export async function approveWithdrawalWithPin(
+    requestId: string,
+    customerId: string,
+    pin: string
+): Promise<WithdrawalRequestResult> {
+    const withdrawalRequest = await prisma.withdrawalRequest.findUnique({ where: { id: requestId } });
+
+    if (!withdrawalRequest || withdrawalRequest.customerId !== customerId) {
+        return { success: false, error: 'طلب السحب غير موجود' };
+    }
+
+    if (await expireIfNeeded(withdrawalRequest)) {
+        return { success: false, error: statusError(withdrawalRequest) };
+    }
+
+    const customer = await prisma.user.findUnique({
+        where: { id: customerId },
+        select: { paymentPin: true },
+    });
+
+    if (!customer?.paymentPin) {
+        return { success: false, error: 'يرجى تعيين رمز الدفع أولاً من الإعدادات' };
+    }
+
+    if (!await reserveAttempt(withdrawalRequest)) {
+        return { success: false, error: 'تم تجاوز عدد المحاولات المسموح', remainingAttempts: 0 };
+    }
+
+    const isPinValid = await verifyPassword(pin, customer.paymentPin);
+    if (!isPinValid) {
+        const remainingAttempts = await rejectIfExhausted(withdrawalRequest.id);
+        return { success: false, error: 'رمز الدفع غير صحيح', remainingAttempts };
+    }
+
+    return executeWithdrawalRequest(withdrawalRequest, 'PIN');
+}
+
+/**
+ * Agent completes the request with the code the customer read out
+ */
+export async function confirmWithdrawalWithCode(
+    requestId: string,
+    agentId: string,
+    code: string
+): Promise<WithdrawalRequestResult> {
+    const withdrawalRequest = await prisma.withdrawalRequest.findUnique({ where: { id: requestId } });
+
+    if (!withdrawalRequest || withdrawalRequest.agentId !== agentId) {
+        return { success: false, error: 'طلب السحب غير موجود' };
+    }
+
+    if (await expireIfNeeded(withdrawalRequest)) {
+        return { success: false, error: statusError(withdrawalRequest) };
+    }
+
+    if (!await reserveAttempt(withdrawalRequest)) {
+        return { success: false, error: 'تم تجاوز عدد المحاولات المسموح', remainingAttempts: 0 };
+    }
+
+    const isValid = await verifyOTP(code, withdrawalRequest.codeHash);
+    if (!isValid) {
+        const remainingAttempts = await rejectIfExhausted(withdrawalRequest.id);
+        return { success: false, error: 'رمز التأكيد غير صحيح', remainingAttempts };
+    }
+
+    return executeWithdrawalRequest(withdrawalRequest, 'CODE');
+}
+
+/**
+ * Customer declines the request
+ */
+export async function rejectWithdrawalRequest(
+    requestId: string,
+    customerId: string
+): Promise<WithdrawalRequestResult> {
+    const withdrawalRequest = await prisma.withdrawalRequest.findUnique({ where: { id: requestId } });
+
+    if (!withdrawalRequest || withdrawalRequest.customerId !== customerId) {
+        return { success: false, error: 'طلب السحب غير موجود' };
+    }
+
+    const updated = await prisma.withdrawalRequest.updateMany({
+        where: { id: requestId, status: 'PENDING' },
+        data: { status: 'REJECTED', failureReason: 'CUSTOMER_DECLINED' },
+    });
+
+    if (updated.count === 0) {
+        return { success: false, error: statusError(withdrawalRequest) };
+    }
+
+    await prisma.notification.create({
+        data: {
+            userId: withdrawalRequest.agentId,
+            type: 'TRANSACTION',
+            title: 'Withdrawal Declined',
+            titleAr: 'تم رفض السحب',
+            message: 'The customer declined the withdrawal request',
+            messageAr: 'رفض العميل طلب السحب',
+            metadata: JSON.stringify({ withdrawalRequestId: requestId }),
+        },
+    });
+
+    return { success: true };
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
-import type { NextRequest } from 'next/server';
+import type { NextFetchEvent, NextRequest } from 'next/server';
+import { getPagePermission, hasPermission } from '@/lib/auth/permissions';
 
 // Protected routes that require authentication
 const protectedRoutes = ['/dashboard', '/agent', '/merchant', '/admin'];
@@ -14,7 +15,7 @@ const roleRoutes: Record<string, string[]> = {
 };
 
 // Helper to decode JWT payload without verification (for routing only)
-function decodeJWTPayload(token: string): { userId: string; userType: string; sessionId: string } | null {
+function decodeJWTPayload(token: string): { userId: string; userType: string; sessionId: string; adminRole?: string } | null {
     try {
         const parts = token.split('.');
         if (parts.length !== 3) return null;
@@ -39,7 +40,7 @@ function getDashboardForUserType(userType: string): string {
     }
 }
 
-export function middleware(request: NextRequest) {
+export function middleware(request: NextRequest, event: NextFetchEvent) {
     const { pathname } = request.nextUrl;
     const accessToken = request.cookies.get('accessToken')?.value;
 
@@ -69,6 +70,24 @@ export function middleware(request: NextRequest) {
             }
         }
 
+        // Admin pages need the permission they declare - APIs enforce it again against the DB role
+        if (pathname.startsWith('/admin') && userType === 'ADMIN' && !hasPermission(userPayload?.adminRole, getPagePermission(pathname))) {
+            // Middleware has no DB access - let the API record the denial
+            event.waitUntil(
+                fetch(new URL('/api/admin/access-denied', request.url), {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        cookie: request.headers.get('cookie') || '',
+                        'x-forwarded-for': request.headers.get('x-forwarded-for') || '',
+                        'user-agent': request.headers.get('user-agent') || '',
+                    },
+                    body: JSON.stringify({ path: pathname }),
+                }).catch(() => undefined)
+            );
+            return NextResponse.redirect(new URL('/admin', request.url));
+        }
+
         // AGENT users cannot access /dashboard or /merchant - redirect them to /agent
         if ((pathname.startsWith('/dashboard') || pathname.startsWith('/merchant')) && userType === 'AGENT') {
             return NextResponse.redirect(new URL('/agent', request.url));